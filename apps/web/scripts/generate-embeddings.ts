@@ -3,18 +3,33 @@
  *
  * This script builds a deterministic, local-first embedding index that can be
  * loaded by the web app for semantic search without external API calls.
+ *
+ * Usage:
+ *   bun run scripts/generate-embeddings.ts
+ *   bun run scripts/generate-embeddings.ts --backend=transformers [--model=<id>]
+ *     [--model-dir=<path>] [--allow-download]
+ *
+ * The default backend is the hashing embedder. The transformers backend runs a
+ * small sentence-transformer on CPU via ONNX, reading model files from
+ * --model-dir (default: public/models) unless --allow-download is given. The
+ * browser loads the same model from /models/ to embed queries, so keep the
+ * model files under public/models when deploying a transformers index.
  */
 
 import { readFile, writeFile } from "fs/promises";
 import path from "path";
 
 import {
-  EMBEDDING_DIMENSION,
   EMBEDDING_INDEX_VERSION,
-  embedText,
+  hashingEmbeddingProvider,
   type EmbeddingEntry,
   type EmbeddingIndex,
+  type EmbeddingProvider,
 } from "../src/lib/brenner-loop/search/embeddings";
+import {
+  DEFAULT_TRANSFORMERS_MODEL,
+  createTransformersEmbeddingProvider,
+} from "../src/lib/brenner-loop/search/transformers-embeddings";
 import { OPERATOR_DOCUMENTATION } from "../src/lib/brenner-loop/operators/docs";
 
 interface SectionBlock {
@@ -27,6 +42,10 @@ interface DistillationBlock {
   lines: string[];
 }
 
+type PendingEntry = Omit<EmbeddingEntry, "embedding">;
+
+type EmbeddingBackend = "hashing" | "transformers";
+
 const REPO_ROOT = path.resolve(process.cwd(), "../..");
 const OUTPUT_PATH = path.resolve(process.cwd(), "public", "embeddings.json");
 
@@ -47,7 +66,30 @@ const DISTILLATION_PATHS = [
   },
 ];
 
+function getArg(args: string[], name: string): string | undefined {
+  return args.find((arg) => arg.startsWith(`--${name}=`))?.split("=").slice(1).join("=");
+}
+
+function createProvider(args: string[]): EmbeddingProvider {
+  const backend = (getArg(args, "backend") ?? "hashing") as EmbeddingBackend;
+
+  switch (backend) {
+    case "hashing":
+      return hashingEmbeddingProvider;
+    case "transformers":
+      return createTransformersEmbeddingProvider({
+        model: getArg(args, "model") ?? DEFAULT_TRANSFORMERS_MODEL,
+        localModelPath: path.resolve(getArg(args, "model-dir") ?? path.join(process.cwd(), "public", "models")),
+        allowRemoteModels: args.includes("--allow-download"),
+      });
+    default:
+      throw new Error(`Unknown embedding backend "${backend}" (expected hashing or transformers)`);
+  }
+}
+
 async function main(): Promise<void> {
+  const provider = createProvider(process.argv.slice(2));
+
   const [transcriptText, quoteBankText, distillationTexts] = await Promise.all([
     readFile(TRANSCRIPT_PATH, "utf8"),
     readFile(QUOTE_BANK_PATH, "utf8"),
@@ -64,22 +106,27 @@ async function main(): Promise<void> {
   );
   const operatorEntries = buildOperatorEntries();
 
-  const entries: EmbeddingEntry[] = [
+  const pending: PendingEntry[] = [
     ...transcriptEntries,
     ...distillationEntries,
     ...quoteEntries,
     ...operatorEntries,
   ];
 
+  const vectors = await provider.embed(pending.map((entry) => entry.text));
+  const entries: EmbeddingEntry[] = pending.map((entry, i) => ({ ...entry, embedding: vectors[i] }));
+
   const index: EmbeddingIndex = {
     version: EMBEDDING_INDEX_VERSION,
-    dimension: EMBEDDING_DIMENSION,
+    dimension: provider.dimension,
+    model: provider.id,
     entries,
   };
 
   await writeFile(OUTPUT_PATH, JSON.stringify(index));
 
   console.log("Embeddings generated:");
+  console.log(`- Model: ${provider.id}`);
   console.log(`- Transcript chunks: ${transcriptEntries.length}`);
   console.log(`- Distillation chunks: ${distillationEntries.length}`);
   console.log(`- Quote entries: ${quoteEntries.length}`);
@@ -88,9 +135,9 @@ async function main(): Promise<void> {
   console.log(`- Output: ${OUTPUT_PATH}`);
 }
 
-function buildTranscriptEntries(markdown: string): EmbeddingEntry[] {
+function buildTranscriptEntries(markdown: string): PendingEntry[] {
   const sections = parseSections(markdown);
-  const entries: EmbeddingEntry[] = [];
+  const entries: PendingEntry[] = [];
 
   for (const block of sections) {
     const paragraphs = toParagraphs(block.lines);
@@ -106,7 +153,6 @@ function buildTranscriptEntries(markdown: string): EmbeddingEntry[] {
         text: cleaned,
         section: block.section,
         source: "transcript",
-        embedding: embedText(cleaned),
       });
     }
   }
@@ -114,9 +160,9 @@ function buildTranscriptEntries(markdown: string): EmbeddingEntry[] {
   return entries;
 }
 
-function buildQuoteEntries(markdown: string): EmbeddingEntry[] {
+function buildQuoteEntries(markdown: string): PendingEntry[] {
   const sections = parseSections(markdown);
-  const entries: EmbeddingEntry[] = [];
+  const entries: PendingEntry[] = [];
 
   for (const block of sections) {
     const lines = block.lines;
@@ -139,16 +185,15 @@ function buildQuoteEntries(markdown: string): EmbeddingEntry[] {
       text: combined,
       section: block.section,
       source: "quote",
-      embedding: embedText(combined),
     });
   }
 
   return entries;
 }
 
-function buildDistillationEntries(markdown: string, source: string): EmbeddingEntry[] {
+function buildDistillationEntries(markdown: string, source: string): PendingEntry[] {
   const blocks = parseDistillationBlocks(markdown);
-  const entries: EmbeddingEntry[] = [];
+  const entries: PendingEntry[] = [];
 
   blocks.forEach((block, index) => {
     const combined = normalizeText([block.heading, ...block.lines].join("\n"));
@@ -158,14 +203,13 @@ function buildDistillationEntries(markdown: string, source: string): EmbeddingEn
       id: `distillation-${source}-${index + 1}`,
       text: combined,
       source: "distillation",
-      embedding: embedText(combined),
     });
   });
 
   return entries;
 }
 
-function buildOperatorEntries(): EmbeddingEntry[] {
+function buildOperatorEntries(): PendingEntry[] {
   return Object.values(OPERATOR_DOCUMENTATION).map((doc) => {
     const combined = normalizeText(
       [
@@ -186,7 +230,6 @@ function buildOperatorEntries(): EmbeddingEntry[] {
       id: `operator-${doc.type}`,
       text: combined,
       source: "operator",
-      embedding: embedText(combined),
     };
   });
 }
@@ -0,0 +1,102 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { randomUUID } from "node:crypto";
+import { existsSync, mkdirSync, readFileSync, rmSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+
+// Auth mock state
+let authAuthorized = true;
+
+vi.mock("next/headers", () => ({
+  headers: async () => new Headers(),
+  cookies: async () => ({}),
+}));
+
+vi.mock("@/lib/auth", () => ({
+  checkOrchestrationAuth: () => ({ authorized: authAuthorized, reason: authAuthorized ? "ok" : "Lab mode disabled" }),
+}));
+
+import type { NextRequest } from "next/server";
+import { POST } from "./route";
+
+function makeRequest(body: unknown): NextRequest {
+  return { json: async () => body } as unknown as NextRequest;
+}
+
+const CSL = JSON.stringify([
+  {
+    id: "a",
+    type: "article-journal",
+    title: "The genetics of Caenorhabditis elegans",
+    "container-title": "Genetics",
+    DOI: "10.1093/genetics/77.1.71",
+    abstract: "Methods are described for the isolation of mutants.",
+  },
+  { id: "b", type: "dataset", title: "Worm connectome" },
+  { id: "c", type: "article-journal", title: "The Genetics of Caenorhabditis elegans", "container-title": "Genetics" },
+]);
+
+describe("POST /api/evidence", () => {
+  let testDir: string;
+
+  beforeEach(() => {
+    authAuthorized = true;
+    testDir = join(tmpdir(), `brenner-test-${randomUUID()}`);
+    mkdirSync(testDir, { recursive: true });
+  });
+
+  afterEach(() => {
+    rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it("rejects unauthorized requests", async () => {
+    authAuthorized = false;
+    const response = await POST(makeRequest({ threadId: "RS-1", content: CSL }));
+    expect(response.status).toBe(404);
+  });
+
+  it("validates the request", async () => {
+    const missing = await POST(makeRequest({ projectKey: testDir, threadId: "RS-1", content: " " }));
+    expect(missing.status).toBe(400);
+    expect((await missing.json()).error).toBe("Missing content");
+
+    const badFormat = await POST(makeRequest({ projectKey: testDir, threadId: "RS-1", content: CSL, format: "endnote" }));
+    expect((await badFormat.json()).error).toBe("Invalid format: must be one of bibtex, ris, csl-json");
+
+    const undetectable = await POST(makeRequest({ projectKey: testDir, threadId: "RS-1", content: "notes" }));
+    expect((await undetectable.json()).error).toContain("Could not detect citation format");
+  });
+
+  it("imports into the thread's evidence pack and skips duplicates", async () => {
+    const response = await POST(
+      makeRequest({ projectKey: testDir, threadId: "RS-1", content: CSL, fileName: "zotero.json", includeAbstracts: true })
+    );
+    expect(response.status).toBe(200);
+    const json = await response.json();
+
+    expect(json.format).toBe("csl-json");
+    expect(json.added.map((a: { id: string; type: string }) => [a.id, a.type])).toEqual([
+      ["EV-001", "paper"],
+      ["EV-002", "dataset"],
+    ]);
+    expect(json.skipped).toEqual([
+      expect.objectContaining({ key: "c", reason: "duplicate_title", duplicateOf: "EV-001" }),
+    ]);
+
+    const pack = JSON.parse(readFileSync(json.evidenceFile, "utf8"));
+    expect(json.evidenceFile).toBe(join(testDir, "artifacts", "RS-1", "evidence.json"));
+    expect(pack.thread_id).toBe("RS-1");
+    expect(pack.records[0].excerpts[0]).toMatchObject({ anchor: "E1", location: "abstract" });
+
+    const again = await (await POST(makeRequest({ projectKey: testDir, threadId: "RS-1", content: CSL }))).json();
+    expect(again.added).toEqual([]);
+    expect(again.skipped).toHaveLength(3);
+  });
+
+  it("writes nothing on a dry run", async () => {
+    const response = await POST(makeRequest({ projectKey: testDir, threadId: "RS-1", content: CSL, dryRun: true }));
+    const json = await response.json();
+    expect(json.added).toHaveLength(2);
+    expect(existsSync(join(testDir, "artifacts", "RS-1", "evidence.json"))).toBe(false);
+  });
+});
@@ -0,0 +1,169 @@
+/**
+ * Evidence Import API
+ *
+ * Imports a reference-manager export (BibTeX, RIS or CSL-JSON) into a
+ * thread's evidence pack, the same way `brenner evidence import` does.
+ * Requires lab mode + orchestration auth.
+ *
+ * POST /api/evidence
+ * Body: { projectKey?, threadId, content, format?, fileName?, includeAbstracts?, relevance?, importedBy?, dryRun? }
+ * Returns: the added and skipped entries plus parse warnings
+ *
+ * @see specs/evidence_pack_v0.1.md
+ */
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { isAbsolute, join, resolve, win32 } from "node:path";
+import { cookies, headers } from "next/headers";
+import { NextResponse, type NextRequest } from "next/server";
+import { checkOrchestrationAuth } from "@/lib/auth";
+import {
+  CITATION_FORMATS,
+  createEvidencePack,
+  importLibraryIntoEvidencePack,
+  parseCitationLibrary,
+  type CitationFormat,
+  type EvidenceImportAdded,
+  type EvidenceImportSkipped,
+  type EvidencePack,
+} from "@/lib/evidence-import";
+
+export const runtime = "nodejs";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface EvidenceImportRequest {
+  projectKey?: string;
+  threadId: string;
+  /** Raw export file contents */
+  content: string;
+  format?: CitationFormat;
+  /** Original file name, used to detect the format */
+  fileName?: string;
+  includeAbstracts?: boolean;
+  relevance?: string;
+  importedBy?: string;
+  dryRun?: boolean;
+}
+
+interface EvidenceImportResponse {
+  success: true;
+  format: CitationFormat;
+  dryRun: boolean;
+  evidenceFile: string;
+  added: EvidenceImportAdded[];
+  skipped: EvidenceImportSkipped[];
+  warnings: string[];
+}
+
+interface ErrorResponse {
+  success: false;
+  error: string;
+  code: "VALIDATION_ERROR" | "AUTH_ERROR" | "SERVER_ERROR";
+}
+
+/** Zotero exports of a few thousand references stay well under this */
+const MAX_CONTENT_CHARS = 10_000_000;
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function repoRootFromWebCwd(): string {
+  return resolve(process.cwd(), "../..");
+}
+
+function validationError(error: string): NextResponse<ErrorResponse> {
+  return NextResponse.json({ success: false, error, code: "VALIDATION_ERROR" }, { status: 400 });
+}
+
+// ============================================================================
+// POST Handler
+// ============================================================================
+
+export async function POST(request: NextRequest): Promise<NextResponse<EvidenceImportResponse | ErrorResponse>> {
+  const authResult = checkOrchestrationAuth(await headers(), await cookies());
+  if (!authResult.authorized) {
+    return NextResponse.json({ success: false, error: "Not found", code: "AUTH_ERROR" }, { status: 404 });
+  }
+
+  let body: EvidenceImportRequest;
+  try {
+    body = await request.json();
+  } catch {
+    return validationError("Invalid JSON body");
+  }
+
+  const { threadId, content, format } = body;
+  if (typeof threadId !== "string" || !threadId.trim()) return validationError("Missing threadId");
+  if (typeof content !== "string" || !content.trim()) return validationError("Missing content");
+  if (content.length > MAX_CONTENT_CHARS) return validationError(`Content exceeds ${MAX_CONTENT_CHARS} characters`);
+  if (format !== undefined && !CITATION_FORMATS.includes(format)) {
+    return validationError(`Invalid format: must be one of ${CITATION_FORMATS.join(", ")}`);
+  }
+
+  const rawProjectKey = body.projectKey || process.env.BRENNER_PROJECT_KEY || repoRootFromWebCwd();
+  if (!isAbsolute(rawProjectKey) && !win32.isAbsolute(rawProjectKey)) {
+    return validationError("Invalid projectKey: must be an absolute path");
+  }
+
+  const safeThreadId = threadId.replace(/[^a-zA-Z0-9_.-]/g, "_");
+  if (safeThreadId === "." || safeThreadId === "..") return validationError("Invalid threadId");
+
+  const parsed = parseCitationLibrary(content, { format, fileName: body.fileName });
+  if ("error" in parsed) return validationError(parsed.error);
+
+  const evidenceDir = join(resolve(rawProjectKey), "artifacts", safeThreadId);
+  const evidenceFile = join(evidenceDir, "evidence.json");
+
+  let pack: EvidencePack;
+  try {
+    pack = existsSync(evidenceFile)
+      ? (JSON.parse(readFileSync(evidenceFile, "utf8")) as EvidencePack)
+      : createEvidencePack(threadId);
+  } catch (e) {
+    const msg = e instanceof Error ? e.message : String(e);
+    return NextResponse.json(
+      { success: false, error: `Malformed evidence pack ${evidenceFile}: ${msg}`, code: "SERVER_ERROR" },
+      { status: 500 }
+    );
+  }
+  if (!Array.isArray(pack.records) || typeof pack.next_id !== "number") {
+    return NextResponse.json(
+      { success: false, error: `Malformed evidence pack ${evidenceFile}`, code: "SERVER_ERROR" },
+      { status: 500 }
+    );
+  }
+
+  const result = importLibraryIntoEvidencePack(pack, parsed, {
+    importedBy: body.importedBy?.trim() || "operator",
+    includeAbstracts: body.includeAbstracts === true,
+    relevance: body.relevance,
+  });
+
+  const dryRun = body.dryRun === true;
+  if (!dryRun && result.added.length > 0) {
+    try {
+      mkdirSync(evidenceDir, { recursive: true });
+      writeFileSync(evidenceFile, JSON.stringify(result.pack, null, 2), "utf8");
+    } catch (e) {
+      const msg = e instanceof Error ? e.message : String(e);
+      return NextResponse.json(
+        { success: false, error: `Failed to write evidence pack: ${msg}`, code: "SERVER_ERROR" },
+        { status: 500 }
+      );
+    }
+  }
+
+  return NextResponse.json({
+    success: true,
+    format: parsed.format,
+    dryRun,
+    evidenceFile,
+    added: result.added,
+    skipped: result.skipped,
+    warnings: parsed.warnings,
+  });
+}
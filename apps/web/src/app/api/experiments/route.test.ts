@@ -18,13 +18,46 @@ vi.mock("@/lib/auth", () => ({
   checkOrchestrationAuth: () => ({ authorized: authAuthorized, reason: authReason }),
 }));
 
+// Sandbox backends: null = pretend every limit is enforced and run commands unwrapped,
+// since web runs refuse to start on hosts (like CI) without bwrap and systemd-run
+let sandboxCapabilities: SandboxCapabilities | null = null;
+
+vi.mock("@/lib/experiment-sandbox", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("@/lib/experiment-sandbox")>();
+  return {
+    ...actual,
+    detectSandboxCapabilities: () =>
+      sandboxCapabilities ?? { "systemd-run": true, bwrap: true, unshare: true, prlimit: true },
+    planSandboxedCommand: (...args: Parameters<typeof actual.planSandboxedCommand>) => {
+      if (sandboxCapabilities) return actual.planSandboxedCommand(...args);
+      const [argv, , paths] = args;
+      return {
+        ok: true,
+        plan: {
+          argv,
+          env: { TMPDIR: paths.scratchDir, BRENNER_SCRATCH_DIR: paths.scratchDir },
+          enforced: { memory: "systemd-run", cpu: "systemd-run", network: "bwrap", filesystem: "bwrap" },
+          warnings: [],
+        },
+      };
+    },
+  };
+});
+
 import type { NextRequest } from "next/server";
-import { POST } from "./route";
+import { NO_SANDBOX_CAPABILITIES, type SandboxCapabilities } from "@/lib/experiment-sandbox";
+import { GET, POST } from "./route";
 
 function makeRequest(body: unknown): NextRequest {
   return { json: async () => body } as unknown as NextRequest;
 }
 
+function makeGetRequest(params: Record<string, string>): NextRequest {
+  const url = new URL("http://localhost/api/experiments");
+  for (const [key, value] of Object.entries(params)) url.searchParams.set(key, value);
+  return { nextUrl: url } as unknown as NextRequest;
+}
+
 describe("POST /api/experiments", () => {
   let testDir: string;
 
@@ -32,6 +65,7 @@ describe("POST /api/experiments", () => {
     // Reset auth state
     authAuthorized = true;
     authReason = "ok";
+    sandboxCapabilities = null;
 
     // Create a temp directory for each test
     testDir = join(tmpdir(), `brenner-test-${randomUUID()}`);
@@ -353,13 +387,13 @@ describe("POST /api/experiments", () => {
       expect(json.result.runtime.bun_version).toBeDefined();
     });
 
-    it("truncates very large stdout output", async () => {
+    it("truncates very large stdout output, keeping the tail", async () => {
       const response = await POST(
         makeRequest({
           projectKey: testDir,
           threadId: "TEST-TRUNC",
           testId: "T5",
-          command: ["bash", "-c", "yes a | head -c 250000"],
+          command: ["bash", "-c", "yes a | head -c 250000; echo 'BRENNER_OUTCOME {}'"],
           timeout: 10,
         })
       );
@@ -368,8 +402,143 @@ describe("POST /api/experiments", () => {
       const json = await response.json();
 
       expect(json.success).toBe(true);
-      expect(json.result.stdout).toContain("truncated");
+      expect(json.result.stdout).toMatch(/^…\(truncated\)…\n/);
+      expect(json.result.stdout).toMatch(/BRENNER_OUTCOME \{\}\n$/);
       expect(json.result.stdout.length).toBeLessThanOrEqual(200000 + 32);
     });
+
+    it("passes the command only an allowlisted environment", async () => {
+      vi.stubEnv("BRENNER_AGENT_MAIL_TOKEN", "server-secret");
+      try {
+        const response = await POST(
+          makeRequest({
+            projectKey: testDir,
+            threadId: "TEST-ENV",
+            testId: "T1",
+            command: ["bash", "-c", 'echo "${BRENNER_AGENT_MAIL_TOKEN:-unset}|$PATH"'],
+            timeout: 10,
+          })
+        );
+        const json = await response.json();
+        expect(json.result.stdout.trim()).toBe(`unset|${process.env.PATH}`);
+      } finally {
+        vi.unstubAllEnvs();
+      }
+    });
+  });
+
+  describe("run history", () => {
+    it("logs each run and serves the thread's history", async () => {
+      for (const code of [0, 3]) {
+        const response = await POST(
+          makeRequest({
+            projectKey: testDir,
+            threadId: "TEST-HISTORY",
+            testId: "T1",
+            command: ["bash", "-c", `exit ${code}`],
+            timeout: 10,
+          })
+        );
+        expect(response.status).toBe(200);
+      }
+
+      const response = await GET(makeGetRequest({ projectKey: testDir, threadId: "TEST-HISTORY" }));
+      expect(response.status).toBe(200);
+      const json = await response.json();
+
+      expect(json.success).toBe(true);
+      expect(json.histories).toHaveLength(1);
+      const [history] = json.histories;
+      expect(history.testId).toBe("T1");
+      expect(history.runs.map((r: { exit_code: number }) => r.exit_code)).toEqual([0, 3]);
+      expect(history.runs[0].command).toEqual(["bash", "-c", "exit 0"]);
+      expect(history.runs[0].result_path).toMatch(/^artifacts\/TEST-HISTORY\/experiments\/T1\//);
+      expect(history.summary.statusCounts).toEqual({ passed: 1, failed: 1, blocked: 0 });
+      expect(history.summary.disagreements[0].signal).toBe("status");
+    });
+
+    it("filters by test and ignores other threads", async () => {
+      await POST(
+        makeRequest({ projectKey: testDir, threadId: "TEST-OTHER", testId: "T1", command: ["echo", "x"], timeout: 10 })
+      );
+
+      const response = await GET(makeGetRequest({ projectKey: testDir, threadId: "TEST-HISTORY", testId: "T1" }));
+      const json = await response.json();
+      expect(json).toEqual({ success: true, histories: [] });
+    });
+
+    it("validates the query and requires auth", async () => {
+      const missing = await GET(makeGetRequest({ projectKey: testDir }));
+      expect(missing.status).toBe(400);
+
+      const relativeKey = await GET(makeGetRequest({ projectKey: "relative/dir", threadId: "TEST" }));
+      expect(relativeKey.status).toBe(400);
+
+      authAuthorized = false;
+      const denied = await GET(makeGetRequest({ projectKey: testDir, threadId: "TEST" }));
+      expect(denied.status).toBe(404);
+    });
+  });
+
+  describe("execution profiles", () => {
+    it("rejects unknown profiles", async () => {
+      const response = await POST(
+        makeRequest({ projectKey: testDir, threadId: "TEST", testId: "T1", command: ["echo", "x"], profile: "root" })
+      );
+      expect(response.status).toBe(400);
+      const json = await response.json();
+      expect(json.error).toContain("must be one of standard, strict");
+    });
+
+    it("records the standard profile by default", async () => {
+      const response = await POST(
+        makeRequest({ projectKey: testDir, threadId: "TEST-SANDBOX", testId: "T1", command: ["bash", "-c", "echo $BRENNER_SCRATCH_DIR"], timeout: 3600 })
+      );
+
+      expect(response.status).toBe(200);
+      const json = await response.json();
+      expect(json.result.timeout_seconds).toBe(900);
+      expect(json.result.sandbox).toMatchObject({
+        profile: "standard",
+        limits: { memory_mb: 2048, cpus: 2, wall_clock_seconds: 900, network: "deny", filesystem: "readonly-project" },
+        enforced: { memory: "systemd-run", cpu: "systemd-run", network: "bwrap", filesystem: "bwrap" },
+        stdout_truncated: false,
+        warnings: [],
+      });
+      expect(json.result.stdout.trim()).toBe(json.result.sandbox.scratch_dir);
+      // The scratch dir only lives as long as the run
+      expect(existsSync(json.result.sandbox.scratch_dir)).toBe(false);
+    });
+
+    it("refuses standard runs it cannot enforce", async () => {
+      sandboxCapabilities = NO_SANDBOX_CAPABILITIES;
+      const response = await POST(
+        makeRequest({ projectKey: testDir, threadId: "TEST", testId: "T1", command: ["echo", "x"] })
+      );
+      expect(response.status).toBe(503);
+      const json = await response.json();
+      expect(json.error).toContain('Profile "standard" cannot be enforced here');
+      expect(existsSync(join(testDir, "artifacts", "TEST"))).toBe(false);
+    });
+
+    it("refuses strict runs it cannot enforce", async () => {
+      sandboxCapabilities = { ...NO_SANDBOX_CAPABILITIES, prlimit: true };
+      const response = await POST(
+        makeRequest({ projectKey: testDir, threadId: "TEST", testId: "T1", command: ["echo", "x"], profile: "strict" })
+      );
+      expect(response.status).toBe(503);
+      const json = await response.json();
+      expect(json.error).toContain('Profile "strict" cannot be enforced here');
+    });
+
+    it("leaves unrestricted runs to the CLI", async () => {
+      const response = await POST(
+        makeRequest({ projectKey: testDir, threadId: "TEST", testId: "T1", command: ["echo", "free"], profile: "unrestricted" })
+      );
+      expect(response.status).toBe(403);
+      const json = await response.json();
+      expect(json.error).toContain('Profile "unrestricted" is only available from the CLI');
+      expect(existsSync(join(testDir, "artifacts", "TEST"))).toBe(false);
+    });
   });
 });
@@ -5,17 +5,45 @@
  * underlying runner as the CLI. Requires lab mode + orchestration auth.
  *
  * POST /api/experiments
- * Body: { projectKey, threadId, testId, command, timeout?, cwd? }
+ * Body: { projectKey, threadId, testId, command, timeout?, cwd?, profile? }
  * Returns: ExperimentResult JSON (stdout/stderr/exit code/duration + provenance)
+ *
+ * Runs default to the "standard" execution profile (resource limits, no
+ * network, read-only project) so agents can trigger them from the UI. Unlike
+ * the CLI, web runs refuse to start when any limit cannot be enforced, and the
+ * command only inherits an allowlisted environment (no server secrets).
+ *
+ * GET /api/experiments?threadId=...&testId=...&projectKey=...
+ * Returns: the thread's logged run history per test, with flakiness summaries
   */
 
   import { randomUUID } from "node:crypto";
   import { dirname, isAbsolute, join, relative, resolve, sep, win32 } from "node:path";
   import { spawn, spawnSync } from "node:child_process";
-  import { mkdirSync, writeFileSync } from "node:fs";
+  import { mkdirSync, rmSync, writeFileSync } from "node:fs";
+  import { tmpdir } from "node:os";
   import { headers, cookies } from "next/headers";
   import { NextResponse, type NextRequest } from "next/server";
   import { checkOrchestrationAuth } from "@/lib/auth";
+  import {
+    EXECUTION_PROFILES,
+    EXECUTION_PROFILE_NAMES,
+    OutputCollector,
+    allowlistedEnv,
+    detectSandboxCapabilities,
+    effectiveTimeoutSeconds,
+    isExecutionProfileName,
+    planSandboxedCommand,
+    sandboxProvenance,
+    type ExecutionProfileName,
+    type SandboxProvenance,
+  } from "@/lib/experiment-sandbox";
+  import {
+    runEntryFromResult,
+    summarizeRunHistory,
+    type ExperimentRunHistory,
+  } from "@/lib/schemas/experiment-run";
+  import { ExperimentRunStorage } from "@/lib/storage/experiment-run-storage";
 
 export const runtime = "nodejs";
 
@@ -36,6 +64,8 @@ interface ExperimentRunRequest {
   timeout?: number;
   /** Working directory relative to projectKey (default: projectKey) */
   cwd?: string;
+  /** Execution profile (default: "standard") */
+  profile?: ExecutionProfileName;
 }
 
 interface ExperimentResultV01 {
@@ -70,6 +100,7 @@ interface ExperimentResultV01 {
     arch: string;
     bun_version: string;
   };
+  sandbox: SandboxProvenance;
 }
 
 interface ExperimentRunResponse {
@@ -78,6 +109,11 @@ interface ExperimentRunResponse {
   resultFile: string;
 }
 
+interface ExperimentHistoryResponse {
+  success: true;
+  histories: ExperimentRunHistory[];
+}
+
 interface ErrorResponse {
   success: false;
   error: string;
@@ -210,6 +246,15 @@ function bestEffortGitProvenance(cwd: string): { sha: string; branch: string | n
   }
 }
 
+/**
+ * Resolve the project workspace, or null if the given key is not absolute.
+ */
+function resolveProjectKey(requested: string | null | undefined): string | null {
+  const rawProjectKey = requested || process.env.BRENNER_PROJECT_KEY || repoRootFromWebCwd();
+  if (!isAbsolute(rawProjectKey) && !win32.isAbsolute(rawProjectKey)) return null;
+  return resolve(rawProjectKey);
+}
+
 function isWithinDir(baseDir: string, candidatePath: string): boolean {
   const rel = relative(baseDir, candidatePath);
   if (rel === "") return true;
@@ -301,19 +346,43 @@ export async function POST(request: NextRequest): Promise<NextResponse<Experimen
     );
   }
 
+  // Validate profile
+  const profileName = body.profile ?? "standard";
+  if (typeof profileName !== "string" || !isExecutionProfileName(profileName)) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: `Invalid profile: must be one of ${EXECUTION_PROFILE_NAMES.filter((name) => name !== "unrestricted").join(", ")}`,
+        code: "VALIDATION_ERROR",
+      },
+      { status: 400 }
+    );
+  }
+  // Opting out of the sandbox is a local decision; web requests always run sandboxed
+  if (profileName === "unrestricted") {
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Profile "unrestricted" is only available from the CLI (brenner experiment run --profile unrestricted)',
+        code: "VALIDATION_ERROR",
+      },
+      { status: 403 }
+    );
+  }
+  // Commands arrive over HTTP: a limit that cannot be enforced means no run
+  const profile = { ...EXECUTION_PROFILES[profileName], requireEnforcement: true };
+  const timeoutSeconds = effectiveTimeoutSeconds(profile, timeout);
+
   try {
     // Resolve paths
-    const rawProjectKey = body.projectKey || process.env.BRENNER_PROJECT_KEY || repoRootFromWebCwd();
-    const isAbsoluteProjectKey = isAbsolute(rawProjectKey) || win32.isAbsolute(rawProjectKey);
-    if (!isAbsoluteProjectKey) {
+    const projectKey = resolveProjectKey(body.projectKey);
+    if (!projectKey) {
       return NextResponse.json(
         { success: false, error: "Invalid projectKey: must be an absolute path", code: "VALIDATION_ERROR" },
         { status: 400 }
       );
     }
 
-    const projectKey = resolve(rawProjectKey);
-
     if (body.cwd && (isAbsolute(body.cwd) || win32.isAbsolute(body.cwd))) {
       return NextResponse.json(
         { success: false, error: "Invalid cwd: must be a relative path within projectKey", code: "VALIDATION_ERROR" },
@@ -350,54 +419,42 @@ export async function POST(request: NextRequest): Promise<NextResponse<Experimen
       `${timestamp}_${resultId}.json`
     );
 
+    // Wrap the command in the profile's sandbox
+    const capabilities = detectSandboxCapabilities();
+    const scratchDir = profile.filesystem === "readonly-project" ? join(tmpdir(), `brenner-scratch-${resultId}`) : null;
+    const planned = planSandboxedCommand(
+      command,
+      profile,
+      { projectDir: projectKey, cwd, scratchDir: scratchDir ?? cwd },
+      capabilities
+    );
+    if (!planned.ok) {
+      return NextResponse.json(
+        { success: false, error: planned.error, code: "EXECUTION_ERROR" },
+        { status: 503 }
+      );
+    }
+    if (scratchDir) mkdirSync(scratchDir, { recursive: true });
+
     // Execute command with timeout
     const startedAt = createdAt;
     let timedOut = false;
-    const stdoutChunks: string[] = [];
-    const stderrChunks: string[] = [];
     const MAX_OUTPUT_CHARS = 200_000;
-    let stdoutTruncated = false;
-    let stderrTruncated = false;
-    let stdoutChars = 0;
-    let stderrChars = 0;
-
-    const proc = spawn(command[0], command.slice(1), { cwd, stdio: ["ignore", "pipe", "pipe"] });
+    const outputCap = Math.min(profile.maxOutputChars ?? MAX_OUTPUT_CHARS, MAX_OUTPUT_CHARS);
+    const stdoutCollector = new OutputCollector(outputCap);
+    const stderrCollector = new OutputCollector(outputCap);
+
+    const proc = spawn(planned.plan.argv[0], planned.plan.argv.slice(1), {
+      cwd,
+      env: { ...allowlistedEnv(), ...planned.plan.env },
+      stdio: ["ignore", "pipe", "pipe"],
+    });
     proc.stdout?.setEncoding("utf8");
     proc.stderr?.setEncoding("utf8");
-    proc.stdout?.on("data", (chunk: string) => {
-      if (stdoutTruncated) return;
-      const remaining = MAX_OUTPUT_CHARS - stdoutChars;
-      if (remaining <= 0) {
-        stdoutTruncated = true;
-        return;
-      }
-      if (chunk.length > remaining) {
-        stdoutChunks.push(chunk.slice(0, remaining));
-        stdoutChars += remaining;
-        stdoutTruncated = true;
-        return;
-      }
-      stdoutChunks.push(chunk);
-      stdoutChars += chunk.length;
-    });
-    proc.stderr?.on("data", (chunk: string) => {
-      if (stderrTruncated) return;
-      const remaining = MAX_OUTPUT_CHARS - stderrChars;
-      if (remaining <= 0) {
-        stderrTruncated = true;
-        return;
-      }
-      if (chunk.length > remaining) {
-        stderrChunks.push(chunk.slice(0, remaining));
-        stderrChars += remaining;
-        stderrTruncated = true;
-        return;
-      }
-      stderrChunks.push(chunk);
-      stderrChars += chunk.length;
-    });
+    proc.stdout?.on("data", (chunk: string) => stdoutCollector.push(chunk));
+    proc.stderr?.on("data", (chunk: string) => stderrCollector.push(chunk));
 
-    const timeoutMs = timeout * 1000;
+    const timeoutMs = timeoutSeconds * 1000;
     let sigkillTimer: ReturnType<typeof setTimeout> | null = null;
     const killTimer = setTimeout(() => {
       timedOut = true;
@@ -421,10 +478,8 @@ export async function POST(request: NextRequest): Promise<NextResponse<Experimen
         proc.on("close", (code) => resolveExitCode(code));
       });
 
-      let stdout = stdoutChunks.join("");
-      let stderr = stderrChunks.join("");
-      if (stdoutTruncated) stdout += "\n…(truncated)…\n";
-      if (stderrTruncated) stderr += "\n…(truncated)…\n";
+      const stdout = stdoutCollector.text();
+      const stderr = stderrCollector.text();
       const resolvedExitCode = typeof exitCode === "number" ? exitCode : timedOut ? 124 : 1;
 
       const finishedAt = new Date();
@@ -443,7 +498,7 @@ export async function POST(request: NextRequest): Promise<NextResponse<Experimen
         cwd,
         argv: command,
 
-        timeout_seconds: timeout,
+        timeout_seconds: timeoutSeconds,
         timed_out: timedOut,
 
         exit_code: resolvedExitCode,
@@ -456,12 +511,28 @@ export async function POST(request: NextRequest): Promise<NextResponse<Experimen
 
         ...(git ? { git } : {}),
         runtime: { platform: process.platform, arch: process.arch, bun_version },
+        sandbox: sandboxProvenance(profile, planned.plan, {
+          timeoutSeconds,
+          capabilities,
+          scratchDir,
+          stdout: stdoutCollector,
+          stderr: stderrCollector,
+        }),
       };
 
       // Write result file
       mkdirSync(dirname(resultFile), { recursive: true });
       writeFileSync(resultFile, JSON.stringify(result, null, 2), "utf8");
 
+      // Append to the run log; the result file is the source of truth, so a failure here only warns
+      try {
+        await new ExperimentRunStorage({ baseDir: projectKey }).appendRun(
+          runEntryFromResult(result, relative(projectKey, resultFile))
+        );
+      } catch (logErr) {
+        console.warn(`[experiments] Result ${resultId} not added to the run log:`, logErr);
+      }
+
       return NextResponse.json({
         success: true,
         result,
@@ -470,6 +541,7 @@ export async function POST(request: NextRequest): Promise<NextResponse<Experimen
     } finally {
       clearTimeout(killTimer);
       if (sigkillTimer) clearTimeout(sigkillTimer);
+      if (scratchDir) rmSync(scratchDir, { recursive: true, force: true });
     }
   } catch (err) {
     const message = err instanceof Error ? err.message : String(err);
@@ -479,3 +551,60 @@ export async function POST(request: NextRequest): Promise<NextResponse<Experimen
     );
   }
 }
+
+// ============================================================================
+// GET Handler
+// ============================================================================
+
+export async function GET(request: NextRequest): Promise<NextResponse<ExperimentHistoryResponse | ErrorResponse>> {
+  const reqHeaders = await headers();
+  const reqCookies = await cookies();
+  const authResult = checkOrchestrationAuth(reqHeaders, reqCookies);
+
+  if (!authResult.authorized) {
+    return NextResponse.json(
+      { success: false, error: "Not found", code: "AUTH_ERROR" },
+      { status: 404 }
+    );
+  }
+
+  const params = request.nextUrl.searchParams;
+  const threadId = params.get("threadId")?.trim();
+  const testId = params.get("testId")?.trim();
+
+  if (!threadId) {
+    return NextResponse.json(
+      { success: false, error: "Missing threadId", code: "VALIDATION_ERROR" },
+      { status: 400 }
+    );
+  }
+
+  const projectKey = resolveProjectKey(params.get("projectKey"));
+  if (!projectKey) {
+    return NextResponse.json(
+      { success: false, error: "Invalid projectKey: must be an absolute path", code: "VALIDATION_ERROR" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const storage = new ExperimentRunStorage({ baseDir: projectKey });
+    const byTest = testId
+      ? new Map([[testId, (await storage.loadRuns(testId)).runs.filter((r) => r.thread_id === threadId)]])
+      : await storage.loadRunsForThread(threadId);
+
+    const histories: ExperimentRunHistory[] = [];
+    for (const [id, runs] of byTest) {
+      if (runs.length === 0) continue;
+      histories.push({ testId: id, runs, summary: summarizeRunHistory(id, runs) });
+    }
+
+    return NextResponse.json({ success: true, histories });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    return NextResponse.json(
+      { success: false, error: `Failed to read run history: ${message}`, code: "SERVER_ERROR" },
+      { status: 500 }
+    );
+  }
+}
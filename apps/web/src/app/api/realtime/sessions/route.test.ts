@@ -0,0 +1,47 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+// Auth mock state
+let authAuthorized = true;
+
+// Next.js request-context globals don't exist in vitest
+vi.mock("next/headers", () => ({
+  headers: async () => new Headers(),
+  cookies: async () => ({}),
+}));
+
+vi.mock("@/lib/auth", () => ({
+  checkOrchestrationAuth: () => ({ authorized: authAuthorized, reason: authAuthorized ? "ok" : "Lab mode disabled" }),
+}));
+
+import { createMockRequest } from "@/test-utils";
+import { GET, POST } from "./route";
+
+describe("/api/realtime/sessions", () => {
+  beforeEach(() => {
+    authAuthorized = true;
+  });
+
+  it("returns 404 when lab mode is off", async () => {
+    authAuthorized = false;
+    const stream = await GET(createMockRequest({ searchParams: { sessionId: "SESSION-1" } }));
+    expect(stream.status).toBe(404);
+    const posted = await POST(createMockRequest({ method: "POST", body: { sessionId: "SESSION-1" } }));
+    expect(posted.status).toBe(404);
+  });
+
+  it("relays presence through the shared relay", async () => {
+    const response = await POST(
+      createMockRequest({
+        method: "POST",
+        body: { sessionId: "SESSION-ROUTE", presence: { actor: "alice", name: "Alice" } },
+      })
+    );
+    expect(response.status).toBe(200);
+    const body = (await response.json()) as { success: boolean; presence: Array<{ actor: string }> };
+    expect(body.success).toBe(true);
+    expect(body.presence.map((p) => p.actor)).toEqual(["alice"]);
+
+    const invalid = await GET(createMockRequest({}));
+    expect(invalid.status).toBe(400);
+  });
+});
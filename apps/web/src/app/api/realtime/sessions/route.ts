@@ -0,0 +1,37 @@
+/**
+ * Session Collaboration Relay API
+ *
+ * Relays collaborative edit operations and presence between everyone working
+ * on one Brenner Loop session. Requires lab mode + orchestration auth.
+ *
+ * GET  /api/realtime/sessions?sessionId=&cursor=   → SSE stream (ops, presence)
+ * POST /api/realtime/sessions  { sessionId, ops?, presence?, leave? }
+ *
+ * The same protocol is served without Next.js by `brenner relay serve`.
+ */
+
+import { headers, cookies } from "next/headers";
+import { NextResponse, type NextRequest } from "next/server";
+import { checkOrchestrationAuth } from "@/lib/auth";
+import { getSessionRelay, handleSessionRelayRequest } from "@/lib/brenner-loop/collaboration-relay";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+async function authorize(): Promise<NextResponse | null> {
+  const authResult = checkOrchestrationAuth(await headers(), await cookies());
+  if (authResult.authorized) return null;
+  return NextResponse.json({ success: false, error: "Not found", code: "AUTH_ERROR" }, { status: 404 });
+}
+
+export async function GET(request: NextRequest): Promise<Response> {
+  const denied = await authorize();
+  if (denied) return denied;
+  return handleSessionRelayRequest(request, getSessionRelay());
+}
+
+export async function POST(request: NextRequest): Promise<Response> {
+  const denied = await authorize();
+  if (denied) return denied;
+  return handleSessionRelayRequest(request, getSessionRelay());
+}
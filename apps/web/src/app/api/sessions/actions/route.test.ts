@@ -121,6 +121,41 @@ describe("POST /api/sessions/actions", () => {
       expect(String(artifactMarkdown)).toContain("# Brenner Protocol Artifact: TEST-1");
     });
 
+    it("merges deltas posted as a debate conclusion", async () => {
+      server.seedThread({
+        projectKey: "/test/project",
+        threadId: "TEST-DEBATE",
+        messages: [
+          {
+            from: "Moderator",
+            subject: "DEBATE[debate-1]: Conclusion",
+            body_md: [
+              "## Debate Conclusion",
+              createDeltaBody({
+                operation: "ADD",
+                section: "adversarial_critique",
+                target_id: null,
+                payload: { name: "Residual crossing", attack: "Residual midline crossing implies a second cue" },
+              }),
+            ].join("\n\n"),
+            created_ts: "2025-01-01T00:00:00Z",
+          },
+        ],
+      });
+
+      const response = await POST(
+        createMockRequest({
+          method: "POST",
+          body: { action: "compile", threadId: "TEST-DEBATE" },
+        })
+      );
+
+      expect(response.status).toBe(200);
+      const json = await response.json();
+      expect(json).toMatchObject({ success: true, action: "compile", threadId: "TEST-DEBATE" });
+      expect(String((json as { artifactMarkdown?: unknown }).artifactMarkdown)).toContain("Residual midline crossing");
+    });
+
     it("fails loudly when a DELTA message contains no parseable delta blocks", async () => {
       server.seedThread({
         projectKey: "/test/project",
@@ -158,6 +193,40 @@ describe("POST /api/sessions/actions", () => {
     });
   });
 
+  describe("check_citations action", () => {
+    it("verifies quoted transcript citations in the compiled artifact", async () => {
+      seedDeltaThread("TEST-CITES", {
+        operation: "ADD",
+        section: "hypothesis_slate",
+        target_id: null,
+        payload: {
+          name: "Messenger",
+          claim: 'Chargaff: "Mercury may have been the messenger of the gods, but he was also the god of the thieves" (§12)',
+          mechanism: "Naming shapes the search",
+          anchors: ["§105"],
+        },
+      });
+
+      const response = await POST(
+        createMockRequest({
+          method: "POST",
+          body: { action: "check_citations", threadId: "TEST-CITES" },
+        })
+      );
+
+      expect(response.status).toBe(200);
+      const json = (await response.json()) as {
+        success: boolean;
+        citations: { summary: Record<string, number>; checks: Array<{ suggestions: Array<{ anchor: string }> }> };
+        violations: Array<{ id: string }>;
+      };
+      expect(json.success).toBe(true);
+      expect(json.citations.summary.wrong_anchor).toBe(1);
+      expect(json.citations.checks[0]?.suggestions[0]?.anchor).toBe("§105");
+      expect(json.violations.map((v) => v.id)).toEqual(["WP-P05"]);
+    });
+  });
+
   describe("publish action", () => {
     it("publishes a COMPILED message with the compiled artifact body", async () => {
       // Seed thread with DELTA message
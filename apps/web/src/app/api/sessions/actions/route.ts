@@ -1,11 +1,31 @@
-import { isAbsolute, resolve, win32 } from "node:path";
+import { existsSync } from "node:fs";
+import { readFile } from "node:fs/promises";
+import { isAbsolute, join, resolve, win32 } from "node:path";
 import { cookies, headers } from "next/headers";
 import { NextResponse, type NextRequest } from "next/server";
 import { AgentMailClient, type AgentMailMessage } from "@/lib/agentMail";
 import { checkOrchestrationAuth } from "@/lib/auth";
-import { createEmptyArtifact, lintArtifact, mergeArtifactWithTimestamps, renderArtifactMarkdown } from "@/lib/artifact-merge";
+import {
+  conflictResolutionsFromInterventions,
+  createEmptyArtifact,
+  lintArtifact,
+  mergeArtifactWithTimestamps,
+  renderArtifactMarkdown,
+  type Artifact,
+} from "@/lib/artifact-merge";
+import {
+  buildCitationCorpus,
+  checkArtifactCitations,
+  citationLintViolations,
+  type CitationCorpus,
+  type CitationEvidencePack,
+  type CitationReport,
+} from "@/lib/citation-checker";
+import { readCorpusDoc } from "@/lib/corpus";
 import { parseDeltaMessage, type ValidDelta } from "@/lib/delta-parser";
-import { extractVersion, parseSubjectType, getDeltaMessagesForCurrentRound } from "@/lib/threadStatus";
+import { InterventionStorage } from "@/lib/storage/intervention-storage";
+import { extractVersion, parseSubjectType, getDeltaMessagesForCurrentRound, getMessageRounds, isArtifactDeltaMessage } from "@/lib/threadStatus";
+import { parseTranscript } from "@/lib/transcript-parser";
 
 export const runtime = "nodejs";
 
@@ -13,7 +33,7 @@ export const runtime = "nodejs";
 // Types
 // ============================================================================
 
-type SessionAction = "compile" | "publish" | "request_critique" | "post_delta";
+type SessionAction = "compile" | "publish" | "request_critique" | "post_delta" | "check_citations";
 
 interface SessionActionRequest {
   action: SessionAction;
@@ -77,6 +97,15 @@ interface PostDeltaResult {
   messageId?: number;
 }
 
+interface CitationCheckResult {
+  success: true;
+  action: "check_citations";
+  threadId: string;
+  version: number;
+  citations: CitationReport;
+  violations: ReturnType<typeof citationLintViolations>;
+}
+
 interface ErrorResponse {
   success: false;
   error: string;
@@ -224,7 +253,7 @@ async function compileThread(params: {
   projectKey: string;
   threadId: string;
 }): Promise<
-  | { ok: true; result: Omit<CompileResult, "success" | "action">; messages: AgentMailMessage[] }
+  | { ok: true; result: Omit<CompileResult, "success" | "action">; artifact: Artifact; messages: AgentMailMessage[] }
   | { ok: false; response: ErrorResponse }
 > {
   const { projectKey, threadId } = params;
@@ -250,7 +279,7 @@ async function compileThread(params: {
   // For a complete artifact, we process ALL deltas from all rounds.
   // This ensures the compiled artifact contains the full state, not just incremental changes.
   // (Incremental compilation on top of previous artifact would require complex artifact parsing.)
-  const allDeltaMessages = threadMessages.filter((m) => parseSubjectType(m.subject).type === "delta" && typeof m.body_md === "string");
+  const allDeltaMessages = threadMessages.filter((m) => isArtifactDeltaMessage(m) && typeof m.body_md === "string");
 
   // For stats, we also track current round deltas separately.
   const currentRoundDeltas = getDeltaMessagesForCurrentRound(threadMessages);
@@ -259,7 +288,8 @@ async function compileThread(params: {
   // Use all deltas for compilation
   const deltaMessages = allDeltaMessages;
 
-  const collected: Array<ValidDelta & { timestamp: string; agent: string }> = [];
+  const messageRounds = getMessageRounds(threadMessages);
+  const collected: Array<ValidDelta & { timestamp: string; agent: string; round?: number }> = [];
   const deltaFenceErrors: Array<{
     messageId: number;
     from: string;
@@ -276,6 +306,8 @@ async function compileThread(params: {
     const parsed = parseDeltaMessage(body);
 
     if (parsed.totalBlocks === 0) {
+      // Only DELTA replies promise fenced blocks; a debate conclusion without deltas adds nothing
+      if (parseSubjectType(message.subject).type !== "delta") continue;
       const agent = message.from?.trim() || "unknown";
       deltaFenceErrors.push({
         messageId: message.id,
@@ -293,9 +325,10 @@ async function compileThread(params: {
 
     const agent = message.from?.trim() || "unknown";
     const timestamp = message.created_ts;
+    const round = messageRounds.get(message.id);
     for (const delta of parsed.deltas) {
       if (!delta.valid) continue;
-      collected.push({ ...delta, timestamp, agent });
+      collected.push({ ...delta, timestamp, agent, round });
     }
   }
 
@@ -331,7 +364,10 @@ async function compileThread(params: {
   base.metadata.created_at = createdAt;
   base.metadata.updated_at = createdAt;
 
-  const merge = mergeArtifactWithTimestamps(base, collected);
+  const interventions = await new InterventionStorage({ baseDir: projectKey }).loadSessionInterventions(threadId);
+  const resolutions = conflictResolutionsFromInterventions(interventions);
+
+  const merge = mergeArtifactWithTimestamps(base, collected, { resolutions });
   if (!merge.ok) {
     return {
       ok: false,
@@ -373,10 +409,31 @@ async function compileThread(params: {
         currentRoundDeltaCount: currentRoundDeltaMessages.length,
       },
     },
+    artifact,
     messages: threadMessages,
   };
 }
 
+/**
+ * Load the transcript plus the thread's evidence pack (artifacts/<thread>/evidence.json)
+ * for quote verification. A missing evidence pack just disables EV-* checks.
+ */
+async function loadCitationCorpus(projectKey: string, threadId: string): Promise<CitationCorpus> {
+  const { content } = await readCorpusDoc("transcript");
+  const evidencePath = join(projectKey, "artifacts", threadId.replace(/[^a-zA-Z0-9_.-]/g, "_"), "evidence.json");
+
+  let evidence: CitationEvidencePack | null = null;
+  if (existsSync(evidencePath)) {
+    const parsed = JSON.parse(await readFile(evidencePath, "utf8")) as unknown;
+    if (!isRecord(parsed) || !Array.isArray(parsed.records)) {
+      throw new Error(`Malformed evidence pack: ${evidencePath}`);
+    }
+    evidence = parsed as unknown as CitationEvidencePack;
+  }
+
+  return buildCitationCorpus({ transcript: parseTranscript(content), evidence });
+}
+
 async function ensureProjectAndRegisterSender(args: {
   client: AgentMailClient;
   projectKey: string;
@@ -408,7 +465,9 @@ async function ensureProjectAndRegisterSender(args: {
 
 export async function POST(
   request: NextRequest
-): Promise<NextResponse<CompileResult | PublishResult | CritiqueRequestResult | PostDeltaResult | ErrorResponse>> {
+): Promise<
+  NextResponse<CompileResult | PublishResult | CritiqueRequestResult | PostDeltaResult | CitationCheckResult | ErrorResponse>
+> {
   const reqHeaders = await headers();
   const reqCookies = await cookies();
   const authResult = checkOrchestrationAuth(reqHeaders, reqCookies);
@@ -431,7 +490,13 @@ export async function POST(
   }
 
   const action = body.action;
-  if (action !== "compile" && action !== "publish" && action !== "request_critique" && action !== "post_delta") {
+  if (
+    action !== "compile" &&
+    action !== "publish" &&
+    action !== "request_critique" &&
+    action !== "post_delta" &&
+    action !== "check_citations"
+  ) {
     return NextResponse.json(
       { success: false, error: "Invalid action", code: "VALIDATION_ERROR" },
       { status: 400 }
@@ -472,6 +537,37 @@ export async function POST(
     return NextResponse.json({ success: true, action: "compile", ...compiled.result });
   }
 
+  if (action === "check_citations") {
+    const compiled = await compileThread({ projectKey, threadId });
+    if (!compiled.ok) {
+      let status = 500;
+      if (compiled.response.code === "VALIDATION_ERROR") {
+        status = 400;
+      } else if (compiled.response.code === "NETWORK_ERROR") {
+        status = 502;
+      } else if (compiled.response.code === "MERGE_ERROR") {
+        status = 422;
+      }
+      return NextResponse.json(compiled.response, { status });
+    }
+
+    try {
+      const corpus = await loadCitationCorpus(projectKey, threadId);
+      const citations = checkArtifactCitations(compiled.artifact, corpus);
+      return NextResponse.json({
+        success: true,
+        action: "check_citations",
+        threadId,
+        version: compiled.result.version,
+        citations,
+        violations: citationLintViolations(citations),
+      });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      return NextResponse.json({ success: false, error: message, code: "SERVER_ERROR" }, { status: 500 });
+    }
+  }
+
   if (action === "publish") {
     const sender = body.sender?.trim();
     if (!sender) {
@@ -0,0 +1,150 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { randomUUID } from "node:crypto";
+import { mkdirSync, rmSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+
+// Auth mock state
+let authAuthorized = true;
+
+// Keep infrastructure mocks - these are Next.js internals that don't work outside request context
+vi.mock("next/headers", () => ({
+  headers: async () => new Headers(),
+  cookies: async () => ({}),
+}));
+
+vi.mock("@/lib/auth", () => ({
+  checkOrchestrationAuth: () => ({ authorized: authAuthorized, reason: authAuthorized ? "ok" : "Lab mode disabled" }),
+}));
+
+import { CURRENT_SESSION_VERSION, createSession } from "@/lib/brenner-loop/types";
+import { LocalStorageSessionStorage, type StorageStats } from "@/lib/brenner-loop/storage";
+import { ServerSessionStorage, migrateSessions } from "@/lib/brenner-loop/server-storage";
+import { createMockRequest } from "@/test-utils";
+import { DELETE, GET, PUT } from "./route";
+
+/**
+ * Route fetch calls straight to the handlers so the client exercises the real API.
+ */
+const routeFetch: typeof fetch = async (input, init) => {
+  const url = new URL(String(input), "http://localhost:3000");
+  const method = (init?.method ?? "GET") as "GET" | "PUT" | "DELETE";
+  const body = typeof init?.body === "string" ? JSON.parse(init.body) : undefined;
+  const request = createMockRequest({ method, body, searchParams: Object.fromEntries(url.searchParams) });
+  if (method === "PUT") return PUT(request);
+  if (method === "DELETE") return DELETE(request);
+  return GET(request);
+};
+
+describe("/api/sessions/store", () => {
+  let projectKey: string;
+
+  beforeEach(() => {
+    authAuthorized = true;
+    window.localStorage.clear();
+    projectKey = join(tmpdir(), `brenner-session-store-${randomUUID()}`);
+    mkdirSync(projectKey, { recursive: true });
+  });
+
+  afterEach(() => {
+    // Clean up temp directory to avoid inode exhaustion
+    rmSync(projectKey, { recursive: true, force: true });
+  });
+
+  it("returns 404 when lab mode is off", async () => {
+    authAuthorized = false;
+    const response = await GET(createMockRequest({ searchParams: { projectKey } }));
+    expect(response.status).toBe(404);
+  });
+
+  it("validates PUT bodies", async () => {
+    const missingSession = await PUT(createMockRequest({ method: "PUT", body: { projectKey, expectedRevision: 0 } }));
+    expect(missingSession.status).toBe(400);
+
+    const badRevision = await PUT(
+      createMockRequest({
+        method: "PUT",
+        body: { projectKey, session: createSession({ id: "SESSION-1" }), expectedRevision: -1 },
+      })
+    );
+    expect(badRevision.status).toBe(400);
+    expect(await badRevision.json()).toMatchObject({ success: false, code: "VALIDATION_ERROR" });
+  });
+
+  it("stores sessions and returns 409 with the current copy on stale writes", async () => {
+    const session = createSession({ id: "SESSION-1" });
+
+    const created = await PUT(createMockRequest({ method: "PUT", body: { projectKey, session, expectedRevision: 0 } }));
+    expect(created.status).toBe(200);
+    expect(await created.json()).toMatchObject({ success: true, revision: 1 });
+
+    const stale = await PUT(
+      createMockRequest({ method: "PUT", body: { projectKey, session: { ...session, theme: "late" }, expectedRevision: 0 } })
+    );
+    expect(stale.status).toBe(409);
+    const conflict = (await stale.json()) as { code: string; current: { revision: number } };
+    expect(conflict.code).toBe("CONFLICT");
+    expect(conflict.current.revision).toBe(1);
+
+    const listed = await GET(createMockRequest({ searchParams: { projectKey } }));
+    const list = (await listed.json()) as { sessions: Array<{ id: string; revision: number }>; stats: StorageStats };
+    expect(list.sessions).toEqual([expect.objectContaining({ id: "SESSION-1", revision: 1 })]);
+    expect(list.stats.sessionCount).toBe(1);
+
+    const missing = await GET(createMockRequest({ searchParams: { projectKey, id: "SESSION-404" } }));
+    expect(missing.status).toBe(404);
+
+    const deleted = await DELETE(createMockRequest({ method: "DELETE", searchParams: { projectKey, id: "SESSION-1" } }));
+    expect(await deleted.json()).toEqual({ success: true, deleted: true });
+  });
+
+  it("backs ServerSessionStorage and migrates local sessions idempotently", async () => {
+    const local = new LocalStorageSessionStorage();
+    await local.save(createSession({ id: "SESSION-A", theme: "a" }));
+    await local.save(createSession({ id: "SESSION-B", theme: "b" }));
+    const server = new ServerSessionStorage({ projectKey, fetchImpl: routeFetch });
+
+    const first = await migrateSessions(local, server);
+    expect(first.migrated.sort()).toEqual(["SESSION-A", "SESSION-B"]);
+    expect(first.failed).toEqual([]);
+
+    const second = await migrateSessions(local, new ServerSessionStorage({ projectKey, fetchImpl: routeFetch }));
+    expect(second.migrated).toEqual([]);
+    expect(second.skipped.sort()).toEqual(["SESSION-A", "SESSION-B"]);
+
+    // Two clients editing the same session: the second save is rejected.
+    const tabA = new ServerSessionStorage({ projectKey, fetchImpl: routeFetch });
+    const tabB = new ServerSessionStorage({ projectKey, fetchImpl: routeFetch });
+    const inA = await tabA.load("SESSION-A");
+    const inB = await tabB.load("SESSION-A");
+    await tabA.save({ ...inA!, theme: "edited in A" });
+    await expect(tabB.save({ ...inB!, theme: "edited in B" })).rejects.toMatchObject({ code: "CONFLICT" });
+
+    // After a conflict the client knows the latest revision and can retry.
+    await tabB.save({ ...inB!, theme: "edited in B" });
+    expect((await tabA.load("SESSION-A"))?.theme).toBe("edited in B");
+
+    expect((await server.stats()).sessionCount).toBe(2);
+    await server.clear();
+    expect(await server.list()).toEqual([]);
+  });
+
+  it("migrates records stored under an older session schema", async () => {
+    const session = createSession({ id: "SESSION-OLD" });
+    const v1 = {
+      ...session,
+      _version: 1,
+      operatorApplications: { levelSplit: [], exclusionTest: [], objectTranspose: [], scaleCheck: [] },
+    };
+    const server = new ServerSessionStorage({
+      fetchImpl: async () =>
+        Response.json({ success: true, record: { revision: 3, updatedAt: session.updatedAt, session: v1 } }),
+    });
+
+    const loaded = await server.load("SESSION-OLD");
+
+    expect(loaded?._version).toBe(CURRENT_SESSION_VERSION);
+    expect(loaded?.operatorApplications.theoryKill).toEqual([]);
+    expect(server.revisionOf("SESSION-OLD")).toBe(3);
+  });
+});
@@ -0,0 +1,242 @@
+/**
+ * Session Store API
+ *
+ * Server-side persistence for Brenner Loop sessions under the project key.
+ * Requires lab mode + orchestration auth. Writes use optimistic concurrency:
+ * callers send the revision they last read and get 409 CONFLICT (with the
+ * current server copy) when someone else wrote in between.
+ *
+ * GET    /api/sessions/store?projectKey=&id=      → one session, or the list + stats
+ * PUT    /api/sessions/store  { projectKey?, session, expectedRevision }
+ * DELETE /api/sessions/store?projectKey=&id=&expectedRevision=
+ */
+
+import { isAbsolute, resolve, win32 } from "node:path";
+import { headers, cookies } from "next/headers";
+import { NextResponse, type NextRequest } from "next/server";
+import { checkOrchestrationAuth } from "@/lib/auth";
+import { isSession, type Session } from "@/lib/brenner-loop/types";
+import { StorageError, type StorageStats } from "@/lib/brenner-loop/storage";
+import {
+  SessionConflictError,
+  SessionStore,
+  type StoredSession,
+  type StoredSessionSummary,
+} from "@/lib/storage/session-store";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface SessionPutRequest {
+  /** Absolute path to project workspace (defaults to BRENNER_PROJECT_KEY or repo root) */
+  projectKey?: string;
+  session: Session;
+  /** Revision the client last read (0 for a new session) */
+  expectedRevision: number;
+}
+
+interface SessionGetResponse {
+  success: true;
+  record: StoredSession;
+}
+
+interface SessionListResponse {
+  success: true;
+  sessions: StoredSessionSummary[];
+  stats: StorageStats;
+}
+
+interface SessionPutResponse {
+  success: true;
+  revision: number;
+  updatedAt: string;
+}
+
+interface SessionDeleteResponse {
+  success: true;
+  deleted: boolean;
+}
+
+interface ErrorResponse {
+  success: false;
+  error: string;
+  code: "VALIDATION_ERROR" | "AUTH_ERROR" | "NOT_FOUND" | "CONFLICT" | "SERVER_ERROR";
+  /** Present on CONFLICT: the server's current copy (null if deleted) */
+  current?: StoredSession | null;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function repoRootFromWebCwd(): string {
+  return resolve(process.cwd(), "../..");
+}
+
+function resolveProjectKey(rawProjectKey?: string | null): { ok: true; projectKey: string } | { ok: false; error: string; code: "VALIDATION_ERROR" | "SERVER_ERROR" } {
+  const fallback = process.env.BRENNER_PROJECT_KEY || repoRootFromWebCwd();
+  const trimmed = rawProjectKey?.trim();
+  const candidate = trimmed && trimmed.length > 0 ? trimmed : fallback;
+  const isAbs = isAbsolute(candidate) || win32.isAbsolute(candidate);
+  if (!isAbs) {
+    return {
+      ok: false,
+      error: trimmed ? "Invalid projectKey: must be an absolute path" : "Server misconfigured: BRENNER_PROJECT_KEY must be absolute",
+      code: trimmed ? "VALIDATION_ERROR" : "SERVER_ERROR",
+    };
+  }
+  const isWindowsPath = win32.isAbsolute(candidate) && !candidate.startsWith("/");
+  const projectKey = isWindowsPath ? win32.normalize(candidate) : resolve(candidate);
+  return { ok: true, projectKey };
+}
+
+function parseRevision(value: unknown): number | null {
+  const parsed = typeof value === "string" && value.trim() !== "" ? Number(value) : value;
+  if (typeof parsed !== "number" || !Number.isInteger(parsed) || parsed < 0) return null;
+  return parsed;
+}
+
+async function authorize(): Promise<NextResponse<ErrorResponse> | null> {
+  const authResult = checkOrchestrationAuth(await headers(), await cookies());
+  if (authResult.authorized) return null;
+  return NextResponse.json({ success: false, error: "Not found", code: "AUTH_ERROR" }, { status: 404 });
+}
+
+function storeFor(rawProjectKey?: string | null): { ok: true; store: SessionStore } | { ok: false; response: NextResponse<ErrorResponse> } {
+  const projectKeyResult = resolveProjectKey(rawProjectKey);
+  if (!projectKeyResult.ok) {
+    return {
+      ok: false,
+      response: NextResponse.json(
+        { success: false, error: projectKeyResult.error, code: projectKeyResult.code },
+        { status: projectKeyResult.code === "VALIDATION_ERROR" ? 400 : 500 }
+      ),
+    };
+  }
+  return { ok: true, store: new SessionStore({ baseDir: projectKeyResult.projectKey }) };
+}
+
+function errorResponse(error: unknown): NextResponse<ErrorResponse> {
+  if (error instanceof SessionConflictError) {
+    return NextResponse.json(
+      { success: false, error: error.message, code: "CONFLICT", current: error.current },
+      { status: 409 }
+    );
+  }
+  if (error instanceof StorageError && error.code !== "UNKNOWN_ERROR" && error.code !== "CORRUPTED_DATA") {
+    return NextResponse.json({ success: false, error: error.message, code: "VALIDATION_ERROR" }, { status: 400 });
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  return NextResponse.json({ success: false, error: message, code: "SERVER_ERROR" }, { status: 500 });
+}
+
+// ============================================================================
+// Handlers
+// ============================================================================
+
+export async function GET(
+  request: NextRequest
+): Promise<NextResponse<SessionGetResponse | SessionListResponse | ErrorResponse>> {
+  const denied = await authorize();
+  if (denied) return denied;
+
+  const url = new URL(request.url);
+  const resolved = storeFor(url.searchParams.get("projectKey"));
+  if (!resolved.ok) return resolved.response;
+
+  try {
+    const id = url.searchParams.get("id")?.trim();
+    if (id) {
+      const record = await resolved.store.get(id);
+      if (!record) {
+        return NextResponse.json(
+          { success: false, error: `Session not found: ${id}`, code: "NOT_FOUND" },
+          { status: 404 }
+        );
+      }
+      return NextResponse.json({ success: true, record });
+    }
+
+    const [sessions, stats] = await Promise.all([resolved.store.list(), resolved.store.stats()]);
+    return NextResponse.json({ success: true, sessions, stats });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+export async function PUT(request: NextRequest): Promise<NextResponse<SessionPutResponse | ErrorResponse>> {
+  const denied = await authorize();
+  if (denied) return denied;
+
+  let body: SessionPutRequest;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { success: false, error: "Invalid JSON body", code: "VALIDATION_ERROR" },
+      { status: 400 }
+    );
+  }
+
+  if (!isSession(body?.session)) {
+    return NextResponse.json(
+      { success: false, error: "Missing or invalid session", code: "VALIDATION_ERROR" },
+      { status: 400 }
+    );
+  }
+
+  const expectedRevision = parseRevision(body.expectedRevision);
+  if (expectedRevision === null) {
+    return NextResponse.json(
+      { success: false, error: "Missing or invalid expectedRevision (non-negative integer)", code: "VALIDATION_ERROR" },
+      { status: 400 }
+    );
+  }
+
+  const resolved = storeFor(body.projectKey);
+  if (!resolved.ok) return resolved.response;
+
+  try {
+    const record = await resolved.store.put(body.session, expectedRevision);
+    return NextResponse.json({ success: true, revision: record.revision, updatedAt: record.updatedAt });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+export async function DELETE(request: NextRequest): Promise<NextResponse<SessionDeleteResponse | ErrorResponse>> {
+  const denied = await authorize();
+  if (denied) return denied;
+
+  const url = new URL(request.url);
+  const id = url.searchParams.get("id")?.trim();
+  if (!id) {
+    return NextResponse.json(
+      { success: false, error: "Missing id query param", code: "VALIDATION_ERROR" },
+      { status: 400 }
+    );
+  }
+
+  const rawRevision = url.searchParams.get("expectedRevision");
+  const expectedRevision = rawRevision === null ? undefined : parseRevision(rawRevision);
+  if (expectedRevision === null) {
+    return NextResponse.json(
+      { success: false, error: "Invalid expectedRevision (non-negative integer)", code: "VALIDATION_ERROR" },
+      { status: 400 }
+    );
+  }
+
+  const resolved = storeFor(url.searchParams.get("projectKey"));
+  if (!resolved.ok) return resolved.response;
+
+  try {
+    const deleted = await resolved.store.delete(id, expectedRevision);
+    return NextResponse.json({ success: true, deleted });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
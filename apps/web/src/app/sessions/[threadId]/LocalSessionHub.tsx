@@ -16,7 +16,7 @@ import {
 } from "@/components/ui/dialog";
 import { nowMs, trackSystemLatency } from "@/lib/analytics";
 import {
-  sessionStorage,
+  getSessionStorage,
   exportSession,
   getPhaseName,
   getPhaseSymbol,
@@ -123,7 +123,7 @@ export function LocalSessionHub({ sessionId, className }: LocalSessionHubProps)
 
     const load = async () => {
       try {
-        const loaded = await sessionStorage.load(sessionId);
+        const loaded = await getSessionStorage().load(sessionId);
         if (cancelled) return;
         setSession(loaded);
         found = !!loaded;
@@ -184,7 +184,7 @@ export function LocalSessionHub({ sessionId, className }: LocalSessionHubProps)
     setIsDeleteConfirmOpen(false);
     setIsDeleting(true);
     try {
-      await sessionStorage.delete(sessionId);
+      await getSessionStorage().delete(sessionId);
       router.push("/sessions");
     } catch (err) {
       setError(err instanceof Error ? err.message : "Failed to delete session.");
@@ -6,6 +6,7 @@ import { useParams, useRouter } from "next/navigation";
 import { motion, AnimatePresence } from "framer-motion";
 import { DemoFeaturePreview } from "@/components/sessions/DemoFeaturePreview";
 import { recordSessionResumeEntry } from "@/lib/brenner-loop";
+import { formatCitationCheck, type CitationReport, type CitationStatus } from "@/lib/citation-checker";
 import { isDemoThreadId, normalizeThreadId } from "@/lib/demo-mode";
 
 // ============================================================================
@@ -634,6 +635,56 @@ const buildObjectionRegisterBriefSection = (threadId: string): BriefSection | nu
   };
 };
 
+const CITATION_STATUS_LABELS: Record<CitationStatus, string> = {
+  verified: "Verified",
+  misquote: "Misquote",
+  wrong_anchor: "Wrong Anchor",
+  fabricated: "Fabricated",
+  unresolved: "Unresolved",
+};
+
+const buildCitationBriefSection = (report: CitationReport): BriefSection | null => {
+  if (report.checks.length === 0) return null;
+
+  const flagged = report.checks.filter((check) => check.status !== "verified");
+  const items = flagged.map((check) => `[${CITATION_STATUS_LABELS[check.status]}] ${formatCitationCheck(check)}`);
+
+  let status: BriefSection["status"] = "complete";
+  if (report.summary.fabricated > 0) {
+    status = "pending";
+  } else if (flagged.length > 0) {
+    status = "partial";
+  }
+
+  return {
+    id: "citation_check",
+    title: "Citation Check",
+    icon: <span className="text-lg">§</span>,
+    color: "text-sky-500",
+    bgColor: "bg-sky-500/10",
+    status,
+    items: items.length > 0 ? items : ["Every quoted citation matches its anchor verbatim"],
+    summary: `${report.summary.verified}/${report.checks.length} quoted citations verified against the transcript and evidence pack`,
+  };
+};
+
+const fetchCitationReport = async (threadId: string): Promise<CitationReport | null> => {
+  try {
+    const res = await fetch("/api/sessions/actions", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ action: "check_citations", threadId }),
+    });
+    if (!res.ok) return null;
+
+    const payload = (await res.json()) as { success?: boolean; citations?: CitationReport };
+    return payload.success && payload.citations ? payload.citations : null;
+  } catch {
+    // Lab mode disabled or Agent Mail unreachable: the brief renders without the check
+    return null;
+  }
+};
+
 const renderBriefMarkdown = (params: { threadId: string; generatedAt: string; qualityScore: number; sections: BriefSection[] }): string => {
   const { threadId, generatedAt, qualityScore, sections } = params;
   const lines: string[] = [];
@@ -709,6 +760,7 @@ function BriefPageContent({ threadId }: { threadId: string }) {
   const [now, setNow] = useState(() => Date.now());
   const [isRefreshing, startRefresh] = useTransition();
   const [objectionSection, setObjectionSection] = useState<BriefSection | null>(null);
+  const [citationSection, setCitationSection] = useState<BriefSection | null>(null);
 
   useEffect(() => {
     const intervalId = setInterval(() => {
@@ -733,7 +785,21 @@ function BriefPageContent({ threadId }: { threadId: string }) {
     setObjectionSection(buildObjectionRegisterBriefSection(threadId));
   }, [threadId]);
 
-  const briefSections = objectionSection ? [...BASE_BRIEF_SECTIONS, objectionSection] : BASE_BRIEF_SECTIONS;
+  useEffect(() => {
+    let cancelled = false;
+    void fetchCitationReport(threadId).then((report) => {
+      if (!cancelled) setCitationSection(report ? buildCitationBriefSection(report) : null);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [threadId]);
+
+  const briefSections = [
+    ...BASE_BRIEF_SECTIONS,
+    ...(objectionSection ? [objectionSection] : []),
+    ...(citationSection ? [citationSection] : []),
+  ];
 
   const handleExport = async (formatId: string) => {
     setExportingFormat(formatId);
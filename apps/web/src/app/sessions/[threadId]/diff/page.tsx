@@ -0,0 +1,455 @@
+import * as React from "react";
+import { resolve } from "node:path";
+import Link from "next/link";
+import { cookies, headers } from "next/headers";
+import { AgentMailClient, type AgentMailMessage } from "@/lib/agentMail";
+import { isLabModeEnabled, checkOrchestrationAuth } from "@/lib/auth";
+import {
+  conflictResolutionsFromInterventions,
+  type ArtifactDiff,
+  type EditedChange,
+  type KilledChange,
+  type StatusChange,
+} from "@/lib/artifact-merge";
+import { diffCompiledVersions, listCompiledVersions, type CompiledVersion } from "@/lib/artifact-versions";
+import { InterventionStorage } from "@/lib/storage/intervention-storage";
+import type { Metadata } from "next";
+
+export const metadata: Metadata = {
+  title: "Artifact Diff",
+  description: "Item-level changes between compiled versions of a Brenner Loop artifact.",
+};
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// ----- Utilities -----
+
+function repoRootFromWebCwd(): string {
+  return resolve(process.cwd(), "../..");
+}
+
+function formatTs(ts: string): string {
+  const d = new Date(ts);
+  if (Number.isNaN(d.getTime())) return ts;
+  return d.toLocaleString(undefined, { dateStyle: "medium", timeStyle: "short" });
+}
+
+function parseVersionParam(value: string | undefined): number | undefined {
+  if (!value || !/^\d+$/.test(value)) return undefined;
+  return Number(value);
+}
+
+function diffHref(threadId: string, from: number, to: number): string {
+  return `/sessions/${threadId}/diff?from=${from}&to=${to}`;
+}
+
+// ----- Components -----
+
+function LockedState({ reason }: { reason: string }) {
+  return (
+    <div className="max-w-2xl mx-auto space-y-6 animate-fade-in-up">
+      <div className="rounded-2xl border border-border bg-card p-8">
+        <div className="flex items-start gap-4">
+          <div className="flex items-center justify-center size-12 rounded-xl bg-warning/10 border border-warning/20 text-warning">
+            <svg className="size-6" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}>
+              <path strokeLinecap="round" strokeLinejoin="round" d="M16.5 10.5V6.75a4.5 4.5 0 10-9 0v3.75m-.75 11.25h10.5a2.25 2.25 0 002.25-2.25v-6.75a2.25 2.25 0 00-2.25-2.25H6.75a2.25 2.25 0 00-2.25 2.25v6.75a2.25 2.25 0 002.25 2.25z" />
+            </svg>
+          </div>
+          <div className="space-y-2">
+            <h1 className="text-xl font-bold tracking-tight text-foreground">Lab Mode Locked</h1>
+            <p className="text-sm text-muted-foreground">{reason}</p>
+          </div>
+        </div>
+      </div>
+
+      <div className="text-center">
+        <Link href="/sessions" className="text-primary hover:underline">
+          Back to Sessions
+        </Link>
+      </div>
+    </div>
+  );
+}
+
+function VersionPicker({
+  threadId,
+  versions,
+  from,
+  to,
+}: {
+  threadId: string;
+  versions: CompiledVersion[];
+  from: number;
+  to: number;
+}) {
+  const pairs = versions.slice(1).map((version, index) => ({ from: versions[index].version, to: version.version }));
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-sm">
+      <span className="text-muted-foreground">Consecutive versions:</span>
+      {pairs.map((pair) => {
+        const active = pair.from === from && pair.to === to;
+        return (
+          <Link
+            key={`${pair.from}-${pair.to}`}
+            href={diffHref(threadId, pair.from, pair.to)}
+            className={`rounded-md border px-2 py-0.5 font-mono text-xs ${
+              active ? "border-primary bg-primary/10 text-primary" : "border-border text-muted-foreground hover:text-primary"
+            }`}
+          >
+            v{pair.from} → v{pair.to}
+          </Link>
+        );
+      })}
+      {versions.length > 2 && (
+        <Link
+          href={diffHref(threadId, versions[0].version, versions[versions.length - 1].version)}
+          className="rounded-md border border-border px-2 py-0.5 font-mono text-xs text-muted-foreground hover:text-primary"
+        >
+          all (v{versions[0].version} → v{versions[versions.length - 1].version})
+        </Link>
+      )}
+    </div>
+  );
+}
+
+function EditValues({ edit }: { edit: EditedChange }) {
+  return (
+    <div className="mt-1 grid gap-1 text-xs font-mono">
+      <div className="text-destructive line-through break-words">{edit.old_value || "∅"}</div>
+      <div className="text-success break-words">{edit.new_value || "∅"}</div>
+    </div>
+  );
+}
+
+function ChangeList({ title, rows }: { title: string; rows: React.ReactNode[] }) {
+  if (rows.length === 0) return null;
+  return (
+    <section className="rounded-xl border border-border bg-card p-5 space-y-3">
+      <h2 className="text-sm font-semibold text-foreground">{title}</h2>
+      <ul className="space-y-3 text-sm">{rows}</ul>
+    </section>
+  );
+}
+
+function Row({ symbol, tone, children }: { symbol: string; tone: string; children: React.ReactNode }) {
+  return (
+    <li className="flex items-start gap-3">
+      <span className={`font-mono font-bold ${tone}`}>{symbol}</span>
+      <div className="min-w-0 flex-1">{children}</div>
+    </li>
+  );
+}
+
+function ItemId({ id }: { id: string }) {
+  return <span className="font-mono text-xs text-muted-foreground">[{id}]</span>;
+}
+
+function ByAgent({ agent }: { agent?: string }) {
+  if (!agent) return null;
+  return <span className="ml-2 text-xs text-muted-foreground">by {agent}</span>;
+}
+
+function killedRows(killed: KilledChange[]): React.ReactNode[] {
+  return killed.map((item) => (
+    <Row key={`kill-${item.id}`} symbol="-" tone="text-destructive">
+      <ItemId id={item.id} /> {item.name} <span className="text-destructive">KILLED</span>
+      <ByAgent agent={item.by_agent} />
+      {item.rationale && <div className="mt-1 text-xs text-muted-foreground">Reason: {item.rationale}</div>}
+    </Row>
+  ));
+}
+
+function editedRows(edited: EditedChange[]): React.ReactNode[] {
+  return edited.map((edit) => (
+    <Row key={`edit-${edit.id}-${edit.field}`} symbol="~" tone="text-warning">
+      <ItemId id={edit.id} /> <span className="font-mono">{edit.field}</span>
+      <ByAgent agent={edit.by_agent} />
+      <EditValues edit={edit} />
+    </Row>
+  ));
+}
+
+function statusRows(changes: StatusChange[], symbol: string, tone: string): React.ReactNode[] {
+  return changes.map((change) => (
+    <Row key={`status-${change.id}`} symbol={symbol} tone={tone}>
+      <ItemId id={change.id} /> {change.name}{" "}
+      <span className="font-mono text-xs">
+        {change.from} → {change.to}
+      </span>
+      <ByAgent agent={change.by_agent} />
+    </Row>
+  ));
+}
+
+function DiffSections({ diff }: { diff: ArtifactDiff }) {
+  const { changes } = diff;
+  const tests = changes.discriminative_tests;
+  const assumptions = changes.assumption_ledger;
+  const falsifiedIds = new Set(assumptions.falsified.map((item) => item.id));
+
+  const sections = [
+    { title: "Research Thread", rows: editedRows(changes.research_thread.edited) },
+    {
+      title: "Hypotheses",
+      rows: [
+        ...changes.hypothesis_slate.added.map((item) => (
+          <Row key={`add-${item.id}`} symbol="+" tone="text-success">
+            <ItemId id={item.id} /> {item.name}
+            <ByAgent agent={item.by_agent} />
+          </Row>
+        )),
+        ...killedRows(changes.hypothesis_slate.killed),
+        ...editedRows(changes.hypothesis_slate.edited),
+      ],
+    },
+    {
+      title: "Predictions",
+      rows: [
+        ...changes.predictions_table.added.map((item) => (
+          <Row key={`add-${item.id}`} symbol="+" tone="text-success">
+            <ItemId id={item.id} /> {item.condition}
+            <ByAgent agent={item.by_agent} />
+          </Row>
+        )),
+        ...killedRows(changes.predictions_table.killed),
+        ...editedRows(changes.predictions_table.edited),
+      ],
+    },
+    {
+      title: "Discriminative Tests",
+      rows: [
+        ...tests.added.map((item) => (
+          <Row key={`add-${item.id}`} symbol="+" tone="text-success">
+            <ItemId id={item.id} /> {item.name}
+            {item.targets.length > 0 && (
+              <span className="ml-2 text-xs text-muted-foreground">targets {item.targets.join(", ")}</span>
+            )}
+            <ByAgent agent={item.by_agent} />
+          </Row>
+        )),
+        ...statusRows(tests.status_changed, "↻", "text-primary"),
+        ...killedRows(tests.killed),
+        ...editedRows(tests.edited),
+      ],
+    },
+    {
+      title: "Assumptions",
+      rows: [
+        ...assumptions.added.map((item) => (
+          <Row key={`add-${item.id}`} symbol="+" tone="text-success">
+            <ItemId id={item.id} /> {item.assumption}
+            <ByAgent agent={item.by_agent} />
+          </Row>
+        )),
+        ...statusRows(assumptions.falsified, "✗", "text-destructive"),
+        ...assumptions.challenged
+          .filter((item) => !falsifiedIds.has(item.id))
+          .map((item) => (
+            <Row key={`challenge-${item.id}`} symbol="!" tone="text-warning">
+              <ItemId id={item.id} /> challenged by {item.challenger}
+              <div className="mt-1 text-xs text-muted-foreground">{item.challenge}</div>
+            </Row>
+          )),
+        ...killedRows(assumptions.killed),
+        ...editedRows(assumptions.edited.filter((edit) => !(edit.field === "status" && falsifiedIds.has(edit.id)))),
+      ],
+    },
+    {
+      title: "Anomalies",
+      rows: [
+        ...changes.anomaly_register.added.map((item) => (
+          <Row key={`add-${item.id}`} symbol="+" tone="text-success">
+            <ItemId id={item.id} /> {item.description}
+            <ByAgent agent={item.by_agent} />
+          </Row>
+        )),
+        ...changes.anomaly_register.promoted.map((item) => (
+          <Row key={`promote-${item.id}`} symbol="↑" tone="text-primary">
+            <ItemId id={item.id} /> promoted to {item.promoted_to}
+          </Row>
+        )),
+        ...changes.anomaly_register.dismissed.map((item) => (
+          <Row key={`dismiss-${item.id}`} symbol="✓" tone="text-muted-foreground">
+            <ItemId id={item.id} /> dismissed: {item.reason}
+          </Row>
+        )),
+        ...killedRows(changes.anomaly_register.killed),
+      ],
+    },
+    {
+      title: "Critiques",
+      rows: [
+        ...changes.adversarial_critique.added.map((item) => (
+          <Row key={`add-${item.id}`} symbol="+" tone="text-success">
+            <ItemId id={item.id} /> on {item.target}
+            <ByAgent agent={item.by_agent} />
+            <div className="mt-1 text-xs text-muted-foreground">{item.critique}</div>
+          </Row>
+        )),
+        ...changes.adversarial_critique.resolved.map((item) => (
+          <Row key={`resolve-${item.id}`} symbol="✓" tone="text-success">
+            <ItemId id={item.id} /> resolved
+            <div className="mt-1 text-xs text-muted-foreground">{item.resolution}</div>
+          </Row>
+        )),
+        ...killedRows(changes.adversarial_critique.killed),
+      ],
+    },
+  ];
+
+  const visible = sections.filter((section) => section.rows.length > 0);
+  if (visible.length === 0) {
+    return (
+      <div className="rounded-xl border border-border bg-card p-6 text-sm text-muted-foreground">
+        No item-level changes between these versions.
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {visible.map((section) => (
+        <ChangeList key={section.title} title={section.title} rows={section.rows} />
+      ))}
+    </div>
+  );
+}
+
+function SummaryStats({ diff }: { diff: ArtifactDiff }) {
+  const { summary } = diff;
+  const stats = [
+    { label: "hypotheses added", value: summary.hypotheses_added },
+    { label: "hypotheses killed", value: summary.hypotheses_killed },
+    { label: "test status changes", value: summary.tests_status_changed },
+    { label: "assumptions falsified", value: summary.assumptions_falsified },
+    { label: "critiques resolved", value: summary.critiques_resolved },
+  ];
+  return (
+    <div className="flex flex-wrap gap-3">
+      {stats.map((stat) => (
+        <div key={stat.label} className="text-center px-4 py-2 rounded-lg bg-muted/50 border border-border">
+          <div className="text-lg font-bold text-foreground">{stat.value}</div>
+          <div className="text-xs text-muted-foreground">{stat.label}</div>
+        </div>
+      ))}
+      <div className="text-center px-4 py-2 rounded-lg bg-primary/5 border border-primary/20">
+        <div className="text-lg font-bold text-primary">{summary.progress_score}</div>
+        <div className="text-xs text-muted-foreground">progress</div>
+      </div>
+    </div>
+  );
+}
+
+// ----- Main Page -----
+
+export default async function ArtifactDiffPage({
+  params,
+  searchParams,
+}: {
+  params: Promise<{ threadId: string }>;
+  searchParams: Promise<{ from?: string; to?: string }>;
+}) {
+  const { threadId } = await params;
+
+  if (!isLabModeEnabled()) {
+    return <LockedState reason="Lab mode is disabled. Set BRENNER_LAB_MODE=1 to enable orchestration." />;
+  }
+
+  const reqHeaders = await headers();
+  const reqCookies = await cookies();
+  const pageAuth = checkOrchestrationAuth(reqHeaders, reqCookies);
+  if (!pageAuth.authorized) {
+    return <LockedState reason={pageAuth.reason} />;
+  }
+
+  const { from, to } = await searchParams;
+  const projectKey = process.env.BRENNER_PROJECT_KEY ?? repoRootFromWebCwd();
+
+  let messages: AgentMailMessage[] = [];
+  let loadError: string | null = null;
+  try {
+    const thread = await new AgentMailClient().readThread({ projectKey, threadId, includeBodies: true });
+    messages = thread.messages ?? [];
+  } catch (err) {
+    loadError = err instanceof Error ? err.message : String(err);
+  }
+
+  const versions = listCompiledVersions(messages);
+  const interventions = loadError
+    ? []
+    : await new InterventionStorage({ baseDir: projectKey }).loadSessionInterventions(threadId).catch(() => []);
+  const result = loadError
+    ? null
+    : diffCompiledVersions(
+        messages,
+        threadId,
+        { from: parseVersionParam(from), to: parseVersionParam(to) },
+        { resolutions: conflictResolutionsFromInterventions(interventions) }
+      );
+
+  return (
+    <div className="max-w-5xl mx-auto space-y-8">
+      {/* Header */}
+      <header className="space-y-3 animate-fade-in-up">
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          <Link href={`/sessions/${threadId}`} className="hover:text-primary hover:underline">
+            &larr; Back to Session
+          </Link>
+        </div>
+        <h1 className="text-2xl font-bold tracking-tight">Artifact Diff</h1>
+        <div className="text-sm text-muted-foreground font-mono">{threadId}</div>
+        {versions.length > 1 && result?.ok && (
+          <VersionPicker threadId={threadId} versions={versions} from={result.from.version} to={result.to.version} />
+        )}
+      </header>
+
+      {loadError && (
+        <div className="rounded-xl border border-warning/30 bg-warning/5 p-4">
+          <div className="font-semibold text-warning">Failed to load thread</div>
+          <div className="mt-1 text-sm text-muted-foreground break-words">{loadError}</div>
+        </div>
+      )}
+
+      {result && !result.ok && (
+        <div className="rounded-xl border border-border bg-card p-6 text-sm text-muted-foreground">{result.error}</div>
+      )}
+
+      {result?.ok && (
+        <>
+          <section className="rounded-xl border border-primary/20 bg-gradient-to-r from-primary/5 to-transparent p-5 space-y-4 animate-fade-in-up stagger-1">
+            <div className="flex flex-wrap items-baseline justify-between gap-3">
+              <div className="font-semibold text-foreground font-mono">
+                v{result.from.version} → v{result.to.version}
+              </div>
+              <div className="text-xs text-muted-foreground">
+                compiled {formatTs(result.from.compiled_at)} → {formatTs(result.to.compiled_at)}
+              </div>
+            </div>
+            <SummaryStats diff={result.diff} />
+            <div className="text-sm">
+              <span className="text-muted-foreground">Contributors: </span>
+              {result.diff.contributors.length > 0 ? (
+                result.diff.contributors.map((contributor, index) => (
+                  <span key={contributor.agent}>
+                    {index > 0 && ", "}
+                    <span className="font-medium text-foreground">{contributor.agent}</span>
+                    {contributor.program && (
+                      <span className="text-xs text-muted-foreground"> ({contributor.program})</span>
+                    )}
+                  </span>
+                ))
+              ) : (
+                <span className="text-muted-foreground">none recorded</span>
+              )}
+            </div>
+          </section>
+
+          <div className="animate-fade-in-up stagger-2">
+            <DiffSections diff={result.diff} />
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -32,7 +32,13 @@ import {
   CollapsibleTrigger,
   CollapsibleContent,
 } from "@/components/ui/collapsible";
-import { loadEmbeddings, type EmbeddingEntry } from "@/lib/brenner-loop/search/embeddings";
+import {
+  getEmbeddingModel,
+  loadEmbeddingProvider,
+  loadEmbeddings,
+  type EmbeddingEntry,
+  type EmbeddingProvider,
+} from "@/lib/brenner-loop/search/embeddings";
 import {
   buildQuoteQueryText,
   filterQuoteEntriesByTags,
@@ -330,6 +336,7 @@ function HypothesisPageContent({ threadId }: { threadId: string }) {
   const [historyOpen, setHistoryOpen] = React.useState(false);
 
   const [quoteEntries, setQuoteEntries] = React.useState<EmbeddingEntry[] | null>(null);
+  const [quoteProvider, setQuoteProvider] = React.useState<EmbeddingProvider | null>(null);
   const [semanticQuotes, setSemanticQuotes] = React.useState<Quote[]>([]);
   const [quoteError, setQuoteError] = React.useState<string | null>(null);
 
@@ -363,7 +370,9 @@ function HypothesisPageContent({ threadId }: { threadId: string }) {
     const run = async () => {
       try {
         const index = await loadEmbeddings();
+        const provider = await loadEmbeddingProvider(getEmbeddingModel(index));
         if (cancelled) return;
+        setQuoteProvider(provider);
         setQuoteEntries(index.entries.filter((entry) => entry.source === "quote"));
       } catch (e) {
         if (cancelled) return;
@@ -392,24 +401,33 @@ function HypothesisPageContent({ threadId }: { threadId: string }) {
   }, [hypothesis.domain, hypothesis.impossibleIfTrue, hypothesis.mechanism, hypothesis.predictionsIfFalse, hypothesis.predictionsIfTrue, hypothesis.statement]);
 
   React.useEffect(() => {
-    if (!quoteEntries || quoteEntries.length === 0) return;
+    if (!quoteEntries || quoteEntries.length === 0 || !quoteProvider) return;
     if (!quoteQuery) return;
 
     setQuoteError(null);
 
     const candidates = filterQuoteEntriesByTags(quoteEntries, [...HYPOTHESIS_PHASE_QUOTE_TAGS]);
 
+    let cancelled = false;
     const timer = setTimeout(() => {
-      try {
-        setSemanticQuotes(findSimilarQuotes(quoteQuery, candidates, 3));
-      } catch (e) {
-        setQuoteError(e instanceof Error ? e.message : "Failed to compute quote matches.");
-        setSemanticQuotes([]);
-      }
+      quoteProvider
+        .embed([quoteQuery])
+        .then(([queryEmbedding]) => {
+          if (cancelled) return;
+          setSemanticQuotes(findSimilarQuotes(queryEmbedding, candidates, 3));
+        })
+        .catch((e: unknown) => {
+          if (cancelled) return;
+          setQuoteError(e instanceof Error ? e.message : "Failed to compute quote matches.");
+          setSemanticQuotes([]);
+        });
     }, 250);
 
-    return () => clearTimeout(timer);
-  }, [quoteEntries, quoteQuery]);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [quoteEntries, quoteProvider, quoteQuery]);
 
   const evolutionEvents: EvolutionEvent[] = [
     { id: "ev-1", type: "created", description: "Hypothesis created", timestamp: new Date("2024-01-15T10:00:00"), confidence: 50 },
@@ -23,8 +23,11 @@ import { Input } from "@/components/ui/input";
 import type { Quote } from "@/lib/quotebank-parser";
 import { BrennerQuoteSidebar } from "@/components/brenner-loop/operators/BrennerQuoteSidebar";
 import {
+  getEmbeddingModel,
+  loadEmbeddingProvider,
   loadEmbeddings,
   type EmbeddingEntry,
+  type EmbeddingProvider,
 } from "@/lib/brenner-loop/search/embeddings";
 import {
   buildQuoteQueryText,
@@ -369,6 +372,7 @@ function OperatorsPageContent({ threadId }: { threadId: string }) {
   const [hypothesisMechanism, setHypothesisMechanism] = React.useState<string>("");
 
   const [quoteEntries, setQuoteEntries] = React.useState<EmbeddingEntry[] | null>(null);
+  const [quoteProvider, setQuoteProvider] = React.useState<EmbeddingProvider | null>(null);
   const [semanticQuotes, setSemanticQuotes] = React.useState<Quote[]>([]);
   const [quoteError, setQuoteError] = React.useState<string | null>(null);
 
@@ -380,7 +384,9 @@ function OperatorsPageContent({ threadId }: { threadId: string }) {
     const run = async () => {
       try {
         const index = await loadEmbeddings();
+        const provider = await loadEmbeddingProvider(getEmbeddingModel(index));
         if (cancelled) return;
+        setQuoteProvider(provider);
         setQuoteEntries(index.entries.filter((entry) => entry.source === "quote"));
       } catch (e) {
         if (cancelled) return;
@@ -408,7 +414,7 @@ function OperatorsPageContent({ threadId }: { threadId: string }) {
   }, [activeOperator, currentOperator, hypothesisMechanism, hypothesisStatement, operatorValues]);
 
   React.useEffect(() => {
-    if (!quoteEntries || quoteEntries.length === 0) return;
+    if (!quoteEntries || quoteEntries.length === 0 || !quoteProvider) return;
     if (!quoteQuery) return;
 
     setQuoteError(null);
@@ -416,17 +422,26 @@ function OperatorsPageContent({ threadId }: { threadId: string }) {
     const operatorTag = OPERATOR_QUOTE_TAG[activeOperator];
     const candidates = filterQuoteEntriesByTags(quoteEntries, operatorTag ? [operatorTag] : []);
 
+    let cancelled = false;
     const timer = setTimeout(() => {
-      try {
-        setSemanticQuotes(findSimilarQuotes(quoteQuery, candidates, 3));
-      } catch (e) {
-        setQuoteError(e instanceof Error ? e.message : "Failed to compute quote matches.");
-        setSemanticQuotes([]);
-      }
+      quoteProvider
+        .embed([quoteQuery])
+        .then(([queryEmbedding]) => {
+          if (cancelled) return;
+          setSemanticQuotes(findSimilarQuotes(queryEmbedding, candidates, 3));
+        })
+        .catch((e: unknown) => {
+          if (cancelled) return;
+          setQuoteError(e instanceof Error ? e.message : "Failed to compute quote matches.");
+          setSemanticQuotes([]);
+        });
     }, 250);
 
-    return () => clearTimeout(timer);
-  }, [activeOperator, quoteEntries, quoteQuery]);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [activeOperator, quoteEntries, quoteProvider, quoteQuery]);
 
   const handleFieldChange = (fieldId: string, value: string) => {
     setOperatorValues((prev) => ({
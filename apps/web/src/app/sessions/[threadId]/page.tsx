@@ -9,13 +9,17 @@ import { AgentMailClient, type AgentMailMessage } from "@/lib/agentMail";
 import { isLabModeEnabled, checkOrchestrationAuth } from "@/lib/auth";
 import { Jargon } from "@/components/jargon";
 import {
+  conflictResolutionsFromInterventions,
   createEmptyArtifact,
   formatLintReportHuman,
   formatLintReportJson,
   lintArtifact,
   mergeArtifactWithTimestamps,
+  type ConflictResolution,
+  type EditConflict,
 } from "@/lib/artifact-merge";
-import { computeThreadStatusFromThread, parseSubjectType } from "@/lib/threadStatus";
+import { InterventionStorage } from "@/lib/storage/intervention-storage";
+import { computeThreadStatusFromThread, getMessageRounds, parseSubjectType } from "@/lib/threadStatus";
 import { parseDeltaMessage, type ValidDelta } from "@/lib/delta-parser";
 import { isDemoSession, getDemoSession, type DemoMessage, type DemoThreadSummary } from "@/lib/fixtures/demo-sessions";
 import type { Metadata } from "next";
@@ -55,6 +59,7 @@ const SUBJECT_TYPE_LABEL: Record<SubjectType, string> = {
   compiled: "COMPILED",
   critique: "CRITIQUE",
   tribunal: "TRIBUNAL",
+  debate: "DEBATE",
   ack: "ACK",
   claim: "CLAIM",
   handoff: "HANDOFF",
@@ -70,6 +75,7 @@ const SUBJECT_TYPE_BADGE_CLASSES: Record<SubjectType, string> = {
   compiled: "bg-success text-success-foreground",
   critique: "bg-warning text-warning-foreground",
   tribunal: "bg-info/15 text-info border border-info/20",
+  debate: "bg-info/15 text-info border border-info/20",
   ack: "bg-secondary text-secondary-foreground",
   claim: "bg-muted text-muted-foreground border border-border",
   handoff: "bg-muted text-muted-foreground border border-border",
@@ -431,6 +437,63 @@ function MessageCard({ message, deltaSummary }: { message: AgentMailMessage; del
   );
 }
 
+function formatConflictValue(value: unknown): string {
+  return value === undefined ? "(unset)" : JSON.stringify(value);
+}
+
+function EditConflictList({ threadId, conflicts }: { threadId: string; conflicts: EditConflict[] }) {
+  const unresolved = conflicts.filter((c) => !c.resolution).length;
+
+  return (
+    <div className="rounded-lg border border-warning/30 bg-warning/5 p-3 space-y-3">
+      <div className="text-xs font-semibold text-warning">
+        {conflicts.length} edit conflict{conflicts.length === 1 ? "" : "s"} ({unresolved} unresolved)
+      </div>
+      {conflicts.map((conflict) => (
+        <div
+          key={`${conflict.round}:${conflict.section}:${conflict.target_id}:${conflict.field}`}
+          className="space-y-1 text-xs"
+        >
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="font-mono text-foreground">
+              {conflict.target_id}.{conflict.field}
+            </span>
+            <span className="text-muted-foreground">round {conflict.round}</span>
+            <span
+              className={`inline-flex items-center px-2 py-0.5 rounded-full font-medium ${conflict.resolution ? "bg-success/15 text-success border border-success/20" : "bg-warning/15 text-warning border border-warning/20"}`}
+            >
+              {conflict.resolution ? `resolved${conflict.resolution.intervention_id ? ` (${conflict.resolution.intervention_id})` : ""}` : "unresolved"}
+            </span>
+          </div>
+          <div className="text-muted-foreground">
+            Base: <span className="font-mono text-foreground/90 break-words">{formatConflictValue(conflict.base)}</span>
+          </div>
+          <ul className="space-y-0.5">
+            {conflict.edits.map((edit) => (
+              <li key={edit.agent} className="text-muted-foreground">
+                <span className="text-foreground">{edit.agent}</span>:{" "}
+                <span className="font-mono text-foreground/90 break-words">{formatConflictValue(edit.value)}</span>
+              </li>
+            ))}
+          </ul>
+          <div className="text-muted-foreground">
+            Kept: <span className="font-mono text-foreground/90 break-words">{formatConflictValue(conflict.applied)}</span>
+          </div>
+        </div>
+      ))}
+      {unresolved > 0 && (
+        <div className="text-xs text-muted-foreground">
+          Resolve with{" "}
+          <span className="font-mono text-foreground">
+            brenner session resolve --thread-id {threadId} --target &lt;id&gt; --field &lt;field&gt; --agent &lt;name&gt; --rationale &quot;…&quot;
+          </span>
+          , then re-run Compile.
+        </div>
+      )}
+    </div>
+  );
+}
+
 type CompiledLintState =
   | {
       ok: true;
@@ -440,6 +503,7 @@ type CompiledLintState =
       deltaMessagesAfterCompile: number;
       deltaStats: { deltaMessageCount: number; totalBlocks: number; validBlocks: number; invalidBlocks: number };
       merge: { applied: number; skipped: number; warningCount: number };
+      conflicts: EditConflict[];
     }
   | {
       ok: false;
@@ -453,6 +517,7 @@ function computeLintForLatestCompiled(params: {
   compiledVersion: number | null;
   kickoffCreatedAt: string | null;
   messages: AgentMailMessage[];
+  resolutions: ConflictResolution[];
 }): CompiledLintState {
   const compiledMs = Date.parse(params.compiledAt);
   const compiledCutoff = Number.isNaN(compiledMs) ? null : compiledMs;
@@ -468,7 +533,8 @@ function computeLintForLatestCompiled(params: {
   base.metadata.created_at = createdAt;
   base.metadata.updated_at = createdAt;
 
-  const collected: Array<ValidDelta & { timestamp: string; agent: string }> = [];
+  const messageRounds = getMessageRounds(params.messages);
+  const collected: Array<ValidDelta & { timestamp: string; agent: string; round?: number }> = [];
   let totalBlocks = 0;
   let validBlocks = 0;
   let invalidBlocks = 0;
@@ -483,13 +549,14 @@ function computeLintForLatestCompiled(params: {
 
     const agent = message.from?.trim() || "unknown";
     const timestamp = message.created_ts;
+    const round = messageRounds.get(message.id);
     for (const delta of parsed.deltas) {
       if (!delta.valid) continue;
-      collected.push({ ...delta, timestamp, agent });
+      collected.push({ ...delta, timestamp, agent, round });
     }
   }
 
-  const merge = mergeArtifactWithTimestamps(base, collected);
+  const merge = mergeArtifactWithTimestamps(base, collected, { resolutions: params.resolutions });
   if (!merge.ok) {
     return {
       ok: false,
@@ -522,6 +589,7 @@ function computeLintForLatestCompiled(params: {
       skipped: merge.skipped_count,
       warningCount: merge.warnings.length,
     },
+    conflicts: merge.warnings.flatMap((warning) => (warning.conflict ? [warning.conflict] : [])),
   };
 }
 
@@ -666,6 +734,9 @@ export default async function SessionDetailPage({
     });
 
   const latestArtifactBody = status.latestArtifact?.message.body_md ?? null;
+  const interventions = status.latestArtifact
+    ? await new InterventionStorage({ baseDir: projectKey }).loadSessionInterventions(threadId).catch(() => [])
+    : [];
   const latestCompiledMeta = status.latestArtifact
     ? computeLintForLatestCompiled({
         threadId,
@@ -673,6 +744,7 @@ export default async function SessionDetailPage({
         compiledVersion: status.latestArtifact.version,
         kickoffCreatedAt: status.kickoff?.created_ts ?? null,
         messages: messagesSorted,
+        resolutions: conflictResolutionsFromInterventions(interventions),
       })
     : null;
   const kickoffMessage = messagesSorted.find((m) => parseSubjectType(m.subject).type === "kickoff");
@@ -697,6 +769,11 @@ export default async function SessionDetailPage({
             <Link href={`/sessions/${threadId}/test-queue`} className="text-sm text-primary hover:underline">
               Test Queue
             </Link>
+            {status.round > 1 && (
+              <Link href={`/sessions/${threadId}/diff`} className="text-sm text-primary hover:underline">
+                Artifact Diff
+              </Link>
+            )}
             <Link href="/sessions/new" className="text-sm text-primary hover:underline">
               New Session
             </Link>
@@ -884,6 +961,10 @@ export default async function SessionDetailPage({
                   </div>
                 )}
 
+                {latestCompiledMeta.conflicts.length > 0 && (
+                  <EditConflictList threadId={threadId} conflicts={latestCompiledMeta.conflicts} />
+                )}
+
                 <details className="rounded-lg border border-border bg-muted/30 p-3 transition-all">
                   <summary className="cursor-pointer list-none text-xs font-medium text-muted-foreground hover:text-foreground touch-manipulation rounded-md -mx-1 px-1 py-0.5 transition-colors active:bg-muted/50 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring">
                     Show full lint report
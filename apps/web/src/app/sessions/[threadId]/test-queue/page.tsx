@@ -16,6 +16,7 @@ import Link from "next/link";
 import { useParams } from "next/navigation";
 import { cn } from "@/lib/utils";
 import { DemoFeaturePreview } from "@/components/sessions/DemoFeaturePreview";
+import { ExperimentRunTimeline } from "@/components/sessions/ExperimentRunTimeline";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
@@ -45,7 +46,14 @@ import {
   type TestQueuePriority,
   type TestQueueStatus,
 } from "@/lib/brenner-loop/test-queue";
+import {
+  planTests,
+  plannableFromQueueItem,
+  UNPLANNED_REASON_LABELS,
+  type PlanBudget,
+} from "@/lib/brenner-loop/test-plan";
 import { isDemoThreadId } from "@/lib/demo-mode";
+import type { ExperimentRunHistory } from "@/lib/schemas/experiment-run";
 
 // ============================================================================//
 // Helpers
@@ -119,6 +127,28 @@ function groupByPriority(items: TestQueueItem[]): Record<TestQueuePriority, Test
   return grouped;
 }
 
+function parseBudgetInput(value: string): number | undefined {
+  const trimmed = value.trim();
+  if (trimmed.length === 0) return undefined;
+  const n = Number(trimmed);
+  return Number.isFinite(n) && n >= 0 ? n : undefined;
+}
+
+function formatUsd(value: number): string {
+  return `$${Math.round(value).toLocaleString("en-US")}`;
+}
+
+/** Planner details reference queue item IDs; show test names instead */
+function withTestNames(detail: string, itemById: Map<string, TestQueueItem>): string {
+  let out = detail;
+  for (const [id, item] of itemById) out = out.split(id).join(item.test.name);
+  return out;
+}
+
+function formatDays(value: number): string {
+  return Number.isInteger(value) ? String(value) : value.toFixed(1);
+}
+
 // ============================================================================//
 // Page
 // ============================================================================//
@@ -156,6 +186,10 @@ function TestQueuePageContent({ threadId }: { threadId: string }) {
   const [activeHypothesisId, setActiveHypothesisId] = React.useState<string | null>(null);
   const [error, setError] = React.useState<string | null>(null);
   const [assumptionLedger, setAssumptionLedger] = React.useState<AssumptionLedgerEntry[]>([]);
+  const [maxCostInput, setMaxCostInput] = React.useState("");
+  const [maxDaysInput, setMaxDaysInput] = React.useState("");
+  const [runHistories, setRunHistories] = React.useState<ExperimentRunHistory[] | null>(null);
+  const [runHistoryError, setRunHistoryError] = React.useState<string | null>(null);
 
   React.useEffect(() => {
     if (!queueSessionId) return;
@@ -167,6 +201,31 @@ function TestQueuePageContent({ threadId }: { threadId: string }) {
     setAssumptionLedger(loadAssumptionLedger(queueSessionId));
   }, [queueSessionId]);
 
+  // Run history lives in the project workspace, served by the lab-mode experiments API
+  React.useEffect(() => {
+    if (!threadId) return;
+    let cancelled = false;
+
+    const loadRunHistory = async () => {
+      try {
+        const res = await fetch(`/api/experiments?threadId=${encodeURIComponent(threadId)}`);
+        if (res.status === 404) throw new Error("Run history requires lab mode.");
+        const payload = (await res.json()) as
+          | { success: true; histories: ExperimentRunHistory[] }
+          | { success: false; error: string };
+        if (!payload.success) throw new Error(payload.error);
+        if (!cancelled) setRunHistories(payload.histories);
+      } catch (e) {
+        if (!cancelled) setRunHistoryError(e instanceof Error ? e.message : "Failed to load run history.");
+      }
+    };
+
+    void loadRunHistory();
+    return () => {
+      cancelled = true;
+    };
+  }, [threadId]);
+
   const assumptionById = React.useMemo(() => {
     const map = new Map<string, AssumptionLedgerEntry>();
     for (const entry of assumptionLedger) map.set(entry.id, entry);
@@ -175,6 +234,15 @@ function TestQueuePageContent({ threadId }: { threadId: string }) {
 
   const stats = React.useMemo(() => getTestQueueStats(items), [items]);
   const grouped = React.useMemo(() => groupByPriority(items), [items]);
+  const itemById = React.useMemo(() => new Map(items.map((item) => [item.id, item])), [items]);
+
+  const plan = React.useMemo(() => {
+    const budget: PlanBudget = {
+      maxCost: parseBudgetInput(maxCostInput),
+      maxDays: parseBudgetInput(maxDaysInput),
+    };
+    return planTests(items.map(plannableFromQueueItem), budget);
+  }, [items, maxCostInput, maxDaysInput]);
 
   const canGenerate = statement.trim().length >= 10 && mechanism.trim().length >= 10 && hypothesisSessionId.length > 0;
 
@@ -406,6 +474,124 @@ function TestQueuePageContent({ threadId }: { threadId: string }) {
         </CardContent>
       </Card>
 
+      {items.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center justify-between gap-4">
+              <span>Execution Plan</span>
+              <Badge variant="secondary">discrimination per cost</Badge>
+            </CardTitle>
+            <CardDescription>
+              Suggested order for the whole queue: the most discrimination among hypotheses per dollar and day, after
+              dependencies, within your budget.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-5">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="plan-max-cost">Cost Budget (USD)</Label>
+                <Input
+                  id="plan-max-cost"
+                  inputMode="numeric"
+                  value={maxCostInput}
+                  onChange={(e) => setMaxCostInput(e.target.value)}
+                  placeholder="No limit"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="plan-max-days">Time Budget (days)</Label>
+                <Input
+                  id="plan-max-days"
+                  inputMode="numeric"
+                  value={maxDaysInput}
+                  onChange={(e) => setMaxDaysInput(e.target.value)}
+                  placeholder="No limit"
+                />
+              </div>
+            </div>
+
+            {plan.steps.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No open test fits the current budget.</p>
+            ) : (
+              <ol className="space-y-2" aria-label="Planned tests">
+                {plan.steps.map((step) => (
+                  <li
+                    key={step.test.id}
+                    className="flex flex-wrap items-center justify-between gap-3 rounded-lg border border-border bg-muted/20 px-3 py-2 text-sm"
+                  >
+                    <span className="flex items-center gap-3 min-w-0">
+                      <span className="font-mono text-xs text-muted-foreground">{step.order}.</span>
+                      <span className="font-medium truncate">{step.test.name}</span>
+                    </span>
+                    <span className="flex flex-wrap items-center gap-3 text-xs text-muted-foreground">
+                      <span>gain {step.expectedDiscrimination.toFixed(2)}</span>
+                      <span>{formatUsd(step.test.cost)}</span>
+                      <span>
+                        day {formatDays(step.startDay)}–{formatDays(step.finishDay)}
+                      </span>
+                    </span>
+                  </li>
+                ))}
+              </ol>
+            )}
+
+            <div className="flex flex-wrap gap-4 text-xs text-muted-foreground">
+              <span>
+                Total: <span className="text-foreground font-medium">{formatUsd(plan.totals.cost)}</span>
+              </span>
+              <span>
+                Duration: <span className="text-foreground font-medium">{formatDays(plan.totals.days)} days</span>
+              </span>
+              <span>
+                Expected discrimination:{" "}
+                <span className="text-foreground font-medium">{plan.totals.expectedDiscrimination.toFixed(2)}</span>
+              </span>
+            </div>
+
+            {plan.unplanned.length > 0 && (
+              <div className="space-y-2">
+                <div className="text-xs font-medium text-muted-foreground">Not planned</div>
+                <ul className="space-y-1.5 text-sm">
+                  {plan.unplanned.map((entry) => (
+                    <li key={entry.test.id} className="flex flex-wrap items-center gap-2">
+                      <Badge variant="outline" className="border-warning/40 text-warning">
+                        {UNPLANNED_REASON_LABELS[entry.reason]}
+                      </Badge>
+                      <span>{entry.test.name}</span>
+                      <span className="text-xs text-muted-foreground">
+                        {withTestNames(entry.detail, itemById)}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center justify-between gap-4">
+            <span>Run Timeline</span>
+            <Badge variant="secondary">all runs</Badge>
+          </CardTitle>
+          <CardDescription>
+            Every logged experiment run per test, oldest first. Disagreeing reruns are flagged instead of overwriting
+            earlier evidence.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {runHistoryError ? (
+            <div className="text-sm text-muted-foreground">{runHistoryError}</div>
+          ) : runHistories === null ? (
+            <div className="text-sm text-muted-foreground">Loading run history…</div>
+          ) : (
+            <ExperimentRunTimeline histories={runHistories} />
+          )}
+        </CardContent>
+      </Card>
+
       <section className="space-y-4">
         <div className="flex items-center justify-between gap-3">
           <h2 className="text-xl font-bold tracking-tight">Queue</h2>
@@ -541,6 +727,58 @@ function TestQueuePageContent({ threadId }: { threadId: string }) {
                               </div>
                             )}
 
+                            {items.length > 1 && (
+                              <div className="space-y-2">
+                                <Label>Depends On</Label>
+                                {(item.dependsOn ?? []).length === 0 ? (
+                                  <p className="text-xs text-muted-foreground">
+                                    No prerequisites. This test can start right away.
+                                  </p>
+                                ) : (
+                                  <div className="flex flex-wrap gap-2">
+                                    {(item.dependsOn ?? []).map((dependencyId) => (
+                                      <Badge key={dependencyId} variant="outline">
+                                        {itemById.get(dependencyId)?.test.name ?? dependencyId}
+                                      </Badge>
+                                    ))}
+                                  </div>
+                                )}
+
+                                <details className="rounded-lg border border-border bg-muted/20 p-3">
+                                  <summary className="cursor-pointer text-xs font-medium text-muted-foreground">
+                                    Add / remove prerequisites
+                                  </summary>
+                                  <div className="mt-3 space-y-2">
+                                    {items
+                                      .filter((other) => other.id !== item.id)
+                                      .map((other) => {
+                                        const dependsOn = item.dependsOn ?? [];
+                                        return (
+                                          <label key={other.id} className="flex items-start gap-2 text-sm">
+                                            <input
+                                              type="checkbox"
+                                              checked={dependsOn.includes(other.id)}
+                                              onChange={() => {
+                                                const next = dependsOn.includes(other.id)
+                                                  ? dependsOn.filter((id) => id !== other.id)
+                                                  : [...dependsOn, other.id];
+                                                setItems(
+                                                  updateQueueItem(queueSessionId, item.id, {
+                                                    dependsOn: next.length > 0 ? next : undefined,
+                                                  })
+                                                );
+                                              }}
+                                              className="mt-0.5 h-4 w-4 rounded border-border"
+                                            />
+                                            <span className="flex-1">{other.test.name}</span>
+                                          </label>
+                                        );
+                                      })}
+                                  </div>
+                                </details>
+                              </div>
+                            )}
+
                             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                               <div className="space-y-2">
                                 <Label>Prediction if True</Label>
@@ -9,7 +9,7 @@ import { OPERATOR_METADATA, type OperatorType } from "@/lib/brenner-loop/operato
 import { cn } from "@/lib/utils";
 import {
   computePersonalAnalytics,
-  sessionStorage,
+  getSessionStorage,
   loadObjectionStatsFromStorage,
   findThreadIdsForSession,
   type PersonalAnalytics,
@@ -91,8 +91,8 @@ export default function PersonalAnalyticsPage() {
 
     const run = async () => {
       try {
-        const summaries = await sessionStorage.list();
-        const maybeSessions = await Promise.all(summaries.map((s) => sessionStorage.load(s.id)));
+        const summaries = await getSessionStorage().list();
+        const maybeSessions = await Promise.all(summaries.map((s) => getSessionStorage().load(s.id)));
         const sessions = maybeSessions.filter((s): s is Session => s !== null);
 
         // Load objection stats from localStorage
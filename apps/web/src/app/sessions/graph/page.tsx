@@ -0,0 +1,132 @@
+import { resolve } from "node:path";
+import Link from "next/link";
+import { cookies, headers } from "next/headers";
+import { KnowledgeGraphView } from "@/components/sessions/KnowledgeGraphView";
+import { isLabModeEnabled, checkOrchestrationAuth } from "@/lib/auth";
+import {
+  GRAPH_EDGE_TYPES,
+  KnowledgeGraphAggregator,
+  findUnderminingAssumptions,
+  traceLineage,
+  type GraphEdgeType,
+  type KnowledgeGraph,
+} from "@/lib/storage/knowledge-graph";
+import type { Metadata } from "next";
+
+export const metadata: Metadata = {
+  title: "Knowledge Graph",
+  description: "Hypotheses, assumptions, anomalies, critiques, and tests linked across every session.",
+};
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// ----- Utilities -----
+
+function repoRootFromWebCwd(): string {
+  return resolve(process.cwd(), "../..");
+}
+
+function parseEdgeType(value: string | undefined): GraphEdgeType | undefined {
+  return GRAPH_EDGE_TYPES.find((type) => type === value);
+}
+
+// ----- Components -----
+
+function LockedState({ reason }: { reason: string }) {
+  return (
+    <div className="max-w-2xl mx-auto space-y-6 animate-fade-in-up">
+      <div className="rounded-2xl border border-border bg-card p-8">
+        <div className="flex items-start gap-4">
+          <div className="flex items-center justify-center size-12 rounded-xl bg-warning/10 border border-warning/20 text-warning">
+            <svg className="size-6" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}>
+              <path strokeLinecap="round" strokeLinejoin="round" d="M16.5 10.5V6.75a4.5 4.5 0 10-9 0v3.75m-.75 11.25h10.5a2.25 2.25 0 002.25-2.25v-6.75a2.25 2.25 0 00-2.25-2.25H6.75a2.25 2.25 0 00-2.25 2.25v6.75a2.25 2.25 0 002.25 2.25z" />
+            </svg>
+          </div>
+          <div className="space-y-2">
+            <h1 className="text-xl font-bold tracking-tight text-foreground">Lab Mode Locked</h1>
+            <p className="text-sm text-muted-foreground">{reason}</p>
+          </div>
+        </div>
+      </div>
+
+      <div className="text-center">
+        <Link href="/sessions" className="text-primary hover:underline">
+          Back to Sessions
+        </Link>
+      </div>
+    </div>
+  );
+}
+
+// ----- Main Page -----
+
+export default async function KnowledgeGraphPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ focus?: string; type?: string }>;
+}) {
+  // Check lab mode
+  if (!isLabModeEnabled()) {
+    return <LockedState reason="Lab mode is disabled. Set BRENNER_LAB_MODE=1 to enable orchestration." />;
+  }
+
+  // Check auth
+  const reqHeaders = await headers();
+  const reqCookies = await cookies();
+  const pageAuth = checkOrchestrationAuth(reqHeaders, reqCookies);
+  if (!pageAuth.authorized) {
+    return <LockedState reason={pageAuth.reason} />;
+  }
+
+  const { focus, type } = await searchParams;
+  const edgeType = parseEdgeType(type);
+
+  const projectKey = process.env.BRENNER_PROJECT_KEY ?? repoRootFromWebCwd();
+
+  let graph: KnowledgeGraph | null = null;
+  let loadError: string | null = null;
+  try {
+    graph = await new KnowledgeGraphAggregator({ baseDir: projectKey }).build();
+  } catch (err) {
+    loadError = err instanceof Error ? err.message : String(err);
+  }
+
+  const sessionCount = graph ? new Set(graph.nodes.map((node) => node.sessionId)).size : 0;
+
+  return (
+    <div className="max-w-6xl mx-auto space-y-8">
+      {/* Header */}
+      <header className="space-y-3 animate-fade-in-up">
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          <Link href="/sessions" className="hover:text-primary hover:underline">
+            &larr; Back to Sessions
+          </Link>
+        </div>
+        <h1 className="text-2xl font-bold tracking-tight">Knowledge Graph</h1>
+        <p className="text-sm text-muted-foreground">
+          {graph
+            ? `${graph.nodes.length} artifacts and ${graph.edges.length} links across ${sessionCount} session${sessionCount === 1 ? "" : "s"}.`
+            : "Hypotheses, assumptions, anomalies, critiques, and tests linked across every session."}
+        </p>
+      </header>
+
+      {loadError && (
+        <div className="rounded-xl border border-warning/30 bg-warning/5 p-4">
+          <div className="font-semibold text-warning">Failed to load registries</div>
+          <div className="mt-1 text-sm text-muted-foreground break-words">{loadError}</div>
+        </div>
+      )}
+
+      {graph && (
+        <KnowledgeGraphView
+          graph={graph}
+          undermining={findUnderminingAssumptions(graph)}
+          focusId={focus}
+          lineage={focus ? traceLineage(graph, focus) : undefined}
+          edgeType={edgeType}
+        />
+      )}
+    </div>
+  );
+}
@@ -422,6 +422,13 @@ export default async function SessionsListPage() {
             Analytics
             <ChevronRightIcon className="size-4 opacity-70" />
           </Link>
+          <Link
+            href="/sessions/graph"
+            className="inline-flex items-center gap-2 px-4 py-2.5 rounded-xl border border-border bg-muted/30 text-sm font-medium text-foreground hover:bg-muted/50 active:scale-[0.98] transition-all touch-manipulation focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 focus-visible:ring-offset-background"
+          >
+            Graph
+            <ChevronRightIcon className="size-4 opacity-70" />
+          </Link>
           <Link
             href="/sessions/new"
             className="inline-flex items-center gap-2 px-4 py-2.5 rounded-xl bg-primary text-primary-foreground text-sm font-medium shadow-md shadow-primary/20 hover:shadow-lg hover:shadow-primary/30 hover:-translate-y-0.5 active:scale-[0.98] transition-all touch-manipulation focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 focus-visible:ring-offset-background"
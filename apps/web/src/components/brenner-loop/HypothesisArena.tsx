@@ -33,6 +33,7 @@ import type {
   ComparisonMatrix,
   TestResultType,
   ArenaHypothesisStatus,
+  ArenaScoringMode,
 } from "@/lib/brenner-loop/hypothesis-arena";
 import {
   buildComparisonMatrix,
@@ -71,6 +72,9 @@ export interface HypothesisArenaProps {
   /** Callback when clicking a hypothesis */
   onHypothesisClick?: (hypothesisId: string) => void;
 
+  /** Callback when switching between points and bayesian scoring */
+  onScoringModeChange?: (mode: ArenaScoringMode) => void;
+
   /** Whether the arena is read-only */
   readonly?: boolean;
 
@@ -78,6 +82,15 @@ export interface HypothesisArenaProps {
   className?: string;
 }
 
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function formatProbability(p: number): string {
+  if (p > 0 && p < 0.01) return "<1%";
+  return `${Math.round(p * 100)}%`;
+}
+
 // ============================================================================
 // Icons
 // ============================================================================
@@ -228,6 +241,8 @@ function ResultCell({ result, onClick, readonly }: ResultCellProps) {
 interface CompetitorCardProps {
   competitor: ArenaHypothesis;
   isLeader: boolean;
+  /** Posterior probability (bayesian mode) */
+  posterior?: number;
   onEliminate?: () => void;
   onResolve?: () => void;
   onClick?: () => void;
@@ -237,6 +252,7 @@ interface CompetitorCardProps {
 function CompetitorCard({
   competitor,
   isLeader,
+  posterior,
   onEliminate,
   onResolve,
   onClick,
@@ -274,13 +290,19 @@ function CompetitorCard({
           <span className="text-xs text-muted-foreground">
             {SOURCE_LABELS[competitor.source]}
           </span>
-          <span className={cn(
-            "font-semibold text-sm",
-            competitor.score > 0 && "text-green-600",
-            competitor.score < 0 && "text-red-600"
-          )}>
-            {competitor.score > 0 ? "+" : ""}{competitor.score}
-          </span>
+          {posterior !== undefined ? (
+            <span className="font-semibold text-sm" title="Posterior probability">
+              {formatProbability(posterior)}
+            </span>
+          ) : (
+            <span className={cn(
+              "font-semibold text-sm",
+              competitor.score > 0 && "text-green-600",
+              competitor.score < 0 && "text-red-600"
+            )}>
+              {competitor.score > 0 ? "+" : ""}{competitor.score}
+            </span>
+          )}
         </div>
       </div>
 
@@ -396,6 +418,17 @@ function ComparisonMatrixTable({ matrix, onCellClick, readonly }: ComparisonMatr
               </th>
             ))}
             <th className="py-2 px-3 font-medium text-right">Score</th>
+            {matrix.posterior && (
+              <>
+                <th className="py-2 px-3 font-medium text-right">Posterior</th>
+                <th
+                  className="py-2 px-3 font-medium text-right"
+                  title="Expected information gain (bits) from testing this hypothesis next"
+                >
+                  EIG
+                </th>
+              </>
+            )}
             <th className="py-2 px-3 font-medium text-center">Status</th>
           </tr>
         </thead>
@@ -444,6 +477,16 @@ function ComparisonMatrixTable({ matrix, onCellClick, readonly }: ComparisonMatr
                   {row.score > 0 ? "+" : ""}{row.score}
                 </span>
               </td>
+              {matrix.posterior && (
+                <>
+                  <td className="py-2 px-3 text-right font-semibold">
+                    {formatProbability(row.posterior ?? 0)}
+                  </td>
+                  <td className="py-2 px-3 text-right text-muted-foreground">
+                    {(row.expectedInformationGain ?? 0).toFixed(2)}
+                  </td>
+                </>
+              )}
               <td className="py-2 px-3 text-center">
                 <StatusBadge status={row.status} />
               </td>
@@ -467,6 +510,7 @@ export function HypothesisArena({
   onEliminate,
   onResolve,
   onHypothesisClick,
+  onScoringModeChange,
   readonly = false,
   className,
 }: HypothesisArenaProps) {
@@ -475,6 +519,8 @@ export function HypothesisArena({
   const leader = getLeader(arena);
   const discriminativePower = calculateDiscriminativePower(arena);
   const matrix = buildComparisonMatrix(arena);
+  const scoringMode = arena.scoringMode ?? "points";
+  const posteriorById = new Map(matrix.rows.map((row) => [row.hypothesisId, row.posterior]));
 
   const [showGraveyard, setShowGraveyard] = React.useState(false);
 
@@ -549,6 +595,12 @@ export function HypothesisArena({
           <div className="text-2xl font-bold">{Math.round(discriminativePower * 100)}%</div>
           <div className="text-xs text-muted-foreground">Discriminative Power</div>
         </div>
+        {matrix.posterior && (
+          <div title="Posterior probability that none of the competitors is right">
+            <div className="text-2xl font-bold">{formatProbability(matrix.posterior.residual)}</div>
+            <div className="text-xs text-muted-foreground">None of These</div>
+          </div>
+        )}
         {leader && (
           <div className="ml-auto">
             <div className="text-xs text-muted-foreground mb-1">Current Leader</div>
@@ -580,6 +632,15 @@ export function HypothesisArena({
               Create Test
             </Button>
           )}
+          {onScoringModeChange && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => onScoringModeChange(scoringMode === "bayesian" ? "points" : "bayesian")}
+            >
+              {scoringMode === "bayesian" ? "Use points scoring" : "Use Bayesian scoring"}
+            </Button>
+          )}
         </div>
       )}
 
@@ -588,7 +649,9 @@ export function HypothesisArena({
         <div className="px-4 py-3 border-b border-border bg-muted/30">
           <h3 className="font-semibold">Comparison Matrix</h3>
           <p className="text-xs text-muted-foreground mt-0.5">
-            Test results across competing hypotheses
+            {matrix.posterior
+              ? "Test results, posterior probabilities, and expected information gain"
+              : "Test results across competing hypotheses"}
           </p>
         </div>
         <div className="p-4">
@@ -612,6 +675,7 @@ export function HypothesisArena({
                 key={competitor.hypothesisId}
                 competitor={competitor}
                 isLeader={leader?.hypothesisId === competitor.hypothesisId}
+                posterior={posteriorById.get(competitor.hypothesisId)}
                 onEliminate={onEliminate ? () => onEliminate(competitor.hypothesisId) : undefined}
                 onResolve={onResolve ? () => onResolve(competitor.hypothesisId) : undefined}
                 onClick={onHypothesisClick ? () => onHypothesisClick(competitor.hypothesisId) : undefined}
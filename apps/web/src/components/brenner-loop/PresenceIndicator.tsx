@@ -0,0 +1,89 @@
+"use client";
+
+/**
+ * Presence Indicator Component
+ *
+ * Shows who else is editing a collaborative Brenner Loop session, one
+ * colored avatar per collaborator, plus the relay connection state.
+ */
+
+import * as React from "react";
+import { cn } from "@/lib/utils";
+import type { CollaboratorPresence } from "@/lib/brenner-loop/collaboration";
+import type { CollaborationStatus } from "@/lib/brenner-loop/collaboration-client";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface PresenceIndicatorProps {
+  /** Collaborators currently in the session */
+  collaborators: CollaboratorPresence[];
+  /** Relay connection state (null hides the indicator) */
+  status: CollaborationStatus | null;
+  /** Maximum avatars before collapsing into "+N" */
+  maxAvatars?: number;
+  className?: string;
+}
+
+const STATUS_LABELS: Record<CollaborationStatus, string> = {
+  connecting: "Connecting…",
+  live: "Live",
+  offline: "Offline — edits will sync when reconnected",
+  stale: "Missed updates — reload to resync",
+};
+
+function initials(name: string): string {
+  const parts = name.trim().split(/\s+/).filter(Boolean);
+  if (parts.length === 0) return "?";
+  return parts
+    .slice(0, 2)
+    .map((part) => part[0]!.toUpperCase())
+    .join("");
+}
+
+// ============================================================================
+// Component
+// ============================================================================
+
+export function PresenceIndicator({
+  collaborators,
+  status,
+  maxAvatars = 5,
+  className,
+}: PresenceIndicatorProps) {
+  if (!status) return null;
+
+  const visible = collaborators.slice(0, maxAvatars);
+  const overflow = collaborators.length - visible.length;
+
+  return (
+    <div className={cn("flex items-center gap-2", className)} aria-label="Collaborators">
+      <span
+        className={cn(
+          "h-2 w-2 rounded-full",
+          status === "live" ? "bg-green-500" : status === "connecting" ? "bg-amber-400" : "bg-destructive"
+        )}
+        title={STATUS_LABELS[status]}
+        aria-label={STATUS_LABELS[status]}
+      />
+      <ul className="flex -space-x-2">
+        {visible.map((collaborator) => (
+          <li
+            key={collaborator.actor}
+            className="flex h-7 w-7 items-center justify-center rounded-full border-2 border-background text-[10px] font-semibold text-white"
+            style={{ backgroundColor: collaborator.color }}
+            title={collaborator.focus ? `${collaborator.name} · ${collaborator.focus}` : collaborator.name}
+          >
+            {initials(collaborator.name)}
+          </li>
+        ))}
+        {overflow > 0 && (
+          <li className="flex h-7 w-7 items-center justify-center rounded-full border-2 border-background bg-muted text-[10px] font-semibold text-muted-foreground">
+            +{overflow}
+          </li>
+        )}
+      </ul>
+    </div>
+  );
+}
@@ -14,7 +14,7 @@ import { cn } from "@/lib/utils";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import {
-  sessionStorage,
+  getSessionStorage,
   exportSession,
   getPhaseName,
   getPhaseSymbol,
@@ -347,7 +347,7 @@ export function SessionCard({
   const handleDelete = async () => {
     setIsDeleting(true);
     try {
-      await sessionStorage.delete(session.id);
+      await getSessionStorage().delete(session.id);
       if (onDelete) {
         onDelete(session.id);
       }
@@ -362,7 +362,7 @@ export function SessionCard({
   const handleExport = async (format: "json" | "markdown") => {
     setIsExporting(true);
     try {
-      const fullSession = await sessionStorage.load(session.id);
+      const fullSession = await getSessionStorage().load(session.id);
       if (!fullSession) {
         console.error("Session not found");
         return;
@@ -12,6 +12,9 @@ const mocks = vi.hoisted(() => ({
   advancePhase: vi.fn(),
   appendOperatorApplication: vi.fn(),
   phase: "level_split" as string,
+  templateId: undefined as string | undefined,
+  saveStatus: "saved" as string,
+  resolveSaveConflict: vi.fn().mockResolvedValue(undefined),
 }));
 
 vi.mock("framer-motion", () => ({
@@ -81,6 +84,36 @@ vi.mock("./operators/ScaleCheckSession", () => ({
   ScaleCheckSession: () => <div data-testid="scale-check-session" />,
 }));
 
+vi.mock("./operators/ParadoxHuntSession", () => ({
+  ParadoxHuntSession: () => <div data-testid="paradox-hunt-session" />,
+}));
+
+vi.mock("./operators/InvariantExtractSession", () => ({
+  InvariantExtractSession: () => <div data-testid="invariant-extract-session" />,
+}));
+
+vi.mock("./operators/ExceptionQuarantineSession", () => ({
+  ExceptionQuarantineSession: () => <div data-testid="exception-quarantine-session" />,
+}));
+
+vi.mock("./operators/TheoryKillSession", () => ({
+  TheoryKillSession: ({ onComplete }: { onComplete?: (result: unknown) => void }) => (
+    <button
+      type="button"
+      data-testid="theory-kill-session"
+      onClick={() =>
+        onComplete?.({
+          target: { kind: "hypothesis", statement: "Test hypothesis", contradictingEvidence: ["E1"] },
+          killReason: "E1 contradicts it.",
+          readinessChecks: [{ id: "potent", question: "Potent?", rationale: "", answer: true }],
+          rescueLanguage: [],
+          verdict: "kill",
+        })
+      }
+    />
+  ),
+}));
+
 vi.mock("./agents/AgentTribunalPanel", () => ({
   AgentTribunalPanel: () => <div data-testid="agent-tribunal-panel" />,
 }));
@@ -121,6 +154,7 @@ vi.mock("@/lib/brenner-loop", async () => {
         id: "TEST-1",
         phase: mocks.phase,
         primaryHypothesisId: "H1",
+        templateSettings: mocks.templateId ? { templateId: mocks.templateId, appliedAt: "" } : undefined,
       },
       primaryHypothesis: {
         id: "H1",
@@ -134,7 +168,8 @@ vi.mock("@/lib/brenner-loop", async () => {
       error: null,
       attachQuote: vi.fn(),
       isDirty: false,
-      saveState: { status: "saved" },
+      saveState: { status: mocks.saveStatus },
+      resolveSaveConflict: mocks.resolveSaveConflict,
       saveSession: mocks.saveSession,
       updateHypothesis: mocks.updateHypothesis,
       advancePhase: mocks.advancePhase,
@@ -262,3 +297,99 @@ describe("SessionDashboard PhaseContent rendering", () => {
     expect(screen.getByTestId("hypothesis-revision-editor")).toBeInTheDocument();
   });
 });
+
+describe("SessionDashboard supplementary operators", () => {
+  it("is hidden during intake", async () => {
+    mocks.phase = "intake";
+
+    const { SessionDashboard } = await import("./SessionDashboard");
+    render(<SessionDashboard />);
+
+    expect(screen.queryByTestId("supplementary-operators")).not.toBeInTheDocument();
+  });
+
+  it("records a Theory Kill without advancing the phase", async () => {
+    const user = userEvent.setup();
+    mocks.phase = "revision";
+    mocks.appendOperatorApplication.mockClear();
+    mocks.advancePhase.mockClear();
+
+    const { SessionDashboard } = await import("./SessionDashboard");
+    render(<SessionDashboard />);
+
+    await user.click(screen.getByRole("button", { name: /Theory Kill/ }));
+    await user.click(screen.getByTestId("theory-kill-session"));
+
+    expect(mocks.appendOperatorApplication).toHaveBeenCalledWith(
+      "theoryKill",
+      expect.objectContaining({
+        targetKind: "hypothesis",
+        killedHypothesisId: "H1",
+        verdict: "kill",
+        failedChecks: [],
+        contradictingEvidence: ["E1"],
+      })
+    );
+    expect(mocks.advancePhase).not.toHaveBeenCalled();
+    expect(screen.queryByTestId("theory-kill-session")).not.toBeInTheDocument();
+  });
+
+  it("runs an operator chain and records each completed step", async () => {
+    const user = userEvent.setup();
+    mocks.phase = "revision";
+    mocks.appendOperatorApplication.mockClear();
+    mocks.advancePhase.mockClear();
+
+    const { SessionDashboard } = await import("./SessionDashboard");
+    render(<SessionDashboard />);
+
+    await user.click(screen.getByRole("button", { name: "Hygiene Layer" }));
+    expect(screen.getByTestId("composition-runner")).toBeInTheDocument();
+    expect(screen.getByTestId("scale-check-session")).toBeInTheDocument();
+
+    await user.click(screen.getByRole("button", { name: /Skip operator/ }));
+    expect(screen.getByTestId("exception-quarantine-session")).toBeInTheDocument();
+
+    await user.click(screen.getByRole("button", { name: /Skip operator/ }));
+    await user.click(screen.getByTestId("theory-kill-session"));
+
+    expect(mocks.appendOperatorApplication).toHaveBeenCalledTimes(1);
+    expect(mocks.appendOperatorApplication).toHaveBeenCalledWith(
+      "theoryKill",
+      expect.objectContaining({ killedHypothesisId: "H1", verdict: "kill" })
+    );
+    expect(mocks.advancePhase).not.toHaveBeenCalled();
+    expect(screen.getByText("Chain complete")).toBeInTheDocument();
+  });
+
+  it("starts the operator chain of the session's template", async () => {
+    mocks.phase = "sharpening";
+    mocks.templateId = "hygiene-layer";
+
+    const { SessionDashboard } = await import("./SessionDashboard");
+    render(<SessionDashboard />);
+    mocks.templateId = undefined;
+
+    expect(screen.getByTestId("composition-runner")).toBeInTheDocument();
+    expect(screen.getByTestId("scale-check-session")).toBeInTheDocument();
+  });
+
+  it("offers to resolve a save conflict", async () => {
+    const user = userEvent.setup();
+    mocks.phase = "sharpening";
+    mocks.saveStatus = "conflict";
+    mocks.resolveSaveConflict.mockClear();
+
+    const { SessionDashboard } = await import("./SessionDashboard");
+    render(<SessionDashboard />);
+    mocks.saveStatus = "saved";
+
+    expect(screen.getByTestId("save-conflict")).toBeInTheDocument();
+    expect(screen.getByText("Changed elsewhere. Autosave paused.")).toBeInTheDocument();
+
+    await user.click(screen.getByRole("button", { name: "Keep my changes" }));
+    expect(mocks.resolveSaveConflict).toHaveBeenCalledWith("keep_local");
+    await user.click(screen.getByRole("button", { name: "Load saved version" }));
+    expect(mocks.resolveSaveConflict).toHaveBeenCalledWith("use_stored");
+  });
+});
@@ -33,6 +33,7 @@ import { toast } from "@/components/ui/toast";
 import { HypothesisCard } from "./HypothesisCard";
 import { HypothesisIntake } from "./HypothesisIntake";
 import { PhaseTimeline } from "./PhaseTimeline";
+import { PresenceIndicator } from "./PresenceIndicator";
 import { useAsyncOperation } from "@/hooks/useAsyncOperation";
 import { CorpusSearchDialog } from "./CorpusSearch";
 import { AgentTribunalPanel } from "./agents/AgentTribunalPanel";
@@ -43,6 +44,11 @@ import { ExclusionTestSession } from "./operators/ExclusionTestSession";
 import { LevelSplitSession } from "./operators/LevelSplitSession";
 import { ObjectTransposeSession } from "./operators/ObjectTransposeSession";
 import { ScaleCheckSession } from "./operators/ScaleCheckSession";
+import { ParadoxHuntSession } from "./operators/ParadoxHuntSession";
+import { InvariantExtractSession } from "./operators/InvariantExtractSession";
+import { ExceptionQuarantineSession } from "./operators/ExceptionQuarantineSession";
+import { TheoryKillSession } from "./operators/TheoryKillSession";
+import { CompositionRunner, type CompositionStepCompletion } from "./operators/CompositionRunner";
 import type { ExclusionTestResult as UiExclusionTestResult } from "@/lib/brenner-loop/operators/exclusion-test";
 import type { LevelSplitResult as UiLevelSplitResult } from "@/lib/brenner-loop/operators/level-split";
 import type {
@@ -50,6 +56,16 @@ import type {
   AlternativeExplanation as UiAlternativeExplanation,
 } from "@/lib/brenner-loop/operators/object-transpose";
 import type { ScaleCheckResult as UiScaleCheckResult } from "@/lib/brenner-loop/operators/scale-check";
+import type { ParadoxHuntResult as UiParadoxHuntResult } from "@/lib/brenner-loop/operators/paradox-hunt";
+import type { InvariantExtractResult as UiInvariantExtractResult } from "@/lib/brenner-loop/operators/invariant-extract";
+import type { ExceptionQuarantineResult as UiExceptionQuarantineResult } from "@/lib/brenner-loop/operators/exception-quarantine";
+import type { TheoryKillResult as UiTheoryKillResult } from "@/lib/brenner-loop/operators/theory-kill";
+import {
+  OPERATOR_COMPOSITIONS,
+  formatCompositionNotation,
+  type OperatorComposition,
+} from "@/lib/brenner-loop/operators/composition";
+import { getSessionTemplate, getTemplateComposition } from "@/lib/brenner-loop/session-templates";
 import { isEvidenceEntry, type EvidenceEntry as FullEvidenceEntry } from "@/lib/brenner-loop/evidence";
 import {
   PHASE_ORDER,
@@ -67,6 +83,10 @@ import {
   type ExclusionTestResult as SessionExclusionTestResult,
   type ObjectTransposeResult as SessionObjectTransposeResult,
   type ScaleCheckResult as SessionScaleCheckResult,
+  type ParadoxHuntResult as SessionParadoxHuntResult,
+  type InvariantExtractResult as SessionInvariantExtractResult,
+  type ExceptionQuarantineResult as SessionExceptionQuarantineResult,
+  type TheoryKillResult as SessionTheoryKillResult,
   type AlternativeSystem,
   type ScaleCalculation,
 } from "@/lib/brenner-loop";
@@ -516,6 +536,120 @@ function toSessionScaleCheckResult(args: {
   };
 }
 
+function toSessionParadoxHuntResult(args: {
+  result: UiParadoxHuntResult;
+  hypothesisId: string;
+  appliedAt: string;
+  appliedBy: string;
+}): SessionParadoxHuntResult {
+  const selectedResolutionIds = new Set(args.result.selectedResolutionIds);
+  const selectedTestIds = new Set(args.result.selectedTestIds);
+  const leading = args.result.resolutions.find((res) => res.id === args.result.leadingResolutionId);
+
+  return {
+    appliedAt: args.appliedAt,
+    appliedBy: args.appliedBy,
+    paradox: {
+      claimA: args.result.paradox.claimA,
+      claimB: args.result.paradox.claimB,
+    },
+    resolutions: args.result.resolutions
+      .filter((res) => selectedResolutionIds.has(res.id))
+      .map((res) => ({
+        type: res.type,
+        description: res.description,
+        plausibility: res.plausibility,
+      })),
+    discriminatingTests: args.result.tests
+      .filter((test) => selectedTestIds.has(test.id))
+      .map((test) => test.description),
+    hypothesisIds: [args.hypothesisId],
+    notes: leading ? `Leading resolution: ${leading.name}.` : undefined,
+  };
+}
+
+function toSessionInvariantExtractResult(args: {
+  result: UiInvariantExtractResult;
+  appliedAt: string;
+  appliedBy: string;
+}): SessionInvariantExtractResult {
+  const statementById = new Map(args.result.invariants.map((inv) => [inv.id, inv.statement]));
+
+  return {
+    appliedAt: args.appliedAt,
+    appliedBy: args.appliedBy,
+    invariants: args.result.invariants.map((inv) => inv.statement),
+    ruledOutFamilies: args.result.forbiddenPatterns.map((pattern) => ({
+      family: pattern.modelFamily,
+      invariant: statementById.get(pattern.invariantId) ?? pattern.invariantId,
+      reason: pattern.reason,
+    })),
+    probeTest: args.result.probe?.description,
+    assumptions: args.result.assumptions.map((a) => (a.scaleCheck ? `${a.statement} (needs scale check)` : a.statement)),
+  };
+}
+
+function toSessionExceptionQuarantineResult(args: {
+  result: UiExceptionQuarantineResult;
+  appliedAt: string;
+  appliedBy: string;
+}): SessionExceptionQuarantineResult {
+  const selectedTestIds = new Set(args.result.selectedTestIds);
+  const highestLeverage = args.result.anomalies.find(
+    (anomaly) => anomaly.id === args.result.highestLeverageAnomalyId
+  );
+
+  return {
+    appliedAt: args.appliedAt,
+    appliedBy: args.appliedBy,
+    anomalies: args.result.anomalies
+      .filter((anomaly) => anomaly.classification !== "unclassified")
+      .map((anomaly) => ({
+        description: anomaly.description,
+        classification: anomaly.classification === "signal" ? "signal" : "noise",
+        conflictsWith: anomaly.conflictsWith?.trim() || undefined,
+        wouldResolve: anomaly.wouldResolve?.trim() || undefined,
+      })),
+    highestLeverageAnomaly: highestLeverage?.description,
+    resolvingTests: args.result.tests
+      .filter((test) => selectedTestIds.has(test.id))
+      .map((test) => test.description),
+    coreModelIntact: args.result.coreModelIntact,
+    notes: args.result.sharedPatterns.length > 0
+      ? `Signal anomalies share terms: ${args.result.sharedPatterns.map((p) => p.sharedTerms.join(", ")).join("; ")}.`
+      : undefined,
+  };
+}
+
+function toSessionTheoryKillResult(args: {
+  result: UiTheoryKillResult;
+  hypothesisId: string;
+  appliedAt: string;
+  appliedBy: string;
+}): SessionTheoryKillResult {
+  const { target, replacement } = args.result;
+
+  return {
+    appliedAt: args.appliedAt,
+    appliedBy: args.appliedBy,
+    targetKind: target.kind,
+    target: target.statement,
+    killedHypothesisId: target.kind === "hypothesis" && args.result.verdict === "kill" ? args.hypothesisId : undefined,
+    killReason: args.result.killReason,
+    contradictingEvidence: target.contradictingEvidence,
+    verdict: args.result.verdict,
+    failedChecks: args.result.readinessChecks
+      .filter((check) => check.answer === false)
+      .map((check) => check.question),
+    replacement: replacement
+      ? `${replacement.statement}${replacement.isThirdAlternative ? " (third alternative)" : ""}`
+      : undefined,
+    notes: args.result.rescueLanguage.length > 0
+      ? `Possible rescue language: ${args.result.rescueLanguage.join(", ")}.`
+      : undefined,
+  };
+}
+
 function splitLines(value: string): string[] {
   return value
     .split("\n")
@@ -673,6 +807,228 @@ function HypothesisEditorPanel({
   );
 }
 
+type SupplementaryOperator = "paradox_hunt" | "invariant_extract" | "exception_quarantine" | "theory_kill";
+
+const SUPPLEMENTARY_OPERATORS: Array<{ type: SupplementaryOperator; symbol: string; name: string }> = [
+  { type: "paradox_hunt", symbol: "\u25CA", name: "Paradox Hunt" },
+  { type: "invariant_extract", symbol: "\u2261", name: "Invariant Extract" },
+  { type: "exception_quarantine", symbol: "\u0394E", name: "Exception Quarantine" },
+  { type: "theory_kill", symbol: "\u2020", name: "Theory Kill" },
+];
+
+/**
+ * Launcher for operators that are not session phases.
+ * Results are recorded into the session without advancing the phase.
+ */
+function SupplementaryOperatorPanel({
+  hypothesis,
+  appliedBy,
+  templateChain,
+}: {
+  hypothesis: HypothesisCardModel;
+  appliedBy: string;
+  /** Chain declared by the session's template; starts open */
+  templateChain?: OperatorComposition;
+}) {
+  const { appendOperatorApplication } = useSession();
+  const [active, setActive] = React.useState<SupplementaryOperator | null>(null);
+  const [activeChain, setActiveChain] = React.useState<OperatorComposition | null>(templateChain ?? null);
+
+  const close = React.useCallback(() => setActive(null), []);
+  const closeChain = React.useCallback(() => setActiveChain(null), []);
+
+  // Each chain step is recorded as it completes, against the hypothesis it ran on
+  const recordChainStep = React.useCallback(
+    ({ operatorType, result, inputHypothesis }: CompositionStepCompletion) => {
+      const appliedAt = new Date().toISOString();
+      const base = { hypothesisId: inputHypothesis.id, appliedAt, appliedBy };
+
+      switch (operatorType) {
+        case "level_split":
+          appendOperatorApplication(
+            "levelSplit",
+            toSessionLevelSplitResult({ ...base, result: result as UiLevelSplitResult })
+          );
+          break;
+        case "exclusion_test":
+          appendOperatorApplication(
+            "exclusionTest",
+            toSessionExclusionTestResult({ ...base, result: result as UiExclusionTestResult })
+          );
+          break;
+        case "object_transpose":
+          appendOperatorApplication(
+            "objectTranspose",
+            toSessionObjectTransposeResult({
+              result: result as UiObjectTransposeResult,
+              hypothesisStatement: inputHypothesis.statement,
+              appliedAt,
+              appliedBy,
+            })
+          );
+          break;
+        case "scale_check":
+          appendOperatorApplication(
+            "scaleCheck",
+            toSessionScaleCheckResult({ ...base, result: result as UiScaleCheckResult })
+          );
+          break;
+        case "paradox_hunt":
+          appendOperatorApplication(
+            "paradoxHunt",
+            toSessionParadoxHuntResult({ ...base, result: result as UiParadoxHuntResult })
+          );
+          break;
+        case "invariant_extract":
+          appendOperatorApplication(
+            "invariantExtract",
+            toSessionInvariantExtractResult({ appliedAt, appliedBy, result: result as UiInvariantExtractResult })
+          );
+          break;
+        case "exception_quarantine":
+          appendOperatorApplication(
+            "exceptionQuarantine",
+            toSessionExceptionQuarantineResult({ appliedAt, appliedBy, result: result as UiExceptionQuarantineResult })
+          );
+          break;
+        case "theory_kill":
+          appendOperatorApplication(
+            "theoryKill",
+            toSessionTheoryKillResult({ ...base, result: result as UiTheoryKillResult })
+          );
+          break;
+      }
+    },
+    [appendOperatorApplication, appliedBy]
+  );
+
+  return (
+    <div className="mt-8 border-t border-border pt-6 space-y-4" data-testid="supplementary-operators">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-sm text-muted-foreground mr-2">More operators:</span>
+        {SUPPLEMENTARY_OPERATORS.map((op) => (
+          <Button
+            key={op.type}
+            type="button"
+            variant={active === op.type ? "default" : "outline"}
+            size="sm"
+            onClick={() => {
+              setActiveChain(null);
+              setActive((current) => (current === op.type ? null : op.type));
+            }}
+          >
+            <span className="font-mono mr-1">{op.symbol}</span>
+            {op.name}
+          </Button>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-sm text-muted-foreground mr-2">Operator chains:</span>
+        {OPERATOR_COMPOSITIONS.map((composition) => (
+          <Button
+            key={composition.id}
+            type="button"
+            variant={activeChain?.id === composition.id ? "default" : "outline"}
+            size="sm"
+            title={formatCompositionNotation(composition.operators)}
+            onClick={() => {
+              setActive(null);
+              setActiveChain((current) => (current?.id === composition.id ? null : composition));
+            }}
+          >
+            {composition.name}
+          </Button>
+        ))}
+      </div>
+
+      {activeChain ? (
+        <CompositionRunner
+          key={activeChain.id}
+          composition={activeChain}
+          hypothesis={hypothesis}
+          onStepComplete={recordChainStep}
+          onAbandon={closeChain}
+        />
+      ) : null}
+
+      {active === "paradox_hunt" ? (
+        <ParadoxHuntSession
+          hypothesis={hypothesis}
+          onAbandon={close}
+          onComplete={(result: UiParadoxHuntResult) => {
+            appendOperatorApplication(
+              "paradoxHunt",
+              toSessionParadoxHuntResult({
+                result,
+                hypothesisId: hypothesis.id,
+                appliedAt: new Date().toISOString(),
+                appliedBy,
+              })
+            );
+            close();
+          }}
+        />
+      ) : null}
+
+      {active === "invariant_extract" ? (
+        <InvariantExtractSession
+          hypothesis={hypothesis}
+          onAbandon={close}
+          onComplete={(result: UiInvariantExtractResult) => {
+            appendOperatorApplication(
+              "invariantExtract",
+              toSessionInvariantExtractResult({
+                result,
+                appliedAt: new Date().toISOString(),
+                appliedBy,
+              })
+            );
+            close();
+          }}
+        />
+      ) : null}
+
+      {active === "exception_quarantine" ? (
+        <ExceptionQuarantineSession
+          hypothesis={hypothesis}
+          onAbandon={close}
+          onComplete={(result: UiExceptionQuarantineResult) => {
+            appendOperatorApplication(
+              "exceptionQuarantine",
+              toSessionExceptionQuarantineResult({
+                result,
+                appliedAt: new Date().toISOString(),
+                appliedBy,
+              })
+            );
+            close();
+          }}
+        />
+      ) : null}
+
+      {active === "theory_kill" ? (
+        <TheoryKillSession
+          hypothesis={hypothesis}
+          onAbandon={close}
+          onComplete={(result: UiTheoryKillResult) => {
+            appendOperatorApplication(
+              "theoryKill",
+              toSessionTheoryKillResult({
+                result,
+                hypothesisId: hypothesis.id,
+                appliedAt: new Date().toISOString(),
+                appliedBy,
+              })
+            );
+            close();
+          }}
+        />
+      ) : null}
+    </div>
+  );
+}
+
 function PhaseContent({ phase, className }: PhaseContentProps) {
   const config = PHASE_CONFIG[phase];
   const {
@@ -685,6 +1041,12 @@ function PhaseContent({ phase, className }: PhaseContentProps) {
 
   const appliedBy = React.useMemo(() => getAppliedBy(session), [session]);
 
+  const templateId = session?.templateSettings?.templateId;
+  const templateChain = React.useMemo(() => {
+    const template = templateId ? getSessionTemplate(templateId) : undefined;
+    return template ? getTemplateComposition(template) : undefined;
+  }, [templateId]);
+
   // Normalize evidence ledger entries for visualization
   const evidenceEntries = React.useMemo<FullEvidenceEntry[]>(() => {
     const ledger = session?.evidenceLedger ?? [];
@@ -955,6 +1317,14 @@ function PhaseContent({ phase, className }: PhaseContentProps) {
             <p>Phase content for &ldquo;{config.name}&rdquo; will appear here.</p>
           </div>
         ) : null}
+
+        {phase !== "intake" && phase !== "complete" && primaryHypothesis ? (
+          <SupplementaryOperatorPanel
+            hypothesis={primaryHypothesis}
+            appliedBy={appliedBy}
+            templateChain={templateChain}
+          />
+        ) : null}
       </CardContent>
     </Card>
   );
@@ -1004,6 +1374,9 @@ export function SessionDashboard({
     isDirty,
     saveState,
     saveSession,
+    resolveSaveConflict,
+    collaborators,
+    collaborationStatus,
   } = useSession();
   const exportOperation = useAsyncOperation();
   const [isCorpusSearchOpen, setIsCorpusSearchOpen] = React.useState(false);
@@ -1040,6 +1413,9 @@ export function SessionDashboard({
     if (saveState.status === "error") {
       return { label: "Save failed. Try again.", tone: "destructive" as const };
     }
+    if (saveState.status === "conflict") {
+      return { label: "Changed elsewhere. Autosave paused.", tone: "destructive" as const };
+    }
     if (isDirty) {
       return { label: "Unsaved changes", tone: "muted" as const };
     }
@@ -1396,6 +1772,7 @@ export function SessionDashboard({
               Export failed. Please try again.
             </p>
           )}
+          <PresenceIndicator collaborators={collaborators ?? []} status={collaborationStatus ?? null} />
           {saveStatus && (
             <p
               className={cn(
@@ -1411,6 +1788,26 @@ export function SessionDashboard({
         </div>
       </header>
 
+      {saveState.status === "conflict" ? (
+        <div
+          role="alert"
+          className="flex flex-wrap items-center justify-between gap-3 rounded-lg border border-destructive/50 bg-destructive/5 px-4 py-3"
+          data-testid="save-conflict"
+        >
+          <p className="text-sm">
+            This session was saved from another tab or machine since you loaded it.
+          </p>
+          <div className="flex gap-2">
+            <Button type="button" size="sm" variant="outline" onClick={() => void resolveSaveConflict("use_stored")}>
+              Load saved version
+            </Button>
+            <Button type="button" size="sm" onClick={() => void resolveSaveConflict("keep_local")}>
+              Keep my changes
+            </Button>
+          </div>
+        </div>
+      ) : null}
+
       {/* Phase Timeline */}
       <nav aria-label="Session phases">
         <PhaseTimeline
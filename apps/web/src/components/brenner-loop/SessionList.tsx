@@ -7,6 +7,7 @@
  * - Sorting by date, confidence, phase
  * - Filtering by status (active/complete)
  * - Import support (file picker + drag-and-drop)
+ * - One-click copy of local sessions to the server-side store (lab mode)
  *
  * @see brenner_bot-1v26.4 (bead)
  * @see brenner_bot-reew.4 (bead) - Enhanced session management
@@ -20,6 +21,9 @@ import { Card, CardContent } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import {
   sessionStorage,
+  getSessionStorage,
+  ServerSessionStorage,
+  migrateSessions,
   importSession,
   listSessionResumeEntries,
   buildSessionPath,
@@ -441,6 +445,8 @@ export function SessionList({ className, onSelect }: SessionListProps) {
   const [isDragging, setIsDragging] = React.useState(false);
   const [showClearArchivedModal, setShowClearArchivedModal] = React.useState(false);
   const [isClearingArchived, setIsClearingArchived] = React.useState(false);
+  const [isSyncingToServer, setIsSyncingToServer] = React.useState(false);
+  const [serverSyncMessage, setServerSyncMessage] = React.useState<{ tone: "ok" | "error"; text: string } | null>(null);
   const inputRef = React.useRef<HTMLInputElement>(null);
   const searchRunId = React.useRef(0);
 
@@ -456,11 +462,11 @@ export function SessionList({ className, onSelect }: SessionListProps) {
   const [isSearching, setIsSearching] = React.useState(false);
 
   const refreshSessions = React.useCallback(async () => {
-    const list = await sessionStorage.list();
+    const list = await getSessionStorage().list();
     setSessions(list);
     setResumeEntries(listSessionResumeEntries());
     try {
-      setStorageStats(await sessionStorage.stats());
+      setStorageStats(await getSessionStorage().stats());
     } catch {
       setStorageStats(null);
     }
@@ -552,7 +558,7 @@ export function SessionList({ className, onSelect }: SessionListProps) {
         if (runId !== searchRunId.current) return;
 
         try {
-          const session = await sessionStorage.load(summary.id);
+          const session = await getSessionStorage().load(summary.id);
           if (runId !== searchRunId.current) return;
           if (!session) continue;
           if (!valueMatchesTokens(session, tokens)) continue;
@@ -615,7 +621,7 @@ export function SessionList({ className, onSelect }: SessionListProps) {
 
     try {
       const { session, warnings } = await importSession(file);
-      await sessionStorage.save(session);
+      await getSessionStorage().save(session);
       setImportWarnings(warnings);
       await refreshSessions();
     } catch (error) {
@@ -739,7 +745,7 @@ export function SessionList({ className, onSelect }: SessionListProps) {
     try {
       const ids = archivedEntries.map((entry) => entry.id);
       for (const id of ids) {
-        await sessionStorage.delete(id);
+        await getSessionStorage().delete(id);
       }
 
       setArchivedEntries(() => {
@@ -754,6 +760,30 @@ export function SessionList({ className, onSelect }: SessionListProps) {
     }
   }, [archivedEntries, refreshSessions]);
 
+  const handleSyncToServer = React.useCallback(async () => {
+    setIsSyncingToServer(true);
+    setServerSyncMessage(null);
+
+    try {
+      // Reuse the active server storage so its revisions stay current
+      const active = getSessionStorage();
+      const target = active instanceof ServerSessionStorage ? active : new ServerSessionStorage();
+      const report = await migrateSessions(sessionStorage, target);
+      const parts = [`${report.migrated.length} copied`, `${report.skipped.length} already up to date`];
+      if (report.failed.length > 0) parts.push(`${report.failed.length} failed (${report.failed[0].error})`);
+      setServerSyncMessage({ tone: report.failed.length > 0 ? "error" : "ok", text: `Server sync: ${parts.join(", ")}.` });
+      if (target === active) await refreshSessions();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      setServerSyncMessage({
+        tone: "error",
+        text: `Server session store unavailable (requires lab mode): ${message}`,
+      });
+    } finally {
+      setIsSyncingToServer(false);
+    }
+  }, [refreshSessions]);
+
   // Calculate counts for filter pills
   const counts = React.useMemo(() => {
     const complete = visibleActiveSessions.filter((s) => s.phase === "complete").length;
@@ -837,6 +867,14 @@ export function SessionList({ className, onSelect }: SessionListProps) {
                 <div className="text-sm font-semibold text-foreground">Storage Usage</div>
                 <div className="text-xs text-muted-foreground">
                   {formatBytes(storageSummary.used)} used · {formatBytes(storageSummary.total)} estimated limit
+                  {storageStats?.backend && (
+                    <> · {storageStats.backend === "indexedDB" ? "IndexedDB" : "localStorage"}</>
+                  )}
+                  {Boolean(storageStats?.attachmentCount) && (
+                    <>
+                      {" "}· {storageStats?.attachmentCount} attachments ({formatBytes(storageStats?.attachmentSize ?? 0)})
+                    </>
+                  )}
                 </div>
                 <div className="text-xs text-muted-foreground">
                   Sessions:{" "}
@@ -850,6 +888,14 @@ export function SessionList({ className, onSelect }: SessionListProps) {
               </div>
 
               <div className="flex flex-wrap items-center gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={sessions.length === 0 || isSyncingToServer}
+                  onClick={() => void handleSyncToServer()}
+                >
+                  {isSyncingToServer ? "Syncing…" : "Sync to Server"}
+                </Button>
                 <Button
                   variant="outline"
                   size="sm"
@@ -873,6 +919,13 @@ export function SessionList({ className, onSelect }: SessionListProps) {
                   Storage is getting tight. Consider exporting and clearing archived sessions.
                 </div>
               )}
+              {serverSyncMessage && (
+                <div
+                  className={cn("text-xs", serverSyncMessage.tone === "error" ? "text-destructive" : "text-muted-foreground")}
+                >
+                  {serverSyncMessage.text}
+                </div>
+              )}
             </div>
           </CardContent>
         </Card>
@@ -19,6 +19,8 @@ import {
   FlaskConical,
   Swords,
   Settings,
+  Workflow,
+  ShieldCheck,
   Clock,
   Users,
   ChevronRight,
@@ -44,6 +46,8 @@ import {
   getPhaseOrderForTemplate,
   AGENT_ROLE_INFO,
 } from "@/lib/brenner-loop/session-templates";
+import { OPERATOR_METADATA } from "@/lib/brenner-loop/operators/framework";
+import { formatCompositionNotation } from "@/lib/brenner-loop/operators/composition";
 import { getPhaseName } from "@/lib/brenner-loop/session-machine";
 
 // ============================================================================
@@ -73,6 +77,10 @@ function TemplateIcon({
       return <FlaskConical className={cls} />;
     case "Swords":
       return <Swords className={cls} />;
+    case "Workflow":
+      return <Workflow className={cls} />;
+    case "ShieldCheck":
+      return <ShieldCheck className={cls} />;
     case "Settings":
     default:
       return <Settings className={cls} />;
@@ -327,6 +335,25 @@ function TemplatePreviewDialog({
             </div>
           </div>
 
+          {/* Operator chain */}
+          {template.operatorChain && template.operatorChain.length > 0 && (
+            <div>
+              <h4 className="text-sm font-medium mb-2">
+                Operator chain:{" "}
+                <span className="font-mono text-gray-500">
+                  {formatCompositionNotation(template.operatorChain)}
+                </span>
+              </h4>
+              <div className="flex flex-wrap gap-1">
+                {template.operatorChain.map((type, index) => (
+                  <Badge key={`${type}-${index}`} variant="secondary" className="text-xs">
+                    {index + 1}. {OPERATOR_METADATA[type].name}
+                  </Badge>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Agents */}
           {template.defaultAgents.length > 0 && (
             <div>
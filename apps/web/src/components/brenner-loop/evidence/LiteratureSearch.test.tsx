@@ -302,4 +302,75 @@ describe("LiteratureSearch", () => {
     // Should show empty state
     expect(screen.getByText("No papers yet")).toBeInTheDocument();
   });
+
+  it("previews a library export and lists its papers", async () => {
+    const user = userEvent.setup();
+    const { LiteratureSearch } = await import("./LiteratureSearch");
+    render(
+      <LiteratureSearch
+        sessionId="test-session"
+        hypothesis={createMockHypothesis()}
+        currentConfidence={50}
+      />
+    );
+
+    await user.click(screen.getByRole("tab", { name: /import/i }));
+    const file = new File(
+      [
+        JSON.stringify([
+          { id: "a", type: "article-journal", title: "Teen social media use", "container-title": "JAMA" },
+          { id: "b", type: "dataset", title: "Screen time survey" },
+          { id: "c", type: "article-journal", title: "Teen Social Media Use.", "container-title": "JAMA" },
+        ]),
+      ],
+      "zotero.json",
+      { type: "application/json" }
+    );
+    await user.upload(screen.getByLabelText("Library export file"), file);
+
+    expect(await screen.findByText("2 references")).toBeInTheDocument();
+    expect(screen.getByText(/csl-json · 1 paper · 1 dataset/)).toBeInTheDocument();
+    expect(screen.getByText("1 duplicate entry in the file will be skipped.")).toBeInTheDocument();
+    // Without an import callback, the export only feeds the paper list
+    expect(screen.queryByRole("button", { name: /Add to Evidence Pack/i })).not.toBeInTheDocument();
+
+    await user.click(screen.getByRole("button", { name: /Show in Paper List/i }));
+    expect(screen.getByText("Papers (2)")).toBeInTheDocument();
+  });
+
+  it("adds a library export to the evidence pack through onImportLibrary", async () => {
+    const user = userEvent.setup();
+    const onImportLibrary = vi.fn(async () => ({
+      added: [
+        { id: "EV-004", key: "a", title: "Teen social media use", type: "paper" as const, source: "csl-json:a", hasAbstract: false },
+      ],
+      skipped: [],
+    }));
+    const { LiteratureSearch } = await import("./LiteratureSearch");
+    render(
+      <LiteratureSearch
+        sessionId="test-session"
+        hypothesis={createMockHypothesis()}
+        currentConfidence={50}
+        onImportLibrary={onImportLibrary}
+      />
+    );
+
+    await user.click(screen.getByRole("tab", { name: /import/i }));
+    const ris = "TY  - JOUR\nTI  - Teen social media use\nAB  - We surveyed teens.\nER  - \n";
+    await user.upload(screen.getByLabelText("Library export file"), new File([ris], "export.ris"));
+    await screen.findByText("1 reference");
+
+    await user.click(screen.getByLabelText("Attach abstracts as E1 excerpts"));
+    await user.click(screen.getByRole("button", { name: /Add to Evidence Pack/i }));
+
+    expect(onImportLibrary).toHaveBeenCalledWith({
+      sessionId: "test-session",
+      content: ris,
+      fileName: "export.ris",
+      format: "ris",
+      includeAbstracts: false,
+    });
+    expect(await screen.findByText(/Added 1 record \(EV-004–EV-004\), skipped 0 already in the pack/)).toBeInTheDocument();
+  });
 });
@@ -9,6 +9,7 @@
  * Features:
  * - Hypothesis-aware search query suggestions
  * - BibTeX import with parsing
+ * - Bulk import of BibTeX/RIS/CSL-JSON library exports into the evidence pack
  * - DOI lookup
  * - Paper relevance scoring
  * - Quick evidence recording from papers
@@ -34,6 +35,7 @@ import {
   Sparkles,
   Import,
   Plus,
+  Library,
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { Button } from "@/components/ui/button";
@@ -43,9 +45,11 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Badge } from "@/components/ui/badge";
 import type { HypothesisCard } from "@/lib/brenner-loop/hypothesis";
 import type { EvidenceResult, DiscriminativePower } from "@/lib/brenner-loop/evidence";
+import type { EmbeddingProvider } from "@/lib/brenner-loop/search/embeddings";
 import {
   generateSearchQueries,
   calculateRelevance,
+  scorePaperRelevance,
   parseBibTeX,
   bibTeXToPaperResult,
   isValidDOI,
@@ -59,6 +63,16 @@ import {
   type PaperResult,
   type SuggestedSearches,
 } from "@/lib/brenner-loop/literature";
+import {
+  createEvidencePack,
+  importLibraryIntoEvidencePack,
+  libraryEntryToPaperResult,
+  parseCitationLibrary,
+  type CitationFormat,
+  type EvidenceImportAdded,
+  type EvidenceImportSkipped,
+  type ParsedLibrary,
+} from "@/lib/evidence-import";
 
 // ============================================================================
 // Types
@@ -73,6 +87,17 @@ export interface LiteratureSearchProps {
   currentConfidence: number;
   /** Callback when user wants to record paper as evidence */
   onRecordEvidence?: (payload: RecordLiteratureEvidencePayload) => void;
+  /**
+   * Callback to import a whole library export into the session's evidence
+   * pack (e.g. via POST /api/evidence). Without it, library imports only
+   * populate the paper list.
+   */
+  onImportLibrary?: (payload: ImportLibraryPayload) => Promise<ImportLibrarySummary>;
+  /**
+   * Provider used to rescore imported papers. Without it, relevance uses
+   * the hashing embedding.
+   */
+  embeddingProvider?: EmbeddingProvider;
   /** Additional CSS classes */
   className?: string;
 }
@@ -88,6 +113,21 @@ export interface RecordLiteratureEvidencePayload {
   discriminativePower: DiscriminativePower;
 }
 
+export interface ImportLibraryPayload {
+  sessionId: string;
+  /** Raw export file contents */
+  content: string;
+  fileName: string;
+  format: CitationFormat;
+  /** Attach abstracts as verbatim E1 excerpts */
+  includeAbstracts: boolean;
+}
+
+export interface ImportLibrarySummary {
+  added: EvidenceImportAdded[];
+  skipped: EvidenceImportSkipped[];
+}
+
 type SearchTab = "suggested" | "manual" | "import";
 
 interface RecordingState {
@@ -326,15 +366,198 @@ function SuggestedSearchesPanel({
   );
 }
 
+interface LoadedLibrary {
+  fileName: string;
+  content: string;
+  parsed: ParsedLibrary;
+  /** Import preview against an empty pack: inferred types and in-file duplicates */
+  preview: ImportLibrarySummary;
+}
+
+/**
+ * Library export import (Zotero, Mendeley, ...): preview, list papers, and
+ * optionally add them to the evidence pack
+ */
+function LibraryImportSection({
+  sessionId,
+  hypothesis,
+  onPapersImported,
+  onImportLibrary,
+}: {
+  sessionId: string;
+  hypothesis: HypothesisCard;
+  onPapersImported: (papers: PaperResult[]) => void;
+  onImportLibrary?: (payload: ImportLibraryPayload) => Promise<ImportLibrarySummary>;
+}) {
+  const [library, setLibrary] = React.useState<LoadedLibrary | null>(null);
+  const [includeAbstracts, setIncludeAbstracts] = React.useState(true);
+  const [isImporting, setIsImporting] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+  const [summary, setSummary] = React.useState<ImportLibrarySummary | null>(null);
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    setError(null);
+    setSummary(null);
+    setLibrary(null);
+
+    const content = await file.text();
+    const parsed = parseCitationLibrary(content, { fileName: file.name });
+    if ("error" in parsed) {
+      setError(parsed.error);
+      return;
+    }
+    if (parsed.entries.length === 0) {
+      setError(`No references found in ${file.name}.`);
+      return;
+    }
+    const { added, skipped } = importLibraryIntoEvidencePack(createEvidencePack(sessionId), parsed, {
+      importedBy: "preview",
+    });
+    setLibrary({ fileName: file.name, content, parsed, preview: { added, skipped } });
+  };
+
+  const handleShowPapers = () => {
+    if (!library) return;
+    const keys = new Set(library.preview.added.map((a) => a.key));
+    const papers = library.parsed.entries
+      .filter((entry) => keys.has(entry.key))
+      .map((entry) => {
+        const paper = libraryEntryToPaperResult(entry);
+        const { score, rationale } = calculateRelevance(paper, hypothesis);
+        return { ...paper, relevanceScore: score, relevanceRationale: rationale };
+      });
+    onPapersImported(papers);
+  };
+
+  const handleAddToPack = async () => {
+    if (!library || !onImportLibrary) return;
+    setIsImporting(true);
+    setError(null);
+    try {
+      setSummary(
+        await onImportLibrary({
+          sessionId,
+          content: library.content,
+          fileName: library.fileName,
+          format: library.parsed.format,
+          includeAbstracts,
+        })
+      );
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const typeCounts = library
+    ? library.preview.added.reduce<Record<string, number>>((counts, a) => {
+        counts[a.type] = (counts[a.type] ?? 0) + 1;
+        return counts;
+      }, {})
+    : {};
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <Library className="size-4" />
+        <h4 className="text-sm font-medium">Import Library</h4>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        A BibTeX (.bib), RIS (.ris) or CSL-JSON (.json) export from Zotero or another reference manager.
+      </p>
+      <input
+        type="file"
+        accept=".bib,.bibtex,.ris,.json,application/json"
+        aria-label="Library export file"
+        onChange={handleFileChange}
+        className="block w-full text-xs file:mr-3 file:rounded file:border file:border-border file:bg-muted file:px-3 file:py-1.5 file:text-xs"
+      />
+
+      {library && (
+        <div className="space-y-3 rounded-lg border p-3 text-sm">
+          <div>
+            <span className="font-medium">
+              {library.preview.added.length} reference{library.preview.added.length === 1 ? "" : "s"}
+            </span>{" "}
+            <span className="text-muted-foreground">
+              ({library.parsed.format}
+              {Object.entries(typeCounts).map(([type, n]) => ` · ${n} ${type}`)})
+            </span>
+          </div>
+          {(library.preview.skipped.length > 0 || library.parsed.warnings.length > 0) && (
+            <div className="text-xs text-muted-foreground">
+              {library.preview.skipped.length > 0 && (
+                <div>
+                  {library.preview.skipped.length} duplicate{" "}
+                  {library.preview.skipped.length === 1 ? "entry" : "entries"} in the file will be skipped.
+                </div>
+              )}
+              {library.parsed.warnings.map((warning) => (
+                <div key={warning}>• {warning}</div>
+              ))}
+            </div>
+          )}
+
+          <div className="flex flex-wrap items-center gap-2">
+            <Button variant="outline" size="sm" onClick={handleShowPapers}>
+              Show in Paper List
+            </Button>
+            {onImportLibrary && (
+              <>
+                <label className="flex items-center gap-2 text-xs">
+                  <input
+                    type="checkbox"
+                    checked={includeAbstracts}
+                    onChange={(e) => setIncludeAbstracts(e.target.checked)}
+                    className="size-4 rounded border-border"
+                  />
+                  Attach abstracts as E1 excerpts
+                </label>
+                <Button size="sm" className="ml-auto" onClick={handleAddToPack} disabled={isImporting}>
+                  <Plus className="size-4 mr-2" />
+                  {isImporting ? "Importing..." : "Add to Evidence Pack"}
+                </Button>
+              </>
+            )}
+          </div>
+
+          {summary && (
+            <div className="flex items-center gap-2 text-xs text-green-600">
+              <Check className="size-3" />
+              Added {summary.added.length} record{summary.added.length === 1 ? "" : "s"}
+              {summary.added.length > 0 && ` (${summary.added[0].id}–${summary.added[summary.added.length - 1].id})`},
+              skipped {summary.skipped.length} already in the pack.
+            </div>
+          )}
+        </div>
+      )}
+
+      {error && (
+        <div className="flex items-center gap-2 text-sm text-red-600 bg-red-50 p-3 rounded">
+          <AlertCircle className="size-4" />
+          {error}
+        </div>
+      )}
+    </div>
+  );
+}
+
 /**
  * BibTeX import panel
  */
 function ImportPanel({
+  sessionId,
   hypothesis,
   onPaperImported,
+  onImportLibrary,
 }: {
+  sessionId: string;
   hypothesis: HypothesisCard;
   onPaperImported: (paper: PaperResult) => void;
+  onImportLibrary?: (payload: ImportLibraryPayload) => Promise<ImportLibrarySummary>;
 }) {
   const [bibtex, setBibtex] = React.useState("");
   const [doi, setDoi] = React.useState("");
@@ -383,6 +606,14 @@ function ImportPanel({
 
   return (
     <div className="space-y-6">
+      {/* Library export import */}
+      <LibraryImportSection
+        sessionId={sessionId}
+        hypothesis={hypothesis}
+        onPapersImported={(papers) => papers.forEach(onPaperImported)}
+        onImportLibrary={onImportLibrary}
+      />
+
       {/* BibTeX Import */}
       <div className="space-y-3">
         <div className="flex items-center gap-2">
@@ -573,6 +804,8 @@ export function LiteratureSearch({
   hypothesis,
   currentConfidence,
   onRecordEvidence,
+  onImportLibrary,
+  embeddingProvider,
   className,
 }: LiteratureSearchProps) {
   const [activeTab, setActiveTab] = React.useState<SearchTab>("suggested");
@@ -614,7 +847,17 @@ export function LiteratureSearch({
 
   // Handle paper import
   const handlePaperImported = (paper: PaperResult) => {
-    setPapers((prev) => [paper, ...prev]);
+    setPapers((prev) => [paper, ...prev.filter((p) => p.id !== paper.id)]);
+    if (!embeddingProvider) return;
+
+    // Replace the hashing score once the provider has embedded the paper
+    void scorePaperRelevance([paper], hypothesis, embeddingProvider)
+      .then(([scored]) => {
+        setPapers((prev) => prev.map((p) => (p.id === scored.id ? scored : p)));
+      })
+      .catch(() => {
+        // Keep the hashing score
+      });
   };
 
   // Handle evidence recording
@@ -696,7 +939,12 @@ export function LiteratureSearch({
 
         {/* Import tab */}
         <TabsContent value="import" className="mt-4">
-          <ImportPanel hypothesis={hypothesis} onPaperImported={handlePaperImported} />
+          <ImportPanel
+            sessionId={sessionId}
+            hypothesis={hypothesis}
+            onPaperImported={handlePaperImported}
+            onImportLibrary={onImportLibrary}
+          />
         </TabsContent>
       </Tabs>
 
@@ -31,4 +31,6 @@ export {
 export {
   LiteratureSearch,
   type LiteratureSearchProps,
+  type ImportLibraryPayload,
+  type ImportLibrarySummary,
 } from "./LiteratureSearch";
@@ -47,6 +47,9 @@ export type { SessionListProps } from "./SessionList";
 export { SessionCard } from "./SessionCard";
 export type { SessionCardProps } from "./SessionCard";
 
+export { PresenceIndicator } from "./PresenceIndicator";
+export type { PresenceIndicatorProps } from "./PresenceIndicator";
+
 export { HypothesisGraveyard } from "./HypothesisGraveyard";
 export type { HypothesisGraveyardProps } from "./HypothesisGraveyard";
 
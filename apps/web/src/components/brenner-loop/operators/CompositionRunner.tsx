@@ -0,0 +1,255 @@
+"use client";
+
+/**
+ * CompositionRunner - Guided workflow for an operator composition
+ *
+ * Runs each operator of a composition in turn using its own session
+ * component. When an operator completes, its result is folded into the
+ * hypothesis the next operator receives.
+ *
+ * @see specs/operator_library_v0.1.md - Operator Compositions
+ * @module components/brenner-loop/operators/CompositionRunner
+ */
+
+import * as React from "react";
+import { Check, ChevronRight, SkipForward, X } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import type { HypothesisCard } from "@/lib/brenner-loop/hypothesis";
+import type { OperatorType } from "@/lib/brenner-loop/operators/framework";
+import { OPERATOR_METADATA } from "@/lib/brenner-loop/operators/framework";
+import type {
+  CompositionRun,
+  OperatorComposition,
+  OperatorResultByType,
+} from "@/lib/brenner-loop/operators/composition";
+import {
+  compositionReducer,
+  createCompositionRun,
+  formatCompositionNotation,
+  getActiveCompositionStep,
+} from "@/lib/brenner-loop/operators/composition";
+import { LevelSplitSession } from "./LevelSplitSession";
+import { ExclusionTestSession } from "./ExclusionTestSession";
+import { ObjectTransposeSession } from "./ObjectTransposeSession";
+import { ScaleCheckSession } from "./ScaleCheckSession";
+import { ParadoxHuntSession } from "./ParadoxHuntSession";
+import { InvariantExtractSession } from "./InvariantExtractSession";
+import { ExceptionQuarantineSession } from "./ExceptionQuarantineSession";
+import { TheoryKillSession } from "./TheoryKillSession";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * A completed operator within a composition run
+ */
+export interface CompositionStepCompletion<T extends OperatorType = OperatorType> {
+  /** Operator that completed */
+  operatorType: T;
+  /** Its result */
+  result: OperatorResultByType[T];
+  /** Hypothesis the operator was run against */
+  inputHypothesis: HypothesisCard;
+}
+
+export interface CompositionRunnerProps {
+  /** Composition to run */
+  composition: OperatorComposition;
+  /** Hypothesis to start from */
+  hypothesis: HypothesisCard;
+  /** Called after each operator completes */
+  onStepComplete?: (completion: CompositionStepCompletion) => void;
+  /** Called when every step is completed or skipped */
+  onComplete?: (run: CompositionRun) => void;
+  /** Called when the run is abandoned */
+  onAbandon?: () => void;
+  /** Additional CSS classes */
+  className?: string;
+}
+
+// ============================================================================
+// Helper Components
+// ============================================================================
+
+interface OperatorStepSessionProps {
+  operatorType: OperatorType;
+  hypothesis: HypothesisCard;
+  onComplete: (result: unknown) => void;
+  onAbandon: () => void;
+}
+
+/**
+ * Renders the session component for one operator
+ */
+function OperatorStepSession({ operatorType, hypothesis, onComplete, onAbandon }: OperatorStepSessionProps) {
+  const props = { hypothesis, onComplete, onAbandon };
+
+  switch (operatorType) {
+    case "level_split":
+      return <LevelSplitSession {...props} />;
+    case "exclusion_test":
+      return <ExclusionTestSession {...props} />;
+    case "object_transpose":
+      return <ObjectTransposeSession {...props} />;
+    case "scale_check":
+      return <ScaleCheckSession {...props} />;
+    case "paradox_hunt":
+      return <ParadoxHuntSession {...props} />;
+    case "invariant_extract":
+      return <InvariantExtractSession {...props} />;
+    case "exception_quarantine":
+      return <ExceptionQuarantineSession {...props} />;
+    case "theory_kill":
+      return <TheoryKillSession {...props} />;
+    default:
+      return null;
+  }
+}
+
+interface ChainProgressProps {
+  run: CompositionRun;
+}
+
+function ChainProgress({ run }: ChainProgressProps) {
+  return (
+    <ol className="flex flex-wrap items-center gap-1 text-sm" aria-label="Operator chain">
+      {run.steps.map((step, index) => {
+        const meta = OPERATOR_METADATA[step.operatorType];
+        return (
+          <li key={`${step.operatorType}-${index}`} className="flex items-center gap-1">
+            {index > 0 && <ChevronRight className="size-4 text-muted-foreground" />}
+            <span
+              className={cn(
+                "flex items-center gap-1 px-2 py-1 rounded-md border",
+                step.status === "active" && "border-primary bg-primary/10 text-primary",
+                step.status === "completed" && "border-green-500/30 bg-green-500/10 text-green-600",
+                step.status === "skipped" && "border-border text-muted-foreground line-through",
+                step.status === "pending" && "border-border text-muted-foreground"
+              )}
+              aria-current={step.status === "active" ? "step" : undefined}
+            >
+              {step.status === "completed" ? (
+                <Check className="size-3.5" />
+              ) : (
+                <span className="font-mono">{meta.symbol}</span>
+              )}
+              {meta.name}
+            </span>
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
+
+// ============================================================================
+// Main Component
+// ============================================================================
+
+export function CompositionRunner({
+  composition,
+  hypothesis,
+  onStepComplete,
+  onComplete,
+  onAbandon,
+  className,
+}: CompositionRunnerProps) {
+  const [run, dispatch] = React.useReducer(
+    compositionReducer,
+    undefined,
+    () => createCompositionRun(composition, hypothesis)
+  );
+  const activeStep = getActiveCompositionStep(run);
+
+  // Notify once the run finishes
+  const notifiedRef = React.useRef(false);
+  React.useEffect(() => {
+    if (run.status === "completed" && !notifiedRef.current) {
+      notifiedRef.current = true;
+      onComplete?.(run);
+    }
+  }, [run, onComplete]);
+
+  const handleStepComplete = React.useCallback(
+    (result: unknown) => {
+      if (!activeStep) return;
+      onStepComplete?.({
+        operatorType: activeStep.operatorType,
+        result: result as OperatorResultByType[OperatorType],
+        inputHypothesis: activeStep.inputHypothesis ?? run.currentHypothesis,
+      });
+      dispatch({ type: "COMPLETE_STEP", result });
+    },
+    [activeStep, onStepComplete, run.currentHypothesis]
+  );
+
+  const handleSkip = React.useCallback(() => {
+    dispatch({ type: "SKIP_STEP" });
+  }, []);
+
+  const handleAbandon = React.useCallback(() => {
+    dispatch({ type: "ABANDON" });
+    onAbandon?.();
+  }, [onAbandon]);
+
+  return (
+    <div className={cn("space-y-4", className)} data-testid="composition-runner">
+      <div className="flex flex-wrap items-start justify-between gap-3">
+        <div>
+          <h3 className="font-semibold">{composition.name}</h3>
+          <p className="text-xs text-muted-foreground font-mono mt-0.5">
+            {formatCompositionNotation(composition.operators)}
+          </p>
+        </div>
+        {run.status === "in_progress" && (
+          <div className="flex gap-2">
+            <Button type="button" variant="outline" size="sm" onClick={handleSkip}>
+              <SkipForward className="size-4 mr-1" />
+              Skip operator
+            </Button>
+            <Button type="button" variant="ghost" size="sm" onClick={handleAbandon}>
+              <X className="size-4 mr-1" />
+              Stop chain
+            </Button>
+          </div>
+        )}
+      </div>
+
+      <ChainProgress run={run} />
+
+      {composition.omitted && composition.omitted.length > 0 && (
+        <p className="text-xs text-muted-foreground">
+          Not yet available as guided sessions: {composition.omitted.join(", ")}.
+        </p>
+      )}
+
+      {activeStep && (
+        <OperatorStepSession
+          key={run.currentStepIndex}
+          operatorType={activeStep.operatorType}
+          hypothesis={activeStep.inputHypothesis ?? run.currentHypothesis}
+          onComplete={handleStepComplete}
+          onAbandon={handleAbandon}
+        />
+      )}
+
+      {run.status === "completed" && (
+        <div className="p-4 rounded-lg border border-green-500/30 bg-green-500/5 space-y-2">
+          <p className="text-sm font-medium">Chain complete</p>
+          <ul className="space-y-1">
+            {run.steps.map((step, index) => (
+              <li key={`${step.operatorType}-${index}`} className="text-sm text-muted-foreground">
+                <span className="font-mono mr-2">{OPERATOR_METADATA[step.operatorType].symbol}</span>
+                {step.status === "skipped" ? "Skipped" : step.summary}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default CompositionRunner;
@@ -0,0 +1,460 @@
+"use client";
+
+/**
+ * ExceptionQuarantineSession - Interactive Exception Quarantine (ΔE) Operator Session
+ *
+ * Guides users through listing the observations their model does not explain,
+ * separating signal from noise, and aiming a test at the anomaly with the most
+ * leverage.
+ *
+ * Steps:
+ * 1. List Anomalies - Everything the model doesn't explain
+ * 2. Separate Signal from Noise - What must be explained vs. the appendix
+ * 3. Analyze Conflicts - What each signal anomaly contradicts and what resolves it
+ * 4. Resolving Tests - Tests aimed at the highest-leverage anomaly (optional)
+ *
+ * @see specs/operator_library_v0.1.md - ΔE Exception-Quarantine
+ * @module components/brenner-loop/operators/ExceptionQuarantineSession
+ */
+
+import * as React from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import { Plus, Trash2, AlertTriangle, Archive, Radio, Star, TestTube } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import type { HypothesisCard } from "@/lib/brenner-loop/hypothesis";
+import type { Quote } from "@/lib/quotebank-parser";
+import { useOperatorSession } from "@/hooks/useOperatorSession";
+import type {
+  Anomaly,
+  AnomalyClassification,
+  QuarantineTest,
+  ExceptionQuarantineResult,
+} from "@/lib/brenner-loop/operators/exception-quarantine";
+import {
+  EXCEPTION_QUARANTINE_STEPS,
+  EXCEPTION_QUARANTINE_STEP_IDS,
+  detectSharedPatterns,
+  pickHighestLeverageAnomaly,
+  generateQuarantineTests,
+  buildExceptionQuarantineResult,
+  EXCEPTION_QUARANTINE_FALLBACK_QUOTES,
+} from "@/lib/brenner-loop/operators/exception-quarantine";
+import { OperatorShell } from "./OperatorShell";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ExceptionQuarantineSessionProps {
+  /** The hypothesis to apply Exception Quarantine to */
+  hypothesis: HypothesisCard;
+  /** Brenner quotes for this operator (optional) */
+  quotes?: Quote[];
+  /** Callback when session completes */
+  onComplete?: (result: ExceptionQuarantineResult) => void;
+  /** Callback when session is abandoned */
+  onAbandon?: () => void;
+  /** Additional CSS classes */
+  className?: string;
+}
+
+function createAnomaly(index: number): Anomaly {
+  return {
+    id: `anomaly-${index}`,
+    description: "",
+    classification: "unclassified",
+  };
+}
+
+// ============================================================================
+// Step 1: List Anomalies
+// ============================================================================
+
+interface AnomalyListProps {
+  anomalies: Anomaly[];
+  onChange: (anomalies: Anomaly[]) => void;
+}
+
+function AnomalyList({ anomalies, onChange }: AnomalyListProps) {
+  const update = (id: string, changes: Partial<Anomaly>) => {
+    onChange(anomalies.map((a) => (a.id === id ? { ...a, ...changes } : a)));
+  };
+
+  const add = () => {
+    const next = anomalies.reduce((max, a) => {
+      const n = Number(a.id.replace("anomaly-", ""));
+      return Number.isFinite(n) && n > max ? n : max;
+    }, 0) + 1;
+    onChange([...anomalies, createAnomaly(next)]);
+  };
+
+  return (
+    <div className="space-y-3">
+      {anomalies.map((anomaly) => (
+        <div key={anomaly.id} className="flex items-start gap-2">
+          <AlertTriangle className="size-4 text-yellow-500 mt-3 flex-shrink-0" />
+          <div className="flex-1 grid gap-2 md:grid-cols-[2fr_1fr]">
+            <Input
+              value={anomaly.description}
+              onChange={(e) => update(anomaly.id, { description: e.target.value })}
+              placeholder="An observation the model doesn't explain"
+              aria-label="Anomaly"
+            />
+            <Input
+              value={anomaly.source ?? ""}
+              onChange={(e) => update(anomaly.id, { source: e.target.value })}
+              placeholder="Source (optional)"
+              aria-label="Source"
+            />
+          </div>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => onChange(anomalies.filter((a) => a.id !== anomaly.id))}
+            aria-label="Remove anomaly"
+          >
+            <Trash2 className="size-4" />
+          </Button>
+        </div>
+      ))}
+      <Button variant="outline" size="sm" onClick={add}>
+        <Plus className="size-4 mr-1" />
+        Add anomaly
+      </Button>
+    </div>
+  );
+}
+
+// ============================================================================
+// Step 2: Classify
+// ============================================================================
+
+interface AnomalyClassifierProps {
+  anomalies: Anomaly[];
+  onClassify: (id: string, classification: AnomalyClassification) => void;
+}
+
+function AnomalyClassifier({ anomalies, onClassify }: AnomalyClassifierProps) {
+  const patterns = detectSharedPatterns(anomalies.filter((a) => a.classification === "signal"));
+
+  return (
+    <div className="space-y-4">
+      {anomalies.map((anomaly, index) => (
+        <motion.div
+          key={anomaly.id}
+          initial={{ opacity: 0, y: 10 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: index * 0.05 }}
+          className="p-4 rounded-lg border border-border bg-card"
+        >
+          <p className="text-sm mb-3">{anomaly.description}</p>
+          <div className="flex gap-2">
+            <Button
+              variant={anomaly.classification === "signal" ? "default" : "outline"}
+              size="sm"
+              onClick={() => onClassify(anomaly.id, "signal")}
+            >
+              <Radio className="size-4 mr-1" />
+              Signal
+            </Button>
+            <Button
+              variant={anomaly.classification === "noise" ? "secondary" : "outline"}
+              size="sm"
+              onClick={() => onClassify(anomaly.id, "noise")}
+            >
+              <Archive className="size-4 mr-1" />
+              Appendix
+            </Button>
+          </div>
+        </motion.div>
+      ))}
+
+      {patterns.length > 0 && (
+        <div className="p-4 rounded-lg bg-yellow-500/10 border border-yellow-500/30 space-y-1">
+          <p className="text-sm font-medium text-yellow-700 dark:text-yellow-400">
+            Signal anomalies share a pattern
+          </p>
+          {patterns.map((pattern) => (
+            <p key={pattern.anomalyIds.join("-")} className="text-xs text-muted-foreground">
+              {pattern.anomalyIds.length} anomalies share: {pattern.sharedTerms.join(", ")}
+            </p>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// ============================================================================
+// Step 3: Conflicts
+// ============================================================================
+
+interface ConflictAnalyzerProps {
+  anomalies: Anomaly[];
+  onUpdate: (id: string, changes: Partial<Anomaly>) => void;
+}
+
+function ConflictAnalyzer({ anomalies, onUpdate }: ConflictAnalyzerProps) {
+  const signal = anomalies.filter((a) => a.classification === "signal");
+
+  if (signal.length === 0) {
+    return (
+      <div className="p-8 text-center text-muted-foreground">
+        <Archive className="size-12 mx-auto mb-4 opacity-50" />
+        <p>Every anomaly is quarantined. The core model stands.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {signal.map((anomaly) => (
+        <div key={anomaly.id} className="p-4 rounded-lg border border-border bg-card space-y-3">
+          <p className="text-sm font-medium">{anomaly.description}</p>
+          <Input
+            value={anomaly.conflictsWith ?? ""}
+            onChange={(e) => onUpdate(anomaly.id, { conflictsWith: e.target.value })}
+            placeholder="What part of the model does it contradict?"
+            aria-label="Conflicts with"
+          />
+          <Input
+            value={anomaly.wouldResolve ?? ""}
+            onChange={(e) => onUpdate(anomaly.id, { wouldResolve: e.target.value })}
+            placeholder="What observation would resolve it?"
+            aria-label="Would resolve"
+          />
+          <div className="flex items-center gap-1">
+            <span className="text-xs text-muted-foreground mr-2">Leverage:</span>
+            {[1, 2, 3, 4, 5].map((star) => (
+              <button
+                key={star}
+                type="button"
+                onClick={() => onUpdate(anomaly.id, { leverage: star })}
+                className={cn(
+                  "p-0.5 transition-colors",
+                  star <= (anomaly.leverage ?? 0)
+                    ? "text-amber-500"
+                    : "text-muted-foreground/30 hover:text-muted-foreground/60"
+                )}
+              >
+                <Star className="size-4" fill={star <= (anomaly.leverage ?? 0) ? "currentColor" : "none"} />
+              </button>
+            ))}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+// ============================================================================
+// Step 4: Tests
+// ============================================================================
+
+interface QuarantineTestListProps {
+  target: Anomaly | null;
+  tests: QuarantineTest[];
+  onToggle: (testId: string) => void;
+}
+
+function QuarantineTestList({ target, tests, onToggle }: QuarantineTestListProps) {
+  if (!target || tests.length === 0) {
+    return (
+      <div className="p-8 text-center text-muted-foreground">
+        <TestTube className="size-12 mx-auto mb-4 opacity-50" />
+        <p>No signal anomalies to test. Skip this step.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="p-3 rounded-lg bg-yellow-500/5 border border-yellow-500/20">
+        <span className="text-xs text-muted-foreground">Highest-leverage anomaly</span>
+        <p className="text-sm mt-1">{target.description}</p>
+      </div>
+      {tests.map((test) => (
+        <button
+          key={test.id}
+          type="button"
+          onClick={() => onToggle(test.id)}
+          className={cn(
+            "w-full text-left p-4 rounded-lg border transition-all",
+            test.selected ? "border-primary bg-primary/5" : "border-border bg-card hover:border-primary/30"
+          )}
+        >
+          <p className="text-sm font-medium mb-3">{test.description}</p>
+          <div className="grid grid-cols-2 gap-3 text-xs">
+            <div className="p-2 rounded bg-green-500/5 border border-green-500/20">
+              <p className="font-medium text-green-600 mb-1">Resolves if</p>
+              <p className="text-muted-foreground">{test.resolvesIf}</p>
+            </div>
+            <div className="p-2 rounded bg-red-500/5 border border-red-500/20">
+              <p className="font-medium text-red-600 mb-1">Escalates if</p>
+              <p className="text-muted-foreground">{test.escalatesIf}</p>
+            </div>
+          </div>
+        </button>
+      ))}
+    </div>
+  );
+}
+
+// ============================================================================
+// Main Session Component
+// ============================================================================
+
+export function ExceptionQuarantineSession({
+  hypothesis,
+  quotes,
+  onComplete,
+  onAbandon,
+  className,
+}: ExceptionQuarantineSessionProps) {
+  const {
+    session,
+    currentStepConfig,
+    canNext,
+    canPrev,
+    canSkip,
+    validation,
+    next,
+    prev,
+    skip,
+    goToStep,
+    setSelection,
+    getSelection,
+    complete,
+    abandon,
+  } = useOperatorSession<ExceptionQuarantineResult>({
+    operatorType: "exception_quarantine",
+    hypothesis,
+    stepConfigs: EXCEPTION_QUARANTINE_STEPS,
+    onComplete: (session) => {
+      if (onComplete && session.result) {
+        onComplete(session.result);
+      }
+    },
+    onAbandon: () => {
+      onAbandon?.();
+    },
+  });
+
+  // Start with one blank anomaly row
+  React.useEffect(() => {
+    if (!getSelection<Anomaly[]>(EXCEPTION_QUARANTINE_STEP_IDS.LIST_ANOMALIES)) {
+      setSelection(EXCEPTION_QUARANTINE_STEP_IDS.LIST_ANOMALIES, [createAnomaly(1)]);
+    }
+  }, [getSelection, setSelection]);
+
+  const anomaliesRaw = getSelection<Anomaly[]>(EXCEPTION_QUARANTINE_STEP_IDS.LIST_ANOMALIES);
+  const anomalies = React.useMemo(() => anomaliesRaw ?? [], [anomaliesRaw]);
+  const listed = React.useMemo(
+    () => anomalies.filter((a) => a.description.trim().length > 0),
+    [anomalies]
+  );
+  const testsRaw = getSelection<QuarantineTest[]>(EXCEPTION_QUARANTINE_STEP_IDS.RESOLVING_TESTS);
+  const tests = React.useMemo(() => testsRaw ?? [], [testsRaw]);
+  const target = React.useMemo(() => pickHighestLeverageAnomaly(listed), [listed]);
+
+  // Regenerate tests when the target anomaly changes
+  React.useEffect(() => {
+    if (currentStepConfig?.id !== EXCEPTION_QUARANTINE_STEP_IDS.RESOLVING_TESTS) return;
+    const generated = target ? generateQuarantineTests(target) : [];
+    const sameSet =
+      generated.length === tests.length && generated.every((t) => tests.some((existing) => existing.id === t.id));
+    if (!sameSet) {
+      setSelection(EXCEPTION_QUARANTINE_STEP_IDS.RESOLVING_TESTS, generated);
+    }
+  }, [currentStepConfig?.id, target, tests, setSelection]);
+
+  const handleAnomaliesChange = React.useCallback((value: Anomaly[]) => {
+    setSelection(EXCEPTION_QUARANTINE_STEP_IDS.LIST_ANOMALIES, value);
+  }, [setSelection]);
+
+  const handleAnomalyUpdate = React.useCallback((id: string, changes: Partial<Anomaly>) => {
+    setSelection(
+      EXCEPTION_QUARANTINE_STEP_IDS.LIST_ANOMALIES,
+      anomalies.map((a) => (a.id === id ? { ...a, ...changes } : a))
+    );
+  }, [anomalies, setSelection]);
+
+  const handleClassify = React.useCallback((id: string, classification: AnomalyClassification) => {
+    handleAnomalyUpdate(id, { classification });
+  }, [handleAnomalyUpdate]);
+
+  const handleTestToggle = React.useCallback((testId: string) => {
+    setSelection(
+      EXCEPTION_QUARANTINE_STEP_IDS.RESOLVING_TESTS,
+      tests.map((t) => (t.id === testId ? { ...t, selected: !t.selected } : t))
+    );
+  }, [tests, setSelection]);
+
+  const handleComplete = React.useCallback(() => {
+    complete(buildExceptionQuarantineResult(session));
+  }, [session, complete]);
+
+  const renderStepContent = () => {
+    switch (currentStepConfig?.id) {
+      case EXCEPTION_QUARANTINE_STEP_IDS.LIST_ANOMALIES:
+        return <AnomalyList anomalies={anomalies} onChange={handleAnomaliesChange} />;
+
+      case EXCEPTION_QUARANTINE_STEP_IDS.SEPARATE_SIGNAL:
+        return <AnomalyClassifier anomalies={listed} onClassify={handleClassify} />;
+
+      case EXCEPTION_QUARANTINE_STEP_IDS.ANALYZE_CONFLICTS:
+        return <ConflictAnalyzer anomalies={listed} onUpdate={handleAnomalyUpdate} />;
+
+      case EXCEPTION_QUARANTINE_STEP_IDS.RESOLVING_TESTS:
+        return <QuarantineTestList target={target} tests={tests} onToggle={handleTestToggle} />;
+
+      default:
+        return (
+          <div className="p-8 text-center text-muted-foreground">
+            Unknown step
+          </div>
+        );
+    }
+  };
+
+  // Use quotes or fallback
+  const displayQuotes = quotes && quotes.length > 0
+    ? quotes
+    : EXCEPTION_QUARANTINE_FALLBACK_QUOTES;
+
+  return (
+    <OperatorShell
+      operatorType="exception_quarantine"
+      currentStepIndex={session.currentStepIndex}
+      steps={session.steps}
+      onPrev={prev}
+      onNext={next}
+      onSkip={skip}
+      onStepClick={goToStep}
+      canPrev={canPrev}
+      canNext={canNext}
+      canSkip={canSkip}
+      validation={validation}
+      brennerQuotes={displayQuotes}
+      onAbandon={abandon}
+      onComplete={handleComplete}
+      className={className}
+    >
+      <AnimatePresence mode="wait">
+        <motion.div
+          key={currentStepConfig?.id}
+          initial={{ opacity: 0, y: 10 }}
+          animate={{ opacity: 1, y: 0 }}
+          exit={{ opacity: 0, y: -10 }}
+          transition={{ duration: 0.2 }}
+        >
+          {renderStepContent()}
+        </motion.div>
+      </AnimatePresence>
+    </OperatorShell>
+  );
+}
+
+export default ExceptionQuarantineSession;
@@ -0,0 +1,498 @@
+"use client";
+
+/**
+ * InvariantExtractSession - Interactive Invariant Extract (≡) Operator Session
+ *
+ * Guides users through finding properties that must hold regardless of
+ * mechanism, and using them to strike out whole families of models.
+ *
+ * Steps:
+ * 1. State Invariants - Conservation, scale, topology, counting constraints
+ * 2. Rule Out Model Families - Which mechanisms each invariant forbids
+ * 3. Probe an Invariant - A high likelihood-ratio test
+ * 4. Record Assumptions - What the invariants rest on (optional)
+ *
+ * @see specs/operator_library_v0.1.md - ≡ Invariant-Extract
+ * @module components/brenner-loop/operators/InvariantExtractSession
+ */
+
+import * as React from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import { Plus, Trash2, Ban, TestTube, Ruler, Lightbulb } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import type { HypothesisCard } from "@/lib/brenner-loop/hypothesis";
+import type { Quote } from "@/lib/quotebank-parser";
+import { useOperatorSession } from "@/hooks/useOperatorSession";
+import type {
+  Invariant,
+  InvariantKind,
+  ForbiddenPattern,
+  InvariantProbe,
+  LoadBearingAssumption,
+  InvariantExtractResult,
+} from "@/lib/brenner-loop/operators/invariant-extract";
+import {
+  INVARIANT_EXTRACT_STEPS,
+  INVARIANT_EXTRACT_STEP_IDS,
+  INVARIANT_KIND_PROMPTS,
+  generateInvariantSlots,
+  generateInvariantProbe,
+  seedLoadBearingAssumptions,
+  buildInvariantExtractResult,
+  INVARIANT_EXTRACT_FALLBACK_QUOTES,
+} from "@/lib/brenner-loop/operators/invariant-extract";
+import { OperatorShell } from "./OperatorShell";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface InvariantExtractSessionProps {
+  /** The hypothesis to apply Invariant Extract to */
+  hypothesis: HypothesisCard;
+  /** Brenner quotes for this operator (optional) */
+  quotes?: Quote[];
+  /** Callback when session completes */
+  onComplete?: (result: InvariantExtractResult) => void;
+  /** Callback when session is abandoned */
+  onAbandon?: () => void;
+  /** Additional CSS classes */
+  className?: string;
+}
+
+const INVARIANT_KINDS = Object.keys(INVARIANT_KIND_PROMPTS) as InvariantKind[];
+
+// ============================================================================
+// Step 1: State Invariants
+// ============================================================================
+
+interface InvariantListProps {
+  invariants: Invariant[];
+  onChange: (invariants: Invariant[]) => void;
+}
+
+function InvariantList({ invariants, onChange }: InvariantListProps) {
+  const update = (id: string, changes: Partial<Invariant>) => {
+    onChange(invariants.map((inv) => (inv.id === id ? { ...inv, ...changes } : inv)));
+  };
+
+  const add = () => {
+    const next = invariants.reduce((max, inv) => {
+      const n = Number(inv.id.replace("inv-", ""));
+      return Number.isFinite(n) && n > max ? n : max;
+    }, 0) + 1;
+    onChange([...invariants, { id: `inv-${next}`, kind: "other", statement: "" }]);
+  };
+
+  return (
+    <div className="space-y-4">
+      {invariants.map((invariant, index) => (
+        <motion.div
+          key={invariant.id}
+          initial={{ opacity: 0, y: 10 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: index * 0.05 }}
+          className="p-4 rounded-lg border border-border bg-card space-y-3"
+        >
+          <div className="flex items-center justify-between gap-2">
+            <div className="flex flex-wrap gap-1">
+              {INVARIANT_KINDS.map((kind) => (
+                <button
+                  key={kind}
+                  type="button"
+                  onClick={() => update(invariant.id, { kind })}
+                  className={cn(
+                    "px-2 py-0.5 text-xs rounded-full border transition-colors",
+                    invariant.kind === kind
+                      ? "border-cyan-500 bg-cyan-500/10 text-cyan-600"
+                      : "border-border text-muted-foreground hover:border-cyan-500/40"
+                  )}
+                >
+                  {kind}
+                </button>
+              ))}
+            </div>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => onChange(invariants.filter((inv) => inv.id !== invariant.id))}
+              aria-label="Remove invariant"
+            >
+              <Trash2 className="size-4" />
+            </Button>
+          </div>
+          <p className="text-xs text-muted-foreground">{INVARIANT_KIND_PROMPTS[invariant.kind]}</p>
+          <Textarea
+            value={invariant.statement}
+            onChange={(e) => update(invariant.id, { statement: e.target.value })}
+            placeholder="This must hold whatever the mechanism..."
+            className="min-h-[60px]"
+          />
+        </motion.div>
+      ))}
+      <Button variant="outline" size="sm" onClick={add}>
+        <Plus className="size-4 mr-1" />
+        Add invariant
+      </Button>
+    </div>
+  );
+}
+
+// ============================================================================
+// Step 2: Rule Out Families
+// ============================================================================
+
+interface ForbiddenPatternEditorProps {
+  invariants: Invariant[];
+  patterns: ForbiddenPattern[];
+  onChange: (patterns: ForbiddenPattern[]) => void;
+}
+
+function ForbiddenPatternEditor({ invariants, patterns, onChange }: ForbiddenPatternEditorProps) {
+  const update = (id: string, changes: Partial<ForbiddenPattern>) => {
+    onChange(patterns.map((p) => (p.id === id ? { ...p, ...changes } : p)));
+  };
+
+  const add = (invariantId: string) => {
+    const count = patterns.filter((p) => p.invariantId === invariantId).length;
+    onChange([
+      ...patterns,
+      { id: `${invariantId}-fp-${count + 1}`, invariantId, modelFamily: "", reason: "" },
+    ]);
+  };
+
+  return (
+    <div className="space-y-6">
+      {invariants.map((invariant) => {
+        const own = patterns.filter((p) => p.invariantId === invariant.id);
+        return (
+          <div key={invariant.id} className="space-y-3">
+            <div className="p-3 rounded-lg bg-cyan-500/5 border border-cyan-500/20">
+              <span className="text-xs uppercase tracking-wide text-cyan-600">{invariant.kind}</span>
+              <p className="text-sm mt-1">{invariant.statement}</p>
+            </div>
+            {own.map((pattern) => (
+              <div key={pattern.id} className="flex items-start gap-2 pl-4">
+                <Ban className="size-4 text-destructive mt-2.5 flex-shrink-0" />
+                <div className="flex-1 grid gap-2 md:grid-cols-2">
+                  <Input
+                    value={pattern.modelFamily}
+                    onChange={(e) => update(pattern.id, { modelFamily: e.target.value })}
+                    placeholder="Forbidden model family"
+                    aria-label="Forbidden model family"
+                  />
+                  <Input
+                    value={pattern.reason}
+                    onChange={(e) => update(pattern.id, { reason: e.target.value })}
+                    placeholder="Why the invariant rules it out"
+                    aria-label="Reason"
+                  />
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => onChange(patterns.filter((p) => p.id !== pattern.id))}
+                  aria-label="Remove model family"
+                >
+                  <Trash2 className="size-4" />
+                </Button>
+              </div>
+            ))}
+            <Button variant="ghost" size="sm" className="ml-4" onClick={() => add(invariant.id)}>
+              <Plus className="size-4 mr-1" />
+              Rule out a family
+            </Button>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+// ============================================================================
+// Step 3: Probe
+// ============================================================================
+
+interface ProbeDesignerProps {
+  invariants: Invariant[];
+  probe: InvariantProbe | undefined;
+  onChange: (probe: InvariantProbe) => void;
+}
+
+function ProbeDesigner({ invariants, probe, onChange }: ProbeDesignerProps) {
+  return (
+    <div className="space-y-6">
+      <div className="space-y-2">
+        <p className="text-sm font-medium">Which invariant will you probe?</p>
+        <div className="grid gap-2">
+          {invariants.map((invariant) => (
+            <button
+              key={invariant.id}
+              type="button"
+              onClick={() => onChange(generateInvariantProbe(invariant))}
+              className={cn(
+                "w-full text-left p-3 rounded-lg border text-sm transition-all",
+                probe?.invariantId === invariant.id
+                  ? "border-primary bg-primary/5"
+                  : "border-border bg-card hover:border-primary/30"
+              )}
+            >
+              <span className="text-xs uppercase tracking-wide text-muted-foreground mr-2">{invariant.kind}</span>
+              {invariant.statement}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {probe && (
+        <motion.div
+          initial={{ opacity: 0, y: 10 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="p-4 rounded-lg border border-border bg-card space-y-3"
+        >
+          <div className="flex items-center gap-2">
+            <TestTube className="size-4 text-primary" />
+            <span className="text-sm font-medium">Probe</span>
+            <span className="ml-auto px-2 py-0.5 text-xs rounded-full bg-muted text-muted-foreground">
+              {probe.likelihoodRatio} likelihood ratio
+            </span>
+          </div>
+          <Textarea
+            value={probe.description}
+            onChange={(e) => onChange({ ...probe, description: e.target.value })}
+            className="min-h-[80px]"
+          />
+          <div className="grid grid-cols-2 gap-3 text-xs">
+            <div className="p-2 rounded bg-green-500/5 border border-green-500/20">
+              <p className="font-medium text-green-600 mb-1">If it holds</p>
+              <p className="text-muted-foreground">{probe.expectedIfHolds}</p>
+            </div>
+            <div className="p-2 rounded bg-red-500/5 border border-red-500/20">
+              <p className="font-medium text-red-600 mb-1">If it fails</p>
+              <p className="text-muted-foreground">{probe.expectedIfViolated}</p>
+            </div>
+          </div>
+        </motion.div>
+      )}
+    </div>
+  );
+}
+
+// ============================================================================
+// Step 4: Assumptions
+// ============================================================================
+
+interface AssumptionListProps {
+  assumptions: LoadBearingAssumption[];
+  onChange: (assumptions: LoadBearingAssumption[]) => void;
+}
+
+function AssumptionList({ assumptions, onChange }: AssumptionListProps) {
+  const update = (id: string, changes: Partial<LoadBearingAssumption>) => {
+    onChange(assumptions.map((a) => (a.id === id ? { ...a, ...changes } : a)));
+  };
+
+  return (
+    <div className="space-y-3">
+      {assumptions.map((assumption) => (
+        <div key={assumption.id} className="flex items-center gap-2">
+          <Input
+            value={assumption.statement}
+            onChange={(e) => update(assumption.id, { statement: e.target.value })}
+            placeholder="An assumption the invariants rest on"
+            aria-label="Assumption"
+          />
+          <Button
+            variant={assumption.scaleCheck ? "default" : "outline"}
+            size="sm"
+            onClick={() => update(assumption.id, { scaleCheck: !assumption.scaleCheck })}
+            title="Needs a scale check"
+          >
+            <Ruler className="size-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => onChange(assumptions.filter((a) => a.id !== assumption.id))}
+            aria-label="Remove assumption"
+          >
+            <Trash2 className="size-4" />
+          </Button>
+        </div>
+      ))}
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() =>
+          onChange([
+            ...assumptions,
+            { id: `asm-${assumptions.length + 1}-${Date.now()}`, statement: "", scaleCheck: false },
+          ])
+        }
+      >
+        <Plus className="size-4 mr-1" />
+        Add assumption
+      </Button>
+      <div className="p-4 rounded-lg bg-muted/50 border border-border">
+        <div className="flex items-start gap-3">
+          <Lightbulb className="size-5 text-primary flex-shrink-0 mt-0.5" />
+          <p className="text-sm text-muted-foreground">
+            Flag assumptions that depend on magnitudes; they are candidates for a Scale Check.
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// ============================================================================
+// Main Session Component
+// ============================================================================
+
+export function InvariantExtractSession({
+  hypothesis,
+  quotes,
+  onComplete,
+  onAbandon,
+  className,
+}: InvariantExtractSessionProps) {
+  const {
+    session,
+    currentStepConfig,
+    canNext,
+    canPrev,
+    canSkip,
+    validation,
+    next,
+    prev,
+    skip,
+    goToStep,
+    setSelection,
+    getSelection,
+    complete,
+    abandon,
+  } = useOperatorSession<InvariantExtractResult>({
+    operatorType: "invariant_extract",
+    hypothesis,
+    stepConfigs: INVARIANT_EXTRACT_STEPS,
+    onComplete: (session) => {
+      if (onComplete && session.result) {
+        onComplete(session.result);
+      }
+    },
+    onAbandon: () => {
+      onAbandon?.();
+    },
+  });
+
+  // Seed invariant slots and assumptions on first render
+  React.useEffect(() => {
+    if (!getSelection<Invariant[]>(INVARIANT_EXTRACT_STEP_IDS.STATE_INVARIANTS)) {
+      setSelection(INVARIANT_EXTRACT_STEP_IDS.STATE_INVARIANTS, generateInvariantSlots(hypothesis));
+    }
+    if (!getSelection<LoadBearingAssumption[]>(INVARIANT_EXTRACT_STEP_IDS.RECORD_ASSUMPTIONS)) {
+      setSelection(INVARIANT_EXTRACT_STEP_IDS.RECORD_ASSUMPTIONS, seedLoadBearingAssumptions(hypothesis));
+    }
+  }, [hypothesis, getSelection, setSelection]);
+
+  const invariantsRaw = getSelection<Invariant[]>(INVARIANT_EXTRACT_STEP_IDS.STATE_INVARIANTS);
+  const invariants = React.useMemo(() => invariantsRaw ?? [], [invariantsRaw]);
+  const statedInvariants = React.useMemo(
+    () => invariants.filter((inv) => inv.statement.trim().length > 0),
+    [invariants]
+  );
+  const patterns = getSelection<ForbiddenPattern[]>(INVARIANT_EXTRACT_STEP_IDS.RULE_OUT_FAMILIES) ?? [];
+  const probe = getSelection<InvariantProbe>(INVARIANT_EXTRACT_STEP_IDS.PROBE_INVARIANT);
+  const assumptions = getSelection<LoadBearingAssumption[]>(INVARIANT_EXTRACT_STEP_IDS.RECORD_ASSUMPTIONS) ?? [];
+
+  const handleInvariantsChange = React.useCallback((value: Invariant[]) => {
+    setSelection(INVARIANT_EXTRACT_STEP_IDS.STATE_INVARIANTS, value);
+  }, [setSelection]);
+
+  const handlePatternsChange = React.useCallback((value: ForbiddenPattern[]) => {
+    setSelection(INVARIANT_EXTRACT_STEP_IDS.RULE_OUT_FAMILIES, value);
+  }, [setSelection]);
+
+  const handleProbeChange = React.useCallback((value: InvariantProbe) => {
+    setSelection(INVARIANT_EXTRACT_STEP_IDS.PROBE_INVARIANT, value);
+  }, [setSelection]);
+
+  const handleAssumptionsChange = React.useCallback((value: LoadBearingAssumption[]) => {
+    setSelection(INVARIANT_EXTRACT_STEP_IDS.RECORD_ASSUMPTIONS, value);
+  }, [setSelection]);
+
+  const handleComplete = React.useCallback(() => {
+    complete(buildInvariantExtractResult(session));
+  }, [session, complete]);
+
+  const renderStepContent = () => {
+    switch (currentStepConfig?.id) {
+      case INVARIANT_EXTRACT_STEP_IDS.STATE_INVARIANTS:
+        return <InvariantList invariants={invariants} onChange={handleInvariantsChange} />;
+
+      case INVARIANT_EXTRACT_STEP_IDS.RULE_OUT_FAMILIES:
+        return (
+          <ForbiddenPatternEditor
+            invariants={statedInvariants}
+            patterns={patterns}
+            onChange={handlePatternsChange}
+          />
+        );
+
+      case INVARIANT_EXTRACT_STEP_IDS.PROBE_INVARIANT:
+        return <ProbeDesigner invariants={statedInvariants} probe={probe} onChange={handleProbeChange} />;
+
+      case INVARIANT_EXTRACT_STEP_IDS.RECORD_ASSUMPTIONS:
+        return <AssumptionList assumptions={assumptions} onChange={handleAssumptionsChange} />;
+
+      default:
+        return (
+          <div className="p-8 text-center text-muted-foreground">
+            Unknown step
+          </div>
+        );
+    }
+  };
+
+  // Use quotes or fallback
+  const displayQuotes = quotes && quotes.length > 0
+    ? quotes
+    : INVARIANT_EXTRACT_FALLBACK_QUOTES;
+
+  return (
+    <OperatorShell
+      operatorType="invariant_extract"
+      currentStepIndex={session.currentStepIndex}
+      steps={session.steps}
+      onPrev={prev}
+      onNext={next}
+      onSkip={skip}
+      onStepClick={goToStep}
+      canPrev={canPrev}
+      canNext={canNext}
+      canSkip={canSkip}
+      validation={validation}
+      brennerQuotes={displayQuotes}
+      onAbandon={abandon}
+      onComplete={handleComplete}
+      className={className}
+    >
+      <AnimatePresence mode="wait">
+        <motion.div
+          key={currentStepConfig?.id}
+          initial={{ opacity: 0, y: 10 }}
+          animate={{ opacity: 1, y: 0 }}
+          exit={{ opacity: 0, y: -10 }}
+          transition={{ duration: 0.2 }}
+        >
+          {renderStepContent()}
+        </motion.div>
+      </AnimatePresence>
+    </OperatorShell>
+  );
+}
+
+export default InvariantExtractSession;
@@ -186,7 +186,11 @@ function OperatorHeader({
             operatorType === "level_split" && "bg-blue-500/10 text-blue-500",
             operatorType === "exclusion_test" && "bg-green-500/10 text-green-500",
             operatorType === "object_transpose" && "bg-purple-500/10 text-purple-500",
-            operatorType === "scale_check" && "bg-orange-500/10 text-orange-500"
+            operatorType === "scale_check" && "bg-orange-500/10 text-orange-500",
+            operatorType === "paradox_hunt" && "bg-pink-500/10 text-pink-500",
+            operatorType === "invariant_extract" && "bg-cyan-500/10 text-cyan-500",
+            operatorType === "exception_quarantine" && "bg-yellow-500/10 text-yellow-500",
+            operatorType === "theory_kill" && "bg-red-500/10 text-red-500"
           )}
         >
           {metadata.symbol}
@@ -0,0 +1,441 @@
+"use client";
+
+/**
+ * ParadoxHuntSession - Interactive Paradox Hunt (◊) Operator Session
+ *
+ * Guides users through stating a contradiction in their model, keeping
+ * several resolutions alive, and choosing tests that tell them apart.
+ *
+ * Steps:
+ * 1. State the Paradox - Two claims that cannot both be true
+ * 2. Propose Resolutions - Level split, recode, hidden variable, both wrong
+ * 3. Discriminating Tests - One or two tests that separate the resolutions
+ *
+ * @see specs/operator_library_v0.1.md - ◊ Paradox-Hunt
+ * @module components/brenner-loop/operators/ParadoxHuntSession
+ */
+
+import * as React from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import {
+  Check,
+  Layers,
+  Shuffle,
+  EyeOff,
+  XCircle,
+  Lightbulb,
+  TestTube,
+  Star,
+} from "lucide-react";
+import { cn } from "@/lib/utils";
+import { Textarea } from "@/components/ui/textarea";
+import type { HypothesisCard } from "@/lib/brenner-loop/hypothesis";
+import type { Quote } from "@/lib/quotebank-parser";
+import { useOperatorSession } from "@/hooks/useOperatorSession";
+import type {
+  ParadoxStatement,
+  ParadoxResolution,
+  ResolutionType,
+  ResolutionTest,
+  ParadoxHuntResult,
+} from "@/lib/brenner-loop/operators/paradox-hunt";
+import {
+  PARADOX_HUNT_STEPS,
+  PARADOX_HUNT_STEP_IDS,
+  seedParadoxStatement,
+  generateResolutions,
+  generateResolutionTests,
+  buildParadoxHuntResult,
+  PARADOX_HUNT_FALLBACK_QUOTES,
+} from "@/lib/brenner-loop/operators/paradox-hunt";
+import { OperatorShell } from "./OperatorShell";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ParadoxHuntSessionProps {
+  /** The hypothesis to apply Paradox Hunt to */
+  hypothesis: HypothesisCard;
+  /** Brenner quotes for this operator (optional) */
+  quotes?: Quote[];
+  /** Callback when session completes */
+  onComplete?: (result: ParadoxHuntResult) => void;
+  /** Callback when session is abandoned */
+  onAbandon?: () => void;
+  /** Additional CSS classes */
+  className?: string;
+}
+
+// ============================================================================
+// Helper Components
+// ============================================================================
+
+/**
+ * Icon for resolution type
+ */
+function ResolutionIcon({ type }: { type: ResolutionType }) {
+  switch (type) {
+    case "level_split":
+      return <Layers className="size-5" />;
+    case "recode":
+      return <Shuffle className="size-5" />;
+    case "hidden_variable":
+      return <EyeOff className="size-5" />;
+    case "both_wrong":
+      return <XCircle className="size-5" />;
+    default:
+      return <Lightbulb className="size-5" />;
+  }
+}
+
+// ============================================================================
+// Step 1: State Paradox
+// ============================================================================
+
+interface ParadoxInputProps {
+  paradox: ParadoxStatement;
+  onChange: (paradox: ParadoxStatement) => void;
+}
+
+function ParadoxInput({ paradox, onChange }: ParadoxInputProps) {
+  return (
+    <div className="space-y-6">
+      <div className="grid gap-4 md:grid-cols-2">
+        <div className="p-4 rounded-lg border border-pink-500/30 bg-pink-500/5 space-y-2">
+          <label htmlFor="paradox-claim-a" className="text-sm font-medium">
+            Claim A
+          </label>
+          <Textarea
+            id="paradox-claim-a"
+            value={paradox.claimA}
+            onChange={(e) => onChange({ ...paradox, claimA: e.target.value })}
+            placeholder="Something you have good reason to believe..."
+            className="min-h-[100px]"
+          />
+        </div>
+        <div className="p-4 rounded-lg border border-pink-500/30 bg-pink-500/5 space-y-2">
+          <label htmlFor="paradox-claim-b" className="text-sm font-medium">
+            Claim B
+          </label>
+          <Textarea
+            id="paradox-claim-b"
+            value={paradox.claimB}
+            onChange={(e) => onChange({ ...paradox, claimB: e.target.value })}
+            placeholder="...and something that cannot also be true"
+            className="min-h-[100px]"
+          />
+        </div>
+      </div>
+
+      <div className="p-4 rounded-lg bg-muted/50 border border-border">
+        <div className="flex items-start gap-3">
+          <Lightbulb className="size-5 text-primary flex-shrink-0 mt-0.5" />
+          <p className="text-sm text-muted-foreground">
+            If you can&apos;t write the conflict as two sentences, you haven&apos;t found
+            the paradox yet. Keep sharpening until each claim stands on its own.
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// ============================================================================
+// Step 2: Resolutions
+// ============================================================================
+
+interface ResolutionPickerProps {
+  resolutions: ParadoxResolution[];
+  onChange: (resolutions: ParadoxResolution[]) => void;
+}
+
+function ResolutionPicker({ resolutions, onChange }: ResolutionPickerProps) {
+  const update = (id: string, changes: Partial<ParadoxResolution>) => {
+    onChange(resolutions.map((r) => (r.id === id ? { ...r, ...changes } : r)));
+  };
+
+  return (
+    <div className="space-y-4">
+      {resolutions.map((resolution, index) => (
+        <motion.div
+          key={resolution.id}
+          initial={{ opacity: 0, y: 10 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: index * 0.1 }}
+          className={cn(
+            "p-4 rounded-lg border transition-all",
+            resolution.selected ? "border-primary bg-primary/5" : "border-border bg-card"
+          )}
+        >
+          <div className="flex items-start gap-3">
+            <button
+              type="button"
+              onClick={() => update(resolution.id, { selected: !resolution.selected })}
+              aria-label={`Select ${resolution.name}`}
+              className={cn(
+                "flex items-center justify-center size-6 rounded border flex-shrink-0 mt-0.5 transition-colors",
+                resolution.selected
+                  ? "bg-primary border-primary text-primary-foreground"
+                  : "border-muted-foreground/30 hover:border-primary/50"
+              )}
+            >
+              {resolution.selected && <Check className="size-4" strokeWidth={3} />}
+            </button>
+            <div className="p-2 rounded-lg bg-muted text-pink-500 flex-shrink-0">
+              <ResolutionIcon type={resolution.type} />
+            </div>
+            <div className="flex-1 min-w-0">
+              <h4 className="font-medium text-sm">{resolution.name}</h4>
+              <p className="text-sm text-muted-foreground mt-1">{resolution.description}</p>
+              <ul className="mt-2 space-y-1">
+                {resolution.implications.map((imp, i) => (
+                  <li key={i} className="text-xs text-muted-foreground flex items-start gap-2">
+                    <span className="text-primary mt-0.5">•</span>
+                    <span>{imp}</span>
+                  </li>
+                ))}
+              </ul>
+              {resolution.selected && (
+                <div className="flex items-center gap-1 mt-3">
+                  <span className="text-xs text-muted-foreground mr-2">Plausibility:</span>
+                  {[1, 2, 3, 4, 5].map((star) => (
+                    <button
+                      key={star}
+                      type="button"
+                      onClick={() => update(resolution.id, { plausibility: star })}
+                      className={cn(
+                        "p-0.5 transition-colors",
+                        star <= (resolution.plausibility ?? 0)
+                          ? "text-amber-500"
+                          : "text-muted-foreground/30 hover:text-muted-foreground/60"
+                      )}
+                    >
+                      <Star
+                        className="size-4"
+                        fill={star <= (resolution.plausibility ?? 0) ? "currentColor" : "none"}
+                      />
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+        </motion.div>
+      ))}
+    </div>
+  );
+}
+
+// ============================================================================
+// Step 3: Tests
+// ============================================================================
+
+interface ResolutionTestListProps {
+  tests: ResolutionTest[];
+  resolutions: ParadoxResolution[];
+  onToggle: (testId: string) => void;
+}
+
+function ResolutionTestList({ tests, resolutions, onToggle }: ResolutionTestListProps) {
+  if (tests.length === 0) {
+    return (
+      <div className="p-8 text-center text-muted-foreground">
+        <TestTube className="size-12 mx-auto mb-4 opacity-50" />
+        <p>Select at least two resolutions in the previous step.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {tests.map((test, index) => {
+        const resolution = resolutions.find((r) => r.id === test.resolutionId);
+        return (
+          <motion.button
+            key={test.id}
+            type="button"
+            onClick={() => onToggle(test.id)}
+            initial={{ opacity: 0, y: 10 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: index * 0.1 }}
+            className={cn(
+              "w-full text-left p-4 rounded-lg border transition-all",
+              test.selected ? "border-primary bg-primary/5" : "border-border bg-card hover:border-primary/30"
+            )}
+          >
+            <div className="flex items-center justify-between gap-2 mb-2">
+              <span className="text-xs text-muted-foreground">
+                Probes: {resolution?.name ?? test.resolutionId}
+              </span>
+              <span className="px-2 py-0.5 text-xs rounded-full bg-muted text-muted-foreground">
+                {test.feasibility}
+              </span>
+            </div>
+            <p className="text-sm font-medium mb-3">{test.description}</p>
+            <div className="grid grid-cols-2 gap-3 text-xs">
+              <div className="p-2 rounded bg-green-500/5 border border-green-500/20">
+                <p className="font-medium text-green-600 mb-1">If this resolution</p>
+                <p className="text-muted-foreground">{test.predictionIfResolution}</p>
+              </div>
+              <div className="p-2 rounded bg-amber-500/5 border border-amber-500/20">
+                <p className="font-medium text-amber-600 mb-1">Otherwise</p>
+                <p className="text-muted-foreground">{test.predictionOtherwise}</p>
+              </div>
+            </div>
+          </motion.button>
+        );
+      })}
+    </div>
+  );
+}
+
+// ============================================================================
+// Main Session Component
+// ============================================================================
+
+export function ParadoxHuntSession({
+  hypothesis,
+  quotes,
+  onComplete,
+  onAbandon,
+  className,
+}: ParadoxHuntSessionProps) {
+  const {
+    session,
+    currentStepConfig,
+    canNext,
+    canPrev,
+    canSkip,
+    validation,
+    next,
+    prev,
+    skip,
+    goToStep,
+    setSelection,
+    getSelection,
+    complete,
+    abandon,
+  } = useOperatorSession<ParadoxHuntResult>({
+    operatorType: "paradox_hunt",
+    hypothesis,
+    stepConfigs: PARADOX_HUNT_STEPS,
+    onComplete: (session) => {
+      if (onComplete && session.result) {
+        onComplete(session.result);
+      }
+    },
+    onAbandon: () => {
+      onAbandon?.();
+    },
+  });
+
+  // Seed the paradox from the hypothesis on first render
+  React.useEffect(() => {
+    if (!getSelection<ParadoxStatement>(PARADOX_HUNT_STEP_IDS.STATE_PARADOX)) {
+      setSelection(PARADOX_HUNT_STEP_IDS.STATE_PARADOX, seedParadoxStatement(hypothesis));
+    }
+  }, [hypothesis, getSelection, setSelection]);
+
+  const paradox = getSelection<ParadoxStatement>(PARADOX_HUNT_STEP_IDS.STATE_PARADOX) ?? seedParadoxStatement(hypothesis);
+  const resolutionsRaw = getSelection<ParadoxResolution[]>(PARADOX_HUNT_STEP_IDS.PROPOSE_RESOLUTIONS);
+  const resolutions = React.useMemo(() => resolutionsRaw ?? [], [resolutionsRaw]);
+  const testsRaw = getSelection<ResolutionTest[]>(PARADOX_HUNT_STEP_IDS.DISCRIMINATING_TESTS);
+  const tests = React.useMemo(() => testsRaw ?? [], [testsRaw]);
+
+  // Generate resolutions when entering that step
+  React.useEffect(() => {
+    if (currentStepConfig?.id === PARADOX_HUNT_STEP_IDS.PROPOSE_RESOLUTIONS && resolutions.length === 0) {
+      setSelection(PARADOX_HUNT_STEP_IDS.PROPOSE_RESOLUTIONS, generateResolutions(paradox));
+    }
+  }, [currentStepConfig?.id, paradox, resolutions.length, setSelection]);
+
+  // Regenerate tests when the selected resolutions change
+  React.useEffect(() => {
+    if (currentStepConfig?.id !== PARADOX_HUNT_STEP_IDS.DISCRIMINATING_TESTS) return;
+    const generated = generateResolutionTests(resolutions);
+    const sameSet =
+      generated.length === tests.length && generated.every((t) => tests.some((existing) => existing.id === t.id));
+    if (!sameSet) {
+      setSelection(PARADOX_HUNT_STEP_IDS.DISCRIMINATING_TESTS, generated);
+    }
+  }, [currentStepConfig?.id, resolutions, tests, setSelection]);
+
+  const handleParadoxChange = React.useCallback((value: ParadoxStatement) => {
+    setSelection(PARADOX_HUNT_STEP_IDS.STATE_PARADOX, value);
+  }, [setSelection]);
+
+  const handleResolutionsChange = React.useCallback((value: ParadoxResolution[]) => {
+    setSelection(PARADOX_HUNT_STEP_IDS.PROPOSE_RESOLUTIONS, value);
+  }, [setSelection]);
+
+  const handleTestToggle = React.useCallback((testId: string) => {
+    setSelection(
+      PARADOX_HUNT_STEP_IDS.DISCRIMINATING_TESTS,
+      tests.map((t) => (t.id === testId ? { ...t, selected: !t.selected } : t))
+    );
+  }, [tests, setSelection]);
+
+  const handleComplete = React.useCallback(() => {
+    complete(buildParadoxHuntResult(session));
+  }, [session, complete]);
+
+  const renderStepContent = () => {
+    switch (currentStepConfig?.id) {
+      case PARADOX_HUNT_STEP_IDS.STATE_PARADOX:
+        return <ParadoxInput paradox={paradox} onChange={handleParadoxChange} />;
+
+      case PARADOX_HUNT_STEP_IDS.PROPOSE_RESOLUTIONS:
+        return <ResolutionPicker resolutions={resolutions} onChange={handleResolutionsChange} />;
+
+      case PARADOX_HUNT_STEP_IDS.DISCRIMINATING_TESTS:
+        return <ResolutionTestList tests={tests} resolutions={resolutions} onToggle={handleTestToggle} />;
+
+      default:
+        return (
+          <div className="p-8 text-center text-muted-foreground">
+            Unknown step
+          </div>
+        );
+    }
+  };
+
+  // Use quotes or fallback
+  const displayQuotes = quotes && quotes.length > 0
+    ? quotes
+    : PARADOX_HUNT_FALLBACK_QUOTES;
+
+  return (
+    <OperatorShell
+      operatorType="paradox_hunt"
+      currentStepIndex={session.currentStepIndex}
+      steps={session.steps}
+      onPrev={prev}
+      onNext={next}
+      onSkip={skip}
+      onStepClick={goToStep}
+      canPrev={canPrev}
+      canNext={canNext}
+      canSkip={canSkip}
+      validation={validation}
+      brennerQuotes={displayQuotes}
+      onAbandon={abandon}
+      onComplete={handleComplete}
+      className={className}
+    >
+      <AnimatePresence mode="wait">
+        <motion.div
+          key={currentStepConfig?.id}
+          initial={{ opacity: 0, y: 10 }}
+          animate={{ opacity: 1, y: 0 }}
+          exit={{ opacity: 0, y: -10 }}
+          transition={{ duration: 0.2 }}
+        >
+          {renderStepContent()}
+        </motion.div>
+      </AnimatePresence>
+    </OperatorShell>
+  );
+}
+
+export default ParadoxHuntSession;
@@ -0,0 +1,426 @@
+"use client";
+
+/**
+ * TheoryKillSession - Interactive Theory Kill (†) Operator Session
+ *
+ * Guides users through discarding a contradicted hypothesis, test or
+ * assumption: naming it, stating the kill reason in one sentence, checking it
+ * had a fair test, and filling the vacuum it leaves.
+ *
+ * Steps:
+ * 1. Identify the Target - What failed and the evidence against it
+ * 2. State the Kill Reason - One sentence, no rescue language
+ * 3. Fair Test Check - Guard against killing too early
+ * 4. Fill the Vacuum - Propose a replacement (optional)
+ *
+ * @see specs/operator_library_v0.1.md - † Theory-Kill
+ * @module components/brenner-loop/operators/TheoryKillSession
+ */
+
+import * as React from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import { Plus, Trash2, Check, X, AlertTriangle, Skull, Hourglass } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import type { HypothesisCard } from "@/lib/brenner-loop/hypothesis";
+import type { Quote } from "@/lib/quotebank-parser";
+import { useOperatorSession } from "@/hooks/useOperatorSession";
+import type {
+  KillTarget,
+  KillTargetKind,
+  KillReadinessCheck,
+  ReplacementHypothesis,
+  TheoryKillResult,
+} from "@/lib/brenner-loop/operators/theory-kill";
+import {
+  THEORY_KILL_STEPS,
+  THEORY_KILL_STEP_IDS,
+  seedKillTarget,
+  generateReadinessChecks,
+  detectRescueLanguage,
+  determineKillVerdict,
+  buildTheoryKillResult,
+  THEORY_KILL_FALLBACK_QUOTES,
+} from "@/lib/brenner-loop/operators/theory-kill";
+import { OperatorShell } from "./OperatorShell";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface TheoryKillSessionProps {
+  /** The hypothesis to apply Theory Kill to */
+  hypothesis: HypothesisCard;
+  /** Brenner quotes for this operator (optional) */
+  quotes?: Quote[];
+  /** Callback when session completes */
+  onComplete?: (result: TheoryKillResult) => void;
+  /** Callback when session is abandoned */
+  onAbandon?: () => void;
+  /** Additional CSS classes */
+  className?: string;
+}
+
+const TARGET_KINDS: KillTargetKind[] = ["hypothesis", "test", "assumption"];
+
+const EMPTY_REPLACEMENT: ReplacementHypothesis = {
+  statement: "",
+  rationale: "",
+  isThirdAlternative: false,
+};
+
+// ============================================================================
+// Step 1: Target
+// ============================================================================
+
+interface TargetEditorProps {
+  target: KillTarget;
+  onChange: (target: KillTarget) => void;
+}
+
+function TargetEditor({ target, onChange }: TargetEditorProps) {
+  const setEvidence = (index: number, value: string) => {
+    onChange({
+      ...target,
+      contradictingEvidence: target.contradictingEvidence.map((e, i) => (i === index ? value : e)),
+    });
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex gap-2">
+        {TARGET_KINDS.map((kind) => (
+          <Button
+            key={kind}
+            variant={target.kind === kind ? "default" : "outline"}
+            size="sm"
+            onClick={() => onChange({ ...target, kind })}
+          >
+            {kind}
+          </Button>
+        ))}
+      </div>
+
+      <Textarea
+        label="What is being killed"
+        value={target.statement}
+        onChange={(e) => onChange({ ...target, statement: e.target.value })}
+        className="min-h-[80px]"
+      />
+
+      <div className="space-y-2">
+        <p className="text-sm font-medium">Contradicting evidence</p>
+        {target.contradictingEvidence.map((evidence, index) => (
+          <div key={index} className="flex items-center gap-2">
+            <Input
+              value={evidence}
+              onChange={(e) => setEvidence(index, e.target.value)}
+              placeholder="An observation that contradicts it"
+              aria-label={`Contradicting evidence ${index + 1}`}
+            />
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() =>
+                onChange({
+                  ...target,
+                  contradictingEvidence: target.contradictingEvidence.filter((_, i) => i !== index),
+                })
+              }
+              aria-label="Remove evidence"
+            >
+              <Trash2 className="size-4" />
+            </Button>
+          </div>
+        ))}
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => onChange({ ...target, contradictingEvidence: [...target.contradictingEvidence, ""] })}
+        >
+          <Plus className="size-4 mr-1" />
+          Add evidence
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+// ============================================================================
+// Step 2: Reason
+// ============================================================================
+
+interface KillReasonInputProps {
+  reason: string;
+  onChange: (reason: string) => void;
+}
+
+function KillReasonInput({ reason, onChange }: KillReasonInputProps) {
+  const rescue = detectRescueLanguage(reason);
+
+  return (
+    <div className="space-y-4">
+      <Textarea
+        label="Kill reason (one sentence)"
+        value={reason}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder="Experiment X showed Y, which the target forbids."
+        className="min-h-[80px]"
+      />
+      {rescue.length > 0 && (
+        <div className="p-3 rounded-lg bg-yellow-500/10 border border-yellow-500/30 flex items-start gap-2">
+          <AlertTriangle className="size-4 text-yellow-600 mt-0.5 flex-shrink-0" />
+          <p className="text-sm text-muted-foreground">
+            This sounds like a rescue: <span className="font-medium">{rescue.join(", ")}</span>
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// ============================================================================
+// Step 3: Fair Test
+// ============================================================================
+
+interface ReadinessChecklistProps {
+  checks: KillReadinessCheck[];
+  onAnswer: (id: string, answer: boolean) => void;
+}
+
+function ReadinessChecklist({ checks, onAnswer }: ReadinessChecklistProps) {
+  const allAnswered = checks.length > 0 && checks.every((c) => c.answer !== null);
+  const verdict = determineKillVerdict(checks);
+
+  return (
+    <div className="space-y-4">
+      {checks.map((check) => (
+        <div key={check.id} className="p-4 rounded-lg border border-border bg-card">
+          <p className="text-sm font-medium">{check.question}</p>
+          <p className="text-xs text-muted-foreground mt-1">{check.rationale}</p>
+          <div className="flex gap-2 mt-3">
+            <Button
+              variant={check.answer === true ? "default" : "outline"}
+              size="sm"
+              onClick={() => onAnswer(check.id, true)}
+            >
+              <Check className="size-4 mr-1" />
+              Yes
+            </Button>
+            <Button
+              variant={check.answer === false ? "destructive" : "outline"}
+              size="sm"
+              onClick={() => onAnswer(check.id, false)}
+            >
+              <X className="size-4 mr-1" />
+              No
+            </Button>
+          </div>
+        </div>
+      ))}
+
+      {allAnswered && (
+        <motion.div
+          initial={{ opacity: 0, y: 10 }}
+          animate={{ opacity: 1, y: 0 }}
+          className={cn(
+            "p-4 rounded-lg border flex items-center gap-3",
+            verdict === "kill" ? "bg-red-500/10 border-red-500/30" : "bg-muted/50 border-border"
+          )}
+        >
+          {verdict === "kill" ? (
+            <Skull className="size-5 text-red-500" />
+          ) : (
+            <Hourglass className="size-5 text-muted-foreground" />
+          )}
+          <p className="text-sm">
+            {verdict === "kill"
+              ? "The target had a fair test. Kill it."
+              : "Defer the kill until the failed checks are closed."}
+          </p>
+        </motion.div>
+      )}
+    </div>
+  );
+}
+
+// ============================================================================
+// Step 4: Replacement
+// ============================================================================
+
+interface ReplacementEditorProps {
+  replacement: ReplacementHypothesis;
+  onChange: (replacement: ReplacementHypothesis) => void;
+}
+
+function ReplacementEditor({ replacement, onChange }: ReplacementEditorProps) {
+  return (
+    <div className="space-y-4">
+      <Textarea
+        label="Replacement"
+        value={replacement.statement}
+        onChange={(e) => onChange({ ...replacement, statement: e.target.value })}
+        placeholder="What explains the evidence the target could not?"
+        className="min-h-[80px]"
+      />
+      <Textarea
+        label="Why it fits"
+        value={replacement.rationale}
+        onChange={(e) => onChange({ ...replacement, rationale: e.target.value })}
+        className="min-h-[60px]"
+      />
+      <Button
+        variant={replacement.isThirdAlternative ? "default" : "outline"}
+        size="sm"
+        onClick={() => onChange({ ...replacement, isThirdAlternative: !replacement.isThirdAlternative })}
+      >
+        {replacement.isThirdAlternative && <Check className="size-4 mr-1" />}
+        Third Alternative
+      </Button>
+    </div>
+  );
+}
+
+// ============================================================================
+// Main Session Component
+// ============================================================================
+
+export function TheoryKillSession({
+  hypothesis,
+  quotes,
+  onComplete,
+  onAbandon,
+  className,
+}: TheoryKillSessionProps) {
+  const {
+    session,
+    currentStepConfig,
+    canNext,
+    canPrev,
+    canSkip,
+    validation,
+    next,
+    prev,
+    skip,
+    goToStep,
+    setSelection,
+    getSelection,
+    complete,
+    abandon,
+  } = useOperatorSession<TheoryKillResult>({
+    operatorType: "theory_kill",
+    hypothesis,
+    stepConfigs: THEORY_KILL_STEPS,
+    onComplete: (session) => {
+      if (onComplete && session.result) {
+        onComplete(session.result);
+      }
+    },
+    onAbandon: () => {
+      onAbandon?.();
+    },
+  });
+
+  // Seed the target and the fair-test checklist on first render
+  React.useEffect(() => {
+    if (!getSelection<KillTarget>(THEORY_KILL_STEP_IDS.IDENTIFY_TARGET)) {
+      setSelection(THEORY_KILL_STEP_IDS.IDENTIFY_TARGET, seedKillTarget(hypothesis));
+    }
+    if (!getSelection<KillReadinessCheck[]>(THEORY_KILL_STEP_IDS.FAIR_TEST)) {
+      setSelection(THEORY_KILL_STEP_IDS.FAIR_TEST, generateReadinessChecks());
+    }
+  }, [hypothesis, getSelection, setSelection]);
+
+  const target = getSelection<KillTarget>(THEORY_KILL_STEP_IDS.IDENTIFY_TARGET) ?? seedKillTarget(hypothesis);
+  const reason = getSelection<string>(THEORY_KILL_STEP_IDS.STATE_REASON) ?? "";
+  const checksRaw = getSelection<KillReadinessCheck[]>(THEORY_KILL_STEP_IDS.FAIR_TEST);
+  const checks = React.useMemo(() => checksRaw ?? [], [checksRaw]);
+  const replacement = getSelection<ReplacementHypothesis>(THEORY_KILL_STEP_IDS.FILL_VACUUM) ?? EMPTY_REPLACEMENT;
+
+  const handleTargetChange = React.useCallback((value: KillTarget) => {
+    setSelection(THEORY_KILL_STEP_IDS.IDENTIFY_TARGET, value);
+  }, [setSelection]);
+
+  const handleReasonChange = React.useCallback((value: string) => {
+    setSelection(THEORY_KILL_STEP_IDS.STATE_REASON, value);
+  }, [setSelection]);
+
+  const handleAnswer = React.useCallback((id: string, answer: boolean) => {
+    setSelection(
+      THEORY_KILL_STEP_IDS.FAIR_TEST,
+      checks.map((c) => (c.id === id ? { ...c, answer } : c))
+    );
+  }, [checks, setSelection]);
+
+  const handleReplacementChange = React.useCallback((value: ReplacementHypothesis) => {
+    setSelection(THEORY_KILL_STEP_IDS.FILL_VACUUM, value);
+  }, [setSelection]);
+
+  const handleComplete = React.useCallback(() => {
+    complete(buildTheoryKillResult(session));
+  }, [session, complete]);
+
+  const renderStepContent = () => {
+    switch (currentStepConfig?.id) {
+      case THEORY_KILL_STEP_IDS.IDENTIFY_TARGET:
+        return <TargetEditor target={target} onChange={handleTargetChange} />;
+
+      case THEORY_KILL_STEP_IDS.STATE_REASON:
+        return <KillReasonInput reason={reason} onChange={handleReasonChange} />;
+
+      case THEORY_KILL_STEP_IDS.FAIR_TEST:
+        return <ReadinessChecklist checks={checks} onAnswer={handleAnswer} />;
+
+      case THEORY_KILL_STEP_IDS.FILL_VACUUM:
+        return <ReplacementEditor replacement={replacement} onChange={handleReplacementChange} />;
+
+      default:
+        return (
+          <div className="p-8 text-center text-muted-foreground">
+            Unknown step
+          </div>
+        );
+    }
+  };
+
+  // Use quotes or fallback
+  const displayQuotes = quotes && quotes.length > 0
+    ? quotes
+    : THEORY_KILL_FALLBACK_QUOTES;
+
+  return (
+    <OperatorShell
+      operatorType="theory_kill"
+      currentStepIndex={session.currentStepIndex}
+      steps={session.steps}
+      onPrev={prev}
+      onNext={next}
+      onSkip={skip}
+      onStepClick={goToStep}
+      canPrev={canPrev}
+      canNext={canNext}
+      canSkip={canSkip}
+      validation={validation}
+      brennerQuotes={displayQuotes}
+      onAbandon={abandon}
+      onComplete={handleComplete}
+      className={className}
+    >
+      <AnimatePresence mode="wait">
+        <motion.div
+          key={currentStepConfig?.id}
+          initial={{ opacity: 0, y: 10 }}
+          animate={{ opacity: 1, y: 0 }}
+          exit={{ opacity: 0, y: -10 }}
+          transition={{ duration: 0.2 }}
+        >
+          {renderStepContent()}
+        </motion.div>
+      </AnimatePresence>
+    </OperatorShell>
+  );
+}
+
+export default TheoryKillSession;
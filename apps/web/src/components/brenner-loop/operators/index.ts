@@ -59,3 +59,38 @@ export {
   ObjectTransposeSession,
   type ObjectTransposeSessionProps,
 } from "./ObjectTransposeSession";
+
+// Paradox Hunt (◊)
+export {
+  ParadoxHuntSession,
+  type ParadoxHuntSessionProps,
+} from "./ParadoxHuntSession";
+
+// Invariant Extract (≡)
+export {
+  InvariantExtractSession,
+  type InvariantExtractSessionProps,
+} from "./InvariantExtractSession";
+
+// Exception Quarantine (ΔE)
+export {
+  ExceptionQuarantineSession,
+  type ExceptionQuarantineSessionProps,
+} from "./ExceptionQuarantineSession";
+
+// Theory Kill (†)
+export {
+  TheoryKillSession,
+  type TheoryKillSessionProps,
+} from "./TheoryKillSession";
+
+// ============================================================================
+// Operator Compositions
+// ============================================================================
+
+// Guided operator chains
+export {
+  CompositionRunner,
+  type CompositionRunnerProps,
+  type CompositionStepCompletion,
+} from "./CompositionRunner";
@@ -0,0 +1,48 @@
+import { describe, it, expect } from "vitest";
+import { render, screen } from "@testing-library/react";
+import { ExperimentRunTimeline } from "./ExperimentRunTimeline";
+import { runEntryFromResult, summarizeRunHistory } from "@/lib/schemas/experiment-run";
+
+function run(resultId: string, minute: number, exitCode: number) {
+  return runEntryFromResult(
+    {
+      result_id: resultId,
+      capture_mode: "run",
+      thread_id: "RS-1",
+      test_id: "T-RS-1-001",
+      created_at: `2026-10-19T10:0${minute}:00.000Z`,
+      started_at: `2026-10-19T10:0${minute}:00.000Z`,
+      argv: ["bun", "run.ts"],
+      timed_out: false,
+      exit_code: exitCode,
+      duration_ms: 1500,
+      stdout: "",
+      git: { sha: "abc1234def", dirty: false },
+      runtime: { platform: "linux", arch: "x64", bun_version: "1.3.0" },
+    },
+    `artifacts/RS-1/experiments/T-RS-1-001/${resultId}.json`
+  );
+}
+
+describe("ExperimentRunTimeline", () => {
+  it("renders one dot per run and flags flaky tests", () => {
+    const runs = [run("r1", 1, 0), run("r2", 2, 1), run("r3", 3, 0)];
+    render(
+      <ExperimentRunTimeline
+        histories={[{ testId: "T-RS-1-001", runs, summary: summarizeRunHistory("T-RS-1-001", runs) }]}
+      />
+    );
+
+    const timeline = screen.getByRole("list", { name: "T-RS-1-001 runs, oldest first" });
+    expect(timeline.querySelectorAll("li")).toHaveLength(3);
+    expect(screen.getByLabelText(/2026-10-19T10:02:00.000Z · failed · exit 1 · 1.5s · abc1234/)).toBeInTheDocument();
+    expect(screen.getByText("3 runs")).toBeInTheDocument();
+    expect(screen.getByText("flaky")).toBeInTheDocument();
+    expect(screen.getByText("Status: passed ×2, failed ×1")).toBeInTheDocument();
+  });
+
+  it("explains where runs come from when none are logged", () => {
+    render(<ExperimentRunTimeline histories={[]} />);
+    expect(screen.getByText(/No experiment runs logged/)).toBeInTheDocument();
+  });
+});
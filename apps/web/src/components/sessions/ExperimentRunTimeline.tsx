@@ -0,0 +1,112 @@
+import { cn } from "@/lib/utils";
+import { Badge } from "@/components/ui/badge";
+import type {
+  ExperimentRunEntry,
+  ExperimentRunHistory,
+  RunDisagreement,
+  RunStatus,
+} from "@/lib/schemas/experiment-run";
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+const STATUS_COLORS: Record<RunStatus, string> = {
+  passed: "bg-green-500",
+  failed: "bg-red-500",
+  blocked: "bg-amber-500",
+};
+
+function describeRun(run: ExperimentRunEntry): string {
+  const parts = [run.run_at, run.status, `exit ${run.exit_code}`];
+  if (typeof run.duration_ms === "number") parts.push(`${(run.duration_ms / 1000).toFixed(1)}s`);
+  parts.push(run.git ? `${run.git.sha.slice(0, 7)}${run.git.dirty ? "+dirty" : ""}` : "no git");
+  parts.push(`env ${run.environment.fingerprint}`);
+  if (run.sandbox_profile) parts.push(`profile ${run.sandbox_profile}`);
+  for (const [id, verdict] of Object.entries(run.outcome?.verdicts ?? {})) parts.push(`${id} ${verdict}`);
+  return parts.join(" · ");
+}
+
+function describeDisagreement(d: RunDisagreement): string {
+  const signal = d.signal === "status" ? "Status" : d.signal.hypothesisId;
+  const counts = Object.entries(d.counts)
+    .map(([value, n]) => `${value} ×${n}`)
+    .join(", ");
+  return `${signal}: ${counts}`;
+}
+
+// ============================================================================
+// Component
+// ============================================================================
+
+export interface ExperimentRunTimelineProps {
+  histories: ExperimentRunHistory[];
+}
+
+/**
+ * One row per test: every logged run as a dot (oldest first), plus the
+ * disagreements that make a test flaky or show drift across commits.
+ */
+export function ExperimentRunTimeline({ histories }: ExperimentRunTimelineProps) {
+  if (histories.length === 0) {
+    return (
+      <div className="text-sm text-muted-foreground">
+        No experiment runs logged for this session yet. Runs from{" "}
+        <span className="font-mono text-foreground">brenner experiment run</span> appear here.
+      </div>
+    );
+  }
+
+  return (
+    <ul className="space-y-4">
+      {histories.map(({ testId, runs, summary }) => (
+        <li key={testId} className="space-y-2">
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="font-mono text-sm font-semibold">{testId}</span>
+            <Badge variant="secondary">
+              {summary.totalRuns} run{summary.totalRuns === 1 ? "" : "s"}
+            </Badge>
+            {summary.flaky ? (
+              <Badge variant="outline" className="border-red-500/40 text-red-600">
+                flaky
+              </Badge>
+            ) : summary.disagreements.length > 0 ? (
+              <Badge variant="outline" className="border-amber-500/40 text-amber-600">
+                drift
+              </Badge>
+            ) : null}
+            {summary.duration && summary.duration.runs > 1 && (
+              <span className="text-xs text-muted-foreground">
+                median {(summary.duration.medianMs / 1000).toFixed(1)}s · cv {Math.round(summary.duration.cv * 100)}%
+              </span>
+            )}
+          </div>
+
+          <ol className="flex flex-wrap items-center gap-1.5" aria-label={`${testId} runs, oldest first`}>
+            {runs.map((run) => (
+              <li
+                key={run.result_id}
+                title={describeRun(run)}
+                aria-label={describeRun(run)}
+                className={cn("size-3 rounded-full", STATUS_COLORS[run.status], run.git?.dirty && "opacity-60")}
+              />
+            ))}
+          </ol>
+
+          {summary.disagreements.length > 0 && (
+            <ul className="text-xs text-muted-foreground space-y-0.5">
+              {summary.disagreements.map((d) => (
+                <li key={d.signal === "status" ? "status" : d.signal.hypothesisId}>
+                  {describeDisagreement(d)}
+                  <span className="ml-1">
+                    ({d.kind === "flaky" ? "same commit and environment" : "across commits or environments"})
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,92 @@
+import { describe, it, expect, vi } from "vitest";
+import { render, screen } from "@testing-library/react";
+import { KnowledgeGraphView, layoutKnowledgeGraph } from "./KnowledgeGraphView";
+import type { KnowledgeGraph } from "@/lib/storage/knowledge-graph";
+import { findUnderminingAssumptions, traceLineage } from "@/lib/storage/knowledge-graph";
+
+vi.mock("next/link", () => ({
+  default: ({
+    children,
+    href,
+    className,
+  }: {
+    children: React.ReactNode;
+    href: string;
+    className?: string;
+  }) => (
+    <a href={href} className={className}>
+      {children}
+    </a>
+  ),
+}));
+
+const graph: KnowledgeGraph = {
+  generatedAt: "2026-01-02T00:00:00Z",
+  nodes: [
+    { id: "A-RS-1-001", kind: "assumption", sessionId: "RS-1", label: "Uniform receptors", status: "falsified" },
+    { id: "H-RS-1-001", kind: "hypothesis", sessionId: "RS-1", label: "Clustering", status: "active" },
+    { id: "H-RS-2-001", kind: "hypothesis", sessionId: "RS-2", label: "Feedback", status: "proposed" },
+    { id: "X-RS-1-001", kind: "anomaly", sessionId: "RS-1", label: "Persistence", status: "active" },
+  ],
+  edges: [
+    { from: "H-RS-2-001", to: "H-RS-1-001", type: "refines" },
+    { from: "H-RS-2-001", to: "A-RS-1-001", type: "assumes" },
+    { from: "X-RS-1-001", to: "H-RS-1-001", type: "conflicts_with" },
+  ],
+  danglingRefs: ["T-RS-9-001"],
+};
+
+describe("layoutKnowledgeGraph", () => {
+  it("places each kind in its own column, ordered by session", () => {
+    const layout = layoutKnowledgeGraph(graph.nodes);
+    const byId = new Map(layout.nodes.map((node) => [node.id, node]));
+
+    expect(byId.get("X-RS-1-001")!.x).toBeLessThan(byId.get("H-RS-1-001")!.x);
+    expect(byId.get("H-RS-1-001")!.x).toBe(byId.get("H-RS-2-001")!.x);
+    expect(byId.get("H-RS-1-001")!.y).toBeLessThan(byId.get("H-RS-2-001")!.y);
+    expect(byId.get("A-RS-1-001")!.x).toBeGreaterThan(byId.get("H-RS-1-001")!.x);
+  });
+});
+
+describe("KnowledgeGraphView", () => {
+  it("renders nodes, edge filters, and falsified assumptions in use", () => {
+    render(<KnowledgeGraphView graph={graph} undermining={findUnderminingAssumptions(graph)} />);
+
+    expect(screen.getByRole("img", { name: /4 nodes and 3 edges/ })).toBeInTheDocument();
+    expect(screen.getByRole("link", { name: "All edges (3)" })).toHaveAttribute("href", "/sessions/graph");
+    expect(screen.getByRole("link", { name: "refines" })).toHaveAttribute("href", "/sessions/graph?type=refines");
+    expect(screen.getByRole("link", { name: "H-RS-2-001 · proposed" })).toHaveAttribute(
+      "href",
+      "/sessions/graph?focus=H-RS-2-001"
+    );
+    expect(screen.getByText("T-RS-9-001")).toBeInTheDocument();
+  });
+
+  it("lists the lineage of the focused hypothesis and keeps the edge filter in links", () => {
+    render(
+      <KnowledgeGraphView
+        graph={graph}
+        undermining={[]}
+        focusId="H-RS-2-001"
+        lineage={traceLineage(graph, "H-RS-2-001")}
+        edgeType="refines"
+      />
+    );
+
+    expect(screen.getByRole("img", { name: /4 nodes and 1 edges/ })).toBeInTheDocument();
+    expect(screen.getByText(/refines →/)).toBeInTheDocument();
+    const lineageLinks = screen
+      .getAllByRole("link")
+      .filter((link) => link.getAttribute("href") === "/sessions/graph?focus=H-RS-1-001&type=refines");
+    expect(lineageLinks.length).toBeGreaterThan(0);
+    expect(screen.getByText("No live hypothesis rests on a falsified assumption.")).toBeInTheDocument();
+  });
+
+  it("shows an empty state when nothing has been recorded", () => {
+    render(
+      <KnowledgeGraphView graph={{ ...graph, nodes: [], edges: [], danglingRefs: [] }} undermining={[]} />
+    );
+
+    expect(screen.getByText(/No hypotheses, assumptions, anomalies/)).toBeInTheDocument();
+  });
+});
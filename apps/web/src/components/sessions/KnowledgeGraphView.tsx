@@ -0,0 +1,336 @@
+import type { ReactNode } from "react";
+import Link from "next/link";
+import type {
+  GraphEdge,
+  GraphEdgeType,
+  GraphNode,
+  GraphNodeKind,
+  KnowledgeGraph,
+  LineageStep,
+  UnderminingAssumption,
+} from "@/lib/storage/knowledge-graph";
+
+// ============================================================================
+// Layout
+// ============================================================================
+
+/** Column order, left to right: what gets attacked sits beside what attacks it */
+const KIND_COLUMNS: GraphNodeKind[] = ["anomaly", "hypothesis", "assumption", "test", "critique"];
+
+const KIND_LABELS: Record<GraphNodeKind, string> = {
+  anomaly: "Anomalies",
+  hypothesis: "Hypotheses",
+  assumption: "Assumptions",
+  test: "Tests",
+  critique: "Critiques",
+};
+
+const KIND_COLORS: Record<GraphNodeKind, string> = {
+  anomaly: "fill-amber-500/15 stroke-amber-500",
+  hypothesis: "fill-blue-500/15 stroke-blue-500",
+  assumption: "fill-purple-500/15 stroke-purple-500",
+  test: "fill-green-500/15 stroke-green-500",
+  critique: "fill-red-500/15 stroke-red-500",
+};
+
+const EDGE_COLORS: Record<GraphEdgeType, string> = {
+  refines: "stroke-blue-500",
+  kills: "stroke-red-600",
+  assumes: "stroke-purple-500",
+  conflicts_with: "stroke-amber-500",
+  critiques: "stroke-red-400",
+  spawned_from: "stroke-cyan-500",
+};
+
+const COLUMN_WIDTH = 200;
+const NODE_WIDTH = 150;
+const NODE_HEIGHT = 28;
+const ROW_HEIGHT = 44;
+const HEADER_HEIGHT = 32;
+
+interface PositionedNode extends GraphNode {
+  x: number;
+  y: number;
+}
+
+/**
+ * Place nodes in one column per kind, ordered by session then id.
+ */
+export function layoutKnowledgeGraph(nodes: GraphNode[]): {
+  nodes: PositionedNode[];
+  width: number;
+  height: number;
+} {
+  let maxRows = 0;
+  const positioned: PositionedNode[] = [];
+
+  KIND_COLUMNS.forEach((kind, column) => {
+    const columnNodes = nodes
+      .filter((node) => node.kind === kind)
+      .sort((a, b) => a.sessionId.localeCompare(b.sessionId) || a.id.localeCompare(b.id));
+    maxRows = Math.max(maxRows, columnNodes.length);
+    columnNodes.forEach((node, row) => {
+      positioned.push({
+        ...node,
+        x: column * COLUMN_WIDTH + (COLUMN_WIDTH - NODE_WIDTH) / 2,
+        y: HEADER_HEIGHT + row * ROW_HEIGHT,
+      });
+    });
+  });
+
+  return {
+    nodes: positioned,
+    width: KIND_COLUMNS.length * COLUMN_WIDTH,
+    height: HEADER_HEIGHT + Math.max(maxRows, 1) * ROW_HEIGHT,
+  };
+}
+
+function edgePath(from: PositionedNode, to: PositionedNode): string {
+  const y1 = from.y + NODE_HEIGHT / 2;
+  const y2 = to.y + NODE_HEIGHT / 2;
+
+  // Same column: bow out to the right so the edge doesn't run through nodes
+  if (from.x === to.x) {
+    const x = from.x + NODE_WIDTH;
+    const bow = 30 + Math.min(Math.abs(y2 - y1) / 4, 40);
+    return `M ${x} ${y1} C ${x + bow} ${y1}, ${x + bow} ${y2}, ${x} ${y2}`;
+  }
+
+  const leftToRight = from.x < to.x;
+  const x1 = leftToRight ? from.x + NODE_WIDTH : from.x;
+  const x2 = leftToRight ? to.x : to.x + NODE_WIDTH;
+  const mid = (x1 + x2) / 2;
+  return `M ${x1} ${y1} C ${mid} ${y1}, ${mid} ${y2}, ${x2} ${y2}`;
+}
+
+// ============================================================================
+// Component
+// ============================================================================
+
+export interface KnowledgeGraphViewProps {
+  graph: KnowledgeGraph;
+  /** Falsified assumptions still underpinning live hypotheses */
+  undermining: UnderminingAssumption[];
+  /** Node whose lineage is highlighted */
+  focusId?: string;
+  /** Lineage of the focused node (from traceLineage) */
+  lineage?: LineageStep[];
+  /** Only draw edges of this type */
+  edgeType?: GraphEdgeType;
+  /** Page the filter and focus links point at */
+  basePath?: string;
+}
+
+export function KnowledgeGraphView({
+  graph,
+  undermining,
+  focusId,
+  lineage = [],
+  edgeType,
+  basePath = "/sessions/graph",
+}: KnowledgeGraphViewProps) {
+  const layout = layoutKnowledgeGraph(graph.nodes);
+  const positions = new Map(layout.nodes.map((node) => [node.id, node]));
+  const lineageIds = new Set(lineage.map((step) => step.node.id));
+  const lineageEdges = new Set(lineage.flatMap((step) => (step.via ? [step.via] : [])).map(edgeKey));
+
+  const visibleEdges = graph.edges.filter(
+    (edge) => (edgeType === undefined || edge.type === edgeType) && positions.has(edge.from) && positions.has(edge.to)
+  );
+
+  const href = (params: { focus?: string; type?: GraphEdgeType }) => {
+    const search = new URLSearchParams();
+    if (params.focus) search.set("focus", params.focus);
+    if (params.type) search.set("type", params.type);
+    const query = search.toString();
+    return query ? `${basePath}?${query}` : basePath;
+  };
+
+  const edgeTypes = Array.from(new Set(graph.edges.map((edge) => edge.type))).sort();
+
+  return (
+    <div className="space-y-6" data-testid="knowledge-graph-view">
+      {/* Edge type filter */}
+      <nav className="flex flex-wrap items-center gap-2 text-sm" aria-label="Edge type filter">
+        <FilterLink href={href({ focus: focusId })} active={edgeType === undefined}>
+          All edges ({graph.edges.length})
+        </FilterLink>
+        {edgeTypes.map((type) => (
+          <FilterLink key={type} href={href({ focus: focusId, type })} active={edgeType === type}>
+            {type}
+          </FilterLink>
+        ))}
+      </nav>
+
+      {graph.nodes.length === 0 ? (
+        <div className="rounded-xl border border-border bg-card p-8 text-center text-sm text-muted-foreground">
+          No hypotheses, assumptions, anomalies, critiques, or tests have been recorded yet.
+        </div>
+      ) : (
+        <div className="overflow-x-auto rounded-xl border border-border bg-card p-4">
+          <svg
+            width={layout.width}
+            height={layout.height}
+            viewBox={`0 0 ${layout.width} ${layout.height}`}
+            role="img"
+            aria-label={`Knowledge graph with ${graph.nodes.length} nodes and ${visibleEdges.length} edges`}
+          >
+            {KIND_COLUMNS.map((kind, column) => (
+              <text
+                key={kind}
+                x={column * COLUMN_WIDTH + COLUMN_WIDTH / 2}
+                y={16}
+                textAnchor="middle"
+                className="fill-muted-foreground text-xs font-semibold"
+              >
+                {KIND_LABELS[kind]}
+              </text>
+            ))}
+
+            {visibleEdges.map((edge) => {
+              const highlighted = lineageEdges.has(edgeKey(edge));
+              return (
+                <path
+                  key={edgeKey(edge)}
+                  d={edgePath(positions.get(edge.from)!, positions.get(edge.to)!)}
+                  fill="none"
+                  strokeWidth={highlighted ? 2.5 : 1}
+                  strokeDasharray={edge.type === "kills" ? "4 3" : undefined}
+                  className={`${EDGE_COLORS[edge.type]} ${focusId && !highlighted ? "opacity-25" : "opacity-80"}`}
+                >
+                  <title>{`${edge.from} ${edge.type} ${edge.to}`}</title>
+                </path>
+              );
+            })}
+
+            {layout.nodes.map((node) => {
+              const dimmed = focusId !== undefined && !lineageIds.has(node.id);
+              return (
+                <Link key={node.id} href={href({ focus: node.id, type: edgeType })}>
+                  <g className={dimmed ? "opacity-40" : undefined} data-node-id={node.id}>
+                    <title>{`${node.id} [${node.status}] ${node.label}`}</title>
+                    <rect
+                      x={node.x}
+                      y={node.y}
+                      width={NODE_WIDTH}
+                      height={NODE_HEIGHT}
+                      rx={6}
+                      strokeWidth={node.id === focusId ? 2.5 : 1}
+                      className={KIND_COLORS[node.kind]}
+                    />
+                    <text
+                      x={node.x + NODE_WIDTH / 2}
+                      y={node.y + NODE_HEIGHT / 2 + 4}
+                      textAnchor="middle"
+                      className={`fill-foreground font-mono text-[10px] ${
+                        isRetired(node) ? "line-through" : ""
+                      }`}
+                    >
+                      {node.id}
+                    </text>
+                  </g>
+                </Link>
+              );
+            })}
+          </svg>
+        </div>
+      )}
+
+      <div className="grid gap-6 md:grid-cols-2">
+        {/* Lineage */}
+        <section className="rounded-xl border border-border bg-card p-5 space-y-3">
+          <h2 className="text-base font-semibold">Lineage</h2>
+          {!focusId ? (
+            <p className="text-sm text-muted-foreground">Select a hypothesis to trace what it came from.</p>
+          ) : lineage.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              <span className="font-mono">{focusId}</span> has no recorded lineage.
+            </p>
+          ) : (
+            <ol className="space-y-1.5 text-sm">
+              {lineage.map((step) => (
+                <li key={step.node.id} style={{ paddingLeft: `${step.depth * 16}px` }}>
+                  {step.via && <span className="text-xs text-muted-foreground mr-1">{step.via.type} &rarr;</span>}
+                  <Link href={href({ focus: step.node.id, type: edgeType })} className="font-mono text-primary hover:underline">
+                    {step.node.id}
+                  </Link>{" "}
+                  <span className="text-xs text-muted-foreground">[{step.node.status}]</span>
+                  <div className="text-xs text-muted-foreground">{step.node.label}</div>
+                </li>
+              ))}
+            </ol>
+          )}
+        </section>
+
+        {/* Falsified assumptions */}
+        <section className="rounded-xl border border-border bg-card p-5 space-y-3">
+          <h2 className="text-base font-semibold">Falsified assumptions still in use</h2>
+          {undermining.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No live hypothesis rests on a falsified assumption.</p>
+          ) : (
+            <ul className="space-y-3 text-sm">
+              {undermining.map((entry) => (
+                <li key={entry.assumption.id} className="space-y-1">
+                  <Link
+                    href={href({ focus: entry.assumption.id, type: edgeType })}
+                    className="font-mono text-destructive hover:underline"
+                  >
+                    {entry.assumption.id}
+                  </Link>
+                  <div className="text-xs text-muted-foreground">{entry.assumption.label}</div>
+                  <div className="flex flex-wrap gap-1.5">
+                    {entry.hypotheses.map((h) => (
+                      <Link
+                        key={h.id}
+                        href={href({ focus: h.id, type: edgeType })}
+                        className="inline-flex items-center px-2 py-0.5 rounded-full border border-border bg-muted/40 font-mono text-xs hover:bg-muted"
+                      >
+                        {h.id} · {h.status}
+                      </Link>
+                    ))}
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+      </div>
+
+      {graph.danglingRefs.length > 0 && (
+        <p className="text-xs text-muted-foreground">
+          Referenced but not recorded in any registry:{" "}
+          <span className="font-mono">{graph.danglingRefs.join(", ")}</span>
+        </p>
+      )}
+    </div>
+  );
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function edgeKey(edge: GraphEdge): string {
+  return `${edge.type}:${edge.from}->${edge.to}`;
+}
+
+function isRetired(node: GraphNode): boolean {
+  return (
+    (node.kind === "hypothesis" && (node.status === "refuted" || node.status === "superseded")) ||
+    (node.kind === "assumption" && node.status === "falsified")
+  );
+}
+
+function FilterLink({ href, active, children }: { href: string; active: boolean; children: ReactNode }) {
+  return (
+    <Link
+      href={href}
+      aria-current={active ? "page" : undefined}
+      className={`px-3 py-1 rounded-full border transition-colors ${
+        active ? "border-primary bg-primary/10 text-primary" : "border-border text-muted-foreground hover:bg-muted/50"
+      }`}
+    >
+      {children}
+    </Link>
+  );
+}
@@ -12,3 +12,5 @@ export { RosterAssignment, applyDefaultRoles, type RosterEntry } from "./RosterA
 export { FirstRunOnboarding } from "./FirstRunOnboarding";
 export { DemoSessionsView, type DemoSessionsViewProps } from "./DemoSessionsView";
 export { DemoFeaturePreview, type DemoFeaturePreviewProps } from "./DemoFeaturePreview";
+export { KnowledgeGraphView, layoutKnowledgeGraph, type KnowledgeGraphViewProps } from "./KnowledgeGraphView";
+export { ExperimentRunTimeline, type ExperimentRunTimelineProps } from "./ExperimentRunTimeline";
@@ -7,6 +7,7 @@
  * - Undo/redo functionality with keyboard shortcuts
  * - Command execution helpers
  * - LocalStorage persistence
+ * - Per-collaborator history when an actor is given
  *
  * @see brenner_bot-sedg (Undo/Redo System)
  */
@@ -38,6 +39,7 @@ import {
   createRemoveTagCommand,
   serializeUndoStack,
   deserializeUndoStack,
+  withActor,
 } from "@/lib/brenner-loop/undoManager";
 
 // ============================================================================
@@ -51,6 +53,11 @@ export interface UseUndoRedoOptions {
   maxHistory?: number;
   /** Enable keyboard shortcuts (default: true) */
   enableShortcuts?: boolean;
+  /**
+   * Collaborator issuing commands. When set, commands are attributed to this
+   * actor and undo/redo only touch the actor's own commands.
+   */
+  actor?: string;
 }
 
 export interface UseUndoRedoResult {
@@ -146,7 +153,7 @@ export interface UseUndoRedoResult {
  * Hook for managing undo/redo in Brenner Loop sessions
  */
 export function useUndoRedo(options: UseUndoRedoOptions): UseUndoRedoResult {
-  const { sessionId, maxHistory = 50, enableShortcuts = true } = options;
+  const { sessionId, maxHistory = 50, enableShortcuts = true, actor } = options;
 
   // Persist undo stack to localStorage
   const [stackData, setStackData] = useLocalStorage<string>(
@@ -163,33 +170,33 @@ export function useUndoRedo(options: UseUndoRedoOptions): UseUndoRedoResult {
   // Execute a command
   const execute = useCallback(
     (session: Session, command: SessionCommand): Session => {
-      const result = executeCommand(session, stack, command);
+      const result = executeCommand(session, stack, actor ? withActor(command, actor) : command);
       setStackData(serializeUndoStack(result.stack));
       return result.session;
     },
-    [stack, setStackData]
+    [stack, setStackData, actor]
   );
 
   // Undo
   const performUndo = useCallback(
     (session: Session): Session | null => {
-      const result = undo(session, stack);
+      const result = undo(session, stack, actor);
       if (!result) return null;
       setStackData(serializeUndoStack(result.stack));
       return result.session;
     },
-    [stack, setStackData]
+    [stack, setStackData, actor]
   );
 
   // Redo
   const performRedo = useCallback(
     (session: Session): Session | null => {
-      const result = redo(session, stack);
+      const result = redo(session, stack, actor);
       if (!result) return null;
       setStackData(serializeUndoStack(result.stack));
       return result.session;
     },
-    [stack, setStackData]
+    [stack, setStackData, actor]
   );
 
   // Clear all
@@ -321,10 +328,10 @@ export function useUndoRedo(options: UseUndoRedoOptions): UseUndoRedoResult {
 
   return {
     stack,
-    canUndo: canUndo(stack),
-    canRedo: canRedo(stack),
-    nextUndoDescription: getNextUndoDescription(stack),
-    nextRedoDescription: getNextRedoDescription(stack),
+    canUndo: canUndo(stack, actor),
+    canRedo: canRedo(stack, actor),
+    nextUndoDescription: getNextUndoDescription(stack, actor),
+    nextRedoDescription: getNextRedoDescription(stack, actor),
     recentHistory: getRecentHistory(stack),
     execute,
     performUndo,
@@ -0,0 +1,308 @@
+/**
+ * Tests for the local Agent Mail server.
+ *
+ * Tool cases run against an in-memory bun:sqlite database, so they need the
+ * Bun runtime (`bun --bun vitest run src/lib/agent-mail-local.test.ts`) and
+ * are skipped under Node. HTTP cases never reach the database and run everywhere.
+ */
+
+import { beforeEach, describe, expect, it } from "vitest";
+import {
+  LocalAgentMailServer,
+  handleLocalAgentMailRequest,
+  isLoopbackHost,
+  type LocalMailDatabase,
+  type LocalMailMessage,
+} from "./agent-mail-local";
+
+// ============================================================================
+// Fixtures
+// ============================================================================
+
+// Built from parts so Vite does not try to bundle the Bun built-in under Node
+const BUN_SQLITE = ["bun", "sqlite"].join(":");
+const sqlite = (await import(/* @vite-ignore */ BUN_SQLITE).catch(() => null)) as {
+  Database: new (path: string) => LocalMailDatabase;
+} | null;
+
+const PROJECT = "/labs/gradient";
+
+/** Enough of a database for the HTTP layer, which never queries it */
+const NO_QUERIES: LocalMailDatabase = {
+  exec: () => {},
+  prepare: (sql) => {
+    throw new Error(`Unexpected query: ${sql}`);
+  },
+};
+
+function createServer(): LocalAgentMailServer {
+  if (!sqlite) throw new Error("bun:sqlite is unavailable");
+  let tick = 0;
+  return new LocalAgentMailServer(new sqlite.Database(":memory:"), {
+    now: () => new Date(Date.UTC(2026, 9, 19, 12, 0, tick++)),
+  });
+}
+
+/** Call a tool and return its structured result, failing on `isError` */
+function call<T>(server: LocalAgentMailServer, name: string, args: Record<string, unknown>): T {
+  const result = server.callTool(name, { project_key: PROJECT, ...args });
+  if (result.isError) throw new Error(result.content[0]?.text);
+  return result.structuredContent as T;
+}
+
+function send(server: LocalAgentMailServer, args: Record<string, unknown>): LocalMailMessage {
+  return call<{ deliveries: Array<{ payload: LocalMailMessage }> }>(server, "send_message", args).deliveries[0].payload;
+}
+
+function inbox(server: LocalAgentMailServer, agentName: string): LocalMailMessage[] {
+  return call<{ result: LocalMailMessage[] }>(server, "fetch_inbox", { agent_name: agentName, include_bodies: true }).result;
+}
+
+// ============================================================================
+// Tools
+// ============================================================================
+
+describe.skipIf(!sqlite)("LocalAgentMailServer", () => {
+  let server: LocalAgentMailServer;
+
+  beforeEach(() => {
+    server = createServer();
+    call(server, "ensure_project", { human_key: PROJECT });
+    for (const name of ["GreenCastle", "BlueLake"]) {
+      call(server, "register_agent", { name, program: "codex-cli", model: "gpt" });
+    }
+  });
+
+  describe("reply threading", () => {
+    it("keeps replies in the original thread and addresses the sender", () => {
+      const kickoff = send(server, {
+        sender_name: "GreenCastle",
+        to: ["BlueLake"],
+        subject: "KICKOFF: gradient",
+        body_md: "Please review.",
+        thread_id: "RS-1",
+        importance: "high",
+      });
+
+      const reply = call<{ deliveries: Array<{ payload: LocalMailMessage }> }>(server, "reply_message", {
+        sender_name: "BlueLake",
+        message_id: kickoff.id,
+        body_md: "Reviewed.",
+      }).deliveries[0].payload;
+      expect(reply).toMatchObject({
+        thread_id: "RS-1",
+        reply_to: kickoff.id,
+        subject: "Re: KICKOFF: gradient",
+        from: "BlueLake",
+        to: ["GreenCastle"],
+        importance: "high",
+      });
+
+      const again = call<{ deliveries: Array<{ payload: LocalMailMessage }> }>(server, "reply_message", {
+        sender_name: "GreenCastle",
+        message_id: reply.id,
+        body_md: "Thanks.",
+      }).deliveries[0].payload;
+      expect(again.subject).toBe("Re: KICKOFF: gradient");
+
+      const thread = server.readResource(`resource://thread/RS-1?project=${PROJECT}`) as { messages: LocalMailMessage[] };
+      expect(thread.messages.map((m) => m.id)).toEqual([kickoff.id, reply.id, again.id]);
+    });
+
+    it("threads replies to unthreaded messages under the original id", () => {
+      const question = send(server, { sender_name: "GreenCastle", to: ["BlueLake"], subject: "QUESTION: scope", body_md: "?" });
+      const reply = call<{ deliveries: Array<{ payload: LocalMailMessage }> }>(server, "reply_message", {
+        sender_name: "BlueLake",
+        message_id: question.id,
+        body_md: "Narrow.",
+      }).deliveries[0].payload;
+
+      expect(reply.thread_id).toBe(String(question.id));
+      const thread = server.readResource(`resource://thread/${question.id}?project=${PROJECT}`) as {
+        messages: LocalMailMessage[];
+      };
+      expect(thread.messages.map((m) => m.subject)).toEqual(["QUESTION: scope", "Re: QUESTION: scope"]);
+    });
+  });
+
+  describe("read and acknowledgement state", () => {
+    it("records the first read and ack and clears pending action items", () => {
+      const kickoff = send(server, {
+        sender_name: "GreenCastle",
+        to: ["BlueLake"],
+        subject: "KICKOFF: gradient",
+        body_md: "Please ack.",
+        thread_id: "RS-1",
+        ack_required: true,
+      });
+      expect(inbox(server, "BlueLake")).toMatchObject([{ id: kickoff.id, kind: "to", ack_required: true }]);
+
+      const summary = () =>
+        call<{ summary: { action_items: string[] } }>(server, "summarize_thread", { thread_id: "RS-1" }).summary;
+      expect(summary().action_items).toEqual([`BlueLake: acknowledge #${kickoff.id} "KICKOFF: gradient"`]);
+
+      const read = call<{ read_at: string }>(server, "mark_message_read", { agent_name: "BlueLake", message_id: kickoff.id });
+      const ack = call<{ acknowledged: boolean; acknowledged_at: string; read_at: string }>(server, "acknowledge_message", {
+        agent_name: "BlueLake",
+        message_id: kickoff.id,
+      });
+      expect(ack).toMatchObject({ acknowledged: true, read_at: read.read_at });
+      expect(ack.acknowledged_at > read.read_at).toBe(true);
+
+      const repeated = call<{ acknowledged_at: string }>(server, "acknowledge_message", {
+        agent_name: "BlueLake",
+        message_id: kickoff.id,
+      });
+      expect(repeated.acknowledged_at).toBe(ack.acknowledged_at);
+      expect(summary().action_items).toEqual([]);
+
+      const agents = server.readResource(`resource://agents/${PROJECT}`) as { agents: Array<{ name: string; unread_count: number }> };
+      expect(agents.agents).toContainEqual({ name: "BlueLake", unread_count: 0 });
+    });
+
+    it("reports a missing delivery as a tool error", () => {
+      const note = send(server, { sender_name: "GreenCastle", to: ["BlueLake"], subject: "INFO: note", body_md: "FYI" });
+      const result = server.callTool("acknowledge_message", {
+        project_key: PROJECT,
+        agent_name: "GreenCastle",
+        message_id: note.id,
+      });
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toBe(`Delivery not found for message ${note.id} to GreenCastle`);
+    });
+  });
+
+  describe("search", () => {
+    it("matches every term in subjects or bodies, newest first", () => {
+      const first = send(server, { sender_name: "GreenCastle", to: ["BlueLake"], subject: "Gradient model", body_md: "Morphogen decay" });
+      send(server, { sender_name: "GreenCastle", to: ["BlueLake"], subject: "Counting model", body_md: "Division clock" });
+      const third = send(server, { sender_name: "BlueLake", to: ["GreenCastle"], subject: "Re: gradient", body_md: "MORPHOGEN source" });
+
+      const found = call<{ result: LocalMailMessage[] }>(server, "search_messages", { query: "gradient morphogen" }).result;
+      expect(found.map((m) => m.id)).toEqual([third.id, first.id]);
+    });
+
+    it("treats LIKE wildcards in the query literally", () => {
+      send(server, { sender_name: "GreenCastle", to: ["BlueLake"], subject: "Yield", body_md: "Up 40% on the graft" });
+      send(server, { sender_name: "GreenCastle", to: ["BlueLake"], subject: "Yield", body_md: "Up 40 fold" });
+
+      const found = call<{ result: LocalMailMessage[] }>(server, "search_messages", { query: "40%" }).result;
+      expect(found.map((m) => m.body_md)).toEqual(["Up 40% on the graft"]);
+    });
+  });
+});
+
+// ============================================================================
+// HTTP
+// ============================================================================
+
+describe("handleLocalAgentMailRequest", () => {
+  const server = new LocalAgentMailServer(NO_QUERIES);
+  const ping = JSON.stringify({ jsonrpc: "2.0", id: 1, method: "ping" });
+
+  /**
+   * A request as the CLI sends it: JSON bodies carry their Content-Type.
+   * `host` stands in for the Host header, which Request does not let callers set.
+   */
+  function request(path: string, init: RequestInit = {}, host = "127.0.0.1:8765"): Request {
+    const headers = new Headers(init.headers);
+    if (init.body !== undefined && !headers.has("content-type")) headers.set("Content-Type", "application/json");
+    return new Request(`http://${host}${path}`, { ...init, headers });
+  }
+
+  it("rejects requests without the bearer token", async () => {
+    const options = { path: "/mcp/", bearerToken: "secret" };
+    const missing = await handleLocalAgentMailRequest(request("/mcp/", { method: "POST", body: ping }), server, options);
+    expect(missing.status).toBe(401);
+    expect(await missing.json()).toEqual({ detail: "Unauthorized" });
+
+    const wrong = await handleLocalAgentMailRequest(
+      request("/health/readiness", { headers: { Authorization: "Bearer nope" } }),
+      server,
+      options
+    );
+    expect(wrong.status).toBe(401);
+
+    const allowed = await handleLocalAgentMailRequest(
+      request("/mcp/", { method: "POST", body: ping, headers: { Authorization: "Bearer secret" } }),
+      server,
+      options
+    );
+    expect(await allowed.json()).toEqual({ jsonrpc: "2.0", id: 1, result: {} });
+  });
+
+  it("answers 404 off the MCP path and 405 for non-POST requests", async () => {
+    const notFound = await handleLocalAgentMailRequest(request("/api/"), server, { path: "/mcp/" });
+    expect(notFound.status).toBe(404);
+
+    const notAllowed = await handleLocalAgentMailRequest(request("/mcp"), server, { path: "/mcp/" });
+    expect(notAllowed.status).toBe(405);
+
+    const preflight = await handleLocalAgentMailRequest(request("/mcp/", { method: "OPTIONS" }), server, { path: "/mcp/" });
+    expect(preflight.status).toBe(405);
+    expect(preflight.headers.get("access-control-allow-origin")).toBeNull();
+  });
+
+  it("rejects foreign Host headers without a token, as DNS rebinding would send", async () => {
+    const rebound = await handleLocalAgentMailRequest(
+      request("/mcp/", { method: "POST", body: ping }, "attacker.example:8765"),
+      server,
+      { path: "/mcp/" }
+    );
+    expect(rebound.status).toBe(403);
+
+    const local = await handleLocalAgentMailRequest(
+      request("/mcp/", { method: "POST", body: ping }, "localhost:8765"),
+      server,
+      { path: "/mcp/" }
+    );
+    expect(local.status).toBe(200);
+
+    // A token is what admits remote callers
+    const remote = await handleLocalAgentMailRequest(
+      request("/mcp/", { method: "POST", body: ping, headers: { Authorization: "Bearer secret" } }, "mail.lab.internal:8765"),
+      server,
+      { path: "/mcp/", bearerToken: "secret" }
+    );
+    expect(remote.status).toBe(200);
+  });
+
+  it("requires JSON bodies, which a cross-site form or text/plain fetch cannot send", async () => {
+    const plain = await handleLocalAgentMailRequest(
+      request("/mcp/", { method: "POST", body: ping, headers: { "Content-Type": "text/plain" } }),
+      server,
+      { path: "/mcp/" }
+    );
+    expect(plain.status).toBe(415);
+
+    const withCharset = await handleLocalAgentMailRequest(
+      request("/mcp/", { method: "POST", body: ping, headers: { "Content-Type": "application/json; charset=utf-8" } }),
+      server,
+      { path: "/mcp/" }
+    );
+    expect(withCharset.status).toBe(200);
+  });
+
+  it("serves readiness and reports malformed JSON-RPC", async () => {
+    const ready = await handleLocalAgentMailRequest(request("/health/readiness"), server, { path: "/mcp/" });
+    expect(await ready.json()).toEqual({ status: "ready", backend: "sqlite" });
+
+    const malformed = await handleLocalAgentMailRequest(request("/mcp/", { method: "POST", body: "{" }), server, { path: "/mcp/" });
+    expect(malformed.status).toBe(400);
+    expect((await malformed.json()).error.code).toBe(-32700);
+
+    const notification = await handleLocalAgentMailRequest(
+      request("/mcp/", { method: "POST", body: JSON.stringify({ jsonrpc: "2.0", method: "ping" }) }),
+      server,
+      { path: "/mcp/" }
+    );
+    expect(notification.status).toBe(202);
+  });
+});
+
+describe("isLoopbackHost", () => {
+  it("accepts loopback addresses only", () => {
+    for (const host of ["127.0.0.1", "127.1.2.3", "localhost", "::1", "[::1]"]) expect(isLoopbackHost(host)).toBe(true);
+    for (const host of ["0.0.0.0", "::", "192.168.1.20", "mail.lab.internal"]) expect(isLoopbackHost(host)).toBe(false);
+  });
+});
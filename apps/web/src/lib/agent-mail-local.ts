@@ -0,0 +1,818 @@
+/**
+ * Local Agent Mail
+ *
+ * A self-contained stand-in for the Agent Mail server, backed by SQLite, for
+ * offline lab use. It implements the MCP JSON-RPC subset that
+ * `AgentMailClient`, the CLI and the web app rely on:
+ *
+ * - tools: health_check, ensure_project, register_agent, whois, send_message,
+ *   reply_message, fetch_inbox, mark_message_read, acknowledge_message,
+ *   search_messages, summarize_thread
+ * - resources: inbox/{agent}, thread/{id}, agents/{project_slug}
+ *
+ * Tool results use the same envelope as the real server (`content` +
+ * `structuredContent`, list results under `structuredContent.result`, failures
+ * as `isError`), so callers need no special casing.
+ *
+ * The database is passed in rather than opened here: `brenner mail serve
+ * --local` hands over a `bun:sqlite` Database, which satisfies
+ * `LocalMailDatabase` as-is.
+ *
+ * @see specs/agent_mail_contracts_v0.1.md
+ */
+
+// ============================================================================
+// Database Interface
+// ============================================================================
+
+export type SqlValue = string | number | null;
+
+export interface LocalMailStatement {
+  run(...params: SqlValue[]): { lastInsertRowid: number | bigint; changes: number };
+  get(...params: SqlValue[]): unknown;
+  all(...params: SqlValue[]): unknown[];
+}
+
+/** The slice of a SQLite binding this module needs (bun:sqlite's Database fits) */
+export interface LocalMailDatabase {
+  exec(sql: string): void;
+  prepare(sql: string): LocalMailStatement;
+}
+
+// ============================================================================
+// Record Types
+// ============================================================================
+
+export type LocalMailImportance = "low" | "normal" | "high" | "urgent";
+
+export interface LocalMailProject {
+  id: number;
+  slug: string;
+  human_key: string;
+  created_at: string;
+}
+
+export interface LocalMailAgent {
+  id: number;
+  name: string;
+  program: string;
+  model: string;
+  task_description: string;
+  inception_ts: string;
+  last_active_ts: string;
+  project_id: number;
+}
+
+export interface LocalMailMessage {
+  id: number;
+  project_id: number;
+  sender_id: number;
+  reply_to?: number;
+  thread_id: string | null;
+  subject: string;
+  body_md: string;
+  importance: LocalMailImportance;
+  ack_required: boolean;
+  created_ts: string;
+  from: string;
+  to: string[];
+  cc: string[];
+  bcc: string[];
+  /** How the reading agent received it (inbox views only) */
+  kind?: "to" | "cc" | "bcc";
+}
+
+interface JsonRpcRequest {
+  jsonrpc: "2.0";
+  id?: string | number | null;
+  method: string;
+  params?: Record<string, unknown>;
+}
+
+export interface LocalMailJsonRpcResponse {
+  jsonrpc: "2.0";
+  id: string | number | null;
+  result?: unknown;
+  error?: { code: number; message: string };
+}
+
+interface ToolResult {
+  content: Array<{ type: "text"; text: string }>;
+  structuredContent?: unknown;
+  isError?: boolean;
+}
+
+interface MessageRow {
+  id: number;
+  project_id: number;
+  sender_id: number;
+  sender_name: string;
+  reply_to: number | null;
+  thread_id: string | null;
+  subject: string;
+  body_md: string;
+  importance: LocalMailImportance;
+  ack_required: number;
+  created_ts: string;
+}
+
+interface DeliveryRow {
+  message_id: number;
+  agent_id: number;
+  agent_name: string;
+  kind: "to" | "cc" | "bcc";
+  read_ts: string | null;
+  ack_ts: string | null;
+}
+
+// ============================================================================
+// Schema
+// ============================================================================
+
+const SCHEMA = `
+PRAGMA foreign_keys = ON;
+
+CREATE TABLE IF NOT EXISTS projects (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  slug TEXT NOT NULL UNIQUE,
+  human_key TEXT NOT NULL UNIQUE,
+  created_at TEXT NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS agents (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  project_id INTEGER NOT NULL REFERENCES projects(id),
+  name TEXT NOT NULL,
+  program TEXT NOT NULL,
+  model TEXT NOT NULL,
+  task_description TEXT NOT NULL DEFAULT '',
+  inception_ts TEXT NOT NULL,
+  last_active_ts TEXT NOT NULL,
+  UNIQUE (project_id, name)
+);
+
+CREATE TABLE IF NOT EXISTS messages (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  project_id INTEGER NOT NULL REFERENCES projects(id),
+  sender_id INTEGER NOT NULL REFERENCES agents(id),
+  reply_to INTEGER REFERENCES messages(id),
+  thread_id TEXT,
+  subject TEXT NOT NULL,
+  body_md TEXT NOT NULL,
+  importance TEXT NOT NULL DEFAULT 'normal',
+  ack_required INTEGER NOT NULL DEFAULT 0,
+  created_ts TEXT NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS deliveries (
+  message_id INTEGER NOT NULL REFERENCES messages(id),
+  agent_id INTEGER NOT NULL REFERENCES agents(id),
+  kind TEXT NOT NULL,
+  read_ts TEXT,
+  ack_ts TEXT,
+  PRIMARY KEY (message_id, agent_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_messages_thread ON messages (project_id, thread_id);
+CREATE INDEX IF NOT EXISTS idx_deliveries_agent ON deliveries (agent_id, message_id);
+`;
+
+const IMPORTANCE_LEVELS: readonly LocalMailImportance[] = ["low", "normal", "high", "urgent"];
+
+const TOOL_DEFINITIONS = [
+  { name: "health_check", description: "Report server status" },
+  { name: "ensure_project", description: "Ensure a project exists for an absolute path" },
+  { name: "register_agent", description: "Register or update an agent identity" },
+  { name: "whois", description: "Look up an agent profile" },
+  { name: "send_message", description: "Send a message to agents" },
+  { name: "reply_message", description: "Reply to a message within its thread" },
+  { name: "fetch_inbox", description: "Fetch inbox messages" },
+  { name: "mark_message_read", description: "Mark a message as read" },
+  { name: "acknowledge_message", description: "Acknowledge a message" },
+  { name: "search_messages", description: "Search message subjects and bodies" },
+  { name: "summarize_thread", description: "Summarize participants and open acknowledgements in a thread" },
+] as const;
+
+const NAME_ADJECTIVES = ["Blue", "Green", "Red", "Purple", "Orange", "Silver", "Golden", "Crimson", "Amber", "Teal"];
+const NAME_NOUNS = ["Lake", "Mountain", "Forest", "River", "Castle", "Valley", "Meadow", "Storm", "Pond", "Ridge"];
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/** Bad tool arguments or missing records; reported to the caller as `isError` */
+export class LocalMailToolError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "LocalMailToolError";
+  }
+}
+
+function slugifyProjectKey(humanKey: string): string {
+  return humanKey.replace(/[^a-z0-9]+/gi, "-").replace(/^-+|-+$/g, "").toLowerCase() || "project";
+}
+
+function requireString(args: Record<string, unknown>, key: string): string {
+  const value = args[key];
+  if (typeof value !== "string" || !value.trim()) throw new LocalMailToolError(`${key} is required`);
+  return value.trim();
+}
+
+function optionalString(args: Record<string, unknown>, key: string): string | undefined {
+  const value = args[key];
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== "string") throw new LocalMailToolError(`${key} must be a string`);
+  return value.trim() || undefined;
+}
+
+function stringList(args: Record<string, unknown>, key: string): string[] {
+  const value = args[key];
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value) || value.some((item) => typeof item !== "string")) {
+    throw new LocalMailToolError(`${key} must be an array of agent names`);
+  }
+  return Array.from(new Set((value as string[]).map((name) => name.trim()).filter(Boolean)));
+}
+
+function positiveInt(args: Record<string, unknown>, key: string, fallback?: number): number {
+  const value = args[key] ?? fallback;
+  if (typeof value !== "number" || !Number.isInteger(value) || value <= 0) {
+    throw new LocalMailToolError(`${key} must be a positive integer`);
+  }
+  return value;
+}
+
+function toolResult(structured: unknown): ToolResult {
+  const structuredContent = Array.isArray(structured) ? { result: structured } : structured;
+  return { content: [{ type: "text", text: JSON.stringify(structured) }], structuredContent };
+}
+
+function parseResourceUri(uri: string): { path: string; query: URLSearchParams } {
+  if (!uri.startsWith("resource://")) throw new LocalMailToolError(`Unknown resource: ${uri}`);
+  const rest = uri.slice("resource://".length);
+  const queryAt = rest.indexOf("?");
+  const path = decodeURIComponent(queryAt === -1 ? rest : rest.slice(0, queryAt));
+  return { path, query: new URLSearchParams(queryAt === -1 ? "" : rest.slice(queryAt + 1)) };
+}
+
+// ============================================================================
+// Server
+// ============================================================================
+
+export class LocalAgentMailServer {
+  private readonly db: LocalMailDatabase;
+  private readonly now: () => Date;
+
+  constructor(db: LocalMailDatabase, options: { now?: () => Date } = {}) {
+    this.db = db;
+    this.now = options.now ?? (() => new Date());
+    this.db.exec(SCHEMA);
+  }
+
+  /**
+   * Handle one JSON-RPC request. Returns null for notifications.
+   */
+  async handleJsonRpc(message: unknown): Promise<LocalMailJsonRpcResponse | null> {
+    if (!message || typeof message !== "object" || typeof (message as JsonRpcRequest).method !== "string") {
+      return { jsonrpc: "2.0", id: null, error: { code: -32600, message: "Invalid request" } };
+    }
+    const { id, method } = message as JsonRpcRequest;
+    const params = (message as JsonRpcRequest).params ?? {};
+    if (id === undefined) return null;
+
+    try {
+      let result: unknown;
+      if (method === "initialize") {
+        result = {
+          protocolVersion: typeof params.protocolVersion === "string" ? params.protocolVersion : "2025-06-18",
+          capabilities: { tools: {}, resources: {} },
+          serverInfo: { name: "brenner-agent-mail-local", version: "0.1.0" },
+        };
+      } else if (method === "ping") {
+        result = {};
+      } else if (method === "tools/list") {
+        result = { tools: TOOL_DEFINITIONS };
+      } else if (method === "tools/call") {
+        const name = params.name;
+        if (typeof name !== "string") throw new LocalMailToolError("Missing tool name");
+        const args = (params.arguments && typeof params.arguments === "object" ? params.arguments : {}) as Record<
+          string,
+          unknown
+        >;
+        result = this.callTool(name, args);
+      } else if (method === "resources/read") {
+        const uri = params.uri;
+        if (typeof uri !== "string") throw new LocalMailToolError("Missing uri");
+        result = { contents: [{ uri, mimeType: "application/json", text: JSON.stringify(this.readResource(uri)) }] };
+      } else {
+        return { jsonrpc: "2.0", id, error: { code: -32601, message: `Method not found: ${method}` } };
+      }
+      return { jsonrpc: "2.0", id, result };
+    } catch (err) {
+      const code = err instanceof LocalMailToolError ? -32602 : -32603;
+      return { jsonrpc: "2.0", id, error: { code, message: err instanceof Error ? err.message : "Internal error" } };
+    }
+  }
+
+  callTool(name: string, args: Record<string, unknown>): ToolResult {
+    try {
+      switch (name) {
+        case "health_check":
+          return toolResult({ status: "ok", backend: "sqlite", timestamp: this.timestamp() });
+        case "ensure_project":
+          return toolResult(this.ensureProject(requireString(args, "human_key")));
+        case "register_agent":
+          return toolResult(this.registerAgent(args));
+        case "whois":
+          return toolResult(this.whois(args));
+        case "send_message":
+          return toolResult(this.sendMessage(args));
+        case "reply_message":
+          return toolResult(this.replyMessage(args));
+        case "fetch_inbox":
+          return toolResult(this.fetchInbox(args));
+        case "mark_message_read":
+          return toolResult(this.markRead(args, false));
+        case "acknowledge_message":
+          return toolResult(this.markRead(args, true));
+        case "search_messages":
+          return toolResult(this.searchMessages(args));
+        case "summarize_thread":
+          return toolResult(this.summarizeThread(args));
+        default:
+          return { content: [{ type: "text", text: `Unknown tool: ${name}` }], isError: true };
+      }
+    } catch (err) {
+      return { content: [{ type: "text", text: err instanceof Error ? err.message : String(err) }], isError: true };
+    }
+  }
+
+  readResource(uri: string): unknown {
+    const { path, query } = parseResourceUri(uri);
+    const projectKey = query.get("project") ?? "";
+    const includeBodies = query.get("include_bodies") === "true";
+
+    if (path.startsWith("inbox/")) {
+      const agentName = path.slice("inbox/".length);
+      const messages = this.fetchInbox({
+        project_key: projectKey,
+        agent_name: agentName,
+        limit: Number.parseInt(query.get("limit") ?? "20", 10) || 20,
+        urgent_only: query.get("urgent_only") === "true",
+        include_bodies: includeBodies,
+        since_ts: query.get("since_ts") ?? undefined,
+      });
+      return { project: projectKey, agent: agentName, count: messages.length, messages };
+    }
+
+    if (path.startsWith("thread/")) {
+      const threadId = path.slice("thread/".length);
+      const project = this.findProject(projectKey);
+      const messages = project ? this.threadMessages(project.id, threadId, includeBodies) : [];
+      return { project: projectKey, thread_id: threadId, messages };
+    }
+
+    if (path.startsWith("agents/")) {
+      const project = this.findProject(path.slice("agents/".length));
+      if (!project) return { project: { slug: path.slice("agents/".length), human_key: null }, agents: [] };
+      const agents = this.db
+        .prepare(
+          `SELECT a.name AS name,
+                  (SELECT COUNT(*) FROM deliveries d WHERE d.agent_id = a.id AND d.read_ts IS NULL) AS unread_count
+             FROM agents a WHERE a.project_id = ? ORDER BY a.name`
+        )
+        .all(project.id);
+      return { project: { slug: project.slug, human_key: project.human_key }, agents };
+    }
+
+    throw new LocalMailToolError(`Unknown resource: ${uri}`);
+  }
+
+  // --------------------------------------------------------------------------
+  // Projects & agents
+  // --------------------------------------------------------------------------
+
+  private timestamp(): string {
+    return this.now().toISOString();
+  }
+
+  /** Look a project up by human key (absolute path) or slug */
+  private findProject(key: string): LocalMailProject | null {
+    if (!key) return null;
+    const row = this.db.prepare("SELECT * FROM projects WHERE human_key = ? OR slug = ?").get(key, key);
+    return (row as LocalMailProject | null | undefined) ?? null;
+  }
+
+  private requireProject(key: string): LocalMailProject {
+    const project = this.findProject(key);
+    if (!project) throw new LocalMailToolError(`Project not found: ${key} (call ensure_project first)`);
+    return project;
+  }
+
+  ensureProject(humanKey: string): LocalMailProject {
+    const existing = this.findProject(humanKey);
+    if (existing) return existing;
+
+    let slug = slugifyProjectKey(humanKey);
+    if (this.db.prepare("SELECT 1 FROM projects WHERE slug = ?").get(slug)) {
+      const count = (this.db.prepare("SELECT COUNT(*) AS n FROM projects").get() as { n: number }).n;
+      slug = `${slug}-${count + 1}`;
+    }
+    this.db
+      .prepare("INSERT INTO projects (slug, human_key, created_at) VALUES (?, ?, ?)")
+      .run(slug, humanKey, this.timestamp());
+    return this.requireProject(humanKey);
+  }
+
+  private findAgent(projectId: number, name: string): LocalMailAgent | null {
+    const row = this.db.prepare("SELECT * FROM agents WHERE project_id = ? AND name = ?").get(projectId, name);
+    return (row as LocalMailAgent | null | undefined) ?? null;
+  }
+
+  private requireAgent(projectId: number, name: string): LocalMailAgent {
+    const agent = this.findAgent(projectId, name);
+    if (!agent) throw new LocalMailToolError(`Agent not found: ${name}`);
+    return agent;
+  }
+
+  private generateAgentName(projectId: number): string {
+    for (const adjective of NAME_ADJECTIVES) {
+      for (const noun of NAME_NOUNS) {
+        const candidate = `${adjective}${noun}`;
+        if (!this.findAgent(projectId, candidate)) return candidate;
+      }
+    }
+    throw new LocalMailToolError("No free agent names left; pass name explicitly");
+  }
+
+  private registerAgent(args: Record<string, unknown>): LocalMailAgent {
+    const projectKey = requireString(args, "project_key");
+    const program = requireString(args, "program");
+    const model = requireString(args, "model");
+    const project = this.findProject(projectKey) ?? this.ensureProject(projectKey);
+    const name = optionalString(args, "name") ?? this.generateAgentName(project.id);
+    if (!/^[A-Za-z0-9_-]+$/.test(name)) {
+      throw new LocalMailToolError(`Invalid agent name "${name}" (letters, digits, "-" and "_" only)`);
+    }
+    const taskDescription = optionalString(args, "task_description") ?? "";
+    const now = this.timestamp();
+
+    if (this.findAgent(project.id, name)) {
+      this.db
+        .prepare(
+          "UPDATE agents SET program = ?, model = ?, task_description = ?, last_active_ts = ? WHERE project_id = ? AND name = ?"
+        )
+        .run(program, model, taskDescription, now, project.id, name);
+    } else {
+      this.db
+        .prepare(
+          `INSERT INTO agents (project_id, name, program, model, task_description, inception_ts, last_active_ts)
+           VALUES (?, ?, ?, ?, ?, ?, ?)`
+        )
+        .run(project.id, name, program, model, taskDescription, now, now);
+    }
+    return this.requireAgent(project.id, name);
+  }
+
+  private whois(args: Record<string, unknown>): LocalMailAgent & { project: string } {
+    const project = this.requireProject(requireString(args, "project_key"));
+    return { ...this.requireAgent(project.id, requireString(args, "agent_name")), project: project.human_key };
+  }
+
+  /**
+   * Recipients that never registered (e.g. panes that haven't started yet)
+   * get a placeholder identity so mail waits for them.
+   */
+  private recipientAgent(projectId: number, name: string): LocalMailAgent {
+    const existing = this.findAgent(projectId, name);
+    if (existing) return existing;
+    const now = this.timestamp();
+    this.db
+      .prepare(
+        `INSERT INTO agents (project_id, name, program, model, task_description, inception_ts, last_active_ts)
+         VALUES (?, ?, 'unregistered', 'unknown', '', ?, ?)`
+      )
+      .run(projectId, name, now, now);
+    return this.requireAgent(projectId, name);
+  }
+
+  // --------------------------------------------------------------------------
+  // Messages
+  // --------------------------------------------------------------------------
+
+  private insertMessage(input: {
+    project: LocalMailProject;
+    sender: LocalMailAgent;
+    to: string[];
+    cc: string[];
+    bcc: string[];
+    subject: string;
+    bodyMd: string;
+    threadId: string | null;
+    replyTo: number | null;
+    importance: LocalMailImportance;
+    ackRequired: boolean;
+  }): { deliveries: Array<{ project: string; payload: LocalMailMessage }>; count: number } {
+    const createdTs = this.timestamp();
+    const recipients = [
+      ...input.to.map((name) => ({ name, kind: "to" as const })),
+      ...input.cc.map((name) => ({ name, kind: "cc" as const })),
+      ...input.bcc.map((name) => ({ name, kind: "bcc" as const })),
+    ];
+
+    this.db.exec("BEGIN IMMEDIATE");
+    let messageId: number;
+    try {
+      const inserted = this.db
+        .prepare(
+          `INSERT INTO messages (project_id, sender_id, reply_to, thread_id, subject, body_md, importance, ack_required, created_ts)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
+        )
+        .run(
+          input.project.id,
+          input.sender.id,
+          input.replyTo,
+          input.threadId,
+          input.subject,
+          input.bodyMd,
+          input.importance,
+          input.ackRequired ? 1 : 0,
+          createdTs
+        );
+      messageId = Number(inserted.lastInsertRowid);
+
+      const deliver = this.db.prepare("INSERT OR IGNORE INTO deliveries (message_id, agent_id, kind) VALUES (?, ?, ?)");
+      for (const { name, kind } of recipients) {
+        deliver.run(messageId, this.recipientAgent(input.project.id, name).id, kind);
+      }
+      this.db
+        .prepare("UPDATE agents SET last_active_ts = ? WHERE id = ?")
+        .run(createdTs, input.sender.id);
+      this.db.exec("COMMIT");
+    } catch (err) {
+      this.db.exec("ROLLBACK");
+      throw err;
+    }
+
+    const payload = this.loadMessages("m.id = ?", [messageId], true, true)[0];
+    return { deliveries: [{ project: input.project.human_key, payload }], count: 1 };
+  }
+
+  private sendMessage(args: Record<string, unknown>) {
+    const project = this.requireProject(requireString(args, "project_key"));
+    const sender = this.requireAgent(project.id, requireString(args, "sender_name"));
+    const to = stringList(args, "to");
+    const cc = stringList(args, "cc");
+    const bcc = stringList(args, "bcc");
+    const importance = optionalString(args, "importance") ?? "normal";
+    if (!IMPORTANCE_LEVELS.includes(importance as LocalMailImportance)) {
+      throw new LocalMailToolError(`importance must be one of ${IMPORTANCE_LEVELS.join(", ")}`);
+    }
+
+    return this.insertMessage({
+      project,
+      sender,
+      to,
+      cc,
+      bcc,
+      subject: requireString(args, "subject"),
+      bodyMd: requireString(args, "body_md"),
+      threadId: optionalString(args, "thread_id") ?? null,
+      replyTo: null,
+      importance: importance as LocalMailImportance,
+      ackRequired: args.ack_required === true,
+    });
+  }
+
+  private replyMessage(args: Record<string, unknown>) {
+    const project = this.requireProject(requireString(args, "project_key"));
+    const sender = this.requireAgent(project.id, requireString(args, "sender_name"));
+    const originalId = positiveInt(args, "message_id");
+    const original = this.loadMessages("m.id = ? AND m.project_id = ?", [originalId, project.id], true, true)[0];
+    if (!original) throw new LocalMailToolError(`Message not found: ${originalId}`);
+
+    const to = stringList(args, "to");
+    return this.insertMessage({
+      project,
+      sender,
+      to: to.length > 0 ? to : [original.from],
+      cc: stringList(args, "cc"),
+      bcc: stringList(args, "bcc"),
+      subject: /^re:/i.test(original.subject) ? original.subject : `Re: ${original.subject}`,
+      bodyMd: requireString(args, "body_md"),
+      threadId: original.thread_id ?? String(original.id),
+      replyTo: original.id,
+      importance: original.importance,
+      ackRequired: original.ack_required,
+    });
+  }
+
+  /**
+   * Load messages with their recipient lists. `bcc` is only filled in when
+   * `includeBcc` is set (the sender's own view).
+   */
+  private loadMessages(where: string, params: SqlValue[], includeBodies: boolean, includeBcc = false): LocalMailMessage[] {
+    const rows = this.db
+      .prepare(
+        `SELECT m.*, a.name AS sender_name FROM messages m JOIN agents a ON a.id = m.sender_id
+          WHERE ${where} ORDER BY m.id`
+      )
+      .all(...params) as MessageRow[];
+    if (rows.length === 0) return [];
+
+    const deliveryStatement = this.db.prepare(
+      `SELECT d.*, a.name AS agent_name FROM deliveries d JOIN agents a ON a.id = d.agent_id
+        WHERE d.message_id = ? ORDER BY a.name`
+    );
+    return rows.map((row) => {
+      const deliveries = deliveryStatement.all(row.id) as DeliveryRow[];
+      const namesOf = (kind: DeliveryRow["kind"]) => deliveries.filter((d) => d.kind === kind).map((d) => d.agent_name);
+      const message: LocalMailMessage = {
+        id: row.id,
+        project_id: row.project_id,
+        sender_id: row.sender_id,
+        thread_id: row.thread_id,
+        subject: row.subject,
+        body_md: includeBodies ? row.body_md : "",
+        importance: row.importance,
+        ack_required: row.ack_required === 1,
+        created_ts: row.created_ts,
+        from: row.sender_name,
+        to: namesOf("to"),
+        cc: namesOf("cc"),
+        bcc: includeBcc ? namesOf("bcc") : [],
+      };
+      if (row.reply_to !== null) message.reply_to = row.reply_to;
+      return message;
+    });
+  }
+
+  private threadMessages(projectId: number, threadId: string, includeBodies: boolean): LocalMailMessage[] {
+    // Replies to a message without a thread_id are threaded under its id
+    return this.loadMessages("m.project_id = ? AND (m.thread_id = ? OR CAST(m.id AS TEXT) = ?)", [projectId, threadId, threadId], includeBodies);
+  }
+
+  private fetchInbox(args: Record<string, unknown>): LocalMailMessage[] {
+    const projectKey = requireString(args, "project_key");
+    const agentName = requireString(args, "agent_name");
+    const limit = positiveInt(args, "limit", 20);
+    const project = this.findProject(projectKey);
+    if (!project) return [];
+    const agent = this.findAgent(project.id, agentName);
+    if (!agent) return [];
+
+    const conditions = ["m.project_id = ?", "m.id IN (SELECT message_id FROM deliveries WHERE agent_id = ?)"];
+    const params: SqlValue[] = [project.id, agent.id];
+    if (args.urgent_only === true) conditions.push("m.importance IN ('high', 'urgent')");
+    const sinceTs = optionalString(args, "since_ts");
+    if (sinceTs) {
+      conditions.push("m.created_ts > ?");
+      params.push(sinceTs);
+    }
+
+    const messages = this.loadMessages(conditions.join(" AND "), params, args.include_bodies === true);
+    const kindOf = this.db.prepare("SELECT kind FROM deliveries WHERE message_id = ? AND agent_id = ?");
+    return messages
+      .slice(-limit)
+      .reverse()
+      .map((message) => ({ ...message, kind: (kindOf.get(message.id, agent.id) as { kind: LocalMailMessage["kind"] }).kind }));
+  }
+
+  private markRead(args: Record<string, unknown>, acknowledge: boolean) {
+    const project = this.requireProject(requireString(args, "project_key"));
+    const agentName = requireString(args, "agent_name");
+    const agent = this.requireAgent(project.id, agentName);
+    const messageId = positiveInt(args, "message_id");
+
+    const now = this.timestamp();
+    const updated = this.db
+      .prepare(
+        `UPDATE deliveries SET read_ts = COALESCE(read_ts, ?)${acknowledge ? ", ack_ts = COALESCE(ack_ts, ?)" : ""}
+          WHERE message_id = ? AND agent_id = ?`
+      )
+      .run(...(acknowledge ? [now, now] : [now]), messageId, agent.id);
+    if (updated.changes === 0) throw new LocalMailToolError(`Delivery not found for message ${messageId} to ${agentName}`);
+
+    const delivery = this.db
+      .prepare("SELECT read_ts, ack_ts FROM deliveries WHERE message_id = ? AND agent_id = ?")
+      .get(messageId, agent.id) as { read_ts: string; ack_ts: string | null };
+    return acknowledge
+      ? { message_id: messageId, acknowledged: true, acknowledged_at: delivery.ack_ts, read_at: delivery.read_ts }
+      : { message_id: messageId, read: true, read_at: delivery.read_ts };
+  }
+
+  private searchMessages(args: Record<string, unknown>): LocalMailMessage[] {
+    const project = this.requireProject(requireString(args, "project_key"));
+    const terms = requireString(args, "query").split(/\s+/).filter(Boolean);
+    const limit = positiveInt(args, "limit", 20);
+
+    const conditions = ["m.project_id = ?"];
+    const params: SqlValue[] = [project.id];
+    for (const term of terms) {
+      const pattern = `%${term.replace(/[\\%_]/g, (c) => `\\${c}`)}%`;
+      conditions.push("(m.subject LIKE ? ESCAPE '\\' OR m.body_md LIKE ? ESCAPE '\\')");
+      params.push(pattern, pattern);
+    }
+    return this.loadMessages(conditions.join(" AND "), params, true).slice(-limit).reverse();
+  }
+
+  /**
+   * Deterministic thread summary: who took part, what was said (subjects)
+   * and which acknowledgements are still outstanding.
+   */
+  private summarizeThread(args: Record<string, unknown>) {
+    const project = this.requireProject(requireString(args, "project_key"));
+    const threadId = requireString(args, "thread_id");
+    const messages = this.threadMessages(project.id, threadId, true);
+
+    const participants = Array.from(new Set(messages.flatMap((m) => [m.from, ...m.to, ...m.cc]))).sort();
+    const keyPoints = Array.from(new Set(messages.map((m) => m.subject)));
+    const pendingAcks = this.db.prepare(
+      "SELECT a.name AS name FROM deliveries d JOIN agents a ON a.id = d.agent_id WHERE d.message_id = ? AND d.ack_ts IS NULL ORDER BY a.name"
+    );
+    const actionItems = messages
+      .filter((m) => m.ack_required)
+      .flatMap((m) =>
+        (pendingAcks.all(m.id) as Array<{ name: string }>).map((r) => `${r.name}: acknowledge #${m.id} "${m.subject}"`)
+      );
+
+    return {
+      thread_id: threadId,
+      summary: { participants, key_points: keyPoints, action_items: actionItems },
+      ...(args.include_examples === true ? { examples: messages.slice(0, 3) } : {}),
+    };
+  }
+}
+
+// ============================================================================
+// HTTP
+// ============================================================================
+
+/**
+ * Whether a bind address only accepts connections from this machine.
+ * Anything else needs a bearer token: mail bodies are research in progress.
+ */
+export function isLoopbackHost(hostname: string): boolean {
+  const host = hostname.trim().toLowerCase().replace(/^\[|\]$/g, "");
+  return host === "localhost" || host === "::1" || /^127(\.\d{1,3}){3}$/.test(host);
+}
+
+/** Hostname the client addressed (the Host header), or null if it is malformed */
+function requestHostname(request: Request): string | null {
+  const host = request.headers.get("host") ?? new URL(request.url).host;
+  try {
+    return new URL(`http://${host}`).hostname;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Serve the local Agent Mail server over HTTP the way the real one is
+ * reached: JSON-RPC POSTs to the MCP path, plus `/health/readiness`.
+ *
+ * No CORS headers: the web app calls Agent Mail from its server routes,
+ * never from the browser. Without a token, requests must also name a
+ * loopback Host (so a DNS-rebinding page cannot reach the server) and POST
+ * `application/json` (which a cross-site form or `text/plain` fetch cannot
+ * send without a preflight).
+ */
+export async function handleLocalAgentMailRequest(
+  request: Request,
+  server: LocalAgentMailServer,
+  options: { path: string; bearerToken?: string }
+): Promise<Response> {
+  const url = new URL(request.url);
+
+  if (options.bearerToken) {
+    const provided = request.headers.get("authorization")?.replace(/^Bearer\s+/i, "");
+    if (provided !== options.bearerToken) return Response.json({ detail: "Unauthorized" }, { status: 401 });
+  } else if (!isLoopbackHost(requestHostname(request) ?? "")) {
+    return Response.json({ detail: "Forbidden host" }, { status: 403 });
+  }
+
+  if (request.method === "GET" && url.pathname === "/health/readiness") {
+    return Response.json({ status: "ready", backend: "sqlite" });
+  }
+
+  const withSlash = (p: string) => (p.endsWith("/") ? p : `${p}/`);
+  if (withSlash(url.pathname) !== withSlash(options.path)) {
+    return Response.json({ detail: "Not found" }, { status: 404 });
+  }
+  if (request.method !== "POST") return Response.json({ detail: "Method not allowed" }, { status: 405 });
+  const contentType = request.headers.get("content-type")?.split(";")[0].trim().toLowerCase();
+  if (contentType !== "application/json") {
+    return Response.json({ detail: "Content-Type must be application/json" }, { status: 415 });
+  }
+
+  let message: unknown;
+  try {
+    message = await request.json();
+  } catch (e) {
+    const error = { code: -32700, message: `Parse error: ${e instanceof Error ? e.message : String(e)}` };
+    return Response.json({ jsonrpc: "2.0", id: null, error }, { status: 400 });
+  }
+
+  const response = await server.handleJsonRpc(message);
+  return response ? Response.json(response) : new Response(null, { status: 202 });
+}
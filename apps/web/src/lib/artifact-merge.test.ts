@@ -8,6 +8,8 @@
 
 import { describe, expect, test } from "vitest";
 import {
+  conflictResolutionsFromInterventions,
+  conflictResolutionTarget,
   createEmptyArtifact,
   createInterventionMetadata,
   extractReferences,
@@ -947,6 +949,161 @@ describe("mergeArtifactWithTimestamps metadata", () => {
   });
 });
 
+// ============================================================================
+// Tests: concurrent EDIT conflicts
+// ============================================================================
+
+describe("mergeArtifactWithTimestamps edit conflicts", () => {
+  function inRound<T extends object>(delta: T, round: number): T & { round: number } {
+    return { ...delta, round };
+  }
+
+  const addH1 = inRound(
+    makeTimestampedDelta(
+      "ADD",
+      "hypothesis_slate",
+      null,
+      { name: "H1", claim: "Original", mechanism: "M", anchors: ["§1"] },
+      "2025-01-01T00:00:00Z",
+      "Agent0",
+    ),
+    0,
+  );
+
+  function editH1(payload: Record<string, unknown>, minute: number, agent: string, round = 1) {
+    return inRound(
+      makeTimestampedDelta("EDIT", "hypothesis_slate", "H1", payload, `2025-01-01T00:${String(minute).padStart(2, "0")}:00Z`, agent),
+      round,
+    );
+  }
+
+  test("flags diverging same-field edits in one round and keeps both values", () => {
+    const result = mergeArtifactWithTimestamps(createEmptyArtifact("TEST-001"), [
+      addH1,
+      editH1({ claim: "Claim from Agent1" }, 10, "Agent1"),
+      editH1({ claim: "Claim from Agent2" }, 20, "Agent2"),
+    ]);
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+
+    expect(result.artifact.sections.hypothesis_slate[0].claim).toBe("Claim from Agent2");
+    const conflicts = result.warnings.filter((w) => w.code === "EDIT_CONFLICT");
+    expect(conflicts).toHaveLength(1);
+    expect(conflicts[0].conflict).toMatchObject({
+      round: 1,
+      section: "hypothesis_slate",
+      target_id: "H1",
+      field: "claim",
+      base: "Original",
+      applied: "Claim from Agent2",
+      edits: [
+        { agent: "Agent1", value: "Claim from Agent1" },
+        { agent: "Agent2", value: "Claim from Agent2" },
+      ],
+    });
+    expect(conflicts[0].message).toContain("H1.claim in round 1");
+  });
+
+  test("does not flag agreeing edits, repeat edits, different rounds, or union-merged arrays", () => {
+    const result = mergeArtifactWithTimestamps(createEmptyArtifact("TEST-001"), [
+      addH1,
+      editH1({ claim: "Same", anchors: ["§2"] }, 10, "Agent1"),
+      editH1({ claim: "Same", anchors: ["§3"] }, 20, "Agent2"),
+      editH1({ mechanism: "First draft" }, 30, "Agent1"),
+      editH1({ mechanism: "Second draft" }, 40, "Agent1"),
+      editH1({ mechanism: "Next round" }, 50, "Agent2", 2),
+    ]);
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+
+    expect(result.warnings.filter((w) => w.code === "EDIT_CONFLICT")).toEqual([]);
+    expect(result.artifact.sections.hypothesis_slate[0].mechanism).toBe("Next round");
+    expect(result.artifact.sections.hypothesis_slate[0].anchors).toEqual(["§1", "§2", "§3"]);
+  });
+
+  test("keeps a change when another agent writes back the base value", () => {
+    const result = mergeArtifactWithTimestamps(createEmptyArtifact("TEST-001"), [
+      addH1,
+      editH1({ claim: "Sharper claim" }, 10, "Agent1"),
+      editH1({ claim: "Original", mechanism: "Refined" }, 20, "Agent2"),
+    ]);
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+
+    expect(result.artifact.sections.hypothesis_slate[0]).toMatchObject({ claim: "Sharper claim", mechanism: "Refined" });
+    expect(result.warnings.filter((w) => w.code === "EDIT_CONFLICT")).toEqual([]);
+  });
+
+  test("applies operator resolutions when the round closes", () => {
+    const deltas = [
+      addH1,
+      editH1({ claim: "Claim from Agent1" }, 10, "Agent1"),
+      editH1({ claim: "Claim from Agent2" }, 20, "Agent2"),
+      editH1({ mechanism: "Later round" }, 30, "Agent2", 2),
+    ];
+    const resolutions = conflictResolutionsFromInterventions([
+      {
+        id: "INT-TEST-001-001",
+        session_id: "TEST-001",
+        timestamp: "2025-01-01T01:00:00Z",
+        operator_id: "human",
+        type: "conflict_resolution",
+        severity: "moderate",
+        target: conflictResolutionTarget({ round: 1, section: "hypothesis_slate", target_id: "H1", field: "claim" }),
+        state_change: { after: JSON.stringify("Claim from Agent1") },
+        rationale: "Agent1's claim matches the transcript anchors.",
+        reversible: true,
+        tags: [],
+      },
+    ]);
+
+    expect(resolutions).toEqual([
+      {
+        round: 1,
+        section: "hypothesis_slate",
+        target_id: "H1",
+        field: "claim",
+        value: "Claim from Agent1",
+        intervention_id: "INT-TEST-001-001",
+      },
+    ]);
+
+    const result = mergeArtifactWithTimestamps(createEmptyArtifact("TEST-001"), deltas, { resolutions });
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+
+    expect(result.artifact.sections.hypothesis_slate[0]).toMatchObject({ claim: "Claim from Agent1", mechanism: "Later round" });
+    const conflict = result.warnings.find((w) => w.code === "EDIT_CONFLICT")?.conflict;
+    expect(conflict?.applied).toBe("Claim from Agent1");
+    expect(conflict?.resolution).toEqual({ value: "Claim from Agent1", intervention_id: "INT-TEST-001-001" });
+  });
+
+  test("ignores reversed resolutions", () => {
+    const resolutions = conflictResolutionsFromInterventions([
+      {
+        id: "INT-TEST-001-001",
+        session_id: "TEST-001",
+        timestamp: "2025-01-01T01:00:00Z",
+        operator_id: "human",
+        type: "conflict_resolution",
+        severity: "moderate",
+        target: conflictResolutionTarget({ round: 1, section: "hypothesis_slate", target_id: "H1", field: "claim" }),
+        state_change: { after: JSON.stringify("Claim from Agent1") },
+        rationale: "Agent1's claim matches the transcript anchors.",
+        reversible: true,
+        reversed_at: "2025-01-01T02:00:00Z",
+        tags: [],
+      },
+    ]);
+
+    expect(resolutions).toEqual([]);
+  });
+});
+
 // ============================================================================
 // Tests: Test ranking
 // ============================================================================
@@ -1824,9 +1981,74 @@ describe("diffArtifacts", () => {
     expect(diff.changes.hypothesis_slate.killed[0].id).toBe("H2");
     expect(diff.changes.hypothesis_slate.killed[0].rationale).toBe("Removed from artifact");
   });
+
+  test("reports test status moves, falsified assumptions and new contributors", () => {
+    const v1 = createEmptyArtifact("TEST-DIFF");
+    v1.metadata.version = 1;
+    v1.metadata.contributors = [
+      { agent: "BlueLake", contributed_at: "2025-01-01T00:00:00Z" },
+      { agent: "RedFox", contributed_at: "2025-01-01T00:00:00Z" },
+    ];
+    v1.sections.discriminative_tests = [
+      { id: "T1", name: "Graft", procedure: "P", discriminates: "H1", expected_outcomes: {}, potency_check: "PC" },
+    ];
+    v1.sections.assumption_ledger = [{ id: "A1", name: "Linear", statement: "S", load: "L", test: "T" }];
+
+    const v2 = structuredClone(v1);
+    v2.metadata.version = 2;
+    v2.metadata.contributors = [
+      { agent: "BlueLake", contributed_at: "2025-01-01T00:00:00Z" },
+      { agent: "RedFox", contributed_at: "2025-01-02T00:00:00Z" },
+      { agent: "GreenPond", contributed_at: "2025-01-02T00:00:00Z" },
+    ];
+    v2.sections.discriminative_tests[0].status = "passed";
+    v2.sections.assumption_ledger[0].status = "falsified";
+
+    const diff = diffArtifacts(v1, v2);
+
+    expect(diff.contributors.map((c) => c.agent)).toEqual(["RedFox", "GreenPond"]);
+    expect(diff.changes.discriminative_tests.status_changed).toEqual([
+      { id: "T1", name: "Graft", from: "untested", to: "passed" },
+    ]);
+    expect(diff.changes.discriminative_tests.edited).toEqual([]);
+    expect(diff.changes.assumption_ledger.falsified).toEqual([
+      { id: "A1", name: "Linear", from: "unchecked", to: "falsified" },
+    ]);
+    expect(diff.summary.tests_status_changed).toBe(1);
+    expect(diff.summary.assumptions_falsified).toBe(1);
+  });
 });
 
 describe("formatDiffHuman", () => {
+  test("shows field values, status moves and contributors", () => {
+    const v1 = createEmptyArtifact("TEST-VALUES");
+    v1.metadata.version = 1;
+    v1.sections.hypothesis_slate = [{ id: "H1", name: "H1", claim: "Counting", mechanism: "M" }];
+    v1.sections.discriminative_tests = [
+      { id: "T1", name: "Graft", procedure: "P", discriminates: "H1", expected_outcomes: {}, potency_check: "PC", status: "untested" },
+    ];
+    v1.sections.assumption_ledger = [
+      { id: "A1", name: "Linear", statement: "S", load: "L", test: "T", status: "verified" },
+    ];
+
+    const v2 = structuredClone(v1);
+    v2.metadata.version = 2;
+    v2.metadata.contributors = [{ agent: "GreenPond" }];
+    v2.sections.hypothesis_slate[0].claim = "Lineage counting";
+    v2.sections.discriminative_tests[0].status = "failed";
+    v2.sections.assumption_ledger[0].status = "falsified";
+
+    const output = formatDiffHuman(diffArtifacts(v1, v2));
+
+    expect(output).toContain("Contributors: GreenPond");
+    expect(output).toContain('~ [H1] edited: claim changed: "Counting" → "Lineage counting"');
+    expect(output).toContain("↻ [T1] Graft - status: untested → failed");
+    expect(output).toContain("✗ [A1] Linear - FALSIFIED (was verified)");
+    expect(output).not.toContain("CHALLENGED");
+    expect(output).not.toContain("[A1] edited: status");
+    expect(output).toContain("1 test status change, 1 assumption falsified");
+  });
+
   test("formats diff with all change types", () => {
     const v1 = createEmptyArtifact("TEST-FORMAT");
     v1.metadata.version = 1;
@@ -2856,6 +3078,8 @@ describe("createInterventionMetadata", () => {
         decision_override: 0,
         session_control: 1,
         role_reassignment: 0,
+        conflict_resolution: 0,
+        auto_transition: 0,
       },
       has_major_interventions: true,
       operators: ["alice", "bob"],
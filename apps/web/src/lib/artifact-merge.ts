@@ -20,7 +20,11 @@
  */
 
 import { type ValidDelta, type DeltaSection, generateNextId } from "./delta-parser";
-import { type InterventionSummary } from "./schemas/operator-intervention";
+import {
+  type InterventionSummary,
+  type InterventionTarget,
+  type OperatorIntervention,
+} from "./schemas/operator-intervention";
 
 // ============================================================================
 // Types
@@ -243,11 +247,60 @@ export interface MergeError {
   delta_raw?: string;
 }
 
+/** One agent's change to a field within a round */
+export interface ConflictingEdit {
+  agent: string;
+  value: unknown;
+  timestamp: string;
+}
+
+/**
+ * Same-field EDITs by different agents within one round.
+ *
+ * Each edit is compared against the value the field had at the start of the
+ * round (the previous compiled version); only diverging changes conflict.
+ */
+export interface EditConflict {
+  /** Number of COMPILED messages that preceded the conflicting edits */
+  round: number;
+  section: DeltaSection;
+  target_id: string;
+  field: string;
+  /** Value at the start of the round */
+  base: unknown;
+  /** Latest change per agent, oldest first */
+  edits: ConflictingEdit[];
+  /** Value kept in the merged artifact */
+  applied: unknown;
+  /** Operator choice, when a conflict_resolution intervention covers this field */
+  resolution?: { value: unknown; intervention_id?: string };
+}
+
+/** Operator-chosen value for a conflicted field */
+export interface ConflictResolution {
+  round: number;
+  section: DeltaSection;
+  target_id: string;
+  field: string;
+  value: unknown;
+  intervention_id?: string;
+}
+
 /** Merge warning */
 export interface MergeWarning {
   code: string;
   message: string;
   delta_raw?: string;
+  /** Present for EDIT_CONFLICT warnings */
+  conflict?: EditConflict;
+}
+
+/** Options for mergeArtifactWithTimestamps */
+export interface MergeOptions {
+  /** Operator resolutions applied when the conflicted round closes */
+  resolutions?: ConflictResolution[];
+  /** Called for each applied delta with the id of the item it touched (the new id for an ADD) */
+  onApplied?: (delta: ValidDelta & { timestamp: string; agent: string }, itemId: string) => void;
 }
 
 /** Successful merge result */
@@ -275,6 +328,8 @@ export type MergeResult = MergeSuccess | MergeFailure;
 interface TimestampedDelta extends ValidDelta {
   timestamp: string;
   agent: string;
+  /** Compile round; enables conflict detection when present */
+  round?: number;
 }
 
 // ============================================================================
@@ -703,6 +758,227 @@ function applyKill(
   return true;
 }
 
+// ============================================================================
+// Concurrent Edit Conflicts
+// ============================================================================
+
+/** Per-field bookkeeping for the round being merged */
+interface FieldLedgerEntry {
+  section: DeltaSection;
+  target_id: string;
+  field: string;
+  base: unknown;
+  edits: ConflictingEdit[];
+  warning?: MergeWarning;
+}
+
+type FieldLedger = Map<string, FieldLedgerEntry>;
+
+function fieldKey(section: DeltaSection, targetId: string, field: string): string {
+  return `${section}:${targetId}:${field}`;
+}
+
+function cloneValue<T>(value: T): T {
+  return value === undefined ? value : deepClone(value);
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function previewValue(value: unknown): string {
+  const text = value === undefined ? "(unset)" : JSON.stringify(value);
+  return text.length > 80 ? `${text.slice(0, 77)}...` : text;
+}
+
+function getEditTarget(artifact: Artifact, section: DeltaSection, targetId: string): BaseItem | undefined {
+  if (section === "research_thread") return artifact.sections.research_thread ?? undefined;
+  return getItemById(artifact, section, targetId);
+}
+
+/**
+ * Payload fields that take part in conflict detection.
+ * Union-merged arrays never conflict, so they are left out.
+ */
+function trackedEditFields(delta: TimestampedDelta): string[] {
+  if (!isRecord(delta.payload)) return [];
+  const shouldReplace = delta.payload.replace === true;
+
+  return Object.entries(delta.payload)
+    .filter(([key, value]) => {
+      if (key === "replace" || SYSTEM_ITEM_FIELDS.has(key) || isForbiddenPayloadKey(key)) return false;
+      if (shouldReplace) return true;
+      if (delta.section === "research_thread") return key !== "anchors";
+      return !(Array.isArray(value) && (key === "anchors" || key === "conflicts_with" || key === "references"));
+    })
+    .map(([key]) => key);
+}
+
+/** One-line summary of a conflict: every agent's value and the one kept */
+export function formatEditConflict(conflict: EditConflict): string {
+  const edits = conflict.edits.map((edit) => `${edit.agent} → ${previewValue(edit.value)}`).join("; ");
+  const kept = conflict.resolution
+    ? `operator resolution ${previewValue(conflict.resolution.value)}`
+    : `${conflict.edits[conflict.edits.length - 1].agent}'s value (latest)`;
+  return `Conflicting edits to ${conflict.target_id}.${conflict.field} in round ${conflict.round} (base ${previewValue(conflict.base)}): ${edits}; kept ${kept}`;
+}
+
+/**
+ * Drop stale fields from a round's EDIT before it is applied.
+ *
+ * Three-way rule: an agent writing back the round's base value while another
+ * agent has already changed the field did not touch it, so the change stands.
+ */
+function prepareRoundEdit(artifact: Artifact, delta: TimestampedDelta, ledger: FieldLedger): TimestampedDelta {
+  const targetId = delta.section === "research_thread" ? "RT" : delta.target_id;
+  if (!targetId || !isRecord(delta.payload)) return delta;
+
+  const item = getEditTarget(artifact, delta.section, targetId);
+  if (item && isKilled(item)) return delta;
+  const record = item as unknown as Record<string, unknown> | undefined;
+
+  const stale: string[] = [];
+  for (const field of trackedEditFields(delta)) {
+    const key = fieldKey(delta.section, targetId, field);
+    let entry = ledger.get(key);
+    if (!entry) {
+      entry = { section: delta.section, target_id: targetId, field, base: cloneValue(record?.[field]), edits: [] };
+      ledger.set(key, entry);
+    }
+    if (!sameValue(delta.payload[field], entry.base)) continue;
+
+    entry.edits = entry.edits.filter((edit) => edit.agent !== delta.agent);
+    if (entry.edits.length > 0) stale.push(field);
+  }
+
+  if (stale.length === 0) return delta;
+  const payload = { ...delta.payload };
+  for (const field of stale) delete payload[field];
+  return { ...delta, payload };
+}
+
+/** Record an applied round EDIT and raise/refresh EDIT_CONFLICT warnings */
+function recordRoundEdit(delta: TimestampedDelta, round: number, ledger: FieldLedger, warnings: MergeWarning[]): void {
+  const targetId = delta.section === "research_thread" ? "RT" : delta.target_id;
+  if (!targetId || !isRecord(delta.payload)) return;
+
+  for (const field of trackedEditFields(delta)) {
+    const entry = ledger.get(fieldKey(delta.section, targetId, field));
+    const value = delta.payload[field];
+    if (!entry || sameValue(value, entry.base)) continue;
+
+    entry.edits = entry.edits.filter((edit) => edit.agent !== delta.agent);
+    entry.edits.push({ agent: delta.agent, value: cloneValue(value), timestamp: delta.timestamp });
+
+    const distinct = new Set(entry.edits.map((edit) => JSON.stringify(edit.value)));
+    if (distinct.size < 2) continue;
+
+    const conflict: EditConflict = {
+      round,
+      section: entry.section,
+      target_id: entry.target_id,
+      field,
+      base: entry.base,
+      edits: entry.edits.map((edit) => ({ ...edit })),
+      applied: cloneValue(value),
+    };
+    if (entry.warning) {
+      entry.warning.conflict = conflict;
+      entry.warning.message = formatEditConflict(conflict);
+      entry.warning.delta_raw = delta.raw;
+    } else {
+      entry.warning = { code: "EDIT_CONFLICT", message: formatEditConflict(conflict), delta_raw: delta.raw, conflict };
+      warnings.push(entry.warning);
+    }
+  }
+}
+
+/** Apply operator resolutions for the round's conflicts and reset the ledger */
+function closeRound(artifact: Artifact, ledger: FieldLedger, resolutions: ConflictResolution[]): void {
+  for (const entry of ledger.values()) {
+    const conflict = entry.warning?.conflict;
+    if (!entry.warning || !conflict) continue;
+
+    const resolution = resolutions.findLast(
+      (r) =>
+        r.round === conflict.round &&
+        r.section === conflict.section &&
+        r.target_id === conflict.target_id &&
+        r.field === conflict.field,
+    );
+    if (!resolution) continue;
+
+    const item = getEditTarget(artifact, conflict.section, conflict.target_id);
+    if (!item || isKilled(item)) continue;
+
+    (item as unknown as Record<string, unknown>)[conflict.field] = cloneValue(resolution.value);
+    if (conflict.section === "discriminative_tests") {
+      sortTestsByScore(artifact.sections.discriminative_tests);
+    }
+
+    conflict.applied = cloneValue(resolution.value);
+    conflict.resolution = { value: cloneValue(resolution.value), intervention_id: resolution.intervention_id };
+    entry.warning.message = formatEditConflict(conflict);
+  }
+  ledger.clear();
+}
+
+const CONFLICT_ITEM_TYPES: Record<DeltaSection, NonNullable<InterventionTarget["item_type"]>> = {
+  hypothesis_slate: "hypothesis",
+  predictions_table: "prediction",
+  discriminative_tests: "test",
+  assumption_ledger: "assumption",
+  anomaly_register: "anomaly",
+  adversarial_critique: "critique",
+  research_thread: "research_thread",
+};
+
+/**
+ * Intervention target identifying a conflicted field, for recording a
+ * conflict_resolution intervention.
+ */
+export function conflictResolutionTarget(
+  conflict: Pick<EditConflict, "round" | "section" | "target_id" | "field">,
+): InterventionTarget {
+  return {
+    item_id: conflict.target_id,
+    item_type: CONFLICT_ITEM_TYPES[conflict.section],
+    field: conflict.field,
+    round: conflict.round,
+  };
+}
+
+/**
+ * Extract conflict resolutions from a session's interventions.
+ *
+ * Uses non-reversed conflict_resolution records whose state_change.after
+ * holds the chosen value as JSON.
+ */
+export function conflictResolutionsFromInterventions(
+  interventions: OperatorIntervention[],
+): ConflictResolution[] {
+  const sections = Object.entries(CONFLICT_ITEM_TYPES) as Array<[DeltaSection, string]>;
+  const resolutions: ConflictResolution[] = [];
+
+  for (const intervention of interventions) {
+    if (intervention.type !== "conflict_resolution" || intervention.reversed_at) continue;
+    const { item_id, item_type, field, round } = intervention.target;
+    const section = sections.find(([, type]) => type === item_type)?.[0];
+    const after = intervention.state_change?.after;
+    if (!item_id || !section || !field || round === undefined || after === undefined) continue;
+
+    let value: unknown;
+    try {
+      value = JSON.parse(after);
+    } catch {
+      continue;
+    }
+    resolutions.push({ round, section, target_id: item_id, field, value, intervention_id: intervention.id });
+  }
+
+  return resolutions;
+}
+
 // ============================================================================
 // Merge Function
 // ============================================================================
@@ -813,13 +1089,21 @@ export function mergeArtifact(
  * This version accepts deltas that already have timestamp and agent info,
  * sorting them by timestamp for deterministic ordering.
  *
+ * When deltas carry a `round`, EDITs to the same field by different agents
+ * within a round are checked against the field's value at the start of the
+ * round. Diverging changes keep the latest write and raise an EDIT_CONFLICT
+ * warning holding every value; `options.resolutions` replace that write when
+ * the round closes.
+ *
  * @param base - The base artifact to merge into
- * @param deltas - Array of deltas with timestamp and agent info
+ * @param deltas - Array of deltas with timestamp, agent, and optional round info
+ * @param options - Operator conflict resolutions
  * @returns Merge result
  */
 export function mergeArtifactWithTimestamps(
   base: Artifact,
-  deltas: Array<ValidDelta & { timestamp: string; agent: string }>,
+  deltas: Array<ValidDelta & { timestamp: string; agent: string; round?: number }>,
+  options: MergeOptions = {},
 ): MergeResult {
   // Deep clone to avoid mutating original
   const artifact = deepClone(base);
@@ -834,15 +1118,36 @@ export function mergeArtifactWithTimestamps(
 
   let latestTimestamp = base.metadata.updated_at;
 
+  const resolutions = options.resolutions ?? [];
+  const ledger: FieldLedger = new Map();
+  let ledgerRound: number | undefined;
+
   for (const delta of sortedDeltas) {
     let applied = false;
+    // An ADD takes the section's next free id; EDIT and KILL name their target
+    const itemId =
+      delta.section === "research_thread"
+        ? "RT"
+        : delta.operation === "ADD"
+          ? generateNextId(delta.section, getExistingIds(artifact, delta.section))
+          : (delta.target_id ?? "");
+
+    if (delta.round !== undefined && delta.round !== ledgerRound) {
+      closeRound(artifact, ledger, resolutions);
+      ledgerRound = delta.round;
+    }
 
     switch (delta.operation) {
       case "ADD":
         applied = applyAdd(artifact, delta, errors, warnings);
         break;
       case "EDIT":
-        applied = applyEdit(artifact, delta, errors, warnings);
+        if (delta.round === undefined) {
+          applied = applyEdit(artifact, delta, errors, warnings);
+        } else {
+          applied = applyEdit(artifact, prepareRoundEdit(artifact, delta, ledger), errors, warnings);
+          if (applied) recordRoundEdit(delta, delta.round, ledger, warnings);
+        }
         break;
       case "KILL":
         applied = applyKill(artifact, delta, errors, warnings);
@@ -851,6 +1156,7 @@ export function mergeArtifactWithTimestamps(
 
     if (applied) {
       appliedCount++;
+      options.onApplied?.(delta, itemId);
       if (delta.timestamp > latestTimestamp) {
         latestTimestamp = delta.timestamp;
       }
@@ -875,6 +1181,8 @@ export function mergeArtifactWithTimestamps(
     }
   }
 
+  closeRound(artifact, ledger, resolutions);
+
   // Update metadata
   artifact.metadata.updated_at = latestTimestamp;
   artifact.metadata.version++;
@@ -1251,6 +1559,8 @@ export interface LintViolation {
   severity: LintSeverity;
   message: string;
   fix?: string;
+  /** Rule pack that produced the violation (absent for built-in rules) */
+  pack?: string;
 }
 
 export interface LintReport {
@@ -1813,6 +2123,13 @@ export function lintArtifact(artifact: Artifact): LintReport {
     }
   }
 
+  return summarizeLintViolations(violations);
+}
+
+/**
+ * Build a lint report from violations: sorted by severity then ID, with counts.
+ */
+export function summarizeLintViolations(violations: LintViolation[]): LintReport {
   const sorted = [...violations].sort((a, b) => {
     const sr = severityRank(a.severity) - severityRank(b.severity);
     if (sr !== 0) return sr;
@@ -1836,6 +2153,10 @@ export function lintArtifact(artifact: Artifact): LintReport {
 // Lint Report Formatters
 // ============================================================================
 
+function formatViolationId(violation: LintViolation): string {
+  return violation.pack ? `${violation.id} [${violation.pack}]` : violation.id;
+}
+
 /**
  * Format a lint report as human-readable text.
  *
@@ -1848,6 +2169,7 @@ export function lintArtifact(artifact: Artifact): LintReport {
  *
  * Errors (must fix):
  *   EH-003: Third alternative not explicitly labeled
+ *   BIO-001 [lab-biology]: T2 does not name a positive control
  *   ...
  * ```
  */
@@ -1866,7 +2188,7 @@ export function formatLintReportHuman(report: LintReport, artifactName?: string)
   if (report.summary.errors > 0) {
     lines.push("Errors (must fix):");
     for (const v of report.violations.filter((v) => v.severity === "error")) {
-      lines.push(`  ${v.id}: ${v.message}`);
+      lines.push(`  ${formatViolationId(v)}: ${v.message}`);
       if (v.fix) lines.push(`    → ${v.fix}`);
     }
     lines.push("");
@@ -1875,7 +2197,7 @@ export function formatLintReportHuman(report: LintReport, artifactName?: string)
   if (report.summary.warnings > 0) {
     lines.push("Warnings (should fix):");
     for (const v of report.violations.filter((v) => v.severity === "warning")) {
-      lines.push(`  ${v.id}: ${v.message}`);
+      lines.push(`  ${formatViolationId(v)}: ${v.message}`);
       if (v.fix) lines.push(`    → ${v.fix}`);
     }
     lines.push("");
@@ -1884,7 +2206,7 @@ export function formatLintReportHuman(report: LintReport, artifactName?: string)
   if (report.summary.info > 0) {
     lines.push("Info:");
     for (const v of report.violations.filter((v) => v.severity === "info")) {
-      lines.push(`  ${v.id}: ${v.message}`);
+      lines.push(`  ${formatViolationId(v)}: ${v.message}`);
     }
     lines.push("");
   }
@@ -1932,6 +2254,7 @@ export interface EditedChange {
   field: string;
   old_value: string;
   new_value: string;
+  by_agent?: string;
 }
 
 /** Changes for hypothesis slate section */
@@ -1941,11 +2264,21 @@ export interface HypothesisChanges {
   edited: EditedChange[];
 }
 
+/** Change entry for an item whose status moved */
+export interface StatusChange {
+  id: string;
+  name: string;
+  from: string;
+  to: string;
+  by_agent?: string;
+}
+
 /** Changes for test battery section */
 export interface TestChanges {
-  added: Array<{ id: string; name: string; targets: string[] }>;
+  added: Array<{ id: string; name: string; targets: string[]; by_agent?: string }>;
   killed: KilledChange[];
   edited: EditedChange[];
+  status_changed: StatusChange[];
 }
 
 /** Changes for assumption ledger section */
@@ -1954,11 +2287,12 @@ export interface AssumptionChanges {
   killed: KilledChange[];
   edited: EditedChange[];
   challenged: Array<{ id: string; challenger: string; challenge: string }>;
+  falsified: StatusChange[];
 }
 
 /** Changes for anomaly register section */
 export interface AnomalyChanges {
-  added: Array<{ id: string; description: string }>;
+  added: Array<{ id: string; description: string; by_agent?: string }>;
   killed: KilledChange[];
   promoted: Array<{ id: string; promoted_to: string }>;
   dismissed: Array<{ id: string; reason: string }>;
@@ -1973,7 +2307,7 @@ export interface CritiqueChanges {
 
 /** Changes for predictions table section */
 export interface PredictionChanges {
-  added: Array<{ id: string; condition: string }>;
+  added: Array<{ id: string; condition: string; by_agent?: string }>;
   killed: KilledChange[];
   edited: EditedChange[];
 }
@@ -1998,8 +2332,10 @@ export interface DiffSummary {
   hypotheses_net: number;
   tests_added: number;
   tests_killed: number;
+  tests_status_changed: number;
   assumptions_added: number;
   assumptions_killed: number;
+  assumptions_falsified: number;
   critiques_added: number;
   critiques_resolved: number;
   anomalies_added: number;
@@ -2018,6 +2354,8 @@ export interface ArtifactDiff {
   to_version: number;
   from_session_id: string;
   to_session_id: string;
+  /** Agents from `metadata.contributors` who contributed after the older version */
+  contributors: Contributor[];
   changes: ArtifactChanges;
   summary: DiffSummary;
 }
@@ -2115,7 +2453,7 @@ function diffHypotheses(
       added.push({
         id: item.id,
         name: item.name,
-        by_agent: undefined, // Could extract from contributors if needed
+        by_agent: undefined, // Only the delta history knows (see artifact-versions)
       });
     } else if (!isKilled(oldItem) && isKilled(item)) {
       // Item was killed
@@ -2162,9 +2500,10 @@ function diffTests(
   const v1Index = indexById(v1Items);
   const v2Index = indexById(v2Items);
 
-  const added: Array<{ id: string; name: string; targets: string[] }> = [];
+  const added: TestChanges["added"] = [];
   const killed: KilledChange[] = [];
   const edited: EditedChange[] = [];
+  const status_changed: StatusChange[] = [];
 
   for (const item of v2Items) {
     const oldItem = v1Index.get(item.id);
@@ -2193,9 +2532,17 @@ function diffTests(
         "discriminates",
         "potency_check",
         "feasibility",
-        "status",
       ]);
       edited.push(...edits);
+
+      if ((oldItem.status ?? "untested") !== (item.status ?? "untested")) {
+        status_changed.push({
+          id: item.id,
+          name: item.name,
+          from: oldItem.status ?? "untested",
+          to: item.status ?? "untested",
+        });
+      }
     }
   }
 
@@ -2211,7 +2558,7 @@ function diffTests(
     }
   }
 
-  return { added, killed, edited };
+  return { added, killed, edited, status_changed };
 }
 
 /**
@@ -2228,6 +2575,7 @@ function diffAssumptions(
   const killed: KilledChange[] = [];
   const edited: EditedChange[] = [];
   const challenged: Array<{ id: string; challenger: string; challenge: string }> = [];
+  const falsified: StatusChange[] = [];
 
   for (const item of v2Items) {
     const oldItem = v1Index.get(item.id);
@@ -2265,6 +2613,7 @@ function diffAssumptions(
             challenger: "evaluation",
             challenge: `Status changed from ${oldItem.status ?? "unchecked"} to falsified`,
           });
+          falsified.push({ id: item.id, name: item.name, from: oldItem.status ?? "unchecked", to: "falsified" });
         }
       }
     }
@@ -2282,7 +2631,7 @@ function diffAssumptions(
     }
   }
 
-  return { added, killed, edited, challenged };
+  return { added, killed, edited, challenged, falsified };
 }
 
 /**
@@ -2295,7 +2644,7 @@ function diffAnomalies(
   const v1Index = indexById(v1Items);
   const v2Index = indexById(v2Items);
 
-  const added: Array<{ id: string; description: string }> = [];
+  const added: AnomalyChanges["added"] = [];
   const killed: KilledChange[] = [];
   const promoted: Array<{ id: string; promoted_to: string }> = [];
   const dismissed: Array<{ id: string; reason: string }> = [];
@@ -2430,7 +2779,7 @@ function diffPredictions(
   const v1Index = indexById(v1Items);
   const v2Index = indexById(v2Items);
 
-  const added: Array<{ id: string; condition: string }> = [];
+  const added: PredictionChanges["added"] = [];
   const killed: KilledChange[] = [];
   const edited: EditedChange[] = [];
 
@@ -2500,6 +2849,18 @@ function diffResearchThread(
   return { edited };
 }
 
+/**
+ * Contributors of the newer version who were absent from, or contributed again
+ * after, the older one.
+ */
+function diffContributors(v1: ArtifactMetadata, v2: ArtifactMetadata): Contributor[] {
+  const before = new Map(v1.contributors.map((c) => [c.agent, c.contributed_at ?? ""]));
+  return v2.contributors.filter((c) => {
+    if (!before.has(c.agent)) return true;
+    return (c.contributed_at ?? "") > (before.get(c.agent) ?? "");
+  });
+}
+
 /**
  * Calculate progress level based on diff summary.
  */
@@ -2550,6 +2911,8 @@ function calculateProgressLevel(summary: Omit<DiffSummary, "progress_score">): P
  * - Added hypotheses, tests, assumptions, critiques, anomalies
  * - Killed items with rationales
  * - Edited items with field-level changes
+ * - Test status moves and falsified assumptions
+ * - Contributors who worked on the newer version
  * - Summary statistics and progress heuristic
  *
  * @param v1 - The older artifact version
@@ -2600,8 +2963,10 @@ export function diffArtifacts(v1: Artifact, v2: Artifact): ArtifactDiff {
     hypotheses_net: hypothesisChanges.added.length - hypothesisChanges.killed.length,
     tests_added: testChanges.added.length,
     tests_killed: testChanges.killed.length,
+    tests_status_changed: testChanges.status_changed.length,
     assumptions_added: assumptionChanges.added.length,
     assumptions_killed: assumptionChanges.killed.length,
+    assumptions_falsified: assumptionChanges.falsified.length,
     critiques_added: critiqueChanges.added.length,
     critiques_resolved: critiqueChanges.resolved.length,
     anomalies_added: anomalyChanges.added.length,
@@ -2632,6 +2997,7 @@ export function diffArtifacts(v1: Artifact, v2: Artifact): ArtifactDiff {
     to_version: v2.metadata.version,
     from_session_id: v1.metadata.session_id,
     to_session_id: v2.metadata.session_id,
+    contributors: diffContributors(v1.metadata, v2.metadata),
     changes: {
       research_thread: researchThreadChanges,
       hypothesis_slate: hypothesisChanges,
@@ -2645,6 +3011,21 @@ export function diffArtifacts(v1: Artifact, v2: Artifact): ArtifactDiff {
   };
 }
 
+/**
+ * Render the agent behind a change, when known.
+ */
+function formatByAgent(agent: string | undefined): string {
+  return agent ? ` (by: ${agent})` : "";
+}
+
+/**
+ * Render the old → new values of a field edit (empty values shown as ∅).
+ */
+function formatEditValues(edit: EditedChange): string {
+  const show = (value: string) => (value ? JSON.stringify(value) : "∅");
+  return `: ${show(edit.old_value)} → ${show(edit.new_value)}`;
+}
+
 /**
  * Format an artifact diff as human-readable text for CLI output.
  *
@@ -2652,13 +3033,16 @@ export function diffArtifacts(v1: Artifact, v2: Artifact): ArtifactDiff {
  * ```
  * === Artifact Diff: v1 → v2 ===
  *
+ * Contributors: GreenCastle, RedForest
+ *
  * HYPOTHESES
  *   + [H4] Epigenetic microcode (by: GreenCastle)
  *   ✗ [H2] Gradient reading - KILLED: "contradicted by T3 results" (by: RedForest)
- *   ~ [H1] Lineage counting - edited: mechanism field refined
+ *   ~ [H1] edited: mechanism changed: "Counting" → "Lineage counting"
  *
  * TESTS
  *   + [T5] Digital handle task (targets: H1, H4)
+ *   ↻ [T2] Grafting - status: untested → passed
  *
  * SUMMARY: +1 hypothesis, +1 test, 1 critique resolved | Progress: MODERATE
  * ```
@@ -2669,11 +3053,16 @@ export function formatDiffHuman(diff: ArtifactDiff): string {
   lines.push(`=== Artifact Diff: v${diff.from_version} → v${diff.to_version} ===`);
   lines.push("");
 
+  if (diff.contributors.length > 0) {
+    lines.push(`Contributors: ${diff.contributors.map((c) => c.agent).join(", ")}`);
+    lines.push("");
+  }
+
   // Research Thread
   if (diff.changes.research_thread.edited.length > 0) {
     lines.push("RESEARCH THREAD");
     for (const edit of diff.changes.research_thread.edited) {
-      lines.push(`  ~ [${edit.id}] ${edit.field} changed`);
+      lines.push(`  ~ [${edit.id}] ${edit.field} changed${formatEditValues(edit)}${formatByAgent(edit.by_agent)}`);
     }
     lines.push("");
   }
@@ -2683,52 +3072,59 @@ export function formatDiffHuman(diff: ArtifactDiff): string {
   if (h.added.length > 0 || h.killed.length > 0 || h.edited.length > 0) {
     lines.push("HYPOTHESES");
     for (const item of h.added) {
-      const byAgent = item.by_agent ? ` (by: ${item.by_agent})` : "";
-      lines.push(`  + [${item.id}] ${item.name}${byAgent}`);
+      lines.push(`  + [${item.id}] ${item.name}${formatByAgent(item.by_agent)}`);
     }
     for (const item of h.killed) {
-      const byAgent = item.by_agent ? ` (by: ${item.by_agent})` : "";
       const rationale = item.rationale ? `: "${item.rationale}"` : "";
-      lines.push(`  ✗ [${item.id}] ${item.name} - KILLED${rationale}${byAgent}`);
+      lines.push(`  ✗ [${item.id}] ${item.name} - KILLED${rationale}${formatByAgent(item.by_agent)}`);
     }
     for (const edit of h.edited) {
-      lines.push(`  ~ [${edit.id}] edited: ${edit.field} changed`);
+      lines.push(`  ~ [${edit.id}] edited: ${edit.field} changed${formatEditValues(edit)}${formatByAgent(edit.by_agent)}`);
     }
     lines.push("");
   }
 
   // Tests
   const t = diff.changes.discriminative_tests;
-  if (t.added.length > 0 || t.killed.length > 0 || t.edited.length > 0) {
+  if (t.added.length > 0 || t.killed.length > 0 || t.edited.length > 0 || t.status_changed.length > 0) {
     lines.push("TESTS");
     for (const item of t.added) {
       const targets = item.targets.length > 0 ? ` (targets: ${item.targets.join(", ")})` : "";
-      lines.push(`  + [${item.id}] ${item.name}${targets}`);
+      lines.push(`  + [${item.id}] ${item.name}${targets}${formatByAgent(item.by_agent)}`);
     }
     for (const item of t.killed) {
-      const byAgent = item.by_agent ? ` (by: ${item.by_agent})` : "";
-      lines.push(`  ✗ [${item.id}] ${item.name} - KILLED${byAgent}`);
+      lines.push(`  ✗ [${item.id}] ${item.name} - KILLED${formatByAgent(item.by_agent)}`);
+    }
+    for (const item of t.status_changed) {
+      lines.push(`  ↻ [${item.id}] ${item.name} - status: ${item.from} → ${item.to}${formatByAgent(item.by_agent)}`);
     }
     for (const edit of t.edited) {
-      lines.push(`  ~ [${edit.id}] edited: ${edit.field}`);
+      lines.push(`  ~ [${edit.id}] edited: ${edit.field}${formatEditValues(edit)}${formatByAgent(edit.by_agent)}`);
     }
     lines.push("");
   }
 
   // Assumptions
   const a = diff.changes.assumption_ledger;
-  if (a.added.length > 0 || a.killed.length > 0 || a.challenged.length > 0) {
+  if (a.added.length > 0 || a.killed.length > 0 || a.challenged.length > 0 || a.edited.length > 0) {
     lines.push("ASSUMPTIONS");
     for (const item of a.added) {
-      const byAgent = item.by_agent ? ` (by: ${item.by_agent})` : "";
-      lines.push(`  + [${item.id}] ${item.assumption}${byAgent}`);
+      lines.push(`  + [${item.id}] ${item.assumption}${formatByAgent(item.by_agent)}`);
     }
     for (const item of a.killed) {
-      lines.push(`  ✗ [${item.id}] ${item.name} - KILLED`);
+      lines.push(`  ✗ [${item.id}] ${item.name} - KILLED${formatByAgent(item.by_agent)}`);
+    }
+    for (const item of a.falsified) {
+      lines.push(`  ✗ [${item.id}] ${item.name} - FALSIFIED (was ${item.from})${formatByAgent(item.by_agent)}`);
     }
     for (const item of a.challenged) {
+      if (a.falsified.some((f) => f.id === item.id)) continue;
       lines.push(`  ⚠ [${item.id}] CHALLENGED: ${item.challenge}`);
     }
+    for (const edit of a.edited) {
+      if (edit.field === "status" && a.falsified.some((f) => f.id === edit.id)) continue;
+      lines.push(`  ~ [${edit.id}] edited: ${edit.field}${formatEditValues(edit)}${formatByAgent(edit.by_agent)}`);
+    }
     lines.push("");
   }
 
@@ -2737,14 +3133,13 @@ export function formatDiffHuman(diff: ArtifactDiff): string {
   if (c.added.length > 0 || c.resolved.length > 0 || c.killed.length > 0) {
     lines.push("CRITIQUES");
     for (const item of c.added) {
-      const byAgent = item.by_agent ? ` (by: ${item.by_agent})` : "";
-      lines.push(`  + [${item.id}] ${item.target}${byAgent}`);
+      lines.push(`  + [${item.id}] ${item.target}${formatByAgent(item.by_agent)}`);
     }
     for (const item of c.resolved) {
       lines.push(`  ✓ [${item.id}] RESOLVED: ${item.resolution}`);
     }
     for (const item of c.killed) {
-      lines.push(`  ✗ [${item.id}] ${item.name} - KILLED`);
+      lines.push(`  ✗ [${item.id}] ${item.name} - KILLED${formatByAgent(item.by_agent)}`);
     }
     lines.push("");
   }
@@ -2754,7 +3149,7 @@ export function formatDiffHuman(diff: ArtifactDiff): string {
   if (x.added.length > 0 || x.promoted.length > 0 || x.dismissed.length > 0) {
     lines.push("ANOMALIES");
     for (const item of x.added) {
-      lines.push(`  + [${item.id}] ${item.description.substring(0, 60)}`);
+      lines.push(`  + [${item.id}] ${item.description.substring(0, 60)}${formatByAgent(item.by_agent)}`);
     }
     for (const item of x.promoted) {
       lines.push(`  ↑ [${item.id}] PROMOTED TO ${item.promoted_to}`);
@@ -2774,6 +3169,12 @@ export function formatDiffHuman(diff: ArtifactDiff): string {
   if (s.tests_added > 0) {
     parts.push(`+${s.tests_added} test${s.tests_added !== 1 ? "s" : ""}`);
   }
+  if (s.tests_status_changed > 0) {
+    parts.push(`${s.tests_status_changed} test status change${s.tests_status_changed !== 1 ? "s" : ""}`);
+  }
+  if (s.assumptions_falsified > 0) {
+    parts.push(`${s.assumptions_falsified} assumption${s.assumptions_falsified !== 1 ? "s" : ""} falsified`);
+  }
   if (s.critiques_resolved > 0) {
     parts.push(`${s.critiques_resolved} critique${s.critiques_resolved !== 1 ? "s" : ""} resolved`);
   }
@@ -0,0 +1,155 @@
+/**
+ * Tests for rebuilding and diffing published artifact versions.
+ */
+
+import { describe, expect, test } from "vitest";
+import type { AgentMailMessage } from "./agentMail";
+import { diffCompiledVersions, listCompiledVersions, rebuildArtifactAtVersion } from "./artifact-versions";
+
+// ============================================================================
+// Fixtures
+// ============================================================================
+
+let nextId = 1;
+
+function message(minute: number, from: string, subject: string, blocks: object[] = []): AgentMailMessage {
+  return {
+    id: nextId++,
+    thread_id: "RS-DIFF-001",
+    subject,
+    body_md: blocks.map((block) => ["```delta", JSON.stringify(block), "```"].join("\n")).join("\n\n"),
+    created_ts: new Date(Date.UTC(2026, 9, 19, 12, minute)).toISOString(),
+    from,
+    to: [],
+    importance: "normal",
+    ack_required: false,
+  };
+}
+
+const HYPOTHESIS = (name: string, claim: string) => ({
+  operation: "ADD",
+  section: "hypothesis_slate",
+  target_id: null,
+  payload: { name, claim, mechanism: `${name} mechanism` },
+});
+
+const MESSAGES = [
+  // Kickoff examples must not leak into the rebuilt artifact
+  message(0, "Operator", "KICKOFF: [RS-DIFF-001] Question", [HYPOTHESIS("Example", "Ignore me")]),
+  message(1, "BlueLake", "DELTA[gpt]: hypotheses", [HYPOTHESIS("Counting", "Cells count divisions"), HYPOTHESIS("Gradient", "Cells read a gradient")]),
+  message(2, "RedFox", "DELTA[opus]: tests", [
+    {
+      operation: "ADD",
+      section: "discriminative_tests",
+      target_id: null,
+      payload: {
+        name: "Graft",
+        procedure: "Graft tissue across the gradient",
+        discriminates: "H1 vs H2",
+        expected_outcomes: { H1: "unchanged", H2: "shifted" },
+        potency_check: "Marker confirms the graft took",
+      },
+    },
+  ]),
+  message(3, "Operator", "COMPILED: v1 artifact"),
+  message(4, "BlueLake", "DELTA[gpt]: sharpen H1", [
+    { operation: "EDIT", section: "hypothesis_slate", target_id: "H1", payload: { claim: "Cells count asymmetric divisions" } },
+  ]),
+  message(5, "GreenPond", "DELTA[gemini]: kill H2", [
+    { operation: "KILL", section: "hypothesis_slate", target_id: "H2", payload: { reason: "Graft showed no shift" } },
+    { operation: "EDIT", section: "discriminative_tests", target_id: "T1", payload: { status: "passed" } },
+  ]),
+  message(6, "Operator", "COMPILED: v2 artifact"),
+];
+
+// ============================================================================
+// Versions
+// ============================================================================
+
+describe("listCompiledVersions", () => {
+  test("reads versions from COMPILED subjects", () => {
+    const versions = listCompiledVersions([...MESSAGES, message(7, "Operator", "COMPILED: artifact")]);
+    expect(versions.map((v) => [v.version, v.compiled_by])).toEqual([
+      [1, "Operator"],
+      [2, "Operator"],
+      [3, "Operator"],
+    ]);
+  });
+});
+
+describe("rebuildArtifactAtVersion", () => {
+  test("merges only the deltas posted before the COMPILED message", () => {
+    const v1 = rebuildArtifactAtVersion(MESSAGES, "RS-DIFF-001", 1);
+    expect(v1.ok).toBe(true);
+    if (!v1.ok) return;
+    expect(v1.artifact.metadata.version).toBe(1);
+    expect(v1.artifact.sections.hypothesis_slate.map((h) => h.name)).toEqual(["Counting", "Gradient"]);
+    expect(v1.artifact.sections.discriminative_tests).toHaveLength(1);
+
+    expect(rebuildArtifactAtVersion(MESSAGES, "RS-DIFF-001", 4)).toEqual({
+      ok: false,
+      error: "Thread RS-DIFF-001 has no COMPILED v4 (published: v1, v2).",
+    });
+  });
+});
+
+// ============================================================================
+// Diffs
+// ============================================================================
+
+describe("diffCompiledVersions", () => {
+  test("reports item-level changes attributed to contributors", () => {
+    const result = diffCompiledVersions(MESSAGES, "RS-DIFF-001", { from: 1, to: 2 });
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+
+    const { diff } = result;
+    expect([diff.from_version, diff.to_version]).toEqual([1, 2]);
+    expect(diff.contributors.map((c) => c.agent)).toEqual(["BlueLake", "GreenPond"]);
+    expect(diff.changes.hypothesis_slate.killed).toEqual([
+      { id: "H2", name: "Gradient", rationale: "Graft showed no shift", by_agent: "GreenPond" },
+    ]);
+    expect(diff.changes.hypothesis_slate.edited).toEqual([
+      {
+        id: "H1",
+        field: "claim",
+        old_value: "Cells count divisions",
+        new_value: "Cells count asymmetric divisions",
+        by_agent: "BlueLake",
+      },
+    ]);
+    expect(diff.changes.discriminative_tests.status_changed).toEqual([
+      { id: "T1", name: "Graft", from: "untested", to: "passed", by_agent: "GreenPond" },
+    ]);
+  });
+
+  test("attributes added items to the agent whose delta added them", () => {
+    const messages = [
+      ...MESSAGES,
+      message(7, "RedFox", "DELTA[opus]: new hypothesis", [HYPOTHESIS("Lineage", "Cells inherit a timer")]),
+      message(8, "Operator", "COMPILED: v3 artifact"),
+    ];
+    const result = diffCompiledVersions(messages, "RS-DIFF-001", { from: 2, to: 3 });
+    expect(result.ok && result.diff.changes.hypothesis_slate.added).toEqual([
+      { id: "H3", name: "Lineage", by_agent: "RedFox" },
+    ]);
+  });
+
+  test("defaults to the latest two versions and rejects bad ranges", () => {
+    const latest = diffCompiledVersions(MESSAGES, "RS-DIFF-001");
+    expect(latest.ok && [latest.from.version, latest.to.version]).toEqual([1, 2]);
+
+    expect(diffCompiledVersions(MESSAGES.slice(0, 3), "RS-DIFF-001")).toEqual({
+      ok: false,
+      error: "Thread RS-DIFF-001 has no COMPILED messages yet.",
+    });
+    expect(diffCompiledVersions(MESSAGES, "RS-DIFF-001", { to: 1 })).toEqual({
+      ok: false,
+      error: "Nothing to compare: v1 is the first COMPILED version of RS-DIFF-001.",
+    });
+    expect(diffCompiledVersions(MESSAGES, "RS-DIFF-001", { from: 2, to: 1 })).toEqual({
+      ok: false,
+      error: "Expected an older version to compare from (got v2 → v1).",
+    });
+  });
+});
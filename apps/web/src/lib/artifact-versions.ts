@@ -0,0 +1,271 @@
+/**
+ * Artifact Versions
+ *
+ * A COMPILED message carries rendered markdown, not the artifact itself. To
+ * compare two published versions item by item, this module rebuilds the
+ * artifact each `COMPILED: v{n}` message was compiled from by merging the
+ * delta blocks posted before it, the same way `brenner session compile` does,
+ * and then hands both versions to `diffArtifacts`. The rebuild also records
+ * which agent added, edited or killed each item, so every diff entry can
+ * name the agent behind it.
+ *
+ * Usage:
+ * ```typescript
+ * import { diffCompiledVersions } from "./artifact-versions";
+ *
+ * const result = diffCompiledVersions(thread.messages, threadId, { from: 3, to: 5 });
+ * if (result.ok) console.log(formatDiffHuman(result.diff));
+ * ```
+ */
+
+import type { AgentMailMessage } from "./agentMail";
+import {
+  createEmptyArtifact,
+  diffArtifacts,
+  mergeArtifactWithTimestamps,
+  type Artifact,
+  type ArtifactDiff,
+  type ConflictResolution,
+} from "./artifact-merge";
+import { parseDeltaMessage, type DeltaSection, type ValidDelta } from "./delta-parser";
+import { extractVersion, getMessageRounds, isArtifactDeltaMessage, parseSubjectType } from "./threadStatus";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** A published COMPILED message and the version it carries */
+export interface CompiledVersion {
+  version: number;
+  message_id: number;
+  compiled_at: string;
+  compiled_by: string | null;
+}
+
+/** Agents behind one item's current state */
+export interface ItemAttribution {
+  added_by?: string;
+  killed_by?: string;
+  /** Last agent to EDIT each field */
+  edited_by: Record<string, string>;
+}
+
+/** Attribution per item, keyed by `attributionKey` */
+export type ArtifactAttribution = Map<string, ItemAttribution>;
+
+export type RebuildArtifactResult =
+  | { ok: true; artifact: Artifact; compiled: CompiledVersion; attribution: ArtifactAttribution }
+  | { ok: false; error: string };
+
+export type CompiledVersionDiffResult =
+  | { ok: true; diff: ArtifactDiff; from: CompiledVersion; to: CompiledVersion }
+  | { ok: false; error: string };
+
+export interface RebuildOptions {
+  /** Conflict resolutions recorded as interventions (see `conflictResolutionsFromInterventions`) */
+  resolutions?: ConflictResolution[];
+}
+
+// ============================================================================
+// Versions
+// ============================================================================
+
+function sortByCreated(messages: AgentMailMessage[]): AgentMailMessage[] {
+  return [...messages].sort((a, b) => new Date(a.created_ts).getTime() - new Date(b.created_ts).getTime());
+}
+
+/**
+ * List the thread's COMPILED messages in order.
+ *
+ * The version comes from the `v{n}` in the subject; a subject without one
+ * takes the version after the previous message.
+ */
+export function listCompiledVersions(messages: AgentMailMessage[]): CompiledVersion[] {
+  const versions: CompiledVersion[] = [];
+  for (const message of sortByCreated(messages)) {
+    if (parseSubjectType(message.subject).type !== "compiled") continue;
+    const previous = versions[versions.length - 1]?.version ?? 0;
+    versions.push({
+      version: extractVersion(message.subject) ?? previous + 1,
+      message_id: message.id,
+      compiled_at: message.created_ts,
+      compiled_by: message.from ?? null,
+    });
+  }
+  return versions;
+}
+
+/**
+ * Rebuild the artifact a `COMPILED: v{version}` message was compiled from.
+ */
+export function rebuildArtifactAtVersion(
+  messages: AgentMailMessage[],
+  threadId: string,
+  version: number,
+  options: RebuildOptions = {}
+): RebuildArtifactResult {
+  const versions = listCompiledVersions(messages);
+  const compiled = versions.find((candidate) => candidate.version === version);
+  if (!compiled) {
+    const known = versions.map((candidate) => `v${candidate.version}`).join(", ") || "none";
+    return { ok: false, error: `Thread ${threadId} has no COMPILED v${version} (published: ${known}).` };
+  }
+
+  const cutoff = new Date(compiled.compiled_at).getTime();
+  const messageRounds = getMessageRounds(messages);
+  const deltas: Array<ValidDelta & { timestamp: string; agent: string; round?: number }> = [];
+
+  for (const message of sortByCreated(messages)) {
+    if (new Date(message.created_ts).getTime() >= cutoff) break;
+    if (typeof message.body_md !== "string" || message.body_md.trim().length === 0) continue;
+    if (!isArtifactDeltaMessage(message)) continue;
+
+    for (const delta of parseDeltaMessage(message.body_md).deltas) {
+      if (!delta.valid) continue;
+      deltas.push({
+        ...delta,
+        timestamp: message.created_ts,
+        agent: message.from ?? "unknown",
+        round: messageRounds.get(message.id),
+      });
+    }
+  }
+
+  const base = createEmptyArtifact(threadId);
+  base.metadata.version = Math.max(0, version - 1);
+  base.metadata.status = "active";
+
+  const attribution: ArtifactAttribution = new Map();
+  const merge = mergeArtifactWithTimestamps(base, deltas, {
+    resolutions: options.resolutions,
+    onApplied: (delta, itemId) => {
+      const key = attributionKey(delta.section, itemId);
+      const entry = attribution.get(key) ?? { edited_by: {} };
+      if (delta.operation === "ADD") entry.added_by = delta.agent;
+      if (delta.operation === "KILL") entry.killed_by = delta.agent;
+      if (delta.operation === "EDIT") {
+        for (const field of Object.keys(delta.payload)) entry.edited_by[field] = delta.agent;
+      }
+      attribution.set(key, entry);
+    },
+  });
+  if (!merge.ok) {
+    const first = merge.errors[0];
+    return { ok: false, error: `Failed to rebuild v${version}: ${first ? `${first.code}: ${first.message}` : "merge failed"}` };
+  }
+
+  merge.artifact.metadata.version = version;
+  return { ok: true, artifact: merge.artifact, compiled, attribution };
+}
+
+/**
+ * Diff two published versions of a thread's artifact.
+ *
+ * `to` defaults to the latest COMPILED version and `from` to the one before it.
+ */
+export function diffCompiledVersions(
+  messages: AgentMailMessage[],
+  threadId: string,
+  range: { from?: number; to?: number } = {},
+  options: RebuildOptions = {}
+): CompiledVersionDiffResult {
+  const versions = listCompiledVersions(messages);
+  const toVersion = range.to ?? versions[versions.length - 1]?.version;
+  if (toVersion === undefined) {
+    return { ok: false, error: `Thread ${threadId} has no COMPILED messages yet.` };
+  }
+
+  let fromVersion = range.from;
+  if (fromVersion === undefined) {
+    const earlier = versions.filter((candidate) => candidate.version < toVersion);
+    fromVersion = earlier[earlier.length - 1]?.version;
+    if (fromVersion === undefined) {
+      return { ok: false, error: `Nothing to compare: v${toVersion} is the first COMPILED version of ${threadId}.` };
+    }
+  }
+  if (fromVersion >= toVersion) {
+    return { ok: false, error: `Expected an older version to compare from (got v${fromVersion} → v${toVersion}).` };
+  }
+
+  const older = rebuildArtifactAtVersion(messages, threadId, fromVersion, options);
+  if (!older.ok) return older;
+  const newer = rebuildArtifactAtVersion(messages, threadId, toVersion, options);
+  if (!newer.ok) return newer;
+
+  const diff = attributeDiff(diffArtifacts(older.artifact, newer.artifact), newer.attribution);
+  return { ok: true, diff, from: older.compiled, to: newer.compiled };
+}
+
+// ============================================================================
+// Attribution
+// ============================================================================
+
+function attributionKey(section: DeltaSection, itemId: string): string {
+  return `${section}/${itemId}`;
+}
+
+/**
+ * Name the agent behind each added, edited, killed and status-changed entry,
+ * from the newer version's rebuild. Entries the delta history cannot explain
+ * keep whatever `diffArtifacts` set.
+ */
+function attributeDiff(diff: ArtifactDiff, attribution: ArtifactAttribution): ArtifactDiff {
+  const lookup = (section: DeltaSection, id: string) => attribution.get(attributionKey(section, id));
+  const added = (section: DeltaSection) => <T extends { id: string; by_agent?: string }>(entry: T): T => ({
+    ...entry,
+    by_agent: entry.by_agent ?? lookup(section, entry.id)?.added_by,
+  });
+  const killed = (section: DeltaSection) => <T extends { id: string; by_agent?: string }>(entry: T): T => ({
+    ...entry,
+    by_agent: entry.by_agent ?? lookup(section, entry.id)?.killed_by,
+  });
+  const edited = (section: DeltaSection) => <T extends { id: string; field: string; by_agent?: string }>(entry: T): T => ({
+    ...entry,
+    by_agent: entry.by_agent ?? lookup(section, entry.id)?.edited_by[entry.field],
+  });
+  const statusChanged = (section: DeltaSection) => <T extends { id: string; by_agent?: string }>(entry: T): T => ({
+    ...entry,
+    by_agent: entry.by_agent ?? lookup(section, entry.id)?.edited_by.status,
+  });
+
+  const { changes } = diff;
+  return {
+    ...diff,
+    changes: {
+      research_thread: { edited: changes.research_thread.edited.map(edited("research_thread")) },
+      hypothesis_slate: {
+        added: changes.hypothesis_slate.added.map(added("hypothesis_slate")),
+        killed: changes.hypothesis_slate.killed.map(killed("hypothesis_slate")),
+        edited: changes.hypothesis_slate.edited.map(edited("hypothesis_slate")),
+      },
+      predictions_table: {
+        added: changes.predictions_table.added.map(added("predictions_table")),
+        killed: changes.predictions_table.killed.map(killed("predictions_table")),
+        edited: changes.predictions_table.edited.map(edited("predictions_table")),
+      },
+      discriminative_tests: {
+        added: changes.discriminative_tests.added.map(added("discriminative_tests")),
+        killed: changes.discriminative_tests.killed.map(killed("discriminative_tests")),
+        edited: changes.discriminative_tests.edited.map(edited("discriminative_tests")),
+        status_changed: changes.discriminative_tests.status_changed.map(statusChanged("discriminative_tests")),
+      },
+      assumption_ledger: {
+        ...changes.assumption_ledger,
+        added: changes.assumption_ledger.added.map(added("assumption_ledger")),
+        killed: changes.assumption_ledger.killed.map(killed("assumption_ledger")),
+        edited: changes.assumption_ledger.edited.map(edited("assumption_ledger")),
+        falsified: changes.assumption_ledger.falsified.map(statusChanged("assumption_ledger")),
+      },
+      anomaly_register: {
+        ...changes.anomaly_register,
+        added: changes.anomaly_register.added.map(added("anomaly_register")),
+        killed: changes.anomaly_register.killed.map(killed("anomaly_register")),
+      },
+      adversarial_critique: {
+        ...changes.adversarial_critique,
+        added: changes.adversarial_critique.added.map(added("adversarial_critique")),
+        killed: changes.adversarial_critique.killed.map(killed("adversarial_critique")),
+      },
+    },
+  };
+}
@@ -0,0 +1,266 @@
+/**
+ * Tests for debates run over Agent Mail
+ *
+ * @see brenner_bot-xlk2.7 (Agent Debate Mode feature)
+ */
+
+import { describe, it, expect, vi } from "vitest";
+import type { AgentMailMessage } from "../../agentMail";
+import { createEmptyArtifact } from "../../artifact-merge";
+import { extractValidDeltas } from "../../delta-parser";
+import { parseSubjectType } from "../../threadStatus";
+import { createHypothesisCard } from "../hypothesis";
+import { createDebate, type AgentDebate } from "./debate";
+import {
+  buildDebateRoundMessage,
+  concludeDebateThread,
+  extractRoundProposals,
+  formatDebateConclusionSubject,
+  formatDebateRoundSubject,
+  judgeDebate,
+  mergeDebateOutcome,
+  missingRosterRoles,
+  parseDebateConfig,
+  parseDebateRoster,
+  parseDebateSubject,
+  parseDebateThread,
+  postDebateConclusion,
+  sendDebateRound,
+  type DebateRoster,
+} from "./debate-mail";
+
+// ============================================================================
+// Fixtures
+// ============================================================================
+
+const HYPOTHESIS = createHypothesisCard({
+  id: "HC-RS20261019-001-v1",
+  statement: "Growth cones steer by sensing netrin gradients",
+  mechanism: "DCC receptor signalling biases actin polymerisation",
+  predictionsIfTrue: ["DCC knockouts misroute commissural axons"],
+  impossibleIfTrue: ["Axons cross the midline normally without netrin"],
+  sessionId: "RS20261019",
+});
+
+const ROSTER: DebateRoster = { experiment_designer: "BlueLake", devils_advocate: "RedFox" };
+
+const PROPOSITION_OPENING = [
+  "I argue that the gradient model is the most parsimonious account, as shown in §42.",
+  "Importantly, the netrin knockout phenotype matches the prediction closely.",
+  "TEST: Netrin bead rescue — Implant netrin-soaked beads in knockout spinal cord explants — gradient sensing vs contact guidance",
+].join("\n");
+
+const OPPOSITION_REPLY = [
+  "I agree that the knockout phenotype is striking and deserves weight.",
+  "However, the model fails to explain axons that still cross in netrin-null mice.",
+  "CRITIQUE: Residual midline crossing implies a netrin-independent guidance cue",
+].join("\n");
+
+function baseDebate(): AgentDebate {
+  const debate = createDebate({ sessionId: "RS20261019", hypothesis: HYPOTHESIS, maxRounds: 4 });
+  return { ...debate, id: "DEBATE-RS20261019-ab12cd34", threadId: "DEBATE-RS20261019-ab12cd34-THREAD" };
+}
+
+function message(overrides: Partial<AgentMailMessage> & Pick<AgentMailMessage, "id" | "subject">): AgentMailMessage {
+  return {
+    thread_id: "DEBATE-RS20261019-ab12cd34-THREAD",
+    created_ts: `2026-10-19T10:00:${String(overrides.id).padStart(2, "0")}Z`,
+    from: "Orchestrator",
+    ...overrides,
+  };
+}
+
+/** A thread where both sides have spoken once */
+function twoRoundThread(debate = baseDebate()): AgentMailMessage[] {
+  const subject1 = formatDebateRoundSubject(debate.id, 1, "experiment_designer");
+  const subject2 = formatDebateRoundSubject(debate.id, 2, "devils_advocate");
+  return [
+    message({ id: 1, subject: subject1, body_md: buildDebateRoundMessage(debate, "experiment_designer", ROSTER) }),
+    message({ id: 2, subject: `Re: ${subject1}`, reply_to: 1, from: "BlueLake", body_md: PROPOSITION_OPENING }),
+    message({ id: 3, subject: subject2, body_md: "Follow-up prompt" }),
+    message({ id: 4, subject: "Re: unrelated chatter", from: "SomeoneElse", body_md: "Off topic" }),
+    message({ id: 5, subject: `Re: ${subject2}`, from: "RedFox", body_md: OPPOSITION_REPLY }),
+  ];
+}
+
+function sendingClient() {
+  let nextId = 100;
+  const sendMessage = vi.fn(async (args: { to: string[] }) => ({
+    count: args.to.length,
+    deliveries: args.to.map(() => ({ project: "brenner", payload: { id: nextId++ } })),
+  }));
+  return { sendMessage };
+}
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe("debate subjects", () => {
+  it("round-trips round and conclusion subjects, including replies", () => {
+    const subject = formatDebateRoundSubject("DEBATE-X-1", 3, "statistician");
+    expect(parseDebateSubject(subject)).toEqual({ debateId: "DEBATE-X-1", kind: "round", round: 3, speaker: "statistician" });
+    expect(parseDebateSubject(`Re: ${subject}`)).toMatchObject({ kind: "round", round: 3 });
+    expect(parseDebateSubject(formatDebateConclusionSubject("DEBATE-X-1"))).toEqual({ debateId: "DEBATE-X-1", kind: "conclusion" });
+    expect(parseDebateSubject("TRIBUNAL[statistician]: HC-1")).toBeNull();
+    expect(parseSubjectType(subject).type).toBe("debate");
+  });
+
+  it("parses rosters and reports unassigned speakers", () => {
+    expect(parseDebateRoster("experiment-designer=BlueLake, devils_advocate=RedFox")).toEqual(ROSTER);
+    expect(() => parseDebateRoster("judge=Someone")).toThrow(/Invalid roster entry/);
+    expect(missingRosterRoles(baseDebate(), { devils_advocate: "RedFox" })).toEqual(["experiment_designer"]);
+  });
+});
+
+describe("parseDebateThread", () => {
+  it("rebuilds the debate from the configuration block and replies", () => {
+    const state = parseDebateThread("DEBATE-RS20261019-ab12cd34-THREAD", twoRoundThread());
+    expect(state).not.toBeNull();
+    const { debate, roster, awaiting } = state!;
+
+    expect(roster).toEqual(ROSTER);
+    expect(debate.hypothesis.id).toBe(HYPOTHESIS.id);
+    expect(debate.status).toBe("in_progress");
+    expect(debate.rounds.map((round) => [round.number, round.speaker, round.messageId])).toEqual([
+      [1, "experiment_designer", 2],
+      [2, "devils_advocate", 5],
+    ]);
+    expect(debate.rounds[1].replyingTo).toBe(1);
+    expect(debate.rounds[1].analysis?.concessionsGiven).toHaveLength(1);
+    expect(awaiting).toBeNull();
+  });
+
+  it("reports the unanswered prompt and ignores replies from other agents", () => {
+    const debate = baseDebate();
+    const messages = twoRoundThread(debate).slice(0, 3);
+    messages.push(
+      message({
+        id: 6,
+        subject: `Re: ${formatDebateRoundSubject(debate.id, 2, "devils_advocate")}`,
+        reply_to: 3,
+        from: "Interloper",
+        body_md: "Not my turn",
+      })
+    );
+
+    const state = parseDebateThread(debate.threadId, messages)!;
+    expect(state.debate.rounds).toHaveLength(1);
+    expect(state.awaiting).toMatchObject({ round: 2, speaker: "devils_advocate", messageId: 3 });
+  });
+
+  it("returns null without a configuration block", () => {
+    expect(parseDebateThread("T", [message({ id: 1, subject: "DEBATE[X]: Round 1 (statistician)", body_md: "no config" })])).toBeNull();
+    expect(parseDebateConfig("```debate\n{not json}\n```")).toBeNull();
+  });
+});
+
+describe("judgeDebate", () => {
+  it("extracts TEST and CRITIQUE lines", () => {
+    const { tests, critiques } = extractRoundProposals({
+      number: 1,
+      speaker: "experiment_designer",
+      content: "- **TEST:** Bead rescue :: Implant beads\nCRITIQUE: Sample too small\nTest results later.",
+      recordedAt: "2026-10-19T10:00:00Z",
+    });
+    expect(tests).toEqual([{ round: 1, speaker: "experiment_designer", name: "Bead rescue", procedure: "Implant beads" }]);
+    expect(critiques).toEqual(["Sample too small"]);
+  });
+
+  it("scores argument quality, concession tracking and new tests per side", () => {
+    const { debate } = parseDebateThread("DEBATE-RS20261019-ab12cd34-THREAD", twoRoundThread())!;
+    const judgement = judgeDebate(debate);
+
+    const proposition = judgement.sides.find((side) => side.speaker === "experiment_designer")!;
+    const opposition = judgement.sides.find((side) => side.speaker === "devils_advocate")!;
+
+    expect(proposition.newTestProposals).toBe(4);
+    expect(opposition.newTestProposals).toBe(0);
+    expect(opposition.concessionTracking).toBeGreaterThan(proposition.concessionTracking);
+    expect(proposition.argumentQuality).toBeGreaterThan(0);
+    expect(judgement.winner).toBe("experiment_designer");
+    expect(judgement.concessions).toEqual([
+      expect.objectContaining({ round: 2, speaker: "devils_advocate" }),
+    ]);
+    expect(judgement.critiques).toEqual([
+      {
+        round: 2,
+        speaker: "devils_advocate",
+        attack: "Residual midline crossing implies a netrin-independent guidance cue",
+        conceded: false,
+      },
+    ]);
+  });
+});
+
+describe("concludeDebateThread", () => {
+  it("emits test and critique deltas that merge into the session artifact", () => {
+    const state = parseDebateThread("DEBATE-RS20261019-ab12cd34-THREAD", twoRoundThread())!;
+    const outcome = concludeDebateThread(state, new Date("2026-10-19T12:00:00Z"));
+
+    expect(outcome.debate.status).toBe("concluded");
+    expect(outcome.debate.conclusion?.generatedAt).toBe("2026-10-19T12:00:00.000Z");
+    expect(outcome.deltas.map((delta) => delta.section)).toEqual(["discriminative_tests", "adversarial_critique"]);
+    // The message body carries the same deltas for `session compile`
+    expect(extractValidDeltas(outcome.body).map((delta) => delta.payload)).toEqual(
+      outcome.deltas.map((delta) => delta.payload)
+    );
+
+    const merged = mergeDebateOutcome(createEmptyArtifact("RS20261019"), outcome);
+    expect(merged.ok).toBe(true);
+    if (!merged.ok) return;
+    expect(merged.artifact.sections.discriminative_tests[0]).toMatchObject({
+      id: "T1",
+      name: "Netrin bead rescue",
+      discriminates: "gradient sensing vs contact guidance",
+    });
+    expect(merged.artifact.sections.adversarial_critique[0]).toMatchObject({
+      id: "C1",
+      current_status: "Unresolved after debate",
+    });
+    expect(merged.artifact.metadata.contributors.map((contributor) => contributor.agent)).toEqual(["debate-judge"]);
+  });
+
+  it("refuses to conclude a debate with no rounds", () => {
+    const debate = baseDebate();
+    const state = parseDebateThread(debate.threadId, twoRoundThread(debate).slice(0, 1))!;
+    expect(() => concludeDebateThread(state)).toThrow(/no recorded rounds/);
+  });
+});
+
+describe("Agent Mail transport", () => {
+  it("sends the next round to the rostered speaker", async () => {
+    const client = sendingClient();
+    const debate = baseDebate();
+
+    const first = await sendDebateRound(client as never, { debate, roster: ROSTER, awaiting: null }, {
+      projectKey: "/data/projects/brenner_bot",
+      senderName: "Orchestrator",
+    });
+    expect(first).toEqual({ prompt: expect.objectContaining({ round: 1, speaker: "experiment_designer", messageId: 100 }) });
+    const sent = client.sendMessage.mock.calls[0][0] as unknown as { to: string[]; subject: string; bodyMd: string; threadId: string };
+    expect(sent.to).toEqual(["BlueLake"]);
+    expect(sent.threadId).toBe(debate.threadId);
+    expect(parseDebateConfig(sent.bodyMd)?.roster).toEqual(ROSTER);
+
+    const state = parseDebateThread(debate.threadId, twoRoundThread(debate).slice(0, 1))!;
+    const blocked = await sendDebateRound(client as never, state, { projectKey: "/p", senderName: "Orchestrator" });
+    expect(blocked).toEqual({ error: "Waiting for experiment_designer to reply to round 1." });
+  });
+
+  it("posts the conclusion to the debate and session threads", async () => {
+    const client = sendingClient();
+    const state = parseDebateThread("DEBATE-RS20261019-ab12cd34-THREAD", twoRoundThread())!;
+    const outcome = concludeDebateThread(state);
+
+    const { messageIds } = await postDebateConclusion(client as never, outcome, state.roster, {
+      projectKey: "/p",
+      senderName: "Orchestrator",
+      sessionThreadId: "RS20261019",
+    });
+
+    expect(messageIds).toHaveLength(4);
+    const threads = client.sendMessage.mock.calls.map((call) => (call[0] as unknown as { threadId: string }).threadId);
+    expect(threads).toEqual(["DEBATE-RS20261019-ab12cd34-THREAD", "RS20261019"]);
+  });
+});
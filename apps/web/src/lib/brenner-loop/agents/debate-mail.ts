@@ -0,0 +1,802 @@
+/**
+ * Agent Debates over Agent Mail
+ *
+ * Runs a debate end-to-end on an Agent Mail thread. Each round is a
+ * `DEBATE[<debate-id>]: Round N (<role>)` prompt sent to the speaker's agent;
+ * the agent's reply is that round's statement. The first prompt carries the
+ * debate configuration in a fenced `debate` block, so any reader can rebuild
+ * the full debate from the thread alone.
+ *
+ * When the debate concludes, a judge rubric scores each side and the new
+ * tests and critiques raised during the debate become artifact deltas. The
+ * conclusion message carries them as fenced `delta` blocks, so posting it to
+ * the session thread feeds them into the next `session compile`.
+ *
+ * @module brenner-loop/agents/debate-mail
+ * @see brenner_bot-xlk2.7 (Agent Debate Mode feature)
+ */
+
+import type { AgentMailClient, AgentMailMessage, AgentMailSendResult } from "../../agentMail";
+import { mergeArtifact, type Artifact, type MergeResult } from "../../artifact-merge";
+import { validateDelta, type ValidDelta } from "../../delta-parser";
+import type { HypothesisCard } from "../hypothesis";
+import type { TribunalAgentRole } from "./index";
+import type { OperatorResults } from "./dispatch";
+import { AGENT_PERSONAS, getPersona } from "./agent-personas";
+import {
+  DEBATE_FORMAT_CONFIGS,
+  DEBATE_SUBJECT_PREFIX,
+  analyzeRound,
+  buildDebateFollowUpPrompt,
+  buildDebateOpeningPrompt,
+  concludeDebate,
+  getNextSpeaker,
+  isDebateFormat,
+  type AgentDebate,
+  type DebateFormat,
+  type DebateRound,
+} from "./debate";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Agent Mail name of the agent speaking for each role
+ */
+export type DebateRoster = Partial<Record<TribunalAgentRole, string>>;
+
+/**
+ * Debate configuration embedded in the opening prompt
+ */
+export interface DebateThreadConfig {
+  id: string;
+  sessionId: string;
+  topic: string;
+  format: DebateFormat;
+  participants: TribunalAgentRole[];
+  moderator: TribunalAgentRole | "system";
+  maxRounds: number;
+  hypothesis: HypothesisCard;
+  operatorResults: OperatorResults;
+  roster: DebateRoster;
+  createdAt: string;
+}
+
+/**
+ * A round prompt sent on the debate thread
+ */
+export interface DebatePrompt {
+  round: number;
+  speaker: TribunalAgentRole;
+  messageId: number;
+  sentAt: string;
+}
+
+/**
+ * A debate rebuilt from its Agent Mail thread
+ */
+export interface DebateThreadState {
+  debate: AgentDebate;
+  roster: DebateRoster;
+  prompts: DebatePrompt[];
+  /** The latest prompt still waiting for a reply */
+  awaiting: DebatePrompt | null;
+  /** When the conclusion was posted (if it has been) */
+  concludedAt?: string;
+}
+
+/**
+ * Rubric scores for one side of a debate (each 0-10)
+ */
+export interface DebateSideScore {
+  speaker: TribunalAgentRole;
+  rounds: number;
+  argumentQuality: number;
+  concessionTracking: number;
+  newTestProposals: number;
+  /** Weighted total per DEBATE_JUDGE_RUBRIC */
+  total: number;
+}
+
+/**
+ * A concession made during the debate
+ */
+export interface TrackedConcession {
+  round: number;
+  speaker: TribunalAgentRole;
+  text: string;
+}
+
+/**
+ * A test proposed during the debate (`TEST: name — procedure — discriminates`)
+ */
+export interface ProposedTest {
+  round: number;
+  speaker: TribunalAgentRole;
+  name: string;
+  procedure: string;
+  discriminates?: string;
+}
+
+/**
+ * A critique raised during the debate
+ */
+export interface DebateCritique {
+  round: number;
+  speaker: TribunalAgentRole;
+  attack: string;
+  /** True when the opponent's next round conceded the point */
+  conceded: boolean;
+}
+
+/**
+ * The judge's verdict on a debate
+ */
+export interface DebateJudgement {
+  sides: DebateSideScore[];
+  /** Highest total, or null on a tie */
+  winner: TribunalAgentRole | null;
+  concessions: TrackedConcession[];
+  proposedTests: ProposedTest[];
+  critiques: DebateCritique[];
+}
+
+/**
+ * Everything produced when a debate concludes
+ */
+export interface DebateOutcome {
+  debate: AgentDebate;
+  judgement: DebateJudgement;
+  deltas: ValidDelta[];
+  /** Conclusion message body (markdown with fenced delta blocks) */
+  body: string;
+}
+
+export interface DebateMailOptions {
+  /** Agent Mail project key */
+  projectKey: string;
+  /** Orchestrator sending the prompts */
+  senderName: string;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/**
+ * Fence language for the embedded debate configuration
+ */
+export const DEBATE_CONFIG_FENCE = "debate";
+
+/**
+ * Judge rubric criteria and their weights in the total score
+ */
+export const DEBATE_JUDGE_RUBRIC = {
+  argumentQuality: {
+    weight: 0.4,
+    description: "Substantive points, direct objections and cited evidence per round",
+  },
+  concessionTracking: {
+    weight: 0.3,
+    description: "Engages the opponent's objections and concedes valid ones",
+  },
+  newTestProposals: {
+    weight: 0.3,
+    description: "Proposes concrete discriminative tests",
+  },
+} as const;
+
+/** Most unanswered objections turned into critiques when none are explicit */
+const MAX_FALLBACK_CRITIQUES = 3;
+
+const SUBJECT_PATTERN = /^(?:re:\s*)*DEBATE\[([^\]]+)\]:\s*(?:Round\s+(\d+)(?:\s*\(([a-z_]+)\))?|(Conclusion))/i;
+const PROPOSAL_PATTERN = /^\s*(?:[-*]\s+)?(?:\*\*)?(TEST|CRITIQUE)(?:\*\*)?\s*:(?:\*\*)?\s*(.+?)\s*$/gim;
+const CITATION_PATTERN = /§\d+|EV-\d+/g;
+
+// ============================================================================
+// Subjects and Configuration
+// ============================================================================
+
+/**
+ * Subject for a round prompt
+ */
+export function formatDebateRoundSubject(debateId: string, round: number, speaker: TribunalAgentRole): string {
+  return `${DEBATE_SUBJECT_PREFIX}${debateId}]: Round ${round} (${speaker})`;
+}
+
+/**
+ * Subject for the conclusion message
+ */
+export function formatDebateConclusionSubject(debateId: string): string {
+  return `${DEBATE_SUBJECT_PREFIX}${debateId}]: Conclusion`;
+}
+
+/**
+ * Parse a DEBATE subject (including "Re:" replies)
+ */
+export function parseDebateSubject(
+  subject: string
+): { debateId: string; kind: "round"; round: number; speaker?: TribunalAgentRole } | { debateId: string; kind: "conclusion" } | null {
+  const match = subject.trim().match(SUBJECT_PATTERN);
+  if (!match) return null;
+  const debateId = match[1].trim();
+  if (match[4]) return { debateId, kind: "conclusion" };
+  const speaker = match[3] && isRole(match[3]) ? match[3] : undefined;
+  return { debateId, kind: "round", round: Number.parseInt(match[2], 10), speaker };
+}
+
+/**
+ * Render the configuration block embedded in the opening prompt
+ */
+export function renderDebateConfig(debate: AgentDebate, roster: DebateRoster): string {
+  const config: DebateThreadConfig = {
+    id: debate.id,
+    sessionId: debate.sessionId,
+    topic: debate.topic,
+    format: debate.format,
+    participants: debate.participants,
+    moderator: debate.moderator,
+    maxRounds: debate.maxRounds,
+    hypothesis: debate.hypothesis,
+    operatorResults: debate.operatorResults,
+    roster,
+    createdAt: debate.createdAt,
+  };
+  return ["```" + DEBATE_CONFIG_FENCE, JSON.stringify(config, null, 2), "```"].join("\n");
+}
+
+/**
+ * Extract the debate configuration from a message body
+ */
+export function parseDebateConfig(body: string): DebateThreadConfig | null {
+  const fence = new RegExp("```" + DEBATE_CONFIG_FENCE + "\\s*\\n([\\s\\S]*?)\\n```");
+  const match = body.match(fence);
+  if (!match) return null;
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(match[1]);
+  } catch {
+    return null;
+  }
+  if (typeof parsed !== "object" || parsed === null) return null;
+
+  const config = parsed as Partial<DebateThreadConfig>;
+  if (
+    typeof config.id !== "string" ||
+    typeof config.sessionId !== "string" ||
+    typeof config.topic !== "string" ||
+    !isDebateFormat(config.format) ||
+    !Array.isArray(config.participants) ||
+    !config.participants.every(isRole) ||
+    !(config.moderator === "system" || isRole(config.moderator)) ||
+    typeof config.maxRounds !== "number" ||
+    typeof config.hypothesis !== "object" ||
+    config.hypothesis === null
+  ) {
+    return null;
+  }
+
+  return {
+    ...(config as DebateThreadConfig),
+    operatorResults: config.operatorResults ?? {},
+    roster: config.roster ?? {},
+    createdAt: config.createdAt ?? new Date(0).toISOString(),
+  };
+}
+
+/**
+ * Parse a `role=AgentName,...` roster
+ */
+export function parseDebateRoster(value: string): DebateRoster {
+  const roster: DebateRoster = {};
+  for (const entry of value.split(",").map((part) => part.trim()).filter(Boolean)) {
+    const [rawRole, rawName] = entry.split("=").map((part) => part?.trim());
+    const role = rawRole?.toLowerCase().replace(/-/g, "_");
+    if (!role || !rawName || !isRole(role)) {
+      throw new Error(`Invalid roster entry "${entry}" (expected <role>=<agent>; roles: ${Object.keys(AGENT_PERSONAS).join(", ")})`);
+    }
+    roster[role] = rawName;
+  }
+  return roster;
+}
+
+/**
+ * Roles in the debate that still need an agent in the roster
+ */
+export function missingRosterRoles(debate: AgentDebate, roster: DebateRoster): TribunalAgentRole[] {
+  const speakers = new Set<TribunalAgentRole>(debate.participants);
+  if (debate.moderator !== "system" && debate.format === "socratic") speakers.add(debate.moderator);
+  return [...speakers].filter((role) => !roster[role]);
+}
+
+// ============================================================================
+// Thread Parsing
+// ============================================================================
+
+/**
+ * Rebuild a debate from its Agent Mail thread.
+ *
+ * Prompts are the orchestrator's `DEBATE[...]: Round N` messages; a round's
+ * statement is the first reply to its prompt (matched by reply_to, falling
+ * back to the round number in a "Re:" subject) from the rostered agent.
+ * Returns null when the thread has no debate configuration.
+ */
+export function parseDebateThread(threadId: string, messages: AgentMailMessage[]): DebateThreadState | null {
+  const sorted = [...messages].sort(
+    (a, b) => new Date(a.created_ts).getTime() - new Date(b.created_ts).getTime() || a.id - b.id
+  );
+
+  let config: DebateThreadConfig | null = null;
+  for (const message of sorted) {
+    if (!parseDebateSubject(message.subject) || typeof message.body_md !== "string") continue;
+    config = parseDebateConfig(message.body_md);
+    if (config) break;
+  }
+  if (!config) return null;
+
+  const prompts: DebatePrompt[] = [];
+  const replies: AgentMailMessage[] = [];
+  let concludedAt: string | undefined;
+
+  for (const message of sorted) {
+    const parsed = parseDebateSubject(message.subject);
+    const isReply = typeof message.reply_to === "number" || /^re:/i.test(message.subject.trim());
+
+    if (isReply) {
+      replies.push(message);
+      continue;
+    }
+    if (!parsed || parsed.debateId !== config.id) continue;
+
+    if (parsed.kind === "conclusion") {
+      concludedAt ??= message.created_ts;
+    } else if (parsed.speaker && !prompts.some((prompt) => prompt.round === parsed.round)) {
+      prompts.push({ round: parsed.round, speaker: parsed.speaker, messageId: message.id, sentAt: message.created_ts });
+    }
+  }
+
+  const promptById = new Map(prompts.map((prompt) => [prompt.messageId, prompt]));
+  const replyByRound = new Map<number, AgentMailMessage>();
+  for (const reply of replies) {
+    if (typeof reply.body_md !== "string" || reply.body_md.trim().length === 0) continue;
+
+    let prompt = typeof reply.reply_to === "number" ? promptById.get(reply.reply_to) : undefined;
+    if (!prompt) {
+      const parsed = parseDebateSubject(reply.subject);
+      if (parsed?.kind === "round" && parsed.debateId === config.id) {
+        prompt = prompts.find((candidate) => candidate.round === parsed.round);
+      }
+    }
+    if (!prompt || replyByRound.has(prompt.round)) continue;
+
+    const expected = config.roster[prompt.speaker];
+    if (expected && reply.from && reply.from !== expected) continue;
+    replyByRound.set(prompt.round, reply);
+  }
+
+  const rounds: DebateRound[] = [];
+  for (const prompt of [...prompts].sort((a, b) => a.round - b.round)) {
+    const reply = replyByRound.get(prompt.round);
+    if (!reply || prompt.round !== rounds.length + 1) break;
+
+    const round: DebateRound = {
+      number: prompt.round,
+      speaker: prompt.speaker,
+      content: reply.body_md as string,
+      messageId: reply.id,
+      replyingTo: prompt.round > 1 ? prompt.round - 1 : undefined,
+      recordedAt: reply.created_ts,
+    };
+    rounds.push({ ...round, analysis: analyzeRound(round) });
+  }
+
+  const awaiting = prompts.find((prompt) => prompt.round === rounds.length + 1) ?? null;
+  const lastActivity = sorted.length > 0 ? sorted[sorted.length - 1].created_ts : config.createdAt;
+
+  const debate: AgentDebate = {
+    id: config.id,
+    sessionId: config.sessionId,
+    topic: config.topic,
+    hypothesis: config.hypothesis,
+    operatorResults: config.operatorResults,
+    format: config.format,
+    participants: config.participants,
+    moderator: config.moderator,
+    threadId,
+    rounds,
+    maxRounds: config.maxRounds,
+    userInjections: [],
+    status: concludedAt ? "concluded" : rounds.length > 0 || prompts.length > 0 ? "in_progress" : "not_started",
+    createdAt: config.createdAt,
+    updatedAt: lastActivity,
+  };
+
+  return {
+    debate: concludedAt ? withConclusionTime(concludeDebate(debate), concludedAt) : debate,
+    roster: config.roster,
+    prompts,
+    awaiting,
+    concludedAt,
+  };
+}
+
+// ============================================================================
+// Judging
+// ============================================================================
+
+/**
+ * Extract `TEST:` and `CRITIQUE:` lines from a round
+ */
+export function extractRoundProposals(round: DebateRound): { tests: ProposedTest[]; critiques: string[] } {
+  const tests: ProposedTest[] = [];
+  const critiques: string[] = [];
+
+  for (const match of round.content.matchAll(PROPOSAL_PATTERN)) {
+    const text = match[2].replace(/\*\*/g, "").trim();
+    if (!text) continue;
+
+    if (match[1].toUpperCase() === "CRITIQUE") {
+      critiques.push(text);
+      continue;
+    }
+
+    const [name, procedure, discriminates] = text.split(/\s+(?:—|--|::)\s+/).map((part) => part.trim());
+    tests.push({
+      round: round.number,
+      speaker: round.speaker,
+      name,
+      procedure: procedure || name,
+      ...(discriminates ? { discriminates } : {}),
+    });
+  }
+
+  return { tests, critiques };
+}
+
+/**
+ * Score each side of a debate against DEBATE_JUDGE_RUBRIC.
+ *
+ * - Argument quality: per-round points (2), objections (1.5) and citations
+ *   (1), capped at 10 and averaged over the side's rounds.
+ * - Concession tracking: share of the opponent's objecting rounds the side
+ *   answered (up to 6) plus concessions given (2 each, up to 4).
+ * - New test proposals: 4 per proposed test, capped at 10.
+ */
+export function judgeDebate(debate: AgentDebate): DebateJudgement {
+  const rounds = debate.rounds.map((round) => ({ round, analysis: round.analysis ?? analyzeRound(round) }));
+  const sides = debate.participants;
+
+  const concessions: TrackedConcession[] = rounds.flatMap(({ round, analysis }) =>
+    analysis.concessionsGiven.map((text) => ({ round: round.number, speaker: round.speaker, text }))
+  );
+  const proposedTests: ProposedTest[] = [];
+  const critiques: DebateCritique[] = [];
+  const unanswered: DebateCritique[] = [];
+
+  rounds.forEach(({ round, analysis }, index) => {
+    const proposals = extractRoundProposals(round);
+    proposedTests.push(...proposals.tests);
+
+    const reply = rounds.slice(index + 1).find((next) => next.round.speaker !== round.speaker);
+    const conceded = (reply?.analysis.concessionsGiven.length ?? 0) > 0;
+    critiques.push(...proposals.critiques.map((attack) => ({ round: round.number, speaker: round.speaker, attack, conceded })));
+    if (!conceded) {
+      unanswered.push(
+        ...analysis.objectionsRaised.map((attack) => ({ round: round.number, speaker: round.speaker, attack, conceded }))
+      );
+    }
+  });
+
+  const scores: DebateSideScore[] = sides.map((speaker) => {
+    const own = rounds.filter(({ round }) => round.speaker === speaker);
+
+    const perRound = own.map(({ round, analysis }) => {
+      const citations = round.content.match(CITATION_PATTERN)?.length ?? 0;
+      return Math.min(
+        10,
+        analysis.newPointsMade.length * 2 + analysis.objectionsRaised.length * 1.5 + citations
+      );
+    });
+    const argumentQuality = perRound.length > 0 ? perRound.reduce((sum, value) => sum + value, 0) / perRound.length : 0;
+
+    let opportunities = 0;
+    let answered = 0;
+    rounds.forEach(({ round, analysis }, index) => {
+      if (round.speaker === speaker || analysis.objectionsRaised.length === 0) return;
+      const response = rounds.slice(index + 1).find((next) => next.round.speaker === speaker);
+      if (!response) return;
+      opportunities++;
+      if (response.analysis.concessionsGiven.length > 0 || response.analysis.objectionsRaised.length > 0) answered++;
+    });
+    const ownConcessions = concessions.filter((concession) => concession.speaker === speaker).length;
+    const answeredScore = own.length === 0 ? 0 : opportunities === 0 ? 6 : (6 * answered) / opportunities;
+    const concessionTracking = answeredScore + Math.min(4, ownConcessions * 2);
+
+    const newTestProposals = Math.min(10, proposedTests.filter((test) => test.speaker === speaker).length * 4);
+
+    const total =
+      argumentQuality * DEBATE_JUDGE_RUBRIC.argumentQuality.weight +
+      concessionTracking * DEBATE_JUDGE_RUBRIC.concessionTracking.weight +
+      newTestProposals * DEBATE_JUDGE_RUBRIC.newTestProposals.weight;
+
+    return {
+      speaker,
+      rounds: own.length,
+      argumentQuality: roundScore(argumentQuality),
+      concessionTracking: roundScore(concessionTracking),
+      newTestProposals: roundScore(newTestProposals),
+      total: roundScore(total),
+    };
+  });
+
+  const ranked = [...scores].sort((a, b) => b.total - a.total);
+  const winner = ranked.length > 0 && (ranked.length === 1 || ranked[0].total > ranked[1].total) ? ranked[0].speaker : null;
+
+  return {
+    sides: scores,
+    winner,
+    concessions,
+    proposedTests,
+    critiques: critiques.length > 0 ? critiques : unanswered.slice(0, MAX_FALLBACK_CRITIQUES),
+  };
+}
+
+// ============================================================================
+// Conclusion and Deltas
+// ============================================================================
+
+/**
+ * Turn a debate's proposed tests and critiques into artifact ADD deltas
+ */
+export function buildDebateDeltas(debate: AgentDebate, judgement: DebateJudgement): ValidDelta[] {
+  const scoreOf = (speaker: TribunalAgentRole) => judgement.sides.find((side) => side.speaker === speaker)?.total;
+  const attribution = (speaker: TribunalAgentRole, round: number) => {
+    const score = scoreOf(speaker);
+    return `${getPersona(speaker).displayName}, debate ${debate.id} round ${round}${score === undefined ? "" : ` (judge score ${score}/10)`}`;
+  };
+
+  const raws: Array<Record<string, unknown>> = [
+    ...judgement.proposedTests.map((test) => ({
+      operation: "ADD",
+      section: "discriminative_tests",
+      target_id: null,
+      payload: {
+        name: test.name,
+        procedure: test.procedure,
+        discriminates: test.discriminates ?? debate.hypothesis.statement,
+        expected_outcomes: {},
+        potency_check: "To be specified before running",
+      },
+      rationale: `Proposed by ${attribution(test.speaker, test.round)}`,
+    })),
+    ...judgement.critiques.map((critique) => ({
+      operation: "ADD",
+      section: "adversarial_critique",
+      target_id: null,
+      payload: {
+        name: truncate(critique.attack, 80),
+        attack: critique.attack,
+        evidence: `Raised by ${attribution(critique.speaker, critique.round)}`,
+        current_status: critique.conceded ? "Conceded during debate" : "Unresolved after debate",
+      },
+      rationale: `Critique from debate on: ${debate.topic}`,
+    })),
+  ];
+
+  return raws.flatMap((raw) => {
+    const parsed = validateDelta(raw, JSON.stringify(raw, null, 2));
+    return parsed.valid ? [parsed] : [];
+  });
+}
+
+/**
+ * Render the conclusion message: verdict, scores and delta blocks
+ */
+export function renderDebateConclusion(debate: AgentDebate, judgement: DebateJudgement, deltas: ValidDelta[]): string {
+  const conclusion = debate.conclusion;
+  const lines: string[] = [
+    `# Debate Conclusion: ${debate.topic}`,
+    "",
+    `**Debate**: ${debate.id}`,
+    `**Format**: ${DEBATE_FORMAT_CONFIGS[debate.format].name}`,
+    `**Rounds**: ${debate.rounds.length}`,
+    `**Winner**: ${judgement.winner ? getPersona(judgement.winner).displayName : "No clear winner"}`,
+    "",
+    "## Judge Scores",
+    "",
+    "| Side | Rounds | Argument quality | Concession tracking | New tests | Total |",
+    "| --- | --- | --- | --- | --- | --- |",
+    ...judgement.sides.map(
+      (side) =>
+        `| ${getPersona(side.speaker).displayName} | ${side.rounds} | ${side.argumentQuality} | ${side.concessionTracking} | ${side.newTestProposals} | ${side.total} |`
+    ),
+    "",
+  ];
+
+  if (conclusion) {
+    lines.push("## Summary", "", conclusion.summary, "", `**Key insight**: ${conclusion.keyInsight}`, "");
+  }
+
+  if (judgement.concessions.length > 0) {
+    lines.push("## Concessions", "");
+    for (const concession of judgement.concessions) {
+      lines.push(`- Round ${concession.round} (${getPersona(concession.speaker).displayName}): ${concession.text}`);
+    }
+    lines.push("");
+  }
+
+  if (deltas.length > 0) {
+    lines.push("## Deltas", "");
+    for (const delta of deltas) {
+      lines.push("```delta", delta.raw, "```", "");
+    }
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Conclude a debate rebuilt from its thread: judge it and build its deltas
+ */
+export function concludeDebateThread(state: DebateThreadState, now: Date = new Date()): DebateOutcome {
+  if (state.debate.rounds.length === 0) {
+    throw new Error(`Debate ${state.debate.id} has no recorded rounds to conclude.`);
+  }
+
+  const debate = withConclusionTime(concludeDebate(state.debate), now.toISOString());
+  const judgement = judgeDebate(debate);
+  const deltas = buildDebateDeltas(debate, judgement);
+  return { debate, judgement, deltas, body: renderDebateConclusion(debate, judgement, deltas) };
+}
+
+/**
+ * Merge a debate's deltas into the session artifact
+ */
+export function mergeDebateOutcome(artifact: Artifact, outcome: DebateOutcome, agentName = "debate-judge"): MergeResult {
+  const timestamp = outcome.debate.conclusion?.generatedAt ?? outcome.debate.updatedAt;
+  return mergeArtifact(artifact, outcome.deltas, agentName, timestamp);
+}
+
+// ============================================================================
+// Agent Mail
+// ============================================================================
+
+/**
+ * Build the prompt body for the next round
+ */
+export function buildDebateRoundMessage(debate: AgentDebate, speaker: TribunalAgentRole, roster: DebateRoster): string {
+  const parts: string[] = [];
+  if (debate.rounds.length === 0) {
+    parts.push(buildDebateOpeningPrompt(debate, speaker), "", renderDebateConfig(debate, roster), "");
+  } else {
+    parts.push(buildDebateFollowUpPrompt(debate, speaker, debate.rounds), "");
+  }
+
+  parts.push(
+    "## Reply Format",
+    "",
+    "Reply to this message with your statement. List any new discriminative tests and critiques on their own lines:",
+    "",
+    "- `TEST: <name> — <procedure> — <what it discriminates>`",
+    "- `CRITIQUE: <the attack>`",
+    ""
+  );
+
+  return parts.join("\n");
+}
+
+/**
+ * Send the prompt for the next round of a debate.
+ * Pass the state from readDebateThread, or a fresh debate with its roster.
+ */
+export async function sendDebateRound(
+  client: AgentMailClient,
+  state: Pick<DebateThreadState, "debate" | "roster" | "awaiting">,
+  options: DebateMailOptions
+): Promise<{ prompt: DebatePrompt } | { error: string }> {
+  const { debate, roster } = state;
+  if (state.awaiting) {
+    return { error: `Waiting for ${state.awaiting.speaker} to reply to round ${state.awaiting.round}.` };
+  }
+
+  const speaker = getNextSpeaker(debate);
+  if (!speaker) return { error: `Debate ${debate.id} has no further rounds.` };
+  const recipient = roster[speaker];
+  if (!recipient) return { error: `No agent assigned to ${speaker}.` };
+
+  const round = debate.rounds.length + 1;
+  try {
+    const result = await client.sendMessage({
+      projectKey: options.projectKey,
+      senderName: options.senderName,
+      to: [recipient],
+      subject: formatDebateRoundSubject(debate.id, round, speaker),
+      bodyMd: buildDebateRoundMessage(debate, speaker, roster),
+      threadId: debate.threadId,
+      importance: "normal",
+      ackRequired: false,
+    });
+
+    const [messageId] = deliveredMessageIds(result);
+    if (messageId === undefined) return { error: "Failed to extract message IDs from response" };
+    return { prompt: { round, speaker, messageId, sentAt: new Date().toISOString() } };
+  } catch (err) {
+    return { error: err instanceof Error ? err.message : String(err) };
+  }
+}
+
+/**
+ * Read a debate thread from Agent Mail
+ */
+export async function readDebateThread(
+  client: AgentMailClient,
+  args: { projectKey: string; threadId: string }
+): Promise<DebateThreadState | null> {
+  const thread = await client.readThread({ projectKey: args.projectKey, threadId: args.threadId, includeBodies: true });
+  return parseDebateThread(args.threadId, thread.messages);
+}
+
+/**
+ * Post a debate's conclusion to its thread and, when given, the session
+ * thread (where `session compile` merges its delta blocks).
+ */
+export async function postDebateConclusion(
+  client: AgentMailClient,
+  outcome: DebateOutcome,
+  roster: DebateRoster,
+  options: DebateMailOptions & { sessionThreadId?: string }
+): Promise<{ messageIds: number[] }> {
+  const recipients = [...new Set(Object.values(roster).filter((name): name is string => Boolean(name)))];
+  const threads = [outcome.debate.threadId, ...(options.sessionThreadId ? [options.sessionThreadId] : [])];
+  const messageIds: number[] = [];
+
+  for (const threadId of threads) {
+    const result = await client.sendMessage({
+      projectKey: options.projectKey,
+      senderName: options.senderName,
+      to: recipients.length > 0 ? recipients : [options.senderName],
+      subject: formatDebateConclusionSubject(outcome.debate.id),
+      bodyMd: outcome.body,
+      threadId,
+      importance: "normal",
+      ackRequired: false,
+    });
+    messageIds.push(...deliveredMessageIds(result));
+  }
+
+  return { messageIds };
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function isRole(value: unknown): value is TribunalAgentRole {
+  return typeof value === "string" && Object.prototype.hasOwnProperty.call(AGENT_PERSONAS, value);
+}
+
+function withConclusionTime(debate: AgentDebate, timestamp: string): AgentDebate {
+  return {
+    ...debate,
+    conclusion: debate.conclusion ? { ...debate.conclusion, generatedAt: timestamp } : undefined,
+    updatedAt: timestamp,
+  };
+}
+
+function roundScore(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+function truncate(text: string, max: number): string {
+  return text.length <= max ? text : `${text.slice(0, max - 1).trimEnd()}…`;
+}
+
+function deliveredMessageIds(result: AgentMailSendResult): number[] {
+  return (
+    result.deliveries
+      ?.map((delivery) => delivery.payload?.id)
+      .filter((id): id is number => typeof id === "number") ?? []
+  );
+}
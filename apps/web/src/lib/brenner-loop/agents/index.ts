@@ -418,3 +418,40 @@ export {
   isDebateStatus,
   isAgentDebate,
 } from "./debate";
+
+export type {
+  DebateRoster,
+  DebateThreadConfig,
+  DebatePrompt,
+  DebateThreadState,
+  DebateSideScore,
+  TrackedConcession,
+  ProposedTest,
+  DebateCritique,
+  DebateJudgement,
+  DebateOutcome,
+  DebateMailOptions,
+} from "./debate-mail";
+
+export {
+  DEBATE_CONFIG_FENCE,
+  DEBATE_JUDGE_RUBRIC,
+  formatDebateRoundSubject,
+  formatDebateConclusionSubject,
+  parseDebateSubject,
+  renderDebateConfig,
+  parseDebateConfig,
+  parseDebateRoster,
+  missingRosterRoles,
+  parseDebateThread,
+  extractRoundProposals,
+  judgeDebate,
+  buildDebateDeltas,
+  renderDebateConclusion,
+  concludeDebateThread,
+  mergeDebateOutcome,
+  buildDebateRoundMessage,
+  sendDebateRound,
+  readDebateThread,
+  postDebateConclusion,
+} from "./debate-mail";
@@ -72,6 +72,10 @@ const OPERATOR_KEYS: readonly OperatorType[] = [
   "exclusion_test",
   "object_transpose",
   "scale_check",
+  "paradox_hunt",
+  "invariant_extract",
+  "exception_quarantine",
+  "theory_kill",
 ];
 
 export type HypothesisOutcome = "falsified" | "robust" | "abandoned" | "in_progress";
@@ -118,6 +122,10 @@ function createEmptyOperatorDistribution(): Record<OperatorType, number> {
     exclusion_test: 0,
     object_transpose: 0,
     scale_check: 0,
+    paradox_hunt: 0,
+    invariant_extract: 0,
+    exception_quarantine: 0,
+    theory_kill: 0,
   };
 }
 
@@ -177,6 +185,10 @@ function countOperatorUsage(session: Session, distribution: Record<OperatorType,
   if (Array.isArray(apps.exclusionTest) && apps.exclusionTest.length > 0) distribution.exclusion_test += 1;
   if (Array.isArray(apps.objectTranspose) && apps.objectTranspose.length > 0) distribution.object_transpose += 1;
   if (Array.isArray(apps.scaleCheck) && apps.scaleCheck.length > 0) distribution.scale_check += 1;
+  if (Array.isArray(apps.paradoxHunt) && apps.paradoxHunt.length > 0) distribution.paradox_hunt += 1;
+  if (Array.isArray(apps.invariantExtract) && apps.invariantExtract.length > 0) distribution.invariant_extract += 1;
+  if (Array.isArray(apps.exceptionQuarantine) && apps.exceptionQuarantine.length > 0) distribution.exception_quarantine += 1;
+  if (Array.isArray(apps.theoryKill) && apps.theoryKill.length > 0) distribution.theory_kill += 1;
 }
 
 /**
@@ -325,6 +337,10 @@ export function computeFailureAnalytics(params: { sessions: Session[] }): Failur
         if (op === "exclusion_test") return Array.isArray(apps.exclusionTest) && apps.exclusionTest.length > 0;
         if (op === "object_transpose") return Array.isArray(apps.objectTranspose) && apps.objectTranspose.length > 0;
         if (op === "scale_check") return Array.isArray(apps.scaleCheck) && apps.scaleCheck.length > 0;
+        if (op === "paradox_hunt") return Array.isArray(apps.paradoxHunt) && apps.paradoxHunt.length > 0;
+        if (op === "invariant_extract") return Array.isArray(apps.invariantExtract) && apps.invariantExtract.length > 0;
+        if (op === "exception_quarantine") return Array.isArray(apps.exceptionQuarantine) && apps.exceptionQuarantine.length > 0;
+        if (op === "theory_kill") return Array.isArray(apps.theoryKill) && apps.theoryKill.length > 0;
         return false;
       })();
 
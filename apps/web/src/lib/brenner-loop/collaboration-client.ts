@@ -0,0 +1,207 @@
+/**
+ * Brenner Loop Collaboration Client
+ *
+ * Browser side of the collaboration relay: subscribes to a session's
+ * operation stream over SSE, posts local operations, and keeps the user's
+ * presence alive with periodic heartbeats. Operations that fail to post stay
+ * queued and are retried on the next send or heartbeat.
+ *
+ * Note: EventSource cannot attach custom headers, so lab auth must use
+ * cookies or CF Access (same as /api/realtime).
+ *
+ * @module brenner-loop/collaboration-client
+ */
+
+import type { CollabOp, CollaboratorPresence } from "./collaboration";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Default endpoint for the collaboration relay */
+export const SESSION_RELAY_ENDPOINT = "/api/realtime/sessions";
+
+/**
+ * Connection state shown to the user.
+ * - stale: the relay no longer has every operation since our cursor; reload
+ *   the session to be sure nothing was missed.
+ */
+export type CollaborationStatus = "connecting" | "live" | "offline" | "stale";
+
+/** Minimal EventSource surface the client relies on */
+export interface RelayEventSource {
+  addEventListener(type: string, listener: (event: MessageEvent) => void): void;
+  onerror: ((event: Event) => void) | null;
+  close(): void;
+}
+
+export interface SessionRelayClientOptions {
+  sessionId: string;
+  actor: string;
+  name: string;
+  /** Relay URL (defaults to /api/realtime/sessions; may point at `brenner relay serve`) */
+  endpoint?: string;
+  /** Heartbeat interval in ms (default: 10s) */
+  heartbeatMs?: number;
+  fetchImpl?: typeof fetch;
+  /** EventSource constructor (defaults to the browser's) */
+  eventSourceFactory?: (url: string) => RelayEventSource;
+  onOps: (ops: CollabOp[]) => void;
+  onPresence?: (presence: CollaboratorPresence[]) => void;
+  onStatus?: (status: CollaborationStatus) => void;
+}
+
+// ============================================================================
+// Implementation
+// ============================================================================
+
+function resolveUrl(endpoint: string): URL {
+  const base = typeof window !== "undefined" ? window.location.origin : "http://localhost";
+  return new URL(endpoint, base);
+}
+
+function parseData<T>(event: MessageEvent): T | null {
+  try {
+    return JSON.parse(String(event.data ?? "")) as T;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Connection to the collaboration relay for one session.
+ */
+export class SessionRelayClient {
+  private readonly options: SessionRelayClientOptions;
+  private readonly endpoint: string;
+  private readonly fetchImpl: typeof fetch;
+  private source: RelayEventSource | null = null;
+  private heartbeatId: ReturnType<typeof setInterval> | null = null;
+  private pending: CollabOp[] = [];
+  private flushing: Promise<void> | null = null;
+  private focus?: string;
+
+  constructor(options: SessionRelayClientOptions) {
+    this.options = options;
+    this.endpoint = options.endpoint ?? SESSION_RELAY_ENDPOINT;
+    this.fetchImpl = options.fetchImpl ?? ((input, init) => fetch(input, init));
+  }
+
+  /** Operations not yet accepted by the relay */
+  get pendingCount(): number {
+    return this.pending.length;
+  }
+
+  /**
+   * Open the event stream and start sending heartbeats.
+   */
+  connect(): void {
+    if (this.source) return;
+
+    const factory =
+      this.options.eventSourceFactory ??
+      (typeof EventSource !== "undefined" ? (url: string) => new EventSource(url) : null);
+    if (!factory) {
+      this.options.onStatus?.("offline");
+      return;
+    }
+
+    const url = resolveUrl(this.endpoint);
+    url.searchParams.set("sessionId", this.options.sessionId);
+
+    this.options.onStatus?.("connecting");
+    const source = factory(url.toString());
+    this.source = source;
+
+    source.addEventListener("ready", (event) => {
+      const data = parseData<{ truncated?: boolean }>(event);
+      this.options.onStatus?.(data?.truncated ? "stale" : "live");
+      void this.flush();
+    });
+    source.addEventListener("ops", (event) => {
+      const data = parseData<{ ops?: CollabOp[] }>(event);
+      if (data?.ops?.length) this.options.onOps(data.ops);
+    });
+    source.addEventListener("presence", (event) => {
+      const data = parseData<{ presence?: CollaboratorPresence[] }>(event);
+      if (data?.presence) this.options.onPresence?.(data.presence);
+    });
+    source.onerror = () => {
+      // EventSource reconnects on its own (resuming from Last-Event-ID)
+      this.options.onStatus?.("offline");
+    };
+
+    void this.heartbeat();
+    this.heartbeatId = setInterval(() => void this.heartbeat(), this.options.heartbeatMs ?? 10_000);
+  }
+
+  /**
+   * Close the stream and tell the relay we left.
+   */
+  disconnect(): void {
+    if (this.heartbeatId) clearInterval(this.heartbeatId);
+    this.heartbeatId = null;
+    if (!this.source) return;
+    this.source.close();
+    this.source = null;
+    void this.post({ leave: this.options.actor }).catch(() => {});
+  }
+
+  /**
+   * Queue operations for the relay and try to deliver them.
+   */
+  send(ops: CollabOp[]): Promise<void> {
+    if (ops.length > 0) this.pending.push(...ops);
+    return this.flush();
+  }
+
+  /**
+   * Update what this collaborator is looking at.
+   */
+  setFocus(focus: string | undefined): void {
+    if (focus === this.focus) return;
+    this.focus = focus;
+    if (this.source) void this.heartbeat();
+  }
+
+  private async post(body: Record<string, unknown>): Promise<{ presence?: CollaboratorPresence[] }> {
+    const response = await this.fetchImpl(this.endpoint, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ sessionId: this.options.sessionId, ...body }),
+    });
+    const payload = (await response.json()) as { success: boolean; error?: string; presence?: CollaboratorPresence[] };
+    if (!payload.success) throw new Error(payload.error ?? `Relay request failed (HTTP ${response.status})`);
+    return payload;
+  }
+
+  private async heartbeat(): Promise<void> {
+    try {
+      const { presence } = await this.post({
+        presence: { actor: this.options.actor, name: this.options.name, focus: this.focus },
+      });
+      if (presence) this.options.onPresence?.(presence);
+      await this.flush();
+    } catch {
+      this.options.onStatus?.("offline");
+    }
+  }
+
+  private flush(): Promise<void> {
+    if (this.flushing) return this.flushing;
+    this.flushing = (async () => {
+      try {
+        while (this.pending.length > 0) {
+          const batch = this.pending.slice();
+          await this.post({ ops: batch });
+          this.pending.splice(0, batch.length);
+        }
+      } catch {
+        this.options.onStatus?.("offline");
+      } finally {
+        this.flushing = null;
+      }
+    })();
+    return this.flushing;
+  }
+}
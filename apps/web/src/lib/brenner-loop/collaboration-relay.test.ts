@@ -0,0 +1,285 @@
+/**
+ * Tests for the collaboration relay and its client
+ */
+
+import { describe, it, expect, vi } from "vitest";
+import { createHypothesisCard } from "./hypothesis";
+import { createSession, type Session } from "./types";
+import { createCollabDocument, recordLocalChanges, type CollabOp, type CollaboratorPresence } from "./collaboration";
+import {
+  SessionRelay,
+  createRelayActorToken,
+  handleSessionRelayRequest,
+  verifyRelayActorToken,
+  type SessionRelayRequestOptions,
+} from "./collaboration-relay";
+import { SessionRelayClient, type RelayEventSource } from "./collaboration-client";
+
+// ============================================================================
+// Fixtures
+// ============================================================================
+
+const SESSION_ID = "SESSION-2026-10-18-002";
+const H1 = `HC-${SESSION_ID}-001-v1`;
+
+function baseSession(): Session {
+  const session = createSession({ id: SESSION_ID });
+  session.primaryHypothesisId = H1;
+  session.hypothesisCards[H1] = createHypothesisCard({
+    id: H1,
+    sessionId: SESSION_ID,
+    statement: "Worm neurons are specified by lineage",
+    mechanism: "Cell-autonomous lineage program",
+    predictionsIfTrue: ["Ablating a precursor removes its descendants"],
+    impossibleIfTrue: ["Descendants regenerate from neighbours"],
+  });
+  return session;
+}
+
+function confidenceOps(actor: string, confidence: number): CollabOp[] {
+  const session = baseSession();
+  const next = structuredClone(session);
+  next.hypothesisCards[H1].confidence = confidence;
+  return recordLocalChanges(createCollabDocument(session), next, actor).ops;
+}
+
+function post(relay: SessionRelay, body: unknown, options?: SessionRelayRequestOptions): Promise<Response> {
+  return handleSessionRelayRequest(
+    new Request("http://relay.test/", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    }),
+    relay,
+    options
+  );
+}
+
+async function readEvents(response: Response, count: number): Promise<Array<{ event: string; data: unknown }>> {
+  const reader = response.body!.getReader();
+  const decoder = new TextDecoder();
+  const events: Array<{ event: string; data: unknown }> = [];
+  let buffer = "";
+
+  while (events.length < count) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    let boundary = buffer.indexOf("\n\n");
+    while (boundary >= 0 && events.length < count) {
+      const block = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+      const event = block.match(/^event: (.*)$/m)?.[1] ?? "";
+      const data = block.match(/^data: (.*)$/m)?.[1];
+      events.push({ event, data: data ? JSON.parse(data) : undefined });
+      boundary = buffer.indexOf("\n\n");
+    }
+  }
+
+  await reader.cancel();
+  return events;
+}
+
+/**
+ * EventSource stand-in wired straight to a relay's subscriptions.
+ */
+function relayEventSource(relay: SessionRelay): (url: string) => RelayEventSource {
+  return (url) => {
+    const sessionId = new URL(url).searchParams.get("sessionId")!;
+    const listeners = new Map<string, Array<(event: MessageEvent) => void>>();
+    const fire = (type: string, data: unknown) => {
+      for (const listener of listeners.get(type) ?? []) {
+        listener(new MessageEvent(type, { data: JSON.stringify(data) }));
+      }
+    };
+    const unsubscribe = relay.subscribe(sessionId, (event) => {
+      if (event.type === "ops") fire("ops", { seq: event.seq, ops: event.ops });
+      else fire("presence", { presence: event.presence });
+    });
+    queueMicrotask(() => fire("ready", { sessionId, seq: relay.currentSeq(sessionId), truncated: false }));
+    return {
+      addEventListener(type, listener) {
+        listeners.set(type, [...(listeners.get(type) ?? []), listener]);
+      },
+      onerror: null,
+      close: unsubscribe,
+    };
+  };
+}
+
+function relayFetch(relay: SessionRelay): typeof fetch {
+  return async (input, init) =>
+    handleSessionRelayRequest(new Request(new URL(String(input), "http://relay.test"), init), relay);
+}
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe("SessionRelay", () => {
+  it("sequences operations, drops duplicates and reports truncated cursors", () => {
+    const relay = new SessionRelay({ maxOpsPerSession: 2 });
+    const ops = [...confidenceOps("alice", 10), ...confidenceOps("bob", 20), ...confidenceOps("cy", 30)];
+
+    expect(relay.publish(SESSION_ID, ops.slice(0, 2))).toEqual({ seq: 2, accepted: 2 });
+    expect(relay.publish(SESSION_ID, ops.slice(0, 2))).toEqual({ seq: 2, accepted: 0 });
+    expect(relay.publish("SESSION-OTHER", ops)).toEqual({ seq: 0, accepted: 0 });
+    relay.publish(SESSION_ID, ops);
+
+    expect(relay.opsSince(SESSION_ID, 2)).toEqual({ seq: 3, ops: [ops[2]], truncated: false });
+    expect(relay.opsSince(SESSION_ID, 0).truncated).toBe(true);
+    expect(relay.opsSince(SESSION_ID, 9).truncated).toBe(true);
+    expect(relay.opsSince(SESSION_ID, 3)).toEqual({ seq: 3, ops: [], truncated: false });
+  });
+
+  it("tracks presence with expiry and leave", () => {
+    const relay = new SessionRelay({ presenceTtlMs: 1000 });
+    const seen: CollaboratorPresence[][] = [];
+    relay.subscribe(SESSION_ID, (event) => {
+      if (event.type === "presence") seen.push(event.presence);
+    });
+
+    const start = new Date("2026-10-18T12:00:00Z");
+    relay.touch(SESSION_ID, "alice", "Alice", "sharpening", start);
+    relay.touch(SESSION_ID, "bob", "Bob", undefined, new Date(start.getTime() + 500));
+    expect(relay.presence(SESSION_ID, start.getTime() + 1200).map((p) => p.actor)).toEqual(["bob"]);
+    expect(seen[1].map((p) => p.name)).toEqual(["Alice", "Bob"]);
+
+    expect(relay.leave(SESSION_ID, "bob")).toEqual([]);
+  });
+});
+
+describe("handleSessionRelayRequest", () => {
+  it("validates posts", async () => {
+    const relay = new SessionRelay();
+    expect((await post(relay, { ops: [] })).status).toBe(400);
+    expect((await post(relay, { sessionId: SESSION_ID, ops: [{ id: "x" }] })).status).toBe(400);
+    expect((await post(relay, { sessionId: SESSION_ID, presence: { name: "No actor" } })).status).toBe(400);
+
+    const missing = await handleSessionRelayRequest(new Request("http://relay.test/"), relay);
+    expect(missing.status).toBe(400);
+    const wrongMethod = await handleSessionRelayRequest(new Request("http://relay.test/", { method: "PUT" }), relay);
+    expect(wrongMethod.status).toBe(405);
+  });
+
+  it("accepts operations and replays them to late subscribers", async () => {
+    const relay = new SessionRelay();
+    const ops = confidenceOps("alice", 75);
+
+    const posted = await post(relay, { sessionId: SESSION_ID, ops, presence: { actor: "alice", name: "Alice" } });
+    const body = (await posted.json()) as { success: boolean; seq: number; accepted: number; presence: CollaboratorPresence[] };
+    expect(body).toMatchObject({ success: true, seq: 1, accepted: 1 });
+    expect(body.presence.map((p) => p.actor)).toEqual(["alice"]);
+
+    const controller = new AbortController();
+    const stream = await handleSessionRelayRequest(
+      new Request(`http://relay.test/?sessionId=${SESSION_ID}&cursor=0`, { signal: controller.signal }),
+      relay
+    );
+    expect(stream.headers.get("Content-Type")).toContain("text/event-stream");
+
+    const events = await readEvents(stream, 4);
+    controller.abort();
+    expect(events.map((e) => e.event)).toEqual(["connected", "ready", "ops", "presence"]);
+    expect(events[2].data).toEqual({ seq: 1, ops: JSON.parse(JSON.stringify(ops)) });
+  });
+
+  it("stamps presence with the authenticated actor and refuses ops stamped by others", async () => {
+    const relay = new SessionRelay();
+    const alice = { actor: "alice" };
+
+    const spoofed = await post(relay, { sessionId: SESSION_ID, ops: confidenceOps("bob", 5) }, alice);
+    expect(spoofed.status).toBe(403);
+    expect(relay.currentSeq(SESSION_ID)).toBe(0);
+
+    const posted = await post(
+      relay,
+      { sessionId: SESSION_ID, ops: confidenceOps("alice", 75), presence: { actor: "bob", name: "Bob" } },
+      alice
+    );
+    const body = (await posted.json()) as { accepted: number; presence: CollaboratorPresence[] };
+    expect(body.accepted).toBe(1);
+    expect(body.presence.map((p) => [p.actor, p.name])).toEqual([["alice", "Bob"]]);
+
+    relay.touch(SESSION_ID, "bob", "Bob");
+    const left = await post(relay, { sessionId: SESSION_ID, leave: "bob" }, alice);
+    expect(((await left.json()) as { presence: CollaboratorPresence[] }).presence.map((p) => p.actor)).toEqual(["bob"]);
+  });
+});
+
+describe("relay actor tokens", () => {
+  it("round-trips the actor and rejects other secrets or edits", () => {
+    const token = createRelayActorToken("secret", "alice.lab");
+    expect(verifyRelayActorToken("secret", token)).toBe("alice.lab");
+    expect(verifyRelayActorToken("other", token)).toBeNull();
+    expect(verifyRelayActorToken("secret", token.replace("alice", "bob"))).toBeNull();
+    expect(verifyRelayActorToken("secret", "secret")).toBeNull();
+  });
+});
+
+describe("SessionRelayClient", () => {
+  it("delivers one collaborator's operations and presence to another", async () => {
+    const relay = new SessionRelay();
+    const received: CollabOp[] = [];
+    let bobPresence: CollaboratorPresence[] = [];
+
+    const alice = new SessionRelayClient({
+      sessionId: SESSION_ID,
+      actor: "alice",
+      name: "Alice",
+      fetchImpl: relayFetch(relay),
+      eventSourceFactory: relayEventSource(relay),
+      onOps: () => {},
+    });
+    const bob = new SessionRelayClient({
+      sessionId: SESSION_ID,
+      actor: "bob",
+      name: "Bob",
+      fetchImpl: relayFetch(relay),
+      eventSourceFactory: relayEventSource(relay),
+      onOps: (ops) => received.push(...ops),
+      onPresence: (presence) => {
+        bobPresence = presence;
+      },
+    });
+
+    alice.connect();
+    bob.connect();
+    const ops = confidenceOps("alice", 42);
+    await alice.send(ops);
+
+    expect(alice.pendingCount).toBe(0);
+    expect(received.map((op) => op.id)).toEqual(ops.map((op) => op.id));
+    await vi.waitFor(() => expect(bobPresence.map((p) => p.actor).sort()).toEqual(["alice", "bob"]));
+
+    alice.disconnect();
+    bob.disconnect();
+    await vi.waitFor(() => expect(relay.presence(SESSION_ID)).toEqual([]));
+  });
+
+  it("keeps operations queued while the relay is unreachable", async () => {
+    const relay = new SessionRelay();
+    let online = false;
+    const statuses: string[] = [];
+    const client = new SessionRelayClient({
+      sessionId: SESSION_ID,
+      actor: "alice",
+      name: "Alice",
+      fetchImpl: async (input, init) => {
+        if (!online) throw new TypeError("Failed to fetch");
+        return relayFetch(relay)(input, init);
+      },
+      onOps: () => {},
+      onStatus: (status) => statuses.push(status),
+    });
+
+    await client.send(confidenceOps("alice", 12));
+    expect(client.pendingCount).toBe(1);
+    expect(statuses).toContain("offline");
+
+    online = true;
+    await client.send([]);
+    expect(client.pendingCount).toBe(0);
+    expect(relay.currentSeq(SESSION_ID)).toBe(1);
+  });
+});
@@ -0,0 +1,427 @@
+/**
+ * Brenner Loop Collaboration Relay
+ *
+ * Small fan-out hub for collaborative sessions. It keeps a bounded
+ * operation log and presence list per session in memory and streams both to
+ * subscribers over Server-Sent Events. The relay never interprets
+ * operations; replicas merge them (see ./collaboration).
+ *
+ * `handleSessionRelayRequest` speaks plain Request/Response so the same
+ * protocol is served by the lab-mode `/api/realtime/sessions` route and by
+ * the standalone `brenner relay serve` command.
+ *
+ * Protocol:
+ *   GET  ?sessionId=&cursor=     → SSE: connected, ready, ops (id = seq), presence, ping
+ *   POST { sessionId, ops?, presence?: { actor, name, focus? }, leave?: actor }
+ *
+ * When the caller knows who is connected (`brenner relay serve` with actor
+ * tokens), presence and leave are stamped with that actor and operations
+ * stamped by anyone else are refused; otherwise the body's actor is trusted.
+ *
+ * @module brenner-loop/collaboration-relay
+ */
+
+import { createHmac, timingSafeEqual } from "node:crypto";
+import {
+  activeCollaborators,
+  isCollabOp,
+  presenceColor,
+  PRESENCE_TTL_MS,
+  type CollabOp,
+  type CollaboratorPresence,
+} from "./collaboration";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface SessionRelayRequestOptions {
+  /** Authenticated collaborator for this request (overrides the body's actor) */
+  actor?: string;
+}
+
+export interface SessionRelayOptions {
+  /** Operations retained per session (default: 5000) */
+  maxOpsPerSession?: number;
+  /** Presence expiry (default: PRESENCE_TTL_MS) */
+  presenceTtlMs?: number;
+}
+
+/**
+ * Something a subscriber is told about.
+ */
+export type SessionRelayEvent =
+  | { type: "ops"; seq: number; ops: CollabOp[] }
+  | { type: "presence"; presence: CollaboratorPresence[] };
+
+/**
+ * Operations after a cursor. `truncated` means the cursor is older than the
+ * retained log, so the client must reload the session before applying them.
+ */
+export interface SessionRelayBacklog {
+  seq: number;
+  ops: CollabOp[];
+  truncated: boolean;
+}
+
+interface RelayChannel {
+  seq: number;
+  log: Array<{ seq: number; op: CollabOp }>;
+  opIds: Set<string>;
+  presence: Map<string, CollaboratorPresence>;
+  listeners: Set<(event: SessionRelayEvent) => void>;
+}
+
+// ============================================================================
+// Relay
+// ============================================================================
+
+/**
+ * In-memory relay for collaborative session operations and presence.
+ */
+export class SessionRelay {
+  private readonly maxOps: number;
+  private readonly presenceTtlMs: number;
+  private readonly channels = new Map<string, RelayChannel>();
+
+  constructor(options: SessionRelayOptions = {}) {
+    this.maxOps = options.maxOpsPerSession ?? 5000;
+    this.presenceTtlMs = options.presenceTtlMs ?? PRESENCE_TTL_MS;
+  }
+
+  private channel(sessionId: string): RelayChannel {
+    let channel = this.channels.get(sessionId);
+    if (!channel) {
+      channel = { seq: 0, log: [], opIds: new Set(), presence: new Map(), listeners: new Set() };
+      this.channels.set(sessionId, channel);
+    }
+    return channel;
+  }
+
+  private emit(channel: RelayChannel, event: SessionRelayEvent): void {
+    for (const listener of channel.listeners) {
+      try {
+        listener(event);
+      } catch (error) {
+        console.warn("[SessionRelay] Listener failed:", error);
+      }
+    }
+  }
+
+  /**
+   * Append operations to a session's log. Operations already seen (by id) or
+   * addressed to another session are ignored.
+   */
+  publish(sessionId: string, ops: CollabOp[]): { seq: number; accepted: number } {
+    const channel = this.channel(sessionId);
+    const fresh = ops.filter((op) => op.sessionId === sessionId && !channel.opIds.has(op.id));
+    if (fresh.length === 0) return { seq: channel.seq, accepted: 0 };
+
+    for (const op of fresh) {
+      channel.seq += 1;
+      channel.log.push({ seq: channel.seq, op });
+      channel.opIds.add(op.id);
+    }
+    if (channel.log.length > this.maxOps) {
+      for (const dropped of channel.log.splice(0, channel.log.length - this.maxOps)) {
+        channel.opIds.delete(dropped.op.id);
+      }
+    }
+
+    this.emit(channel, { type: "ops", seq: channel.seq, ops: fresh });
+    return { seq: channel.seq, accepted: fresh.length };
+  }
+
+  /**
+   * Sequence number of the latest operation on a session.
+   */
+  currentSeq(sessionId: string): number {
+    return this.channel(sessionId).seq;
+  }
+
+  /**
+   * Operations published after `cursor` (0 = from the beginning). A cursor
+   * ahead of the log (the relay restarted) also counts as truncated.
+   */
+  opsSince(sessionId: string, cursor: number): SessionRelayBacklog {
+    const channel = this.channel(sessionId);
+    const oldest = channel.log[0]?.seq ?? channel.seq + 1;
+    return {
+      seq: channel.seq,
+      ops: channel.log.filter((entry) => entry.seq > cursor).map((entry) => entry.op),
+      truncated: (cursor + 1 < oldest && cursor < channel.seq) || cursor > channel.seq,
+    };
+  }
+
+  /**
+   * Record a heartbeat from a collaborator and broadcast the presence list.
+   */
+  touch(sessionId: string, actor: string, name: string, focus?: string, now = new Date()): CollaboratorPresence[] {
+    const channel = this.channel(sessionId);
+    channel.presence.set(actor, {
+      actor,
+      name,
+      color: presenceColor(actor),
+      sessionId,
+      focus,
+      lastSeenAt: now.toISOString(),
+    });
+    const presence = this.presence(sessionId, now.getTime());
+    this.emit(channel, { type: "presence", presence });
+    return presence;
+  }
+
+  /**
+   * Remove a collaborator and broadcast the presence list.
+   */
+  leave(sessionId: string, actor: string): CollaboratorPresence[] {
+    const channel = this.channel(sessionId);
+    channel.presence.delete(actor);
+    const presence = this.presence(sessionId);
+    this.emit(channel, { type: "presence", presence });
+    return presence;
+  }
+
+  /**
+   * Collaborators currently present (expired entries are pruned).
+   */
+  presence(sessionId: string, now = Date.now()): CollaboratorPresence[] {
+    const channel = this.channel(sessionId);
+    const active = activeCollaborators([...channel.presence.values()], now, this.presenceTtlMs);
+    const activeActors = new Set(active.map((entry) => entry.actor));
+    for (const actor of channel.presence.keys()) {
+      if (!activeActors.has(actor)) channel.presence.delete(actor);
+    }
+    return active;
+  }
+
+  /**
+   * Listen for operations and presence changes on a session.
+   * @returns Unsubscribe function
+   */
+  subscribe(sessionId: string, listener: (event: SessionRelayEvent) => void): () => void {
+    const channel = this.channel(sessionId);
+    channel.listeners.add(listener);
+    return () => {
+      channel.listeners.delete(listener);
+    };
+  }
+}
+
+const GLOBAL_RELAY_KEY = "__brennerSessionRelay";
+
+/**
+ * Process-wide relay shared by route handlers (survives dev hot reloads).
+ */
+export function getSessionRelay(): SessionRelay {
+  const globals = globalThis as unknown as Record<string, unknown>;
+  if (!globals[GLOBAL_RELAY_KEY]) {
+    globals[GLOBAL_RELAY_KEY] = new SessionRelay();
+  }
+  return globals[GLOBAL_RELAY_KEY] as SessionRelay;
+}
+
+// ============================================================================
+// Actor Tokens
+// ============================================================================
+
+function actorSignature(secret: string, actor: string): string {
+  return createHmac("sha256", secret).update(actor).digest("hex");
+}
+
+/**
+ * Token that authenticates one collaborator to a relay holding `secret`:
+ * `{actor}.{hmac}`, so the relay learns who is connected without a user store.
+ */
+export function createRelayActorToken(secret: string, actor: string): string {
+  return `${actor}.${actorSignature(secret, actor)}`;
+}
+
+/**
+ * The actor a token was issued for, or null if it was not signed with `secret`.
+ */
+export function verifyRelayActorToken(secret: string, token: string): string | null {
+  const dot = token.lastIndexOf(".");
+  if (dot <= 0) return null;
+  const actor = token.slice(0, dot);
+  const expected = Buffer.from(actorSignature(secret, actor));
+  const provided = Buffer.from(token.slice(dot + 1));
+  return provided.length === expected.length && timingSafeEqual(provided, expected) ? actor : null;
+}
+
+// ============================================================================
+// HTTP Protocol
+// ============================================================================
+
+const PING_INTERVAL_MS = 15_000;
+
+interface RelayPostBody {
+  sessionId?: unknown;
+  ops?: unknown;
+  presence?: { actor?: unknown; name?: unknown; focus?: unknown };
+  leave?: unknown;
+}
+
+function formatSseEvent(params: { id?: number; event: string; data?: unknown; retryMs?: number; comment?: string }): string {
+  const lines: string[] = [];
+
+  if (params.comment) lines.push(`: ${params.comment}`);
+  if (typeof params.retryMs === "number") lines.push(`retry: ${params.retryMs}`);
+  if (typeof params.id === "number") lines.push(`id: ${params.id}`);
+  lines.push(`event: ${params.event}`);
+
+  if (params.data !== undefined) {
+    for (const line of JSON.stringify(params.data).split(/\r?\n/)) {
+      lines.push(`data: ${line}`);
+    }
+  }
+
+  lines.push("", "");
+  return lines.join("\n");
+}
+
+function validationError(error: string): Response {
+  return Response.json({ success: false, error, code: "VALIDATION_ERROR" }, { status: 400 });
+}
+
+function parseCursor(value: string | null): number | null {
+  if (value === null || value.trim() === "") return null;
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed >= 0 ? parsed : null;
+}
+
+function streamSession(request: Request, relay: SessionRelay, sessionId: string): Response {
+  const url = new URL(request.url);
+  const cursorParam = parseCursor(url.searchParams.get("cursor"));
+  const headerCursor = parseCursor(request.headers.get("last-event-id"));
+  const cursor = Math.max(cursorParam ?? 0, headerCursor ?? 0);
+
+  const encoder = new TextEncoder();
+  let unsubscribe: (() => void) | null = null;
+  let pingId: ReturnType<typeof setInterval> | null = null;
+  let abortHandler: (() => void) | null = null;
+
+  const stop = () => {
+    unsubscribe?.();
+    unsubscribe = null;
+    if (pingId) clearInterval(pingId);
+    pingId = null;
+    if (abortHandler) request.signal.removeEventListener("abort", abortHandler);
+  };
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const send = (data: string) => {
+        try {
+          controller.enqueue(encoder.encode(data));
+        } catch {
+          stop();
+        }
+      };
+
+      send(formatSseEvent({ event: "connected", retryMs: 3000, comment: "brennerbot session relay" }));
+
+      const backlog = relay.opsSince(sessionId, cursor);
+      send(formatSseEvent({ id: backlog.seq, event: "ready", data: { sessionId, seq: backlog.seq, truncated: backlog.truncated } }));
+      if (backlog.ops.length > 0 && !backlog.truncated) {
+        send(formatSseEvent({ id: backlog.seq, event: "ops", data: { seq: backlog.seq, ops: backlog.ops } }));
+      }
+      send(formatSseEvent({ event: "presence", data: { presence: relay.presence(sessionId) } }));
+
+      unsubscribe = relay.subscribe(sessionId, (event) => {
+        if (event.type === "ops") {
+          send(formatSseEvent({ id: event.seq, event: "ops", data: { seq: event.seq, ops: event.ops } }));
+        } else {
+          send(formatSseEvent({ event: "presence", data: { presence: event.presence } }));
+        }
+      });
+
+      pingId = setInterval(() => send(formatSseEvent({ event: "ping", comment: "idle" })), PING_INTERVAL_MS);
+
+      abortHandler = () => {
+        stop();
+        try {
+          controller.close();
+        } catch {}
+      };
+      request.signal.addEventListener("abort", abortHandler, { once: true });
+    },
+    cancel() {
+      stop();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+    },
+  });
+}
+
+async function receive(request: Request, relay: SessionRelay, options: SessionRelayRequestOptions): Promise<Response> {
+  let body: RelayPostBody;
+  try {
+    body = (await request.json()) as RelayPostBody;
+  } catch {
+    return validationError("Invalid JSON body");
+  }
+
+  const sessionId = typeof body?.sessionId === "string" ? body.sessionId.trim() : "";
+  if (!sessionId) return validationError("Missing sessionId");
+
+  let published = { seq: relay.currentSeq(sessionId), accepted: 0 };
+  if (body.ops !== undefined) {
+    if (!Array.isArray(body.ops) || !body.ops.every(isCollabOp)) {
+      return validationError("ops must be an array of collaboration operations");
+    }
+    const authenticated = options.actor;
+    if (authenticated !== undefined && body.ops.some((op) => op.stamp.actor !== authenticated)) {
+      return Response.json(
+        { success: false, error: `ops must be stamped with your actor (${authenticated})`, code: "AUTH_ERROR" },
+        { status: 403 }
+      );
+    }
+    published = relay.publish(sessionId, body.ops);
+  }
+
+  let presence: CollaboratorPresence[] | undefined;
+  if (body.presence !== undefined) {
+    const { name, focus } = body.presence ?? {};
+    const actor = options.actor ?? body.presence?.actor;
+    if (typeof actor !== "string" || !actor.trim() || typeof name !== "string") {
+      return validationError("presence requires actor and name");
+    }
+    presence = relay.touch(sessionId, actor.trim(), name, typeof focus === "string" ? focus : undefined);
+  }
+  if (typeof body.leave === "string") {
+    presence = relay.leave(sessionId, options.actor ?? body.leave);
+  }
+
+  return Response.json({
+    success: true,
+    seq: published.seq,
+    accepted: published.accepted,
+    presence: presence ?? relay.presence(sessionId),
+  });
+}
+
+/**
+ * Serve the relay protocol for one request.
+ */
+export async function handleSessionRelayRequest(
+  request: Request,
+  relay: SessionRelay,
+  options: SessionRelayRequestOptions = {}
+): Promise<Response> {
+  if (request.method === "POST") return receive(request, relay, options);
+  if (request.method !== "GET") {
+    return Response.json({ success: false, error: "Method not allowed", code: "VALIDATION_ERROR" }, { status: 405 });
+  }
+
+  const sessionId = new URL(request.url).searchParams.get("sessionId")?.trim();
+  if (!sessionId) return validationError("Missing sessionId query param");
+  return streamSession(request, relay, sessionId);
+}
@@ -0,0 +1,276 @@
+/**
+ * Tests for the collaboration operation log
+ */
+
+import { describe, it, expect } from "vitest";
+import { createHypothesisCard } from "./hypothesis";
+import { createSession, type EvidenceEntry, type Session } from "./types";
+import {
+  activeCollaborators,
+  applyCollabOps,
+  compareStamps,
+  createCollabDocument,
+  diffSessionChanges,
+  isCollabOp,
+  presenceColor,
+  recordLocalChanges,
+  type CollabDocument,
+  type CollabOp,
+} from "./collaboration";
+
+// ============================================================================
+// Fixtures
+// ============================================================================
+
+const SESSION_ID = "SESSION-2026-10-18-001";
+const H1 = `HC-${SESSION_ID}-001-v1`;
+const H2 = `HC-${SESSION_ID}-002-v1`;
+
+function baseSession(): Session {
+  const session = createSession({ id: SESSION_ID });
+  const card = createHypothesisCard({
+    id: H1,
+    sessionId: SESSION_ID,
+    statement: "Cells count divisions via telomere length",
+    mechanism: "Telomere shortening gates division",
+    predictionsIfTrue: ["Longer telomeres allow more divisions"],
+    impossibleIfTrue: ["Division count independent of telomere length"],
+  });
+  session.primaryHypothesisId = card.id;
+  session.hypothesisCards[card.id] = card;
+  return session;
+}
+
+function evidence(id: string, recordedAt: string, observation = "observed"): EvidenceEntry {
+  return {
+    id,
+    testId: "T-1",
+    recordedAt,
+    observation,
+    potencyCheckPassed: true,
+    recordedBy: "tester",
+  };
+}
+
+function edit(session: Session, update: (draft: Session) => void): Session {
+  const draft = structuredClone(session);
+  update(draft);
+  return draft;
+}
+
+function normalized(doc: CollabDocument): unknown {
+  const cards = Object.fromEntries(
+    Object.entries(doc.session.hypothesisCards).map(([id, card]) => [
+      id,
+      {
+        ...card,
+        predictionsIfTrue: [...card.predictionsIfTrue].sort(),
+        predictionsIfFalse: [...card.predictionsIfFalse].sort(),
+        impossibleIfTrue: [...card.impossibleIfTrue].sort(),
+      },
+    ])
+  );
+  return {
+    cards,
+    evidence: doc.session.evidenceLedger,
+    alternatives: [...doc.session.alternativeHypothesisIds].sort(),
+  };
+}
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe("diffSessionChanges", () => {
+  it("describes card field, prediction and evidence edits", () => {
+    const before = baseSession();
+    const after = edit(before, (draft) => {
+      draft.hypothesisCards[H1].confidence = 80;
+      draft.hypothesisCards[H1].predictionsIfTrue = ["Telomerase knockout shortens lifespan"];
+      draft.evidenceLedger.push(evidence("EV-1", "2026-10-18T10:00:00Z"));
+    });
+
+    const changes = diffSessionChanges(before, after);
+    expect(changes).toEqual(
+      expect.arrayContaining([
+        { kind: "hypothesis_field", hypothesisId: H1, field: "confidence", value: 80 },
+        { kind: "prediction_add", hypothesisId: H1, list: "predictionsIfTrue", text: "Telomerase knockout shortens lifespan" },
+        { kind: "prediction_remove", hypothesisId: H1, list: "predictionsIfTrue", text: "Longer telomeres allow more divisions" },
+        expect.objectContaining({ kind: "evidence_put" }),
+      ])
+    );
+    expect(changes).toHaveLength(4);
+    expect(diffSessionChanges(after, after)).toEqual([]);
+  });
+});
+
+describe("collaborative merge", () => {
+  it("converges when two people edit different parts concurrently", () => {
+    const session = baseSession();
+    const alice = recordLocalChanges(
+      createCollabDocument(session),
+      edit(session, (draft) => {
+        draft.hypothesisCards[H1].mechanism = "Shelterin loss triggers arrest";
+        draft.hypothesisCards[H1].predictionsIfTrue.push("Alice's prediction");
+      }),
+      "alice"
+    );
+    const bob = recordLocalChanges(
+      createCollabDocument(session),
+      edit(session, (draft) => {
+        draft.hypothesisCards[H1].predictionsIfTrue.push("Bob's prediction");
+        draft.evidenceLedger.push(evidence("EV-1", "2026-10-18T10:00:00Z"));
+      }),
+      "bob"
+    );
+
+    const atAlice = applyCollabOps(alice.document, bob.ops);
+    const atBob = applyCollabOps(bob.document, alice.ops);
+
+    expect(normalized(atAlice)).toEqual(normalized(atBob));
+    const card = atAlice.session.hypothesisCards[H1];
+    expect(card.mechanism).toBe("Shelterin loss triggers arrest");
+    expect(card.predictionsIfTrue).toEqual(
+      expect.arrayContaining(["Longer telomeres allow more divisions", "Alice's prediction", "Bob's prediction"])
+    );
+    expect(atAlice.session.evidenceLedger.map((entry) => entry.id)).toEqual(["EV-1"]);
+  });
+
+  it("resolves concurrent edits of the same field deterministically", () => {
+    const session = baseSession();
+    const alice = recordLocalChanges(
+      createCollabDocument(session),
+      edit(session, (draft) => {
+        draft.hypothesisCards[H1].confidence = 30;
+      }),
+      "alice"
+    );
+    const bob = recordLocalChanges(
+      createCollabDocument(session),
+      edit(session, (draft) => {
+        draft.hypothesisCards[H1].confidence = 90;
+      }),
+      "bob"
+    );
+
+    // Same counter: the actor id breaks the tie on every replica
+    expect(compareStamps(alice.ops[0].stamp, bob.ops[0].stamp)).toBeLessThan(0);
+    expect(applyCollabOps(alice.document, bob.ops).session.hypothesisCards[H1].confidence).toBe(90);
+    expect(applyCollabOps(bob.document, alice.ops).session.hypothesisCards[H1].confidence).toBe(90);
+  });
+
+  it("lets a later edit win after it has seen the earlier one", () => {
+    const session = baseSession();
+    const zed = recordLocalChanges(
+      createCollabDocument(session),
+      edit(session, (draft) => {
+        draft.hypothesisCards[H1].confidence = 90;
+      }),
+      "zed"
+    );
+    // Bob receives Zed's edit, then lowers the confidence
+    const bobSeen = applyCollabOps(createCollabDocument(session), zed.ops);
+    const bob = recordLocalChanges(
+      bobSeen,
+      edit(bobSeen.session, (draft) => {
+        draft.hypothesisCards[H1].confidence = 10;
+      }),
+      "bob"
+    );
+
+    expect(applyCollabOps(zed.document, bob.ops).session.hypothesisCards[H1].confidence).toBe(10);
+  });
+
+  it("is idempotent and independent of delivery order", () => {
+    const session = baseSession();
+    const newCard = createHypothesisCard({
+      id: H2,
+      sessionId: SESSION_ID,
+      statement: "Division counting is metabolic",
+      mechanism: "Cumulative oxidative damage",
+      predictionsIfTrue: ["Antioxidants extend divisions"],
+      impossibleIfTrue: ["Antioxidants have no effect"],
+    });
+    const added = recordLocalChanges(
+      createCollabDocument(session),
+      edit(session, (draft) => {
+        draft.hypothesisCards[H2] = structuredClone(newCard);
+        draft.alternativeHypothesisIds.push(H2);
+        draft.evidenceLedger.push(evidence("EV-2", "2026-10-18T12:00:00Z"), evidence("EV-1", "2026-10-18T09:00:00Z"));
+      }),
+      "alice"
+    );
+    const refined = recordLocalChanges(
+      added.document,
+      edit(added.document.session, (draft) => {
+        draft.hypothesisCards[H2].confidence = 65;
+        draft.hypothesisCards[H2].predictionsIfTrue.push("Caloric restriction extends divisions");
+        draft.evidenceLedger = draft.evidenceLedger.filter((entry) => entry.id !== "EV-2");
+      }),
+      "alice"
+    );
+
+    const ops: CollabOp[] = [...added.ops, ...refined.ops];
+    const inOrder = applyCollabOps(createCollabDocument(session), ops);
+    const reversed = applyCollabOps(createCollabDocument(session), [...ops].reverse());
+    const duplicated = applyCollabOps(inOrder, ops);
+
+    expect(normalized(reversed)).toEqual(normalized(inOrder));
+    expect(normalized(duplicated)).toEqual(normalized(inOrder));
+    expect(inOrder.session.hypothesisCards[H2].confidence).toBe(65);
+    expect(reversed.session.hypothesisCards[H2].predictionsIfTrue).toContain("Caloric restriction extends divisions");
+    expect(inOrder.session.alternativeHypothesisIds).toContain(H2);
+    expect(inOrder.session.evidenceLedger.map((entry) => entry.id)).toEqual(["EV-1"]);
+  });
+
+  it("ignores operations for other sessions", () => {
+    const session = baseSession();
+    const other = recordLocalChanges(
+      createCollabDocument({ ...session, id: "SESSION-OTHER" }),
+      edit({ ...session, id: "SESSION-OTHER" }, (draft) => {
+        draft.hypothesisCards[H1].confidence = 5;
+      }),
+      "alice"
+    );
+    const doc = createCollabDocument(session);
+    expect(applyCollabOps(doc, other.ops).session).toBe(session);
+  });
+});
+
+describe("isCollabOp", () => {
+  it("accepts produced operations and rejects malformed ones", () => {
+    const session = baseSession();
+    const { ops } = recordLocalChanges(
+      createCollabDocument(session),
+      edit(session, (draft) => {
+        draft.hypothesisCards[H1].confidence = 70;
+      }),
+      "alice"
+    );
+    expect(ops.every(isCollabOp)).toBe(true);
+    expect(isCollabOp(JSON.parse(JSON.stringify(ops[0])))).toBe(true);
+
+    expect(isCollabOp(null)).toBe(false);
+    expect(isCollabOp({ ...ops[0], stamp: { counter: "1", actor: "a" } })).toBe(false);
+    expect(isCollabOp({ ...ops[0], change: { kind: "hypothesis_field", hypothesisId: H1, field: "id", value: "x" } })).toBe(false);
+    expect(isCollabOp({ ...ops[0], change: { kind: "drop_table" } })).toBe(false);
+  });
+});
+
+describe("presence", () => {
+  it("derives stable colors and drops collaborators past the TTL", () => {
+    expect(presenceColor("alice")).toBe(presenceColor("alice"));
+
+    const now = Date.parse("2026-10-18T12:00:00Z");
+    const entry = (actor: string, name: string, secondsAgo: number) => ({
+      actor,
+      name,
+      color: presenceColor(actor),
+      sessionId: SESSION_ID,
+      lastSeenAt: new Date(now - secondsAgo * 1000).toISOString(),
+    });
+
+    const active = activeCollaborators([entry("b", "Bob", 5), entry("a", "Alice", 10), entry("c", "Cy", 60)], now);
+    expect(active.map((collaborator) => collaborator.name)).toEqual(["Alice", "Bob"]);
+  });
+});
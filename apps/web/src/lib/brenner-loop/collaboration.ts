@@ -0,0 +1,431 @@
+/**
+ * Brenner Loop Collaboration
+ *
+ * Operation log for several people editing one session at the same time.
+ * Local edits are diffed into small operations stamped with a Lamport clock;
+ * every replica applies them through last-writer-wins registers, so the same
+ * set of operations converges to the same session regardless of arrival
+ * order or duplication.
+ *
+ * Covered: hypothesis card fields, predictions (add/remove per list) and the
+ * evidence ledger. Everything else still travels with ordinary saves.
+ *
+ * Register keys:
+ * - card:{hypothesisId}                        whole-card insert
+ * - field:{hypothesisId}:{field}               one card field (value kept)
+ * - prediction:{hypothesisId}:{list}:{text}    membership (value = present)
+ * - evidence:{evidenceId}                      ledger entry put/remove
+ *
+ * @module brenner-loop/collaboration
+ */
+
+import type { HypothesisCard } from "./hypothesis";
+import type { EvidenceEntry, Session } from "./types";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Lamport timestamp; ties on the counter are broken by actor id.
+ */
+export interface LamportStamp {
+  counter: number;
+  actor: string;
+}
+
+/** Card lists merged element-wise rather than as a whole */
+export type PredictionList = "predictionsIfTrue" | "predictionsIfFalse" | "impossibleIfTrue";
+
+export const PREDICTION_LISTS: readonly PredictionList[] = [
+  "predictionsIfTrue",
+  "predictionsIfFalse",
+  "impossibleIfTrue",
+];
+
+/** Card fields merged as single registers */
+export type CollabHypothesisField = Exclude<
+  keyof HypothesisCard,
+  "id" | "sessionId" | "createdAt" | "updatedAt" | PredictionList
+>;
+
+const UNTRACKED_CARD_FIELDS = new Set<string>(["id", "sessionId", "createdAt", "updatedAt", ...PREDICTION_LISTS]);
+
+/**
+ * A single mergeable change.
+ */
+export type CollabChange =
+  | { kind: "hypothesis_put"; card: HypothesisCard; placement: "primary" | "alternative" }
+  | { kind: "hypothesis_field"; hypothesisId: string; field: CollabHypothesisField; value: unknown }
+  | { kind: "prediction_add"; hypothesisId: string; list: PredictionList; text: string }
+  | { kind: "prediction_remove"; hypothesisId: string; list: PredictionList; text: string }
+  | { kind: "evidence_put"; entry: EvidenceEntry }
+  | { kind: "evidence_remove"; evidenceId: string };
+
+/**
+ * A stamped change as exchanged through the relay.
+ */
+export interface CollabOp {
+  /** `{actor}:{counter}`, unique per operation */
+  id: string;
+  sessionId: string;
+  stamp: LamportStamp;
+  change: CollabChange;
+}
+
+interface CollabRegister {
+  stamp: LamportStamp;
+  value?: unknown;
+}
+
+/**
+ * A session replica plus the merge metadata needed to apply operations.
+ */
+export interface CollabDocument {
+  session: Session;
+  /** Highest Lamport counter seen */
+  clock: number;
+  registers: Record<string, CollabRegister>;
+}
+
+/**
+ * Someone currently connected to a session.
+ */
+export interface CollaboratorPresence {
+  actor: string;
+  name: string;
+  /** Display color derived from the actor id */
+  color: string;
+  sessionId: string;
+  /** What the collaborator is looking at (phase or card id) */
+  focus?: string;
+  lastSeenAt: string;
+}
+
+// ============================================================================
+// Stamps & Keys
+// ============================================================================
+
+/**
+ * Total order over stamps: counter first, then actor id.
+ */
+export function compareStamps(a: LamportStamp, b: LamportStamp): number {
+  if (a.counter !== b.counter) return a.counter - b.counter;
+  return a.actor < b.actor ? -1 : a.actor > b.actor ? 1 : 0;
+}
+
+function isNewer(stamp: LamportStamp, register: CollabRegister | undefined): boolean {
+  return !register || compareStamps(stamp, register.stamp) > 0;
+}
+
+const cardKey = (hypothesisId: string) => `card:${hypothesisId}`;
+const fieldKey = (hypothesisId: string, field: string) => `field:${hypothesisId}:${field}`;
+const predictionKey = (hypothesisId: string, list: PredictionList, text: string) =>
+  `prediction:${hypothesisId}:${list}:${text}`;
+const evidenceKey = (evidenceId: string) => `evidence:${evidenceId}`;
+
+// ============================================================================
+// Applying Operations
+// ============================================================================
+
+/**
+ * Start tracking a session for collaborative editing.
+ */
+export function createCollabDocument(session: Session): CollabDocument {
+  return { session, clock: 0, registers: {} };
+}
+
+function withMembership(items: string[], text: string, present: boolean): string[] {
+  const has = items.includes(text);
+  if (present) return has ? items : [...items, text];
+  return has ? items.filter((item) => item !== text) : items;
+}
+
+function replaceCard(session: Session, card: HypothesisCard): Session {
+  return { ...session, hypothesisCards: { ...session.hypothesisCards, [card.id]: card } };
+}
+
+/**
+ * Build an inserted card, keeping any field or prediction edits that were
+ * stamped after the insert (they may have arrived first).
+ */
+function mergeInsertedCard(doc: CollabDocument, card: HypothesisCard, stamp: LamportStamp): HypothesisCard {
+  const merged: Record<string, unknown> = { ...card };
+  for (const list of PREDICTION_LISTS) merged[list] = [...card[list]];
+
+  const fieldPrefix = `field:${card.id}:`;
+  const predictionPrefix = `prediction:${card.id}:`;
+  for (const [key, register] of Object.entries(doc.registers)) {
+    if (compareStamps(register.stamp, stamp) <= 0) continue;
+    if (key.startsWith(fieldPrefix)) {
+      merged[key.slice(fieldPrefix.length)] = register.value;
+    } else if (key.startsWith(predictionPrefix)) {
+      const rest = key.slice(predictionPrefix.length);
+      const separator = rest.indexOf(":");
+      const list = rest.slice(0, separator) as PredictionList;
+      merged[list] = withMembership(merged[list] as string[], rest.slice(separator + 1), register.value === true);
+    }
+  }
+
+  return merged as unknown as HypothesisCard;
+}
+
+function placeCard(session: Session, hypothesisId: string, placement: "primary" | "alternative"): Session {
+  const placed =
+    session.primaryHypothesisId === hypothesisId ||
+    session.alternativeHypothesisIds.includes(hypothesisId) ||
+    session.archivedHypothesisIds.includes(hypothesisId);
+  if (placed) return session;
+  if (placement === "primary" && !session.primaryHypothesisId) {
+    return { ...session, primaryHypothesisId: hypothesisId };
+  }
+  return { ...session, alternativeHypothesisIds: [...session.alternativeHypothesisIds, hypothesisId] };
+}
+
+/**
+ * Insert an evidence entry keeping the ledger ordered by recordedAt, so
+ * replicas agree on order as well as content.
+ */
+function putEvidence(ledger: EvidenceEntry[], entry: EvidenceEntry): EvidenceEntry[] {
+  const existing = ledger.findIndex((item) => item.id === entry.id);
+  if (existing >= 0) return ledger.map((item, index) => (index === existing ? entry : item));
+
+  const position = ledger.findIndex(
+    (item) => item.recordedAt > entry.recordedAt || (item.recordedAt === entry.recordedAt && item.id > entry.id)
+  );
+  if (position < 0) return [...ledger, entry];
+  return [...ledger.slice(0, position), entry, ...ledger.slice(position)];
+}
+
+/**
+ * Apply one operation. Idempotent and order-independent: applying the same
+ * set of operations in any order yields the same session.
+ */
+export function applyCollabOp(doc: CollabDocument, op: CollabOp): CollabDocument {
+  if (op.sessionId !== doc.session.id) return doc;
+
+  const clock = Math.max(doc.clock, op.stamp.counter);
+  const { change, stamp } = op;
+  const setRegister = (key: string, value?: unknown) => ({ ...doc.registers, [key]: { stamp, value } });
+
+  switch (change.kind) {
+    case "hypothesis_put": {
+      const key = cardKey(change.card.id);
+      if (!isNewer(stamp, doc.registers[key])) return { ...doc, clock };
+      const card = mergeInsertedCard(doc, change.card, stamp);
+      const session = placeCard(replaceCard(doc.session, card), card.id, change.placement);
+      return { session, clock, registers: setRegister(key) };
+    }
+
+    case "hypothesis_field": {
+      const key = fieldKey(change.hypothesisId, change.field);
+      if (!isNewer(stamp, doc.registers[key]) || !isNewer(stamp, doc.registers[cardKey(change.hypothesisId)])) {
+        return { ...doc, clock };
+      }
+      const card = doc.session.hypothesisCards[change.hypothesisId];
+      const session = card ? replaceCard(doc.session, { ...card, [change.field]: change.value }) : doc.session;
+      return { session, clock, registers: setRegister(key, change.value) };
+    }
+
+    case "prediction_add":
+    case "prediction_remove": {
+      const key = predictionKey(change.hypothesisId, change.list, change.text);
+      if (!isNewer(stamp, doc.registers[key]) || !isNewer(stamp, doc.registers[cardKey(change.hypothesisId)])) {
+        return { ...doc, clock };
+      }
+      const present = change.kind === "prediction_add";
+      const card = doc.session.hypothesisCards[change.hypothesisId];
+      const session = card
+        ? replaceCard(doc.session, { ...card, [change.list]: withMembership(card[change.list], change.text, present) })
+        : doc.session;
+      return { session, clock, registers: setRegister(key, present) };
+    }
+
+    case "evidence_put": {
+      const key = evidenceKey(change.entry.id);
+      if (!isNewer(stamp, doc.registers[key])) return { ...doc, clock };
+      const session = { ...doc.session, evidenceLedger: putEvidence(doc.session.evidenceLedger, change.entry) };
+      return { session, clock, registers: setRegister(key) };
+    }
+
+    case "evidence_remove": {
+      const key = evidenceKey(change.evidenceId);
+      if (!isNewer(stamp, doc.registers[key])) return { ...doc, clock };
+      const session = {
+        ...doc.session,
+        evidenceLedger: doc.session.evidenceLedger.filter((entry) => entry.id !== change.evidenceId),
+      };
+      return { session, clock, registers: setRegister(key) };
+    }
+
+    default:
+      return { ...doc, clock };
+  }
+}
+
+/**
+ * Apply operations received from collaborators.
+ */
+export function applyCollabOps(doc: CollabDocument, ops: CollabOp[]): CollabDocument {
+  return ops.reduce(applyCollabOp, doc);
+}
+
+// ============================================================================
+// Producing Operations
+// ============================================================================
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Describe how `after` differs from `before` as mergeable changes.
+ * Only collaborative fields are compared (see module docs).
+ */
+export function diffSessionChanges(before: Session, after: Session): CollabChange[] {
+  const changes: CollabChange[] = [];
+
+  for (const card of Object.values(after.hypothesisCards)) {
+    const previous = before.hypothesisCards[card.id];
+    if (!previous) {
+      changes.push({
+        kind: "hypothesis_put",
+        card,
+        placement: after.primaryHypothesisId === card.id ? "primary" : "alternative",
+      });
+      continue;
+    }
+
+    const fields = new Set([...Object.keys(previous), ...Object.keys(card)]);
+    for (const field of fields) {
+      if (UNTRACKED_CARD_FIELDS.has(field)) continue;
+      const key = field as CollabHypothesisField;
+      if (!sameValue(previous[key], card[key])) {
+        changes.push({ kind: "hypothesis_field", hypothesisId: card.id, field: key, value: card[key] });
+      }
+    }
+
+    for (const list of PREDICTION_LISTS) {
+      const was = new Set(previous[list]);
+      const now = new Set(card[list]);
+      for (const text of now) {
+        if (!was.has(text)) changes.push({ kind: "prediction_add", hypothesisId: card.id, list, text });
+      }
+      for (const text of was) {
+        if (!now.has(text)) changes.push({ kind: "prediction_remove", hypothesisId: card.id, list, text });
+      }
+    }
+  }
+
+  const previousEvidence = new Map(before.evidenceLedger.map((entry) => [entry.id, entry]));
+  const currentIds = new Set<string>();
+  for (const entry of after.evidenceLedger) {
+    currentIds.add(entry.id);
+    const previous = previousEvidence.get(entry.id);
+    if (!previous || !sameValue(previous, entry)) changes.push({ kind: "evidence_put", entry });
+  }
+  for (const id of previousEvidence.keys()) {
+    if (!currentIds.has(id)) changes.push({ kind: "evidence_remove", evidenceId: id });
+  }
+
+  return changes;
+}
+
+/**
+ * Turn a local edit into stamped operations.
+ *
+ * The returned document holds `after` as its session (including edits to
+ * fields that are not merged collaboratively) with registers advanced past
+ * the new operations, which should be sent to the relay.
+ */
+export function recordLocalChanges(
+  doc: CollabDocument,
+  after: Session,
+  actor: string
+): { document: CollabDocument; ops: CollabOp[] } {
+  let counter = doc.clock;
+  const ops = diffSessionChanges(doc.session, after).map((change): CollabOp => {
+    counter += 1;
+    return { id: `${actor}:${counter}`, sessionId: after.id, stamp: { counter, actor }, change };
+  });
+
+  return { document: applyCollabOps({ ...doc, session: after }, ops), ops };
+}
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+const CHANGE_KINDS = new Set<CollabChange["kind"]>([
+  "hypothesis_put",
+  "hypothesis_field",
+  "prediction_add",
+  "prediction_remove",
+  "evidence_put",
+  "evidence_remove",
+]);
+
+/**
+ * Structural check for operations arriving over the wire.
+ */
+export function isCollabOp(value: unknown): value is CollabOp {
+  if (!value || typeof value !== "object") return false;
+  const op = value as Partial<CollabOp>;
+  if (typeof op.id !== "string" || typeof op.sessionId !== "string") return false;
+  if (!op.stamp || typeof op.stamp.counter !== "number" || typeof op.stamp.actor !== "string") return false;
+  if (!op.change || typeof op.change !== "object" || !CHANGE_KINDS.has(op.change.kind)) return false;
+
+  const change = op.change;
+  switch (change.kind) {
+    case "hypothesis_put":
+      return !!change.card && typeof change.card.id === "string";
+    case "hypothesis_field":
+      return typeof change.hypothesisId === "string" && typeof change.field === "string" && !UNTRACKED_CARD_FIELDS.has(change.field);
+    case "prediction_add":
+    case "prediction_remove":
+      return (
+        typeof change.hypothesisId === "string" &&
+        PREDICTION_LISTS.includes(change.list) &&
+        typeof change.text === "string"
+      );
+    case "evidence_put":
+      return !!change.entry && typeof change.entry.id === "string";
+    case "evidence_remove":
+      return typeof change.evidenceId === "string";
+    default:
+      return false;
+  }
+}
+
+// ============================================================================
+// Presence
+// ============================================================================
+
+/** Collaborators not heard from within this window are shown as gone */
+export const PRESENCE_TTL_MS = 30_000;
+
+const PRESENCE_COLORS = ["#2563eb", "#db2777", "#16a34a", "#d97706", "#7c3aed", "#0891b2", "#dc2626", "#4d7c0f"];
+
+/**
+ * Stable display color for an actor.
+ */
+export function presenceColor(actor: string): string {
+  let hash = 0;
+  for (let i = 0; i < actor.length; i++) {
+    hash = (hash * 31 + actor.charCodeAt(i)) >>> 0;
+  }
+  return PRESENCE_COLORS[hash % PRESENCE_COLORS.length];
+}
+
+/**
+ * Collaborators seen recently, ordered by name.
+ */
+export function activeCollaborators(
+  presence: CollaboratorPresence[],
+  now = Date.now(),
+  ttlMs = PRESENCE_TTL_MS
+): CollaboratorPresence[] {
+  return presence
+    .filter((entry) => now - new Date(entry.lastSeenAt).getTime() <= ttlMs)
+    .sort((a, b) => a.name.localeCompare(b.name) || a.actor.localeCompare(b.actor));
+}
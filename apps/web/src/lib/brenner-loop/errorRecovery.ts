@@ -9,7 +9,8 @@
 
 import type { Session } from "./types";
 import { isSession } from "./types";
-import { sessionStorage, StorageError, recoverSessions } from "./storage";
+import { StorageError, recoverSessions } from "./storage";
+import { getSessionStorage } from "./session-storage-backend";
 
 // ============================================================================
 // Types
@@ -138,7 +139,7 @@ export async function withTimeout<T>(
  */
 export async function loadSessionWithRecovery(sessionId: string): Promise<RecoveryResult<Session>> {
   try {
-    const session = await sessionStorage.load(sessionId);
+    const session = await getSessionStorage().load(sessionId);
     if (!session) {
       return { data: null, recovered: false };
     }
@@ -152,7 +153,7 @@ export async function loadSessionWithRecovery(sessionId: string): Promise<Recove
     if (error instanceof StorageError && error.code === "CORRUPTED_DATA") {
       const recoveredCount = await recoverSessions();
       if (recoveredCount > 0) {
-        const session = await sessionStorage.load(sessionId).catch(() => null);
+        const session = await getSessionStorage().load(sessionId).catch(() => null);
         if (session && isSession(session)) {
           return { data: session, recovered: true };
         }
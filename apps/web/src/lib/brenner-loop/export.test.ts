@@ -173,6 +173,40 @@ describe("exportSession / importSession", () => {
     expect(markdown).toContain("Tags: alpha, beta");
   });
 
+  test("renders supplementary operator results in markdown", async () => {
+    const session = buildTestSession();
+    session.operatorApplications.paradoxHunt = [
+      {
+        appliedAt: "2026-01-01T00:00:00Z",
+        appliedBy: "tester",
+        paradox: { claimA: "A holds", claimB: "B holds" },
+        resolutions: [{ type: "hidden_variable", description: "C drives both" }],
+        discriminatingTests: ["Measure C"],
+        hypothesisIds: ["HC-1"],
+      },
+    ];
+    session.operatorApplications.theoryKill = [
+      {
+        appliedAt: "2026-01-01T00:00:00Z",
+        appliedBy: "tester",
+        targetKind: "hypothesis",
+        target: "A holds",
+        killReason: "Experiment 2 contradicts it.",
+        contradictingEvidence: ["Experiment 2"],
+        verdict: "defer",
+        failedChecks: ["Replicated?"],
+      },
+    ];
+
+    const blob = await exportSession(session, "markdown");
+    const markdown = await blob.text();
+
+    expect(markdown).toContain("- Paradox Hunt: 1");
+    expect(markdown).toContain("Resolution (hidden_variable): C drives both");
+    expect(markdown).toContain("Deferred hypothesis: A holds");
+    expect(markdown).not.toContain("Invariant Extract Results");
+  });
+
   test("renders markdown even when primary card is missing", async () => {
     const session = buildTestSession();
     session.primaryHypothesisId = "HC-MISSING";
@@ -133,6 +133,18 @@ function normalizeSession(raw: Session, warnings: string[]): Session {
         scaleCheck: Array.isArray(raw.operatorApplications.scaleCheck)
           ? raw.operatorApplications.scaleCheck
           : base.operatorApplications.scaleCheck,
+        paradoxHunt: Array.isArray(raw.operatorApplications.paradoxHunt)
+          ? raw.operatorApplications.paradoxHunt
+          : base.operatorApplications.paradoxHunt,
+        invariantExtract: Array.isArray(raw.operatorApplications.invariantExtract)
+          ? raw.operatorApplications.invariantExtract
+          : base.operatorApplications.invariantExtract,
+        exceptionQuarantine: Array.isArray(raw.operatorApplications.exceptionQuarantine)
+          ? raw.operatorApplications.exceptionQuarantine
+          : base.operatorApplications.exceptionQuarantine,
+        theoryKill: Array.isArray(raw.operatorApplications.theoryKill)
+          ? raw.operatorApplications.theoryKill
+          : base.operatorApplications.theoryKill,
       }
     : base.operatorApplications;
 
@@ -309,12 +321,24 @@ function renderSessionMarkdown(session: Session): string {
     }
   }
 
+  // Sessions exported before these operators existed have no arrays for them
+  const {
+    paradoxHunt = [],
+    invariantExtract = [],
+    exceptionQuarantine = [],
+    theoryKill = [],
+  } = session.operatorApplications;
+
   lines.push("");
   lines.push("## Operator Applications");
   lines.push(`- Level Split: ${session.operatorApplications.levelSplit.length}`);
   lines.push(`- Exclusion Test: ${session.operatorApplications.exclusionTest.length}`);
   lines.push(`- Object Transpose: ${session.operatorApplications.objectTranspose.length}`);
   lines.push(`- Scale Check: ${session.operatorApplications.scaleCheck.length}`);
+  lines.push(`- Paradox Hunt: ${paradoxHunt.length}`);
+  lines.push(`- Invariant Extract: ${invariantExtract.length}`);
+  lines.push(`- Exception Quarantine: ${exceptionQuarantine.length}`);
+  lines.push(`- Theory Kill: ${theoryKill.length}`);
 
   if (session.operatorApplications.levelSplit.length > 0) {
     lines.push("");
@@ -362,6 +386,63 @@ function renderSessionMarkdown(session: Session): string {
     });
   }
 
+  if (paradoxHunt.length > 0) {
+    lines.push("");
+    lines.push("### Paradox Hunt Results");
+    paradoxHunt.forEach((result, index) => {
+      lines.push(`- [${index + 1}] ${result.appliedAt} by ${result.appliedBy}`);
+      lines.push(`  - Paradox: "${result.paradox.claimA}" vs "${result.paradox.claimB}"`);
+      result.resolutions.forEach((resolution) => {
+        lines.push(`  - Resolution (${resolution.type}): ${resolution.description}`);
+      });
+      result.discriminatingTests.forEach((test) => {
+        lines.push(`  - Test: ${test}`);
+      });
+    });
+  }
+
+  if (invariantExtract.length > 0) {
+    lines.push("");
+    lines.push("### Invariant Extract Results");
+    invariantExtract.forEach((result, index) => {
+      lines.push(`- [${index + 1}] ${result.appliedAt} by ${result.appliedBy}`);
+      result.invariants.forEach((invariant) => {
+        lines.push(`  - Invariant: ${invariant}`);
+      });
+      result.ruledOutFamilies.forEach((family) => {
+        lines.push(`  - Ruled out: ${family.family} (${family.reason})`);
+      });
+      if (result.probeTest) {
+        lines.push(`  - Probe: ${result.probeTest}`);
+      }
+    });
+  }
+
+  if (exceptionQuarantine.length > 0) {
+    lines.push("");
+    lines.push("### Exception Quarantine Results");
+    exceptionQuarantine.forEach((result, index) => {
+      lines.push(`- [${index + 1}] ${result.appliedAt} by ${result.appliedBy}`);
+      lines.push(`  - Core model intact: ${result.coreModelIntact ? "yes" : "no"}`);
+      result.anomalies.forEach((anomaly) => {
+        lines.push(`  - ${anomaly.classification === "signal" ? "Signal" : "Noise"}: ${anomaly.description}`);
+      });
+    });
+  }
+
+  if (theoryKill.length > 0) {
+    lines.push("");
+    lines.push("### Theory Kill Results");
+    theoryKill.forEach((result, index) => {
+      lines.push(`- [${index + 1}] ${result.appliedAt} by ${result.appliedBy}`);
+      lines.push(`  - ${result.verdict === "kill" ? "Killed" : "Deferred"} ${result.targetKind}: ${result.target}`);
+      lines.push(`  - Reason: ${result.killReason}`);
+      if (result.replacement) {
+        lines.push(`  - Replacement: ${result.replacement}`);
+      }
+    });
+  }
+
   if (session.evidenceLedger.length > 0) {
     lines.push("");
     lines.push("## Evidence Ledger");
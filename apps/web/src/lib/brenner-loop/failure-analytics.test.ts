@@ -56,6 +56,10 @@ function makeSession(overrides: Partial<Session> = {}): Session {
       exclusionTest: [],
       objectTranspose: [],
       scaleCheck: [],
+      paradoxHunt: [],
+      invariantExtract: [],
+      exceptionQuarantine: [],
+      theoryKill: [],
     },
     phase: overrides.phase ?? "intake",
     predictionIds: [],
@@ -187,6 +191,10 @@ describe("computeFailureAnalytics", () => {
         exclusionTest: [{ appliedAt: "2026-01-01", appliedBy: "user", designedTests: [], rejectedTests: [] }],
         objectTranspose: [],
         scaleCheck: [],
+        paradoxHunt: [],
+        invariantExtract: [],
+        exceptionQuarantine: [],
+        theoryKill: [],
       },
     });
 
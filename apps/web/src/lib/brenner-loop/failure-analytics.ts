@@ -322,6 +322,18 @@ function getAppliedOperators(session: Session): Set<OperatorType> {
   if (Array.isArray(apps.scaleCheck) && apps.scaleCheck.length > 0) {
     applied.add("scale_check");
   }
+  if (Array.isArray(apps.paradoxHunt) && apps.paradoxHunt.length > 0) {
+    applied.add("paradox_hunt");
+  }
+  if (Array.isArray(apps.invariantExtract) && apps.invariantExtract.length > 0) {
+    applied.add("invariant_extract");
+  }
+  if (Array.isArray(apps.exceptionQuarantine) && apps.exceptionQuarantine.length > 0) {
+    applied.add("exception_quarantine");
+  }
+  if (Array.isArray(apps.theoryKill) && apps.theoryKill.length > 0) {
+    applied.add("theory_kill");
+  }
 
   return applied;
 }
@@ -393,6 +405,10 @@ function computeOperatorFailures(sessions: Session[]): OperatorFailurePattern[]
     "exclusion_test",
     "object_transpose",
     "scale_check",
+    "paradox_hunt",
+    "invariant_extract",
+    "exception_quarantine",
+    "theory_kill",
   ];
 
   return operators.map((operator) => {
@@ -587,6 +603,10 @@ function formatOperatorName(operator: OperatorType): string {
     exclusion_test: "Exclusion Test (⊘)",
     object_transpose: "Object Transpose (⟳)",
     scale_check: "Scale Check (⊙)",
+    paradox_hunt: "Paradox Hunt (◊)",
+    invariant_extract: "Invariant Extract (≡)",
+    exception_quarantine: "Exception Quarantine (ΔE)",
+    theory_kill: "Theory Kill (†)",
   };
   return names[operator] ?? operator;
 }
@@ -11,6 +11,16 @@ import {
   calculateScoreDelta,
   assessPredictionBoldness,
   isHypothesisArena,
+  createArenaTest,
+  eliminateHypothesis,
+  setScoringMode,
+  calculateLikelihoodRatio,
+  computeArenaPosterior,
+  calculateExpectedInformationGain,
+  getRankedHypotheses,
+  getLeader,
+  buildComparisonMatrix,
+  type HypothesisArena,
 } from "./hypothesis-arena";
 import { createHypothesisCard } from "./hypothesis";
 
@@ -105,4 +115,143 @@ describe("hypothesis-arena", () => {
       expect(assessPredictionBoldness("Something good happens")).toBe("vague");
     });
   });
+
+  describe("Bayesian mode", () => {
+    const H2 = createHypothesisCard({
+      ...MOCK_HYPOTHESIS,
+      id: "HC-RS20260105-002-v1",
+      statement: "Hypothesis 2",
+    });
+
+    function bayesianArena(residualPrior?: number): { arena: HypothesisArena; testId: string } {
+      let arena = createArena({
+        question: "Q?",
+        primaryHypothesis: MOCK_HYPOTHESIS,
+        scoringMode: "bayesian",
+        residualPrior,
+      });
+      arena = addCompetitor(arena, H2, "user_added");
+      const created = createArenaTest(arena, {
+        name: "Discriminating test",
+        targetHypotheses: [MOCK_HYPOTHESIS.id, H2.id],
+      });
+      return { arena: created.arena, testId: created.test.id };
+    }
+
+    it("derives likelihood ratios from result, boldness, and confidence", () => {
+      expect(calculateLikelihoodRatio("supports", "specific")).toBeCloseTo(3);
+      expect(calculateLikelihoodRatio("supports", "surprising")).toBeCloseTo(27);
+      expect(calculateLikelihoodRatio("challenges", "specific")).toBeCloseTo(1 / 3);
+      expect(calculateLikelihoodRatio("supports", "specific", 0)).toBe(1);
+      expect(calculateLikelihoodRatio("neutral", "precise")).toBe(1);
+      expect(calculateLikelihoodRatio("eliminates", "vague")).toBe(0);
+    });
+
+    it("starts from a uniform prior with a residual", () => {
+      const { arena } = bayesianArena(0.2);
+      const posterior = computeArenaPosterior(arena);
+
+      expect(posterior.probabilities[MOCK_HYPOTHESIS.id]).toBeCloseTo(0.4);
+      expect(posterior.probabilities[H2.id]).toBeCloseTo(0.4);
+      expect(posterior.residual).toBeCloseTo(0.2);
+    });
+
+    it("updates the posterior with each result's likelihood ratio and stays normalized", () => {
+      const { arena, testId } = bayesianArena(0.1);
+      const updated = recordTestResult(arena, testId, MOCK_HYPOTHESIS.id, "supports");
+
+      const recorded = updated.tests[0].results[0];
+      expect(recorded.likelihoodRatio).toBeCloseTo(3);
+
+      const posterior = computeArenaPosterior(updated);
+      // Weights: H1 0.45 * 3 = 1.35, H2 0.45, residual 0.1
+      expect(posterior.probabilities[MOCK_HYPOTHESIS.id]).toBeCloseTo(1.35 / 1.9);
+      expect(posterior.probabilities[H2.id]).toBeCloseTo(0.45 / 1.9);
+      expect(posterior.residual).toBeCloseTo(0.1 / 1.9);
+
+      const total =
+        Object.values(posterior.probabilities).reduce((sum, p) => sum + p, 0) + posterior.residual;
+      expect(total).toBeCloseTo(1);
+    });
+
+    it("moves mass to the residual when evidence goes against every competitor", () => {
+      const { arena: initial, testId } = bayesianArena(0.1);
+      const before = computeArenaPosterior(initial).residual;
+      let arena = initial;
+
+      arena = recordTestResult(arena, testId, MOCK_HYPOTHESIS.id, "challenges", { likelihoodRatio: 0.1 });
+      arena = recordTestResult(arena, testId, H2.id, "challenges", { likelihoodRatio: 0.1 });
+
+      const posterior = computeArenaPosterior(arena);
+      expect(posterior.residual).toBeGreaterThan(0.5);
+      expect(posterior.residual).toBeGreaterThan(before);
+    });
+
+    it("zeroes eliminated hypotheses, including manual eliminations", () => {
+      const { arena, testId } = bayesianArena();
+      const byResult = recordTestResult(arena, testId, H2.id, "eliminates");
+      expect(computeArenaPosterior(byResult).probabilities[H2.id]).toBe(0);
+
+      const manual = eliminateHypothesis(arena, H2.id, "External evidence");
+      expect(computeArenaPosterior(manual).probabilities[H2.id]).toBe(0);
+    });
+
+    it("rejects invalid likelihood ratios and residual priors", () => {
+      const { arena, testId } = bayesianArena();
+      expect(() =>
+        recordTestResult(arena, testId, H2.id, "supports", { likelihoodRatio: -1 })
+      ).toThrow(/non-negative/);
+      expect(() => setScoringMode(arena, "bayesian", { residualPrior: 1 })).toThrow(/Residual prior/);
+    });
+
+    it("ranks by posterior and reports expected information gain", () => {
+      const { arena, testId } = bayesianArena();
+      const updated = recordTestResult(arena, testId, H2.id, "supports", { boldness: "precise" });
+
+      const ranked = getRankedHypotheses(updated);
+      expect(ranked[0].hypothesisId).toBe(H2.id);
+      expect(ranked[0].posterior).toBeGreaterThan(ranked[1].posterior!);
+      expect(ranked.every((h) => (h.expectedInformationGain ?? -1) >= 0)).toBe(true);
+      expect(getLeader(updated)?.hypothesisId).toBe(H2.id);
+
+      const matrix = buildComparisonMatrix(updated);
+      expect(matrix.rows[0].hypothesisId).toBe(H2.id);
+      expect(matrix.rows[0].posterior).toBeCloseTo(ranked[0].posterior!);
+      expect(matrix.posterior?.residual).toBeGreaterThan(0);
+      expect(matrix.posterior?.entropy).toBeGreaterThan(0);
+    });
+
+    it("gives the most information for the most uncertain hypothesis", () => {
+      const posterior = {
+        probabilities: { a: 0.45, b: 0.05 },
+        residual: 0.5,
+        entropy: 0,
+      };
+      posterior.entropy = -[0.45, 0.05, 0.5].reduce((sum, p) => sum + p * Math.log2(p), 0);
+
+      const gainA = calculateExpectedInformationGain(posterior, "a");
+      const gainB = calculateExpectedInformationGain(posterior, "b");
+      expect(gainA).toBeGreaterThan(gainB);
+      expect(calculateExpectedInformationGain(posterior, "a", 1)).toBe(0);
+      expect(calculateExpectedInformationGain(posterior, "missing")).toBe(0);
+    });
+
+    it("leaves points mode untouched and switches modes losslessly", () => {
+      let arena = createArena({ question: "Q?", primaryHypothesis: MOCK_HYPOTHESIS });
+      arena = addCompetitor(arena, H2, "user_added");
+      const created = createArenaTest(arena, {
+        name: "Discriminating test",
+        targetHypotheses: [MOCK_HYPOTHESIS.id, H2.id],
+      });
+      arena = recordTestResult(created.arena, created.test.id, MOCK_HYPOTHESIS.id, "supports");
+
+      expect(arena.tests[0].results[0].likelihoodRatio).toBeUndefined();
+      expect(getRankedHypotheses(arena)[0].posterior).toBeUndefined();
+      expect(buildComparisonMatrix(arena).posterior).toBeUndefined();
+
+      const bayesian = setScoringMode(arena, "bayesian");
+      expect(getRankedHypotheses(bayesian)[0]).toMatchObject({ hypothesisId: MOCK_HYPOTHESIS.id });
+      expect(computeArenaPosterior(bayesian).probabilities[MOCK_HYPOTHESIS.id]).toBeCloseTo(1.35 / 1.9);
+    });
+  });
 });
@@ -10,6 +10,8 @@
  * - Shared Tests: Tests that apply across multiple hypotheses
  * - Elimination: When a test definitively rules out a hypothesis
  * - Bold Predictions: Predictions that are specific and risky get higher weight
+ * - Bayesian Mode: Optional scoring that keeps a normalized posterior over the
+ *   competitors plus a "none of them" residual, updated by likelihood ratios
  *
  * > "The question is not whether your hypothesis is consistent with the data,
  * > but whether it's MORE consistent than the alternatives." — paraphrased from §89
@@ -60,6 +62,13 @@ export type PredictionBoldness = "vague" | "specific" | "precise" | "surprising"
  */
 export type ArenaHypothesisStatus = "active" | "eliminated" | "suspended" | "champion";
 
+/**
+ * How the arena ranks competitors.
+ * - points: cumulative score deltas (default)
+ * - bayesian: posterior probabilities from likelihood-ratio updates
+ */
+export type ArenaScoringMode = "points" | "bayesian";
+
 /**
  * Source of a hypothesis - how it entered the arena.
  */
@@ -112,6 +121,12 @@ export interface ArenaHypothesis {
 
   /** User notes about this hypothesis in the competition */
   notes?: string;
+
+  /** Posterior probability (bayesian mode, filled in by getRankedHypotheses) */
+  posterior?: number;
+
+  /** Expected information gain in bits from testing this hypothesis next (bayesian mode) */
+  expectedInformationGain?: number;
 }
 
 /**
@@ -162,6 +177,12 @@ export interface HypothesisTestResult {
   /** Boldness of the tested prediction (affects score multiplier) */
   predictionBoldness: PredictionBoldness;
 
+  /**
+   * Likelihood ratio P(result | H) / P(result | not H) used for bayesian
+   * updates. When absent it is derived from result, boldness, and confidence.
+   */
+  likelihoodRatio?: number;
+
   /** When this result was recorded */
   recordedAt: Date;
 
@@ -252,6 +273,26 @@ export interface HypothesisArena {
 
   /** Tags for categorization */
   tags?: string[];
+
+  /** Scoring mode (default: points) */
+  scoringMode?: ArenaScoringMode;
+
+  /** Prior probability that none of the competitors is right (bayesian mode) */
+  residualPrior?: number;
+}
+
+/**
+ * Normalized posterior over an arena's competitors.
+ */
+export interface ArenaPosterior {
+  /** Posterior probability per competitor (hypothesisId -> probability) */
+  probabilities: Record<string, number>;
+
+  /** Probability that none of the competitors is right */
+  residual: number;
+
+  /** Shannon entropy of the full distribution, in bits */
+  entropy: number;
 }
 
 /**
@@ -275,6 +316,12 @@ export interface ComparisonMatrixRow {
 
   /** Current confidence level */
   confidence: number;
+
+  /** Posterior probability (bayesian mode only) */
+  posterior?: number;
+
+  /** Expected information gain in bits from testing this hypothesis next (bayesian mode only) */
+  expectedInformationGain?: number;
 }
 
 /**
@@ -300,6 +347,12 @@ export interface ComparisonMatrix {
     eliminatedHypotheses: number;
     averageScore: number;
   };
+
+  /** Residual and entropy of the posterior (bayesian mode only) */
+  posterior?: {
+    residual: number;
+    entropy: number;
+  };
 }
 
 // ============================================================================
@@ -327,6 +380,23 @@ export const BASE_SCORE_DELTAS: Record<TestResultType, number> = {
   eliminates: -100, // Harsh penalty for elimination
 };
 
+/**
+ * Likelihood ratios P(result | H) / P(result | not H) for a "specific"
+ * prediction at full confidence. Bolder predictions and lower confidence
+ * scale these in log space (see calculateLikelihoodRatio).
+ */
+export const BASE_LIKELIHOOD_RATIOS: Record<TestResultType, number> = {
+  supports: 3,
+  neutral: 1,
+  challenges: 1 / 3,
+  eliminates: 0, // The hypothesis cannot have produced this result
+};
+
+/**
+ * Default prior mass on "none of the competitors is right".
+ */
+export const DEFAULT_RESIDUAL_PRIOR = 0.1;
+
 /**
  * Labels for hypothesis sources.
  */
@@ -382,7 +452,11 @@ export function createArena(input: {
   createdBy?: string;
   sessionId?: string;
   primaryHypothesis: HypothesisCard;
+  scoringMode?: ArenaScoringMode;
+  residualPrior?: number;
 }): HypothesisArena {
+  if (input.residualPrior !== undefined) validateResidualPrior(input.residualPrior);
+
   const now = new Date();
   const id = generateArenaId();
 
@@ -409,6 +483,8 @@ export function createArena(input: {
     competitors: [primaryCompetitor],
     tests: [],
     status: "open",
+    ...(input.scoringMode ? { scoringMode: input.scoringMode } : {}),
+    ...(input.residualPrior !== undefined ? { residualPrior: input.residualPrior } : {}),
   };
 }
 
@@ -471,6 +547,44 @@ export function calculateScoreDelta(
   return Math.round(baseScore * multiplier * confidence);
 }
 
+/**
+ * Calculate the likelihood ratio for a test result.
+ *
+ * Boldness and confidence act as exponents: a surprising prediction that
+ * comes true is stronger evidence than a vague one, and a result recorded
+ * at zero confidence carries no information (ratio 1).
+ */
+export function calculateLikelihoodRatio(
+  result: TestResultType,
+  boldness: PredictionBoldness,
+  confidence: number = 1.0
+): number {
+  const base = BASE_LIKELIHOOD_RATIOS[result];
+  if (base === 0) return confidence > 0 ? 0 : 1;
+  return Math.pow(base, BOLDNESS_MULTIPLIERS[boldness] * confidence);
+}
+
+/**
+ * Switch the arena between points and bayesian scoring.
+ *
+ * The posterior is recomputed from the recorded results, so switching is
+ * lossless in both directions.
+ */
+export function setScoringMode(
+  arena: HypothesisArena,
+  mode: ArenaScoringMode,
+  options: { residualPrior?: number } = {}
+): HypothesisArena {
+  if (options.residualPrior !== undefined) validateResidualPrior(options.residualPrior);
+
+  return {
+    ...arena,
+    scoringMode: mode,
+    residualPrior: options.residualPrior ?? arena.residualPrior,
+    updatedAt: new Date(),
+  };
+}
+
 /**
  * Record a test result for a specific hypothesis.
  */
@@ -484,10 +598,19 @@ export function recordTestResult(
     boldness?: PredictionBoldness;
     recordedBy?: string;
     notes?: string;
+    /** Explicit likelihood ratio; overrides the one derived from result, boldness, and confidence */
+    likelihoodRatio?: number;
   } = {}
 ): HypothesisArena {
   const { confidence = 1.0, boldness = "specific", recordedBy, notes } = options;
 
+  if (
+    options.likelihoodRatio !== undefined &&
+    (!Number.isFinite(options.likelihoodRatio) || options.likelihoodRatio < 0)
+  ) {
+    throw new Error(`Likelihood ratio must be a non-negative finite number, got ${options.likelihoodRatio}`);
+  }
+
   // Find the test
   const testIndex = arena.tests.findIndex((t) => t.id === testId);
   if (testIndex === -1) {
@@ -502,6 +625,11 @@ export function recordTestResult(
 
   const scoreDelta = calculateScoreDelta(result, boldness, confidence);
 
+  // In bayesian mode every result carries the ratio it was scored with
+  const likelihoodRatio =
+    options.likelihoodRatio ??
+    (arena.scoringMode === "bayesian" ? calculateLikelihoodRatio(result, boldness, confidence) : undefined);
+
   const testResult: HypothesisTestResult = {
     id: generateTestResultId(),
     hypothesisId,
@@ -513,6 +641,7 @@ export function recordTestResult(
     recordedAt: new Date(),
     recordedBy,
     notes,
+    ...(likelihoodRatio !== undefined ? { likelihoodRatio } : {}),
   };
 
   // Update the test
@@ -679,11 +808,20 @@ export function getEliminatedHypotheses(arena: HypothesisArena): ArenaHypothesis
 }
 
 /**
- * Get the current leader (highest scoring active hypothesis).
+ * Get the current leader (highest scoring active hypothesis, or highest
+ * posterior in bayesian mode).
  */
 export function getLeader(arena: HypothesisArena): ArenaHypothesis | undefined {
   const active = getActiveHypotheses(arena);
   if (active.length === 0) return undefined;
+
+  if (arena.scoringMode === "bayesian") {
+    const { probabilities } = computeArenaPosterior(arena);
+    return active.reduce((leader, current) =>
+      probabilities[current.hypothesisId] > probabilities[leader.hypothesisId] ? current : leader
+    );
+  }
+
   return active.reduce((leader, current) =>
     current.score > leader.score ? current : leader
   );
@@ -691,8 +829,22 @@ export function getLeader(arena: HypothesisArena): ArenaHypothesis | undefined {
 
 /**
  * Get hypotheses ranked by score.
+ *
+ * In bayesian mode, ranks by posterior instead and annotates each entry with
+ * its posterior and the expected information gain of testing it next.
  */
 export function getRankedHypotheses(arena: HypothesisArena): ArenaHypothesis[] {
+  if (arena.scoringMode === "bayesian") {
+    const posterior = computeArenaPosterior(arena);
+    return arena.competitors
+      .map((competitor) => ({
+        ...competitor,
+        posterior: posterior.probabilities[competitor.hypothesisId],
+        expectedInformationGain: calculateExpectedInformationGain(posterior, competitor.hypothesisId),
+      }))
+      .sort((a, b) => b.posterior - a.posterior);
+  }
+
   return [...arena.competitors].sort((a, b) => b.score - a.score);
 }
 
@@ -717,6 +869,101 @@ export function calculateDiscriminativePower(arena: HypothesisArena): number {
   return Math.min(range * testWeight / 100, 1);
 }
 
+// ============================================================================
+// Bayesian Posterior
+// ============================================================================
+
+/**
+ * Compute the posterior over competitors and the "none of them" residual.
+ *
+ * Starts from a uniform prior over competitors with `residualPrior` held
+ * back for the residual, then multiplies each result's hypothesis by its
+ * likelihood ratio. Ratios are relative to "not H", so the residual is never
+ * scaled directly: evidence against every competitor shifts mass onto it.
+ * Hypotheses eliminated without a recorded result get probability zero.
+ */
+export function computeArenaPosterior(arena: HypothesisArena): ArenaPosterior {
+  const residualPrior = arena.residualPrior ?? DEFAULT_RESIDUAL_PRIOR;
+  const weights = new Map<string, number>();
+
+  const competitorPrior = arena.competitors.length > 0 ? (1 - residualPrior) / arena.competitors.length : 0;
+  for (const competitor of arena.competitors) {
+    weights.set(competitor.hypothesisId, competitor.status === "eliminated" ? 0 : competitorPrior);
+  }
+
+  // Likelihood products commute, so replay order doesn't matter
+  for (const test of arena.tests) {
+    for (const result of test.results) {
+      const weight = weights.get(result.hypothesisId);
+      if (weight === undefined) continue;
+      const ratio =
+        result.likelihoodRatio ??
+        calculateLikelihoodRatio(result.result, result.predictionBoldness, result.confidence);
+      weights.set(result.hypothesisId, weight * ratio);
+    }
+  }
+
+  const competitorMass = Array.from(weights.values()).reduce((sum, w) => sum + w, 0);
+  const total = competitorMass + residualPrior;
+
+  const probabilities: Record<string, number> = {};
+  for (const [id, weight] of weights) {
+    probabilities[id] = total > 0 ? weight / total : 0;
+  }
+  const residual = total > 0 ? residualPrior / total : 1;
+
+  return {
+    probabilities,
+    residual,
+    entropy: entropyBits([...Object.values(probabilities), residual]),
+  };
+}
+
+/**
+ * Expected reduction in posterior entropy (bits) from a binary test of one
+ * hypothesis whose positive outcome has the given likelihood ratio.
+ *
+ * A ratio L implies P(positive | H) = L / (1 + L) and
+ * P(positive | not H) = 1 / (1 + L); the negative outcome has ratio 1 / L.
+ */
+export function calculateExpectedInformationGain(
+  posterior: ArenaPosterior,
+  hypothesisId: string,
+  likelihoodRatio: number = BASE_LIKELIHOOD_RATIOS.supports
+): number {
+  const prior = posterior.probabilities[hypothesisId] ?? 0;
+  if (prior <= 0 || prior >= 1 || likelihoodRatio <= 0 || likelihoodRatio === 1) return 0;
+
+  const pPositiveGivenH = likelihoodRatio / (1 + likelihoodRatio);
+  const pPositiveGivenNotH = 1 / (1 + likelihoodRatio);
+  const pPositive = prior * pPositiveGivenH + (1 - prior) * pPositiveGivenNotH;
+
+  const others = Object.entries(posterior.probabilities)
+    .filter(([id]) => id !== hypothesisId)
+    .map(([, p]) => p);
+  others.push(posterior.residual);
+
+  const entropyAfter = (ratio: number): number => {
+    const scaled = prior * ratio;
+    const total = scaled + (1 - prior);
+    return entropyBits([scaled / total, ...others.map((p) => p / total)]);
+  };
+
+  const expected =
+    pPositive * entropyAfter(likelihoodRatio) + (1 - pPositive) * entropyAfter(1 / likelihoodRatio);
+  return Math.max(0, posterior.entropy - expected);
+}
+
+function entropyBits(probabilities: number[]): number {
+  return probabilities.reduce((sum, p) => (p > 0 ? sum - p * Math.log2(p) : sum), 0);
+}
+
+function validateResidualPrior(residualPrior: number): void {
+  if (!Number.isFinite(residualPrior) || residualPrior < 0 || residualPrior >= 1) {
+    throw new Error(`Residual prior must be in [0, 1), got ${residualPrior}`);
+  }
+}
+
 // ============================================================================
 // Comparison Matrix
 // ============================================================================
@@ -725,6 +972,8 @@ export function calculateDiscriminativePower(arena: HypothesisArena): number {
  * Build a comparison matrix for display.
  */
 export function buildComparisonMatrix(arena: HypothesisArena): ComparisonMatrix {
+  const posterior = arena.scoringMode === "bayesian" ? computeArenaPosterior(arena) : undefined;
+
   const rows: ComparisonMatrixRow[] = arena.competitors.map((competitor) => {
     // Build test results map
     const testResults: Record<string, TestResultType | "pending"> = {};
@@ -748,11 +997,21 @@ export function buildComparisonMatrix(arena: HypothesisArena): ComparisonMatrix
       score: competitor.score,
       testResults,
       confidence: competitor.hypothesis.confidence,
+      ...(posterior
+        ? {
+            posterior: posterior.probabilities[competitor.hypothesisId],
+            expectedInformationGain: calculateExpectedInformationGain(posterior, competitor.hypothesisId),
+          }
+        : {}),
     };
   });
 
-  // Sort by score (descending)
-  rows.sort((a, b) => b.score - a.score);
+  // Sort by posterior in bayesian mode, otherwise by score (descending)
+  if (posterior) {
+    rows.sort((a, b) => (b.posterior ?? 0) - (a.posterior ?? 0));
+  } else {
+    rows.sort((a, b) => b.score - a.score);
+  }
 
   const active = getActiveHypotheses(arena);
   const eliminated = getEliminatedHypotheses(arena);
@@ -770,6 +1029,7 @@ export function buildComparisonMatrix(arena: HypothesisArena): ComparisonMatrix
         ? Math.round(active.reduce((sum, h) => sum + h.score, 0) / active.length)
         : 0,
     },
+    ...(posterior ? { posterior: { residual: posterior.residual, entropy: posterior.entropy } } : {}),
   };
 }
 
@@ -14,6 +14,8 @@
  * @module brenner-loop/hypothesis
  */
 
+import type { AttachmentRef } from "./types";
+
 // ============================================================================
 // Core Interfaces
 // ============================================================================
@@ -204,6 +206,9 @@ export interface HypothesisCard {
 
   /** Additional notes */
   notes?: string;
+
+  /** Attached figures, tables, or raw output (see AttachmentStore) */
+  attachments?: AttachmentRef[];
 }
 
 // ============================================================================
@@ -92,6 +92,13 @@ export type {
   AlternativeSystem,
   ScaleCheckResult,
   ScaleCalculation,
+  ParadoxHuntResult,
+  ParadoxResolution,
+  InvariantExtractResult,
+  RuledOutFamily,
+  ExceptionQuarantineResult,
+  QuarantinedAnomaly,
+  TheoryKillResult,
 
   // Agent types
   AgentRole,
@@ -104,6 +111,7 @@ export type {
 
   // Evidence types
   EvidenceEntry,
+  AttachmentRef,
 
   // Artifact types
   ArtifactType,
@@ -153,13 +161,18 @@ export type {
   StorageStats,
   StorageErrorCode,
   StorageChangeCallback,
+  AttachmentStore,
+  IndexedDBSessionStorageOptions,
 } from "./storage";
 
 export {
   // Storage implementation
   LocalStorageSessionStorage,
+  IndexedDBSessionStorage,
+  supportsAttachments,
   sessionStorage,
   StorageError,
+  migrateSession,
 
   // Resume metadata
   SESSION_RESUME_LOCATION_LABELS,
@@ -178,6 +191,27 @@ export {
   onStorageChange,
 } from "./storage";
 
+export type {
+  ServerSessionStorageOptions,
+  SessionMigrationReport,
+} from "./server-storage";
+
+export {
+  // Server-side store (lab mode)
+  ServerSessionStorage,
+  SERVER_SESSION_STORE_ENDPOINT,
+  migrateSessions,
+} from "./server-storage";
+
+export type { SessionStorageBackend } from "./session-storage-backend";
+
+export {
+  // Backend selection
+  getSessionStorage,
+  setSessionStorage,
+  resolveSessionStorageBackend,
+} from "./session-storage-backend";
+
 // ============================================================================
 // Error Recovery (bead ft14)
 // ============================================================================
@@ -223,7 +257,7 @@ export {
 // Session Context Provider & Hooks (bead 1v26.3)
 // ============================================================================
 
-export type { SessionContextValue } from "./session-context";
+export type { SessionContextValue, SessionCollaborationOptions } from "./session-context";
 
 export {
   // Provider
@@ -240,6 +274,46 @@ export {
   PHASE_ORDER,
 } from "./session-context";
 
+// ============================================================================
+// Multi-user Collaboration
+// ============================================================================
+
+export type {
+  LamportStamp,
+  PredictionList,
+  CollabHypothesisField,
+  CollabChange,
+  CollabOp,
+  CollabDocument,
+  CollaboratorPresence,
+} from "./collaboration";
+
+export {
+  // Operation log
+  createCollabDocument,
+  applyCollabOp,
+  applyCollabOps,
+  diffSessionChanges,
+  recordLocalChanges,
+  compareStamps,
+  isCollabOp,
+
+  // Presence
+  activeCollaborators,
+  presenceColor,
+  PRESENCE_TTL_MS,
+} from "./collaboration";
+
+export type {
+  CollaborationStatus,
+  SessionRelayClientOptions,
+} from "./collaboration-client";
+
+export {
+  SessionRelayClient,
+  SESSION_RELAY_ENDPOINT,
+} from "./collaboration-client";
+
 // ============================================================================
 // Session State Machine (bead reew.3)
 // ============================================================================
@@ -341,6 +415,8 @@ export type {
   TestResultType,
   PredictionBoldness,
   ArenaHypothesisStatus,
+  ArenaScoringMode,
+  ArenaPosterior,
   HypothesisSource,
   ArenaHypothesis,
   ScoredPrediction,
@@ -355,6 +431,8 @@ export {
   // Constants
   BOLDNESS_MULTIPLIERS,
   BASE_SCORE_DELTAS,
+  BASE_LIKELIHOOD_RATIOS,
+  DEFAULT_RESIDUAL_PRIOR,
   SOURCE_LABELS,
   STATUS_CONFIG,
 
@@ -368,6 +446,8 @@ export {
   // Arena operations
   addCompetitor,
   calculateScoreDelta,
+  calculateLikelihoodRatio,
+  setScoringMode,
   recordTestResult,
   createArenaTest,
   eliminateHypothesis,
@@ -380,6 +460,10 @@ export {
   getRankedHypotheses,
   calculateDiscriminativePower,
 
+  // Bayesian posterior
+  computeArenaPosterior,
+  calculateExpectedInformationGain,
+
   // Comparison matrix
   buildComparisonMatrix,
 
@@ -737,15 +821,29 @@ export {
 // Embeddings (bead ukd1.1)
 // ============================================================================
 
-export type { EmbeddingSource, EmbeddingEntry, EmbeddingIndex, EmbeddingMatch } from "./search/embeddings";
+export type {
+  EmbeddingSource,
+  EmbeddingEntry,
+  EmbeddingIndex,
+  EmbeddingMatch,
+  EmbeddingProvider,
+  LoadEmbeddingProviderOptions,
+} from "./search/embeddings";
 
 export {
   EMBEDDING_DIMENSION,
   EMBEDDING_INDEX_VERSION,
+  HASHING_EMBEDDING_MODEL,
   embedText,
   cosineSimilarity,
   findSimilar,
   loadEmbeddings,
+  // Embedding providers
+  hashingEmbeddingProvider,
+  getEmbeddingModel,
+  loadEmbeddingProvider,
+  embedQuery,
+  searchEmbeddings,
 } from "./search/embeddings";
 
 // ============================================================================
@@ -960,6 +1058,31 @@ export {
   RECOMMENDATION_LABELS,
 } from "./what-if";
 
+// ============================================================================
+// Test Prioritization Planner
+// ============================================================================
+
+export type {
+  PlannableTest,
+  PlanBudget,
+  PlanOptions,
+  PlannedTest,
+  UnplannedReason,
+  UnplannedTest,
+  TestPlan,
+} from "./test-plan";
+
+export {
+  planTests,
+  plannableFromTestRecord,
+  plannableFromQueueItem,
+  parseDurationDays,
+  parseCostUsd,
+  UNPLANNED_REASON_LABELS,
+  DEFAULT_REFERENCE_COST,
+  DEFAULT_REFERENCE_DAYS,
+} from "./test-plan";
+
 // ============================================================================
 // Literature Integration (bead njjo.7)
 // ============================================================================
@@ -999,6 +1122,7 @@ export {
 
   // Relevance scoring
   calculateRelevance,
+  scorePaperRelevance,
   rankByRelevance,
   getRelevanceLabel,
   getRelevanceColor,
@@ -1094,6 +1218,10 @@ export {
   getEffectivePhases,
   getEffectiveAgents,
 
+  // Operator chain templates
+  createCompositionTemplate,
+  getTemplateComposition,
+
   // Validation
   validateTemplate,
 
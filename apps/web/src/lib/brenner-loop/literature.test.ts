@@ -7,6 +7,7 @@
 import { describe, expect, it } from "vitest";
 import type { HypothesisCard } from "./hypothesis";
 import type { PaperResult, BibTeXEntry } from "./literature";
+import type { EmbeddingProvider } from "./search/embeddings";
 import {
   // ID generation
   generateSearchId,
@@ -17,6 +18,7 @@ import {
 
   // Relevance scoring
   calculateRelevance,
+  scorePaperRelevance,
   rankByRelevance,
   getRelevanceLabel,
   getRelevanceColor,
@@ -223,6 +225,25 @@ describe("calculateRelevance", () => {
   });
 });
 
+describe("scorePaperRelevance", () => {
+  it("scores papers with the provider's vectors", async () => {
+    const hypothesis = createMockHypothesis();
+    const paraphrase = createMockPaper({ id: "p1", title: "Teens scrolling phone feeds feel worse", abstract: "" });
+    const unrelated = createMockPaper({ id: "p2", title: "Soil nitrogen in wheat fields", abstract: "" });
+    const provider: EmbeddingProvider = {
+      id: "test/topic",
+      dimension: 2,
+      embed: async (texts) => texts.map((text) => (/social|phone|teen/i.test(text) ? [1, 0] : [0, 1])),
+    };
+
+    const [close, far] = await scorePaperRelevance([paraphrase, unrelated], hypothesis, provider);
+
+    expect(close.relevanceScore).toBeCloseTo(1, 5);
+    expect(close.relevanceRationale).toMatch(/^Highly relevant/);
+    expect(far.relevanceScore).toBeCloseTo(0, 5);
+  });
+});
+
 describe("rankByRelevance", () => {
   it("sorts papers by relevance score descending", () => {
     const papers = [
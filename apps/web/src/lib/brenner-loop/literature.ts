@@ -17,7 +17,7 @@
 
 import type { HypothesisCard } from "./hypothesis";
 import type { DiscriminativePower, EvidenceResult } from "./evidence";
-import { embedText, cosineSimilarity } from "./search/embeddings";
+import { embedText, cosineSimilarity, type EmbeddingProvider } from "./search/embeddings";
 
 // ============================================================================
 // Types
@@ -424,20 +424,54 @@ function cleanQueryString(text: string): string {
  * Calculate relevance score between a paper and a hypothesis.
  *
  * Uses embedding similarity on title + abstract vs hypothesis statement.
+ * Scores use the hashing embedding; see `scorePaperRelevance` for other models.
  */
 export function calculateRelevance(
   paper: Partial<PaperResult>,
   hypothesis: HypothesisCard
 ): { score: number; rationale: string } {
-  // Combine paper text
-  const paperText = [
+  // Generate embeddings and calculate similarity
+  const paperEmbedding = embedText(paperRelevanceText(paper));
+  const hypothesisEmbedding = embedText(hypothesisRelevanceText(hypothesis));
+  return relevanceFromScore(cosineSimilarity(paperEmbedding, hypothesisEmbedding));
+}
+
+/**
+ * Score papers against a hypothesis with an embedding provider.
+ *
+ * Embeds the hypothesis and every paper in one batch, so a sentence-transformer
+ * provider catches papers that paraphrase the hypothesis.
+ */
+export async function scorePaperRelevance(
+  papers: PaperResult[],
+  hypothesis: HypothesisCard,
+  provider: EmbeddingProvider
+): Promise<PaperResult[]> {
+  if (papers.length === 0) return [];
+
+  const [hypothesisEmbedding, ...paperEmbeddings] = await provider.embed([
+    hypothesisRelevanceText(hypothesis),
+    ...papers.map(paperRelevanceText),
+  ]);
+
+  return papers.map((paper, i) => {
+    const { score, rationale } = relevanceFromScore(
+      cosineSimilarity(paperEmbeddings[i], hypothesisEmbedding)
+    );
+    return { ...paper, relevanceScore: score, relevanceRationale: rationale };
+  });
+}
+
+function paperRelevanceText(paper: Partial<PaperResult>): string {
+  return [
     paper.title || "",
     paper.abstract || "",
     (paper.keywords || []).join(" "),
   ].join(" ");
+}
 
-  // Combine hypothesis text
-  const hypothesisText = [
+function hypothesisRelevanceText(hypothesis: HypothesisCard): string {
+  return [
     hypothesis.statement,
     hypothesis.mechanism,
     hypothesis.domain.join(" "),
@@ -446,12 +480,9 @@ export function calculateRelevance(
     (hypothesis.tags ?? []).join(" "),
     hypothesis.notes ?? "",
   ].join(" ");
+}
 
-  // Generate embeddings and calculate similarity
-  const paperEmbedding = embedText(paperText);
-  const hypothesisEmbedding = embedText(hypothesisText);
-  const score = cosineSimilarity(paperEmbedding, hypothesisEmbedding);
-
+function relevanceFromScore(score: number): { score: number; rationale: string } {
   // Generate rationale based on score
   let rationale: string;
   if (score >= RELEVANCE_THRESHOLDS.HIGH) {
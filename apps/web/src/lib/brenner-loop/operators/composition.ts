@@ -0,0 +1,450 @@
+/**
+ * Operator Compositions
+ *
+ * Runs a declared chain of operators as one guided workflow. Each operator's
+ * result is folded into the hypothesis that the next operator receives, so a
+ * Level Split narrows the hypothesis before Invariant Extract sees it, and the
+ * invariants are on the card before Exclusion Test derives its tests.
+ *
+ * The chains mirror the compositions in the operator library spec. Operators
+ * that have no guided session yet (Recode, Materialize, Quickie, ...) are
+ * listed as omitted rather than silently dropped.
+ *
+ * @see specs/operator_library_v0.1.md - Operator Compositions
+ * @module brenner-loop/operators/composition
+ */
+
+import type { HypothesisCard, IdentifiedConfound } from "../hypothesis";
+import type { OperatorType } from "./framework";
+import { OPERATOR_METADATA, isOperatorType } from "./framework";
+import type { LevelSplitResult } from "./level-split";
+import type { ExclusionTestResult } from "./exclusion-test";
+import type { ObjectTransposeResult } from "./object-transpose";
+import type { ScaleCheckResult } from "./scale-check";
+import type { ParadoxHuntResult } from "./paradox-hunt";
+import type { InvariantExtractResult } from "./invariant-extract";
+import type { ExceptionQuarantineResult } from "./exception-quarantine";
+import type { TheoryKillResult } from "./theory-kill";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Result type produced by each operator's guided session
+ */
+export interface OperatorResultByType {
+  level_split: LevelSplitResult;
+  exclusion_test: ExclusionTestResult;
+  object_transpose: ObjectTransposeResult;
+  scale_check: ScaleCheckResult;
+  paradox_hunt: ParadoxHuntResult;
+  invariant_extract: InvariantExtractResult;
+  exception_quarantine: ExceptionQuarantineResult;
+  theory_kill: TheoryKillResult;
+}
+
+/**
+ * A named chain of operators
+ */
+export interface OperatorComposition {
+  /** Unique identifier */
+  id: string;
+  /** Display name */
+  name: string;
+  /** When to use the chain */
+  description: string;
+  /** Operators to run, in order */
+  operators: OperatorType[];
+  /** Spec operators in this chain that have no guided session yet */
+  omitted?: string[];
+}
+
+/**
+ * Status of one step in a composition run
+ */
+export type CompositionStepStatus = "pending" | "active" | "completed" | "skipped";
+
+/**
+ * State of one operator within a composition run
+ */
+export interface CompositionStepRecord {
+  /** Operator for this step */
+  operatorType: OperatorType;
+  /** Current status */
+  status: CompositionStepStatus;
+  /** Hypothesis the operator received (set when the step becomes active) */
+  inputHypothesis?: HypothesisCard;
+  /** Operator result (completed steps only) */
+  result?: unknown;
+  /** One-line summary of the result */
+  summary?: string;
+  /** When the step was completed or skipped */
+  finishedAt?: string;
+}
+
+/**
+ * Overall status of a composition run
+ */
+export type CompositionRunStatus = "in_progress" | "completed" | "abandoned";
+
+/**
+ * A composition being worked through
+ */
+export interface CompositionRun {
+  /** Composition being run */
+  compositionId: string;
+  /** One record per operator in the chain */
+  steps: CompositionStepRecord[];
+  /** Index of the active step (equals steps.length once finished) */
+  currentStepIndex: number;
+  /** Hypothesis the run started from */
+  baseHypothesis: HypothesisCard;
+  /** Hypothesis carrying the context of every completed step */
+  currentHypothesis: HypothesisCard;
+  /** Overall status */
+  status: CompositionRunStatus;
+  /** When the run started */
+  startedAt: string;
+  /** When the run completed or was abandoned */
+  finishedAt?: string;
+}
+
+/**
+ * Actions that can be performed on a composition run
+ */
+export type CompositionRunAction =
+  | { type: "COMPLETE_STEP"; result: unknown }
+  | { type: "SKIP_STEP" }
+  | { type: "ABANDON" };
+
+// ============================================================================
+// Built-in Compositions
+// ============================================================================
+
+/**
+ * Standard Diagnostic Chain: level-split, extract invariants, then derive
+ * forbidden patterns that delete whole model families.
+ */
+export const STANDARD_DIAGNOSTIC_CHAIN: OperatorComposition = {
+  id: "standard-diagnostic-chain",
+  name: "Standard Diagnostic Chain",
+  description:
+    "Separate the levels, find what must hold at the level you kept, then design the test that deletes model families.",
+  operators: ["level_split", "invariant_extract", "exclusion_test"],
+  omitted: ["Recode"],
+};
+
+/**
+ * Hygiene Layer: stay physical, quarantine exceptions honestly, kill theories
+ * that fail.
+ */
+export const HYGIENE_LAYER: OperatorComposition = {
+  id: "hygiene-layer",
+  name: "Hygiene Layer",
+  description:
+    "Check the magnitudes, account for every anomaly, and kill the hypothesis if the evidence has turned against it.",
+  operators: ["scale_check", "exception_quarantine", "theory_kill"],
+};
+
+/**
+ * All built-in compositions
+ */
+export const OPERATOR_COMPOSITIONS: OperatorComposition[] = [
+  STANDARD_DIAGNOSTIC_CHAIN,
+  HYGIENE_LAYER,
+];
+
+/**
+ * Get a built-in composition by ID
+ */
+export function getComposition(id: string): OperatorComposition | undefined {
+  return OPERATOR_COMPOSITIONS.find((composition) => composition.id === id);
+}
+
+/**
+ * Chain notation built from operator symbols, e.g. "Σ → ≡ → ⊘"
+ */
+export function formatCompositionNotation(operators: OperatorType[]): string {
+  return operators.map((type) => OPERATOR_METADATA[type].symbol).join(" → ");
+}
+
+/**
+ * Validate a declared composition. Returns a list of problems (empty if valid).
+ */
+export function validateComposition(composition: OperatorComposition): string[] {
+  const errors: string[] = [];
+
+  if (!composition.id.trim()) {
+    errors.push("Composition id is required");
+  }
+  if (!composition.name.trim()) {
+    errors.push("Composition name is required");
+  }
+  if (composition.operators.length === 0) {
+    errors.push("Composition must include at least one operator");
+  }
+  for (const operator of composition.operators) {
+    if (!isOperatorType(operator)) {
+      errors.push(`Unknown operator "${String(operator)}"`);
+    }
+  }
+
+  return errors;
+}
+
+// ============================================================================
+// Context Threading
+// ============================================================================
+
+function appendNote(hypothesis: HypothesisCard, type: OperatorType, summary: string): string {
+  const line = `[${OPERATOR_METADATA[type].name}] ${summary}`;
+  return hypothesis.notes?.trim() ? `${hypothesis.notes.trim()}\n${line}` : line;
+}
+
+function mergeUnique(existing: string[], additions: string[]): string[] {
+  const merged = [...existing];
+  for (const item of additions) {
+    const trimmed = item.trim();
+    if (trimmed && !merged.includes(trimmed)) {
+      merged.push(trimmed);
+    }
+  }
+  return merged;
+}
+
+/**
+ * One-line summary of an operator result
+ */
+export function summarizeOperatorResult<T extends OperatorType>(
+  type: T,
+  result: OperatorResultByType[T]
+): string {
+  switch (type) {
+    case "level_split": {
+      const r = result as LevelSplitResult;
+      return r.focusedHypothesis
+        ? `Focused on: ${r.focusedHypothesis.statement}`
+        : `${r.subHypotheses.length} sub-hypotheses, none focused`;
+    }
+    case "exclusion_test": {
+      const r = result as ExclusionTestResult;
+      return `${r.testsForSession.length} exclusion test(s) selected`;
+    }
+    case "object_transpose": {
+      const r = result as ObjectTransposeResult;
+      return `${r.highPriorityAlternativeIds.length} high-priority alternative(s) of ${r.alternatives.length}`;
+    }
+    case "scale_check": {
+      const r = result as ScaleCheckResult;
+      return `Scale verdict: ${r.overallPlausibility.replace(/_/g, " ")}`;
+    }
+    case "paradox_hunt": {
+      const r = result as ParadoxHuntResult;
+      const leading = r.resolutions.find((res) => res.id === r.leadingResolutionId);
+      return leading
+        ? `Leading resolution: ${leading.name}`
+        : `${r.selectedResolutionIds.length} resolution(s) kept open`;
+    }
+    case "invariant_extract": {
+      const r = result as InvariantExtractResult;
+      return `${r.invariants.length} invariant(s), ${r.forbiddenPatterns.length} model family(ies) ruled out`;
+    }
+    case "exception_quarantine": {
+      const r = result as ExceptionQuarantineResult;
+      return `${r.escalatedIds.length} signal, ${r.quarantinedIds.length} quarantined; core model ${r.coreModelIntact ? "intact" : "under threat"}`;
+    }
+    case "theory_kill": {
+      const r = result as TheoryKillResult;
+      return r.verdict === "kill" ? `Killed ${r.target.kind}: ${r.target.statement}` : "Kill deferred";
+    }
+    default:
+      return "Completed";
+  }
+}
+
+/**
+ * Fold an operator result into the hypothesis handed to the next operator.
+ *
+ * Only fields with a clear meaning are changed (a focused sub-hypothesis,
+ * invariants as assumptions, falsification conditions, alternatives as
+ * confounds). Every result also leaves a summary line in `notes`.
+ */
+export function applyOperatorResultToHypothesis<T extends OperatorType>(
+  type: T,
+  hypothesis: HypothesisCard,
+  result: OperatorResultByType[T]
+): HypothesisCard {
+  const notes = appendNote(hypothesis, type, summarizeOperatorResult(type, result));
+
+  switch (type) {
+    case "level_split": {
+      const r = result as LevelSplitResult;
+      const base = r.focusedHypothesis ?? hypothesis;
+      return { ...base, notes };
+    }
+
+    case "exclusion_test": {
+      const r = result as ExclusionTestResult;
+      return {
+        ...hypothesis,
+        impossibleIfTrue: mergeUnique(
+          hypothesis.impossibleIfTrue,
+          r.testsForSession.map((test) => test.falsificationCondition)
+        ),
+        notes,
+      };
+    }
+
+    case "object_transpose": {
+      const r = result as ObjectTransposeResult;
+      const highPriority = new Set(r.highPriorityAlternativeIds);
+      const existingIds = new Set(hypothesis.confounds.map((c) => c.id));
+      const confounds: IdentifiedConfound[] = r.alternatives
+        .filter((alt) => highPriority.has(alt.id) && !existingIds.has(`OT-${alt.id}`))
+        .map((alt) => ({
+          id: `OT-${alt.id}`,
+          name: alt.name,
+          description: alt.description,
+          likelihood: Math.min(1, Math.max(0, (alt.plausibility ?? 3) / 5)),
+          domain: hypothesis.domain[0] ?? "general",
+          addressed: false,
+        }));
+      return { ...hypothesis, confounds: [...hypothesis.confounds, ...confounds], notes };
+    }
+
+    case "invariant_extract": {
+      const r = result as InvariantExtractResult;
+      const violations = r.probe ? [r.probe.expectedIfViolated] : [];
+      return {
+        ...hypothesis,
+        assumptions: mergeUnique(
+          hypothesis.assumptions,
+          [...r.invariants.map((inv) => inv.statement), ...r.assumptions.map((a) => a.statement)]
+        ),
+        impossibleIfTrue: mergeUnique(hypothesis.impossibleIfTrue, violations),
+        notes,
+      };
+    }
+
+    case "theory_kill": {
+      const r = result as TheoryKillResult;
+      if (r.verdict === "kill" && r.target.kind === "hypothesis" && r.replacement) {
+        return {
+          ...hypothesis,
+          statement: r.replacement.statement,
+          parentVersion: hypothesis.id,
+          evolutionReason: `Replaced by Theory Kill: ${r.killReason}`,
+          notes,
+        };
+      }
+      return { ...hypothesis, notes };
+    }
+
+    default:
+      return { ...hypothesis, notes };
+  }
+}
+
+// ============================================================================
+// Run State
+// ============================================================================
+
+/**
+ * Start a run of a composition
+ */
+export function createCompositionRun(
+  composition: OperatorComposition,
+  hypothesis: HypothesisCard
+): CompositionRun {
+  return {
+    compositionId: composition.id,
+    steps: composition.operators.map((operatorType, index) => ({
+      operatorType,
+      status: index === 0 ? "active" : "pending",
+      inputHypothesis: index === 0 ? hypothesis : undefined,
+    })),
+    currentStepIndex: 0,
+    baseHypothesis: hypothesis,
+    currentHypothesis: hypothesis,
+    status: composition.operators.length > 0 ? "in_progress" : "completed",
+    startedAt: new Date().toISOString(),
+  };
+}
+
+function advance(
+  run: CompositionRun,
+  finished: CompositionStepRecord,
+  nextHypothesis: HypothesisCard
+): CompositionRun {
+  const now = new Date().toISOString();
+  const nextIndex = run.currentStepIndex + 1;
+  const steps = run.steps.map((step, index) => {
+    if (index === run.currentStepIndex) return { ...finished, finishedAt: now };
+    if (index === nextIndex) return { ...step, status: "active" as const, inputHypothesis: nextHypothesis };
+    return step;
+  });
+  const done = nextIndex >= run.steps.length;
+
+  return {
+    ...run,
+    steps,
+    currentStepIndex: nextIndex,
+    currentHypothesis: nextHypothesis,
+    status: done ? "completed" : "in_progress",
+    finishedAt: done ? now : undefined,
+  };
+}
+
+/**
+ * Reducer for composition runs
+ */
+export function compositionReducer(
+  run: CompositionRun,
+  action: CompositionRunAction
+): CompositionRun {
+  if (run.status !== "in_progress") {
+    return run;
+  }
+  const current = run.steps[run.currentStepIndex];
+  if (!current) {
+    return run;
+  }
+
+  switch (action.type) {
+    case "COMPLETE_STEP": {
+      const type = current.operatorType;
+      const result = action.result as OperatorResultByType[typeof type];
+      return advance(
+        run,
+        {
+          ...current,
+          status: "completed",
+          result: action.result,
+          summary: summarizeOperatorResult(type, result),
+        },
+        applyOperatorResultToHypothesis(type, run.currentHypothesis, result)
+      );
+    }
+
+    case "SKIP_STEP":
+      return advance(run, { ...current, status: "skipped" }, run.currentHypothesis);
+
+    case "ABANDON":
+      return {
+        ...run,
+        status: "abandoned",
+        finishedAt: new Date().toISOString(),
+      };
+
+    default:
+      return run;
+  }
+}
+
+/**
+ * Get the active step, if the run is still in progress
+ */
+export function getActiveCompositionStep(run: CompositionRun): CompositionStepRecord | null {
+  return run.status === "in_progress" ? run.steps[run.currentStepIndex] ?? null : null;
+}
@@ -495,6 +495,340 @@ mechanism, what magnitude of effect should we see? Does that match observations?
   ],
 };
 
+// ============================================================================
+// Paradox Hunt (◊) Documentation
+// ============================================================================
+
+export const PARADOX_HUNT_DOCS: OperatorDocumentation = {
+  type: "paradox_hunt",
+
+  concept:
+    "Find a contradiction in the current model and use it as a pointer to the missing constraint, instead of explaining it away.",
+
+  explanation: `
+The Paradox Hunt operator treats contradictions as beacons. When two things you
+believe cannot both be true, the model is missing a component, confusing levels,
+or resting on bad evidence.
+
+**The Core Insight**: A paradox stated crisply is a constraint. It rules out every
+model that cannot make both claims true, and usually points straight at what is missing.
+
+The operator forces you to keep at least two resolutions alive until a test separates them.
+  `.trim(),
+
+  whenToUse: [
+    "Two well-established facts seem to contradict each other",
+    "Something 'cannot both be true' under current language",
+    "You are looking for a high-leverage entry point into a problem",
+  ],
+
+  whenNotToUse: [
+    "The 'contradiction' is a single noisy data point (use Exception Quarantine)",
+    "One side of the conflict has already failed replication",
+  ],
+
+  keyQuestion: "Which two things you believe cannot both be true, and what would reconcile them?",
+
+  brennerExample: {
+    title: "The Paradox of Prodigious Protein Synthesis",
+    description: `
+After phage infection no new ribosomes were made, yet protein was synthesized at a
+prodigious rate. Holding the old one-gene-one-ribosome theory required an impossible
+rate. Brenner treated the paradox as a constraint: there had to be a separate,
+unstable messenger carrying information to old ribosomes.
+    `.trim(),
+    quoteSection: "§95",
+  },
+
+  stepTips: {
+    "state-paradox": {
+      headline: "Two sentences, one conflict",
+      guidance:
+        "Write each claim as a sentence you would defend on its own. The paradox is that you can't defend both.",
+      example:
+        "'Protein synthesis is rapid after infection' / 'No new ribosomes are made after infection'.",
+      antiPattern:
+        "Don't state a vague tension ('the data are confusing'). Name both claims.",
+    },
+    "propose-resolutions": {
+      headline: "Keep several resolutions alive",
+      guidance:
+        "Consider level split, recoding, a hidden variable, and both claims being wrong. Rate each before choosing.",
+      antiPattern:
+        "Don't patch the paradox with the first explanation that comes to mind.",
+    },
+    "discriminating-tests": {
+      headline: "Pick tests the resolutions disagree on",
+      guidance:
+        "A useful test comes out differently under each resolution. One or two sharp tests beat a long list.",
+    },
+  },
+
+  relevantQuoteSections: ["§95", "§163"],
+
+  commonMistakes: [
+    "Resolving the paradox prematurely with a patch explanation",
+    "Keeping contradictory beliefs in separate mental compartments",
+    "Normalizing an inconsistency until it no longer looks like a paradox",
+  ],
+
+  successCriteria: [
+    "The paradox is stated as two claims that cannot both be true",
+    "At least two resolutions are still in play",
+    "You have a test whose outcome differs between resolutions",
+  ],
+};
+
+// ============================================================================
+// Invariant Extract (≡) Documentation
+// ============================================================================
+
+export const INVARIANT_EXTRACT_DOCS: OperatorDocumentation = {
+  type: "invariant_extract",
+
+  concept:
+    "Identify properties that must hold whatever the mechanism turns out to be, and use them to prune the space of models.",
+
+  explanation: `
+The Invariant Extract operator lets you make progress without knowing every detail.
+Conservation laws, scale bounds, topological order and counting limits hold across
+all plausible mechanisms, so they rule out whole families of models at once.
+
+**The Core Insight**: Tests on invariants have high likelihood ratios. If an
+invariant fails, every model that depended on it fails too.
+  `.trim(),
+
+  whenToUse: [
+    "You don't know the full mechanism but need to make progress",
+    "You want structural constraints on the space of possibilities",
+    "You need predictions that don't depend on molecular detail",
+  ],
+
+  whenNotToUse: [
+    "The mechanism is already known and the question is quantitative detail",
+  ],
+
+  keyQuestion: "What must be true no matter how this works?",
+
+  brennerExample: {
+    title: "Proving the Triplet Code with Plus and Minus",
+    description: `
+Brenner and Crick crossed frameshift mutants and recorded only whether progeny grew.
+From that topology alone they showed the code is read in non-overlapping units of
+three, without any chemistry. The invariant (reading frame is preserved only when
+shifts sum to a multiple of three) ruled out entire classes of coding models.
+    `.trim(),
+    quoteSection: "§109",
+  },
+
+  stepTips: {
+    "state-invariants": {
+      headline: "Look for what survives coarse operations",
+      guidance:
+        "State two to four properties that must hold across mechanisms: conserved quantities, bounds on scale, order relationships, counting constraints.",
+      example:
+        "'The reading frame is restored only when insertions and deletions sum to a multiple of three.'",
+    },
+    "rule-out-families": {
+      headline: "Make each invariant forbid something",
+      guidance:
+        "For each invariant, name a family of models that violates it. An invariant that rules nothing out isn't doing work.",
+      antiPattern:
+        "Don't exempt your favored model from the invariants.",
+    },
+    "probe-invariant": {
+      headline: "Test the invariant, not the details",
+      guidance:
+        "Design an experiment whose outcome is near-impossible unless the invariant holds.",
+    },
+    "record-assumptions": {
+      headline: "Write down what the invariants rest on",
+      guidance:
+        "Each invariant depends on assumptions. Record them and flag any that depend on magnitudes for a scale check.",
+    },
+  },
+
+  relevantQuoteSections: ["§90", "§100", "§109", "§224"],
+
+  commonMistakes: [
+    "Letting seductive cartoons violate scale, geometry or time constants",
+    "Ignoring combinatorial constraints",
+    "Measuring the third decimal place when the order of magnitude matters",
+  ],
+
+  successCriteria: [
+    "Two to four invariants are stated",
+    "At least one model family is ruled out with a reason",
+    "A test probes an invariant directly",
+  ],
+};
+
+// ============================================================================
+// Exception Quarantine (ΔE) Documentation
+// ============================================================================
+
+export const EXCEPTION_QUARANTINE_DOCS: OperatorDocumentation = {
+  type: "exception_quarantine",
+
+  concept:
+    "Keep a coherent core model while listing its anomalies explicitly, separating signal from noise, and targeting the one that matters most.",
+
+  explanation: `
+The Exception Quarantine operator stops anomalies from destroying a good theory too
+early, without letting them be hidden. Every exception is written down; those that
+look like noise go in an appendix, and those that look like signal get analysed.
+
+**The Core Insight**: Exceptions with unrelated causes are safe. Exceptions that
+share a pattern are dangerous: they may be the outline of a rival theory.
+  `.trim(),
+
+  whenToUse: [
+    "Your theory explains most of the data but has stubborn exceptions",
+    "Anomalies show no pattern among themselves",
+    "You need to make progress while acknowledging unresolved issues",
+  ],
+
+  whenNotToUse: [
+    "The anomaly directly contradicts the central claim (use Theory Kill or Paradox Hunt)",
+  ],
+
+  keyQuestion: "Which anomalies are noise, which are signal, and which one should you resolve first?",
+
+  brennerExample: {
+    title: "The Appendix of Exceptions",
+    description: `
+When the coherent theory of the genetic code met a scattering of exceptions, they were
+neither hidden nor allowed to sink the theory. They went into an appendix. It took years
+to work through them, and each had its own special explanation, which is exactly why
+the theory survived.
+    `.trim(),
+    quoteSection: "§110",
+  },
+
+  stepTips: {
+    "list-anomalies": {
+      headline: "Write every anomaly down",
+      guidance:
+        "Include failed replications, wrong-direction effects and the data points you were tempted to drop.",
+      antiPattern:
+        "Don't pre-filter the list. Classification comes next.",
+    },
+    "separate-signal": {
+      headline: "Signal or noise?",
+      guidance:
+        "Noise is measurement error or an unrelated special case. Signal is real and relevant to the core model. Watch for signal anomalies that share a pattern.",
+    },
+    "analyze-conflicts": {
+      headline: "Name the conflict and the fix",
+      guidance:
+        "For each signal anomaly, say which part of the model it contradicts and what would resolve it. Rate how much resolving it would teach you.",
+    },
+    "resolving-tests": {
+      headline: "Aim at the highest-leverage anomaly",
+      guidance:
+        "Choose a test that either absorbs the anomaly into the model or promotes it to a real threat.",
+    },
+  },
+
+  relevantQuoteSections: ["§57", "§106", "§110", "§111"],
+
+  commonMistakes: [
+    "Sweeping anomalies under the carpet forever (Occam's broom abuse)",
+    "Discarding a coherent framework too early over scattered exceptions",
+    "Letting noisy exceptions destroy a high-compression theory",
+  ],
+
+  successCriteria: [
+    "Every known anomaly is listed",
+    "Each anomaly is classified as signal or noise",
+    "Signal anomalies have a stated conflict and resolution",
+    "The highest-leverage anomaly has a resolving test",
+  ],
+};
+
+// ============================================================================
+// Theory Kill (†) Documentation
+// ============================================================================
+
+export const THEORY_KILL_DOCS: OperatorDocumentation = {
+  type: "theory_kill",
+
+  concept:
+    "Discard a hypothesis the moment it fails a fair test, and fill the vacuum it leaves.",
+
+  explanation: `
+The Theory Kill operator makes killing a hypothesis an explicit, recorded act. You name
+what has failed, give the reason in one sentence, confirm it had a fair test, and name a
+replacement if nothing else covers the evidence.
+
+**The Core Insight**: Attachment slows updating. But killing too early is also a failure,
+so the operator checks that the test was potent before the kill goes through.
+  `.trim(),
+
+  whenToUse: [
+    "Evidence contradicts your favored hypothesis",
+    "You notice yourself making excuses for a theory",
+    "A theory has 'gone ugly' and needs patches to survive",
+  ],
+
+  whenNotToUse: [
+    "The hypothesis hasn't had a potent test yet",
+    "The contradicting result is a single unreplicated observation",
+  ],
+
+  keyQuestion: "What has this hypothesis failed, and what replaces it?",
+
+  brennerExample: {
+    title: "Abandoning the Deduced Code",
+    description: `
+Elegant theories of the genetic code, deduced from first principles, were abandoned
+once it became clear the code was degenerate and could not be derived. The response was
+not to patch the theories but to drop them and go measure the code directly.
+    `.trim(),
+    quoteSection: "§229",
+  },
+
+  stepTips: {
+    "identify-target": {
+      headline: "Name exactly what failed",
+      guidance:
+        "Say whether you are killing a hypothesis, a test or an assumption, and list the observations that contradict it.",
+    },
+    "state-reason": {
+      headline: "One sentence, no hedging",
+      guidance:
+        "State which evidence makes the target obsolete. If you need 'but maybe' or 'unless', you are rescuing, not killing.",
+      antiPattern:
+        "'It failed the test, but it could still hold under special conditions.'",
+    },
+    "fair-test": {
+      headline: "Check the test was fair",
+      guidance:
+        "Was the test potent, replicated, at the right level and free of artifacts? Any 'no' defers the kill.",
+    },
+    "fill-vacuum": {
+      headline: "Don't leave a vacuum",
+      guidance:
+        "If nothing else explains the evidence, propose a replacement, ideally a Third Alternative neither side had considered.",
+    },
+  },
+
+  relevantQuoteSections: ["§83", "§106", "§229"],
+
+  commonMistakes: [
+    "Attachment to a theory causing slow updating",
+    "Killing a theory before it has had a fair test",
+    "Never finishing anything because every theory is killed prematurely",
+  ],
+
+  successCriteria: [
+    "The contradicted item and evidence are named",
+    "The kill reason fits in one sentence without rescue language",
+    "The fair-test checks are answered",
+    "Any vacuum has a named replacement",
+  ],
+};
+
 // ============================================================================
 // Documentation Index
 // ============================================================================
@@ -507,6 +841,10 @@ export const OPERATOR_DOCUMENTATION: Record<OperatorType, OperatorDocumentation>
   exclusion_test: EXCLUSION_TEST_DOCS,
   object_transpose: OBJECT_TRANSPOSE_DOCS,
   scale_check: SCALE_CHECK_DOCS,
+  paradox_hunt: PARADOX_HUNT_DOCS,
+  invariant_extract: INVARIANT_EXTRACT_DOCS,
+  exception_quarantine: EXCEPTION_QUARANTINE_DOCS,
+  theory_kill: THEORY_KILL_DOCS,
 };
 
 /**
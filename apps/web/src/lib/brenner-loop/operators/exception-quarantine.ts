@@ -0,0 +1,416 @@
+/**
+ * Exception Quarantine (ΔE) Operator
+ *
+ * Preserves a high-coherence core model while isolating anomalies. Exceptions
+ * are listed explicitly, separated into signal and noise, analysed for what
+ * they conflict with, and the highest-leverage one gets a resolving test.
+ *
+ * Brenner's Principle: "We didn't conceal them; we put them in an appendix."
+ * Exceptions with unrelated causes are noise; exceptions sharing a pattern
+ * suggest a rival theory.
+ *
+ * @see specs/operator_library_v0.1.md - ΔE Exception-Quarantine
+ * @module brenner-loop/operators/exception-quarantine
+ */
+
+import type { OperatorStepConfig, OperatorSession } from "./framework";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Whether an anomaly threatens the core model
+ */
+export type AnomalyClassification =
+  | "signal"        // Real and relevant: must be explained
+  | "noise"         // Measurement error or special case: quarantine
+  | "unclassified";
+
+/**
+ * An anomaly the core model does not explain
+ */
+export interface Anomaly {
+  /** Unique identifier */
+  id: string;
+  /** What was observed */
+  description: string;
+  /** Where it came from (experiment, dataset, anchor) */
+  source?: string;
+  /** Signal vs noise */
+  classification: AnomalyClassification;
+  /** What part of the core model it conflicts with */
+  conflictsWith?: string;
+  /** What would resolve it */
+  wouldResolve?: string;
+  /** User-rated leverage (1-5): how much resolving it would teach */
+  leverage?: number;
+}
+
+/**
+ * A group of anomalies that share a pattern
+ */
+export interface SharedPattern {
+  /** Anomalies in the group */
+  anomalyIds: string[];
+  /** Terms the anomalies have in common */
+  sharedTerms: string[];
+}
+
+/**
+ * A test aimed at resolving an anomaly
+ */
+export interface QuarantineTest {
+  /** Unique identifier */
+  id: string;
+  /** Anomaly this test targets */
+  anomalyId: string;
+  /** Description of the test */
+  description: string;
+  /** Outcome that would resolve the anomaly within the core model */
+  resolvesIf: string;
+  /** Outcome that would escalate the anomaly into a threat */
+  escalatesIf: string;
+  /** Whether this test is chosen for the session */
+  selected?: boolean;
+}
+
+/**
+ * Result of the Exception Quarantine operator
+ */
+export interface ExceptionQuarantineResult {
+  /** All anomalies listed */
+  anomalies: Anomaly[];
+  /** IDs of anomalies moved to the appendix (noise) */
+  quarantinedIds: string[];
+  /** IDs of anomalies that must be explained (signal) */
+  escalatedIds: string[];
+  /** Patterns shared by signal anomalies */
+  sharedPatterns: SharedPattern[];
+  /** Anomaly targeted by the resolving tests */
+  highestLeverageAnomalyId?: string;
+  /** Tests generated for the highest-leverage anomaly */
+  tests: QuarantineTest[];
+  /** IDs of tests chosen for the session */
+  selectedTestIds: string[];
+  /** True when no signal anomalies share a pattern */
+  coreModelIntact: boolean;
+}
+
+// ============================================================================
+// Step Configurations
+// ============================================================================
+
+/**
+ * Step IDs for the Exception Quarantine operator
+ */
+export const EXCEPTION_QUARANTINE_STEP_IDS = {
+  LIST_ANOMALIES: "list-anomalies",
+  SEPARATE_SIGNAL: "separate-signal",
+  ANALYZE_CONFLICTS: "analyze-conflicts",
+  RESOLVING_TESTS: "resolving-tests",
+} as const;
+
+/**
+ * Anomalies with a non-empty description
+ */
+function getListedAnomalies(session: OperatorSession): Anomaly[] {
+  const anomalies = session.userSelections[EXCEPTION_QUARANTINE_STEP_IDS.LIST_ANOMALIES] as Anomaly[] | undefined;
+  return Array.isArray(anomalies) ? anomalies.filter((a) => a.description.trim().length > 0) : [];
+}
+
+/**
+ * Check if a resolving test has been chosen
+ */
+function hasTestsSelected(session: OperatorSession): boolean {
+  const tests = session.userSelections[EXCEPTION_QUARANTINE_STEP_IDS.RESOLVING_TESTS] as QuarantineTest[] | undefined;
+  return Array.isArray(tests) && tests.some((t) => t.selected);
+}
+
+/**
+ * Step configurations for the Exception Quarantine operator.
+ *
+ * All steps after the first read and write the same anomaly list, so the
+ * list lives under LIST_ANOMALIES and later steps refine it in place.
+ */
+export const EXCEPTION_QUARANTINE_STEPS: OperatorStepConfig[] = [
+  {
+    id: EXCEPTION_QUARANTINE_STEP_IDS.LIST_ANOMALIES,
+    name: "List Anomalies",
+    description:
+      "Write down every observation your current model does not explain. No hiding.",
+    helpText: `
+**Why this matters:**
+Anomalies you don't write down get swept under the carpet. Occam's Broom (§106)
+prefers the theory that hides the fewest facts, so you need to know what you're hiding.
+
+**Include:**
+- Results that didn't replicate
+- Cases where the effect went the wrong way
+- Data points you were tempted to drop
+    `.trim(),
+    isComplete: (session) => getListedAnomalies(session).length > 0,
+    validate: (session) => {
+      if (getListedAnomalies(session).length === 0) {
+        return {
+          valid: false,
+          errors: ["List at least one anomaly"],
+          warnings: [],
+        };
+      }
+      return { valid: true, errors: [], warnings: [] };
+    },
+  },
+  {
+    id: EXCEPTION_QUARANTINE_STEP_IDS.SEPARATE_SIGNAL,
+    name: "Separate Signal from Noise",
+    description:
+      "Classify each anomaly as signal (must be explained) or noise (goes in the appendix).",
+    helpText: `
+**Brenner's appendix (§110):**
+Each exception to the coherent theory turned out to have a different, special
+explanation. Because they showed no relationship to one another, the theory stood.
+
+**Warning sign:**
+If several "signal" anomalies share a pattern, they may be pointing at a rival theory.
+    `.trim(),
+    isComplete: (session) => {
+      const anomalies = getListedAnomalies(session);
+      return anomalies.length > 0 && anomalies.every((a) => a.classification !== "unclassified");
+    },
+    validate: (session) => {
+      const anomalies = getListedAnomalies(session);
+      const unclassified = anomalies.filter((a) => a.classification === "unclassified");
+      if (unclassified.length > 0) {
+        return {
+          valid: false,
+          errors: [`${unclassified.length} anomaly(ies) not classified`],
+          warnings: [],
+        };
+      }
+      const patterns = detectSharedPatterns(anomalies.filter((a) => a.classification === "signal"));
+      if (patterns.length > 0) {
+        return {
+          valid: true,
+          errors: [],
+          warnings: ["Some signal anomalies share a pattern - they may point to a rival theory"],
+        };
+      }
+      return { valid: true, errors: [], warnings: [] };
+    },
+  },
+  {
+    id: EXCEPTION_QUARANTINE_STEP_IDS.ANALYZE_CONFLICTS,
+    name: "Analyze Conflicts",
+    description:
+      "For each signal anomaly, state what it conflicts with and what would resolve it.",
+    helpText: `
+**For each anomaly, answer two questions:**
+1. Which part of the core model does it contradict?
+2. What observation would make it go away, or make it fatal?
+
+Rate how much resolving each anomaly would teach you. The highest-leverage one gets a test.
+    `.trim(),
+    isComplete: (session) =>
+      getListedAnomalies(session)
+        .filter((a) => a.classification === "signal")
+        .every((a) => Boolean(a.conflictsWith?.trim() && a.wouldResolve?.trim())),
+    validate: (session) => {
+      const incomplete = getListedAnomalies(session).filter(
+        (a) => a.classification === "signal" && !(a.conflictsWith?.trim() && a.wouldResolve?.trim())
+      );
+      if (incomplete.length > 0) {
+        return {
+          valid: false,
+          errors: [`${incomplete.length} signal anomaly(ies) missing conflict or resolution`],
+          warnings: [],
+        };
+      }
+      return { valid: true, errors: [], warnings: [] };
+    },
+  },
+  {
+    id: EXCEPTION_QUARANTINE_STEP_IDS.RESOLVING_TESTS,
+    name: "Resolving Tests",
+    description:
+      "Choose one or two tests aimed at the highest-leverage anomaly.",
+    helpText: `
+**Aim at leverage:**
+Don't try to resolve every anomaly at once. Pick the one whose resolution would
+change the most, and design a test that either absorbs it into the model or
+promotes it to a real threat.
+    `.trim(),
+    isComplete: hasTestsSelected,
+    canSkip: true,
+  },
+];
+
+// ============================================================================
+// Analysis Utilities
+// ============================================================================
+
+const STOP_WORDS = new Set([
+  "the", "and", "for", "with", "that", "this", "when", "was", "were", "are",
+  "not", "but", "from", "into", "than", "then", "they", "them", "have", "has",
+  "had", "our", "its", "which", "what", "all", "any", "only", "also", "been",
+]);
+
+function significantTerms(text: string): Set<string> {
+  return new Set(
+    text
+      .toLowerCase()
+      .split(/[^a-z0-9]+/)
+      .filter((word) => word.length > 3 && !STOP_WORDS.has(word))
+  );
+}
+
+/**
+ * Find groups of anomalies that share significant terms.
+ *
+ * This is a coarse lexical check: two anomalies are linked when their
+ * descriptions share at least two significant words. Linked anomalies are
+ * grouped transitively.
+ */
+export function detectSharedPatterns(anomalies: Anomaly[]): SharedPattern[] {
+  const terms = anomalies.map((a) => significantTerms(`${a.description} ${a.conflictsWith ?? ""}`));
+  const parent = anomalies.map((_, i) => i);
+
+  const find = (i: number): number => {
+    while (parent[i] !== i) {
+      parent[i] = parent[parent[i]];
+      i = parent[i];
+    }
+    return i;
+  };
+
+  for (let i = 0; i < anomalies.length; i++) {
+    for (let j = i + 1; j < anomalies.length; j++) {
+      const shared = [...terms[i]].filter((t) => terms[j].has(t));
+      if (shared.length >= 2) {
+        parent[find(j)] = find(i);
+      }
+    }
+  }
+
+  const groups = new Map<number, number[]>();
+  for (let i = 0; i < anomalies.length; i++) {
+    const root = find(i);
+    groups.set(root, [...(groups.get(root) ?? []), i]);
+  }
+
+  const patterns: SharedPattern[] = [];
+  for (const members of groups.values()) {
+    if (members.length < 2) continue;
+    const sharedTerms = [...terms[members[0]]].filter((t) =>
+      members.some((m, idx) => idx > 0 && terms[m].has(t))
+    );
+    patterns.push({
+      anomalyIds: members.map((m) => anomalies[m].id),
+      sharedTerms: sharedTerms.sort(),
+    });
+  }
+
+  return patterns;
+}
+
+/**
+ * Pick the signal anomaly with the highest leverage rating.
+ * Ties go to the anomaly listed first.
+ */
+export function pickHighestLeverageAnomaly(anomalies: Anomaly[]): Anomaly | null {
+  let best: Anomaly | null = null;
+  for (const anomaly of anomalies) {
+    if (anomaly.classification !== "signal") continue;
+    if (!best || (anomaly.leverage ?? 0) > (best.leverage ?? 0)) {
+      best = anomaly;
+    }
+  }
+  return best;
+}
+
+/**
+ * Generate resolving tests for an anomaly
+ */
+export function generateQuarantineTests(anomaly: Anomaly): QuarantineTest[] {
+  const conflict = anomaly.conflictsWith?.trim() || "the core model";
+  const resolution = anomaly.wouldResolve?.trim();
+
+  const tests: QuarantineTest[] = [
+    {
+      id: `test-${anomaly.id}-replicate`,
+      anomalyId: anomaly.id,
+      description: `Replicate the anomalous observation under the original conditions: ${anomaly.description}`,
+      resolvesIf: "The anomaly fails to replicate (noise or artifact)",
+      escalatesIf: `The anomaly replicates and still conflicts with ${conflict}`,
+    },
+  ];
+
+  if (resolution) {
+    tests.push({
+      id: `test-${anomaly.id}-resolve`,
+      anomalyId: anomaly.id,
+      description: `Test the proposed resolution directly: ${resolution}`,
+      resolvesIf: "The proposed resolution is confirmed and the core model absorbs the anomaly",
+      escalatesIf: "The proposed resolution fails, leaving the conflict unexplained",
+    });
+  }
+
+  return tests;
+}
+
+/**
+ * Build the complete Exception Quarantine result from session state
+ */
+export function buildExceptionQuarantineResult(
+  session: OperatorSession<ExceptionQuarantineResult>
+): ExceptionQuarantineResult {
+  const anomalies = getListedAnomalies(session);
+  const signal = anomalies.filter((a) => a.classification === "signal");
+  const sharedPatterns = detectSharedPatterns(signal);
+  const tests = (session.userSelections[EXCEPTION_QUARANTINE_STEP_IDS.RESOLVING_TESTS] as QuarantineTest[]) ?? [];
+
+  return {
+    anomalies,
+    quarantinedIds: anomalies.filter((a) => a.classification === "noise").map((a) => a.id),
+    escalatedIds: signal.map((a) => a.id),
+    sharedPatterns,
+    highestLeverageAnomalyId: pickHighestLeverageAnomaly(anomalies)?.id,
+    tests,
+    selectedTestIds: tests.filter((t) => t.selected).map((t) => t.id),
+    coreModelIntact: sharedPatterns.length === 0,
+  };
+}
+
+// ============================================================================
+// Brenner Quotes for Exception Quarantine
+// ============================================================================
+
+/**
+ * Quote bank section IDs relevant to Exception Quarantine
+ */
+export const EXCEPTION_QUARANTINE_QUOTE_ANCHORS = [
+  "§110", // Exceptions go in an appendix
+  "§106", // Occam's Broom
+];
+
+/**
+ * Fallback quotes if quote bank is unavailable
+ */
+export const EXCEPTION_QUARANTINE_FALLBACK_QUOTES = [
+  {
+    sectionId: "§110",
+    title: "Exceptions Go in an Appendix",
+    quote:
+      "It was wise to take all of these exceptions which showed no relationship amongst each other and put them on one... we didn't conceal them; we put them in an appendix.",
+    context: "Brenner on keeping a coherent theory while recording its exceptions",
+    tags: ["exception-quarantine", "anomalies"],
+  },
+  {
+    sectionId: "§106",
+    title: "Occam's Broom",
+    quote:
+      "Occam's Broom hypothesis... which is that hypothesis of which the minimum number of facts have to be swept up under the carpet in order to have a consistent theory.",
+    context: "Brenner on preferring the theory that hides the fewest facts",
+    tags: ["exception-quarantine", "anomalies"],
+  },
+];
@@ -2,7 +2,8 @@
  * Operator Session Framework
  *
  * Provides the foundational framework for all Brenner Loop operators.
- * Each operator (Level Split, Exclusion Test, Object Transpose, Scale Check)
+ * Each operator (Level Split, Exclusion Test, Object Transpose, Scale Check,
+ * Paradox Hunt, Invariant Extract, Exception Quarantine, Theory Kill)
  * shares common patterns: input hypothesis, step-by-step progression,
  * content generation, user selection, and output production.
  *
@@ -18,18 +19,26 @@ import type { HypothesisCard } from "../hypothesis";
 // ============================================================================
 
 /**
- * The four Brenner operators.
+ * The Brenner operators with guided sessions.
  *
  * - level_split (Sigma): Identify confused levels of explanation
  * - exclusion_test (Exclusion): Design discriminative tests
  * - object_transpose (Object): Change experimental system
  * - scale_check (Scale): Verify physical/mathematical plausibility
+ * - paradox_hunt (Diamond): Use contradictions to locate the missing constraint
+ * - invariant_extract (Equivalence): Find what survives across conditions
+ * - exception_quarantine (Delta-E): Isolate anomalies without hiding them
+ * - theory_kill (Dagger): Drop a contradicted hypothesis and fill the vacuum
  */
 export type OperatorType =
   | "level_split"
   | "exclusion_test"
   | "object_transpose"
-  | "scale_check";
+  | "scale_check"
+  | "paradox_hunt"
+  | "invariant_extract"
+  | "exception_quarantine"
+  | "theory_kill";
 
 /**
  * All valid operator types for type guard
@@ -39,6 +48,10 @@ const VALID_OPERATOR_TYPES: readonly OperatorType[] = [
   "exclusion_test",
   "object_transpose",
   "scale_check",
+  "paradox_hunt",
+  "invariant_extract",
+  "exception_quarantine",
+  "theory_kill",
 ];
 
 /**
@@ -107,6 +120,38 @@ export const OPERATOR_METADATA: Record<OperatorType, OperatorMetadata> = {
     color: "orange",
     icon: "\u{1F4CF}",  // Ruler
   },
+  paradox_hunt: {
+    type: "paradox_hunt",
+    name: "Paradox Hunt",
+    symbol: "\u25CA",  // ◊
+    description: "Use contradictions to locate the missing constraint",
+    color: "pink",
+    icon: "\u{1F9E9}",  // Puzzle piece
+  },
+  invariant_extract: {
+    type: "invariant_extract",
+    name: "Invariant Extract",
+    symbol: "\u2261",  // ≡
+    description: "Find what survives across conditions and scales",
+    color: "cyan",
+    icon: "\u{1F48E}",  // Gem
+  },
+  exception_quarantine: {
+    type: "exception_quarantine",
+    name: "Exception Quarantine",
+    symbol: "\u0394E",  // ΔE
+    description: "Isolate anomalies explicitly instead of hiding them",
+    color: "yellow",
+    icon: "\u{1F6A7}",  // Construction barrier
+  },
+  theory_kill: {
+    type: "theory_kill",
+    name: "Theory Kill",
+    symbol: "\u2020",  // †
+    description: "Drop a contradicted hypothesis and name its replacement",
+    color: "red",
+    icon: "\u{1FAA6}",  // Headstone
+  },
 };
 
 /**
@@ -211,6 +211,158 @@ export {
   SCALE_CHECK_FALLBACK_QUOTES,
 } from "./scale-check";
 
+// ============================================================================
+// Paradox Hunt Operator
+// ============================================================================
+
+export type {
+  ParadoxStatement,
+  ResolutionType,
+  ParadoxResolution,
+  ResolutionTest,
+  ParadoxHuntResult,
+} from "./paradox-hunt";
+
+export {
+  // Step configurations
+  PARADOX_HUNT_STEP_IDS,
+  PARADOX_HUNT_STEPS,
+
+  // Generation functions
+  seedParadoxStatement,
+  generateResolutions,
+  generateResolutionTests,
+  buildParadoxHuntResult,
+
+  // Quote references
+  PARADOX_HUNT_QUOTE_ANCHORS,
+  PARADOX_HUNT_FALLBACK_QUOTES,
+} from "./paradox-hunt";
+
+// ============================================================================
+// Invariant Extract Operator
+// ============================================================================
+
+export type {
+  InvariantKind,
+  Invariant,
+  ForbiddenPattern,
+  InvariantProbe,
+  LoadBearingAssumption,
+  InvariantExtractResult,
+} from "./invariant-extract";
+
+export {
+  // Step configurations
+  INVARIANT_EXTRACT_STEP_IDS,
+  INVARIANT_EXTRACT_STEPS,
+
+  // Invariant prompts
+  INVARIANT_KIND_PROMPTS,
+
+  // Generation functions
+  generateInvariantSlots,
+  generateInvariantProbe,
+  seedLoadBearingAssumptions,
+  buildInvariantExtractResult,
+
+  // Quote references
+  INVARIANT_EXTRACT_QUOTE_ANCHORS,
+  INVARIANT_EXTRACT_FALLBACK_QUOTES,
+} from "./invariant-extract";
+
+// ============================================================================
+// Exception Quarantine Operator
+// ============================================================================
+
+export type {
+  AnomalyClassification,
+  Anomaly,
+  SharedPattern,
+  QuarantineTest,
+  ExceptionQuarantineResult,
+} from "./exception-quarantine";
+
+export {
+  // Step configurations
+  EXCEPTION_QUARANTINE_STEP_IDS,
+  EXCEPTION_QUARANTINE_STEPS,
+
+  // Analysis functions
+  detectSharedPatterns,
+  pickHighestLeverageAnomaly,
+  generateQuarantineTests,
+  buildExceptionQuarantineResult,
+
+  // Quote references
+  EXCEPTION_QUARANTINE_QUOTE_ANCHORS,
+  EXCEPTION_QUARANTINE_FALLBACK_QUOTES,
+} from "./exception-quarantine";
+
+// ============================================================================
+// Theory Kill Operator
+// ============================================================================
+
+export type {
+  KillTargetKind,
+  KillTarget,
+  KillReadinessCheck,
+  ReplacementHypothesis,
+  KillVerdict,
+  TheoryKillResult,
+} from "./theory-kill";
+
+export {
+  // Step configurations
+  THEORY_KILL_STEP_IDS,
+  THEORY_KILL_STEPS,
+
+  // Analysis functions
+  RESCUE_PHRASES,
+  detectRescueLanguage,
+  seedKillTarget,
+  generateReadinessChecks,
+  determineKillVerdict,
+  buildTheoryKillResult,
+
+  // Quote references
+  THEORY_KILL_QUOTE_ANCHORS,
+  THEORY_KILL_FALLBACK_QUOTES,
+} from "./theory-kill";
+
+// ============================================================================
+// Operator Compositions
+// ============================================================================
+
+export type {
+  OperatorResultByType,
+  OperatorComposition,
+  CompositionStepStatus,
+  CompositionStepRecord,
+  CompositionRunStatus,
+  CompositionRun,
+  CompositionRunAction,
+} from "./composition";
+
+export {
+  // Built-in compositions
+  STANDARD_DIAGNOSTIC_CHAIN,
+  HYGIENE_LAYER,
+  OPERATOR_COMPOSITIONS,
+  getComposition,
+  formatCompositionNotation,
+  validateComposition,
+
+  // Context threading
+  summarizeOperatorResult,
+  applyOperatorResultToHypothesis,
+
+  // Run state
+  createCompositionRun,
+  compositionReducer,
+  getActiveCompositionStep,
+} from "./composition";
+
 // ============================================================================
 // Operator Documentation (bead yh1c)
 // ============================================================================
@@ -226,6 +378,10 @@ export {
   EXCLUSION_TEST_DOCS,
   OBJECT_TRANSPOSE_DOCS,
   SCALE_CHECK_DOCS,
+  PARADOX_HUNT_DOCS,
+  INVARIANT_EXTRACT_DOCS,
+  EXCEPTION_QUARANTINE_DOCS,
+  THEORY_KILL_DOCS,
 
   // Documentation index
   OPERATOR_DOCUMENTATION,
@@ -0,0 +1,417 @@
+/**
+ * Invariant Extract (≡) Operator
+ *
+ * Identifies properties that must hold regardless of unknown mechanistic detail,
+ * then uses them to rule out whole model families and to design a test that
+ * probes an invariant directly.
+ *
+ * Brenner's Principle: Topology can do things chemistry cannot. The triplet code
+ * was proven with plus and minus signs, without knowing a single base.
+ *
+ * @see specs/operator_library_v0.1.md - ≡ Invariant-Extract
+ * @module brenner-loop/operators/invariant-extract
+ */
+
+import type { HypothesisCard } from "../hypothesis";
+import type { OperatorStepConfig, OperatorSession } from "./framework";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Kinds of invariant worth looking for
+ */
+export type InvariantKind =
+  | "conservation"  // Something is conserved (mass, count, information)
+  | "scale"         // Orders of magnitude, rates, time constants
+  | "topology"      // Order, adjacency, connectivity, phase
+  | "combinatorial" // Counting constraints on what can be encoded
+  | "symmetry"      // Behaviour unchanged under a transformation
+  | "other";
+
+/**
+ * An invariant or constraint that must hold across plausible mechanisms
+ */
+export interface Invariant {
+  /** Unique identifier */
+  id: string;
+  /** Kind of invariant */
+  kind: InvariantKind;
+  /** The invariant, stated as something that must hold */
+  statement: string;
+  /** Why it must hold */
+  rationale?: string;
+}
+
+/**
+ * A model family ruled out by an invariant
+ */
+export interface ForbiddenPattern {
+  /** Unique identifier */
+  id: string;
+  /** Invariant that forbids this family */
+  invariantId: string;
+  /** The model family or mechanism class ruled out */
+  modelFamily: string;
+  /** Why the invariant rules it out */
+  reason: string;
+}
+
+/**
+ * A test that probes an invariant directly
+ */
+export interface InvariantProbe {
+  /** Invariant being probed */
+  invariantId: string;
+  /** Description of the test */
+  description: string;
+  /** Expected outcome if the invariant holds */
+  expectedIfHolds: string;
+  /** Expected outcome if the invariant is violated */
+  expectedIfViolated: string;
+  /** How strongly the outcome separates the two cases */
+  likelihoodRatio: "low" | "moderate" | "high";
+}
+
+/**
+ * An assumption the invariants rest on
+ */
+export interface LoadBearingAssumption {
+  /** Unique identifier */
+  id: string;
+  /** The assumption */
+  statement: string;
+  /** Whether it should be verified with a scale check */
+  scaleCheck: boolean;
+}
+
+/**
+ * Result of the Invariant Extract operator
+ */
+export interface InvariantExtractResult {
+  /** Invariants stated by the user */
+  invariants: Invariant[];
+  /** Model families ruled out by those invariants */
+  forbiddenPatterns: ForbiddenPattern[];
+  /** Test probing an invariant, if designed */
+  probe?: InvariantProbe;
+  /** Load-bearing assumptions recorded along the way */
+  assumptions: LoadBearingAssumption[];
+}
+
+// ============================================================================
+// Step Configurations
+// ============================================================================
+
+/**
+ * Step IDs for the Invariant Extract operator
+ */
+export const INVARIANT_EXTRACT_STEP_IDS = {
+  STATE_INVARIANTS: "state-invariants",
+  RULE_OUT_FAMILIES: "rule-out-families",
+  PROBE_INVARIANT: "probe-invariant",
+  RECORD_ASSUMPTIONS: "record-assumptions",
+} as const;
+
+/**
+ * Invariants with a non-empty statement
+ */
+function getStatedInvariants(session: OperatorSession): Invariant[] {
+  const invariants = session.userSelections[INVARIANT_EXTRACT_STEP_IDS.STATE_INVARIANTS] as Invariant[] | undefined;
+  return Array.isArray(invariants) ? invariants.filter((inv) => inv.statement.trim().length > 0) : [];
+}
+
+/**
+ * Check if at least one model family has been ruled out
+ */
+function hasForbiddenPatterns(session: OperatorSession): boolean {
+  const patterns = session.userSelections[INVARIANT_EXTRACT_STEP_IDS.RULE_OUT_FAMILIES] as ForbiddenPattern[] | undefined;
+  return Array.isArray(patterns) && patterns.some((p) => p.modelFamily.trim().length > 0);
+}
+
+/**
+ * Check if an invariant probe has been described
+ */
+function hasProbe(session: OperatorSession): boolean {
+  const probe = session.userSelections[INVARIANT_EXTRACT_STEP_IDS.PROBE_INVARIANT] as InvariantProbe | undefined;
+  return Boolean(probe?.description.trim());
+}
+
+/**
+ * Step configurations for the Invariant Extract operator
+ */
+export const INVARIANT_EXTRACT_STEPS: OperatorStepConfig[] = [
+  {
+    id: INVARIANT_EXTRACT_STEP_IDS.STATE_INVARIANTS,
+    name: "State Invariants",
+    description:
+      "List two to four properties that must hold no matter which mechanism turns out to be right.",
+    helpText: `
+**Why this matters:**
+You rarely know the full mechanism. You can still make progress by finding what
+any mechanism must respect: conservation, scale, order, counting limits.
+
+**Places to look:**
+- **Conservation:** What is neither created nor destroyed?
+- **Scale:** Which time constants, sizes or rates bound the answer?
+- **Topology:** What order, adjacency or phase must be preserved?
+- **Combinatorial:** How many states must the system be able to encode?
+
+**Brenner's triplet code (§109):**
+Plus and minus mutants proved the code was read in threes, without any chemistry.
+    `.trim(),
+    isComplete: (session) => getStatedInvariants(session).length >= 2,
+    validate: (session) => {
+      const invariants = getStatedInvariants(session);
+      if (invariants.length < 2) {
+        return {
+          valid: false,
+          errors: ["State at least two invariants"],
+          warnings: [],
+        };
+      }
+      if (invariants.length > 4) {
+        return {
+          valid: true,
+          errors: [],
+          warnings: ["More than four invariants - keep the ones that constrain the most"],
+        };
+      }
+      return { valid: true, errors: [], warnings: [] };
+    },
+  },
+  {
+    id: INVARIANT_EXTRACT_STEP_IDS.RULE_OUT_FAMILIES,
+    name: "Rule Out Model Families",
+    description:
+      "Use each invariant to name a class of mechanisms it forbids.",
+    helpText: `
+**Compress the hypothesis space:**
+An invariant earns its keep when it forbids something. For each invariant, ask
+which family of models would violate it, and strike that family out.
+
+**Failure mode:**
+Letting a seductive cartoon violate scale, geometry or time constants.
+If a favored model breaks an invariant, it goes too.
+    `.trim(),
+    isComplete: hasForbiddenPatterns,
+    validate: (session) => {
+      if (!hasForbiddenPatterns(session)) {
+        return {
+          valid: false,
+          errors: ["Rule out at least one model family"],
+          warnings: [],
+        };
+      }
+      const patterns = session.userSelections[INVARIANT_EXTRACT_STEP_IDS.RULE_OUT_FAMILIES] as ForbiddenPattern[];
+      const unexplained = patterns.filter((p) => p.modelFamily.trim() && !p.reason.trim());
+      if (unexplained.length > 0) {
+        return {
+          valid: true,
+          errors: [],
+          warnings: [`${unexplained.length} ruled-out family(ies) without a reason`],
+        };
+      }
+      return { valid: true, errors: [], warnings: [] };
+    },
+  },
+  {
+    id: INVARIANT_EXTRACT_STEP_IDS.PROBE_INVARIANT,
+    name: "Probe an Invariant",
+    description:
+      "Design a test whose outcome depends sharply on whether an invariant holds.",
+    helpText: `
+**High likelihood ratio:**
+Tests on invariants tend to be decisive: if the invariant fails, a whole class of
+explanations fails with it. Aim for an outcome that is near-impossible unless the
+invariant holds.
+
+**Failure mode:**
+Measuring the third decimal place when the order-of-magnitude variable is what matters.
+    `.trim(),
+    isComplete: hasProbe,
+  },
+  {
+    id: INVARIANT_EXTRACT_STEP_IDS.RECORD_ASSUMPTIONS,
+    name: "Record Assumptions",
+    description:
+      "Note the assumptions your invariants rest on, flagging those that need a scale check.",
+    helpText: `
+**Load-bearing assumptions:**
+Every invariant rests on something. Write those assumptions down so they can be
+attacked later. Flag any that depend on magnitudes for a scale check.
+    `.trim(),
+    canSkip: true,
+    isComplete: (session) => {
+      const assumptions = session.userSelections[INVARIANT_EXTRACT_STEP_IDS.RECORD_ASSUMPTIONS] as LoadBearingAssumption[] | undefined;
+      return Array.isArray(assumptions) && assumptions.some((a) => a.statement.trim().length > 0);
+    },
+  },
+];
+
+// ============================================================================
+// Invariant Prompts
+// ============================================================================
+
+/**
+ * Prompt questions for each invariant kind
+ */
+export const INVARIANT_KIND_PROMPTS: Record<InvariantKind, string> = {
+  conservation: "What quantity must be conserved no matter how the mechanism works?",
+  scale: "Which size, rate or time constant bounds any possible mechanism?",
+  topology: "What order, adjacency or phase relationship must be preserved?",
+  combinatorial: "How many distinct states must the system be able to produce?",
+  symmetry: "Which transformation leaves the behaviour unchanged?",
+  other: "What else must hold regardless of the details?",
+};
+
+/**
+ * Create blank invariant slots seeded with prompts.
+ *
+ * Scale is always offered; topology and combinatorial constraints are offered
+ * when the hypothesis mentions order, sequence or coding.
+ */
+export function generateInvariantSlots(hypothesis: HypothesisCard): Invariant[] {
+  const text = `${hypothesis.statement} ${hypothesis.mechanism}`.toLowerCase();
+  const kinds: InvariantKind[] = ["conservation", "scale"];
+
+  if (/order|sequence|position|adjacen|phase|pathway/.test(text)) {
+    kinds.push("topology");
+  }
+  if (/code|encod|signal|variant|repertoire|specific/.test(text)) {
+    kinds.push("combinatorial");
+  }
+
+  return kinds.map((kind, index) => ({
+    id: `inv-${index + 1}`,
+    kind,
+    statement: "",
+  }));
+}
+
+/**
+ * Generate an invariant probe template for an invariant
+ */
+export function generateInvariantProbe(invariant: Invariant): InvariantProbe {
+  switch (invariant.kind) {
+    case "conservation":
+      return {
+        invariantId: invariant.id,
+        description: `Account for the conserved quantity before and after the process: ${invariant.statement}`,
+        expectedIfHolds: "Inputs and outputs balance within measurement error",
+        expectedIfViolated: "A gap appears that no candidate mechanism can fill",
+        likelihoodRatio: "high",
+      };
+    case "scale":
+      return {
+        invariantId: invariant.id,
+        description: `Push the dominant variable by an order of magnitude and check the bound: ${invariant.statement}`,
+        expectedIfHolds: "The response stays within the predicted bound",
+        expectedIfViolated: "The response exceeds what the bound allows",
+        likelihoodRatio: "high",
+      };
+    case "topology":
+      return {
+        invariantId: invariant.id,
+        description: `Combine perturbations and record only presence or absence of the outcome: ${invariant.statement}`,
+        expectedIfHolds: "The pattern of outcomes matches the predicted order",
+        expectedIfViolated: "Outcomes appear in combinations the order forbids",
+        likelihoodRatio: "high",
+      };
+    case "combinatorial":
+      return {
+        invariantId: invariant.id,
+        description: `Count the distinct states the system produces: ${invariant.statement}`,
+        expectedIfHolds: "The count meets the required minimum",
+        expectedIfViolated: "Too few states to cover what is observed",
+        likelihoodRatio: "moderate",
+      };
+    default:
+      return {
+        invariantId: invariant.id,
+        description: `Apply the transformation and check the behaviour: ${invariant.statement}`,
+        expectedIfHolds: "Behaviour is unchanged",
+        expectedIfViolated: "Behaviour changes under the transformation",
+        likelihoodRatio: "moderate",
+      };
+  }
+}
+
+/**
+ * Seed load-bearing assumptions from the hypothesis
+ */
+export function seedLoadBearingAssumptions(hypothesis: HypothesisCard): LoadBearingAssumption[] {
+  return (hypothesis.assumptions ?? [])
+    .filter((a) => a.trim().length > 0)
+    .map((statement, index) => ({
+      id: `asm-${index + 1}`,
+      statement,
+      scaleCheck: false,
+    }));
+}
+
+/**
+ * Build the complete Invariant Extract result from session state
+ */
+export function buildInvariantExtractResult(
+  session: OperatorSession<InvariantExtractResult>
+): InvariantExtractResult {
+  const invariants = getStatedInvariants(session);
+  const invariantIds = new Set(invariants.map((inv) => inv.id));
+  const patterns = (session.userSelections[INVARIANT_EXTRACT_STEP_IDS.RULE_OUT_FAMILIES] as ForbiddenPattern[]) ?? [];
+  const probe = session.userSelections[INVARIANT_EXTRACT_STEP_IDS.PROBE_INVARIANT] as InvariantProbe | undefined;
+  const assumptions = (session.userSelections[INVARIANT_EXTRACT_STEP_IDS.RECORD_ASSUMPTIONS] as LoadBearingAssumption[]) ?? [];
+
+  return {
+    invariants,
+    forbiddenPatterns: patterns.filter(
+      (p) => p.modelFamily.trim().length > 0 && invariantIds.has(p.invariantId)
+    ),
+    probe: probe?.description.trim() ? probe : undefined,
+    assumptions: assumptions.filter((a) => a.statement.trim().length > 0),
+  };
+}
+
+// ============================================================================
+// Brenner Quotes for Invariant Extract
+// ============================================================================
+
+/**
+ * Quote bank section IDs relevant to Invariant Extract
+ */
+export const INVARIANT_EXTRACT_QUOTE_ANCHORS = [
+  "§90", // Spectrum separation
+  "§100", // Dominant physical variable
+  "§109", // Topology-level inference
+  "§224", // Regulation is reuse
+];
+
+/**
+ * Fallback quotes if quote bank is unavailable
+ */
+export const INVARIANT_EXTRACT_FALLBACK_QUOTES = [
+  {
+    sectionId: "§109",
+    title: "Topology Could Do These Things",
+    quote:
+      "It seems mad that you could deduce the actual triplet nature of the genetic code. But that's just simply the logic of how the information is transferred... topology could, you could do these things at the kind of topological level.",
+    context: "Brenner on proving the triplet code from plus/minus genetics",
+    tags: ["invariant-extract", "topology"],
+  },
+  {
+    sectionId: "§90",
+    title: "Spectrum Separation",
+    quote:
+      "None of these proflavine mutants could be induced to revert by base analogues and none of the base analogue mutants could be induced to revert by proflavine.",
+    context: "Brenner on partitioning mutants into classes by what reverts them",
+    tags: ["invariant-extract", "classification"],
+  },
+  {
+    sectionId: "§224",
+    title: "Regulation Is Reuse",
+    quote: "Do what you know, but do it here and not there.",
+    context: "Brenner on invariant parts deployed under variable control",
+    tags: ["invariant-extract", "invariants"],
+  },
+];
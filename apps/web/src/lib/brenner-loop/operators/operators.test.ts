@@ -72,6 +72,55 @@ import {
   getDomainContext,
   varianceExplained,
 } from "./scale-check";
+import {
+  PARADOX_HUNT_STEP_IDS,
+  PARADOX_HUNT_STEPS,
+  buildParadoxHuntResult,
+  generateResolutionTests,
+  generateResolutions,
+  seedParadoxStatement,
+} from "./paradox-hunt";
+import {
+  INVARIANT_EXTRACT_STEP_IDS,
+  INVARIANT_EXTRACT_STEPS,
+  buildInvariantExtractResult,
+  generateInvariantProbe,
+  generateInvariantSlots,
+  seedLoadBearingAssumptions,
+} from "./invariant-extract";
+import {
+  EXCEPTION_QUARANTINE_STEP_IDS,
+  EXCEPTION_QUARANTINE_STEPS,
+  buildExceptionQuarantineResult,
+  detectSharedPatterns,
+  generateQuarantineTests,
+  pickHighestLeverageAnomaly,
+  type Anomaly,
+} from "./exception-quarantine";
+import {
+  THEORY_KILL_STEP_IDS,
+  THEORY_KILL_STEPS,
+  buildTheoryKillResult,
+  detectRescueLanguage,
+  determineKillVerdict,
+  generateReadinessChecks,
+  seedKillTarget,
+} from "./theory-kill";
+
+import {
+  HYGIENE_LAYER,
+  OPERATOR_COMPOSITIONS,
+  STANDARD_DIAGNOSTIC_CHAIN,
+  applyOperatorResultToHypothesis,
+  compositionReducer,
+  createCompositionRun,
+  formatCompositionNotation,
+  getActiveCompositionStep,
+  getComposition,
+  validateComposition,
+} from "./composition";
+import type { InvariantExtractResult } from "./invariant-extract";
+import type { TheoryKillResult } from "./theory-kill";
 
 function makeHypothesis(overrides: Partial<HypothesisCard> = {}): HypothesisCard {
   const sessionId = overrides.sessionId ?? "TEST-SESSION";
@@ -231,6 +280,24 @@ describe("operators/docs", () => {
     expect(getSuccessCriteria("exclusion_test").length).toBeGreaterThan(0);
   });
 
+  it("documents every operator type with tips for each step", () => {
+    const stepsByType = {
+      paradox_hunt: PARADOX_HUNT_STEPS,
+      invariant_extract: INVARIANT_EXTRACT_STEPS,
+      exception_quarantine: EXCEPTION_QUARANTINE_STEPS,
+      theory_kill: THEORY_KILL_STEPS,
+    } as const;
+
+    for (const type of Object.keys(OPERATOR_METADATA) as Array<keyof typeof OPERATOR_METADATA>) {
+      expect(getOperatorDocumentation(type).type).toBe(type);
+    }
+    for (const [type, steps] of Object.entries(stepsByType)) {
+      for (const step of steps) {
+        expect(getStepTip(type as keyof typeof stepsByType, step.id)?.headline).toBeTruthy();
+      }
+    }
+  });
+
   it("falls back safely for invalid operator types", () => {
     expect(getStepTip("not-a-real-operator" as never, "identify-x-levels")).toBeUndefined();
     expect(getCommonMistakes("not-a-real-operator" as never)).toEqual([]);
@@ -1016,3 +1083,339 @@ describe("operators/scale-check", () => {
     expect(populationStep?.isComplete?.(session)).toBe(true);
   });
 });
+
+describe("operators/paradox-hunt", () => {
+  it("requires both claims, two resolutions and a selected test", () => {
+    const hypothesis = makeHypothesis();
+    let session = createSession("paradox_hunt", hypothesis, PARADOX_HUNT_STEPS);
+    const [stateStep, resolveStep, testStep] = PARADOX_HUNT_STEPS;
+
+    const paradox = seedParadoxStatement(hypothesis);
+    expect(paradox.claimA).toBe(hypothesis.statement);
+    session = sessionReducer(session, { type: "SET_SELECTION", key: PARADOX_HUNT_STEP_IDS.STATE_PARADOX, value: paradox });
+    expect(stateStep?.validate?.(session).valid).toBe(false);
+
+    const stated = { ...paradox, claimB: "Decaf drinkers report the same insomnia" };
+    session = sessionReducer(session, { type: "SET_SELECTION", key: PARADOX_HUNT_STEP_IDS.STATE_PARADOX, value: stated });
+    expect(stateStep?.isComplete?.(session)).toBe(true);
+
+    const resolutions = generateResolutions(stated);
+    expect(resolutions.map((r) => r.type)).toEqual(["level_split", "recode", "hidden_variable", "both_wrong"]);
+
+    const oneSelected = resolutions.map((r, i) => ({ ...r, selected: i === 0 }));
+    session = sessionReducer(session, { type: "SET_SELECTION", key: PARADOX_HUNT_STEP_IDS.PROPOSE_RESOLUTIONS, value: oneSelected });
+    expect(resolveStep?.validate?.(session).valid).toBe(false);
+
+    const twoSelected = resolutions.map((r, i) => ({ ...r, selected: i < 2, plausibility: i === 1 ? 4 : 2 }));
+    session = sessionReducer(session, { type: "SET_SELECTION", key: PARADOX_HUNT_STEP_IDS.PROPOSE_RESOLUTIONS, value: twoSelected });
+    expect(resolveStep?.validate?.(session).valid).toBe(true);
+
+    const tests = generateResolutionTests(twoSelected);
+    expect(tests.map((t) => t.resolutionId)).toEqual([twoSelected[0].id, twoSelected[1].id]);
+    expect(testStep?.isComplete?.(session)).toBe(false);
+
+    session = sessionReducer(session, {
+      type: "SET_SELECTION",
+      key: PARADOX_HUNT_STEP_IDS.DISCRIMINATING_TESTS,
+      value: tests.map((t, i) => ({ ...t, selected: i === 0 })),
+    });
+    expect(testStep?.isComplete?.(session)).toBe(true);
+
+    const result = buildParadoxHuntResult(session as Parameters<typeof buildParadoxHuntResult>[0]);
+    expect(result.selectedResolutionIds).toEqual([twoSelected[0].id, twoSelected[1].id]);
+    expect(result.selectedTestIds).toEqual([tests[0].id]);
+    expect(result.leadingResolutionId).toBe(twoSelected[1].id);
+  });
+});
+
+describe("operators/invariant-extract", () => {
+  it("seeds slots from the hypothesis and offers extra kinds on keyword matches", () => {
+    const plain = makeHypothesis({ mechanism: "Adenosine receptor blockade" });
+    expect(generateInvariantSlots(plain).map((inv) => inv.kind)).toEqual(["conservation", "scale"]);
+
+    const coding = makeHypothesis({ statement: "The code is read in sequence from a fixed start", mechanism: "Triplet encoding" });
+    expect(generateInvariantSlots(coding).map((inv) => inv.kind)).toEqual([
+      "conservation",
+      "scale",
+      "topology",
+      "combinatorial",
+    ]);
+
+    const withAssumptions = { ...makeHypothesis(), assumptions: ["Dose is stable", " "] };
+    expect(seedLoadBearingAssumptions(withAssumptions)).toEqual([
+      { id: "asm-1", statement: "Dose is stable", scaleCheck: false },
+    ]);
+  });
+
+  it("validates invariants and builds a result keyed to stated invariants", () => {
+    const hypothesis = makeHypothesis();
+    let session = createSession("invariant_extract", hypothesis, INVARIANT_EXTRACT_STEPS);
+    const [stateStep, ruleOutStep, probeStep] = INVARIANT_EXTRACT_STEPS;
+
+    const slots = generateInvariantSlots(hypothesis);
+    session = sessionReducer(session, { type: "SET_SELECTION", key: INVARIANT_EXTRACT_STEP_IDS.STATE_INVARIANTS, value: slots });
+    expect(stateStep?.validate?.(session).valid).toBe(false);
+
+    const stated = [
+      { ...slots[0], statement: "Total sleep need is conserved across a week" },
+      { ...slots[1], statement: "Receptor occupancy cannot exceed 100%" },
+    ];
+    session = sessionReducer(session, { type: "SET_SELECTION", key: INVARIANT_EXTRACT_STEP_IDS.STATE_INVARIANTS, value: stated });
+    expect(stateStep?.validate?.(session).valid).toBe(true);
+
+    expect(ruleOutStep?.validate?.(session).valid).toBe(false);
+    session = sessionReducer(session, {
+      type: "SET_SELECTION",
+      key: INVARIANT_EXTRACT_STEP_IDS.RULE_OUT_FAMILIES,
+      value: [
+        { id: "fp-1", invariantId: stated[1].id, modelFamily: "Unbounded dose-response", reason: "" },
+        { id: "fp-2", invariantId: "inv-missing", modelFamily: "Orphan", reason: "Dropped" },
+      ],
+    });
+    const ruleOut = ruleOutStep?.validate?.(session);
+    expect(ruleOut?.valid).toBe(true);
+    expect(ruleOut?.warnings).toHaveLength(1);
+
+    const probe = generateInvariantProbe(stated[1]);
+    expect(probe.likelihoodRatio).toBe("high");
+    expect(probeStep?.isComplete?.(session)).toBe(false);
+    session = sessionReducer(session, { type: "SET_SELECTION", key: INVARIANT_EXTRACT_STEP_IDS.PROBE_INVARIANT, value: probe });
+    expect(probeStep?.isComplete?.(session)).toBe(true);
+
+    const result = buildInvariantExtractResult(session as Parameters<typeof buildInvariantExtractResult>[0]);
+    expect(result.invariants).toHaveLength(2);
+    expect(result.forbiddenPatterns.map((p) => p.id)).toEqual(["fp-1"]);
+    expect(result.probe?.invariantId).toBe(stated[1].id);
+    expect(result.assumptions).toEqual([]);
+  });
+});
+
+describe("operators/exception-quarantine", () => {
+  const anomalies: Anomaly[] = [
+    { id: "a1", description: "Night shift workers sleep poorly without caffeine", classification: "signal", leverage: 2 },
+    { id: "a2", description: "Night shift nurses sleep poorly on weekends", classification: "signal", leverage: 5 },
+    { id: "a3", description: "One outlier participant", classification: "noise" },
+  ];
+
+  it("groups signal anomalies that share terms", () => {
+    const patterns = detectSharedPatterns(anomalies);
+    expect(patterns).toEqual([{ anomalyIds: ["a1", "a2"], sharedTerms: ["night", "poorly", "shift", "sleep"] }]);
+    expect(detectSharedPatterns([anomalies[0], anomalies[2]])).toEqual([]);
+  });
+
+  it("targets the highest-leverage signal anomaly", () => {
+    expect(pickHighestLeverageAnomaly(anomalies)?.id).toBe("a2");
+    expect(pickHighestLeverageAnomaly([anomalies[2]])).toBeNull();
+
+    expect(generateQuarantineTests(anomalies[0]).map((t) => t.id)).toEqual(["test-a1-replicate"]);
+    expect(generateQuarantineTests({ ...anomalies[1], wouldResolve: "Circadian phase explains it" }).map((t) => t.id)).toEqual([
+      "test-a2-replicate",
+      "test-a2-resolve",
+    ]);
+  });
+
+  it("validates classification and conflict analysis", () => {
+    const hypothesis = makeHypothesis();
+    let session = createSession("exception_quarantine", hypothesis, EXCEPTION_QUARANTINE_STEPS);
+    const [listStep, separateStep, conflictStep] = EXCEPTION_QUARANTINE_STEPS;
+
+    expect(listStep?.validate?.(session).valid).toBe(false);
+    session = sessionReducer(session, {
+      type: "SET_SELECTION",
+      key: EXCEPTION_QUARANTINE_STEP_IDS.LIST_ANOMALIES,
+      value: [...anomalies, { id: "a4", description: "", classification: "unclassified" }],
+    });
+    expect(listStep?.validate?.(session).valid).toBe(true);
+
+    const separate = separateStep?.validate?.(session);
+    expect(separate?.valid).toBe(true);
+    expect(separate?.warnings).toHaveLength(1);
+
+    expect(conflictStep?.validate?.(session).valid).toBe(false);
+
+    const result = buildExceptionQuarantineResult(session as Parameters<typeof buildExceptionQuarantineResult>[0]);
+    expect(result.anomalies).toHaveLength(3);
+    expect(result.quarantinedIds).toEqual(["a3"]);
+    expect(result.escalatedIds).toEqual(["a1", "a2"]);
+    expect(result.highestLeverageAnomalyId).toBe("a2");
+    expect(result.coreModelIntact).toBe(false);
+  });
+});
+
+describe("operators/theory-kill", () => {
+  it("flags rescue language and multi-sentence kill reasons", () => {
+    expect(detectRescueLanguage("It failed, but maybe it could still work")).toEqual(["but maybe", "could still"]);
+    expect(detectRescueLanguage("Experiment 3 contradicts it.")).toEqual([]);
+
+    const hypothesis = makeHypothesis();
+    let session = createSession("theory_kill", hypothesis, THEORY_KILL_STEPS);
+    const reasonStep = THEORY_KILL_STEPS[1];
+
+    expect(reasonStep?.validate?.(session).valid).toBe(false);
+    session = sessionReducer(session, {
+      type: "SET_SELECTION",
+      key: THEORY_KILL_STEP_IDS.STATE_REASON,
+      value: "Decaf drinkers show the same insomnia. Unless tolerance is involved.",
+    });
+    const validation = reasonStep?.validate?.(session);
+    expect(validation?.valid).toBe(true);
+    expect(validation?.warnings).toHaveLength(2);
+  });
+
+  it("kills only when every fair-test check passes", () => {
+    const checks = generateReadinessChecks();
+    expect(determineKillVerdict(checks)).toBe("defer");
+    expect(determineKillVerdict(checks.map((c) => ({ ...c, answer: true })))).toBe("kill");
+    expect(determineKillVerdict(checks.map((c, i) => ({ ...c, answer: i > 0 })))).toBe("defer");
+    expect(determineKillVerdict([])).toBe("defer");
+  });
+
+  it("builds a result with cleaned evidence and optional replacement", () => {
+    const hypothesis = makeHypothesis();
+    let session = createSession("theory_kill", hypothesis, THEORY_KILL_STEPS);
+    const targetStep = THEORY_KILL_STEPS[0];
+
+    session = sessionReducer(session, {
+      type: "SET_SELECTION",
+      key: THEORY_KILL_STEP_IDS.IDENTIFY_TARGET,
+      value: seedKillTarget(hypothesis),
+    });
+    expect(targetStep?.validate?.(session).valid).toBe(false);
+
+    session = sessionReducer(session, {
+      type: "SET_SELECTION",
+      key: THEORY_KILL_STEP_IDS.IDENTIFY_TARGET,
+      value: { kind: "hypothesis", statement: hypothesis.statement, contradictingEvidence: ["Decaf study", " "] },
+    });
+    expect(targetStep?.validate?.(session).valid).toBe(true);
+
+    session = sessionReducer(session, { type: "SET_SELECTION", key: THEORY_KILL_STEP_IDS.STATE_REASON, value: " Decaf study. " });
+    session = sessionReducer(session, {
+      type: "SET_SELECTION",
+      key: THEORY_KILL_STEP_IDS.FAIR_TEST,
+      value: generateReadinessChecks().map((c) => ({ ...c, answer: true })),
+    });
+    session = sessionReducer(session, {
+      type: "SET_SELECTION",
+      key: THEORY_KILL_STEP_IDS.FILL_VACUUM,
+      value: { statement: "  ", rationale: "", isThirdAlternative: false },
+    });
+
+    const result = buildTheoryKillResult(session as Parameters<typeof buildTheoryKillResult>[0]);
+    expect(result.target.contradictingEvidence).toEqual(["Decaf study"]);
+    expect(result.killReason).toBe("Decaf study.");
+    expect(result.verdict).toBe("kill");
+    expect(result.replacement).toBeUndefined();
+  });
+});
+
+describe("operators/composition", () => {
+  const invariantResult: InvariantExtractResult = {
+    invariants: [{ id: "INV-1", kind: "conservation", statement: "Total sleep need is conserved" }],
+    forbiddenPatterns: [],
+    probe: {
+      invariantId: "INV-1",
+      description: "Restrict sleep for one night",
+      expectedIfHolds: "Rebound sleep the next night",
+      expectedIfViolated: "No rebound after restriction",
+      likelihoodRatio: "high",
+    },
+    assumptions: [{ id: "A-1", statement: "Participants report sleep honestly", scaleCheck: false }],
+  };
+
+  it("declares valid built-in compositions", () => {
+    for (const composition of OPERATOR_COMPOSITIONS) {
+      expect(validateComposition(composition)).toEqual([]);
+    }
+    expect(getComposition("standard-diagnostic-chain")).toBe(STANDARD_DIAGNOSTIC_CHAIN);
+    expect(getComposition("missing")).toBeUndefined();
+    expect(formatCompositionNotation(HYGIENE_LAYER.operators)).toBe("⊙ → ΔE → †");
+  });
+
+  it("rejects empty or unknown operator chains", () => {
+    const errors = validateComposition({
+      id: "bad",
+      name: "Bad",
+      description: "",
+      operators: ["level_split", "recode" as never],
+    });
+    expect(errors).toContain(`Unknown operator "recode"`);
+    expect(validateComposition({ id: "", name: "", description: "", operators: [] })).toHaveLength(3);
+  });
+
+  it("feeds the focused sub-hypothesis into the next operator", () => {
+    const hypothesis = makeHypothesis();
+    const focused = makeHypothesis({
+      id: generateHypothesisCardId("TEST-SESSION", 2),
+      statement: "Evening caffeine delays sleep onset",
+    });
+    const levelSplit = {
+      xLevels: [],
+      yLevels: [],
+      selectedCombinations: [],
+      subHypotheses: [],
+      focusedHypothesisId: "SUB-1",
+      focusedHypothesis: focused,
+    } as LevelSplitResult;
+
+    let run = createCompositionRun(STANDARD_DIAGNOSTIC_CHAIN, hypothesis);
+    expect(getActiveCompositionStep(run)?.operatorType).toBe("level_split");
+    expect(getActiveCompositionStep(run)?.inputHypothesis).toBe(hypothesis);
+
+    run = compositionReducer(run, { type: "COMPLETE_STEP", result: levelSplit });
+    const next = getActiveCompositionStep(run);
+    expect(next?.operatorType).toBe("invariant_extract");
+    expect(next?.inputHypothesis?.statement).toBe("Evening caffeine delays sleep onset");
+    expect(next?.inputHypothesis?.notes).toContain("[Level Split] Focused on: Evening caffeine delays sleep onset");
+    expect(run.steps[0]?.status).toBe("completed");
+
+    run = compositionReducer(run, { type: "COMPLETE_STEP", result: invariantResult });
+    const exclusionInput = getActiveCompositionStep(run)?.inputHypothesis;
+    expect(exclusionInput?.assumptions).toEqual([
+      "Total sleep need is conserved",
+      "Participants report sleep honestly",
+    ]);
+    expect(exclusionInput?.impossibleIfTrue).toContain("No rebound after restriction");
+  });
+
+  it("skips steps without changing the hypothesis and completes the run", () => {
+    const hypothesis = makeHypothesis();
+    let run = createCompositionRun(HYGIENE_LAYER, hypothesis);
+
+    run = compositionReducer(run, { type: "SKIP_STEP" });
+    run = compositionReducer(run, { type: "SKIP_STEP" });
+    expect(getActiveCompositionStep(run)?.inputHypothesis).toBe(hypothesis);
+
+    run = compositionReducer(run, { type: "SKIP_STEP" });
+    expect(run.status).toBe("completed");
+    expect(run.finishedAt).toBeDefined();
+    expect(run.steps.every((step) => step.status === "skipped")).toBe(true);
+    expect(getActiveCompositionStep(run)).toBeNull();
+
+    // Finished runs ignore further actions
+    expect(compositionReducer(run, { type: "ABANDON" })).toBe(run);
+  });
+
+  it("abandons a run in progress", () => {
+    const run = compositionReducer(createCompositionRun(HYGIENE_LAYER, makeHypothesis()), { type: "ABANDON" });
+    expect(run.status).toBe("abandoned");
+    expect(getActiveCompositionStep(run)).toBeNull();
+  });
+
+  it("replaces a killed hypothesis with its replacement", () => {
+    const hypothesis = makeHypothesis();
+    const result = {
+      target: { kind: "hypothesis", statement: hypothesis.statement, contradictingEvidence: ["Decaf study"] },
+      killReason: "Decaf study",
+      readinessChecks: [],
+      verdict: "kill",
+      replacement: { statement: "Late screen use causes insomnia", rationale: "", isThirdAlternative: true },
+      rescueLanguage: [],
+    } as TheoryKillResult;
+
+    const next = applyOperatorResultToHypothesis("theory_kill", hypothesis, result);
+    expect(next.statement).toBe("Late screen use causes insomnia");
+    expect(next.parentVersion).toBe(hypothesis.id);
+    expect(next.evolutionReason).toContain("Decaf study");
+  });
+});
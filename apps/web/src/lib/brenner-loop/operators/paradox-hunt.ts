@@ -0,0 +1,455 @@
+/**
+ * Paradox Hunt (◊) Operator
+ *
+ * Treats contradictions in the current model as beacons rather than nuisances.
+ * Guides users to state the paradox as two sentences that cannot both be true,
+ * propose competing resolutions, and design tests that discriminate between them.
+ *
+ * Brenner's Principle: A paradox is a constraint. "The paradox of the prodigious
+ * rate of protein synthesis" forced the discovery of messenger RNA.
+ *
+ * @see specs/operator_library_v0.1.md - ◊ Paradox-Hunt
+ * @module brenner-loop/operators/paradox-hunt
+ */
+
+import type { HypothesisCard } from "../hypothesis";
+import type { OperatorStepConfig, OperatorSession } from "./framework";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * The paradox, stated as two claims that cannot both be true
+ * under the current language.
+ */
+export interface ParadoxStatement {
+  /** First claim (often the hypothesis or an established fact) */
+  claimA: string;
+  /** Second claim that contradicts the first */
+  claimB: string;
+  /** Where the first claim comes from (evidence, anchor, assumption) */
+  sourceA?: string;
+  /** Where the second claim comes from */
+  sourceB?: string;
+}
+
+/**
+ * Standard routes out of a paradox
+ */
+export type ResolutionType =
+  | "level_split"     // The claims live at different levels of explanation
+  | "recode"          // The representation is wrong; re-express the problem
+  | "hidden_variable" // A missing component reconciles both claims
+  | "both_wrong"      // Neither claim survives scrutiny
+  | "other";
+
+/**
+ * A candidate resolution of the paradox
+ */
+export interface ParadoxResolution {
+  /** Unique identifier */
+  id: string;
+  /** Kind of resolution */
+  type: ResolutionType;
+  /** Display name */
+  name: string;
+  /** What the resolution asserts */
+  description: string;
+  /** What would have to be true if this resolution holds */
+  implications: string[];
+  /** User-rated plausibility (1-5) */
+  plausibility?: number;
+  /** Whether this resolution is carried forward */
+  selected?: boolean;
+}
+
+/**
+ * A test that discriminates between resolutions
+ */
+export interface ResolutionTest {
+  /** Unique identifier */
+  id: string;
+  /** Resolution this test probes */
+  resolutionId: string;
+  /** Description of the test */
+  description: string;
+  /** Outcome expected if the probed resolution is correct */
+  predictionIfResolution: string;
+  /** Outcome expected if a competing resolution is correct */
+  predictionOtherwise: string;
+  /** Feasibility rating */
+  feasibility: "easy" | "moderate" | "difficult";
+  /** Whether this test is chosen for the session */
+  selected?: boolean;
+}
+
+/**
+ * Result of the Paradox Hunt operator
+ */
+export interface ParadoxHuntResult {
+  /** The stated paradox */
+  paradox: ParadoxStatement;
+  /** All resolutions considered */
+  resolutions: ParadoxResolution[];
+  /** IDs of resolutions carried forward */
+  selectedResolutionIds: string[];
+  /** Tests generated for the selected resolutions */
+  tests: ResolutionTest[];
+  /** IDs of tests chosen for the session */
+  selectedTestIds: string[];
+  /** Highest-rated selected resolution, if any */
+  leadingResolutionId?: string;
+}
+
+// ============================================================================
+// Step Configurations
+// ============================================================================
+
+/**
+ * Step IDs for the Paradox Hunt operator
+ */
+export const PARADOX_HUNT_STEP_IDS = {
+  STATE_PARADOX: "state-paradox",
+  PROPOSE_RESOLUTIONS: "propose-resolutions",
+  DISCRIMINATING_TESTS: "discriminating-tests",
+} as const;
+
+/**
+ * Check if both halves of the paradox are stated
+ */
+function hasParadoxStated(session: OperatorSession): boolean {
+  const paradox = session.userSelections[PARADOX_HUNT_STEP_IDS.STATE_PARADOX] as ParadoxStatement | undefined;
+  return Boolean(paradox?.claimA.trim() && paradox?.claimB.trim());
+}
+
+/**
+ * Get resolutions the user has carried forward
+ */
+function getSelectedResolutions(session: OperatorSession): ParadoxResolution[] {
+  const resolutions = session.userSelections[PARADOX_HUNT_STEP_IDS.PROPOSE_RESOLUTIONS] as ParadoxResolution[] | undefined;
+  return Array.isArray(resolutions) ? resolutions.filter((r) => r.selected) : [];
+}
+
+/**
+ * Check if at least one discriminating test is chosen
+ */
+function hasTestsSelected(session: OperatorSession): boolean {
+  const tests = session.userSelections[PARADOX_HUNT_STEP_IDS.DISCRIMINATING_TESTS] as ResolutionTest[] | undefined;
+  return Array.isArray(tests) && tests.some((t) => t.selected);
+}
+
+/**
+ * Step configurations for the Paradox Hunt operator
+ */
+export const PARADOX_HUNT_STEPS: OperatorStepConfig[] = [
+  {
+    id: PARADOX_HUNT_STEP_IDS.STATE_PARADOX,
+    name: "State the Paradox",
+    description:
+      "Write the contradiction as two sentences that cannot both be true under your current language.",
+    helpText: `
+**Why this matters:**
+A contradiction you can't state crisply is one you can't resolve. Forcing it into
+two sentences exposes exactly which words are doing the damage.
+
+**Good paradoxes look like:**
+- "Protein is made at a prodigious rate" / "No new ribosomes are made after infection"
+- "The effect is large in the lab" / "The effect vanishes in the field"
+
+**Brenner's paradox of protein synthesis (§95):**
+Holding the old theory required an impossible synthesis rate. The paradox pointed
+straight at the missing component: a separate messenger.
+    `.trim(),
+    isComplete: hasParadoxStated,
+    validate: (session) => {
+      const paradox = session.userSelections[PARADOX_HUNT_STEP_IDS.STATE_PARADOX] as ParadoxStatement | undefined;
+      if (!paradox?.claimA.trim() || !paradox?.claimB.trim()) {
+        return {
+          valid: false,
+          errors: ["State both sides of the paradox"],
+          warnings: [],
+        };
+      }
+      if (paradox.claimA.trim().toLowerCase() === paradox.claimB.trim().toLowerCase()) {
+        return {
+          valid: true,
+          errors: [],
+          warnings: ["Both claims are identical - a paradox needs two conflicting statements"],
+        };
+      }
+      return { valid: true, errors: [], warnings: [] };
+    },
+  },
+  {
+    id: PARADOX_HUNT_STEP_IDS.PROPOSE_RESOLUTIONS,
+    name: "Propose Resolutions",
+    description:
+      "Select at least two ways the paradox could be resolved and rate how plausible each one is.",
+    helpText: `
+**Standard resolutions:**
+
+**Level split:** The two claims are true at different levels (program vs interpreter).
+
+**Recode:** The representation is wrong. Re-express the problem and the conflict dissolves.
+
+**Hidden variable:** A missing component makes both claims true at once.
+
+**Both wrong:** Neither claim survives scrutiny; go back to the evidence.
+
+**Failure mode:** Resolving the paradox prematurely with a patch explanation.
+Keep at least two resolutions alive until a test separates them.
+    `.trim(),
+    isComplete: (session) => getSelectedResolutions(session).length >= 2,
+    validate: (session) => {
+      const selected = getSelectedResolutions(session);
+      if (selected.length < 2) {
+        return {
+          valid: false,
+          errors: ["Keep at least two resolutions in play"],
+          warnings: [],
+        };
+      }
+      const unrated = selected.filter((r) => !r.plausibility);
+      if (unrated.length > 0) {
+        return {
+          valid: true,
+          errors: [],
+          warnings: [`${unrated.length} selected resolution(s) not rated`],
+        };
+      }
+      return { valid: true, errors: [], warnings: [] };
+    },
+  },
+  {
+    id: PARADOX_HUNT_STEP_IDS.DISCRIMINATING_TESTS,
+    name: "Discriminating Tests",
+    description:
+      "Choose one or two tests whose outcome would tell the resolutions apart.",
+    helpText: `
+**What makes a good test here:**
+The test must come out differently depending on which resolution is true.
+A test that every resolution predicts equally well teaches you nothing.
+
+Pick one or two tests. More than that usually means none of them is sharp enough.
+    `.trim(),
+    isComplete: hasTestsSelected,
+    validate: (session) => {
+      const tests = session.userSelections[PARADOX_HUNT_STEP_IDS.DISCRIMINATING_TESTS] as ResolutionTest[] | undefined;
+      const selected = (tests ?? []).filter((t) => t.selected);
+      if (selected.length === 0) {
+        return {
+          valid: false,
+          errors: ["Select at least one discriminating test"],
+          warnings: [],
+        };
+      }
+      if (selected.length > 2) {
+        return {
+          valid: true,
+          errors: [],
+          warnings: ["More than two tests selected - prioritize the sharpest one or two"],
+        };
+      }
+      return { valid: true, errors: [], warnings: [] };
+    },
+  },
+];
+
+// ============================================================================
+// Resolution Generation
+// ============================================================================
+
+/**
+ * Seed a paradox statement from the hypothesis.
+ *
+ * The hypothesis statement becomes claim A; claim B is left for the user,
+ * since only they know which observation conflicts with it.
+ */
+export function seedParadoxStatement(hypothesis: HypothesisCard): ParadoxStatement {
+  return {
+    claimA: hypothesis.statement,
+    claimB: "",
+    sourceA: "Current hypothesis",
+  };
+}
+
+/**
+ * Generate the standard resolutions for a paradox
+ */
+export function generateResolutions(paradox: ParadoxStatement): ParadoxResolution[] {
+  const a = paradox.claimA.trim() || "claim A";
+  const b = paradox.claimB.trim() || "claim B";
+
+  return [
+    {
+      id: "res-level-split",
+      type: "level_split",
+      name: "Level Split",
+      description: `"${a}" and "${b}" are both true, but at different levels of explanation. The conflict comes from treating them as claims about the same level.`,
+      implications: [
+        "Each claim should hold when measured at its own level",
+        "The contradiction should vanish once levels are separated",
+      ],
+    },
+    {
+      id: "res-recode",
+      type: "recode",
+      name: "Recode",
+      description: "The current representation forces the conflict. Re-expressed in different variables or units, both observations fit one description.",
+      implications: [
+        "A change of variables should make the conflict disappear",
+        "The old representation should fail on other cases too",
+      ],
+    },
+    {
+      id: "res-hidden-variable",
+      type: "hidden_variable",
+      name: "Hidden Variable",
+      description: `A missing component reconciles the two claims: something not yet in the model makes "${b}" compatible with "${a}".`,
+      implications: [
+        "The hidden component should be detectable directly",
+        "Removing or blocking it should restore the contradiction",
+      ],
+    },
+    {
+      id: "res-both-wrong",
+      type: "both_wrong",
+      name: "Both Wrong",
+      description: "Neither claim is secure. The paradox is an artifact of weak evidence on one or both sides.",
+      implications: [
+        "Independent re-measurement should fail to reproduce at least one claim",
+        "The evidence for each claim should be weaker than assumed",
+      ],
+    },
+  ];
+}
+
+// ============================================================================
+// Test Generation
+// ============================================================================
+
+/**
+ * Generate a discriminating test for a specific resolution
+ */
+function generateTestForResolution(resolution: ParadoxResolution): ResolutionTest {
+  switch (resolution.type) {
+    case "level_split":
+      return {
+        id: `test-${resolution.id}`,
+        resolutionId: resolution.id,
+        description: "Measure each claim at its own level separately and check whether the conflict survives.",
+        predictionIfResolution: "Each claim holds at its own level; the contradiction disappears",
+        predictionOtherwise: "The contradiction persists even when levels are separated",
+        feasibility: "moderate",
+      };
+    case "recode":
+      return {
+        id: `test-${resolution.id}`,
+        resolutionId: resolution.id,
+        description: "Re-express both observations in the proposed representation and check for a single consistent description.",
+        predictionIfResolution: "Both observations fit one description in the new variables",
+        predictionOtherwise: "The conflict reappears in the new representation",
+        feasibility: "easy",
+      };
+    case "hidden_variable":
+      return {
+        id: `test-${resolution.id}`,
+        resolutionId: resolution.id,
+        description: "Detect or block the proposed hidden component directly.",
+        predictionIfResolution: "The component is found, and blocking it restores the contradiction",
+        predictionOtherwise: "No such component exists, or blocking it changes nothing",
+        feasibility: "difficult",
+      };
+    case "both_wrong":
+      return {
+        id: `test-${resolution.id}`,
+        resolutionId: resolution.id,
+        description: "Independently re-measure the evidence behind each claim.",
+        predictionIfResolution: "At least one claim fails to replicate",
+        predictionOtherwise: "Both claims replicate cleanly",
+        feasibility: "moderate",
+      };
+    default:
+      return {
+        id: `test-${resolution.id}`,
+        resolutionId: resolution.id,
+        description: `Find an observation that only "${resolution.name}" predicts.`,
+        predictionIfResolution: "The predicted observation appears",
+        predictionOtherwise: "The predicted observation is absent",
+        feasibility: "moderate",
+      };
+  }
+}
+
+/**
+ * Generate discriminating tests for the selected resolutions
+ */
+export function generateResolutionTests(resolutions: ParadoxResolution[]): ResolutionTest[] {
+  return resolutions.filter((r) => r.selected).map(generateTestForResolution);
+}
+
+/**
+ * Build the complete Paradox Hunt result from session state
+ */
+export function buildParadoxHuntResult(
+  session: OperatorSession<ParadoxHuntResult>
+): ParadoxHuntResult {
+  const paradox = (session.userSelections[PARADOX_HUNT_STEP_IDS.STATE_PARADOX] as ParadoxStatement) ?? {
+    claimA: "",
+    claimB: "",
+  };
+  const resolutions = (session.userSelections[PARADOX_HUNT_STEP_IDS.PROPOSE_RESOLUTIONS] as ParadoxResolution[]) ?? [];
+  const tests = (session.userSelections[PARADOX_HUNT_STEP_IDS.DISCRIMINATING_TESTS] as ResolutionTest[]) ?? [];
+
+  const selected = resolutions.filter((r) => r.selected);
+  let leading: ParadoxResolution | undefined;
+  for (const resolution of selected) {
+    if ((resolution.plausibility ?? 0) > (leading?.plausibility ?? 0)) {
+      leading = resolution;
+    }
+  }
+
+  return {
+    paradox,
+    resolutions,
+    selectedResolutionIds: selected.map((r) => r.id),
+    tests,
+    selectedTestIds: tests.filter((t) => t.selected).map((t) => t.id),
+    leadingResolutionId: leading?.id,
+  };
+}
+
+// ============================================================================
+// Brenner Quotes for Paradox Hunt
+// ============================================================================
+
+/**
+ * Quote bank section IDs relevant to Paradox Hunt
+ */
+export const PARADOX_HUNT_QUOTE_ANCHORS = [
+  "§95", // Paradox of prodigious synthesis rate
+  "§163", // Beilstein paradox
+];
+
+/**
+ * Fallback quotes if quote bank is unavailable
+ */
+export const PARADOX_HUNT_FALLBACK_QUOTES = [
+  {
+    sectionId: "§95",
+    title: "Paradox as a Constraint",
+    quote:
+      "The difficulty was that after phage infection no new ribosomes are made, there's no RNA synthesis, and so what you had is if you wished to hold the old theory you had to have what I called at that time the paradox of the prodigious rate of protein synthesis.",
+    context: "Brenner on the contradiction that pointed to messenger RNA",
+    tags: ["paradox-hunt", "paradox"],
+  },
+  {
+    sectionId: "§163",
+    title: "The Beilstein Paradox",
+    quote:
+      "How does it know what is not yet published in Beilstein but will be in the future? ... it means that everything must be pluralistic.",
+    context: "Brenner on the antibody paradox forcing a combinatorial explanation",
+    tags: ["paradox-hunt", "combinatorics"],
+  },
+];
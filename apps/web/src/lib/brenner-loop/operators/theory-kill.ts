@@ -0,0 +1,378 @@
+/**
+ * Theory Kill (†) Operator
+ *
+ * Discards a hypothesis, test or assumption once the evidence has turned against
+ * it. Guards against both failure modes: clinging to a theory with excuses, and
+ * killing one before it has had a fair test. If the kill leaves a vacuum, the
+ * user names a replacement (often a Third Alternative).
+ *
+ * Brenner's Principle: "One should not fall in love with one's theories...
+ * When they go ugly, kill them."
+ *
+ * @see specs/operator_library_v0.1.md - † Theory-Kill
+ * @module brenner-loop/operators/theory-kill
+ */
+
+import type { HypothesisCard } from "../hypothesis";
+import type { OperatorStepConfig, OperatorSession } from "./framework";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * What is being killed
+ */
+export type KillTargetKind = "hypothesis" | "test" | "assumption";
+
+/**
+ * The contradicted item and the evidence against it
+ */
+export interface KillTarget {
+  /** Kind of item being killed */
+  kind: KillTargetKind;
+  /** The item, as stated */
+  statement: string;
+  /** Observations that contradict it */
+  contradictingEvidence: string[];
+}
+
+/**
+ * A question that guards against killing too early
+ */
+export interface KillReadinessCheck {
+  /** Unique identifier */
+  id: string;
+  /** The question */
+  question: string;
+  /** Why it matters */
+  rationale: string;
+  /** User's answer (null = not yet answered) */
+  answer: boolean | null;
+}
+
+/**
+ * A hypothesis proposed to fill the vacuum left by the kill
+ */
+export interface ReplacementHypothesis {
+  /** The replacement, as stated */
+  statement: string;
+  /** Why it fits the evidence the killed item could not */
+  rationale: string;
+  /** Whether this is a Third Alternative (neither side of the old debate) */
+  isThirdAlternative: boolean;
+}
+
+/**
+ * Final verdict of the operator
+ */
+export type KillVerdict = "kill" | "defer";
+
+/**
+ * Result of the Theory Kill operator
+ */
+export interface TheoryKillResult {
+  /** What was considered for the kill */
+  target: KillTarget;
+  /** One-sentence kill reason */
+  killReason: string;
+  /** Fair-test checks and their answers */
+  readinessChecks: KillReadinessCheck[];
+  /** Rescue phrases found in the kill reason */
+  rescueLanguage: string[];
+  /** Kill now, or defer until the checks pass */
+  verdict: KillVerdict;
+  /** Replacement that fills the vacuum, if any */
+  replacement?: ReplacementHypothesis;
+}
+
+// ============================================================================
+// Step Configurations
+// ============================================================================
+
+/**
+ * Step IDs for the Theory Kill operator
+ */
+export const THEORY_KILL_STEP_IDS = {
+  IDENTIFY_TARGET: "identify-target",
+  STATE_REASON: "state-reason",
+  FAIR_TEST: "fair-test",
+  FILL_VACUUM: "fill-vacuum",
+} as const;
+
+/**
+ * Check if the target and at least one contradicting observation are given
+ */
+function hasTargetIdentified(session: OperatorSession): boolean {
+  const target = session.userSelections[THEORY_KILL_STEP_IDS.IDENTIFY_TARGET] as KillTarget | undefined;
+  return Boolean(
+    target?.statement.trim() && target.contradictingEvidence.some((e) => e.trim().length > 0)
+  );
+}
+
+/**
+ * Check if every readiness question has been answered
+ */
+function hasReadinessAnswered(session: OperatorSession): boolean {
+  const checks = session.userSelections[THEORY_KILL_STEP_IDS.FAIR_TEST] as KillReadinessCheck[] | undefined;
+  return Array.isArray(checks) && checks.length > 0 && checks.every((c) => c.answer !== null);
+}
+
+/**
+ * Step configurations for the Theory Kill operator
+ */
+export const THEORY_KILL_STEPS: OperatorStepConfig[] = [
+  {
+    id: THEORY_KILL_STEP_IDS.IDENTIFY_TARGET,
+    name: "Identify the Target",
+    description:
+      "Name the hypothesis, test or assumption that is now contradicted, and the evidence against it.",
+    helpText: `
+**Why this matters:**
+You can't kill something vaguely. Name exactly what has failed and list the
+observations that contradict it.
+
+**Triggers:**
+- Evidence contradicts your favored hypothesis
+- You notice yourself making excuses for it
+- The theory has "gone ugly" and needs patches to survive
+    `.trim(),
+    isComplete: hasTargetIdentified,
+    validate: (session) => {
+      const target = session.userSelections[THEORY_KILL_STEP_IDS.IDENTIFY_TARGET] as KillTarget | undefined;
+      if (!target?.statement.trim()) {
+        return { valid: false, errors: ["State what is being killed"], warnings: [] };
+      }
+      if (!target.contradictingEvidence.some((e) => e.trim().length > 0)) {
+        return { valid: false, errors: ["List at least one contradicting observation"], warnings: [] };
+      }
+      return { valid: true, errors: [], warnings: [] };
+    },
+  },
+  {
+    id: THEORY_KILL_STEP_IDS.STATE_REASON,
+    name: "State the Kill Reason",
+    description:
+      "In one sentence, say which evidence or test makes the target obsolete.",
+    helpText: `
+**One sentence, no hedging:**
+If the reason needs a paragraph, or keeps saying "but maybe", you are probably
+making excuses rather than killing.
+
+**Brenner on attachment (§229):**
+Theories are tools, not identities. Be ruthless towards your loved ones.
+    `.trim(),
+    isComplete: (session) => {
+      const reason = session.userSelections[THEORY_KILL_STEP_IDS.STATE_REASON] as string | undefined;
+      return Boolean(reason?.trim());
+    },
+    validate: (session) => {
+      const reason = (session.userSelections[THEORY_KILL_STEP_IDS.STATE_REASON] as string | undefined) ?? "";
+      if (!reason.trim()) {
+        return { valid: false, errors: ["State the kill reason"], warnings: [] };
+      }
+      const warnings: string[] = [];
+      if (countSentences(reason) > 1) {
+        warnings.push("Kill reason runs past one sentence");
+      }
+      const rescue = detectRescueLanguage(reason);
+      if (rescue.length > 0) {
+        warnings.push(`Possible rescue language: ${rescue.join(", ")}`);
+      }
+      return { valid: true, errors: [], warnings };
+    },
+  },
+  {
+    id: THEORY_KILL_STEP_IDS.FAIR_TEST,
+    name: "Fair Test Check",
+    description:
+      "Confirm the target had a fair test before you kill it.",
+    helpText: `
+**The opposite failure mode:**
+Killing too early is as costly as killing too late. A theory that never had a
+potent test hasn't failed; it just hasn't been tried.
+
+Any "no" answer defers the kill until that gap is closed.
+    `.trim(),
+    isComplete: hasReadinessAnswered,
+    validate: (session) => {
+      if (!hasReadinessAnswered(session)) {
+        return { valid: false, errors: ["Answer every fair-test question"], warnings: [] };
+      }
+      const checks = session.userSelections[THEORY_KILL_STEP_IDS.FAIR_TEST] as KillReadinessCheck[];
+      const failed = checks.filter((c) => c.answer === false);
+      if (failed.length > 0) {
+        return {
+          valid: true,
+          errors: [],
+          warnings: [`${failed.length} check(s) failed - the kill will be deferred`],
+        };
+      }
+      return { valid: true, errors: [], warnings: [] };
+    },
+  },
+  {
+    id: THEORY_KILL_STEP_IDS.FILL_VACUUM,
+    name: "Fill the Vacuum",
+    description:
+      "If the kill leaves nothing standing, propose a replacement. Consider a Third Alternative.",
+    helpText: `
+**Don't leave a vacuum:**
+A killed hypothesis often leaves the question open. Name what replaces it,
+ideally an option neither side of the old debate considered.
+
+Skip this step if other live hypotheses already cover the evidence.
+    `.trim(),
+    canSkip: true,
+    isComplete: (session) => {
+      const replacement = session.userSelections[THEORY_KILL_STEP_IDS.FILL_VACUUM] as ReplacementHypothesis | undefined;
+      return Boolean(replacement?.statement.trim());
+    },
+  },
+];
+
+// ============================================================================
+// Analysis Utilities
+// ============================================================================
+
+/**
+ * Phrases that signal an attempt to rescue a failing theory
+ */
+export const RESCUE_PHRASES = [
+  "but maybe",
+  "could still",
+  "might still",
+  "unless",
+  "special case",
+  "in principle",
+  "not yet ruled out",
+  "with some modification",
+  "if we assume",
+];
+
+/**
+ * Find rescue phrases in a kill reason
+ */
+export function detectRescueLanguage(text: string): string[] {
+  const lower = text.toLowerCase();
+  return RESCUE_PHRASES.filter((phrase) => lower.includes(phrase));
+}
+
+function countSentences(text: string): number {
+  return text
+    .split(/[.!?]+(?:\s+|$)/)
+    .filter((part) => part.trim().length > 0).length;
+}
+
+/**
+ * Seed the kill target from the hypothesis
+ */
+export function seedKillTarget(hypothesis: HypothesisCard): KillTarget {
+  return {
+    kind: "hypothesis",
+    statement: hypothesis.statement,
+    contradictingEvidence: [""],
+  };
+}
+
+/**
+ * Generate the fair-test questions
+ */
+export function generateReadinessChecks(): KillReadinessCheck[] {
+  return [
+    {
+      id: "potent",
+      question: "Could the test have come out in the target's favor?",
+      rationale: "A test that could only fail says nothing. Check it was potent.",
+      answer: null,
+    },
+    {
+      id: "replicated",
+      question: "Has the contradicting result been replicated or independently confirmed?",
+      rationale: "One surprising result may be an artifact.",
+      answer: null,
+    },
+    {
+      id: "same-level",
+      question: "Does the evidence speak to the same level the target makes claims about?",
+      rationale: "Evidence at the wrong level can't kill the claim.",
+      answer: null,
+    },
+    {
+      id: "no-artifact",
+      question: "Have measurement and procedural artifacts been ruled out?",
+      rationale: "Kill the theory, not the instrument's failure.",
+      answer: null,
+    },
+  ];
+}
+
+/**
+ * Decide the verdict from the readiness checks
+ */
+export function determineKillVerdict(checks: KillReadinessCheck[]): KillVerdict {
+  return checks.length > 0 && checks.every((c) => c.answer === true) ? "kill" : "defer";
+}
+
+/**
+ * Build the complete Theory Kill result from session state
+ */
+export function buildTheoryKillResult(
+  session: OperatorSession<TheoryKillResult>
+): TheoryKillResult {
+  const target = (session.userSelections[THEORY_KILL_STEP_IDS.IDENTIFY_TARGET] as KillTarget) ?? {
+    kind: "hypothesis",
+    statement: session.inputHypothesis.statement,
+    contradictingEvidence: [],
+  };
+  const killReason = ((session.userSelections[THEORY_KILL_STEP_IDS.STATE_REASON] as string) ?? "").trim();
+  const readinessChecks = (session.userSelections[THEORY_KILL_STEP_IDS.FAIR_TEST] as KillReadinessCheck[]) ?? [];
+  const replacement = session.userSelections[THEORY_KILL_STEP_IDS.FILL_VACUUM] as ReplacementHypothesis | undefined;
+
+  return {
+    target: {
+      ...target,
+      contradictingEvidence: target.contradictingEvidence.filter((e) => e.trim().length > 0),
+    },
+    killReason,
+    readinessChecks,
+    rescueLanguage: detectRescueLanguage(killReason),
+    verdict: determineKillVerdict(readinessChecks),
+    replacement: replacement?.statement.trim() ? replacement : undefined,
+  };
+}
+
+// ============================================================================
+// Brenner Quotes for Theory Kill
+// ============================================================================
+
+/**
+ * Quote bank section IDs relevant to Theory Kill
+ */
+export const THEORY_KILL_QUOTE_ANCHORS = [
+  "§83", // You can't deduce the code; go measure it
+  "§106", // Occam's Broom
+  "§229", // Theories as mistresses
+];
+
+/**
+ * Fallback quotes if quote bank is unavailable
+ */
+export const THEORY_KILL_FALLBACK_QUOTES = [
+  {
+    sectionId: "§229",
+    title: "When They Go Ugly, Kill Them",
+    quote:
+      "One should not fall in love with one's theories. They should be treated as mistresses to be discarded once the pleasure is over... you must be ruthless towards your loved ones. When they go ugly, kill them.",
+    context: "Brenner on detachment from theories",
+    tags: ["theory-kill", "attachment"],
+  },
+  {
+    sectionId: "§83",
+    title: "Go Measure It",
+    quote:
+      "Francis had come to the conclusion that the code was degenerate, that in fact we can't assign it, we can't deduce it from first principles. We just have to go and find out what it is.",
+    context: "Brenner on abandoning a theoretical program when experiment must decide",
+    tags: ["theory-kill", "experiment-over-theory"],
+  },
+];
@@ -9,8 +9,15 @@ import {
   embedText,
   cosineSimilarity,
   findSimilar,
+  embedQuery,
+  searchEmbeddings,
+  getEmbeddingModel,
+  hashingEmbeddingProvider,
+  loadEmbeddingProvider,
   EMBEDDING_DIMENSION,
+  HASHING_EMBEDDING_MODEL,
   type EmbeddingEntry,
+  type EmbeddingProvider,
 } from "./embeddings";
 
 describe("embedText", () => {
@@ -127,3 +134,49 @@ describe("findSimilar", () => {
     expect(results[0].score).toBeDefined();
   });
 });
+
+describe("embedding providers", () => {
+  const constantProvider: EmbeddingProvider = {
+    id: "test/constant",
+    dimension: 3,
+    embed: async (texts) => texts.map(() => [1, 0, 0]),
+  };
+
+  it("hashing provider matches embedText", async () => {
+    const [embedding] = await hashingEmbeddingProvider.embed(["Exclusion tests"]);
+    expect(embedding).toEqual(embedText("Exclusion tests"));
+    expect(hashingEmbeddingProvider.id).toBe(HASHING_EMBEDDING_MODEL);
+  });
+
+  it("treats indexes without a model as hashing", () => {
+    expect(getEmbeddingModel({})).toBe(HASHING_EMBEDDING_MODEL);
+    expect(getEmbeddingModel({ model: "test/constant" })).toBe("test/constant");
+  });
+
+  it("resolves the hashing provider without loading a model", async () => {
+    await expect(loadEmbeddingProvider()).resolves.toBe(hashingEmbeddingProvider);
+  });
+
+  it("embeds queries with the provider that built the index", async () => {
+    await expect(embedQuery("level split", {})).resolves.toEqual(embedText("level split"));
+    await expect(embedQuery("level split", { model: "test/constant" }, constantProvider)).resolves.toEqual([1, 0, 0]);
+  });
+
+  it("rejects a provider that does not match the index model", async () => {
+    await expect(embedQuery("level split", {}, constantProvider)).rejects.toThrow(
+      'Embedding provider "test/constant" does not match index model "hashing-fnv1a".'
+    );
+  });
+  it("searches an index with its own model", async () => {
+    const index = {
+      model: "test/constant",
+      entries: [
+        { id: "a", text: "unrelated words", source: "quote" as const, embedding: [0, 1, 0] },
+        { id: "b", text: "other words", source: "quote" as const, embedding: [1, 0, 0] },
+      ],
+    };
+
+    const matches = await searchEmbeddings("level split", index, { provider: constantProvider, topK: 1 });
+    expect(matches.map((m) => m.id)).toEqual(["b"]);
+  });
+});
@@ -4,6 +4,10 @@
  * Uses a deterministic hashing-based embedding to avoid external API calls.
  * This provides a baseline semantic signal suitable for client-side similarity search.
  *
+ * Other models plug in through `EmbeddingProvider`. The bundled alternative is a
+ * small sentence-transformer run on CPU via ONNX (see `transformers-embeddings.ts`);
+ * the index records which model produced its vectors so queries use the same one.
+ *
  * @see brenner_bot-ukd1.1 (Vector Embeddings for Brenner Corpus)
  */
 
@@ -24,6 +28,8 @@ export interface EmbeddingEntry {
 export interface EmbeddingIndex {
   version: number;
   dimension: number;
+  /** Model that produced the vectors. Absent in indexes built before providers existed (hashing). */
+  model?: string;
   entries: EmbeddingEntry[];
 }
 
@@ -31,12 +37,35 @@ export interface EmbeddingMatch extends EmbeddingEntry {
   score: number;
 }
 
+/**
+ * A source of embedding vectors.
+ *
+ * Vectors from different providers are not comparable; always embed queries
+ * with the provider that built the vectors being searched.
+ */
+export interface EmbeddingProvider {
+  /** Model id, recorded in `EmbeddingIndex.model` */
+  id: string;
+  dimension: number;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+export interface LoadEmbeddingProviderOptions {
+  /** Directory (or URL prefix) holding local model files */
+  localModelPath?: string;
+  /** Allow downloading model files that are not available locally (default: false) */
+  allowRemoteModels?: boolean;
+  /** Filesystem cache for downloaded models (Node only) */
+  cacheDir?: string;
+}
+
 // ============================================================================
 // Constants
 // ============================================================================
 
 export const EMBEDDING_DIMENSION = 384;
 export const EMBEDDING_INDEX_VERSION = 1;
+export const HASHING_EMBEDDING_MODEL = "hashing-fnv1a";
 
 const TOKEN_MIN_LENGTH = 2;
 const TOKEN_MAX_LENGTH = 48;
@@ -80,6 +109,12 @@ export function cosineSimilarity(a: number[], b: number[]): number {
   return dot / Math.sqrt(normA * normB);
 }
 
+/**
+ * Rank entries against a query vector.
+ *
+ * String queries are embedded with the hashing model, so only pass text when
+ * the entries were built by it; otherwise use `searchEmbeddings`.
+ */
 export function findSimilar(
   query: string | number[],
   entries: EmbeddingEntry[],
@@ -97,6 +132,68 @@ export function findSimilar(
     .slice(0, Math.max(topK, 1));
 }
 
+export const hashingEmbeddingProvider: EmbeddingProvider = {
+  id: HASHING_EMBEDDING_MODEL,
+  dimension: EMBEDDING_DIMENSION,
+  embed: async (texts) => texts.map((text) => embedText(text)),
+};
+
+export function getEmbeddingModel(index: Pick<EmbeddingIndex, "model">): string {
+  return index.model ?? HASHING_EMBEDDING_MODEL;
+}
+
+/**
+ * Resolve the provider for a model id.
+ *
+ * The hashing model is always available; any other id is loaded as a local
+ * sentence-transformer, which pulls in the ONNX runtime on first use.
+ */
+export async function loadEmbeddingProvider(
+  model: string = HASHING_EMBEDDING_MODEL,
+  options: LoadEmbeddingProviderOptions = {}
+): Promise<EmbeddingProvider> {
+  if (model === HASHING_EMBEDDING_MODEL) {
+    return hashingEmbeddingProvider;
+  }
+
+  const { createTransformersEmbeddingProvider } = await import("./transformers-embeddings");
+  return createTransformersEmbeddingProvider({ ...options, model });
+}
+
+/**
+ * Embed a query with the provider that built the index.
+ */
+export async function embedQuery(
+  text: string,
+  index: Pick<EmbeddingIndex, "model">,
+  provider?: EmbeddingProvider
+): Promise<number[]> {
+  const model = getEmbeddingModel(index);
+  if (provider && provider.id !== model) {
+    throw new Error(`Embedding provider "${provider.id}" does not match index model "${model}".`);
+  }
+
+  const [embedding] = await (provider ?? (await loadEmbeddingProvider(model))).embed([text]);
+  return embedding;
+}
+
+/**
+ * Rank index entries against a text query embedded with the index's model.
+ */
+export async function searchEmbeddings(
+  query: string,
+  index: Pick<EmbeddingIndex, "model" | "entries">,
+  options: {
+    /** Subset of the index to search (default: all entries) */
+    entries?: EmbeddingEntry[];
+    topK?: number;
+    provider?: EmbeddingProvider;
+  } = {}
+): Promise<EmbeddingMatch[]> {
+  const queryEmbedding = await embedQuery(query, index, options.provider);
+  return findSimilar(queryEmbedding, options.entries ?? index.entries, options.topK);
+}
+
 export async function loadEmbeddings(url: string = "/embeddings.json"): Promise<EmbeddingIndex> {
   const response = await fetch(url);
   if (!response.ok) {
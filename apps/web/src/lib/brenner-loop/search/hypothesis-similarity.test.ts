@@ -8,6 +8,7 @@ import { describe, it, expect } from "vitest";
 import {
   hypothesisToSearchText,
   embedHypothesis,
+  embedHypotheses,
   cardToIndexed,
   domainSimilarity,
   computeSimilarity,
@@ -15,10 +16,12 @@ import {
   searchHypothesesByText,
   clusterSimilarHypotheses,
   findDuplicates,
+  findDuplicatesWithProvider,
   getSimilarityStats,
   type IndexedHypothesis,
 } from "./hypothesis-similarity";
 import type { HypothesisCard } from "../hypothesis";
+import type { EmbeddingProvider } from "./embeddings";
 
 // ============================================================================
 // Test Fixtures
@@ -733,3 +736,60 @@ describe("storageToIndexedBatch", () => {
     expect(indexed).toEqual([]);
   });
 });
+
+// ============================================================================
+// Provider Embeddings
+// ============================================================================
+
+describe("embedHypotheses", () => {
+  // Maps texts about screens/phones and about social media onto the same axis,
+  // standing in for a model that understands paraphrase.
+  const topicProvider: EmbeddingProvider = {
+    id: "test/topic",
+    dimension: 2,
+    embed: async (texts) =>
+      texts.map((text) => (/screen|phone|social|feed/i.test(text) ? [1, 0] : [0, 1])),
+  };
+
+  const paraphrase = createTestHypothesis(
+    "H9",
+    "Teens who scroll phone feeds become more depressed from comparing themselves to peers",
+    "Feeds of curated peer lives lower self-worth",
+    ["psychology", "social-media"],
+    "RS-009"
+  );
+
+  it("attaches provider vectors without mutating the input", async () => {
+    const [embedded] = await embedHypotheses([socialMediaHypothesis], topicProvider);
+
+    expect(embedded.embeddingModel).toBe("test/topic");
+    expect(embedded.statementEmbedding).toEqual([1, 0]);
+    expect(embedded.mechanismEmbedding).toEqual([1, 0]);
+    expect(embedded.embedding).toEqual([1, 0]);
+    expect(socialMediaHypothesis.embeddingModel).toBeUndefined();
+  });
+
+  it("matches paraphrases that hashing misses", async () => {
+    const hashed = computeSimilarity(socialMediaHypothesis, paraphrase);
+    const [query, candidate] = await embedHypotheses([socialMediaHypothesis, paraphrase], topicProvider);
+    const embedded = computeSimilarity(query, candidate);
+
+    expect(embedded.breakdown.statement).toBeCloseTo(1, 5);
+    expect(embedded.score).toBeGreaterThan(hashed.score);
+    expect(findDuplicates([query, candidate], 0.9)).toHaveLength(1);
+  });
+
+  it("finds paraphrased duplicates with a provider", async () => {
+    expect(findDuplicates([socialMediaHypothesis, paraphrase], 0.9)).toHaveLength(0);
+
+    const duplicates = await findDuplicatesWithProvider([socialMediaHypothesis, paraphrase], topicProvider, 0.9);
+    expect(duplicates.map((d) => d.pair.map((h) => h.id))).toEqual([["H1", "H9"]]);
+  });
+
+  it("falls back to hashing when models differ", async () => {
+    const [query] = await embedHypotheses([socialMediaHypothesis], topicProvider);
+    const match = computeSimilarity(query, paraphrase);
+
+    expect(match.score).toBeCloseTo(computeSimilarity(socialMediaHypothesis, paraphrase).score, 10);
+  });
+});
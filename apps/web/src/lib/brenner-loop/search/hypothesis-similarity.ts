@@ -6,14 +6,21 @@
  * surface relevant prior research.
  *
  * Uses the existing hash-based embedding infrastructure for client-side
- * similarity computation without external API calls.
+ * similarity computation without external API calls. Hypotheses embedded
+ * with another `EmbeddingProvider` (see `embedHypotheses`) are compared
+ * using those vectors instead, which catches paraphrases.
  *
  * @see brenner_bot-c2u8 (bead)
  * @see brenner_bot-ukd1 (parent epic: Semantic Search & Intelligence)
  * @module brenner-loop/search/hypothesis-similarity
  */
 
-import { embedText, cosineSimilarity, EMBEDDING_DIMENSION } from "./embeddings";
+import {
+  embedText,
+  cosineSimilarity,
+  EMBEDDING_DIMENSION,
+  type EmbeddingProvider,
+} from "./embeddings";
 import type { HypothesisCard } from "../hypothesis";
 import type { Hypothesis } from "../../schemas/hypothesis";
 
@@ -50,6 +57,15 @@ export interface IndexedHypothesis {
   /** Pre-computed embedding vector */
   embedding?: number[];
 
+  /** Provider model behind the pre-computed vectors (absent = hashing) */
+  embeddingModel?: string;
+
+  /** Pre-computed statement vector from `embeddingModel` */
+  statementEmbedding?: number[];
+
+  /** Pre-computed mechanism vector from `embeddingModel` */
+  mechanismEmbedding?: number[];
+
   /** Optional timestamp for recency weighting */
   createdAt?: string;
 }
@@ -150,6 +166,51 @@ export function embedHypothesis(hypothesis: IndexedHypothesis): number[] {
   return embedding;
 }
 
+/**
+ * Embed hypotheses with an embedding provider.
+ *
+ * Returns copies carrying statement, mechanism and content vectors tagged
+ * with the provider's model. Hypotheses are only compared on these vectors
+ * when both sides come from the same model.
+ */
+export async function embedHypotheses(
+  hypotheses: IndexedHypothesis[],
+  provider: EmbeddingProvider
+): Promise<IndexedHypothesis[]> {
+  if (hypotheses.length === 0) return [];
+
+  const texts = hypotheses.flatMap((h) => [
+    hypothesisToSearchText(h),
+    h.statement,
+    h.mechanism || "",
+  ]);
+  const vectors = await provider.embed(texts);
+
+  return hypotheses.map((h, i) => ({
+    ...h,
+    embeddingModel: provider.id,
+    embedding: vectors[i * 3],
+    statementEmbedding: vectors[i * 3 + 1],
+    mechanismEmbedding: vectors[i * 3 + 2],
+  }));
+}
+
+function hasProviderEmbeddings(query: IndexedHypothesis, candidate: IndexedHypothesis): boolean {
+  return (
+    query.embeddingModel !== undefined &&
+    query.embeddingModel === candidate.embeddingModel &&
+    query.statementEmbedding !== undefined &&
+    candidate.statementEmbedding !== undefined
+  );
+}
+
+function hashedContentEmbedding(hypothesis: IndexedHypothesis): number[] {
+  // `embedding` holds provider vectors when a model is set; don't mix them with hashing
+  return hypothesis.embeddingModel
+    ? embedText(hypothesisToSearchText(hypothesis), EMBEDDING_DIMENSION)
+    : embedHypothesis(hypothesis);
+}
+
 /**
  * Convert a HypothesisCard to IndexedHypothesis for similarity search.
  *
@@ -239,22 +300,27 @@ export function computeSimilarity(
 ): SimilarityMatch {
   const cfg = { ...DEFAULT_CONFIG, ...config };
 
+  // Use provider vectors when both sides share a model; otherwise hash
+  const useProvider = hasProviderEmbeddings(query, candidate);
+
   // Compute individual similarities
-  const queryStatementEmbed = embedText(query.statement, EMBEDDING_DIMENSION);
-  const candidateStatementEmbed = embedText(
-    candidate.statement,
-    EMBEDDING_DIMENSION
-  );
+  const queryStatementEmbed = useProvider
+    ? query.statementEmbedding!
+    : embedText(query.statement, EMBEDDING_DIMENSION);
+  const candidateStatementEmbed = useProvider
+    ? candidate.statementEmbedding!
+    : embedText(candidate.statement, EMBEDDING_DIMENSION);
   const statementSim = cosineSimilarity(
     queryStatementEmbed,
     candidateStatementEmbed
   );
 
-  const queryMechEmbed = embedText(query.mechanism || "", EMBEDDING_DIMENSION);
-  const candidateMechEmbed = embedText(
-    candidate.mechanism || "",
-    EMBEDDING_DIMENSION
-  );
+  const queryMechEmbed =
+    (useProvider ? query.mechanismEmbedding : undefined) ??
+    embedText(query.mechanism || "", EMBEDDING_DIMENSION);
+  const candidateMechEmbed =
+    (useProvider ? candidate.mechanismEmbedding : undefined) ??
+    embedText(candidate.mechanism || "", EMBEDDING_DIMENSION);
   const mechanismSim =
     query.mechanism && candidate.mechanism
       ? cosineSimilarity(queryMechEmbed, candidateMechEmbed)
@@ -263,8 +329,12 @@ export function computeSimilarity(
   const domainSim = domainSimilarity(query.domain, candidate.domain);
 
   // Full content similarity (for combined signal)
-  const queryEmbed = embedHypothesis(query);
-  const candidateEmbed = embedHypothesis(candidate);
+  const queryEmbed = useProvider && query.embedding
+    ? query.embedding
+    : hashedContentEmbedding(query);
+  const candidateEmbed = useProvider && candidate.embedding
+    ? candidate.embedding
+    : hashedContentEmbedding(candidate);
   const contentSim = cosineSimilarity(queryEmbed, candidateEmbed);
 
   // Weighted score
@@ -474,6 +544,25 @@ export function findDuplicates(
   return duplicates.sort((a, b) => b.score - a.score);
 }
 
+/**
+ * Find potential duplicate hypotheses using an embedding provider's vectors.
+ *
+ * Embeds every hypothesis with the provider first, so paraphrases that share
+ * few tokens still pair up.
+ *
+ * @param hypotheses - Hypotheses to check for duplicates
+ * @param provider - Provider to embed the hypotheses with
+ * @param threshold - Similarity threshold for duplicate (default: 0.8)
+ * @returns Array of duplicate pairs with similarity scores
+ */
+export async function findDuplicatesWithProvider(
+  hypotheses: IndexedHypothesis[],
+  provider: EmbeddingProvider,
+  threshold: number = 0.8
+): Promise<Array<{ pair: [IndexedHypothesis, IndexedHypothesis]; score: number }>> {
+  return findDuplicates(await embedHypotheses(hypotheses, provider), threshold);
+}
+
 // ============================================================================
 // Statistics
 // ============================================================================
@@ -8,11 +8,25 @@
 
 // Embeddings
 export {
+  type EmbeddingProvider,
   embedText,
   cosineSimilarity,
   EMBEDDING_DIMENSION,
+  HASHING_EMBEDDING_MODEL,
+  hashingEmbeddingProvider,
+  getEmbeddingModel,
+  loadEmbeddingProvider,
+  embedQuery,
+  searchEmbeddings,
 } from "./embeddings";
 
+// Local sentence-transformer provider
+export {
+  type TransformersEmbeddingOptions,
+  DEFAULT_TRANSFORMERS_MODEL,
+  createTransformersEmbeddingProvider,
+} from "./transformers-embeddings";
+
 // Hypothesis Similarity
 export {
   // Types
@@ -22,6 +36,7 @@ export {
   // Embedding helpers
   hypothesisToSearchText,
   embedHypothesis,
+  embedHypotheses,
   cardToIndexed,
   // Domain similarity
   domainSimilarity,
@@ -32,6 +47,7 @@ export {
   searchHypothesesByText,
   clusterSimilarHypotheses,
   findDuplicates,
+  findDuplicatesWithProvider,
   getSimilarityStats,
   // Storage integration
   storageToIndexed,
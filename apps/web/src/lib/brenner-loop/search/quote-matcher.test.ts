@@ -1,5 +1,5 @@
 import { describe, expect, it } from "vitest";
-import type { EmbeddingEntry } from "./embeddings";
+import type { EmbeddingEntry, EmbeddingProvider } from "./embeddings";
 import type { HypothesisCard } from "../hypothesis";
 import {
   buildQuoteQueryText,
@@ -269,8 +269,8 @@ describe("findRelevantQuotes", () => {
     },
   ];
 
-  it("returns ranked quotes with scores", () => {
-    const results = findRelevantQuotes(testHypothesis, "level_split", testEntries);
+  it("returns ranked quotes with scores", async () => {
+    const results = await findRelevantQuotes(testHypothesis, "level_split", testEntries);
 
     expect(results.length).toBeGreaterThan(0);
     for (const r of results) {
@@ -280,20 +280,20 @@ describe("findRelevantQuotes", () => {
     }
   });
 
-  it("respects resultLimit option", () => {
-    const results = findRelevantQuotes(testHypothesis, "level_split", testEntries, {
+  it("respects resultLimit option", async () => {
+    const results = await findRelevantQuotes(testHypothesis, "level_split", testEntries, {
       resultLimit: 1,
     });
 
     expect(results.length).toBeLessThanOrEqual(1);
   });
 
-  it("returns empty array for empty entries", () => {
-    const results = findRelevantQuotes(testHypothesis, "level_split", []);
+  it("returns empty array for empty entries", async () => {
+    const results = await findRelevantQuotes(testHypothesis, "level_split", []);
     expect(results).toHaveLength(0);
   });
 
-  it("returns empty array for hypothesis with no content", () => {
+  it("returns empty array for hypothesis with no content", async () => {
     const emptyHypothesis: HypothesisCard = {
       id: "HC-EMPTY-001-v1",
       version: 1,
@@ -310,13 +310,13 @@ describe("findRelevantQuotes", () => {
       updatedAt: new Date(),
     };
 
-    const results = findRelevantQuotes(emptyHypothesis, "level_split", testEntries);
+    const results = await findRelevantQuotes(emptyHypothesis, "level_split", testEntries);
     expect(results).toHaveLength(0);
   });
 
-  it("applies semantic weight correctly", () => {
+  it("applies semantic weight correctly", async () => {
     // With high semantic weight (0.9), semantic score should dominate
-    const highSemanticResults = findRelevantQuotes(
+    const highSemanticResults = await findRelevantQuotes(
       testHypothesis,
       "level_split",
       testEntries,
@@ -324,7 +324,7 @@ describe("findRelevantQuotes", () => {
     );
 
     // With low semantic weight (0.1), operator relevance should dominate
-    const lowSemanticResults = findRelevantQuotes(
+    const lowSemanticResults = await findRelevantQuotes(
       testHypothesis,
       "level_split",
       testEntries,
@@ -335,5 +335,27 @@ describe("findRelevantQuotes", () => {
     expect(highSemanticResults.length).toBeGreaterThan(0);
     expect(lowSemanticResults.length).toBeGreaterThan(0);
   });
+
+  it("embeds the query with the index's provider", async () => {
+    const embedded: string[] = [];
+    const provider: EmbeddingProvider = {
+      id: "test/fixed",
+      dimension: 384,
+      embed: async (texts) => {
+        embedded.push(...texts);
+        return texts.map(() => makeEmbedding(3));
+      },
+    };
+
+    const results = await findRelevantQuotes(testHypothesis, "level_split", testEntries, {
+      index: { model: "test/fixed" },
+      provider,
+      semanticWeight: 1,
+    });
+
+    expect(embedded).toHaveLength(1);
+    expect(embedded[0]).toContain(testHypothesis.statement);
+    expect(results[0]?.quote).toContain("General advice");
+  });
 });
 
@@ -14,7 +14,13 @@
 import type { Quote } from "@/lib/quotebank-parser";
 import type { HypothesisCard } from "../hypothesis";
 import type { OperatorType } from "../operators/framework";
-import { findSimilar, type EmbeddingEntry } from "./embeddings";
+import {
+  embedQuery,
+  findSimilar,
+  type EmbeddingEntry,
+  type EmbeddingIndex,
+  type EmbeddingProvider,
+} from "./embeddings";
 
 // ============================================================================
 // Parsing / conversion
@@ -85,7 +91,7 @@ export function filterQuoteEntriesByTags(entries: EmbeddingEntry[], tags: string
   return tagged.length > 0 ? tagged : entries;
 }
 
-export function findSimilarQuotes(query: string, entries: EmbeddingEntry[], topK: number = 3): Quote[] {
+export function findSimilarQuotes(query: string | number[], entries: EmbeddingEntry[], topK: number = 3): Quote[] {
   return findSimilar(query, entries, topK).map(embeddingEntryToQuote);
 }
 
@@ -144,6 +150,26 @@ export const OPERATOR_QUOTE_KEYWORDS: Record<OperatorType, string[]> = {
     "constraint", "limit", "bound", "maximum", "minimum",
     "back of envelope", "rough calculation", "sanity check",
   ],
+  paradox_hunt: [
+    "paradox", "contradict", "contradiction", "conflict", "inconsisten",
+    "cannot both", "puzzle", "impossible", "resolve", "resolution",
+    "missing", "hidden", "beacon", "tension", "anomal",
+  ],
+  invariant_extract: [
+    "invariant", "constraint", "conserv", "topolog", "symmetr",
+    "combinator", "must hold", "regardless", "structure", "logic",
+    "order", "phase", "count", "forbid", "universal",
+  ],
+  exception_quarantine: [
+    "exception", "anomal", "appendix", "noise", "signal",
+    "outlier", "carpet", "occam", "broom", "special case",
+    "conceal", "coherent", "house of cards", "don't worry",
+  ],
+  theory_kill: [
+    "kill", "discard", "abandon", "wrong", "refute",
+    "ruthless", "darling", "mistress", "ugly", "fall in love",
+    "give up", "obsolete", "contradict", "falsif", "replace",
+  ],
 };
 
 /**
@@ -197,11 +223,15 @@ export function computeOperatorRelevance(quote: Quote, operator: OperatorType):
  * @param options - Configuration options
  * @returns Ranked quotes sorted by combined score
  */
-export function findRelevantQuotes(
+export async function findRelevantQuotes(
   hypothesis: HypothesisCard,
   operator: OperatorType,
   entries: EmbeddingEntry[],
   options: {
+    /** Index the entries come from; the query is embedded with its model (default: hashing) */
+    index?: Pick<EmbeddingIndex, "model">;
+    /** Provider for the index's model, if already loaded */
+    provider?: EmbeddingProvider;
     /** How many candidate quotes to consider (default: 20) */
     candidateLimit?: number;
     /** How many results to return (default: 5) */
@@ -209,8 +239,10 @@ export function findRelevantQuotes(
     /** Weight for semantic score vs operator relevance (default: 0.6) */
     semanticWeight?: number;
   } = {}
-): RankedQuote[] {
+): Promise<RankedQuote[]> {
   const {
+    index = {},
+    provider,
     candidateLimit = 20,
     resultLimit = 5,
     semanticWeight = 0.6,
@@ -228,7 +260,8 @@ export function findRelevantQuotes(
   }
 
   // Get semantic candidates (more than we need, to allow reranking)
-  const candidates = findSimilar(queryText, entries, candidateLimit);
+  const queryEmbedding = await embedQuery(queryText, index, provider);
+  const candidates = findSimilar(queryEmbedding, entries, candidateLimit);
 
   // Convert and score each candidate
   const rankedQuotes: RankedQuote[] = candidates.map((entry, index) => {
@@ -0,0 +1,81 @@
+/**
+ * Tests for the sentence-transformer embedding provider.
+ *
+ * The ONNX runtime is mocked; these tests cover batching, configuration and
+ * output validation only.
+ */
+
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const mocks = vi.hoisted(() => ({
+  env: {} as Record<string, unknown>,
+  pipeline: vi.fn(),
+  calls: [] as string[][],
+  dimension: 384,
+}));
+
+vi.mock("@huggingface/transformers", () => ({
+  env: mocks.env,
+  pipeline: mocks.pipeline,
+}));
+
+import { DEFAULT_TRANSFORMERS_MODEL, createTransformersEmbeddingProvider } from "./transformers-embeddings";
+
+beforeEach(() => {
+  for (const key of Object.keys(mocks.env)) delete mocks.env[key];
+  mocks.calls = [];
+  mocks.dimension = 384;
+  mocks.pipeline.mockReset();
+  mocks.pipeline.mockResolvedValue(async (texts: string[]) => {
+    mocks.calls.push(texts);
+    return { tolist: () => texts.map(() => new Array<number>(mocks.dimension).fill(0.05)) };
+  });
+});
+
+describe("createTransformersEmbeddingProvider", () => {
+  it("uses the default model id and loads it lazily", async () => {
+    const provider = createTransformersEmbeddingProvider();
+    expect(provider.id).toBe(DEFAULT_TRANSFORMERS_MODEL);
+    expect(provider.dimension).toBe(384);
+    expect(mocks.pipeline).not.toHaveBeenCalled();
+
+    await provider.embed(["one"]);
+    await provider.embed(["two"]);
+    expect(mocks.pipeline).toHaveBeenCalledTimes(1);
+    expect(mocks.pipeline).toHaveBeenCalledWith("feature-extraction", DEFAULT_TRANSFORMERS_MODEL, { dtype: "q8" });
+  });
+
+  it("embeds in batches and preserves order", async () => {
+    const provider = createTransformersEmbeddingProvider({ batchSize: 2 });
+    const vectors = await provider.embed(["a", "b", "c"]);
+
+    expect(vectors).toHaveLength(3);
+    expect(mocks.calls).toEqual([["a", "b"], ["c"]]);
+  });
+
+  it("stays offline unless downloads are allowed", async () => {
+    await createTransformersEmbeddingProvider({ localModelPath: "/srv/models" }).embed(["a"]);
+    expect(mocks.env).toMatchObject({
+      allowLocalModels: true,
+      allowRemoteModels: false,
+      localModelPath: "/srv/models",
+    });
+
+    await createTransformersEmbeddingProvider({ allowRemoteModels: true }).embed(["a"]);
+    expect(mocks.env.allowRemoteModels).toBe(true);
+  });
+
+  it("rejects vectors of an unexpected dimension", async () => {
+    mocks.dimension = 768;
+    const provider = createTransformersEmbeddingProvider({ model: "test/large" });
+
+    await expect(provider.embed(["a"])).rejects.toThrow(
+      'Embedding model "test/large" produced 768 dimensions; expected 384.'
+    );
+  });
+
+  it("skips loading the model for empty input", async () => {
+    await expect(createTransformersEmbeddingProvider().embed([])).resolves.toEqual([]);
+    expect(mocks.pipeline).not.toHaveBeenCalled();
+  });
+});
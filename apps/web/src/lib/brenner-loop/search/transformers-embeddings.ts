@@ -0,0 +1,125 @@
+/**
+ * Sentence-transformer embeddings via ONNX on CPU.
+ *
+ * Wraps `@huggingface/transformers` as an `EmbeddingProvider`. The runtime is
+ * imported lazily so that callers using the hashing embedder never load it.
+ * Inference runs locally (WASM in the browser, native ONNX in Node); model
+ * files are read from `localModelPath` (default `/models/`) and only
+ * downloaded when `allowRemoteModels` is set.
+ *
+ * @module brenner-loop/search/transformers-embeddings
+ */
+
+import { EMBEDDING_DIMENSION, type EmbeddingProvider } from "./embeddings";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type TransformersDType = "fp32" | "fp16" | "q8" | "int8" | "uint8" | "q4";
+
+export interface TransformersEmbeddingOptions {
+  /** Hugging Face model id (default: all-MiniLM-L6-v2, 384 dimensions) */
+  model?: string;
+  /** Expected output dimension; vectors of any other length are rejected */
+  dimension?: number;
+  /** Weight precision to load (default: q8) */
+  dtype?: TransformersDType;
+  /** Directory (or URL prefix) holding local model files */
+  localModelPath?: string;
+  /** Allow downloading model files that are not available locally (default: false) */
+  allowRemoteModels?: boolean;
+  /** Filesystem cache for downloaded models (Node only) */
+  cacheDir?: string;
+  /** Texts per inference call */
+  batchSize?: number;
+}
+
+type FeatureExtractor = (
+  texts: string[],
+  options: { pooling: "mean"; normalize: boolean }
+) => Promise<{ tolist(): unknown }>;
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const DEFAULT_TRANSFORMERS_MODEL = "Xenova/all-MiniLM-L6-v2";
+
+const DEFAULT_BATCH_SIZE = 32;
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+export function createTransformersEmbeddingProvider(
+  options: TransformersEmbeddingOptions = {}
+): EmbeddingProvider {
+  const model = options.model ?? DEFAULT_TRANSFORMERS_MODEL;
+  const dimension = options.dimension ?? EMBEDDING_DIMENSION;
+  const batchSize = Math.max(1, options.batchSize ?? DEFAULT_BATCH_SIZE);
+
+  let extractor: Promise<FeatureExtractor> | null = null;
+
+  const getExtractor = (): Promise<FeatureExtractor> => {
+    if (!extractor) {
+      extractor = loadExtractor(model, options);
+      // Allow a retry after a failed load (e.g. model files missing)
+      extractor.catch(() => {
+        extractor = null;
+      });
+    }
+    return extractor;
+  };
+
+  return {
+    id: model,
+    dimension,
+    embed: async (texts) => {
+      if (texts.length === 0) return [];
+
+      const extract = await getExtractor();
+      const vectors: number[][] = [];
+
+      for (let start = 0; start < texts.length; start += batchSize) {
+        const batch = texts.slice(start, start + batchSize);
+        const output = await extract(batch, { pooling: "mean", normalize: true });
+        const rows = output.tolist() as number[][];
+
+        for (const row of rows) {
+          if (row.length !== dimension) {
+            throw new Error(
+              `Embedding model "${model}" produced ${row.length} dimensions; expected ${dimension}.`
+            );
+          }
+          vectors.push(row);
+        }
+      }
+
+      return vectors;
+    },
+  };
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+async function loadExtractor(
+  model: string,
+  options: TransformersEmbeddingOptions
+): Promise<FeatureExtractor> {
+  const { env, pipeline } = await import("@huggingface/transformers");
+
+  env.allowLocalModels = true;
+  env.allowRemoteModels = options.allowRemoteModels ?? false;
+  if (options.localModelPath !== undefined) {
+    env.localModelPath = options.localModelPath;
+  }
+  if (options.cacheDir !== undefined) {
+    env.cacheDir = options.cacheDir;
+  }
+
+  const extractor = await pipeline("feature-extraction", model, { dtype: options.dtype ?? "q8" });
+  return extractor as unknown as FeatureExtractor;
+}
@@ -0,0 +1,236 @@
+/**
+ * Brenner Loop Server Session Storage
+ *
+ * SessionStorage implementation backed by the lab-mode `/api/sessions/store`
+ * route, which persists sessions as files under the project key. Revisions
+ * seen on load/list/save are remembered so the next save can be rejected
+ * with a CONFLICT StorageError if another tab or machine wrote first.
+ *
+ * Also provides the one-shot migration from localStorage sessions.
+ *
+ * @module brenner-loop/server-storage
+ */
+
+import type { Session } from "./types";
+import {
+  StorageError,
+  migrateSession,
+  type SessionStorage,
+  type SessionSummary,
+  type StorageStats,
+} from "./storage";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Default endpoint for the server session store */
+export const SERVER_SESSION_STORE_ENDPOINT = "/api/sessions/store";
+
+export interface ServerSessionStorageOptions {
+  /** Endpoint URL (defaults to /api/sessions/store) */
+  endpoint?: string;
+  /** Project key to store under (defaults to the server's BRENNER_PROJECT_KEY) */
+  projectKey?: string;
+  /** fetch implementation (defaults to global fetch) */
+  fetchImpl?: typeof fetch;
+}
+
+interface StoreRecord {
+  revision: number;
+  updatedAt: string;
+  session: Session;
+}
+
+interface StoreErrorBody {
+  success: false;
+  error: string;
+  code: string;
+  current?: StoreRecord | null;
+}
+
+/**
+ * Outcome of copying localStorage sessions to the server.
+ */
+export interface SessionMigrationReport {
+  /** Sessions written to the server */
+  migrated: string[];
+  /** Sessions the server already had at the same or a newer updatedAt */
+  skipped: string[];
+  /** Sessions that could not be copied */
+  failed: Array<{ id: string; error: string }>;
+}
+
+// ============================================================================
+// Implementation
+// ============================================================================
+
+/**
+ * SessionStorage that talks to the server-side session store.
+ */
+export class ServerSessionStorage implements SessionStorage {
+  private readonly endpoint: string;
+  private readonly projectKey?: string;
+  private readonly fetchImpl: typeof fetch;
+  private readonly revisions = new Map<string, number>();
+
+  constructor(options: ServerSessionStorageOptions = {}) {
+    this.endpoint = options.endpoint ?? SERVER_SESSION_STORE_ENDPOINT;
+    this.projectKey = options.projectKey;
+    this.fetchImpl = options.fetchImpl ?? ((input, init) => fetch(input, init));
+  }
+
+  /**
+   * Revision last seen for a session (0 if it has never been read or written).
+   */
+  revisionOf(sessionId: string): number {
+    return this.revisions.get(sessionId) ?? 0;
+  }
+
+  private url(params: Record<string, string | undefined>): string {
+    const query = new URLSearchParams();
+    if (this.projectKey) query.set("projectKey", this.projectKey);
+    for (const [key, value] of Object.entries(params)) {
+      if (value !== undefined) query.set(key, value);
+    }
+    const suffix = query.toString();
+    return suffix ? `${this.endpoint}?${suffix}` : this.endpoint;
+  }
+
+  private async request<T>(url: string, init?: RequestInit): Promise<{ status: number; body: T | StoreErrorBody }> {
+    let response: Response;
+    try {
+      response = await this.fetchImpl(url, init);
+    } catch (error) {
+      throw new StorageError("Session store is unreachable", "UNKNOWN_ERROR", error);
+    }
+
+    try {
+      return { status: response.status, body: (await response.json()) as T | StoreErrorBody };
+    } catch (error) {
+      throw new StorageError(`Session store returned invalid JSON (HTTP ${response.status})`, "CORRUPTED_DATA", error);
+    }
+  }
+
+  private toError(body: StoreErrorBody, sessionId?: string): StorageError {
+    if (body.code === "CONFLICT") {
+      if (sessionId) {
+        if (body.current) this.revisions.set(sessionId, body.current.revision);
+        else this.revisions.delete(sessionId);
+      }
+      return new StorageError(body.error, "CONFLICT", body.current ?? null);
+    }
+    if (body.code === "NOT_FOUND") return new StorageError(body.error, "SESSION_NOT_FOUND");
+    if (body.code === "VALIDATION_ERROR") return new StorageError(body.error, "SERIALIZATION_ERROR");
+    return new StorageError(body.error || "Session store request failed", "UNKNOWN_ERROR");
+  }
+
+  async save(session: Session): Promise<void> {
+    const { body } = await this.request<{ success: true; revision: number }>(this.endpoint, {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        projectKey: this.projectKey,
+        session,
+        expectedRevision: this.revisionOf(session.id),
+      }),
+    });
+    if (!body.success) throw this.toError(body, session.id);
+    this.revisions.set(session.id, body.revision);
+  }
+
+  async load(sessionId: string): Promise<Session | null> {
+    const { status, body } = await this.request<{ success: true; record: StoreRecord }>(this.url({ id: sessionId }));
+    if (!body.success) {
+      if (status === 404 && body.code === "NOT_FOUND") {
+        this.revisions.delete(sessionId);
+        return null;
+      }
+      throw this.toError(body, sessionId);
+    }
+    this.revisions.set(sessionId, body.record.revision);
+    // Records written before a schema bump come back at their old version
+    return migrateSession(body.record.session);
+  }
+
+  private async fetchList(): Promise<{ sessions: Array<SessionSummary & { revision: number }>; stats: StorageStats }> {
+    const { body } = await this.request<{
+      success: true;
+      sessions: Array<SessionSummary & { revision: number }>;
+      stats: StorageStats;
+    }>(this.url({}));
+    if (!body.success) throw this.toError(body);
+    for (const summary of body.sessions) this.revisions.set(summary.id, summary.revision);
+    return body;
+  }
+
+  async list(): Promise<SessionSummary[]> {
+    const { sessions } = await this.fetchList();
+    return sessions.map((summary) => {
+      const copy: SessionSummary & { revision?: number } = { ...summary };
+      delete copy.revision;
+      return copy;
+    });
+  }
+
+  async delete(sessionId: string): Promise<void> {
+    const { body } = await this.request<{ success: true }>(this.url({ id: sessionId }), { method: "DELETE" });
+    if (!body.success) throw this.toError(body, sessionId);
+    this.revisions.delete(sessionId);
+  }
+
+  async clear(): Promise<void> {
+    const { sessions } = await this.fetchList();
+    for (const summary of sessions) {
+      await this.delete(summary.id);
+    }
+  }
+
+  async stats(): Promise<StorageStats> {
+    return (await this.fetchList()).stats;
+  }
+}
+
+// ============================================================================
+// Migration
+// ============================================================================
+
+/**
+ * Copy every session from one storage to another (typically localStorage →
+ * server). A session is only written when the target has no copy or an older
+ * one, so re-running the migration is safe. The source is left untouched.
+ */
+export async function migrateSessions(
+  source: SessionStorage,
+  target: ServerSessionStorage
+): Promise<SessionMigrationReport> {
+  const report: SessionMigrationReport = { migrated: [], skipped: [], failed: [] };
+
+  const targetUpdatedAt = new Map<string, string>();
+  for (const summary of await target.list()) {
+    targetUpdatedAt.set(summary.id, summary.updatedAt);
+  }
+
+  for (const summary of await source.list()) {
+    try {
+      const session = await source.load(summary.id);
+      if (!session) {
+        report.failed.push({ id: summary.id, error: "Session data missing" });
+        continue;
+      }
+
+      const existing = targetUpdatedAt.get(session.id);
+      if (existing && new Date(existing).getTime() >= new Date(session.updatedAt).getTime()) {
+        report.skipped.push(session.id);
+        continue;
+      }
+
+      await target.save(session);
+      report.migrated.push(session.id);
+    } catch (error) {
+      report.failed.push({ id: summary.id, error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  return report;
+}
@@ -10,6 +10,7 @@
  * - Hydration from storage on mount
  * - Loading/error state handling
  * - Cross-tab synchronization
+ * - Optional multi-user collaboration through the session relay
  *
  * @see brenner_bot-1v26.3 (bead)
  * @module brenner-loop/session-context
@@ -25,6 +26,7 @@ import React, {
   useCallback,
   useMemo,
   useRef,
+  useState,
   type ReactNode,
 } from "react";
 
@@ -37,6 +39,10 @@ import type {
   ExclusionTestResult,
   ObjectTransposeResult,
   ScaleCheckResult,
+  ParadoxHuntResult,
+  InvariantExtractResult,
+  ExceptionQuarantineResult,
+  TheoryKillResult,
 } from "./types";
 import {
   createSession,
@@ -44,7 +50,18 @@ import {
   generateSessionId,
   isValidTransition,
 } from "./types";
-import { sessionStorage, onStorageChange, StorageError } from "./storage";
+import { onStorageChange, StorageError } from "./storage";
+import { getSessionStorage } from "./session-storage-backend";
+import { createTemplateSettings, type SessionTemplate } from "./session-templates";
+import {
+  applyCollabOps,
+  createCollabDocument,
+  recordLocalChanges,
+  type CollabDocument,
+  type CollabOp,
+  type CollaboratorPresence,
+} from "./collaboration";
+import { SessionRelayClient, type CollaborationStatus } from "./collaboration-client";
 
 // ============================================================================
 // Types
@@ -69,10 +86,19 @@ export interface SessionContextValue {
   /** Current save status for UI feedback */
   saveState: SaveState;
 
+  /** Collaborators currently in this session (empty when not collaborating) */
+  collaborators: CollaboratorPresence[];
+
+  /** Relay connection state (null when not collaborating) */
+  collaborationStatus: CollaborationStatus | null;
+
   // === Session Actions ===
 
-  /** Create a new session with an initial hypothesis statement */
-  createNewSession(initialHypothesis: string): Promise<Session>;
+  /**
+   * Create a new session with an initial hypothesis statement.
+   * A template with an operator chain starts that chain on the dashboard.
+   */
+  createNewSession(initialHypothesis: string, template?: SessionTemplate): Promise<Session>;
 
   /** Load an existing session by ID */
   loadSession(id: string): Promise<void>;
@@ -80,6 +106,12 @@ export interface SessionContextValue {
   /** Explicitly save the current session */
   saveSession(): Promise<void>;
 
+  /**
+   * Settle a save rejected because the session changed elsewhere: keep the
+   * local edits (overwriting the stored copy) or load the stored copy.
+   */
+  resolveSaveConflict(resolution: "keep_local" | "use_stored"): Promise<void>;
+
   /** Close the current session (unloads from context) */
   closeSession(): void;
 
@@ -110,7 +142,15 @@ export interface SessionContextValue {
   /** Append an operator result to this session */
   appendOperatorApplication(
     operator: keyof Session["operatorApplications"],
-    result: LevelSplitResult | ExclusionTestResult | ObjectTransposeResult | ScaleCheckResult
+    result:
+      | LevelSplitResult
+      | ExclusionTestResult
+      | ObjectTransposeResult
+      | ScaleCheckResult
+      | ParadoxHuntResult
+      | InvariantExtractResult
+      | ExceptionQuarantineResult
+      | TheoryKillResult
   ): void;
 
   // === Phase Actions ===
@@ -134,7 +174,8 @@ export interface SessionContextValue {
 }
 
 export interface SaveState {
-  status: "idle" | "saving" | "saved" | "error";
+  /** "conflict": the stored copy changed since it was loaded; autosave pauses */
+  status: "idle" | "saving" | "saved" | "error" | "conflict";
   lastSavedAt?: string;
   error?: Error;
 }
@@ -148,6 +189,18 @@ interface SessionState {
   error: Error | null;
   isDirty: boolean;
   saveState: SaveState;
+  collab: CollabState | null;
+}
+
+/**
+ * Collaboration bookkeeping: the merge document holds the session as last
+ * recorded or merged; edits since then are turned into operations and queued
+ * in the outbox until handed to the relay client.
+ */
+interface CollabState {
+  actor: string;
+  document: CollabDocument;
+  outbox: CollabOp[];
 }
 
 /**
@@ -165,7 +218,12 @@ type SessionAction =
   | { type: "SAVE_ERROR"; error: Error }
   | { type: "UPDATE_SESSION"; session: Session }
   | { type: "APPLY_SESSION_UPDATE"; update: (session: Session) => Session }
-  | { type: "MARK_DIRTY" };
+  | { type: "MARK_DIRTY" }
+  | { type: "COLLAB_START"; actor: string }
+  | { type: "COLLAB_STOP" }
+  | { type: "COLLAB_RECORD" }
+  | { type: "COLLAB_SENT"; count: number }
+  | { type: "REMOTE_OPS"; ops: CollabOp[] };
 
 // ============================================================================
 // Reducer
@@ -177,8 +235,18 @@ const initialState: SessionState = {
   error: null,
   isDirty: false,
   saveState: { status: "idle" },
+  collab: null,
 };
 
+/**
+ * Turn unrecorded local edits into queued operations.
+ */
+function recordPending(collab: CollabState, session: Session): CollabState {
+  if (collab.document.session === session) return collab;
+  const { document, ops } = recordLocalChanges(collab.document, session, collab.actor);
+  return { ...collab, document, outbox: [...collab.outbox, ...ops] };
+}
+
 function sessionReducer(state: SessionState, action: SessionAction): SessionState {
   switch (action.type) {
     case "LOADING":
@@ -188,6 +256,7 @@ function sessionReducer(state: SessionState, action: SessionAction): SessionStat
       return {
         ...state,
         session: action.session,
+        collab: state.session?.id === action.session.id ? state.collab : null,
         isLoading: false,
         error: null,
         isDirty: false,
@@ -201,6 +270,7 @@ function sessionReducer(state: SessionState, action: SessionAction): SessionStat
       return {
         ...state,
         session: action.session,
+        collab: null,
         isLoading: false,
         error: null,
         isDirty: true, // New session needs to be saved
@@ -241,7 +311,8 @@ function sessionReducer(state: SessionState, action: SessionAction): SessionStat
       return {
         ...state,
         saveState: {
-          status: "error",
+          status:
+            action.error instanceof StorageError && action.error.code === "CONFLICT" ? "conflict" : "error",
           error: action.error,
         },
       };
@@ -264,6 +335,35 @@ function sessionReducer(state: SessionState, action: SessionAction): SessionStat
     case "MARK_DIRTY":
       return { ...state, isDirty: true };
 
+    case "COLLAB_START":
+      if (!state.session) return state;
+      return {
+        ...state,
+        collab: { actor: action.actor, document: createCollabDocument(state.session), outbox: [] },
+      };
+
+    case "COLLAB_STOP":
+      return { ...state, collab: null };
+
+    case "COLLAB_RECORD":
+      if (!state.collab || !state.session) return state;
+      return { ...state, collab: recordPending(state.collab, state.session) };
+
+    case "COLLAB_SENT":
+      if (!state.collab) return state;
+      return { ...state, collab: { ...state.collab, outbox: state.collab.outbox.slice(action.count) } };
+
+    case "REMOTE_OPS": {
+      if (!state.collab || !state.session) return state;
+      // Record local edits first so they are stamped and never lost to the merge
+      const collab = recordPending(state.collab, state.session);
+      const document = applyCollabOps(collab.document, action.ops);
+      if (document.session === collab.document.session) {
+        return { ...state, collab: { ...collab, document } };
+      }
+      return { ...state, session: document.session, isDirty: true, collab: { ...collab, document } };
+    }
+
     default:
       return state;
   }
@@ -327,6 +427,20 @@ interface SessionProviderProps {
   initialSessionId?: string;
   /** Optional callback when session changes */
   onSessionChange?: (session: Session | null) => void;
+  /** Join the session relay as this collaborator */
+  collaboration?: SessionCollaborationOptions;
+}
+
+/**
+ * Identity and relay used for multi-user editing.
+ */
+export interface SessionCollaborationOptions {
+  /** Stable id for this person (also scopes their undo history) */
+  actor: string;
+  /** Display name shown to collaborators */
+  name: string;
+  /** Relay endpoint (defaults to /api/realtime/sessions) */
+  endpoint?: string;
 }
 
 /**
@@ -335,15 +449,20 @@ interface SessionProviderProps {
  * Features:
  * - Auto-saves changes to localStorage (debounced)
  * - Syncs across browser tabs
+ * - Merges edits from collaborators when `collaboration` is set
  * - Handles loading and error states
  */
 export function SessionProvider({
   children,
   initialSessionId,
   onSessionChange,
+  collaboration,
 }: SessionProviderProps): React.ReactElement {
   const [state, dispatch] = useReducer(sessionReducer, initialState);
+  const [collaborators, setCollaborators] = useState<CollaboratorPresence[]>([]);
+  const [collaborationStatus, setCollaborationStatus] = useState<CollaborationStatus | null>(null);
   const saveTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const relayClientRef = useRef<SessionRelayClient | null>(null);
   const isMountedRef = useRef(true);
 
   // Track mounted state for async operations
@@ -368,7 +487,7 @@ export function SessionProvider({
       dispatch({ type: "SAVING" });
     }
     try {
-      await sessionStorage.save(session);
+      await getSessionStorage().save(session);
       if (isMountedRef.current) {
         dispatch({ type: "SAVED" });
       }
@@ -383,7 +502,7 @@ export function SessionProvider({
 
   // Debounced auto-save when session changes and is dirty
   useEffect(() => {
-    if (!state.session || !state.isDirty) {
+    if (!state.session || !state.isDirty || state.saveState.status === "conflict") {
       return;
     }
 
@@ -404,7 +523,7 @@ export function SessionProvider({
         clearTimeout(saveTimeoutRef.current);
       }
     };
-  }, [state.session, state.isDirty, performSave]);
+  }, [state.session, state.isDirty, state.saveState.status, performSave]);
 
   // -------------------------------------------------------------------------
   // Cross-Tab Sync
@@ -422,7 +541,7 @@ export function SessionProvider({
         !state.isDirty
       ) {
         try {
-          const updated = await sessionStorage.load(sessionId);
+          const updated = await getSessionStorage().load(sessionId);
           if (updated && isMountedRef.current) {
             dispatch({ type: "LOADED", session: updated });
           }
@@ -445,6 +564,64 @@ export function SessionProvider({
     return unsubscribe;
   }, [state.session?.id, state.isDirty]);
 
+  // -------------------------------------------------------------------------
+  // Collaboration
+  // -------------------------------------------------------------------------
+
+  const activeSessionId = state.session?.id;
+  const collabActor = collaboration?.actor;
+  const collabName = collaboration?.name;
+  const collabEndpoint = collaboration?.endpoint;
+
+  useEffect(() => {
+    if (!activeSessionId || !collabActor) return;
+
+    dispatch({ type: "COLLAB_START", actor: collabActor });
+    const client = new SessionRelayClient({
+      sessionId: activeSessionId,
+      actor: collabActor,
+      name: collabName ?? collabActor,
+      endpoint: collabEndpoint,
+      onOps: (ops) => {
+        if (isMountedRef.current) dispatch({ type: "REMOTE_OPS", ops });
+      },
+      onPresence: (presence) => {
+        if (isMountedRef.current) setCollaborators(presence);
+      },
+      onStatus: (status) => {
+        if (isMountedRef.current) setCollaborationStatus(status);
+      },
+    });
+    relayClientRef.current = client;
+    client.connect();
+
+    return () => {
+      client.disconnect();
+      relayClientRef.current = null;
+      dispatch({ type: "COLLAB_STOP" });
+      setCollaborators([]);
+      setCollaborationStatus(null);
+    };
+  }, [activeSessionId, collabActor, collabName, collabEndpoint]);
+
+  // Stamp local edits and hand queued operations to the relay
+  useEffect(() => {
+    if (!state.collab || !state.session) return;
+    if (state.collab.document.session !== state.session) {
+      dispatch({ type: "COLLAB_RECORD" });
+      return;
+    }
+    if (state.collab.outbox.length > 0 && relayClientRef.current) {
+      void relayClientRef.current.send(state.collab.outbox);
+      dispatch({ type: "COLLAB_SENT", count: state.collab.outbox.length });
+    }
+  }, [state.collab, state.session]);
+
+  const currentPhase = state.session?.phase;
+  useEffect(() => {
+    relayClientRef.current?.setFocus(currentPhase);
+  }, [currentPhase, collaborationStatus]);
+
   // -------------------------------------------------------------------------
   // Initial Load
   // -------------------------------------------------------------------------
@@ -452,7 +629,7 @@ export function SessionProvider({
   useEffect(() => {
     if (initialSessionId) {
       dispatch({ type: "LOADING" });
-      sessionStorage
+      getSessionStorage()
         .load(initialSessionId)
         .then((session) => {
           if (isMountedRef.current) {
@@ -482,12 +659,12 @@ export function SessionProvider({
   // -------------------------------------------------------------------------
 
   const createNewSession = useCallback(
-    async (initialHypothesis: string): Promise<Session> => {
+    async (initialHypothesis: string, template?: SessionTemplate): Promise<Session> => {
       dispatch({ type: "LOADING" });
 
       try {
         // Get existing session IDs to generate a unique one
-        const existing = await sessionStorage.list();
+        const existing = await getSessionStorage().list();
         const existingIds = existing.map((s) => s.id);
         const sessionId = generateSessionId(existingIds);
 
@@ -506,12 +683,15 @@ export function SessionProvider({
         const session = createSession({ id: sessionId });
         session.primaryHypothesisId = hypothesisId;
         session.hypothesisCards[hypothesisId] = hypothesis;
+        if (template) {
+          session.templateSettings = createTemplateSettings(template.id);
+        }
 
         // Save immediately
         if (isMountedRef.current) {
           dispatch({ type: "SAVING" });
         }
-        await sessionStorage.save(session);
+        await getSessionStorage().save(session);
 
         if (isMountedRef.current) {
           dispatch({ type: "CREATED", session });
@@ -534,7 +714,7 @@ export function SessionProvider({
     dispatch({ type: "LOADING" });
 
     try {
-      const session = await sessionStorage.load(id);
+      const session = await getSessionStorage().load(id);
       if (!session) {
         throw new StorageError(`Session not found: ${id}`, "SESSION_NOT_FOUND");
       }
@@ -560,7 +740,7 @@ export function SessionProvider({
       if (isMountedRef.current) {
         dispatch({ type: "SAVING" });
       }
-      await sessionStorage.save(state.session);
+      await getSessionStorage().save(state.session);
       if (isMountedRef.current) {
         dispatch({ type: "SAVED" });
       }
@@ -573,6 +753,16 @@ export function SessionProvider({
     }
   }, [state.session]);
 
+  const resolveSaveConflict = useCallback(
+    async (resolution: "keep_local" | "use_stored"): Promise<void> => {
+      if (!state.session) return;
+      // The rejected save already recorded the stored revision, so saving again overwrites it
+      if (resolution === "keep_local") await saveSession();
+      else await loadSession(state.session.id);
+    },
+    [state.session, saveSession, loadSession]
+  );
+
   const closeSession = useCallback((): void => {
     // Clear any pending save
     if (saveTimeoutRef.current) {
@@ -583,7 +773,7 @@ export function SessionProvider({
 
   const deleteSession = useCallback(async (id: string): Promise<void> => {
     try {
-      await sessionStorage.delete(id);
+      await getSessionStorage().delete(id);
 
       // If we deleted the current session, close it
       if (state.session?.id === id && isMountedRef.current) {
@@ -770,14 +960,26 @@ export function SessionProvider({
   const appendOperatorApplication = useCallback(
     (
       operator: keyof Session["operatorApplications"],
-      result: LevelSplitResult | ExclusionTestResult | ObjectTransposeResult | ScaleCheckResult
+      result:
+        | LevelSplitResult
+        | ExclusionTestResult
+        | ObjectTransposeResult
+        | ScaleCheckResult
+        | ParadoxHuntResult
+        | InvariantExtractResult
+        | ExceptionQuarantineResult
+        | TheoryKillResult
     ): void => {
       const operatorKey = operator;
       if (
         operatorKey !== "levelSplit" &&
         operatorKey !== "exclusionTest" &&
         operatorKey !== "objectTranspose" &&
-        operatorKey !== "scaleCheck"
+        operatorKey !== "scaleCheck" &&
+        operatorKey !== "paradoxHunt" &&
+        operatorKey !== "invariantExtract" &&
+        operatorKey !== "exceptionQuarantine" &&
+        operatorKey !== "theoryKill"
       ) {
         return;
       }
@@ -873,10 +1075,13 @@ export function SessionProvider({
       error: state.error,
       isDirty: state.isDirty,
       saveState: state.saveState,
+      collaborators,
+      collaborationStatus,
 
       createNewSession,
       loadSession,
       saveSession,
+      resolveSaveConflict,
       closeSession,
       deleteSession,
 
@@ -896,9 +1101,12 @@ export function SessionProvider({
     }),
     [
       state,
+      collaborators,
+      collaborationStatus,
       createNewSession,
       loadSession,
       saveSession,
+      resolveSaveConflict,
       closeSession,
       deleteSession,
       updateHypothesis,
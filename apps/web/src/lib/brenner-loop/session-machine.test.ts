@@ -85,6 +85,10 @@ function createTestSession(overrides: Partial<Session> = {}): Session {
       exclusionTest: [],
       objectTranspose: [],
       scaleCheck: [],
+      paradoxHunt: [],
+      invariantExtract: [],
+      exceptionQuarantine: [],
+      theoryKill: [],
     },
     predictionIds: [],
     testIds: [],
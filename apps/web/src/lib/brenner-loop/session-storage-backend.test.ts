@@ -0,0 +1,41 @@
+/**
+ * Tests for session storage backend selection.
+ */
+
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { sessionStorage } from "./storage";
+import { ServerSessionStorage } from "./server-storage";
+import {
+  getSessionStorage,
+  resolveSessionStorageBackend,
+  setSessionStorage,
+} from "./session-storage-backend";
+
+describe("session storage backend", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    setSessionStorage(null);
+  });
+
+  it("only selects the server store when configured", () => {
+    expect(resolveSessionStorageBackend(undefined)).toBe("browser");
+    expect(resolveSessionStorageBackend("indexeddb")).toBe("browser");
+    expect(resolveSessionStorageBackend(" Server ")).toBe("server");
+  });
+
+  it("uses the browser store by default and the server store when configured", () => {
+    expect(getSessionStorage()).toBe(sessionStorage);
+
+    setSessionStorage(null);
+    vi.stubEnv("NEXT_PUBLIC_BRENNER_SESSION_STORAGE", "server");
+    const server = getSessionStorage();
+    expect(server).toBeInstanceOf(ServerSessionStorage);
+    expect(getSessionStorage()).toBe(server);
+  });
+
+  it("lets callers swap the active storage", () => {
+    const custom = new ServerSessionStorage({ endpoint: "/custom" });
+    setSessionStorage(custom);
+    expect(getSessionStorage()).toBe(custom);
+  });
+});
@@ -0,0 +1,52 @@
+/**
+ * Brenner Loop Session Storage Backend
+ *
+ * Chooses where the app persists sessions. The browser store (IndexedDB, with
+ * localStorage fallback) is the default; lab deployments can set
+ * `NEXT_PUBLIC_BRENNER_SESSION_STORAGE=server` to keep sessions in the
+ * server-side store instead, shared across browsers and machines.
+ *
+ * @module brenner-loop/session-storage-backend
+ */
+
+import { sessionStorage as browserSessionStorage, type SessionStorage } from "./storage";
+import { ServerSessionStorage } from "./server-storage";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type SessionStorageBackend = "browser" | "server";
+
+// ============================================================================
+// Selection
+// ============================================================================
+
+/**
+ * Parse the configured backend; anything but "server" means the browser store.
+ */
+export function resolveSessionStorageBackend(
+  value: string | undefined = process.env.NEXT_PUBLIC_BRENNER_SESSION_STORAGE
+): SessionStorageBackend {
+  return value?.trim().toLowerCase() === "server" ? "server" : "browser";
+}
+
+let activeStorage: SessionStorage | null = null;
+
+/**
+ * Storage the app reads and writes sessions through.
+ */
+export function getSessionStorage(): SessionStorage {
+  if (!activeStorage) {
+    activeStorage =
+      resolveSessionStorageBackend() === "server" ? new ServerSessionStorage() : browserSessionStorage;
+  }
+  return activeStorage;
+}
+
+/**
+ * Replace the active storage (pass null to go back to the configured backend).
+ */
+export function setSessionStorage(storage: SessionStorage | null): void {
+  activeStorage = storage;
+}
@@ -24,11 +24,14 @@ import {
   getEffectivePhases,
   getEffectiveAgents,
   validateTemplate,
+  createCompositionTemplate,
+  getTemplateComposition,
   AGENT_ROLE_INFO,
   getAgentRoleName,
   getAgentRoleDescription,
   type SessionTemplate,
 } from "./session-templates";
+import { HYGIENE_LAYER, STANDARD_DIAGNOSTIC_CHAIN } from "./operators/composition";
 
 // ============================================================================
 // Template Registry Tests
@@ -600,6 +603,38 @@ describe("Template: Adversarial Deep Dive", () => {
   });
 });
 
+describe("Operator chain templates", () => {
+  it("registers the built-in compositions as templates", () => {
+    expect(getSessionTemplate("standard-diagnostic-chain")?.operatorChain).toEqual(
+      STANDARD_DIAGNOSTIC_CHAIN.operators
+    );
+    expect(getSessionTemplate("hygiene-layer")?.operatorChain).toEqual(HYGIENE_LAYER.operators);
+  });
+
+  it("skips the per-operator phases the chain replaces", () => {
+    const template = getSessionTemplate("standard-diagnostic-chain")!;
+    expect(isPhaseSkipped(template, "level_split")).toBe(true);
+    expect(isPhaseSkipped(template, "exclusion_test")).toBe(true);
+    expect(isPhaseRequired(template, "sharpening")).toBe(true);
+  });
+
+  it("round-trips a composition through a template", () => {
+    const template = createCompositionTemplate(HYGIENE_LAYER, { displayOrder: 60 });
+    expect(template.displayOrder).toBe(60);
+    expect(validateTemplate(template)).toEqual([]);
+    expect(getTemplateComposition(template)?.operators).toEqual(HYGIENE_LAYER.operators);
+    expect(getTemplateComposition(getSessionTemplate("quick-check")!)).toBeUndefined();
+  });
+
+  it("flags an invalid operator chain", () => {
+    const template: SessionTemplate = {
+      ...createCompositionTemplate(HYGIENE_LAYER),
+      operatorChain: [],
+    };
+    expect(validateTemplate(template)).toContain("Composition must include at least one operator");
+  });
+});
+
 describe("Template: Custom", () => {
   const template = getSessionTemplate("custom")!;
 
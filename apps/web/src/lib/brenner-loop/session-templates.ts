@@ -3,7 +3,8 @@
  *
  * Pre-configured session types for different use cases.
  * Templates define which phases are required, optional, or skipped,
- * and configure default agent dispatch settings.
+ * and configure default agent dispatch settings. Templates built from an
+ * operator composition also carry the operator chain to run.
  *
  * @see brenner_bot-reew.7 - FEATURE: Session Templates
  * @module brenner-loop/session-templates
@@ -11,6 +12,13 @@
 
 import type { SessionPhase } from "./types";
 import type { TribunalAgentRole } from "./agents";
+import type { OperatorType } from "./operators/framework";
+import type { OperatorComposition } from "./operators/composition";
+import {
+  STANDARD_DIAGNOSTIC_CHAIN,
+  HYGIENE_LAYER,
+  validateComposition,
+} from "./operators/composition";
 
 // ============================================================================
 // Types
@@ -77,6 +85,14 @@ export interface SessionTemplate {
    */
   defaultDepth: SessionDepth;
 
+  // === Operator Chain ===
+
+  /**
+   * Operators to run as one guided workflow, each fed the previous result.
+   * Set for templates built from an operator composition.
+   */
+  operatorChain?: OperatorType[];
+
   // === User Guidance ===
 
   /**
@@ -376,6 +392,104 @@ const CUSTOM: SessionTemplate = {
   displayOrder: 99,
 };
 
+// ============================================================================
+// Operator Chain Templates
+// ============================================================================
+
+/**
+ * Operators that are also session phases
+ */
+const OPERATOR_PHASES: SessionPhase[] = [
+  "level_split",
+  "exclusion_test",
+  "object_transpose",
+  "scale_check",
+];
+
+/**
+ * Build a session template that runs an operator composition.
+ *
+ * The chain replaces the per-operator phases, so those are skipped; the
+ * agent and evidence phases stay optional.
+ */
+export function createCompositionTemplate(
+  composition: OperatorComposition,
+  overrides: Partial<Omit<SessionTemplate, "id" | "operatorChain">> = {}
+): SessionTemplate {
+  return {
+    id: composition.id,
+    name: composition.name,
+    description: composition.description,
+    icon: "Workflow",
+    colorClass: "bg-cyan-600",
+
+    requiredPhases: ["intake", "sharpening"],
+    optionalPhases: ["agent_dispatch", "synthesis", "evidence_gathering", "revision"],
+    skippedPhases: [...OPERATOR_PHASES],
+
+    defaultAgents: [],
+    defaultDepth: "standard",
+
+    expectedDuration: "Varies",
+    bestFor: [],
+    tagline: composition.description,
+
+    allowCustomization: true,
+    featured: false,
+    displayOrder: 50,
+
+    ...overrides,
+    operatorChain: [...composition.operators],
+  };
+}
+
+/**
+ * Get the operator composition a template runs, if any.
+ */
+export function getTemplateComposition(
+  template: SessionTemplate
+): OperatorComposition | undefined {
+  if (!template.operatorChain) return undefined;
+  return {
+    id: template.id,
+    name: template.name,
+    description: template.description,
+    operators: template.operatorChain,
+  };
+}
+
+/**
+ * Standard Diagnostic Chain - Level split, invariants, exclusion test.
+ */
+const DIAGNOSTIC_CHAIN: SessionTemplate = createCompositionTemplate(STANDARD_DIAGNOSTIC_CHAIN, {
+  defaultAgents: ["experiment_designer"],
+  expectedDuration: "45-90 min",
+  bestFor: [
+    "Hypotheses that mix levels of explanation",
+    "Shrinking a crowded model space",
+    "Finding the decisive experiment",
+  ],
+  tagline: "Split the levels, find the invariants, delete model families.",
+  displayOrder: 6,
+});
+
+/**
+ * Hygiene Layer - Scale check, exception quarantine, theory kill.
+ */
+const HYGIENE_CHECK: SessionTemplate = createCompositionTemplate(HYGIENE_LAYER, {
+  icon: "ShieldCheck",
+  colorClass: "bg-amber-600",
+  defaultDepth: "quick",
+  expectedDuration: "30-60 min",
+  bestFor: [
+    "Hypotheses that have met contradicting evidence",
+    "Periodic review of a long-running program",
+    "Deciding whether to drop a line of work",
+  ],
+  tagline: "Stay physical, account for every anomaly, kill what failed.",
+  displayOrder: 7,
+});
+
 // ============================================================================
 // Template Registry
 // ============================================================================
@@ -389,6 +503,8 @@ export const SESSION_TEMPLATES: SessionTemplate[] = [
   LITERATURE_REVIEW,
   DESIGN_FOCUS,
   ADVERSARIAL_DEEP_DIVE,
+  DIAGNOSTIC_CHAIN,
+  HYGIENE_CHECK,
   CUSTOM,
 ];
 
@@ -633,6 +749,12 @@ export function validateTemplate(template: SessionTemplate): string[] {
     errors.push("Sharpening phase must be required");
   }
 
+  // Operator chain must be a valid composition
+  const composition = getTemplateComposition(template);
+  if (composition) {
+    errors.push(...validateComposition(composition));
+  }
+
   return errors;
 }
 
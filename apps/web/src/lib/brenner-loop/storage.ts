@@ -1,13 +1,22 @@
 /**
  * Brenner Loop Session Storage
  *
- * LocalStorage persistence layer for Brenner Loop sessions.
+ * Browser persistence layer for Brenner Loop sessions.
  * Enables sessions to survive browser refresh without a backend.
  *
- * Storage structure:
+ * The default backend is IndexedDB (no per-session size ceiling, plus a blob
+ * store for attachments), falling back to localStorage when IndexedDB is
+ * unavailable.
+ *
+ * localStorage structure:
  * - `brenner-sessions-index`: Array of SessionSummary for listing
  * - `brenner-session-{id}`: Full Session object for each session
  *
+ * IndexedDB structure (database `brenner-loop`):
+ * - `sessions` / `summaries`: Full sessions and their list summaries
+ * - `backups`: Pre-migration snapshots (`{id}:v{n}`)
+ * - `attachments` / `attachment-blobs`: Attachment metadata and bytes
+ *
  * Design principles:
  * 1. Fail gracefully on quota limits
  * 2. Recover from corrupted data
@@ -24,7 +33,7 @@ import {
   isSession,
   isSessionPhase,
 } from "./types";
-import type { Session, SessionPhase } from "./types";
+import type { AttachmentRef, Session, SessionPhase } from "./types";
 
 // ============================================================================
 // Constants
@@ -290,6 +299,18 @@ function migrateV0ToV1(data: unknown): Session {
         scaleCheck: Array.isArray(data.operatorApplications.scaleCheck)
           ? (data.operatorApplications.scaleCheck as Session["operatorApplications"]["scaleCheck"])
           : base.operatorApplications.scaleCheck,
+        paradoxHunt: Array.isArray(data.operatorApplications.paradoxHunt)
+          ? (data.operatorApplications.paradoxHunt as Session["operatorApplications"]["paradoxHunt"])
+          : base.operatorApplications.paradoxHunt,
+        invariantExtract: Array.isArray(data.operatorApplications.invariantExtract)
+          ? (data.operatorApplications.invariantExtract as Session["operatorApplications"]["invariantExtract"])
+          : base.operatorApplications.invariantExtract,
+        exceptionQuarantine: Array.isArray(data.operatorApplications.exceptionQuarantine)
+          ? (data.operatorApplications.exceptionQuarantine as Session["operatorApplications"]["exceptionQuarantine"])
+          : base.operatorApplications.exceptionQuarantine,
+        theoryKill: Array.isArray(data.operatorApplications.theoryKill)
+          ? (data.operatorApplications.theoryKill as Session["operatorApplications"]["theoryKill"])
+          : base.operatorApplications.theoryKill,
       }
     : base.operatorApplications;
 
@@ -341,8 +362,30 @@ function migrateV0ToV1(data: unknown): Session {
   };
 }
 
+/**
+ * v2 added the Paradox-Hunt, Invariant-Extract, Exception-Quarantine and
+ * Theory-Kill result arrays. Sessions saved as v1 predate them.
+ */
+function migrateV1ToV2(data: unknown): Session {
+  if (!isRecord(data) || typeof data.id !== "string") {
+    throw new StorageError("Session data is corrupted", "CORRUPTED_DATA");
+  }
+
+  const applications = isRecord(data.operatorApplications) ? data.operatorApplications : {};
+  const operatorApplications = { ...createSession({ id: data.id }).operatorApplications };
+  for (const key of Object.keys(operatorApplications) as Array<keyof Session["operatorApplications"]>) {
+    const existing = applications[key];
+    if (Array.isArray(existing)) {
+      (operatorApplications as Record<string, unknown[]>)[key] = existing;
+    }
+  }
+
+  return { ...(data as unknown as Session), _version: 2, operatorApplications };
+}
+
 const SESSION_MIGRATIONS: Record<number, Migration> = {
   1: migrateV0ToV1,
+  2: migrateV1ToV2,
 };
 
 function getSessionVersion(value: unknown): number {
@@ -371,6 +414,16 @@ function runSessionMigrations(data: unknown, fromVersion: number): Session {
   return current;
 }
 
+/**
+ * Bring session data from any older schema up to CURRENT_SESSION_VERSION.
+ * For storages that keep no backups of their own (e.g. the server store).
+ */
+export function migrateSession(data: unknown): Session {
+  const version = getSessionVersion(data);
+  if (version >= CURRENT_SESSION_VERSION && isSession(data)) return data;
+  return runSessionMigrations(data, version < CURRENT_SESSION_VERSION ? version : 0);
+}
+
 // ============================================================================
 // Types
 // ============================================================================
@@ -464,6 +517,18 @@ export interface StorageStats {
 
   /** Newest session date */
   newestSession?: string;
+
+  /** Backend serving the sessions */
+  backend?: "localStorage" | "indexedDB";
+
+  /** Approximate total quota in bytes */
+  quota?: number;
+
+  /** Number of stored attachments (IndexedDB only) */
+  attachmentCount?: number;
+
+  /** Total attachment size in bytes (IndexedDB only) */
+  attachmentSize?: number;
 }
 
 /**
@@ -497,6 +562,8 @@ export type StorageErrorCode =
   | "CORRUPTED_DATA"
   | "SESSION_NOT_FOUND"
   | "SERIALIZATION_ERROR"
+  | "CONFLICT"
+  | "UNSUPPORTED"
   | "UNKNOWN_ERROR";
 
 function assumptionLedgerKey(sessionId: string): string {
@@ -627,7 +694,7 @@ function saveIndex(index: StorageIndex): void {
 /**
  * Create a summary from a full session.
  */
-function createSummary(session: Session): SessionSummary {
+export function createSessionSummary(session: Session): SessionSummary {
   // Get hypothesis preview (first 100 chars)
   // Use optional chaining for hypothesisCards to handle malformed/recovered sessions
   const hypothesisPreview =
@@ -749,7 +816,7 @@ export class LocalStorageSessionStorage implements SessionStorage {
     const existingIdx = index.summaries.findIndex(
       (s) => s.id === session.id
     );
-    const summary = createSummary(updatedSession);
+    const summary = createSessionSummary(updatedSession);
 
     if (existingIdx >= 0) {
       // Update existing
@@ -828,7 +895,7 @@ export class LocalStorageSessionStorage implements SessionStorage {
         );
       }
 
-      const migrated = needsMigrate ? runSessionMigrations(parsed, version) : migrateV0ToV1(parsed);
+      const migrated = runSessionMigrations(parsed, needsMigrate ? version : 0);
 
       // Persist migrated payload without changing timestamps.
       try {
@@ -844,7 +911,7 @@ export class LocalStorageSessionStorage implements SessionStorage {
       // Keep the index consistent.
       const index = loadIndex();
       const existingIdx = index.summaries.findIndex((s) => s.id === sessionId);
-      const summary = createSummary(migrated);
+      const summary = createSessionSummary(migrated);
       if (existingIdx >= 0) {
         index.summaries[existingIdx] = summary;
       } else {
@@ -995,10 +1062,646 @@ export class LocalStorageSessionStorage implements SessionStorage {
       remainingQuota,
       oldestSession,
       newestSession,
+      backend: "localStorage",
+      quota: TYPICAL_QUOTA,
     };
   }
 }
 
+/** localStorage backend used when IndexedDB is unavailable */
+const localStorageFallback = new LocalStorageSessionStorage();
+
+// ============================================================================
+// IndexedDB Implementation
+// ============================================================================
+
+/** Database holding sessions, migration backups, and attachment blobs */
+const IDB_DATABASE_NAME = "brenner-loop";
+
+/** Bump when object stores change (add an upgrade step in openSessionDatabase) */
+const IDB_VERSION = 1;
+
+const IDB_SESSIONS = "sessions";
+const IDB_SUMMARIES = "summaries";
+const IDB_BACKUPS = "backups";
+const IDB_ATTACHMENTS = "attachments";
+const IDB_ATTACHMENT_BLOBS = "attachment-blobs";
+
+/** Quota assumed when the StorageManager estimate API is unavailable */
+const DEFAULT_IDB_QUOTA = 50 * 1024 * 1024;
+
+/** Row in the summaries store (keeps list() from reading full sessions) */
+interface SummaryRecord {
+  id: string;
+  summary: SessionSummary;
+  /** Approximate serialized session size in bytes */
+  size: number;
+}
+
+/** Row in the backups store, mirroring the localStorage backup keys */
+interface BackupRecord {
+  key: string;
+  sessionId: string;
+  version: number;
+  data: unknown;
+}
+
+/** Row in the attachments store; the blob lives in attachment-blobs */
+interface AttachmentRecord extends AttachmentRef {
+  sessionId: string;
+}
+
+/**
+ * Blob store for files referenced from evidence entries and hypothesis cards.
+ */
+export interface AttachmentStore {
+  /** Store a blob for a session and return the reference to embed */
+  putAttachment(
+    sessionId: string,
+    blob: Blob,
+    options?: { name?: string; mimeType?: string }
+  ): Promise<AttachmentRef>;
+
+  /** Fetch an attachment's bytes (null if it no longer exists) */
+  getAttachment(attachmentId: string): Promise<Blob | null>;
+
+  /** List attachment references stored for a session */
+  listAttachments(sessionId: string): Promise<AttachmentRef[]>;
+
+  /** Remove an attachment (silently succeeds if missing) */
+  deleteAttachment(attachmentId: string): Promise<void>;
+}
+
+export interface IndexedDBSessionStorageOptions {
+  /** IndexedDB factory (defaults to window.indexedDB; null forces the fallback) */
+  indexedDB?: IDBFactory | null;
+  /** Database name (defaults to "brenner-loop") */
+  databaseName?: string;
+  /** Storage used when IndexedDB cannot be opened (defaults to localStorage) */
+  fallback?: SessionStorage;
+}
+
+function idbRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function idbDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error("IndexedDB transaction aborted"));
+  });
+}
+
+function toStorageError(error: unknown, message: string): StorageError {
+  if (error instanceof StorageError) return error;
+  if (error instanceof DOMException && error.name === "QuotaExceededError") {
+    return new StorageError("Storage quota exceeded. Try deleting old sessions or attachments.", "QUOTA_EXCEEDED", error);
+  }
+  return new StorageError(message, "UNKNOWN_ERROR", error);
+}
+
+function approximateSize(value: unknown): number {
+  try {
+    return JSON.stringify(value).length * 2; // UTF-16 = 2 bytes per char
+  } catch {
+    return 0;
+  }
+}
+
+function summaryRecordFor(data: unknown): SummaryRecord | null {
+  if (!isRecord(data) || typeof data.id !== "string" || !data.phase || !data.createdAt) return null;
+  return {
+    id: data.id,
+    summary: createSessionSummary(data as unknown as Session),
+    size: approximateSize(data),
+  };
+}
+
+function generateAttachmentId(): string {
+  const random =
+    typeof globalThis.crypto?.randomUUID === "function"
+      ? globalThis.crypto.randomUUID()
+      : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+  return `ATT-${random}`;
+}
+
+/**
+ * Sessions and migration backups currently held in localStorage, used to
+ * move them into IndexedDB (on first open and during recovery).
+ */
+function collectLocalStorageSessions(): { sessions: unknown[]; backups: BackupRecord[]; keys: string[] } {
+  const result = { sessions: [] as unknown[], backups: [] as BackupRecord[], keys: [] as string[] };
+  if (typeof window === "undefined") return result;
+
+  for (let i = 0; i < window.localStorage.length; i++) {
+    const key = window.localStorage.key(i);
+    if (!key) continue;
+
+    const isSessionKey = key.startsWith(SESSION_KEY_PREFIX);
+    const isBackupKey = key.startsWith(SESSION_BACKUP_KEY_PREFIX);
+    if (!isSessionKey && !isBackupKey) continue;
+
+    try {
+      const raw = window.localStorage.getItem(key);
+      if (!raw) continue;
+      const data = JSON.parse(raw) as unknown;
+
+      if (isSessionKey) {
+        if (!summaryRecordFor(data)) continue;
+        result.sessions.push(data);
+      } else {
+        const match = /^(.*):v(\d+)$/.exec(key.slice(SESSION_BACKUP_KEY_PREFIX.length));
+        if (!match) continue;
+        result.backups.push({ key: `${match[1]}:v${match[2]}`, sessionId: match[1], version: Number(match[2]), data });
+      }
+      result.keys.push(key);
+    } catch {
+      console.warn(`Skipping corrupted session at ${key}`);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Remove localStorage copies once they are safely stored in IndexedDB.
+ */
+function removeLocalStorageKeys(keys: string[], sessionIds: string[]): void {
+  if (typeof window === "undefined" || keys.length === 0) return;
+
+  for (const key of keys) {
+    try {
+      window.localStorage.removeItem(key);
+    } catch {
+      // Best-effort cleanup only
+    }
+  }
+
+  const moved = new Set(sessionIds);
+  const index = loadIndex();
+  const remaining = index.summaries.filter((s) => !moved.has(s.id));
+  if (remaining.length !== index.summaries.length) {
+    try {
+      saveIndex({ ...index, summaries: remaining });
+    } catch {
+      // Index will be rebuilt by recoverSessions if needed
+    }
+  }
+}
+
+function openSessionDatabase(factory: IDBFactory, name: string): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    let imported: ReturnType<typeof collectLocalStorageSessions> | null = null;
+    const request = factory.open(name, IDB_VERSION);
+
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      if (event.oldVersion < 1) {
+        db.createObjectStore(IDB_SESSIONS, { keyPath: "id" });
+        db.createObjectStore(IDB_SUMMARIES, { keyPath: "id" });
+        db.createObjectStore(IDB_BACKUPS, { keyPath: "key" }).createIndex("sessionId", "sessionId");
+        db.createObjectStore(IDB_ATTACHMENTS, { keyPath: "id" }).createIndex("sessionId", "sessionId");
+        db.createObjectStore(IDB_ATTACHMENT_BLOBS);
+
+        // First open: carry existing localStorage sessions over in the same
+        // versionchange transaction so the move is all-or-nothing.
+        const tx = request.transaction;
+        if (tx) {
+          imported = collectLocalStorageSessions();
+          for (const data of imported.sessions) {
+            const record = summaryRecordFor(data);
+            if (!record) continue;
+            tx.objectStore(IDB_SESSIONS).put(data);
+            tx.objectStore(IDB_SUMMARIES).put(record);
+          }
+          for (const backup of imported.backups) {
+            tx.objectStore(IDB_BACKUPS).put(backup);
+          }
+        }
+      }
+    };
+
+    request.onsuccess = () => {
+      if (imported) {
+        removeLocalStorageKeys(
+          imported.keys,
+          imported.sessions.map((data) => (data as { id: string }).id)
+        );
+      }
+      resolve(request.result);
+    };
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => reject(new Error("IndexedDB upgrade blocked by another tab"));
+  });
+}
+
+/**
+ * IndexedDB-based implementation of SessionStorage.
+ *
+ * Removes the localStorage size ceiling and adds a blob store for
+ * attachments. Falls back to localStorage (without attachments) when
+ * IndexedDB is unavailable, e.g. during SSR or in locked-down browsers.
+ */
+export class IndexedDBSessionStorage implements SessionStorage, AttachmentStore {
+  private dbPromise: Promise<IDBDatabase | null> | null = null;
+  private readonly fallback: SessionStorage;
+
+  constructor(private readonly options: IndexedDBSessionStorageOptions = {}) {
+    this.fallback = options.fallback ?? localStorageFallback;
+  }
+
+  private factory(): IDBFactory | null {
+    if (this.options.indexedDB !== undefined) return this.options.indexedDB;
+    if (typeof window === "undefined") return null;
+    try {
+      return window.indexedDB ?? null;
+    } catch {
+      return null;
+    }
+  }
+
+  private db(): Promise<IDBDatabase | null> {
+    if (!this.dbPromise) {
+      const factory = this.factory();
+      this.dbPromise = factory
+        ? openSessionDatabase(factory, this.options.databaseName ?? IDB_DATABASE_NAME).catch((error: unknown) => {
+            console.warn("IndexedDB unavailable, falling back to localStorage:", error);
+            return null;
+          })
+        : Promise.resolve(null);
+    }
+    return this.dbPromise;
+  }
+
+  /**
+   * Which backend is serving requests.
+   */
+  async backend(): Promise<"indexedDB" | "localStorage"> {
+    return (await this.db()) ? "indexedDB" : "localStorage";
+  }
+
+  async save(session: Session): Promise<void> {
+    const db = await this.db();
+    if (!db) return this.fallback.save(session);
+
+    const updatedSession: Session = {
+      ...session,
+      _version: CURRENT_SESSION_VERSION,
+      updatedAt: new Date().toISOString(),
+    };
+
+    try {
+      const tx = db.transaction([IDB_SESSIONS, IDB_SUMMARIES], "readwrite");
+      tx.objectStore(IDB_SESSIONS).put(updatedSession);
+      tx.objectStore(IDB_SUMMARIES).put({
+        id: session.id,
+        summary: createSessionSummary(updatedSession),
+        size: approximateSize(updatedSession),
+      } satisfies SummaryRecord);
+      await idbDone(tx);
+    } catch (error) {
+      if (error instanceof DOMException && error.name === "DataCloneError") {
+        throw new StorageError("Failed to serialize session", "SERIALIZATION_ERROR", error);
+      }
+      throw toStorageError(error, "Failed to save session");
+    }
+
+    notifySessionChange("save", session.id);
+  }
+
+  async load(sessionId: string): Promise<Session | null> {
+    const db = await this.db();
+    if (!db) return this.fallback.load(sessionId);
+
+    try {
+      const raw = await idbRequest<unknown>(
+        db.transaction(IDB_SESSIONS, "readonly").objectStore(IDB_SESSIONS).get(sessionId)
+      );
+      if (raw === undefined) return null;
+
+      const version = getSessionVersion(raw);
+      if (version > CURRENT_SESSION_VERSION) {
+        throw new StorageError(
+          `Session schema v${version} is newer than supported (v${CURRENT_SESSION_VERSION})`,
+          "CORRUPTED_DATA"
+        );
+      }
+
+      const needsMigrate = version < CURRENT_SESSION_VERSION;
+      if (!needsMigrate && isSession(raw)) {
+        return raw;
+      }
+
+      const backupKey = `${sessionId}:v${version}`;
+      const existingBackup = await idbRequest(
+        db.transaction(IDB_BACKUPS, "readonly").objectStore(IDB_BACKUPS).getKey(backupKey)
+      );
+
+      const migrated = runSessionMigrations(raw, needsMigrate ? version : 0);
+
+      // Persist the backup and migrated payload together, without changing timestamps.
+      const tx = db.transaction([IDB_SESSIONS, IDB_SUMMARIES, IDB_BACKUPS], "readwrite");
+      if (existingBackup === undefined) {
+        tx.objectStore(IDB_BACKUPS).put({ key: backupKey, sessionId, version, data: raw } satisfies BackupRecord);
+      }
+      tx.objectStore(IDB_SESSIONS).put(migrated);
+      tx.objectStore(IDB_SUMMARIES).put({
+        id: sessionId,
+        summary: createSessionSummary(migrated),
+        size: approximateSize(migrated),
+      } satisfies SummaryRecord);
+      await idbDone(tx);
+
+      return migrated;
+    } catch (error) {
+      if (error instanceof StorageError) throw error;
+
+      console.error(`Failed to load session ${sessionId}:`, error);
+      throw new StorageError("Failed to read session data", "CORRUPTED_DATA", error);
+    }
+  }
+
+  async list(): Promise<SessionSummary[]> {
+    const db = await this.db();
+    if (!db) return this.fallback.list();
+
+    const records = await idbRequest<SummaryRecord[]>(
+      db.transaction(IDB_SUMMARIES, "readonly").objectStore(IDB_SUMMARIES).getAll()
+    );
+    return records
+      .map((record) => record.summary)
+      .sort((a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime());
+  }
+
+  async delete(sessionId: string): Promise<void> {
+    const db = await this.db();
+    if (!db) return this.fallback.delete(sessionId);
+
+    try {
+      const tx = db.transaction(
+        [IDB_SESSIONS, IDB_SUMMARIES, IDB_BACKUPS, IDB_ATTACHMENTS, IDB_ATTACHMENT_BLOBS],
+        "readwrite"
+      );
+      tx.objectStore(IDB_SESSIONS).delete(sessionId);
+      tx.objectStore(IDB_SUMMARIES).delete(sessionId);
+
+      const backups = tx.objectStore(IDB_BACKUPS);
+      backups.index("sessionId").getAllKeys(sessionId).onsuccess = (event) => {
+        for (const key of (event.target as IDBRequest<IDBValidKey[]>).result) backups.delete(key);
+      };
+
+      const attachments = tx.objectStore(IDB_ATTACHMENTS);
+      const blobs = tx.objectStore(IDB_ATTACHMENT_BLOBS);
+      attachments.index("sessionId").getAllKeys(sessionId).onsuccess = (event) => {
+        for (const key of (event.target as IDBRequest<IDBValidKey[]>).result) {
+          attachments.delete(key);
+          blobs.delete(key);
+        }
+      };
+
+      await idbDone(tx);
+    } catch (error) {
+      console.error(`Failed to delete session ${sessionId}:`, error);
+    }
+
+    // Assumption ledgers and resume metadata still live in localStorage.
+    try {
+      window.localStorage.removeItem(assumptionLedgerKey(sessionId));
+    } catch {
+      // Best-effort only
+    }
+    removeResumeEntries([sessionId]);
+    notifySessionChange("delete", sessionId);
+  }
+
+  async clear(): Promise<void> {
+    const db = await this.db();
+    if (!db) return this.fallback.clear();
+
+    const stores = [IDB_SESSIONS, IDB_SUMMARIES, IDB_BACKUPS, IDB_ATTACHMENTS, IDB_ATTACHMENT_BLOBS];
+    const tx = db.transaction(stores, "readwrite");
+    for (const store of stores) tx.objectStore(store).clear();
+    await idbDone(tx);
+
+    try {
+      window.localStorage.removeItem(RESUME_INDEX_KEY);
+    } catch {
+      // Best-effort only
+    }
+    notifySessionChange("clear");
+  }
+
+  async stats(): Promise<StorageStats> {
+    const db = await this.db();
+    if (!db) return this.fallback.stats();
+
+    const tx = db.transaction([IDB_SUMMARIES, IDB_ATTACHMENTS], "readonly");
+    const summariesRequest = tx.objectStore(IDB_SUMMARIES).getAll() as IDBRequest<SummaryRecord[]>;
+    const attachmentsRequest = tx.objectStore(IDB_ATTACHMENTS).getAll() as IDBRequest<AttachmentRecord[]>;
+    await idbDone(tx);
+
+    const summaries = summariesRequest.result;
+    const attachments = attachmentsRequest.result;
+    const attachmentSize = attachments.reduce((sum, record) => sum + record.size, 0);
+    const totalSize = summaries.reduce((sum, record) => sum + record.size, 0) + attachmentSize;
+
+    // Prefer the browser's own quota estimate (covers the whole origin).
+    let quota = DEFAULT_IDB_QUOTA;
+    let remainingQuota = Math.max(0, DEFAULT_IDB_QUOTA - totalSize);
+    try {
+      const estimate = await globalThis.navigator?.storage?.estimate?.();
+      if (estimate?.quota !== undefined) {
+        quota = estimate.quota;
+        remainingQuota = Math.max(0, estimate.quota - (estimate.usage ?? totalSize));
+      }
+    } catch {
+      // Keep the default estimate
+    }
+
+    const byCreated = summaries
+      .map((record) => record.summary.createdAt)
+      .sort((a, b) => new Date(a).getTime() - new Date(b).getTime());
+
+    return {
+      sessionCount: summaries.length,
+      totalSize,
+      remainingQuota,
+      oldestSession: byCreated[0],
+      newestSession: byCreated[byCreated.length - 1],
+      backend: "indexedDB",
+      quota,
+      attachmentCount: attachments.length,
+      attachmentSize,
+    };
+  }
+
+  // --------------------------------------------------------------------------
+  // Attachments
+  // --------------------------------------------------------------------------
+
+  private async requireDb(): Promise<IDBDatabase> {
+    const db = await this.db();
+    if (!db) {
+      throw new StorageError("Attachments require IndexedDB, which is unavailable in this browser", "UNSUPPORTED");
+    }
+    return db;
+  }
+
+  async putAttachment(
+    sessionId: string,
+    blob: Blob,
+    options: { name?: string; mimeType?: string } = {}
+  ): Promise<AttachmentRef> {
+    const db = await this.requireDb();
+
+    const ref: AttachmentRef = {
+      id: generateAttachmentId(),
+      name: options.name ?? (typeof File !== "undefined" && blob instanceof File ? blob.name : "attachment"),
+      mimeType: options.mimeType ?? (blob.type || "application/octet-stream"),
+      size: blob.size,
+      createdAt: new Date().toISOString(),
+    };
+
+    try {
+      const tx = db.transaction([IDB_ATTACHMENTS, IDB_ATTACHMENT_BLOBS], "readwrite");
+      tx.objectStore(IDB_ATTACHMENTS).put({ ...ref, sessionId } satisfies AttachmentRecord);
+      tx.objectStore(IDB_ATTACHMENT_BLOBS).put(blob, ref.id);
+      await idbDone(tx);
+    } catch (error) {
+      throw toStorageError(error, "Failed to save attachment");
+    }
+
+    return ref;
+  }
+
+  async getAttachment(attachmentId: string): Promise<Blob | null> {
+    const db = await this.requireDb();
+    const blob = await idbRequest<Blob | undefined>(
+      db.transaction(IDB_ATTACHMENT_BLOBS, "readonly").objectStore(IDB_ATTACHMENT_BLOBS).get(attachmentId)
+    );
+    return blob ?? null;
+  }
+
+  async listAttachments(sessionId: string): Promise<AttachmentRef[]> {
+    const db = await this.requireDb();
+    const records = await idbRequest<AttachmentRecord[]>(
+      db.transaction(IDB_ATTACHMENTS, "readonly").objectStore(IDB_ATTACHMENTS).index("sessionId").getAll(sessionId)
+    );
+    return records
+      .map((record): AttachmentRef => ({
+        id: record.id,
+        name: record.name,
+        mimeType: record.mimeType,
+        size: record.size,
+        createdAt: record.createdAt,
+      }))
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+
+  async deleteAttachment(attachmentId: string): Promise<void> {
+    const db = await this.requireDb();
+    const tx = db.transaction([IDB_ATTACHMENTS, IDB_ATTACHMENT_BLOBS], "readwrite");
+    tx.objectStore(IDB_ATTACHMENTS).delete(attachmentId);
+    tx.objectStore(IDB_ATTACHMENT_BLOBS).delete(attachmentId);
+    await idbDone(tx);
+  }
+
+  // --------------------------------------------------------------------------
+  // Recovery
+  // --------------------------------------------------------------------------
+
+  /**
+   * Restore the pre-migration backup of a session (see rollbackSessionMigration).
+   */
+  async rollbackMigration(sessionId: string, toVersion: number): Promise<boolean> {
+    const db = await this.db();
+    if (!db) {
+      const restored = rollbackSessionMigration(sessionId, toVersion);
+      if (restored) notifySessionChange("save", sessionId);
+      return restored;
+    }
+
+    const backup = await idbRequest<BackupRecord | undefined>(
+      db.transaction(IDB_BACKUPS, "readonly").objectStore(IDB_BACKUPS).get(`${sessionId}:v${toVersion}`)
+    );
+    if (!backup) return false;
+
+    try {
+      // Keep the summary in step with the restored session so list() shows the rollback
+      const tx = db.transaction([IDB_SESSIONS, IDB_SUMMARIES], "readwrite");
+      tx.objectStore(IDB_SESSIONS).put(backup.data);
+      const record = summaryRecordFor(backup.data);
+      if (record) tx.objectStore(IDB_SUMMARIES).put(record);
+      else tx.objectStore(IDB_SUMMARIES).delete(sessionId);
+      await idbDone(tx);
+    } catch (error) {
+      throw toStorageError(error, "Failed to restore session backup");
+    }
+
+    notifySessionChange("save", sessionId);
+    return true;
+  }
+
+  /**
+   * Rebuild the summaries index from stored sessions, first pulling in any
+   * sessions that were written to localStorage while IndexedDB was unavailable.
+   *
+   * @returns Number of sessions indexed (0 when running on the fallback)
+   */
+  async rebuildIndex(): Promise<number> {
+    const db = await this.db();
+    if (!db) return 0;
+
+    const local = collectLocalStorageSessions();
+    const stored = await idbRequest<unknown[]>(
+      db.transaction(IDB_SESSIONS, "readonly").objectStore(IDB_SESSIONS).getAll()
+    );
+
+    // A localStorage copy wins only if it is newer than what IndexedDB holds.
+    const storedUpdatedAt = new Map<unknown, number>();
+    for (const data of stored) {
+      if (isRecord(data)) storedUpdatedAt.set(data.id, new Date(String(data.updatedAt)).getTime());
+    }
+    const strays = local.sessions.filter((data) => {
+      const record = data as { id: string; updatedAt?: string };
+      const existing = storedUpdatedAt.get(record.id);
+      return existing === undefined || new Date(String(record.updatedAt)).getTime() > existing;
+    });
+    const strayIds = new Set(strays.map((data) => (data as { id: string }).id));
+
+    const records: SummaryRecord[] = [];
+    for (const data of [...stored.filter((d) => !(isRecord(d) && strayIds.has(String(d.id)))), ...strays]) {
+      const record = summaryRecordFor(data);
+      if (record) records.push(record);
+      else console.warn("Skipping corrupted session in IndexedDB");
+    }
+
+    const tx = db.transaction([IDB_SESSIONS, IDB_SUMMARIES, IDB_BACKUPS], "readwrite");
+    for (const data of strays) tx.objectStore(IDB_SESSIONS).put(data);
+    for (const backup of local.backups) tx.objectStore(IDB_BACKUPS).put(backup);
+    const summaries = tx.objectStore(IDB_SUMMARIES);
+    summaries.clear();
+    for (const record of records) summaries.put(record);
+    await idbDone(tx);
+
+    removeLocalStorageKeys(
+      local.keys,
+      local.sessions.map((data) => (data as { id: string }).id)
+    );
+    return records.length;
+  }
+}
+
+/** Type guard for storages that can hold attachment blobs */
+export function supportsAttachments(storage: SessionStorage): storage is SessionStorage & AttachmentStore {
+  return typeof (storage as Partial<AttachmentStore>).putAttachment === "function";
+}
+
+
 // ============================================================================
 // Singleton Instance
 // ============================================================================
@@ -1007,7 +1710,7 @@ export class LocalStorageSessionStorage implements SessionStorage {
  * Default session storage instance.
  * Use this for all session persistence operations.
  */
-export const sessionStorage = new LocalStorageSessionStorage();
+export const sessionStorage = new IndexedDBSessionStorage();
 
 // ============================================================================
 // Recovery Utilities
@@ -1017,6 +1720,8 @@ export const sessionStorage = new LocalStorageSessionStorage();
  * Roll back a migrated session to a prior stored backup version.
  *
  * Note: backups are written during `load()` when a migration/normalization occurs.
+ * This restores localStorage backups; for IndexedDB use
+ * `IndexedDBSessionStorage.rollbackMigration`.
  */
 export function rollbackSessionMigration(sessionId: string, toVersion: number): boolean {
   if (typeof window === "undefined") return false;
@@ -1040,12 +1745,18 @@ export function rollbackSessionMigration(sessionId: string, toVersion: number):
 /**
  * Attempt to recover sessions from corrupted storage.
  * Scans all localStorage keys matching the session pattern and rebuilds the index.
+ * When IndexedDB is active, stray localStorage sessions are moved into it and
+ * its summaries index is rebuilt instead.
  *
  * @returns Number of sessions recovered
  */
 export async function recoverSessions(): Promise<number> {
   if (typeof window === "undefined") return 0;
 
+  if ((await sessionStorage.backend()) === "indexedDB") {
+    return sessionStorage.rebuildIndex();
+  }
+
   const recovered: SessionSummary[] = [];
 
   // Scan localStorage for session keys
@@ -1061,7 +1772,7 @@ export async function recoverSessions(): Promise<number> {
 
       // Basic validation
       if (session.id && session.phase && session.createdAt) {
-        recovered.push(createSummary(session));
+        recovered.push(createSessionSummary(session));
       }
     } catch {
       console.warn(`Skipping corrupted session at ${key}`);
@@ -1147,6 +1858,41 @@ const changeListeners = new Set<StorageChangeCallback>();
 let storageListenerAttached = false;
 let storageListener: ((event: StorageEvent) => void) | null = null;
 
+/** IndexedDB writes fire no storage events, so they are announced on a channel */
+const CHANGE_CHANNEL_NAME = "brenner-sessions";
+
+type ChangeMessage = { event: "save" | "delete" | "clear"; sessionId?: string };
+
+let changeChannel: BroadcastChannel | null = null;
+
+function getChangeChannel(): BroadcastChannel | null {
+  if (changeChannel) return changeChannel;
+  if (typeof window === "undefined" || typeof BroadcastChannel === "undefined") return null;
+  changeChannel = new BroadcastChannel(CHANGE_CHANNEL_NAME);
+  changeChannel.onmessage = (message: MessageEvent<ChangeMessage>) => {
+    const { event, sessionId } = message.data ?? {};
+    if (event !== "save" && event !== "delete" && event !== "clear") return;
+    changeListeners.forEach((cb) => cb(event, sessionId));
+  };
+  return changeChannel;
+}
+
+/**
+ * Tell other tabs about an IndexedDB write (BroadcastChannel does not echo
+ * to the sender, matching `storage` event semantics).
+ */
+function notifySessionChange(event: ChangeMessage["event"], sessionId?: string): void {
+  if (typeof window === "undefined" || typeof BroadcastChannel === "undefined") return;
+  try {
+    // Reuse the listening channel so this tab does not hear its own writes.
+    const channel = changeChannel ?? new BroadcastChannel(CHANGE_CHANNEL_NAME);
+    channel.postMessage({ event, sessionId } satisfies ChangeMessage);
+    if (channel !== changeChannel) channel.close();
+  } catch {
+    // Cross-tab sync is best-effort
+  }
+}
+
 function handleStorageEvent(event: StorageEvent) {
   if (!event.key) {
     // Storage was cleared
@@ -1196,6 +1942,7 @@ function attachStorageListenerIfNeeded() {
   if (typeof window === "undefined") return;
   storageListener = handleStorageEvent;
   window.addEventListener("storage", storageListener);
+  getChangeChannel();
   storageListenerAttached = true;
 }
 
@@ -1205,6 +1952,8 @@ function detachStorageListenerIfNeeded() {
   if (storageListener) {
     window.removeEventListener("storage", storageListener);
   }
+  changeChannel?.close();
+  changeChannel = null;
   storageListener = null;
   storageListenerAttached = false;
 }
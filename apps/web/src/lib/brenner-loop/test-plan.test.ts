@@ -0,0 +1,265 @@
+/**
+ * Tests for the test prioritization planner
+ *
+ * @see @/lib/brenner-loop/test-plan
+ */
+
+import { describe, expect, it } from "vitest";
+import type { TestQueueItem } from "./test-queue";
+import { createTestRecord, TestRecordSchema } from "../schemas/test-record";
+import {
+  parseCostUsd,
+  parseDurationDays,
+  plannableFromQueueItem,
+  plannableFromTestRecord,
+  planTests,
+  type PlannableTest,
+} from "./test-plan";
+
+// ============================================================================
+// Test Helpers
+// ============================================================================
+
+function plannable(id: string, overrides: Partial<PlannableTest> = {}): PlannableTest {
+  return {
+    id,
+    name: `Test ${id}`,
+    hypothesisIds: ["H1", "H2"],
+    discrimination: 0.5,
+    cost: 1_000,
+    durationDays: 7,
+    dependsOn: [],
+    blockers: [],
+    done: false,
+    ...overrides,
+  };
+}
+
+function queueItem(overrides: Partial<TestQueueItem> = {}): TestQueueItem {
+  return {
+    id: "TQ-1",
+    sessionId: "test-session",
+    hypothesisId: "HYP-1",
+    assumptionIds: [],
+    test: {
+      id: "ET-1",
+      name: "Knockout",
+      description: "Knock out the gene",
+      category: "natural_experiment",
+      falsificationCondition: "If result is X",
+      supportCondition: "If result is Y",
+      rationale: "Because reasons",
+      feasibility: "medium",
+      discriminativePower: 4,
+    },
+    discriminativePower: 4,
+    status: "queued",
+    priority: "high",
+    predictionIfTrue: "Prediction if true",
+    predictionIfFalse: "Prediction if false",
+    addedAt: "2026-01-01T00:00:00Z",
+    source: "manual",
+    ...overrides,
+  };
+}
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+describe("parseDurationDays", () => {
+  it("understands common units and uses the upper bound of ranges", () => {
+    expect(parseDurationDays("2 weeks")).toBe(14);
+    expect(parseDurationDays("3-5 days")).toBe(5);
+    expect(parseDurationDays("~6 months")).toBe(180);
+    expect(parseDurationDays("4h")).toBe(0.5);
+    expect(parseDurationDays("a while")).toBeUndefined();
+    expect(parseDurationDays(undefined)).toBeUndefined();
+  });
+});
+
+describe("parseCostUsd", () => {
+  it("understands separators, suffixes, and ranges", () => {
+    expect(parseCostUsd("$5,000")).toBe(5_000);
+    expect(parseCostUsd("10K-20K")).toBe(20_000);
+    expect(parseCostUsd("$1.5M")).toBe(1_500_000);
+    expect(parseCostUsd("cheap")).toBeUndefined();
+  });
+});
+
+// ============================================================================
+// Adapters
+// ============================================================================
+
+describe("plannableFromTestRecord", () => {
+  const base = {
+    id: "T-RS-1-001",
+    name: "Binary readout",
+    procedure: "A sufficiently detailed procedure for the test.",
+    discriminates: ["H-RS-1-001", "H-RS-1-002"],
+    expectedOutcomes: [
+      { hypothesisId: "H-RS-1-001", outcome: "Signal", resultType: "positive" as const },
+      { hypothesisId: "H-RS-1-002", outcome: "No signal", resultType: "negative" as const },
+    ],
+    potencyCheck: { positiveControl: "A specific positive control that is long enough." },
+    evidencePerWeekScore: { likelihoodRatio: 3, cost: 2, speed: 3, ambiguity: 3 },
+    feasibility: { requirements: "Standard lab equipment", difficulty: "easy" as const },
+    designedInSession: "RS-1",
+  };
+
+  it("derives discrimination, cost, and duration from the score buckets", () => {
+    const test = plannableFromTestRecord(createTestRecord({ ...base, dependsOn: ["T-RS-1-002"] }));
+
+    expect(test.discrimination).toBeCloseTo(0.99);
+    expect(test.cost).toBe(5_000);
+    expect(test.durationDays).toBe(3);
+    expect(test.dependsOn).toEqual(["T-RS-1-002"]);
+    expect(test.blockers).toEqual([]);
+    expect(test.done).toBe(false);
+  });
+
+  it("prefers parseable feasibility estimates and reports blockers", () => {
+    const record = TestRecordSchema.parse({
+      ...createTestRecord({
+        ...base,
+        evidencePerWeekScore: { likelihoodRatio: 1, cost: 0, speed: 0, ambiguity: 1 },
+        feasibility: {
+          requirements: "Field site",
+          difficulty: "hard",
+          estimatedCost: "$12,000",
+          estimatedDuration: "3 weeks",
+          blockers: ["Awaiting permit"],
+        },
+      }),
+      status: "blocked",
+    });
+
+    const test = plannableFromTestRecord(record);
+
+    expect(test.discrimination).toBeCloseTo(0.75 * 0.5);
+    expect(test.cost).toBe(12_000);
+    expect(test.durationDays).toBe(21);
+    expect(test.blockers).toEqual(["Awaiting permit"]);
+  });
+});
+
+describe("plannableFromQueueItem", () => {
+  it("maps power and feasibility, and treats infeasible items as blocked", () => {
+    expect(plannableFromQueueItem(queueItem())).toMatchObject({
+      id: "TQ-1",
+      hypothesisIds: ["HYP-1"],
+      discrimination: 0.7,
+      cost: 5_000,
+      durationDays: 14,
+      blockers: [],
+    });
+    expect(plannableFromQueueItem(queueItem({ estimatedEffort: "2 days" })).durationDays).toBe(2);
+    expect(plannableFromQueueItem(queueItem({ status: "infeasible" })).blockers).toEqual(["Marked infeasible"]);
+    expect(plannableFromQueueItem(queueItem({ status: "completed" })).done).toBe(true);
+  });
+});
+
+// ============================================================================
+// Planner
+// ============================================================================
+
+describe("planTests", () => {
+  it("orders tests by expected discrimination per unit cost", () => {
+    const plan = planTests([
+      plannable("expensive", { cost: 50_000, durationDays: 60, discrimination: 0.9 }),
+      plannable("cheap", { cost: 500, durationDays: 2, discrimination: 0.5 }),
+    ]);
+
+    expect(plan.steps.map((step) => step.test.id)).toEqual(["cheap", "expensive"]);
+    expect(plan.steps[0].expectedDiscrimination).toBeCloseTo(1);
+    // The second test only gets credit for uncertainty the first left behind
+    expect(plan.steps[1].expectedDiscrimination).toBeCloseTo(2 * 0.5 * 0.9);
+    expect(plan.residualUncertainty).toEqual({ H1: expect.closeTo(0.05), H2: expect.closeTo(0.05) });
+  });
+
+  it("prefers tests on hypotheses nobody has probed yet", () => {
+    const plan = planTests([
+      plannable("a1", { hypothesisIds: ["A"], discrimination: 0.8 }),
+      plannable("a2", { hypothesisIds: ["A"], discrimination: 0.8 }),
+      plannable("b1", { hypothesisIds: ["B"], discrimination: 0.6 }),
+    ]);
+
+    expect(plan.steps.map((step) => step.test.id)).toEqual(["a1", "b1", "a2"]);
+  });
+
+  it("only credits active hypotheses", () => {
+    const plan = planTests(
+      [
+        plannable("dead", { hypothesisIds: ["H-refuted"] }),
+        plannable("live", { hypothesisIds: ["H-refuted", "H-active"] }),
+      ],
+      {},
+      { activeHypothesisIds: ["H-active"] }
+    );
+
+    expect(plan.steps.map((step) => step.test.id)).toEqual(["live"]);
+    expect(plan.unplanned).toEqual([
+      expect.objectContaining({ reason: "no_active_hypotheses", test: expect.objectContaining({ id: "dead" }) }),
+    ]);
+  });
+
+  it("schedules dependencies first and starts dependents when they finish", () => {
+    const plan = planTests([
+      plannable("measure", { dependsOn: ["calibrate"], discrimination: 0.9, durationDays: 5 }),
+      plannable("calibrate", { discrimination: 0.1, durationDays: 10 }),
+      plannable("parallel", { discrimination: 0.2, durationDays: 4 }),
+      plannable("baseline", { done: true }),
+      plannable("follow-up", { dependsOn: ["baseline"], discrimination: 0.05 }),
+    ]);
+
+    const byId = new Map(plan.steps.map((step) => [step.test.id, step]));
+    expect(byId.get("calibrate")!.order).toBeLessThan(byId.get("measure")!.order);
+    expect(byId.get("measure")!.startDay).toBe(10);
+    expect(byId.get("parallel")!.startDay).toBe(0);
+    expect(byId.get("follow-up")!.startDay).toBe(0);
+    expect(plan.steps.some((step) => step.test.id === "baseline")).toBe(false);
+    expect(plan.totals.days).toBe(15);
+  });
+
+  it("propagates blocked, missing, and cyclic dependencies", () => {
+    const plan = planTests([
+      plannable("blocked", { blockers: ["Reagent back-ordered"] }),
+      plannable("after-blocked", { dependsOn: ["blocked"] }),
+      plannable("orphan", { dependsOn: ["T-unknown"] }),
+      plannable("cycle-a", { dependsOn: ["cycle-b"] }),
+      plannable("cycle-b", { dependsOn: ["cycle-a"] }),
+      plannable("free"),
+    ]);
+
+    const reasons = Object.fromEntries(plan.unplanned.map((entry) => [entry.test.id, entry.reason]));
+    expect(reasons).toEqual({
+      blocked: "blocked",
+      "after-blocked": "dependency_blocked",
+      orphan: "missing_dependency",
+      "cycle-a": "dependency_cycle",
+      "cycle-b": "dependency_cycle",
+    });
+    expect(plan.steps.map((step) => step.test.id)).toEqual(["free"]);
+  });
+
+  it("respects cost and time budgets and defers what depends on dropped tests", () => {
+    const plan = planTests(
+      [
+        plannable("cheap", { cost: 1_000, durationDays: 5 }),
+        plannable("pricey", { cost: 9_000, durationDays: 5 }),
+        plannable("slow", { cost: 100, durationDays: 40, discrimination: 0.9 }),
+        plannable("after-pricey", { dependsOn: ["pricey"], cost: 100 }),
+      ],
+      { maxCost: 5_000, maxDays: 30 }
+    );
+
+    expect(plan.steps.map((step) => step.test.id)).toEqual(["cheap"]);
+    const reasons = Object.fromEntries(plan.unplanned.map((entry) => [entry.test.id, entry.reason]));
+    expect(reasons).toEqual({
+      pricey: "over_cost_budget",
+      slow: "over_time_budget",
+      "after-pricey": "dependency_unplanned",
+    });
+    expect(plan.totals).toMatchObject({ cost: 1_000, days: 5 });
+  });
+});
@@ -0,0 +1,457 @@
+/**
+ * Test Prioritization Planner
+ *
+ * Looks at the whole test queue at once and proposes an execution order that
+ * buys the most discrimination among the live hypotheses per unit of cost,
+ * within optional money and calendar budgets.
+ *
+ * Model:
+ * - Every active hypothesis starts with one unit of unresolved uncertainty.
+ * - A test with discrimination d removes a fraction d of the remaining
+ *   uncertainty of each hypothesis it bears on, so a second test against an
+ *   already well-probed hypothesis is worth less than the first.
+ * - Cost is normalized money plus normalized calendar time, so a cheap but
+ *   slow test does not look free.
+ * - Tests run as soon as their dependencies finish; the plan's duration is
+ *   the critical path, not the sum of durations.
+ *
+ * The planner is greedy: at each step it schedules the eligible test with the
+ * best value per unit cost that still fits the budget. Tests that are blocked,
+ * depend on blocked tests, or cannot fit are reported with a reason rather
+ * than silently dropped.
+ *
+ * @module brenner-loop/test-plan
+ */
+
+import type { TestRecord } from "../schemas/test-record";
+import type { TestFeasibility } from "./operators/exclusion-test";
+import type { TestQueueItem } from "./test-queue";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * A test normalized for planning, independent of where it was recorded.
+ */
+export interface PlannableTest {
+  id: string;
+  name: string;
+
+  /** Hypotheses whose standing this test changes */
+  hypothesisIds: string[];
+
+  /** Expected fraction of a hypothesis's remaining uncertainty the test removes (0–1) */
+  discrimination: number;
+
+  /** Estimated cost in USD */
+  cost: number;
+
+  /** Estimated calendar time in days */
+  durationDays: number;
+
+  /** Tests that must finish before this one can start */
+  dependsOn: string[];
+
+  /** Why the test cannot run right now (empty when runnable) */
+  blockers: string[];
+
+  /** Already finished: satisfies dependencies, is never scheduled */
+  done: boolean;
+}
+
+export interface PlanBudget {
+  /** Maximum total spend in USD */
+  maxCost?: number;
+  /** Maximum calendar days until the last scheduled test finishes */
+  maxDays?: number;
+}
+
+export interface PlanOptions {
+  /**
+   * Hypotheses still in play. When given, tests only earn value for these;
+   * when omitted, every hypothesis a test mentions counts.
+   */
+  activeHypothesisIds?: string[];
+  /** Spend that counts as one unit of cost (default: $10,000) */
+  referenceCost?: number;
+  /** Days that count as one unit of cost (default: 30) */
+  referenceDays?: number;
+}
+
+export interface PlannedTest {
+  /** 1-based position in the plan */
+  order: number;
+  test: PlannableTest;
+  /** Uncertainty removed by this test given everything scheduled before it */
+  expectedDiscrimination: number;
+  /** expectedDiscrimination per unit of normalized cost */
+  valuePerCost: number;
+  /** Day the test can start (after its dependencies finish) */
+  startDay: number;
+  finishDay: number;
+  /** Total spend once this test is included */
+  cumulativeCost: number;
+}
+
+export type UnplannedReason =
+  | "blocked"
+  | "dependency_blocked"
+  | "missing_dependency"
+  | "dependency_cycle"
+  | "no_active_hypotheses"
+  | "over_cost_budget"
+  | "over_time_budget"
+  | "dependency_unplanned";
+
+export interface UnplannedTest {
+  test: PlannableTest;
+  reason: UnplannedReason;
+  detail: string;
+}
+
+export interface TestPlan {
+  steps: PlannedTest[];
+  unplanned: UnplannedTest[];
+  budget: PlanBudget;
+  totals: {
+    cost: number;
+    days: number;
+    expectedDiscrimination: number;
+  };
+  /** Remaining uncertainty per active hypothesis once the plan has run */
+  residualUncertainty: Record<string, number>;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const DEFAULT_REFERENCE_COST = 10_000;
+export const DEFAULT_REFERENCE_DAYS = 30;
+
+/** Representative likelihood ratio for each EvidencePerWeekScore LR bucket */
+const LIKELIHOOD_RATIO_BY_SCORE = [1.5, 4, 30, 100];
+
+/** Representative USD cost for each EvidencePerWeekScore cost bucket */
+const COST_BY_SCORE = [150_000, 50_000, 5_000, 500];
+
+/** Representative days for each EvidencePerWeekScore speed bucket */
+const DAYS_BY_SCORE = [365, 90, 14, 3];
+
+/** Discrimination for Exclusion Test discriminative power 1–5 */
+const DISCRIMINATION_BY_POWER: Record<1 | 2 | 3 | 4 | 5, number> = {
+  1: 0.15,
+  2: 0.3,
+  3: 0.5,
+  4: 0.7,
+  5: 0.85,
+};
+
+const COST_BY_FEASIBILITY: Record<TestFeasibility, number> = {
+  high: 500,
+  medium: 5_000,
+  low: 50_000,
+};
+
+const DAYS_BY_FEASIBILITY: Record<TestFeasibility, number> = {
+  high: 3,
+  medium: 14,
+  low: 60,
+};
+
+const DAYS_PER_UNIT: Record<string, number> = {
+  hour: 1 / 8,
+  day: 1,
+  week: 7,
+  month: 30,
+  year: 365,
+};
+
+// ============================================================================
+// Parsing Helpers
+// ============================================================================
+
+/**
+ * Parse free-text durations like "2 weeks", "3-5 days", "~6 months", "4h".
+ * Ranges use their upper bound. Returns undefined when nothing is recognized.
+ */
+export function parseDurationDays(text: string | undefined): number | undefined {
+  if (!text) return undefined;
+  const match = text
+    .toLowerCase()
+    .match(/(\d+(?:\.\d+)?)(?:\s*(?:-|–|to)\s*(\d+(?:\.\d+)?))?\s*(h|hrs?|hours?|d|days?|w|wks?|weeks?|mo|months?|y|yrs?|years?)\b/);
+  if (!match) return undefined;
+
+  const amount = Number(match[2] ?? match[1]);
+  const unit = match[3];
+  const key = unit.startsWith("h")
+    ? "hour"
+    : unit.startsWith("mo")
+      ? "month"
+      : unit.startsWith("d")
+        ? "day"
+        : unit.startsWith("w")
+          ? "week"
+          : "year";
+  return amount * DAYS_PER_UNIT[key];
+}
+
+/**
+ * Parse free-text costs like "$5,000", "2k USD", "$1.5M", "10K-20K".
+ * Ranges use their upper bound. Returns undefined when nothing is recognized.
+ */
+export function parseCostUsd(text: string | undefined): number | undefined {
+  if (!text) return undefined;
+  const amounts = [...text.toLowerCase().replace(/,/g, "").matchAll(/\$?\s*(\d+(?:\.\d+)?)\s*([km])?\b/g)];
+  if (amounts.length === 0) return undefined;
+
+  const last = amounts[amounts.length - 1];
+  const multiplier = last[2] === "k" ? 1_000 : last[2] === "m" ? 1_000_000 : 1;
+  return Number(last[1]) * multiplier;
+}
+
+function scoreBucket(score: number): number {
+  return Math.max(0, Math.min(3, Math.round(score)));
+}
+
+// ============================================================================
+// Adapters
+// ============================================================================
+
+/**
+ * Normalize a registry test record.
+ *
+ * Discrimination comes from the Evidence-per-Week likelihood-ratio bucket,
+ * discounted by readout ambiguity; cost and duration prefer the feasibility
+ * estimates when they parse and fall back to the score buckets.
+ */
+export function plannableFromTestRecord(record: TestRecord): PlannableTest {
+  const score = record.evidencePerWeekScore;
+  const likelihoodRatio = LIKELIHOOD_RATIO_BY_SCORE[scoreBucket(score.likelihoodRatio)];
+  const clarity = (scoreBucket(score.ambiguity) + 1) / 4;
+
+  const blockers: string[] = [...(record.feasibility.blockers ?? [])];
+  if (record.status === "blocked" && blockers.length === 0) blockers.push("Test is marked blocked");
+  if (record.status === "abandoned") blockers.push("Test was abandoned");
+
+  return {
+    id: record.id,
+    name: record.name,
+    hypothesisIds: [...record.discriminates],
+    discrimination: (1 - 1 / likelihoodRatio) * clarity,
+    cost: parseCostUsd(record.feasibility.estimatedCost) ?? COST_BY_SCORE[scoreBucket(score.cost)],
+    durationDays: parseDurationDays(record.feasibility.estimatedDuration) ?? DAYS_BY_SCORE[scoreBucket(score.speed)],
+    dependsOn: [...(record.dependsOn ?? [])],
+    blockers,
+    done: record.status === "completed",
+  };
+}
+
+/**
+ * Normalize a session test queue item.
+ *
+ * Discrimination comes from the item's discriminative power; cost and
+ * duration from the Exclusion Test feasibility, with a parseable
+ * estimatedEffort taking precedence for duration.
+ */
+export function plannableFromQueueItem(item: TestQueueItem): PlannableTest {
+  const blockers: string[] = [];
+  if (item.status === "infeasible") blockers.push("Marked infeasible");
+  if (item.status === "deferred") blockers.push("Deferred");
+
+  return {
+    id: item.id,
+    name: item.test.name,
+    hypothesisIds: [item.hypothesisId],
+    discrimination: DISCRIMINATION_BY_POWER[item.discriminativePower],
+    cost: COST_BY_FEASIBILITY[item.test.feasibility],
+    durationDays: parseDurationDays(item.estimatedEffort) ?? DAYS_BY_FEASIBILITY[item.test.feasibility],
+    dependsOn: [...(item.dependsOn ?? [])],
+    blockers,
+    done: item.status === "completed",
+  };
+}
+
+// ============================================================================
+// Planner
+// ============================================================================
+
+/**
+ * Propose an ordered, budget-respecting execution plan.
+ */
+export function planTests(tests: PlannableTest[], budget: PlanBudget = {}, options: PlanOptions = {}): TestPlan {
+  const referenceCost = options.referenceCost ?? DEFAULT_REFERENCE_COST;
+  const referenceDays = options.referenceDays ?? DEFAULT_REFERENCE_DAYS;
+  const activeSet = options.activeHypothesisIds ? new Set(options.activeHypothesisIds) : null;
+
+  const byId = new Map(tests.map((test) => [test.id, test]));
+  const unplanned: UnplannedTest[] = [];
+  const excluded = new Map<string, UnplannedTest>();
+  const exclude = (test: PlannableTest, reason: UnplannedReason, detail: string) => {
+    const entry = { test, reason, detail };
+    excluded.set(test.id, entry);
+    unplanned.push(entry);
+  };
+
+  const countedHypotheses = (test: PlannableTest) =>
+    test.hypothesisIds.filter((id) => (activeSet ? activeSet.has(id) : true));
+
+  // Pass 1: anything that can never run, propagated along dependencies.
+  const pending = tests.filter((test) => !test.done);
+  const state = new Map<string, "visiting" | "resolved">();
+  const resolve = (test: PlannableTest): void => {
+    if (state.get(test.id) === "resolved") return;
+    state.set(test.id, "visiting");
+
+    if (test.blockers.length > 0) {
+      exclude(test, "blocked", test.blockers.join("; "));
+    } else {
+      for (const depId of test.dependsOn) {
+        const dep = byId.get(depId);
+        if (!dep) {
+          exclude(test, "missing_dependency", `Depends on unknown test ${depId}`);
+          break;
+        }
+        if (dep.done) continue;
+        if (state.get(dep.id) === "visiting") {
+          exclude(test, "dependency_cycle", `Dependency cycle through ${dep.id}`);
+          break;
+        }
+        resolve(dep);
+        const depExclusion = excluded.get(dep.id);
+        if (depExclusion) {
+          const reason = depExclusion.reason === "dependency_cycle" ? "dependency_cycle" : "dependency_blocked";
+          exclude(test, reason, `Depends on ${dep.id} (${depExclusion.reason.replace(/_/g, " ")})`);
+          break;
+        }
+      }
+    }
+
+    if (!excluded.has(test.id) && countedHypotheses(test).length === 0) {
+      exclude(test, "no_active_hypotheses", "None of the hypotheses it discriminates are still active");
+    }
+    state.set(test.id, "resolved");
+  };
+  for (const test of pending) resolve(test);
+
+  // Pass 2: greedy value-per-cost scheduling.
+  const uncertainty = new Map<string, number>();
+  for (const test of pending) {
+    for (const id of countedHypotheses(test)) uncertainty.set(id, 1);
+  }
+  if (activeSet) for (const id of activeSet) uncertainty.set(id, uncertainty.get(id) ?? 1);
+
+  const finishDay = new Map<string, number>();
+  for (const test of tests) if (test.done) finishDay.set(test.id, 0);
+
+  const steps: PlannedTest[] = [];
+  let spent = 0;
+  let makespan = 0;
+  let candidates = pending.filter((test) => !excluded.has(test.id));
+
+  while (candidates.length > 0) {
+    const eligible = candidates.filter((test) => test.dependsOn.every((depId) => finishDay.has(depId)));
+    if (eligible.length === 0) break;
+
+    let best: { test: PlannableTest; value: number; valuePerCost: number; startDay: number } | null = null;
+    const overBudget: Array<{ test: PlannableTest; reason: UnplannedReason; detail: string }> = [];
+
+    for (const test of eligible) {
+      const startDay = Math.max(0, ...test.dependsOn.map((depId) => finishDay.get(depId) ?? 0));
+      const finish = startDay + test.durationDays;
+
+      if (budget.maxCost !== undefined && spent + test.cost > budget.maxCost) {
+        overBudget.push({
+          test,
+          reason: "over_cost_budget",
+          detail: `Needs $${formatAmount(test.cost)} with $${formatAmount(Math.max(0, budget.maxCost - spent))} left`,
+        });
+        continue;
+      }
+      if (budget.maxDays !== undefined && finish > budget.maxDays) {
+        overBudget.push({
+          test,
+          reason: "over_time_budget",
+          detail: `Would finish on day ${formatAmount(finish)} (limit ${formatAmount(budget.maxDays)})`,
+        });
+        continue;
+      }
+
+      const value = countedHypotheses(test).reduce((sum, id) => sum + (uncertainty.get(id) ?? 0) * test.discrimination, 0);
+      const unitCost = Math.max(test.cost / referenceCost + test.durationDays / referenceDays, 1e-6);
+      const valuePerCost = value / unitCost;
+
+      if (
+        !best ||
+        valuePerCost > best.valuePerCost ||
+        (valuePerCost === best.valuePerCost && test.id.localeCompare(best.test.id) < 0)
+      ) {
+        best = { test, value, valuePerCost, startDay };
+      }
+    }
+
+    // Spend and elapsed time only grow, so a test that does not fit now never will.
+    for (const entry of overBudget) exclude(entry.test, entry.reason, entry.detail);
+    if (!best) {
+      candidates = candidates.filter((test) => !excluded.has(test.id));
+      continue;
+    }
+
+    const { test, value, valuePerCost, startDay } = best;
+    for (const id of countedHypotheses(test)) {
+      uncertainty.set(id, (uncertainty.get(id) ?? 0) * (1 - test.discrimination));
+    }
+    spent += test.cost;
+    const finish = startDay + test.durationDays;
+    finishDay.set(test.id, finish);
+    makespan = Math.max(makespan, finish);
+
+    steps.push({
+      order: steps.length + 1,
+      test,
+      expectedDiscrimination: value,
+      valuePerCost,
+      startDay,
+      finishDay: finish,
+      cumulativeCost: spent,
+    });
+    candidates = candidates.filter((candidate) => candidate.id !== test.id && !excluded.has(candidate.id));
+  }
+
+  for (const test of candidates) {
+    const waitingOn = test.dependsOn.filter((depId) => !finishDay.has(depId));
+    exclude(test, "dependency_unplanned", `Waits on ${waitingOn.join(", ")}, which did not fit the plan`);
+  }
+
+  return {
+    steps,
+    unplanned,
+    budget,
+    totals: {
+      cost: spent,
+      days: makespan,
+      expectedDiscrimination: steps.reduce((sum, step) => sum + step.expectedDiscrimination, 0),
+    },
+    residualUncertainty: Object.fromEntries([...uncertainty.entries()].sort(([a], [b]) => a.localeCompare(b))),
+  };
+}
+
+// ============================================================================
+// Formatting
+// ============================================================================
+
+export const UNPLANNED_REASON_LABELS: Record<UnplannedReason, string> = {
+  blocked: "Blocked",
+  dependency_blocked: "Dependency blocked",
+  missing_dependency: "Missing dependency",
+  dependency_cycle: "Dependency cycle",
+  no_active_hypotheses: "No active hypotheses",
+  over_cost_budget: "Over cost budget",
+  over_time_budget: "Over time budget",
+  dependency_unplanned: "Dependency not planned",
+};
+
+function formatAmount(value: number): string {
+  return Number.isInteger(value) ? value.toLocaleString("en-US") : value.toLocaleString("en-US", { maximumFractionDigits: 1 });
+}
@@ -152,6 +152,21 @@ describe("test-queue", () => {
     expect(loaded[0]?.assumptionIds).toEqual(["A-1", "A-2"]);
   });
 
+  it("persists test dependencies across reloads", () => {
+    const items = addExclusionTestsToQueue({
+      sessionId,
+      hypothesisId,
+      tests: [makeExclusionTest({ id: "ET-first" }), makeExclusionTest({ id: "ET-second" })],
+      source: "exclusion_test",
+    });
+
+    updateQueueItem(sessionId, items[1].id, { dependsOn: [items[0].id] });
+
+    const loaded = loadTestQueue(sessionId);
+    expect(loaded[0]?.dependsOn).toBeUndefined();
+    expect(loaded[1]?.dependsOn).toEqual([items[0].id]);
+  });
+
   it("locks predictions and prevents post-hoc edits", () => {
     const tests = [makeExclusionTest({ id: "ET-lock", discriminativePower: 4 })];
 
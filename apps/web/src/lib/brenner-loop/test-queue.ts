@@ -69,6 +69,9 @@ export interface TestQueueItem {
   dueDate?: string;
   estimatedEffort?: string;
 
+  /** Queue item IDs that must complete before this test can run */
+  dependsOn?: string[];
+
   /** Metadata */
   addedAt: string;
   source: TestQueueSource;
@@ -210,6 +213,10 @@ function coerceItem(raw: unknown): TestQueueItem | null {
   if (typeof r.estimatedEffort === "string" && r.estimatedEffort.length > 0) {
     item.estimatedEffort = r.estimatedEffort;
   }
+  if (Array.isArray(r.dependsOn)) {
+    const dependsOn = r.dependsOn.filter((entry): entry is string => typeof entry === "string" && entry.length > 0);
+    if (dependsOn.length > 0) item.dependsOn = dependsOn;
+  }
 
   return item;
 }
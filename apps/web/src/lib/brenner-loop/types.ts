@@ -24,6 +24,7 @@
 // This avoids duplication while making them available from this module
 import type { HypothesisCard, IdentifiedConfound } from "./hypothesis";
 import type { DocCategory } from "../globalSearchTypes";
+import type { SessionTemplateSettings } from "./session-templates";
 export type { HypothesisCard, IdentifiedConfound };
 export {
   createHypothesisCard,
@@ -345,6 +346,182 @@ export interface ScaleCalculation {
   rulesOut?: string[];
 }
 
+/**
+ * Result of applying the Paradox Hunt (◊) operator.
+ * Uses a contradiction in the current model to locate the missing constraint.
+ *
+ * @see specs/operator_library_v0.1.md - Paradox-Hunt definition
+ */
+export interface ParadoxHuntResult {
+  /** When was this operator applied */
+  appliedAt: string;
+
+  /** Who applied it */
+  appliedBy: string;
+
+  /** The paradox as two claims that cannot both be true */
+  paradox: {
+    claimA: string;
+    claimB: string;
+  };
+
+  /** Resolutions carried forward */
+  resolutions: ParadoxResolution[];
+
+  /** Tests chosen to discriminate between resolutions */
+  discriminatingTests: string[];
+
+  /** Which hypotheses the paradox was found in */
+  hypothesisIds: string[];
+
+  /** Notes from the operator application */
+  notes?: string;
+}
+
+/**
+ * A candidate resolution of a paradox
+ */
+export interface ParadoxResolution {
+  /** Resolution route (level split, recode, hidden variable, both wrong) */
+  type: "level_split" | "recode" | "hidden_variable" | "both_wrong" | "other";
+
+  /** What the resolution asserts */
+  description: string;
+
+  /** User-rated plausibility (1-5) */
+  plausibility?: number;
+}
+
+/**
+ * Result of applying the Invariant Extract (≡) operator.
+ * Finds constraints that hold across plausible mechanisms.
+ *
+ * @see specs/operator_library_v0.1.md - Invariant-Extract definition
+ */
+export interface InvariantExtractResult {
+  /** When was this operator applied */
+  appliedAt: string;
+
+  /** Who applied it */
+  appliedBy: string;
+
+  /** Invariants that must hold regardless of mechanism */
+  invariants: string[];
+
+  /** Model families ruled out by the invariants */
+  ruledOutFamilies: RuledOutFamily[];
+
+  /** Test probing an invariant */
+  probeTest?: string;
+
+  /** Load-bearing assumptions recorded during extraction */
+  assumptions: string[];
+
+  /** Notes from the operator application */
+  notes?: string;
+}
+
+/**
+ * A model family ruled out by an invariant
+ */
+export interface RuledOutFamily {
+  /** The model family or mechanism class */
+  family: string;
+
+  /** The invariant that rules it out */
+  invariant: string;
+
+  /** Why */
+  reason: string;
+}
+
+/**
+ * Result of applying the Exception Quarantine (ΔE) operator.
+ * Isolates anomalies without hiding them.
+ *
+ * @see specs/operator_library_v0.1.md - Exception-Quarantine definition
+ */
+export interface ExceptionQuarantineResult {
+  /** When was this operator applied */
+  appliedAt: string;
+
+  /** Who applied it */
+  appliedBy: string;
+
+  /** All anomalies listed, with their classification */
+  anomalies: QuarantinedAnomaly[];
+
+  /** Description of the anomaly targeted for resolution */
+  highestLeverageAnomaly?: string;
+
+  /** Tests chosen to resolve the highest-leverage anomaly */
+  resolvingTests: string[];
+
+  /** False when signal anomalies share a pattern (possible rival theory) */
+  coreModelIntact: boolean;
+
+  /** Notes from the operator application */
+  notes?: string;
+}
+
+/**
+ * An anomaly recorded by Exception Quarantine
+ */
+export interface QuarantinedAnomaly {
+  /** What was observed */
+  description: string;
+
+  /** Signal must be explained; noise goes to the appendix */
+  classification: "signal" | "noise";
+
+  /** What it conflicts with */
+  conflictsWith?: string;
+
+  /** What would resolve it */
+  wouldResolve?: string;
+}
+
+/**
+ * Result of applying the Theory Kill (†) operator.
+ * Records the decision to discard (or defer discarding) a hypothesis.
+ *
+ * @see specs/operator_library_v0.1.md - Theory-Kill definition
+ */
+export interface TheoryKillResult {
+  /** When was this operator applied */
+  appliedAt: string;
+
+  /** Who applied it */
+  appliedBy: string;
+
+  /** Kind of item considered for the kill */
+  targetKind: "hypothesis" | "test" | "assumption";
+
+  /** The item, as stated */
+  target: string;
+
+  /** Hypothesis the kill applies to, when the target is a hypothesis */
+  killedHypothesisId?: string;
+
+  /** One-sentence kill reason */
+  killReason: string;
+
+  /** Observations that contradict the target */
+  contradictingEvidence: string[];
+
+  /** "kill" if every fair-test check passed, otherwise "defer" */
+  verdict: "kill" | "defer";
+
+  /** Fair-test checks that failed */
+  failedChecks: string[];
+
+  /** Replacement hypothesis that fills the vacuum */
+  replacement?: string;
+
+  /** Notes from the operator application */
+  notes?: string;
+}
+
 // ============================================================================
 // Agent Responses
 // ============================================================================
@@ -426,6 +603,28 @@ export interface AgentDelta {
 // Evidence Ledger
 // ============================================================================
 
+/**
+ * Reference to a file (figure, CSV, raw experiment output) kept in the
+ * session attachment store. Only the reference lives in the session; the
+ * bytes are fetched with `getAttachment(id)`.
+ */
+export interface AttachmentRef {
+  /** Attachment ID in the blob store */
+  id: string;
+
+  /** Original file name */
+  name: string;
+
+  /** MIME type */
+  mimeType: string;
+
+  /** Size in bytes */
+  size: number;
+
+  /** When the attachment was stored */
+  createdAt: string;
+}
+
 /**
  * An entry in the session's embedded evidence ledger.
  *
@@ -474,6 +673,9 @@ export interface EvidenceEntry {
   /** Raw data reference (file path, URL) */
   rawDataRef?: string;
 
+  /** Attached figures, tables, or raw output */
+  attachments?: AttachmentRef[];
+
   /** Was there anything unexpected? */
   surprises?: string[];
 
@@ -644,6 +846,9 @@ export interface Session {
   /** Current phase */
   phase: SessionPhase;
 
+  /** Template the session was created from, if any */
+  templateSettings?: SessionTemplateSettings;
+
   // === HYPOTHESES ===
 
   /**
@@ -693,6 +898,10 @@ export interface Session {
     exclusionTest: ExclusionTestResult[];
     objectTranspose: ObjectTransposeResult[];
     scaleCheck: ScaleCheckResult[];
+    paradoxHunt: ParadoxHuntResult[];
+    invariantExtract: InvariantExtractResult[];
+    exceptionQuarantine: ExceptionQuarantineResult[];
+    theoryKill: TheoryKillResult[];
   };
 
   // === PREDICTIONS & TESTS ===
@@ -923,7 +1132,7 @@ export function isSession(obj: unknown): obj is Session {
 /**
  * Current schema version for migrations
  */
-export const CURRENT_SESSION_VERSION = 1;
+export const CURRENT_SESSION_VERSION = 2;
 
 /**
  * Create an empty session with sensible defaults
@@ -971,6 +1180,10 @@ export function createSession(input: {
       exclusionTest: [],
       objectTranspose: [],
       scaleCheck: [],
+      paradoxHunt: [],
+      invariantExtract: [],
+      exceptionQuarantine: [],
+      theoryKill: [],
     },
 
     predictionIds: [],
@@ -35,6 +35,8 @@ import {
   clearHistory,
   serializeUndoStack,
   deserializeUndoStack,
+  withActor,
+  isCommandCurrent,
 } from "./undoManager";
 
 // ============================================================================
@@ -111,6 +113,10 @@ function createTestSession(): Session {
       exclusionTest: [],
       objectTranspose: [],
       scaleCheck: [],
+      paradoxHunt: [],
+      invariantExtract: [],
+      exceptionQuarantine: [],
+      theoryKill: [],
     },
     predictionIds: [],
     testIds: [],
@@ -621,3 +627,77 @@ describe("Serialization", () => {
     expect(deserializeUndoStack('{"redoStack": []}')).toBeNull();
   });
 });
+
+// ============================================================================
+// Tests: Per-Actor Undo
+// ============================================================================
+
+describe("Per-actor undo", () => {
+  let session: Session;
+  let stack: ReturnType<typeof createUndoStack>;
+
+  beforeEach(() => {
+    session = createTestSession();
+    stack = createUndoStack();
+  });
+
+  it("only undoes the actor's own commands", () => {
+    const alice = withActor(createConfidenceCommand("hypo-1", 50, 70, "Alice"), "alice");
+    const bob = withActor(createConfidenceCommand("hypo-2", 60, 20, "Bob"), "bob");
+    const s1 = executeCommand(session, stack, alice);
+    const s2 = executeCommand(s1.session, s1.stack, bob);
+
+    expect(getNextUndoDescription(s2.stack, "alice")).toContain("70%");
+    const undone = undo(s2.session, s2.stack, "alice");
+    expect(undone!.session.hypothesisCards["hypo-1"].confidence).toBe(50);
+    expect(undone!.session.hypothesisCards["hypo-2"].confidence).toBe(20);
+    expect(undone!.stack.history.map((cmd) => cmd.actor)).toEqual(["bob"]);
+
+    expect(canUndo(undone!.stack, "alice")).toBe(false);
+    expect(canUndo(undone!.stack, "bob")).toBe(true);
+    expect(undo(undone!.session, undone!.stack, "alice")).toBeNull();
+  });
+
+  it("keeps colleagues' redo entries when an actor executes a new command", () => {
+    const alice = withActor(createNotesCommand("Test session", "Alice notes"), "alice");
+    const bob = withActor(createAddTagCommand("bob-tag"), "bob");
+    const s1 = executeCommand(session, stack, alice);
+    const s2 = executeCommand(s1.session, s1.stack, bob);
+    const u1 = undo(s2.session, s2.stack, "alice")!;
+    const u2 = undo(u1.session, u1.stack, "bob")!;
+
+    const next = executeCommand(u2.session, u2.stack, withActor(createAddTagCommand("fresh"), "alice"));
+    expect(canRedo(next.stack, "alice")).toBe(false);
+    expect(canRedo(next.stack, "bob")).toBe(true);
+
+    const redone = redo(next.session, next.stack, "bob");
+    expect(redone!.session.tags).toContain("bob-tag");
+  });
+
+  it("drops a command a colleague has overwritten instead of reverting their edit", () => {
+    const alice = withActor(createConfidenceCommand("hypo-1", 50, 70, "Alice"), "alice");
+    const s1 = executeCommand(session, stack, alice);
+
+    // Bob's edit arrives through the collaboration relay, not this stack
+    const overwritten: Session = {
+      ...s1.session,
+      hypothesisCards: {
+        ...s1.session.hypothesisCards,
+        "hypo-1": { ...s1.session.hypothesisCards["hypo-1"], confidence: 90 },
+      },
+    };
+    expect(isCommandCurrent(overwritten, alice)).toBe(false);
+
+    const result = undo(overwritten, s1.stack, "alice");
+    expect(result!.superseded?.id).toBe(alice.id);
+    expect(result!.session.hypothesisCards["hypo-1"].confidence).toBe(90);
+    expect(result!.stack.history).toHaveLength(0);
+    expect(result!.stack.redoStack).toHaveLength(0);
+  });
+
+  it("round-trips actors through serialization", () => {
+    const cmd = withActor(createAddTagCommand("x"), "alice");
+    const { stack: st } = executeCommand(session, stack, cmd);
+    expect(deserializeUndoStack(serializeUndoStack(st))!.history[0].actor).toBe("alice");
+  });
+});
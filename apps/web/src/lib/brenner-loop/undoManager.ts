@@ -4,6 +4,10 @@
  * Implements the Command Pattern for undoable session actions.
  * Supports keyboard shortcuts (Ctrl+Z/Cmd+Z) and UI controls.
  *
+ * In collaborative sessions every command carries the actor who issued it and
+ * undo/redo are scoped to that actor, so one person's undo never reverts a
+ * colleague's edit.
+ *
  * @see brenner_bot-sedg (Undo/Redo System)
  */
 
@@ -15,6 +19,10 @@ import type {
   ExclusionTestResult,
   ObjectTransposeResult,
   ScaleCheckResult,
+  ParadoxHuntResult,
+  InvariantExtractResult,
+  ExceptionQuarantineResult,
+  TheoryKillResult,
 } from "./types";
 
 // ============================================================================
@@ -64,6 +72,9 @@ export interface SessionCommand<T = unknown> {
 
   /** Data needed to undo the command */
   undoData: T;
+
+  /** Collaborator who issued the command (absent in single-user sessions) */
+  actor?: string;
 }
 
 /**
@@ -119,8 +130,17 @@ type OperatorPhase = Extract<
   "level_split" | "exclusion_test" | "object_transpose" | "scale_check"
 >;
 
+/**
+ * Operators that run outside the phase sequence
+ */
+type SupplementaryOperatorType =
+  | "paradox_hunt"
+  | "invariant_extract"
+  | "exception_quarantine"
+  | "theory_kill";
+
 export interface ApplyOperatorData {
-  operatorType: OperatorApplicationKey | OperatorPhase;
+  operatorType: OperatorApplicationKey | OperatorPhase | SupplementaryOperatorType;
   result: unknown;
   newPhase?: SessionPhase;
   previousPhase?: SessionPhase;
@@ -195,6 +215,18 @@ function normalizeOperatorApplicationKey(
     case "scaleCheck":
     case "scale_check":
       return "scaleCheck";
+    case "paradoxHunt":
+    case "paradox_hunt":
+      return "paradoxHunt";
+    case "invariantExtract":
+    case "invariant_extract":
+      return "invariantExtract";
+    case "exceptionQuarantine":
+    case "exception_quarantine":
+      return "exceptionQuarantine";
+    case "theoryKill":
+    case "theory_kill":
+      return "theoryKill";
     default:
       return null;
   }
@@ -576,6 +608,22 @@ export function applyCommand(
           operatorKey === "scaleCheck"
             ? [...currentApps.scaleCheck, data.result as ScaleCheckResult]
             : currentApps.scaleCheck,
+        paradoxHunt:
+          operatorKey === "paradoxHunt"
+            ? [...currentApps.paradoxHunt, data.result as ParadoxHuntResult]
+            : currentApps.paradoxHunt,
+        invariantExtract:
+          operatorKey === "invariantExtract"
+            ? [...currentApps.invariantExtract, data.result as InvariantExtractResult]
+            : currentApps.invariantExtract,
+        exceptionQuarantine:
+          operatorKey === "exceptionQuarantine"
+            ? [...currentApps.exceptionQuarantine, data.result as ExceptionQuarantineResult]
+            : currentApps.exceptionQuarantine,
+        theoryKill:
+          operatorKey === "theoryKill"
+            ? [...currentApps.theoryKill, data.result as TheoryKillResult]
+            : currentApps.theoryKill,
       };
 
       return {
@@ -754,6 +802,22 @@ export function reverseCommand(
           operatorKey === "scaleCheck"
             ? currentApps.scaleCheck.slice(0, -1)
             : currentApps.scaleCheck,
+        paradoxHunt:
+          operatorKey === "paradoxHunt"
+            ? currentApps.paradoxHunt.slice(0, -1)
+            : currentApps.paradoxHunt,
+        invariantExtract:
+          operatorKey === "invariantExtract"
+            ? currentApps.invariantExtract.slice(0, -1)
+            : currentApps.invariantExtract,
+        exceptionQuarantine:
+          operatorKey === "exceptionQuarantine"
+            ? currentApps.exceptionQuarantine.slice(0, -1)
+            : currentApps.exceptionQuarantine,
+        theoryKill:
+          operatorKey === "theoryKill"
+            ? currentApps.theoryKill.slice(0, -1)
+            : currentApps.theoryKill,
       };
 
       return {
@@ -808,6 +872,63 @@ export function reverseCommand(
 // Stack Operations
 // ============================================================================
 
+/**
+ * Attribute a command to a collaborator
+ */
+export function withActor<T>(command: SessionCommand<T>, actor: string): SessionCommand<T> {
+  return { ...command, actor };
+}
+
+/**
+ * Check whether the session still shows a command's effect.
+ *
+ * Used before a collaborative undo: if a colleague has since overwritten the
+ * same value, reversing the command would clobber their edit.
+ */
+export function isCommandCurrent(session: Session, command: SessionCommand): boolean {
+  switch (command.type) {
+    case "update_confidence": {
+      const data = command.executeData as ConfidenceUpdateData;
+      return session.hypothesisCards[data.hypothesisId]?.confidence === data.confidence;
+    }
+    case "set_primary_hypothesis":
+      return session.primaryHypothesisId === (command.executeData as HypothesisStateData).hypothesisId;
+    case "archive_hypothesis":
+      return session.archivedHypothesisIds.includes((command.executeData as HypothesisStateData).hypothesisId);
+    case "restore_hypothesis":
+      return session.alternativeHypothesisIds.includes((command.executeData as HypothesisStateData).hypothesisId);
+    case "record_evidence": {
+      const data = command.executeData as EvidenceRecordData;
+      return session.evidenceLedger.some((entry) => entry.id === data.evidence.id);
+    }
+    case "phase_transition":
+      return session.phase === (command.executeData as PhaseTransitionData).phase;
+    case "update_notes":
+      return session.notes === (command.executeData as NotesUpdateData).notes;
+    case "add_tag":
+      return (session.tags ?? []).includes((command.executeData as TagData).tag);
+    case "remove_tag":
+      return !(session.tags ?? []).includes((command.executeData as TagData).tag);
+    default:
+      return true;
+  }
+}
+
+/**
+ * Index of the most recent command issued by `actor` (any command if no actor)
+ */
+function lastIndexFor(commands: SessionCommand[], actor?: string): number {
+  if (actor === undefined) return commands.length - 1;
+  for (let i = commands.length - 1; i >= 0; i--) {
+    if (commands[i].actor === actor) return i;
+  }
+  return -1;
+}
+
+function without(commands: SessionCommand[], index: number): SessionCommand[] {
+  return [...commands.slice(0, index), ...commands.slice(index + 1)];
+}
+
 /**
  * Execute a command and push it to the undo stack
  */
@@ -818,7 +939,6 @@ export function executeCommand(
 ): { session: Session; stack: UndoStack } {
   const newSession = applyCommand(session, command);
 
-  // Clear redo stack when new command is executed
   const newHistory = [...stack.history, command];
 
   // Trim history if over max
@@ -832,47 +952,59 @@ export function executeCommand(
     stack: {
       ...stack,
       history: trimmedHistory,
-      redoStack: [], // Clear redo on new action
+      // A new action clears the actor's own redo stack, not colleagues'
+      redoStack: stack.redoStack.filter((cmd) => cmd.actor !== command.actor),
     },
   };
 }
 
 /**
- * Undo the last command
+ * Undo the last command (the last one issued by `actor`, when given).
+ *
+ * With an actor, a command whose effect a colleague has since overwritten is
+ * dropped from history without being reversed and returned as `superseded`.
  */
 export function undo(
   session: Session,
-  stack: UndoStack
-): { session: Session; stack: UndoStack } | null {
-  if (stack.history.length === 0) {
+  stack: UndoStack,
+  actor?: string
+): { session: Session; stack: UndoStack; superseded?: SessionCommand } | null {
+  const index = lastIndexFor(stack.history, actor);
+  if (index < 0) {
     return null;
   }
 
-  const command = stack.history[stack.history.length - 1];
-  const newSession = reverseCommand(session, command);
+  const command = stack.history[index];
+  const history = without(stack.history, index);
+
+  if (actor !== undefined && !isCommandCurrent(session, command)) {
+    return { session, stack: { ...stack, history }, superseded: command };
+  }
 
   return {
-    session: newSession,
+    session: reverseCommand(session, command),
     stack: {
       ...stack,
-      history: stack.history.slice(0, -1),
+      history,
       redoStack: [...stack.redoStack, command],
     },
   };
 }
 
 /**
- * Redo the last undone command
+ * Redo the last undone command (the last one undone by `actor`, when given)
  */
 export function redo(
   session: Session,
-  stack: UndoStack
+  stack: UndoStack,
+  actor?: string
 ): { session: Session; stack: UndoStack } | null {
-  if (stack.redoStack.length === 0) {
+  const index = lastIndexFor(stack.redoStack, actor);
+  if (index < 0) {
     return null;
   }
 
-  const command = stack.redoStack[stack.redoStack.length - 1];
+  const command = stack.redoStack[index];
   const newSession = applyCommand(session, command);
 
   return {
@@ -880,7 +1012,7 @@ export function redo(
     stack: {
       ...stack,
       history: [...stack.history, command],
-      redoStack: stack.redoStack.slice(0, -1),
+      redoStack: without(stack.redoStack, index),
     },
   };
 }
@@ -888,31 +1020,31 @@ export function redo(
 /**
  * Check if undo is available
  */
-export function canUndo(stack: UndoStack): boolean {
-  return stack.history.length > 0;
+export function canUndo(stack: UndoStack, actor?: string): boolean {
+  return lastIndexFor(stack.history, actor) >= 0;
 }
 
 /**
  * Check if redo is available
  */
-export function canRedo(stack: UndoStack): boolean {
-  return stack.redoStack.length > 0;
+export function canRedo(stack: UndoStack, actor?: string): boolean {
+  return lastIndexFor(stack.redoStack, actor) >= 0;
 }
 
 /**
  * Get the description of the next undo action
  */
-export function getNextUndoDescription(stack: UndoStack): string | null {
-  if (stack.history.length === 0) return null;
-  return stack.history[stack.history.length - 1].description;
+export function getNextUndoDescription(stack: UndoStack, actor?: string): string | null {
+  const index = lastIndexFor(stack.history, actor);
+  return index < 0 ? null : stack.history[index].description;
 }
 
 /**
  * Get the description of the next redo action
  */
-export function getNextRedoDescription(stack: UndoStack): string | null {
-  if (stack.redoStack.length === 0) return null;
-  return stack.redoStack[stack.redoStack.length - 1].description;
+export function getNextRedoDescription(stack: UndoStack, actor?: string): string | null {
+  const index = lastIndexFor(stack.redoStack, actor);
+  return index < 0 ? null : stack.redoStack[index].description;
 }
 
 /**
@@ -0,0 +1,173 @@
+/**
+ * Tests for the anti-confabulation citation checker.
+ *
+ * Philosophy: NO mocks - parse real transcript markdown and evidence packs.
+ */
+
+import { readFileSync } from "node:fs";
+import { resolve } from "node:path";
+import { describe, expect, test } from "vitest";
+import { createEmptyArtifact } from "./artifact-merge";
+import {
+  buildCitationCorpus,
+  checkArtifactCitations,
+  checkCitation,
+  citationLintViolations,
+  extractQuotedCitations,
+  type CitationEvidencePack,
+} from "./citation-checker";
+import { parseTranscript } from "./transcript-parser";
+
+// ============================================================================
+// Fixtures
+// ============================================================================
+
+const TRANSCRIPT = [
+  "# Test Transcript",
+  "",
+  "## 1. On exclusion",
+  "",
+  "> Exclusion is always a tremendously good thing in science, because it narrows the field.",
+  "",
+  "## 2. On conversation",
+  "",
+  "> I think conversation is the most important thing; you should talk to people who know more than you.",
+  "",
+  "## 3. On model organisms",
+  "",
+  "> The worm was chosen because it was small and we could look at every cell in the animal.",
+  "",
+].join("\n");
+
+const EVIDENCE: CitationEvidencePack = {
+  records: [
+    {
+      id: "EV-001",
+      title: "Vesicle depletion",
+      excerpts: [
+        { anchor: "E1", text: "Recovery time constant was measured at 487 ± 32 ms", verbatim: true },
+        { anchor: "E2", text: "Depletion followed a single exponential in all preparations", verbatim: true },
+      ],
+    },
+  ],
+};
+
+const corpus = buildCitationCorpus({ transcript: parseTranscript(TRANSCRIPT), evidence: EVIDENCE });
+
+function check(quote: string, anchor: string) {
+  return checkCitation({ quote, anchor, location: "H1.claim" }, corpus);
+}
+
+// ============================================================================
+// Extraction
+// ============================================================================
+
+describe("extractQuotedCitations", () => {
+  test("finds quotes followed or preceded by an anchor, skipping scare quotes", () => {
+    const text =
+      'Brenner said "exclusion is always a tremendously good thing" (§1). ' +
+      '§2: “you should talk to people who know more” and EV-001#E1 "recovery time constant was measured" ' +
+      'but "small" (§3) is too short.';
+
+    expect(extractQuotedCitations(text, "RT.statement")).toEqual([
+      { quote: "exclusion is always a tremendously good thing", anchor: "§1", location: "RT.statement" },
+      { quote: "you should talk to people who know more", anchor: "§2", location: "RT.statement" },
+      { quote: "recovery time constant was measured", anchor: "EV-001#E1", location: "RT.statement" },
+    ]);
+  });
+});
+
+// ============================================================================
+// Classification
+// ============================================================================
+
+describe("checkCitation", () => {
+  test("verifies verbatim quotes regardless of case and punctuation", () => {
+    expect(check("Exclusion is always a tremendously good thing in science!", "§1").status).toBe("verified");
+    expect(check("exclusion is always ... because it narrows the field", "§1").status).toBe("verified");
+    expect(check("Recovery time constant was measured at 487", "EV-001").status).toBe("verified");
+  });
+
+  test("flags misquotes with the actual passage", () => {
+    const result = check("Exclusion is always a very good thing in science", "§1");
+    expect(result.status).toBe("misquote");
+    expect(result.cited?.anchor).toBe("§1");
+    expect(result.cited?.excerpt).toBe("Exclusion is always a tremendously good thing in science");
+  });
+
+  test("flags wrong-section attributions and suggests the right anchor", () => {
+    const result = check("we could look at every cell in the animal", "§1-2");
+    expect(result.status).toBe("wrong_anchor");
+    expect(result.suggestions[0]).toMatchObject({ anchor: "§3", score: 1 });
+
+    expect(check("depletion followed a single exponential", "EV-001#E1").suggestions[0]?.anchor).toBe("EV-001#E2");
+  });
+
+  test("flags fabricated quotes and unknown anchors", () => {
+    expect(check("Theory is the enemy of good experimental biology", "§2").status).toBe("fabricated");
+
+    const unknown = check("Exclusion is always a tremendously good thing", "§99");
+    expect(unknown.status).toBe("unresolved");
+    expect(unknown.suggestions[0]?.anchor).toBe("§1");
+  });
+});
+
+// ============================================================================
+// Artifact Reports
+// ============================================================================
+
+describe("checkArtifactCitations", () => {
+  test("scans artifact text fields and converts findings to lint violations", () => {
+    const artifact = createEmptyArtifact("RS-CITES");
+    artifact.sections.hypothesis_slate = [
+      {
+        id: "H1",
+        name: "Exclusion",
+        claim: 'As Brenner put it, "exclusion is always a tremendously good thing in science" (§1)',
+        mechanism: 'He also said "you must never talk to anyone who knows more than you" (§2)',
+        anchors: ["§1"],
+      },
+    ];
+    artifact.sections.discriminative_tests = [
+      {
+        id: "T1",
+        name: "Worm screen",
+        procedure: 'Pick the organism where "we could look at every cell in the animal" (§1)',
+        discriminates: "H1",
+        expected_outcomes: {},
+        potency_check: '"Recovery time constant was measured at 487" (EV-002#E1)',
+      },
+    ];
+
+    const report = checkArtifactCitations(artifact, corpus);
+    expect(report.summary).toEqual({ verified: 1, misquote: 0, wrong_anchor: 1, fabricated: 1, unresolved: 1 });
+
+    const violations = citationLintViolations(report);
+    expect(violations.map((v) => v.id)).toEqual(["EP-P02", "WP-P05", "WP-P06"]);
+    expect(violations[0].message).toContain("H1.mechanism");
+    expect(violations[1].fix).toBe("Cite §3 instead of §1");
+    expect(violations[2].fix).toContain("EV-001#E1");
+  });
+
+  test("skips citations into collections that were not loaded", () => {
+    const artifact = createEmptyArtifact("RS-CITES");
+    artifact.sections.hypothesis_slate = [
+      { id: "H1", name: "N", claim: '"Recovery time constant was measured at 487" (EV-001#E1)', mechanism: "M" },
+    ];
+
+    const transcriptOnly = buildCitationCorpus({ transcript: parseTranscript(TRANSCRIPT) });
+    expect(checkArtifactCitations(artifact, transcriptOnly).checks).toEqual([]);
+  });
+
+  test("verifies against the full Brenner transcript", () => {
+    const markdown = readFileSync(resolve(__dirname, "../../../../complete_brenner_transcript.md"), "utf8");
+    const full = buildCitationCorpus({ transcript: parseTranscript(markdown) });
+    const quote = "Mercury may have been the messenger of the gods, but he was also the god of the thieves";
+
+    expect(checkCitation({ quote, anchor: "§105", location: "RT" }, full).status).toBe("verified");
+
+    const moved = checkCitation({ quote, anchor: "§12", location: "RT" }, full);
+    expect(moved.status).toBe("wrong_anchor");
+    expect(moved.suggestions[0]?.anchor).toBe("§105");
+  });
+});
@@ -0,0 +1,523 @@
+/**
+ * Citation Checker
+ *
+ * Verifies that quoted text attributed to a transcript anchor (`§n`) or an
+ * evidence excerpt (`EV-NNN#EN`) actually appears in that source.
+ *
+ * The artifact linter only checks that anchors exist and are well-formed;
+ * agents regularly paraphrase Brenner and present the paraphrase as verbatim.
+ * This module fuzzy-matches each quoted span against the parsed transcript and
+ * evidence pack excerpts, and classifies it as:
+ *
+ * - verified: the quote appears verbatim (ignoring case and punctuation)
+ * - misquote: the cited source contains a close but not identical passage
+ * - wrong_anchor: the quote belongs to a different section/excerpt
+ * - fabricated: nothing in the corpus resembles the quote
+ * - unresolved: the cited anchor is not in the loaded corpus
+ *
+ * Recognized attribution forms (straight or curly double quotes):
+ * ```
+ * "Exclusion is always a tremendously good thing in science" (§147)
+ * "Recovery time constant was 487 ms" EV-001#E1
+ * §147: "Exclusion is always ..."
+ * ```
+ *
+ * @see specs/evidence_pack_v0.1.md
+ * @see specs/artifact_linter_spec_v0.1.md (EP-P02, WP-P04..WP-P06)
+ */
+
+import type { Artifact, LintViolation } from "./artifact-merge";
+import type { ParsedTranscript } from "./transcript-parser";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Minimal evidence pack shape needed for verification (see evidence_pack_v0.1) */
+export interface CitationEvidencePack {
+  records: Array<{
+    id: string;
+    title?: string;
+    excerpts: Array<{ anchor: string; text: string; verbatim?: boolean }>;
+  }>;
+}
+
+/** One quotable unit: a transcript section or an evidence excerpt */
+export interface CitationSource {
+  /** Canonical anchor: "§42" or "EV-001#E1" */
+  anchor: string;
+  /** Human label (section title or record title) */
+  label: string;
+  text: string;
+}
+
+/** Searchable index over transcript sections and evidence excerpts */
+export interface CitationCorpus {
+  /** Whether transcript (§n) citations can be checked */
+  hasTranscript: boolean;
+  /** Whether evidence (EV-NNN) citations can be checked */
+  hasEvidence: boolean;
+  sources: IndexedSource[];
+}
+
+interface IndexedSource extends CitationSource {
+  tokens: Token[];
+}
+
+interface Token {
+  /** Lowercased word with apostrophes removed */
+  norm: string;
+  start: number;
+  end: number;
+}
+
+/** A quoted span attributed to an anchor */
+export interface QuotedCitation {
+  quote: string;
+  /** Anchor as written (e.g. "§42-45", "EV-001#E1") */
+  anchor: string;
+  /** Where the quote appears (e.g. "H1.claim") */
+  location: string;
+}
+
+export type CitationStatus = "verified" | "misquote" | "wrong_anchor" | "fabricated" | "unresolved";
+
+export interface CitationMatch {
+  anchor: string;
+  /** Alignment score in [0, 1]; 1 means verbatim */
+  score: number;
+  /** The closest passage in the source, as written there */
+  excerpt: string;
+}
+
+export interface CitationCheck {
+  citation: QuotedCitation;
+  status: CitationStatus;
+  /** Best match within the cited anchor (absent when unresolved) */
+  cited?: CitationMatch;
+  /** Better-matching anchors, best first */
+  suggestions: CitationMatch[];
+}
+
+export interface CitationReport {
+  checks: CitationCheck[];
+  summary: Record<CitationStatus, number>;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Quotes shorter than this are treated as scare quotes, not citations */
+const MIN_QUOTE_TOKENS = 4;
+
+/** Minimum alignment score for a passage to count as "the same passage" */
+const MISQUOTE_THRESHOLD = 0.6;
+
+/** Floating-point tolerance for "verbatim" */
+const VERBATIM_EPSILON = 1e-9;
+
+const MAX_SUGGESTIONS = 3;
+
+const TRANSCRIPT_ANCHOR = String.raw`§\s*\d+(?:\s*-\s*\d+)?`;
+const EVIDENCE_ANCHOR = String.raw`EV-\d+(?:#E\d+)?`;
+const ANCHOR = `(?:${TRANSCRIPT_ANCHOR}|${EVIDENCE_ANCHOR})`;
+const QUOTE = String.raw`(?:"([^"\n]+)"|“([^”\n]+)”)`;
+
+/** `"quote" (§42)`, `"quote" §42`, `"quote" [EV-001#E1]` */
+const QUOTE_THEN_ANCHOR = new RegExp(`${QUOTE}\\s*[(\\[]?\\s*(${ANCHOR})`, "giu");
+/** `§42: "quote"`, `(§42) "quote"` */
+const ANCHOR_THEN_QUOTE = new RegExp(`(${ANCHOR})\\s*[)\\]]?\\s*[:—–-]?\\s*${QUOTE}`, "giu");
+
+// ============================================================================
+// Corpus
+// ============================================================================
+
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  for (const match of text.matchAll(/[\p{L}\p{N}]+(?:['’][\p{L}\p{N}]+)*/gu)) {
+    const start = match.index ?? 0;
+    tokens.push({
+      norm: match[0].toLowerCase().replace(/['’]/g, ""),
+      start,
+      end: start + match[0].length,
+    });
+  }
+  return tokens;
+}
+
+function indexSource(source: CitationSource): IndexedSource {
+  return { ...source, tokens: tokenize(source.text) };
+}
+
+/**
+ * Build the corpus from the parsed transcript and/or an evidence pack.
+ * Either may be omitted; citations into a missing collection are skipped.
+ */
+export function buildCitationCorpus(input: {
+  transcript?: ParsedTranscript | null;
+  evidence?: CitationEvidencePack | null;
+}): CitationCorpus {
+  const sources: IndexedSource[] = [];
+
+  for (const section of input.transcript?.sections ?? []) {
+    sources.push(
+      indexSource({
+        anchor: `§${section.number}`,
+        label: section.title,
+        text: section.content.map((c) => c.text).join("\n"),
+      })
+    );
+  }
+
+  for (const record of input.evidence?.records ?? []) {
+    for (const excerpt of record.excerpts) {
+      sources.push(
+        indexSource({
+          anchor: `${record.id}#${excerpt.anchor}`,
+          label: record.title ?? record.id,
+          text: excerpt.text,
+        })
+      );
+    }
+  }
+
+  return {
+    hasTranscript: Boolean(input.transcript && input.transcript.sections.length > 0),
+    hasEvidence: Boolean(input.evidence),
+    sources,
+  };
+}
+
+/** Expand an anchor as written into the canonical source anchors it covers. */
+function expandAnchor(anchor: string): string[] {
+  const compact = anchor.replace(/\s+/g, "");
+  const range = compact.match(/^§(\d+)(?:-(\d+))?$/);
+  if (range) {
+    const start = Number.parseInt(range[1], 10);
+    const end = range[2] ? Number.parseInt(range[2], 10) : start;
+    const anchors: string[] = [];
+    for (let n = start; n <= end; n++) anchors.push(`§${n}`);
+    return anchors;
+  }
+  return [compact.toUpperCase()];
+}
+
+function sourcesForAnchor(corpus: CitationCorpus, anchor: string): IndexedSource[] {
+  const wanted = expandAnchor(anchor);
+  return corpus.sources.filter((source) =>
+    wanted.some((w) => source.anchor === w || (!w.includes("#") && w.startsWith("EV-") && source.anchor.startsWith(`${w}#`)))
+  );
+}
+
+function isCheckable(corpus: CitationCorpus, anchor: string): boolean {
+  return anchor.trim().startsWith("§") ? corpus.hasTranscript : corpus.hasEvidence;
+}
+
+// ============================================================================
+// Extraction
+// ============================================================================
+
+/**
+ * Find quoted spans attributed to an anchor within free text.
+ */
+export function extractQuotedCitations(text: string, location: string): QuotedCitation[] {
+  const citations: QuotedCitation[] = [];
+  const seen = new Set<string>();
+  const add = (rawQuote: string | undefined, anchor: string) => {
+    const quote = (rawQuote ?? "").trim();
+    // A quote bracketed by two anchors belongs to the one that follows it
+    if (!quote || seen.has(quote)) return;
+    seen.add(quote);
+    citations.push({ quote, anchor: anchor.trim(), location });
+  };
+
+  for (const match of text.matchAll(QUOTE_THEN_ANCHOR)) add(match[1] ?? match[2], match[3]);
+  for (const match of text.matchAll(ANCHOR_THEN_QUOTE)) add(match[2] ?? match[3], match[1]);
+
+  return citations.filter((c) => tokenize(c.quote).length >= MIN_QUOTE_TOKENS);
+}
+
+function collectStrings(value: unknown, path: string, out: Array<{ path: string; text: string }>): void {
+  if (typeof value === "string") {
+    out.push({ path, text: value });
+  } else if (Array.isArray(value)) {
+    value.forEach((entry, i) => collectStrings(entry, `${path}[${i}]`, out));
+  } else if (typeof value === "object" && value !== null) {
+    for (const [key, entry] of Object.entries(value)) collectStrings(entry, `${path}.${key}`, out);
+  }
+}
+
+/**
+ * Find quoted citations in every text field of an artifact.
+ * Locations read like "H1.claim" or "RT.statement".
+ */
+export function extractArtifactCitations(artifact: Artifact): QuotedCitation[] {
+  const fields: Array<{ path: string; text: string }> = [];
+  const rt = artifact.sections.research_thread;
+  if (rt) collectStrings(rt, "RT", fields);
+
+  const listSections = [
+    artifact.sections.hypothesis_slate,
+    artifact.sections.predictions_table,
+    artifact.sections.discriminative_tests,
+    artifact.sections.assumption_ledger,
+    artifact.sections.anomaly_register,
+    artifact.sections.adversarial_critique,
+  ];
+  for (const items of listSections) {
+    for (const item of items) {
+      const { id, ...rest } = item;
+      collectStrings(rest, id, fields);
+    }
+  }
+
+  return fields.flatMap(({ path, text }) => extractQuotedCitations(text, path));
+}
+
+// ============================================================================
+// Matching
+// ============================================================================
+
+/**
+ * Local alignment (Smith-Waterman over words) of a quote against a source.
+ * Score is normalized by quote length: 1 means the quote occurs verbatim.
+ */
+function alignTokens(quote: string[], source: Token[]): { score: number; start: number; end: number } {
+  const m = quote.length;
+  if (m === 0 || source.length === 0) return { score: 0, start: 0, end: 0 };
+
+  let prev = new Int32Array(m + 1);
+  let curr = new Int32Array(m + 1);
+  let prevStart = new Int32Array(m + 1);
+  let currStart = new Int32Array(m + 1);
+  let best = 0;
+  let bestStart = 0;
+  let bestEnd = 0;
+
+  for (let j = 1; j <= source.length; j++) {
+    const word = source[j - 1].norm;
+    curr[0] = 0;
+    currStart[0] = j;
+    for (let i = 1; i <= m; i++) {
+      const diagonal = prev[i - 1] + (quote[i - 1] === word ? 1 : -1);
+      const skipSource = prev[i] - 1;
+      const skipQuote = curr[i - 1] - 1;
+
+      let value = 0;
+      let start = j;
+      if (diagonal > value) {
+        value = diagonal;
+        start = prev[i - 1] > 0 ? prevStart[i - 1] : j - 1;
+      }
+      if (skipSource > value) {
+        value = skipSource;
+        start = prevStart[i];
+      }
+      if (skipQuote > value) {
+        value = skipQuote;
+        start = currStart[i - 1];
+      }
+
+      curr[i] = value;
+      currStart[i] = start;
+      if (value > best) {
+        best = value;
+        bestStart = start;
+        bestEnd = j;
+      }
+    }
+    [prev, curr] = [curr, prev];
+    [prevStart, currStart] = [currStart, prevStart];
+  }
+
+  return { score: best / m, start: bestStart, end: bestEnd };
+}
+
+/**
+ * Score a quote against one source. Ellipses ("..." / "…") split the quote
+ * into fragments that are matched independently.
+ */
+function matchSource(quote: string, source: IndexedSource): CitationMatch {
+  const fragments = quote
+    .split(/\.{3}|…/)
+    .map((fragment) => tokenize(fragment).map((t) => t.norm))
+    .filter((tokens) => tokens.length > 0);
+  const total = fragments.reduce((sum, tokens) => sum + tokens.length, 0);
+
+  let weighted = 0;
+  let first = Number.POSITIVE_INFINITY;
+  let last = 0;
+  for (const tokens of fragments) {
+    const aligned = alignTokens(tokens, source.tokens);
+    weighted += aligned.score * tokens.length;
+    if (aligned.end > aligned.start) {
+      first = Math.min(first, aligned.start);
+      last = Math.max(last, aligned.end);
+    }
+  }
+
+  const excerpt =
+    last > 0 ? source.text.slice(source.tokens[first].start, source.tokens[last - 1].end).replace(/\s+/g, " ") : "";
+  return { anchor: source.anchor, score: total > 0 ? weighted / total : 0, excerpt };
+}
+
+function bestMatch(quote: string, sources: IndexedSource[]): CitationMatch | null {
+  let best: CitationMatch | null = null;
+  for (const source of sources) {
+    const match = matchSource(quote, source);
+    if (!best || match.score > best.score) best = match;
+  }
+  return best;
+}
+
+function isVerbatim(match: CitationMatch | null | undefined): boolean {
+  return Boolean(match && match.score >= 1 - VERBATIM_EPSILON);
+}
+
+/**
+ * Check one quoted citation against the corpus.
+ */
+export function checkCitation(citation: QuotedCitation, corpus: CitationCorpus): CitationCheck {
+  const citedSources = sourcesForAnchor(corpus, citation.anchor);
+  const cited = bestMatch(citation.quote, citedSources) ?? undefined;
+
+  if (cited && isVerbatim(cited)) {
+    return { citation, status: "verified", cited, suggestions: [] };
+  }
+
+  const citedAnchors = new Set(citedSources.map((s) => s.anchor));
+  const floor = Math.max(MISQUOTE_THRESHOLD, cited?.score ?? 0);
+  const suggestions = corpus.sources
+    .filter((source) => !citedAnchors.has(source.anchor))
+    .map((source) => matchSource(citation.quote, source))
+    .filter((match) => match.score >= floor && match.score > (cited?.score ?? 0))
+    .sort((a, b) => b.score - a.score || a.anchor.localeCompare(b.anchor))
+    .slice(0, MAX_SUGGESTIONS);
+
+  if (!cited) {
+    return { citation, status: "unresolved", suggestions };
+  }
+
+  const citedIsClose = cited.score >= MISQUOTE_THRESHOLD;
+  if (suggestions.length > 0 && (isVerbatim(suggestions[0]) || !citedIsClose)) {
+    return { citation, status: "wrong_anchor", cited, suggestions };
+  }
+  if (citedIsClose) {
+    return { citation, status: "misquote", cited, suggestions };
+  }
+  return { citation, status: "fabricated", cited, suggestions };
+}
+
+/**
+ * Check every quoted citation in an artifact. Citations into a collection
+ * that was not loaded (no transcript, no evidence pack) are skipped.
+ */
+export function checkArtifactCitations(artifact: Artifact, corpus: CitationCorpus): CitationReport {
+  const checks = extractArtifactCitations(artifact)
+    .filter((citation) => isCheckable(corpus, citation.anchor))
+    .map((citation) => checkCitation(citation, corpus));
+
+  const summary: Record<CitationStatus, number> = {
+    verified: 0,
+    misquote: 0,
+    wrong_anchor: 0,
+    fabricated: 0,
+    unresolved: 0,
+  };
+  for (const check of checks) summary[check.status]++;
+
+  return { checks, summary };
+}
+
+// ============================================================================
+// Lint Integration
+// ============================================================================
+
+function clip(text: string, max = 80): string {
+  const flat = text.replace(/\s+/g, " ").trim();
+  return flat.length > max ? `${flat.slice(0, max - 1)}…` : flat;
+}
+
+function suggestionList(suggestions: CitationMatch[]): string {
+  return suggestions.map((s) => s.anchor).join(", ");
+}
+
+/**
+ * Describe a non-verified check in one line (used by lint and the brief page).
+ */
+export function formatCitationCheck(check: CitationCheck): string {
+  const { citation, cited, suggestions } = check;
+  const head = `${citation.location}: "${clip(citation.quote, 60)}" (${citation.anchor})`;
+
+  switch (check.status) {
+    case "verified":
+      return `${head} verified`;
+    case "misquote":
+      return `${head} is not verbatim; ${cited?.anchor} reads "${clip(cited?.excerpt ?? "")}"`;
+    case "wrong_anchor":
+      return `${head} is attributed to the wrong source; found in ${suggestionList(suggestions)}`;
+    case "fabricated":
+      return `${head} does not appear in ${citation.anchor} or anywhere in the corpus`;
+    case "unresolved":
+      return `${head} cites an anchor that is not in the corpus`;
+  }
+}
+
+/**
+ * Convert a citation report into lint violations:
+ *
+ * - EP-P02 (error): fabricated quote
+ * - WP-P04 (warning): misquote of the cited source
+ * - WP-P05 (warning): quote attributed to the wrong anchor
+ * - WP-P06 (warning): quote cites an anchor missing from the corpus
+ */
+export function citationLintViolations(report: CitationReport): LintViolation[] {
+  const violations: LintViolation[] = [];
+
+  for (const check of report.checks) {
+    const message = formatCitationCheck(check);
+    const best = check.suggestions[0];
+
+    switch (check.status) {
+      case "verified":
+        break;
+      case "fabricated":
+        violations.push({
+          id: "EP-P02",
+          severity: "error",
+          message,
+          fix: "Quote the source verbatim, or drop the quotation marks and label the claim [inference]",
+        });
+        break;
+      case "misquote":
+        violations.push({
+          id: "WP-P04",
+          severity: "warning",
+          message,
+          fix: `Replace the quote with the verbatim text from ${check.cited?.anchor}`,
+        });
+        break;
+      case "wrong_anchor":
+        violations.push({
+          id: "WP-P05",
+          severity: "warning",
+          message,
+          ...(best ? { fix: `Cite ${best.anchor} instead of ${check.citation.anchor}` } : {}),
+        });
+        break;
+      case "unresolved":
+        violations.push({
+          id: "WP-P06",
+          severity: "warning",
+          message,
+          fix: best
+            ? `The quote matches ${best.anchor}; cite that instead`
+            : "Add the excerpt to the evidence pack or correct the anchor",
+        });
+        break;
+    }
+  }
+
+  return violations;
+}
@@ -203,8 +203,9 @@ function isRecord(value: unknown): value is Record<string, unknown> {
 
 /**
  * Validate a raw delta object for required fields and structure.
+ * Exported for the repair pass, which re-validates corrected objects.
  */
-function validateDelta(raw: unknown, rawJson: string): ParsedDelta {
+export function validateDelta(raw: unknown, rawJson: string): ParsedDelta {
   if (!isRecord(raw)) {
     return { valid: false, error: "Delta is not an object", raw: rawJson };
   }
@@ -364,7 +365,7 @@ function extractDeltaBlocks(body: string): string[] {
  * - Removes multi-line comments (/* ... *\/)
  * - Removes trailing commas
  */
-function sanitizeJson(str: string): string {
+export function sanitizeJson(str: string): string {
   // 1. Remove comments while preserving strings
   // Matches: "string" OR // comment OR /* comment */
   const commentRegex = /("(?:[^"\\]|\\.)*")|(\/\/.*)|(\/\*[\s\S]*?\*\/)/g;
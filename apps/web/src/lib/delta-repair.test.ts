@@ -0,0 +1,170 @@
+/**
+ * Delta Repair Tests
+ *
+ * Verifies classification and correction of near-miss delta blocks.
+ * Philosophy: NO mocks - feed real message bodies through the repair pass.
+ */
+
+import { describe, expect, it } from "vitest";
+import { parseDeltaMessage } from "./delta-parser";
+import { formatDeltaRepairRequest, repairDelta, repairDeltaMessage } from "./delta-repair";
+
+function fence(content: string, lang = "delta"): string {
+  return ["```" + lang, content, "```"].join("\n");
+}
+
+describe("repairDelta", () => {
+  it("maps section aliases and prefixes bare target ids", () => {
+    const proposal = repairDelta(
+      JSON.stringify({
+        operation: "EDIT",
+        section: "Hypotheses",
+        target_id: "3",
+        payload: { claim: "Sharper claim" },
+      })
+    );
+
+    expect(proposal.kinds).toEqual(["section_name", "target_id_prefix"]);
+    expect(proposal.repaired).toMatchObject({ section: "hypothesis_slate", target_id: "H3", operation: "EDIT" });
+    expect(proposal.confidence).toBeCloseTo(0.9 * 0.9);
+    expect(proposal.corrected).toContain('"target_id": "H3"');
+    expect(proposal.corrected?.startsWith("```delta")).toBe(true);
+  });
+
+  it("normalizes operation names and numeric target ids", () => {
+    const proposal = repairDelta('{"operation": "delete", "section": "assumption_ledger", "target_id": 2, "payload": {"reason": "Falsified"}}');
+
+    expect(proposal.kinds).toEqual(["operation_name", "target_id_prefix"]);
+    expect(proposal.repaired).toMatchObject({ operation: "KILL", target_id: "A2" });
+  });
+
+  it("converts YAML blocks to JSON", () => {
+    const yaml = [
+      "operation: ADD",
+      "section: hypothesis_slate",
+      "target_id: null",
+      "payload:",
+      "  name: Receptor clustering",
+      '  claim: "Clustering drives the threshold"',
+      "  mechanism: |",
+      "    Receptors cluster",
+      "    and cooperate",
+      "  anchors:",
+      "    - §12",
+      "    - §40",
+      "rationale: Explains the sharp threshold",
+    ].join("\n");
+
+    const proposal = repairDelta(yaml);
+
+    expect(proposal.kinds).toEqual(["yaml_payload"]);
+    expect(proposal.confidence).toBe(0.85);
+    expect(proposal.repaired?.payload).toEqual({
+      name: "Receptor clustering",
+      claim: "Clustering drives the threshold",
+      mechanism: "Receptors cluster\nand cooperate",
+      anchors: ["§12", "§40"],
+    });
+    expect(proposal.repaired?.rationale).toBe("Explains the sharp threshold");
+  });
+
+  it("extracts payloads wrapped in prose and relaxes JS-style syntax", () => {
+    const proposal = repairDelta(
+      "Here is my delta: {operation: 'ADD', section: 'anomaly_register', payload: {name: 'Persistence', observation: \"Effect persists\", conflicts_with: ['H1']}} — thanks!"
+    );
+
+    expect(proposal.kinds).toEqual(["prose_in_block", "json_syntax"]);
+    expect(proposal.repaired).toMatchObject({
+      section: "anomaly_register",
+      payload: { name: "Persistence", conflicts_with: ["H1"] },
+    });
+  });
+
+  it("renames envelope fields and wraps stray payload fields", () => {
+    const proposal = repairDelta(
+      JSON.stringify({ op: "ADD", section: "hypothesis_slate", name: "H", claim: "C", mechanism: "M", why: "Because" })
+    );
+
+    expect(proposal.kinds).toEqual(["field_names", "payload_shape"]);
+    expect(proposal.repaired).toMatchObject({
+      operation: "ADD",
+      payload: { name: "H", claim: "C", mechanism: "M" },
+      rationale: "Because",
+    });
+  });
+
+  it("moves a top-level kill reason into the payload", () => {
+    const proposal = repairDelta(JSON.stringify({ operation: "KILL", section: "hypothesis_slate", target_id: "H2", reason: "Refuted" }));
+
+    expect(proposal.kinds).toEqual(["payload_shape"]);
+    expect(proposal.repaired?.payload).toEqual({ reason: "Refuted" });
+  });
+
+  it("reports unrepairable blocks with zero confidence", () => {
+    const proposal = repairDelta("I think we should reconsider H2.", "Invalid JSON: Unexpected token");
+
+    expect(proposal.kinds).toEqual(["unrepairable"]);
+    expect(proposal.repaired).toBeNull();
+    expect(proposal.corrected).toBeNull();
+    expect(proposal.confidence).toBe(0);
+    expect(proposal.error).toBe("Invalid JSON: Unexpected token");
+  });
+});
+
+describe("repairDeltaMessage", () => {
+  it("proposes fixes for invalid blocks and mis-prefixed targets, leaving good blocks alone", () => {
+    const body = [
+      "## Deltas",
+      fence(JSON.stringify({ operation: "ADD", section: "hypothesis_slate", target_id: null, payload: { name: "A", claim: "B", mechanism: "C" } })),
+      fence(JSON.stringify({ operation: "ADD", section: "tests", target_id: null, payload: { name: "T" } })),
+      fence(JSON.stringify({ operation: "EDIT", section: "predictions_table", target_id: "4", payload: { condition: "X" } })),
+    ].join("\n\n");
+
+    expect(parseDeltaMessage(body).invalidCount).toBe(1);
+
+    const proposals = repairDeltaMessage(body);
+
+    expect(proposals).toHaveLength(2);
+    expect(proposals[0].repaired?.section).toBe("discriminative_tests");
+    expect(proposals[1].error).toContain('lacks the "P" prefix');
+    expect(proposals[1].repaired?.target_id).toBe("P4");
+  });
+
+  it("recovers deltas from other fences and inline JSON when no delta fence exists", () => {
+    const wrongFence = ["Here it is:", fence('{"operation": "ADD", "section": "critique", "payload": {"name": "N"}}', "json")].join("\n");
+    const inline = 'My delta is {"operation": "KILL", "section": "hypothesis_slate", "target_id": "H1", "payload": {"reason": "Dead"}} as discussed.';
+
+    const fenced = repairDeltaMessage(wrongFence);
+    expect(fenced).toHaveLength(1);
+    expect(fenced[0].source).toBe("other_fence");
+    expect(fenced[0].kinds).toEqual(["wrong_fence", "section_name"]);
+    expect(fenced[0].repaired?.section).toBe("adversarial_critique");
+
+    const unfenced = repairDeltaMessage(inline);
+    expect(unfenced).toHaveLength(1);
+    expect(unfenced[0].source).toBe("unfenced");
+    expect(unfenced[0].confidence).toBe(0.85);
+  });
+
+  it("returns nothing for healthy messages", () => {
+    const body = fence(JSON.stringify({ operation: "KILL", section: "hypothesis_slate", target_id: "H1", payload: { reason: "Refuted" } }));
+    expect(repairDeltaMessage(body)).toEqual([]);
+  });
+});
+
+describe("formatDeltaRepairRequest", () => {
+  it("quotes the original block and the exact correction", () => {
+    const raw = JSON.stringify({ operation: "EDIT", section: "hypotheses", target_id: "2", payload: { claim: "C" } });
+    const text = formatDeltaRepairRequest(
+      [{ messageId: 7, subject: "DELTA[gpt]: refine H2", proposals: [repairDelta(raw, 'Invalid section: "hypotheses"')] }],
+      "RS-1"
+    );
+
+    expect(text).toContain("Thread: RS-1");
+    expect(text).toContain("## Message #7, block 1: DELTA[gpt]: refine H2");
+    expect(text).toContain('- Problem: Invalid section: "hypotheses"');
+    expect(text).toContain('- Fix (target_id_prefix): target_id "2" → "H2"');
+    expect(text).toContain(raw);
+    expect(text).toContain('"section": "hypothesis_slate"');
+  });
+});
@@ -0,0 +1,733 @@
+/**
+ * Brenner Protocol Delta Repair
+ *
+ * Recovery pass for delta blocks that `parseDeltaMessage` rejects (or accepts
+ * with a target_id the merge step will not find). Agents often emit near-miss
+ * blocks: a section called "hypotheses", an EDIT of target "3", YAML instead
+ * of JSON, or the payload wrapped in prose or a ```json fence. Each failure is
+ * classified and, when possible, a corrected delta is proposed together with
+ * a confidence score so the operator (or a nudge) can confirm it.
+ *
+ * Repairs are proposals only: nothing here changes what the compiler merges.
+ *
+ * Usage:
+ * ```typescript
+ * import { repairDeltaMessage, formatDeltaRepairRequest } from "./delta-repair";
+ *
+ * const proposals = repairDeltaMessage(messageBody);
+ * for (const p of proposals) {
+ *   if (p.repaired) console.log(p.confidence, p.corrected);
+ * }
+ * ```
+ */
+
+import {
+  SECTION_ID_PREFIXES,
+  parseDeltaMessage,
+  sanitizeJson,
+  validateDelta,
+  validateTargetIdPrefix,
+  type DeltaOperation,
+  type DeltaSection,
+  type ValidDelta,
+} from "./delta-parser";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Classification of what was wrong with a delta */
+export type DeltaRepairKind =
+  | "wrong_fence"
+  | "unfenced"
+  | "prose_in_block"
+  | "json_syntax"
+  | "yaml_payload"
+  | "field_names"
+  | "operation_name"
+  | "section_name"
+  | "payload_shape"
+  | "target_id_prefix"
+  | "unrepairable";
+
+/** A single correction applied while repairing a delta */
+export interface DeltaRepairFix {
+  kind: DeltaRepairKind;
+  /** Human-readable description, e.g. `section "hypotheses" → "hypothesis_slate"` */
+  description: string;
+  /** How likely this correction matches the agent's intent (0–1) */
+  confidence: number;
+}
+
+/** Where the candidate delta was found in the message */
+export type DeltaRepairSource = "delta_block" | "other_fence" | "unfenced";
+
+/** Repair proposal for one problematic delta */
+export interface DeltaRepairProposal {
+  source: DeltaRepairSource;
+  /** Original text of the block (or the unfenced payload) */
+  raw: string;
+  /** Why the parser rejected it (or why the merge would miss it) */
+  error: string;
+  /** Failure classes, in the order they were corrected */
+  kinds: DeltaRepairKind[];
+  fixes: DeltaRepairFix[];
+  /** Corrected delta, or null when no valid delta could be recovered */
+  repaired: ValidDelta | null;
+  /** Corrected block as a fenced ```delta snippet, ready to resend */
+  corrected: string | null;
+  /** Product of the fix confidences (0 when unrepairable) */
+  confidence: number;
+}
+
+/** Repair proposals grouped by the message they came from */
+export interface DeltaRepairRequestItem {
+  messageId: number;
+  subject: string;
+  proposals: DeltaRepairProposal[];
+}
+
+// ============================================================================
+// Aliases
+// ============================================================================
+
+const SECTIONS = Object.keys(SECTION_ID_PREFIXES) as DeltaSection[];
+
+const OPERATION_ALIASES: Record<string, DeltaOperation> = {
+  add: "ADD",
+  create: "ADD",
+  new: "ADD",
+  insert: "ADD",
+  append: "ADD",
+  edit: "EDIT",
+  update: "EDIT",
+  modify: "EDIT",
+  change: "EDIT",
+  revise: "EDIT",
+  kill: "KILL",
+  delete: "KILL",
+  remove: "KILL",
+  drop: "KILL",
+  reject: "KILL",
+};
+
+/** Keyed by normalized name (lowercase, underscores, trailing "s" stripped) */
+const SECTION_ALIASES: Record<string, DeltaSection> = {
+  hypothesis: "hypothesis_slate",
+  hypothese: "hypothesis_slate",
+  hypothesis_slate: "hypothesis_slate",
+  hypotheses_slate: "hypothesis_slate",
+  hypothesis_list: "hypothesis_slate",
+  slate: "hypothesis_slate",
+  prediction: "predictions_table",
+  prediction_table: "predictions_table",
+  predictions_table: "predictions_table",
+  test: "discriminative_tests",
+  discriminative_test: "discriminative_tests",
+  discriminating_test: "discriminative_tests",
+  test_table: "discriminative_tests",
+  assumption: "assumption_ledger",
+  assumption_ledger: "assumption_ledger",
+  assumptions_ledger: "assumption_ledger",
+  anomaly: "anomaly_register",
+  anomalie: "anomaly_register",
+  anomaly_register: "anomaly_register",
+  anomalies_register: "anomaly_register",
+  critique: "adversarial_critique",
+  adversarial_critique: "adversarial_critique",
+  critique_register: "adversarial_critique",
+  research_thread: "research_thread",
+  thread: "research_thread",
+  research_question: "research_thread",
+};
+
+/** Top-level field aliases → canonical envelope field */
+const FIELD_ALIASES: Record<string, "operation" | "section" | "target_id" | "payload" | "rationale"> = {
+  op: "operation",
+  action: "operation",
+  operation_type: "operation",
+  sect: "section",
+  section_name: "section",
+  target: "target_id",
+  targetid: "target_id",
+  "target-id": "target_id",
+  id: "target_id",
+  data: "payload",
+  content: "payload",
+  fields: "payload",
+  body: "payload",
+  justification: "rationale",
+  why: "rationale",
+};
+
+const ENVELOPE_FIELDS = new Set(["operation", "section", "target_id", "payload", "rationale"]);
+
+// ============================================================================
+// Lenient Parsing
+// ============================================================================
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function tryJson(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    try {
+      return JSON.parse(sanitizeJson(text));
+    } catch {
+      return undefined;
+    }
+  }
+}
+
+/**
+ * Rewrite JavaScript/Python-flavoured object literals into JSON:
+ * single-quoted strings, unquoted keys and bare-word values, True/False/None.
+ */
+function relaxJson(text: string): string {
+  let out = "";
+  let i = 0;
+  while (i < text.length) {
+    const ch = text[i];
+
+    if (ch === '"') {
+      const end = findStringEnd(text, i, '"');
+      out += text.slice(i, end + 1);
+      i = end + 1;
+      continue;
+    }
+
+    if (ch === "'") {
+      const end = findStringEnd(text, i, "'");
+      const inner = text.slice(i + 1, end).replace(/\\'/g, "'");
+      out += JSON.stringify(inner);
+      i = end + 1;
+      continue;
+    }
+
+    const word = /^[A-Za-z_][\w-]*/.exec(text.slice(i));
+    if (word) {
+      const rest = text.slice(i + word[0].length);
+      if (/^\s*:/.test(rest)) out += JSON.stringify(word[0]);
+      else if (word[0] === "True") out += "true";
+      else if (word[0] === "False") out += "false";
+      else if (word[0] === "None") out += "null";
+      else if (/^\s*[,}\]]/.test(rest) && !["true", "false", "null"].includes(word[0])) out += JSON.stringify(word[0]);
+      else out += word[0];
+      i += word[0].length;
+      continue;
+    }
+
+    out += ch;
+    i++;
+  }
+  return sanitizeJson(out);
+}
+
+function findStringEnd(text: string, start: number, quote: string): number {
+  for (let i = start + 1; i < text.length; i++) {
+    if (text[i] === "\\") {
+      i++;
+      continue;
+    }
+    if (text[i] === quote) return i;
+  }
+  return text.length - 1;
+}
+
+/**
+ * Find balanced `{ ... }` spans, skipping braces inside strings.
+ */
+function findObjectSpans(text: string): string[] {
+  const spans: string[] = [];
+  let depth = 0;
+  let start = -1;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (ch === '"' || (ch === "'" && depth > 0)) {
+      i = findStringEnd(text, i, ch);
+      continue;
+    }
+    if (ch === "{") {
+      if (depth === 0) start = i;
+      depth++;
+    } else if (ch === "}" && depth > 0) {
+      depth--;
+      if (depth === 0) spans.push(text.slice(start, i + 1));
+    }
+  }
+  return spans;
+}
+
+// ----------------------------------------------------------------------------
+// Minimal YAML (the subset agents emit for deltas)
+// ----------------------------------------------------------------------------
+
+interface YamlLine {
+  indent: number;
+  text: string;
+}
+
+function parseYamlScalar(raw: string): unknown {
+  const value = raw.trim();
+  if (value === "" || value === "~" || value === "null") return null;
+  if (value === "true") return true;
+  if (value === "false") return false;
+  if (/^-?\d+(\.\d+)?$/.test(value)) return Number(value);
+  if ((value.startsWith('"') && value.endsWith('"')) || (value.startsWith("'") && value.endsWith("'"))) {
+    const inner = value.slice(1, -1);
+    return value.startsWith('"') ? (tryJson(value) ?? inner) : inner.replace(/''/g, "'");
+  }
+  if (value.startsWith("[") && value.endsWith("]")) {
+    const inner = value.slice(1, -1).trim();
+    return inner.length === 0 ? [] : inner.split(",").map((entry) => parseYamlScalar(entry));
+  }
+  if (value.startsWith("{") && value.endsWith("}")) {
+    return tryJson(relaxJson(value)) ?? value;
+  }
+  return value.replace(/\s+#.*$/, "");
+}
+
+function parseYamlBlock(lines: YamlLine[], start: number, indent: number): { value: unknown; next: number } {
+  if (start < lines.length && lines[start].text.startsWith("- ")) {
+    const list: unknown[] = [];
+    let i = start;
+    while (i < lines.length && lines[i].indent === indent && lines[i].text.startsWith("- ")) {
+      list.push(parseYamlScalar(lines[i].text.slice(2)));
+      i++;
+    }
+    return { value: list, next: i };
+  }
+
+  const map: Record<string, unknown> = {};
+  let i = start;
+  while (i < lines.length && lines[i].indent === indent) {
+    const match = /^([^:]+?)\s*:(?:\s+(.*))?$/.exec(lines[i].text);
+    if (!match) return { value: map, next: i };
+    const key = match[1].trim().replace(/^["']|["']$/g, "");
+    const rest = match[2]?.trim() ?? "";
+    i++;
+
+    if (rest === "|" || rest === ">") {
+      const parts: string[] = [];
+      while (i < lines.length && lines[i].indent > indent) {
+        parts.push(lines[i].text);
+        i++;
+      }
+      map[key] = parts.join(rest === "|" ? "\n" : " ");
+    } else if (rest === "" && i < lines.length && lines[i].indent > indent) {
+      const nested = parseYamlBlock(lines, i, lines[i].indent);
+      map[key] = nested.value;
+      i = nested.next;
+    } else if (rest === "" && i < lines.length && lines[i].indent === indent && lines[i].text.startsWith("- ")) {
+      // Lists are often written at the same indent as their key
+      const nested = parseYamlBlock(lines, i, indent);
+      map[key] = nested.value;
+      i = nested.next;
+    } else {
+      map[key] = parseYamlScalar(rest);
+    }
+  }
+  return { value: map, next: i };
+}
+
+function parseYaml(text: string): unknown {
+  const lines: YamlLine[] = text
+    .split(/\r?\n/)
+    .filter((line) => line.trim().length > 0 && !line.trim().startsWith("#") && line.trim() !== "---")
+    .map((line) => ({ indent: line.length - line.trimStart().length, text: line.trim() }));
+  if (lines.length === 0) return undefined;
+  const { value, next } = parseYamlBlock(lines, 0, lines[0].indent);
+  return next === lines.length ? value : undefined;
+}
+
+/**
+ * Recover an object from block text, recording how it had to be read.
+ */
+function recoverObject(text: string, fixes: DeltaRepairFix[]): unknown {
+  const trimmed = text.trim();
+
+  const direct = tryJson(trimmed);
+  if (direct !== undefined) return direct;
+
+  const relaxed = tryJson(relaxJson(trimmed));
+  if (relaxed !== undefined) {
+    fixes.push({ kind: "json_syntax", description: "rewrote quotes, keys, and literals as strict JSON", confidence: 0.9 });
+    return relaxed;
+  }
+
+  if (!trimmed.startsWith("{")) {
+    for (const span of findObjectSpans(trimmed)) {
+      const strict = tryJson(span);
+      const loose = strict === undefined ? tryJson(relaxJson(span)) : strict;
+      if (isRecord(loose) && ("operation" in loose || "section" in loose || "op" in loose)) {
+        fixes.push({ kind: "prose_in_block", description: "extracted the JSON object from surrounding prose", confidence: 0.9 });
+        if (strict === undefined) {
+          fixes.push({ kind: "json_syntax", description: "rewrote quotes, keys, and literals as strict JSON", confidence: 0.9 });
+        }
+        return loose;
+      }
+    }
+  }
+
+  if (/^\s*(operation|op|section)\s*:/m.test(trimmed)) {
+    const yaml = parseYaml(trimmed.replace(/^```\w*\s*$/gm, ""));
+    if (isRecord(yaml)) {
+      fixes.push({ kind: "yaml_payload", description: "converted YAML to JSON", confidence: 0.85 });
+      return yaml;
+    }
+  }
+
+  return undefined;
+}
+
+// ============================================================================
+// Normalization
+// ============================================================================
+
+function normalizeName(value: string): string {
+  return value
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "");
+}
+
+function editDistance(a: string, b: string): number {
+  const row = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    let prev = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const current = row[j];
+      row[j] = Math.min(row[j] + 1, row[j - 1] + 1, prev + (a[i - 1] === b[j - 1] ? 0 : 1));
+      prev = current;
+    }
+  }
+  return row[b.length];
+}
+
+function resolveSection(value: string): { section: DeltaSection; confidence: number } | null {
+  const normalized = normalizeName(value);
+  const alias = SECTION_ALIASES[normalized] ?? SECTION_ALIASES[normalized.replace(/s$/, "")];
+  if (alias) return { section: alias, confidence: 0.9 };
+
+  let best: { section: DeltaSection; distance: number } | null = null;
+  for (const section of SECTIONS) {
+    const distance = editDistance(normalized, section);
+    if (!best || distance < best.distance) best = { section, distance };
+  }
+  return best && best.distance <= 3 ? { section: best.section, confidence: 0.6 } : null;
+}
+
+function sectionFromTargetId(targetId: unknown): DeltaSection | null {
+  if (typeof targetId !== "string") return null;
+  const match = /^([A-Za-z]+)\d+$/.exec(targetId.trim());
+  if (!match) return null;
+  const prefix = match[1].toUpperCase();
+  return SECTIONS.find((section) => SECTION_ID_PREFIXES[section] === prefix) ?? null;
+}
+
+/**
+ * Repair the target_id for its section; returns undefined when no change is needed.
+ */
+function repairTargetId(targetId: unknown, section: DeltaSection): { value: string; confidence: number } | undefined {
+  const prefix = SECTION_ID_PREFIXES[section];
+
+  if (section === "research_thread") {
+    if (targetId === null || targetId === undefined || targetId === "RT") return undefined;
+    return { value: "RT", confidence: 0.9 };
+  }
+
+  if (typeof targetId === "number" && Number.isInteger(targetId)) {
+    return { value: `${prefix}${targetId}`, confidence: 0.9 };
+  }
+  if (typeof targetId !== "string") return undefined;
+
+  const trimmed = targetId.trim();
+  if (validateTargetIdPrefix(trimmed, section) && trimmed === targetId) return undefined;
+  if (validateTargetIdPrefix(trimmed, section)) return { value: trimmed, confidence: 0.95 };
+
+  if (/^\d+$/.test(trimmed)) return { value: `${prefix}${trimmed}`, confidence: 0.9 };
+  if (trimmed.toUpperCase().startsWith(prefix) && /^[A-Za-z]+\d+$/.test(trimmed)) {
+    return { value: trimmed.toUpperCase(), confidence: 0.95 };
+  }
+  const loose = /^(?:#|no\.?\s*)?([A-Za-z]*)[\s#_-]*(\d+)$/i.exec(trimmed);
+  if (loose && (loose[1] === "" || loose[1].toUpperCase() === prefix)) {
+    return { value: `${prefix}${loose[2]}`, confidence: 0.85 };
+  }
+  return undefined;
+}
+
+/**
+ * Bring a recovered object into the canonical delta envelope.
+ */
+function normalizeEnvelope(input: Record<string, unknown>, fixes: DeltaRepairFix[]): Record<string, unknown> {
+  const obj: Record<string, unknown> = { ...input };
+
+  // Field names
+  const renames: string[] = [];
+  for (const key of Object.keys(obj)) {
+    const canonical = FIELD_ALIASES[key.toLowerCase()] ?? (ENVELOPE_FIELDS.has(key.toLowerCase()) ? key.toLowerCase() : null);
+    if (!canonical || canonical === key || canonical in obj) continue;
+    obj[canonical] = obj[key];
+    delete obj[key];
+    renames.push(`"${key}" → "${canonical}"`);
+  }
+  if (renames.length > 0) {
+    fixes.push({ kind: "field_names", description: `renamed ${renames.join(", ")}`, confidence: 0.9 });
+  }
+
+  // Section (before operation, so a missing operation can be inferred sensibly)
+  if (typeof obj.section !== "string" || !SECTIONS.includes(obj.section as DeltaSection)) {
+    const resolved = typeof obj.section === "string" ? resolveSection(obj.section) : null;
+    if (resolved) {
+      fixes.push({
+        kind: "section_name",
+        description: `section "${obj.section}" → "${resolved.section}"`,
+        confidence: resolved.confidence,
+      });
+      obj.section = resolved.section;
+    } else {
+      const inferred = sectionFromTargetId(obj.target_id);
+      if (inferred) {
+        fixes.push({
+          kind: "section_name",
+          description: `section ${obj.section === undefined ? "(missing)" : `"${String(obj.section)}"`} → "${inferred}" (from target_id)`,
+          confidence: 0.7,
+        });
+        obj.section = inferred;
+      }
+    }
+  }
+
+  // Operation
+  if (typeof obj.operation === "string" && !["ADD", "EDIT", "KILL"].includes(obj.operation)) {
+    const resolved = OPERATION_ALIASES[obj.operation.trim().toLowerCase()];
+    if (resolved) {
+      const caseOnly = obj.operation.trim().toUpperCase() === resolved;
+      fixes.push({
+        kind: "operation_name",
+        description: `operation "${obj.operation}" → "${resolved}"`,
+        confidence: caseOnly ? 0.98 : 0.85,
+      });
+      obj.operation = resolved;
+    }
+  } else if (obj.operation === undefined) {
+    const inferred = obj.target_id === undefined || obj.target_id === null ? "ADD" : "EDIT";
+    fixes.push({
+      kind: "operation_name",
+      description: `operation (missing) → "${inferred}" (from target_id)`,
+      confidence: 0.6,
+    });
+    obj.operation = inferred;
+  }
+
+  // Payload shape
+  if (obj.operation === "KILL") {
+    const payload = isRecord(obj.payload) ? { ...obj.payload } : {};
+    if (typeof payload.reason !== "string") {
+      const reason = typeof obj.reason === "string" ? obj.reason : typeof obj.rationale === "string" ? obj.rationale : null;
+      if (reason !== null) {
+        payload.reason = reason;
+        delete obj.reason;
+        obj.payload = payload;
+        fixes.push({ kind: "payload_shape", description: "moved the kill reason into payload.reason", confidence: 0.85 });
+      }
+    }
+  } else if ((obj.operation === "ADD" || obj.operation === "EDIT") && !isRecord(obj.payload)) {
+    const stray = Object.keys(obj).filter((key) => !ENVELOPE_FIELDS.has(key));
+    if (stray.length > 0) {
+      obj.payload = Object.fromEntries(stray.map((key) => [key, obj[key]]));
+      for (const key of stray) delete obj[key];
+      fixes.push({
+        kind: "payload_shape",
+        description: `wrapped top-level ${stray.map((key) => `"${key}"`).join(", ")} in payload`,
+        confidence: 0.8,
+      });
+    }
+  }
+
+  // target_id
+  if (typeof obj.section === "string" && SECTIONS.includes(obj.section as DeltaSection) && obj.operation !== "ADD") {
+    const repaired = repairTargetId(obj.target_id, obj.section as DeltaSection);
+    if (repaired) {
+      fixes.push({
+        kind: "target_id_prefix",
+        description: `target_id ${JSON.stringify(obj.target_id ?? null)} → "${repaired.value}"`,
+        confidence: repaired.confidence,
+      });
+      obj.target_id = repaired.value;
+    }
+  }
+
+  return obj;
+}
+
+// ============================================================================
+// Repair
+// ============================================================================
+
+function roundConfidence(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function formatCorrectedBlock(delta: ValidDelta): string {
+  const envelope: Record<string, unknown> = {
+    operation: delta.operation,
+    section: delta.section,
+    target_id: delta.target_id,
+    payload: delta.payload,
+  };
+  if (delta.rationale) envelope.rationale = delta.rationale;
+  return ["```delta", JSON.stringify(envelope, null, 2), "```"].join("\n");
+}
+
+/**
+ * Try to repair a single delta block.
+ *
+ * @param raw - Block content (without fences)
+ * @param error - The parser's error, if known
+ * @param source - Where the block was found
+ */
+export function repairDelta(raw: string, error?: string, source: DeltaRepairSource = "delta_block"): DeltaRepairProposal {
+  const fixes: DeltaRepairFix[] = [];
+  if (source === "other_fence") {
+    fixes.push({ kind: "wrong_fence", description: "moved the block into a ```delta fence", confidence: 0.95 });
+  } else if (source === "unfenced") {
+    fixes.push({ kind: "unfenced", description: "wrapped the inline object in a ```delta fence", confidence: 0.85 });
+  }
+
+  const unrepairable = (reason: string): DeltaRepairProposal => ({
+    source,
+    raw,
+    error: error ?? reason,
+    kinds: [...new Set([...fixes.map((fix) => fix.kind), "unrepairable" as const])],
+    fixes,
+    repaired: null,
+    corrected: null,
+    confidence: 0,
+  });
+
+  const recovered = recoverObject(raw, fixes);
+  if (!isRecord(recovered)) return unrepairable("Could not read the block as JSON or YAML");
+
+  const normalized = normalizeEnvelope(recovered, fixes);
+  const validated = validateDelta(normalized, raw);
+  if (!validated.valid) return unrepairable(validated.error);
+
+  const delta = validated;
+  return {
+    source,
+    raw,
+    error: error ?? "No problems found",
+    kinds: [...new Set(fixes.map((fix) => fix.kind))],
+    fixes,
+    repaired: delta,
+    corrected: formatCorrectedBlock(delta),
+    confidence: roundConfidence(fixes.reduce((product, fix) => product * fix.confidence, 1)),
+  };
+}
+
+const OTHER_FENCE_REGEX = /(`{3,})(json|jsonc|json5|yaml|yml|js|javascript)?[ \t]*\r?\n([\s\S]*?)\1/g;
+
+/**
+ * Propose repairs for every problematic delta in a message body.
+ *
+ * Covers invalid ```delta blocks, valid blocks whose target_id lacks its
+ * section prefix, and — when the message has no delta fences at all —
+ * delta-shaped payloads in other fences or inline in the prose.
+ */
+export function repairDeltaMessage(body: string): DeltaRepairProposal[] {
+  const parsed = parseDeltaMessage(body);
+  const proposals: DeltaRepairProposal[] = [];
+
+  for (const delta of parsed.deltas) {
+    if (!delta.valid) {
+      proposals.push(repairDelta(delta.raw, delta.error));
+      continue;
+    }
+    if (delta.operation !== "ADD" && delta.target_id !== null && delta.section !== "research_thread") {
+      if (!validateTargetIdPrefix(delta.target_id, delta.section)) {
+        const prefix = SECTION_ID_PREFIXES[delta.section];
+        proposals.push(
+          repairDelta(delta.raw, `target_id "${delta.target_id}" lacks the "${prefix}" prefix for ${delta.section}`)
+        );
+      }
+    }
+  }
+
+  if (parsed.totalBlocks > 0) return proposals.filter((p) => p.fixes.length > 0 || !p.repaired);
+
+  let prose = body;
+  OTHER_FENCE_REGEX.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = OTHER_FENCE_REGEX.exec(body)) !== null) {
+    const content = match[3].trim();
+    prose = prose.replace(match[0], "");
+    if (!/\b(operation|op|section)\b/.test(content)) continue;
+    proposals.push(repairDelta(content, "Delta is not inside a ```delta fence", "other_fence"));
+  }
+
+  for (const span of findObjectSpans(prose)) {
+    if (!/["']?(operation|section)["']?\s*:/.test(span)) continue;
+    proposals.push(repairDelta(span, "Delta JSON appears inline without a ```delta fence", "unfenced"));
+  }
+
+  return proposals;
+}
+
+// ============================================================================
+// Correction Requests
+// ============================================================================
+
+/**
+ * Render an auto-generated correction request for the agent(s) whose deltas
+ * need fixing. Quotes each original block and the exact corrected block.
+ */
+export function formatDeltaRepairRequest(items: DeltaRepairRequestItem[], threadId: string): string {
+  const lines: string[] = [];
+  const total = items.reduce((sum, item) => sum + item.proposals.length, 0);
+
+  lines.push(`# Delta corrections needed`);
+  lines.push("");
+  lines.push(`Thread: ${threadId}`);
+  lines.push("");
+  lines.push(
+    `The compiler could not apply ${total} delta block${total === 1 ? "" : "s"} as written. ` +
+      "Please reply in-thread with the corrected blocks below (fix them further if a guess is wrong)."
+  );
+
+  for (const item of items) {
+    item.proposals.forEach((proposal, index) => {
+      lines.push("");
+      lines.push(`## Message #${item.messageId}, block ${index + 1}: ${item.subject}`);
+      lines.push("");
+      lines.push(`- Problem: ${proposal.error}`);
+      if (proposal.repaired) {
+        lines.push(`- Confidence: ${proposal.confidence.toFixed(2)}`);
+        for (const fix of proposal.fixes) lines.push(`- Fix (${fix.kind}): ${fix.description}`);
+        lines.push("");
+        lines.push("You sent:");
+        lines.push("```text");
+        lines.push(proposal.raw);
+        lines.push("```");
+        lines.push("");
+        lines.push("Send instead:");
+        lines.push(proposal.corrected ?? "");
+      } else {
+        lines.push("- No automatic fix. Resend it as a ```delta block with `operation`, `section`, `target_id`, `payload`.");
+        lines.push("");
+        lines.push("You sent:");
+        lines.push("```text");
+        lines.push(proposal.raw);
+        lines.push("```");
+      }
+    });
+  }
+
+  lines.push("");
+  return lines.join("\n");
+}
@@ -0,0 +1,326 @@
+/**
+ * Unit tests for evidence pack import from BibTeX, RIS and CSL-JSON exports
+ *
+ * @see @/lib/evidence-import.ts
+ */
+
+import { describe, expect, it } from "vitest";
+import {
+  createEvidencePack,
+  detectCitationFormat,
+  importLibraryIntoEvidencePack,
+  inferEvidenceType,
+  libraryEntryToPaperResult,
+  normalizeDOI,
+  parseBibTeXLibrary,
+  parseCSLJSONLibrary,
+  parseCitationLibrary,
+  parseRISLibrary,
+  type EvidencePack,
+  type LibraryEntry,
+  type ParsedLibrary,
+} from "./evidence-import";
+
+// ============================================================================
+// Test Fixtures
+// ============================================================================
+
+const BIBTEX = String.raw`
+@comment{jabref-meta: databaseType:bibtex;}
+
+@article{jacob1961,
+  title = {Genetic regulatory mechanisms in the synthesis of {Proteins}},
+  author = {Jacob, Fran{\c c}ois and Monod, Jacques},
+  journal = {Journal of Molecular Biology},
+  year = 1961,
+  month = {6},
+  doi = {https://doi.org/10.1016/S0022-2836(61)80072-7},
+  abstract = {The synthesis of enzymes in bacteria follows a double genetic control.},
+}
+
+@misc{smith2024,
+  title = "Single-cell atlas of \emph{C. elegans} development",
+  author = {Smith, Ann and others},
+  year = {2024},
+  eprint = {2401.00001},
+  archivePrefix = {arXiv},
+}
+
+@dataset{lab2023,
+  title = {Lineage tracing counts},
+  author = {{Brenner Lab}},
+  date = {2023-04-02},
+  url = {https://example.org/data},
+}
+
+@book{notitle, author = {Nobody}}
+`;
+
+const RIS = [
+  "TY  - JOUR",
+  "ID  - crick1961",
+  "TI  - General nature of the genetic code",
+  "AU  - Crick, F. H. C.",
+  "AU  - Brenner, S.",
+  "PY  - 1961/12/30/",
+  "T2  - Nature",
+  "DO  - 10.1038/1921227a0",
+  "AB  - The genetic code is a triplet code",
+  "      read from a fixed starting point.",
+  "ER  - ",
+  "",
+  "TY  - DATA",
+  "TI  - Worm connectome adjacency matrix",
+  "DO  - 10.5061/dryad.abc123",
+  "ER  - ",
+].join("\n");
+
+const CSL_JSON = JSON.stringify([
+  {
+    id: "http://zotero.org/users/1/items/ABC",
+    type: "article-journal",
+    title: "The genetics of Caenorhabditis elegans",
+    author: [{ family: "Brenner", given: "S." }],
+    issued: { "date-parts": [[1974, 5]] },
+    "container-title": "Genetics",
+    DOI: "10.1093/genetics/77.1.71",
+  },
+  {
+    id: "preprint-1",
+    type: "article",
+    title: "A preprint without a journal",
+    author: [{ literal: "Consortium" }],
+    issued: { "date-parts": [["2025"]] },
+  },
+  { id: "broken" },
+]);
+
+function entry(overrides: Partial<LibraryEntry> = {}): LibraryEntry {
+  return { key: "k", sourceType: "article", title: "T", authors: [], venue: "Cell", ...overrides };
+}
+
+function library(entries: LibraryEntry[]): ParsedLibrary {
+  return { format: "bibtex", entries, warnings: [] };
+}
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+describe("detectCitationFormat", () => {
+  it("prefers the file extension, then sniffs the content", () => {
+    expect(detectCitationFormat("", "library.bib")).toBe("bibtex");
+    expect(detectCitationFormat("", "Exported Items.RIS")).toBe("ris");
+    expect(detectCitationFormat(CSL_JSON)).toBe("csl-json");
+    expect(detectCitationFormat(RIS)).toBe("ris");
+    expect(detectCitationFormat(BIBTEX)).toBe("bibtex");
+    expect(detectCitationFormat("just some notes")).toBeNull();
+  });
+});
+
+describe("parseBibTeXLibrary", () => {
+  it("parses every entry with nested braces, quotes and bare values", () => {
+    const parsed = parseBibTeXLibrary(BIBTEX);
+
+    expect(parsed.entries.map((e) => e.key)).toEqual(["jacob1961", "smith2024", "lab2023"]);
+    expect(parsed.warnings).toEqual(["notitle: no title"]);
+    expect(parsed.entries[0]).toEqual({
+      key: "jacob1961",
+      sourceType: "article",
+      title: "Genetic regulatory mechanisms in the synthesis of Proteins",
+      authors: ["Jacob, Francois", "Monod, Jacques"],
+      date: "1961-06",
+      doi: "10.1016/s0022-2836(61)80072-7",
+      abstract: "The synthesis of enzymes in bacteria follows a double genetic control.",
+      venue: "Journal of Molecular Biology",
+    });
+    expect(parsed.entries[1]).toMatchObject({ title: "Single-cell atlas of C. elegans development", authors: ["Smith, Ann"], venue: "arXiv" });
+    expect(parsed.entries[2]).toMatchObject({ authors: ["Brenner Lab"], date: "2023-04-02", url: "https://example.org/data" });
+  });
+});
+
+describe("parseRISLibrary", () => {
+  it("parses records, repeated tags and continuation lines", () => {
+    const parsed = parseRISLibrary(RIS);
+
+    expect(parsed.warnings).toEqual([]);
+    expect(parsed.entries[0]).toEqual({
+      key: "crick1961",
+      sourceType: "JOUR",
+      title: "General nature of the genetic code",
+      authors: ["Crick, F. H. C.", "Brenner, S."],
+      date: "1961-12-30",
+      doi: "10.1038/1921227a0",
+      abstract: "The genetic code is a triplet code read from a fixed starting point.",
+      venue: "Nature",
+    });
+    expect(parsed.entries[1]).toMatchObject({ key: "entry-2", sourceType: "DATA", doi: "10.5061/dryad.abc123" });
+  });
+});
+
+describe("parseCSLJSONLibrary", () => {
+  it("parses items and reports the unusable ones", () => {
+    const parsed = parseCSLJSONLibrary(CSL_JSON);
+
+    expect(parsed.entries).toHaveLength(2);
+    expect(parsed.entries[0]).toMatchObject({
+      authors: ["Brenner, S."],
+      date: "1974-05",
+      doi: "10.1093/genetics/77.1.71",
+      venue: "Genetics",
+    });
+    expect(parsed.entries[1]).toMatchObject({ authors: ["Consortium"], date: "2025" });
+    expect(parsed.warnings).toEqual(["broken: no title"]);
+    expect(parseCSLJSONLibrary("[{").warnings[0]).toMatch(/^Invalid JSON/);
+  });
+
+  it("is reachable through parseCitationLibrary", () => {
+    expect(parseCitationLibrary(CSL_JSON)).toMatchObject({ format: "csl-json" });
+    expect(parseCitationLibrary("notes")).toEqual({
+      error: "Could not detect citation format; use one of bibtex, ris, csl-json",
+    });
+  });
+});
+
+// ============================================================================
+// Type Inference
+// ============================================================================
+
+describe("inferEvidenceType", () => {
+  it("distinguishes papers, preprints and datasets", () => {
+    expect(inferEvidenceType(entry())).toBe("paper");
+    expect(inferEvidenceType(entry({ sourceType: "dataset" }))).toBe("dataset");
+    expect(inferEvidenceType(entry({ sourceType: "DATA" }))).toBe("dataset");
+    expect(inferEvidenceType(entry({ doi: "10.5061/dryad.x" }))).toBe("dataset");
+    expect(inferEvidenceType(entry({ doi: "10.1101/2024.01.01.123" }))).toBe("preprint");
+    expect(inferEvidenceType(entry({ sourceType: "misc", venue: "arXiv" }))).toBe("preprint");
+    expect(inferEvidenceType(entry({ sourceType: "unpublished", venue: undefined }))).toBe("preprint");
+    expect(inferEvidenceType(entry({ venue: undefined }))).toBe("preprint");
+    expect(inferEvidenceType(entry({ sourceType: "article-journal", venue: undefined }))).toBe("paper");
+  });
+});
+
+// ============================================================================
+// Import
+// ============================================================================
+
+describe("importLibraryIntoEvidencePack", () => {
+  const now = new Date("2026-10-19T12:00:00Z");
+
+  function existingPack(): EvidencePack {
+    const pack = createEvidencePack("RS-TEST", new Date("2026-10-01T00:00:00Z"));
+    pack.records.push({
+      id: "EV-001",
+      type: "paper",
+      title: "General Nature of the Genetic Code!",
+      source: "https://doi.org/10.1038/1921227A0",
+      access_method: "doi",
+      imported_at: "2026-10-01T00:00:00.000Z",
+      imported_by: "operator",
+      relevance: "",
+      key_findings: [],
+      verified: true,
+      excerpts: [],
+    });
+    pack.next_id = 2;
+    return pack;
+  }
+
+  it("adds new entries with inferred types and sources, skipping duplicates", () => {
+    const pack = existingPack();
+    const result = importLibraryIntoEvidencePack(pack, parseRISLibrary(RIS), { importedBy: "operator", now });
+
+    expect(result.skipped).toEqual([
+      { key: "crick1961", title: "General nature of the genetic code", reason: "duplicate_doi", duplicateOf: "EV-001" },
+    ]);
+    expect(result.added).toEqual([
+      {
+        id: "EV-002",
+        key: "entry-2",
+        title: "Worm connectome adjacency matrix",
+        type: "dataset",
+        source: "doi:10.5061/dryad.abc123",
+        hasAbstract: false,
+      },
+    ]);
+    expect(result.pack.next_id).toBe(3);
+    expect(result.pack.updated_at).toBe(now.toISOString());
+    expect(result.pack.records[1]).toMatchObject({ access_method: "doi", verified: false, imported_by: "operator" });
+    expect(pack.records).toHaveLength(1);
+  });
+
+  it("matches titles when a DOI is missing on either side, and within the file", () => {
+    // Same title with two different DOIs (e.g. two replies) stays two records
+    const result = importLibraryIntoEvidencePack(
+      existingPack(),
+      library([
+        entry({ key: "a", title: "General nature of the genetic code" }),
+        entry({ key: "b", title: "Same paper", url: "https://example.org/b" }),
+        entry({ key: "c", title: "Same Paper.", doi: "10.1/c" }),
+        entry({ key: "d", title: "Reply to comments", doi: "10.1/d" }),
+        entry({ key: "e", title: "Reply to comments", doi: "10.1/e" }),
+      ]),
+      { importedBy: "operator", now }
+    );
+
+    expect(result.skipped.map((s) => [s.key, s.reason, s.duplicateOf])).toEqual([
+      ["a", "duplicate_title", "EV-001"],
+      ["c", "duplicate_title", "EV-002"],
+    ]);
+    expect(result.added.map((a) => [a.key, a.source])).toEqual([
+      ["b", "https://example.org/b"],
+      ["d", "doi:10.1/d"],
+      ["e", "doi:10.1/e"],
+    ]);
+  });
+
+  it("attaches abstracts as verbatim E1 excerpts only when asked", () => {
+    const parsed = parseBibTeXLibrary(BIBTEX);
+    const withAbstracts = importLibraryIntoEvidencePack(createEvidencePack("RS-TEST", now), parsed, {
+      importedBy: "AgentA",
+      includeAbstracts: true,
+      relevance: "Operon background",
+      now,
+    });
+
+    expect(withAbstracts.added.map((a) => [a.id, a.type, a.hasAbstract])).toEqual([
+      ["EV-001", "paper", true],
+      ["EV-002", "preprint", false],
+      ["EV-003", "dataset", false],
+    ]);
+    expect(withAbstracts.pack.records[0]).toMatchObject({
+      authors: ["Jacob, Francois", "Monod, Jacques"],
+      date: "1961-06",
+      relevance: "Operon background",
+      excerpts: [
+        {
+          anchor: "E1",
+          text: "The synthesis of enzymes in bacteria follows a double genetic control.",
+          verbatim: true,
+          location: "abstract",
+        },
+      ],
+    });
+    expect(withAbstracts.pack.records[1]).toMatchObject({ source: "bibtex:smith2024", access_method: "manual" });
+
+    const without = importLibraryIntoEvidencePack(createEvidencePack("RS-TEST", now), parsed, { importedBy: "AgentA", now });
+    expect(without.pack.records[0].excerpts).toEqual([]);
+  });
+});
+
+describe("helpers", () => {
+  it("normalizes DOIs from resolver URLs and prefixes", () => {
+    expect(normalizeDOI("doi:10.1038/ABC.")).toBe("10.1038/abc");
+    expect(normalizeDOI("https://dx.doi.org/10.1101/2024.01.01.123")).toBe("10.1101/2024.01.01.123");
+    expect(normalizeDOI("not a doi")).toBeNull();
+  });
+
+  it("converts entries for the literature UI", () => {
+    expect(libraryEntryToPaperResult(entry({ doi: "10.1/x", date: "1974-05" }))).toMatchObject({
+      id: "doi:10.1/x",
+      year: 1974,
+      url: "https://doi.org/10.1/x",
+      venue: "Cell",
+    });
+  });
+});
@@ -0,0 +1,677 @@
+/**
+ * Evidence Import
+ *
+ * Bulk import of reference-manager exports (BibTeX, RIS, CSL-JSON) into a
+ * thread's evidence pack. Zotero, Mendeley and Paperpile all export at least
+ * one of these formats.
+ *
+ * Import is conservative:
+ * - Entries already in the pack (same DOI, or same normalized title when
+ *   either side has no DOI) are skipped, as are duplicates within the file
+ * - The evidence type is inferred as paper, preprint or dataset
+ * - Abstracts are attached as a verbatim `E1` excerpt only when requested
+ * - Imported records are unverified and carry no key findings; those stay
+ *   operator work
+ *
+ * @see specs/evidence_pack_v0.1.md
+ */
+
+import type { PaperResult } from "./brenner-loop/literature";
+
+// ============================================================================
+// Evidence Pack Types (specs/evidence_pack_v0.1.md)
+// ============================================================================
+
+export type EvidenceType =
+  | "paper"
+  | "preprint"
+  | "dataset"
+  | "experiment"
+  | "observation"
+  | "prior_session"
+  | "expert_opinion"
+  | "code_artifact";
+
+export interface EvidenceExcerpt {
+  anchor: string;
+  text: string;
+  verbatim: boolean;
+  location?: string;
+  note?: string;
+}
+
+export interface EvidenceRecord {
+  id: string;
+  type: EvidenceType;
+  title: string;
+  authors?: string[];
+  date?: string;
+  source: string;
+  access_method: "url" | "doi" | "file" | "session" | "manual";
+  imported_at: string;
+  imported_by: string;
+  relevance: string;
+  key_findings: string[];
+  supports?: string[];
+  refutes?: string[];
+  informs?: string[];
+  verified: boolean;
+  verification_notes?: string;
+  excerpts: EvidenceExcerpt[];
+}
+
+export interface EvidencePack {
+  version: "0.1";
+  thread_id: string;
+  created_at: string;
+  updated_at: string;
+  next_id: number;
+  records: EvidenceRecord[];
+}
+
+// ============================================================================
+// Library Types
+// ============================================================================
+
+export type CitationFormat = "bibtex" | "ris" | "csl-json";
+
+export const CITATION_FORMATS: readonly CitationFormat[] = ["bibtex", "ris", "csl-json"];
+
+/** One reference from a library export, normalized across formats */
+export interface LibraryEntry {
+  /** Citation key / RIS ID / CSL id; positional fallback when absent */
+  key: string;
+  /** Entry type as written in the source format (e.g. "article", "JOUR", "dataset") */
+  sourceType: string;
+  title: string;
+  authors: string[];
+  /** Year, or a fuller ISO-ish date when the export has one */
+  date?: string;
+  doi?: string;
+  url?: string;
+  abstract?: string;
+  /** Journal, proceedings or repository name */
+  venue?: string;
+  publisher?: string;
+}
+
+export interface ParsedLibrary {
+  format: CitationFormat;
+  entries: LibraryEntry[];
+  /** Entries that could not be used, with the reason */
+  warnings: string[];
+}
+
+// ============================================================================
+// Format Detection
+// ============================================================================
+
+/**
+ * Guess the export format from the file name, falling back to its content.
+ */
+export function detectCitationFormat(text: string, fileName?: string): CitationFormat | null {
+  const ext = fileName?.toLowerCase().match(/\.([a-z]+)$/)?.[1];
+  if (ext === "bib" || ext === "bibtex") return "bibtex";
+  if (ext === "ris") return "ris";
+  if (ext === "json") return "csl-json";
+
+  const head = text.trimStart();
+  if (head.startsWith("[") || head.startsWith("{")) return "csl-json";
+  if (/^TY {2}- /m.test(head)) return "ris";
+  if (/^\s*@\w+\s*[{(]/m.test(head)) return "bibtex";
+  return null;
+}
+
+// ============================================================================
+// Normalization
+// ============================================================================
+
+/**
+ * Canonical DOI for comparison: lowercase, without resolver prefix.
+ */
+export function normalizeDOI(raw: string): string | null {
+  const match = raw.trim().match(/10\.\d{4,}\/\S+/);
+  if (!match) return null;
+  return match[0].replace(/[.,;]+$/, "").toLowerCase();
+}
+
+/**
+ * Canonical title for comparison: lowercase letters and digits only.
+ */
+export function normalizeTitle(title: string): string {
+  return title
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
+
+function collapseWhitespace(value: string): string {
+  return value.replace(/\s+/g, " ").trim();
+}
+
+// ============================================================================
+// BibTeX
+// ============================================================================
+
+const BIBTEX_SKIPPED_TYPES = new Set(["comment", "string", "preamble"]);
+
+/** Read a `{...}` or `"..."` group starting at `start`; returns the inner text and the index after it */
+function readDelimited(text: string, start: number): { value: string; end: number } | null {
+  const open = text[start];
+  if (open === '"') {
+    let depth = 0;
+    for (let i = start + 1; i < text.length; i += 1) {
+      const ch = text[i];
+      if (ch === "\\") {
+        i += 1;
+      } else if (ch === "{") {
+        depth += 1;
+      } else if (ch === "}") {
+        depth -= 1;
+      } else if (ch === '"' && depth === 0) {
+        return { value: text.slice(start + 1, i), end: i + 1 };
+      }
+    }
+    return null;
+  }
+
+  const close = open === "(" ? ")" : "}";
+  let depth = 0;
+  for (let i = start; i < text.length; i += 1) {
+    const ch = text[i];
+    if (ch === "\\") {
+      i += 1;
+    } else if (ch === open || (open === "(" && ch === "{")) {
+      depth += 1;
+    } else if (ch === close || (open === "(" && ch === "}")) {
+      depth -= 1;
+      if (depth === 0) return { value: text.slice(start + 1, i), end: i + 1 };
+    }
+  }
+  return null;
+}
+
+function cleanBibTeXText(value: string): string {
+  return collapseWhitespace(
+    value
+      .replace(/\\(?:textit|textbf|emph|mathrm|textsc)\s*\{([^{}]*)\}/g, "$1")
+      .replace(/\\([&%$#_])/g, "$1")
+      .replace(/\\["'`^~=.uvHc]\s*\{?([A-Za-z])\}?/g, "$1")
+      .replace(/[{}]/g, "")
+      .replace(/~/g, " ")
+      .replace(/---/g, "—")
+      .replace(/--/g, "–")
+  );
+}
+
+/** Parse the `field = value, ...` body of one entry (after the citation key) */
+function parseBibTeXFields(body: string): Map<string, string> {
+  const fields = new Map<string, string>();
+  let i = 0;
+  while (i < body.length) {
+    const nameMatch = /^[\s,]*([A-Za-z][\w-]*)\s*=\s*/.exec(body.slice(i));
+    if (!nameMatch) break;
+    const name = nameMatch[1].toLowerCase();
+    i += nameMatch[0].length;
+
+    // Values may be concatenated with #; bare words (macros, numbers) are kept as-is
+    const parts: string[] = [];
+    for (;;) {
+      const ch = body[i];
+      if (ch === "{" || ch === '"') {
+        const group = readDelimited(body, i);
+        if (!group) return fields;
+        parts.push(group.value);
+        i = group.end;
+      } else {
+        const bare = /^[^\s,#}]+/.exec(body.slice(i));
+        if (!bare) break;
+        parts.push(bare[0]);
+        i += bare[0].length;
+      }
+      const concat = /^\s*#\s*/.exec(body.slice(i));
+      if (!concat) break;
+      i += concat[0].length;
+    }
+    fields.set(name, parts.join(""));
+  }
+  return fields;
+}
+
+function bibTeXDate(fields: Map<string, string>): string | undefined {
+  const date = fields.get("date");
+  if (date) return cleanBibTeXText(date);
+  const year = fields.get("year");
+  if (!year) return undefined;
+  const month = fields.get("month");
+  return month && /^\d{1,2}$/.test(month) ? `${year}-${month.padStart(2, "0")}` : year;
+}
+
+function bibTeXAuthors(raw: string): string[] {
+  return raw
+    .split(/\s+and\s+/i)
+    .map((author) => cleanBibTeXText(author))
+    .filter((author) => author.length > 0 && author.toLowerCase() !== "others");
+}
+
+/**
+ * Parse every entry of a `.bib` file. `@comment`, `@string` and `@preamble`
+ * blocks are ignored; string macros are not expanded.
+ */
+export function parseBibTeXLibrary(text: string): ParsedLibrary {
+  const entries: LibraryEntry[] = [];
+  const warnings: string[] = [];
+
+  const entryStart = /@(\w+)\s*([{(])/g;
+  let match: RegExpExecArray | null;
+  while ((match = entryStart.exec(text)) !== null) {
+    const type = match[1].toLowerCase();
+    const group = readDelimited(text, match.index + match[0].length - 1);
+    if (!group) {
+      warnings.push(`Unterminated @${type} entry at offset ${match.index}`);
+      break;
+    }
+    entryStart.lastIndex = group.end;
+    if (BIBTEX_SKIPPED_TYPES.has(type)) continue;
+
+    const keyMatch = /^\s*([^,\s]+)\s*,/.exec(group.value);
+    const key = keyMatch?.[1] ?? `entry-${entries.length + 1}`;
+    const fields = parseBibTeXFields(keyMatch ? group.value.slice(keyMatch[0].length) : group.value);
+
+    const title = cleanBibTeXText(fields.get("title") ?? "");
+    if (!title) {
+      warnings.push(`${key}: no title`);
+      continue;
+    }
+
+    const eprintPrefix = fields.get("archiveprefix") ?? fields.get("eprinttype");
+    const venue = fields.get("journal") ?? fields.get("journaltitle") ?? fields.get("booktitle") ?? eprintPrefix;
+    const date = bibTeXDate(fields);
+    const doi = fields.get("doi") ? normalizeDOI(fields.get("doi") as string) : null;
+
+    entries.push({
+      key,
+      sourceType: type,
+      title,
+      authors: bibTeXAuthors(fields.get("author") ?? fields.get("editor") ?? ""),
+      ...(date ? { date } : {}),
+      ...(doi ? { doi } : {}),
+      ...(fields.get("url") ? { url: cleanBibTeXText(fields.get("url") as string) } : {}),
+      ...(fields.get("abstract") ? { abstract: cleanBibTeXText(fields.get("abstract") as string) } : {}),
+      ...(venue ? { venue: cleanBibTeXText(venue) } : {}),
+      ...(fields.get("publisher") ? { publisher: cleanBibTeXText(fields.get("publisher") as string) } : {}),
+    });
+  }
+
+  return { format: "bibtex", entries, warnings };
+}
+
+// ============================================================================
+// RIS
+// ============================================================================
+
+/**
+ * Parse an RIS export (`TY  - ` ... `ER  - ` records).
+ */
+export function parseRISLibrary(text: string): ParsedLibrary {
+  const entries: LibraryEntry[] = [];
+  const warnings: string[] = [];
+
+  let tags: Map<string, string[]> | null = null;
+  let lastTag: string | null = null;
+
+  const finish = () => {
+    if (!tags) return;
+    const first = (...names: string[]) => {
+      for (const name of names) {
+        const value = tags?.get(name)?.[0];
+        if (value) return collapseWhitespace(value);
+      }
+      return undefined;
+    };
+    const key = first("ID") ?? `entry-${entries.length + 1}`;
+    const title = first("TI", "T1", "CT", "BT");
+    if (!title) {
+      warnings.push(`${key}: no title`);
+    } else {
+      const rawDate = first("DA", "PY", "Y1");
+      const date = rawDate?.replace(/\/+$/, "").replace(/\//g, "-");
+      const doi = first("DO") ? normalizeDOI(first("DO") as string) : null;
+      const venue = first("T2", "JO", "JF", "JA", "T3");
+      const abstract = tags.get("AB") ?? tags.get("N2");
+      entries.push({
+        key,
+        sourceType: first("TY") ?? "GEN",
+        title,
+        authors: [...(tags.get("AU") ?? []), ...(tags.get("A1") ?? [])].map(collapseWhitespace).filter(Boolean),
+        ...(date ? { date } : {}),
+        ...(doi ? { doi } : {}),
+        ...(first("UR", "L2") ? { url: first("UR", "L2") } : {}),
+        ...(abstract ? { abstract: collapseWhitespace(abstract.join(" ")) } : {}),
+        ...(venue ? { venue } : {}),
+        ...(first("PB") ? { publisher: first("PB") } : {}),
+      });
+    }
+    tags = null;
+    lastTag = null;
+  };
+
+  for (const line of text.split(/\r?\n/)) {
+    const tagged = /^([A-Z][A-Z0-9]) {2}-(?: (.*))?$/.exec(line);
+    if (!tagged) {
+      // Continuation lines extend the previous tag's value
+      if (tags && lastTag && line.trim()) {
+        const values = tags.get(lastTag) as string[];
+        values[values.length - 1] += ` ${line.trim()}`;
+      }
+      continue;
+    }
+    const [, tag, value = ""] = tagged;
+    if (tag === "TY") {
+      finish();
+      tags = new Map([["TY", [value.trim()]]]);
+      lastTag = "TY";
+    } else if (tag === "ER") {
+      finish();
+    } else if (tags) {
+      const values = tags.get(tag) ?? [];
+      values.push(value.trim());
+      tags.set(tag, values);
+      lastTag = tag;
+    }
+  }
+  if (tags) {
+    warnings.push("Last record has no ER terminator");
+    finish();
+  }
+
+  return { format: "ris", entries, warnings };
+}
+
+// ============================================================================
+// CSL-JSON
+// ============================================================================
+
+function cslString(value: unknown): string | undefined {
+  if (typeof value === "string" && value.trim()) return collapseWhitespace(value);
+  if (typeof value === "number") return String(value);
+  return undefined;
+}
+
+function cslDate(value: unknown): string | undefined {
+  if (!value || typeof value !== "object") return undefined;
+  const date = value as { "date-parts"?: unknown; raw?: unknown; literal?: unknown };
+  const parts = Array.isArray(date["date-parts"]) ? date["date-parts"][0] : undefined;
+  if (Array.isArray(parts) && parts.length > 0 && parts.every((p) => typeof p === "number" || typeof p === "string")) {
+    const [year, month, day] = parts.map(String);
+    return [year, month?.padStart(2, "0"), day?.padStart(2, "0")].filter(Boolean).join("-");
+  }
+  return cslString(date.raw) ?? cslString(date.literal);
+}
+
+function cslAuthors(value: unknown): string[] {
+  if (!Array.isArray(value)) return [];
+  return value.flatMap((name) => {
+    if (!name || typeof name !== "object") return [];
+    const n = name as { family?: unknown; given?: unknown; literal?: unknown };
+    const literal = cslString(n.literal);
+    if (literal) return [literal];
+    const family = cslString(n.family);
+    const given = cslString(n.given);
+    if (family && given) return [`${family}, ${given}`];
+    return family ? [family] : [];
+  });
+}
+
+/**
+ * Parse a CSL-JSON export: an array of items, a single item, or `{ items: [...] }`.
+ */
+export function parseCSLJSONLibrary(text: string): ParsedLibrary {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (e) {
+    const msg = e instanceof Error ? e.message : String(e);
+    return { format: "csl-json", entries: [], warnings: [`Invalid JSON: ${msg}`] };
+  }
+
+  const items: unknown[] = Array.isArray(data)
+    ? data
+    : data && typeof data === "object" && Array.isArray((data as { items?: unknown }).items)
+      ? (data as { items: unknown[] }).items
+      : [data];
+
+  const entries: LibraryEntry[] = [];
+  const warnings: string[] = [];
+  items.forEach((item, index) => {
+    if (!item || typeof item !== "object") {
+      warnings.push(`Item ${index + 1}: not an object`);
+      return;
+    }
+    const it = item as Record<string, unknown>;
+    const key = cslString(it.id) ?? cslString(it["citation-key"]) ?? `entry-${index + 1}`;
+    const title = cslString(it.title);
+    if (!title) {
+      warnings.push(`${key}: no title`);
+      return;
+    }
+    const date = cslDate(it.issued) ?? cslDate(it["available-date"]);
+    const doi = cslString(it.DOI) ? normalizeDOI(cslString(it.DOI) as string) : null;
+    const venue = cslString(it["container-title"]) ?? cslString(it["collection-title"]);
+    entries.push({
+      key,
+      sourceType: cslString(it.type) ?? "document",
+      title,
+      authors: cslAuthors(it.author),
+      ...(date ? { date } : {}),
+      ...(doi ? { doi } : {}),
+      ...(cslString(it.URL) ? { url: cslString(it.URL) } : {}),
+      ...(cslString(it.abstract) ? { abstract: cslString(it.abstract) } : {}),
+      ...(venue ? { venue } : {}),
+      ...(cslString(it.publisher) ? { publisher: cslString(it.publisher) } : {}),
+    });
+  });
+
+  return { format: "csl-json", entries, warnings };
+}
+
+/**
+ * Parse a library export in the given (or detected) format.
+ */
+export function parseCitationLibrary(
+  text: string,
+  options: { format?: CitationFormat; fileName?: string } = {}
+): ParsedLibrary | { error: string } {
+  const format = options.format ?? detectCitationFormat(text, options.fileName);
+  if (!format) return { error: `Could not detect citation format; use one of ${CITATION_FORMATS.join(", ")}` };
+  if (format === "bibtex") return parseBibTeXLibrary(text);
+  if (format === "ris") return parseRISLibrary(text);
+  return parseCSLJSONLibrary(text);
+}
+
+// ============================================================================
+// Type Inference
+// ============================================================================
+
+/** DOI prefixes of preprint servers (bioRxiv/medRxiv, arXiv, SSRN, Research Square, Preprints.org, OSF) */
+const PREPRINT_DOI_PREFIXES = ["10.1101/", "10.48550/", "10.2139/", "10.21203/", "10.20944/", "10.31219/", "10.31234/"];
+
+/** DOI prefixes of data repositories (Dryad, PANGAEA, Harvard Dataverse) */
+const DATASET_DOI_PREFIXES = ["10.5061/", "10.1594/", "10.7910/"];
+
+const PREPRINT_VENUE = /\b(arxiv|biorxiv|medrxiv|chemrxiv|psyarxiv|ssrn|research square|preprints?)\b/i;
+
+const DATASET_TYPES = new Set(["dataset", "data", "dbase", "aggr"]);
+
+const PREPRINT_TYPES = new Set(["unpublished", "unpb", "inpr", "preprint", "manuscript", "online"]);
+
+/**
+ * Infer the evidence type of a library entry.
+ *
+ * Datasets are recognized by entry type or data-repository DOI; preprints
+ * by entry type, preprint-server DOI or venue. Everything else is a paper.
+ * An `article` with no journal is treated as a preprint: that is how Zotero
+ * exports preprints to CSL-JSON, and a BibTeX article without a journal is
+ * rarely published.
+ */
+export function inferEvidenceType(entry: LibraryEntry): Extract<EvidenceType, "paper" | "preprint" | "dataset"> {
+  const type = entry.sourceType.toLowerCase();
+  const doi = entry.doi ?? "";
+
+  if (DATASET_TYPES.has(type) || DATASET_DOI_PREFIXES.some((p) => doi.startsWith(p))) return "dataset";
+  if (PREPRINT_DOI_PREFIXES.some((p) => doi.startsWith(p))) return "preprint";
+  if (entry.venue && PREPRINT_VENUE.test(entry.venue)) return "preprint";
+  if (PREPRINT_TYPES.has(type)) return "preprint";
+  if (type === "article" && !entry.venue) return "preprint";
+  return "paper";
+}
+
+// ============================================================================
+// Import
+// ============================================================================
+
+export interface EvidenceImportOptions {
+  /** Agent name or "operator" */
+  importedBy: string;
+  /** Attach each entry's abstract as a verbatim E1 excerpt */
+  includeAbstracts?: boolean;
+  /** Relevance note for every imported record (default: empty) */
+  relevance?: string;
+  now?: Date;
+}
+
+export interface EvidenceImportAdded {
+  id: string;
+  key: string;
+  title: string;
+  type: EvidenceType;
+  source: string;
+  hasAbstract: boolean;
+}
+
+export interface EvidenceImportSkipped {
+  key: string;
+  title: string;
+  reason: "duplicate_doi" | "duplicate_title";
+  /** Record the entry duplicates: already in the pack, or added earlier from the same file */
+  duplicateOf: string;
+}
+
+export interface EvidenceImportResult {
+  pack: EvidencePack;
+  added: EvidenceImportAdded[];
+  skipped: EvidenceImportSkipped[];
+}
+
+/**
+ * Create an empty evidence pack for a thread.
+ */
+export function createEvidencePack(threadId: string, now: Date = new Date()): EvidencePack {
+  const ts = now.toISOString();
+  return { version: "0.1", thread_id: threadId, created_at: ts, updated_at: ts, next_id: 1, records: [] };
+}
+
+export function formatEvidenceId(n: number): string {
+  return `EV-${String(n).padStart(3, "0")}`;
+}
+
+function entrySource(entry: LibraryEntry, format: CitationFormat): Pick<EvidenceRecord, "source" | "access_method"> {
+  if (entry.doi) return { source: `doi:${entry.doi}`, access_method: "doi" };
+  if (entry.url) return { source: entry.url, access_method: "url" };
+  return { source: `${format}:${entry.key}`, access_method: "manual" };
+}
+
+/**
+ * Add library entries to an evidence pack, skipping duplicates.
+ *
+ * Two references are the same when their DOIs match. When either has no
+ * DOI, a matching normalized title is enough: an export that lost its DOI
+ * should not re-add a record imported earlier with one. The input pack is
+ * not modified.
+ */
+export function importLibraryIntoEvidencePack(
+  pack: EvidencePack,
+  library: ParsedLibrary,
+  options: EvidenceImportOptions
+): EvidenceImportResult {
+  const now = (options.now ?? new Date()).toISOString();
+  const next: EvidencePack = { ...pack, records: [...pack.records], updated_at: now };
+
+  const byDoi = new Map<string, string>();
+  const byTitle = new Map<string, { ref: string; doi: string | null }>();
+  const remember = (ref: string, doi: string | null, title: string) => {
+    if (doi) byDoi.set(doi, ref);
+    const normalized = normalizeTitle(title);
+    if (normalized && !byTitle.has(normalized)) byTitle.set(normalized, { ref, doi });
+  };
+  for (const record of pack.records) remember(record.id, normalizeDOI(record.source), record.title);
+
+  const added: EvidenceImportAdded[] = [];
+  const skipped: EvidenceImportSkipped[] = [];
+
+  for (const entry of library.entries) {
+    const doi = entry.doi ?? null;
+    const doiMatch = doi ? byDoi.get(doi) : undefined;
+    if (doiMatch) {
+      skipped.push({ key: entry.key, title: entry.title, reason: "duplicate_doi", duplicateOf: doiMatch });
+      continue;
+    }
+    const titleMatch = byTitle.get(normalizeTitle(entry.title));
+    if (titleMatch && (!doi || !titleMatch.doi)) {
+      skipped.push({ key: entry.key, title: entry.title, reason: "duplicate_title", duplicateOf: titleMatch.ref });
+      continue;
+    }
+
+    const id = formatEvidenceId(next.next_id);
+    next.next_id += 1;
+    const type = inferEvidenceType(entry);
+    const includeAbstract = Boolean(options.includeAbstracts && entry.abstract);
+
+    const record: EvidenceRecord = {
+      id,
+      type,
+      title: entry.title,
+      ...(entry.authors.length > 0 ? { authors: entry.authors } : {}),
+      ...(entry.date ? { date: entry.date } : {}),
+      ...entrySource(entry, library.format),
+      imported_at: now,
+      imported_by: options.importedBy,
+      relevance: options.relevance ?? "",
+      key_findings: [],
+      verified: false,
+      excerpts: includeAbstract
+        ? [{ anchor: "E1", text: entry.abstract as string, verbatim: true, location: "abstract" }]
+        : [],
+    };
+    next.records.push(record);
+    remember(id, doi, entry.title);
+    added.push({ id, key: entry.key, title: entry.title, type, source: record.source, hasAbstract: includeAbstract });
+  }
+
+  return { pack: next, added, skipped };
+}
+
+// ============================================================================
+// Literature UI
+// ============================================================================
+
+/**
+ * Convert a library entry for display in the literature search UI.
+ */
+export function libraryEntryToPaperResult(entry: LibraryEntry): PaperResult {
+  const year = Number.parseInt(entry.date?.slice(0, 4) ?? "", 10);
+  return {
+    id: entry.doi ? `doi:${entry.doi}` : `library:${entry.key}`,
+    title: entry.title,
+    authors: entry.authors,
+    year: Number.isFinite(year) ? year : new Date().getFullYear(),
+    abstract: entry.abstract ?? "",
+    citationCount: 0,
+    url: entry.url ?? (entry.doi ? `https://doi.org/${entry.doi}` : ""),
+    ...(entry.doi ? { doi: entry.doi } : {}),
+    ...(entry.venue ? { venue: entry.venue } : {}),
+    relevanceScore: 0,
+  };
+}
@@ -0,0 +1,185 @@
+/**
+ * Tests for experiment harness scaffolding and outcome parsing.
+ */
+
+import { describe, expect, test } from "vitest";
+import type { TestItem } from "./artifact-merge";
+import {
+  EXPERIMENT_OUTCOME_MARKER,
+  bindingsFromOutcome,
+  extractExperimentOutcome,
+  harnessSpecFromTestItem,
+  harnessSpecFromTestRecord,
+  outcomeJsonSchema,
+  renderHarnessFiles,
+  type ExperimentOutcome,
+} from "./experiment-harness";
+import { createTestRecord } from "./schemas/test-record";
+
+// ============================================================================
+// Fixtures
+// ============================================================================
+
+const ITEM: TestItem = {
+  id: "T1",
+  name: "Pause-duration assay",
+  procedure: "Measure the pause before recovery\nacross 20 stimulation trains.",
+  discriminates: "H1 vs H2",
+  expected_outcomes: { H1: "Pause longer than 400 ms", H2: "No pause" },
+  potency_check: "Known inhibitor produces a measurable pause",
+};
+
+function outcomeLine(outcome: unknown): string {
+  return `${EXPERIMENT_OUTCOME_MARKER} ${JSON.stringify(outcome)}`;
+}
+
+function outcome(overrides: Partial<ExperimentOutcome> = {}): ExperimentOutcome {
+  return {
+    schema_version: "experiment_outcome_v0.1",
+    test_id: "T1",
+    potency: { passed: true },
+    verdicts: [
+      { hypothesis_id: "H1", verdict: "matched", reason: "pause of 487 ms" },
+      { hypothesis_id: "H2", verdict: "violated" },
+    ],
+    ...overrides,
+  };
+}
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe("harness specs", () => {
+  test("builds a spec from an artifact test item", () => {
+    const spec = harnessSpecFromTestItem({ ...ITEM, test_id: "T-RS1-001" }, "RS1");
+    expect(spec.testId).toBe("T-RS1-001");
+    expect(spec.threadId).toBe("RS1");
+    expect(spec.hypotheses).toEqual([
+      { id: "H1", expected: "Pause longer than 400 ms" },
+      { id: "H2", expected: "No pause" },
+    ]);
+    expect(spec.potencyCheck.positiveControl).toContain("inhibitor");
+  });
+
+  test("builds a spec from a stored test record", () => {
+    const record = createTestRecord({
+      id: "T-RS1-001",
+      name: "Pause-duration assay",
+      procedure: "Measure the pause before recovery across 20 stimulation trains.",
+      discriminates: ["H-RS1-001", "H-RS1-002"],
+      expectedOutcomes: [
+        { hypothesisId: "H-RS1-001", outcome: "Pause longer than 400 ms" },
+        { hypothesisId: "H-RS1-002", outcome: "No pause at all" },
+      ],
+      potencyCheck: { positiveControl: "Known inhibitor produces a measurable pause", timingValidation: "Within 1 s" },
+      evidencePerWeekScore: { likelihoodRatio: 2, cost: 2, speed: 2, ambiguity: 2 },
+      feasibility: { requirements: "Patch rig", difficulty: "moderate" },
+      designedInSession: "RS1",
+    });
+
+    const spec = harnessSpecFromTestRecord(record);
+    expect(spec.threadId).toBe("RS1");
+    expect(spec.hypotheses.map((h) => h.id)).toEqual(["H-RS1-001", "H-RS1-002"]);
+    expect(spec.potencyCheck.timingValidation).toBe("Within 1 s");
+  });
+});
+
+describe("renderHarnessFiles", () => {
+  test("renders a runnable script, potency stub, schema and README", () => {
+    const spec = harnessSpecFromTestItem(ITEM, "RS1");
+    const files = renderHarnessFiles(spec, { relativeDir: "experiments/T1" });
+    expect(files.map((f) => f.path)).toEqual(["run.ts", "potency.ts", "outcome.schema.json", "README.md"]);
+
+    const run = files.find((f) => f.path === "run.ts")!;
+    expect(run.executable).toBe(true);
+    expect(run.content).toContain(' *   across 20 stimulation trains.');
+    expect(run.content).toContain('"H2": "No pause"');
+    expect(run.content).toContain(`"${EXPERIMENT_OUTCOME_MARKER} "`);
+
+    const readme = files.find((f) => f.path === "README.md")!.content;
+    expect(readme).toContain("brenner experiment run --thread-id RS1 --test-id T1 -- bun experiments/T1/run.ts");
+    expect(readme).toContain("| H1 | Pause longer than 400 ms |");
+
+    const schema = JSON.parse(files.find((f) => f.path === "outcome.schema.json")!.content);
+    expect(schema).toEqual(outcomeJsonSchema(spec));
+    expect(schema.properties.verdicts.items.properties.hypothesis_id.enum).toEqual(["H1", "H2"]);
+  });
+
+  test("keeps procedure text from closing the doc comment", () => {
+    const spec = harnessSpecFromTestItem({ ...ITEM, procedure: "Glob data/*/ then run */ analysis" });
+    const run = renderHarnessFiles(spec)[0].content;
+    expect(run.indexOf("*/")).toBe(run.indexOf("*/\n\nimport"));
+  });
+});
+
+describe("extractExperimentOutcome", () => {
+  test("returns not found when stdout has no outcome line", () => {
+    expect(extractExperimentOutcome("all done\n")).toEqual({ found: false });
+  });
+
+  test("uses the last outcome line", () => {
+    const stdout = [
+      "warming up",
+      outcomeLine(outcome({ potency: { passed: false } })),
+      outcomeLine(outcome()),
+      "",
+    ].join("\n");
+    const result = extractExperimentOutcome(stdout);
+    expect(result).toMatchObject({ found: true, ok: true });
+    if (result.found && result.ok) expect(result.outcome.potency.passed).toBe(true);
+  });
+
+  test("reports malformed outcomes", () => {
+    expect(extractExperimentOutcome(`${EXPERIMENT_OUTCOME_MARKER} {nope`)).toMatchObject({ found: true, ok: false });
+
+    const badVerdict = extractExperimentOutcome(
+      outcomeLine(outcome({ verdicts: [{ hypothesis_id: "H1", verdict: "maybe" as never }] }))
+    );
+    expect(badVerdict).toMatchObject({ found: true, ok: false });
+    if (badVerdict.found && !badVerdict.ok) expect(badVerdict.error).toContain("verdicts.0.verdict");
+
+    const duplicate = extractExperimentOutcome(
+      outcomeLine(
+        outcome({
+          verdicts: [
+            { hypothesis_id: "H1", verdict: "matched" },
+            { hypothesis_id: "H1", verdict: "violated" },
+          ],
+        })
+      )
+    );
+    expect(duplicate).toEqual({ found: true, ok: false, error: "Invalid outcome: duplicate verdict for H1" });
+  });
+});
+
+describe("bindingsFromOutcome", () => {
+  test("maps verdicts to matched/violated bindings", () => {
+    const mapped = bindingsFromOutcome(
+      outcome({
+        verdicts: [
+          { hypothesis_id: "H1", verdict: "matched", reason: "pause of 487 ms" },
+          { hypothesis_id: "H2", verdict: "violated", confidence: "high" },
+          { hypothesis_id: "H3", verdict: "inconclusive" },
+        ],
+      })
+    );
+    expect(mapped.bindings).toEqual([
+      { hypothesis_id: "H1", binding: "matched", reason: "pause of 487 ms" },
+      { hypothesis_id: "H2", binding: "violated", confidence: "high" },
+    ]);
+    expect(mapped.inconclusive).toEqual(["H3"]);
+    expect(mapped.actualOutcomes).toEqual({
+      H1: "matched: pause of 487 ms",
+      H2: "violated",
+      H3: "inconclusive",
+    });
+  });
+
+  test("binds nothing when the potency check failed", () => {
+    const mapped = bindingsFromOutcome(outcome({ potency: { passed: false, notes: "inhibitor had no effect" } }));
+    expect(mapped.bindings).toEqual([]);
+    expect(mapped.inconclusive).toEqual(["H1", "H2"]);
+    expect(mapped.actualOutcomes.H2).toBe("inconclusive: inhibitor had no effect");
+  });
+});
@@ -0,0 +1,423 @@
+/**
+ * Experiment Harness Scaffolding
+ *
+ * Turns a discriminative test (a `TestRecord` from test storage, or a
+ * `TestItem` from a compiled artifact) into a runnable harness directory:
+ *
+ * - `run.ts`: script stub that measures, judges each hypothesis and prints the outcome
+ * - `potency.ts`: potency-check stub (positive control, sensitivity, timing)
+ * - `outcome.schema.json`: JSON Schema for the machine-readable outcome
+ * - `README.md`: procedure, expected outcomes and how to run it
+ *
+ * The harness is executed through `brenner experiment run`, which captures
+ * stdout into experiment_result_v0.1. The script reports its verdicts as a
+ * single stdout line:
+ * ```
+ * BRENNER_OUTCOME {"schema_version":"experiment_outcome_v0.1","test_id":"T1",...}
+ * ```
+ * `brenner experiment encode` extracts that line and maps it into
+ * matched/violated bindings for each hypothesis.
+ *
+ * Verdicts are only binding when the potency check passed: without a working
+ * positive control a "violated" prediction may just be a broken assay.
+ *
+ * @see specs/experiment_result_encoding_v0.1.md
+ * @see specs/experiment_capture_protocol_v0.1.md
+ */
+
+import { z } from "zod";
+import type { TestItem } from "./artifact-merge";
+import { HypothesisConfidenceSchema, type HypothesisConfidence } from "./schemas/hypothesis";
+import type { TestRecord } from "./schemas/test-record";
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const EXPERIMENT_OUTCOME_SCHEMA_VERSION = "experiment_outcome_v0.1";
+
+/** Prefix of the stdout line carrying the outcome JSON */
+export const EXPERIMENT_OUTCOME_MARKER = "BRENNER_OUTCOME";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Everything a harness needs to know about the test it implements */
+export interface HarnessSpec {
+  testId: string;
+  name: string;
+  procedure: string;
+  /** Thread/session the test belongs to (used for the `experiment run` command) */
+  threadId?: string;
+  hypotheses: Array<{ id: string; expected: string }>;
+  potencyCheck: {
+    positiveControl: string;
+    sensitivityVerification?: string;
+    timingValidation?: string;
+  };
+}
+
+export interface HarnessFile {
+  /** Path relative to the harness directory */
+  path: string;
+  content: string;
+  executable?: boolean;
+}
+
+export interface RenderHarnessOptions {
+  /** Harness directory relative to the `experiment run` cwd (default: ".") */
+  relativeDir?: string;
+  /** ISO timestamp recorded in the README */
+  generatedAt?: string;
+}
+
+const VerdictSchema = z.enum(["matched", "violated", "inconclusive"]);
+
+export type HypothesisVerdict = z.infer<typeof VerdictSchema>;
+
+const ExperimentOutcomeSchema = z.object({
+  schema_version: z.literal(EXPERIMENT_OUTCOME_SCHEMA_VERSION),
+  test_id: z.string().min(1),
+  potency: z.object({
+    passed: z.boolean(),
+    notes: z.string().optional(),
+  }),
+  observations: z.record(z.unknown()).optional(),
+  verdicts: z.array(
+    z.object({
+      hypothesis_id: z.string().min(1),
+      verdict: VerdictSchema,
+      reason: z.string().optional(),
+      confidence: HypothesisConfidenceSchema.optional(),
+    })
+  ),
+});
+
+export type ExperimentOutcome = z.infer<typeof ExperimentOutcomeSchema>;
+
+/** Binding of one hypothesis to the observed outcome, as consumed by `brenner test bind` */
+export interface HypothesisBinding {
+  hypothesis_id: string;
+  binding: "matched" | "violated";
+  reason?: string;
+  /** How sure the harness is of the verdict (absent when it did not say) */
+  confidence?: HypothesisConfidence;
+}
+
+export interface OutcomeBindings {
+  bindings: HypothesisBinding[];
+  /** Hypotheses the harness could not decide (or all of them when potency failed) */
+  inconclusive: string[];
+  /** TestItem.actual_outcomes: hypothesis id -> human-readable verdict */
+  actualOutcomes: Record<string, string>;
+}
+
+export type ExtractOutcomeResult =
+  | { found: false }
+  | { found: true; ok: true; outcome: ExperimentOutcome }
+  | { found: true; ok: false; error: string };
+
+// ============================================================================
+// Spec Construction
+// ============================================================================
+
+/** Build a harness spec from a stored TestRecord. */
+export function harnessSpecFromTestRecord(test: TestRecord): HarnessSpec {
+  const expected = new Map(test.expectedOutcomes.map((o) => [o.hypothesisId, o.outcome]));
+  const ids = [...test.discriminates, ...expected.keys()].filter((id, index, all) => all.indexOf(id) === index);
+
+  return {
+    testId: test.id,
+    name: test.name,
+    procedure: test.procedure,
+    threadId: test.designedInSession,
+    hypotheses: ids.map((id) => ({ id, expected: expected.get(id) ?? "(no expected outcome recorded)" })),
+    potencyCheck: {
+      positiveControl: test.potencyCheck.positiveControl,
+      sensitivityVerification: test.potencyCheck.sensitivityVerification,
+      timingValidation: test.potencyCheck.timingValidation,
+    },
+  };
+}
+
+/** Build a harness spec from a compiled artifact's discriminative test item. */
+export function harnessSpecFromTestItem(item: TestItem, threadId?: string): HarnessSpec {
+  return {
+    testId: item.test_id ?? item.id,
+    name: item.name,
+    procedure: item.procedure,
+    threadId,
+    hypotheses: Object.entries(item.expected_outcomes ?? {}).map(([id, expected]) => ({ id, expected })),
+    potencyCheck: { positiveControl: item.potency_check },
+  };
+}
+
+// ============================================================================
+// Rendering
+// ============================================================================
+
+/** JSON Schema (draft 2020-12) describing the outcome a harness must emit. */
+export function outcomeJsonSchema(spec: HarnessSpec): Record<string, unknown> {
+  return {
+    $schema: "https://json-schema.org/draft/2020-12/schema",
+    title: `Experiment outcome for ${spec.testId}`,
+    type: "object",
+    required: ["schema_version", "test_id", "potency", "verdicts"],
+    additionalProperties: false,
+    properties: {
+      schema_version: { const: EXPERIMENT_OUTCOME_SCHEMA_VERSION },
+      test_id: { const: spec.testId },
+      potency: {
+        type: "object",
+        required: ["passed"],
+        additionalProperties: false,
+        properties: {
+          passed: { type: "boolean" },
+          notes: { type: "string" },
+        },
+      },
+      observations: {
+        type: "object",
+        description: "Raw measurements backing the verdicts",
+      },
+      verdicts: {
+        type: "array",
+        items: {
+          type: "object",
+          required: ["hypothesis_id", "verdict"],
+          additionalProperties: false,
+          properties: {
+            hypothesis_id: { enum: spec.hypotheses.map((h) => h.id) },
+            verdict: { enum: VerdictSchema.options },
+            reason: { type: "string" },
+            confidence: { enum: HypothesisConfidenceSchema.options },
+          },
+        },
+      },
+    },
+  };
+}
+
+function commentBlock(text: string, indent = " * "): string {
+  return text
+    .trim()
+    .split(/\r?\n/)
+    .map((line) => `${indent}${line.replace(/\*\//g, "*\\/")}`.trimEnd())
+    .join("\n");
+}
+
+function renderRunScript(spec: HarnessSpec): string {
+  const expected = Object.fromEntries(spec.hypotheses.map((h) => [h.id, h.expected]));
+
+  return `#!/usr/bin/env bun
+/**
+ * Experiment harness for ${spec.testId}: ${spec.name.replace(/\*\//g, "*\\/")}
+ *
+ * Procedure:
+${commentBlock(spec.procedure, " *   ")}
+ *
+ * Fill in measure() and judge(), then run through \`brenner experiment run\`
+ * (see README.md). The last stdout line starting with ${EXPERIMENT_OUTCOME_MARKER} is
+ * what \`brenner experiment encode\` turns into hypothesis bindings.
+ */
+
+import { checkPotency } from "./potency";
+
+type Verdict = "matched" | "violated" | "inconclusive";
+type Confidence = "high" | "medium" | "low" | "speculative";
+type Observations = Record<string, unknown>;
+
+/** What each hypothesis predicts for this test */
+const EXPECTED: Record<string, string> = ${JSON.stringify(expected, null, 2)};
+
+/** Carry out the procedure and return the raw measurements. */
+async function measure(): Promise<Observations> {
+  // TODO: implement the procedure above
+  throw new Error("measure() is not implemented yet");
+}
+
+/** Compare the measurements with each hypothesis' expected outcome. */
+function judge(observations: Observations): Record<string, { verdict: Verdict; reason?: string; confidence?: Confidence }> {
+  // TODO: decide matched/violated per hypothesis from the observations
+  void observations;
+  return Object.fromEntries(
+    Object.keys(EXPECTED).map((id) => [id, { verdict: "inconclusive" as Verdict, reason: "judge() is not implemented yet" }])
+  );
+}
+
+const potency = await checkPotency();
+const observations = potency.passed ? await measure() : {};
+const verdicts = potency.passed
+  ? judge(observations)
+  : Object.fromEntries(Object.keys(EXPECTED).map((id) => [id, { verdict: "inconclusive" as Verdict, reason: "potency check failed" }]));
+
+console.log(
+  "${EXPERIMENT_OUTCOME_MARKER} " +
+    JSON.stringify({
+      schema_version: "${EXPERIMENT_OUTCOME_SCHEMA_VERSION}",
+      test_id: ${JSON.stringify(spec.testId)},
+      potency,
+      observations,
+      verdicts: Object.entries(verdicts).map(([hypothesis_id, v]) => ({ hypothesis_id, ...v })),
+    })
+);
+
+// A failed potency check means the run cannot discriminate anything
+process.exit(potency.passed ? 0 : 2);
+`;
+}
+
+function renderPotencyScript(spec: HarnessSpec): string {
+  const lines = [`Positive control: ${spec.potencyCheck.positiveControl}`];
+  if (spec.potencyCheck.sensitivityVerification) {
+    lines.push(`Sensitivity: ${spec.potencyCheck.sensitivityVerification}`);
+  }
+  if (spec.potencyCheck.timingValidation) {
+    lines.push(`Timing: ${spec.potencyCheck.timingValidation}`);
+  }
+
+  return `/**
+ * Potency check for ${spec.testId}
+ *
+${commentBlock(lines.join("\n"))}
+ *
+ * Must show the assay can detect the effect before any "violated" verdict
+ * counts; until it is implemented every run is reported as inconclusive.
+ */
+
+export interface PotencyResult {
+  passed: boolean;
+  notes?: string;
+}
+
+export async function checkPotency(): Promise<PotencyResult> {
+  // TODO: run the positive control and confirm the expected signal is detectable
+  return { passed: false, notes: "potency check is not implemented yet" };
+}
+`;
+}
+
+function renderReadme(spec: HarnessSpec, options: RenderHarnessOptions): string {
+  const dir = options.relativeDir && options.relativeDir !== "." ? `${options.relativeDir.replace(/\/+$/, "")}/` : "";
+  const thread = spec.threadId ?? "<thread-id>";
+  const potency = [
+    `- Positive control: ${spec.potencyCheck.positiveControl}`,
+    spec.potencyCheck.sensitivityVerification ? `- Sensitivity: ${spec.potencyCheck.sensitivityVerification}` : null,
+    spec.potencyCheck.timingValidation ? `- Timing: ${spec.potencyCheck.timingValidation}` : null,
+  ].filter((line): line is string => line !== null);
+
+  return [
+    `# ${spec.testId}: ${spec.name}`,
+    "",
+    ...(options.generatedAt ? [`Generated by \`brenner test scaffold\` at ${options.generatedAt}.`, ""] : []),
+    "## Procedure",
+    "",
+    spec.procedure.trim(),
+    "",
+    "## Expected outcomes",
+    "",
+    "| Hypothesis | Expected |",
+    "|------------|----------|",
+    ...spec.hypotheses.map((h) => `| ${h.id} | ${h.expected.replace(/\|/g, "\\|").replace(/\r?\n/g, " ")} |`),
+    "",
+    "## Potency check",
+    "",
+    ...potency,
+    "",
+    "## Running",
+    "",
+    "```bash",
+    `brenner experiment run --thread-id ${thread} --test-id ${spec.testId} -- bun ${dir}run.ts`,
+    "brenner experiment encode --result-file <path printed by experiment run> --json",
+    "```",
+    "",
+    `\`run.ts\` prints one \`${EXPERIMENT_OUTCOME_MARKER} {...}\` line matching \`outcome.schema.json\`;`,
+    "`experiment encode` reads it from the captured stdout and reports matched/violated bindings.",
+    "",
+  ].join("\n");
+}
+
+/** Render the files of a harness directory. */
+export function renderHarnessFiles(spec: HarnessSpec, options: RenderHarnessOptions = {}): HarnessFile[] {
+  return [
+    { path: "run.ts", content: renderRunScript(spec), executable: true },
+    { path: "potency.ts", content: renderPotencyScript(spec) },
+    { path: "outcome.schema.json", content: `${JSON.stringify(outcomeJsonSchema(spec), null, 2)}\n` },
+    { path: "README.md", content: renderReadme(spec, options) },
+  ];
+}
+
+// ============================================================================
+// Outcome Parsing
+// ============================================================================
+
+/**
+ * Find and validate the outcome line in captured stdout.
+ *
+ * The last marker line wins, so a harness may print progress outcomes and
+ * finish with the final one.
+ */
+export function extractExperimentOutcome(stdout: string): ExtractOutcomeResult {
+  const line = stdout
+    .split(/\r?\n/)
+    .reverse()
+    .find((l) => l.trimStart().startsWith(`${EXPERIMENT_OUTCOME_MARKER} `));
+  if (!line) return { found: false };
+
+  const raw = line.trimStart().slice(EXPERIMENT_OUTCOME_MARKER.length).trim();
+  let json: unknown;
+  try {
+    json = JSON.parse(raw);
+  } catch (e) {
+    return { found: true, ok: false, error: `Outcome is not valid JSON: ${e instanceof Error ? e.message : String(e)}` };
+  }
+
+  const parsed = ExperimentOutcomeSchema.safeParse(json);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    const path = issue.path.length > 0 ? `${issue.path.join(".")}: ` : "";
+    return { found: true, ok: false, error: `Invalid outcome: ${path}${issue.message}` };
+  }
+
+  const seen = new Set<string>();
+  for (const v of parsed.data.verdicts) {
+    if (seen.has(v.hypothesis_id)) {
+      return { found: true, ok: false, error: `Invalid outcome: duplicate verdict for ${v.hypothesis_id}` };
+    }
+    seen.add(v.hypothesis_id);
+  }
+
+  return { found: true, ok: true, outcome: parsed.data };
+}
+
+/**
+ * Map an outcome to per-hypothesis bindings.
+ *
+ * When the potency check failed nothing binds: every hypothesis is reported
+ * as inconclusive regardless of the verdicts.
+ */
+export function bindingsFromOutcome(outcome: ExperimentOutcome): OutcomeBindings {
+  const bindings: HypothesisBinding[] = [];
+  const inconclusive: string[] = [];
+  const actualOutcomes: Record<string, string> = {};
+
+  for (const v of outcome.verdicts) {
+    const verdict: HypothesisVerdict = outcome.potency.passed ? v.verdict : "inconclusive";
+    const reason = outcome.potency.passed ? v.reason : (outcome.potency.notes ?? "potency check failed");
+    actualOutcomes[v.hypothesis_id] = reason ? `${verdict}: ${reason}` : verdict;
+
+    if (verdict === "inconclusive") {
+      inconclusive.push(v.hypothesis_id);
+    } else {
+      bindings.push({
+        hypothesis_id: v.hypothesis_id,
+        binding: verdict,
+        ...(reason ? { reason } : {}),
+        ...(v.confidence ? { confidence: v.confidence } : {}),
+      });
+    }
+  }
+
+  return { bindings, inconclusive, actualOutcomes };
+}
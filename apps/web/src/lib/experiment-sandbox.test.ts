@@ -0,0 +1,186 @@
+/**
+ * Tests for experiment execution profiles and sandbox planning.
+ */
+
+import { describe, expect, test } from "vitest";
+import {
+  EXECUTION_PROFILES,
+  NO_SANDBOX_CAPABILITIES,
+  OutputCollector,
+  TRUNCATION_MARKER,
+  effectiveTimeoutSeconds,
+  isExecutionProfileName,
+  planSandboxedCommand,
+  sandboxProvenance,
+  type SandboxCapabilities,
+} from "./experiment-sandbox";
+
+// ============================================================================
+// Fixtures
+// ============================================================================
+
+const PATHS = { projectDir: "/work/project", cwd: "/work/project/exp", scratchDir: "/tmp/brenner-scratch-1" };
+
+const ALL: SandboxCapabilities = { "systemd-run": true, bwrap: true, unshare: true, prlimit: true };
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe("execution profiles", () => {
+  test("recognizes built-in profile names", () => {
+    expect(isExecutionProfileName("standard")).toBe(true);
+    expect(isExecutionProfileName("toString")).toBe(false);
+  });
+
+  test("caps the requested timeout by the profile", () => {
+    expect(effectiveTimeoutSeconds(EXECUTION_PROFILES.strict, 3600)).toBe(300);
+    expect(effectiveTimeoutSeconds(EXECUTION_PROFILES.strict, 60)).toBe(60);
+    expect(effectiveTimeoutSeconds(EXECUTION_PROFILES.unrestricted, 3600)).toBe(3600);
+  });
+});
+
+describe("planSandboxedCommand", () => {
+  test("leaves unrestricted commands alone", () => {
+    const result = planSandboxedCommand(["bun", "run.ts"], EXECUTION_PROFILES.unrestricted, PATHS, ALL);
+    expect(result).toEqual({
+      ok: true,
+      plan: {
+        argv: ["bun", "run.ts"],
+        env: {},
+        enforced: { memory: null, cpu: null, network: null, filesystem: null },
+        warnings: [],
+      },
+    });
+  });
+
+  test("wraps in a cgroup scope and bwrap when both are available", () => {
+    const result = planSandboxedCommand(["bun", "run.ts"], EXECUTION_PROFILES.standard, PATHS, ALL);
+    if (!result.ok) throw new Error(result.error);
+    const { argv, env, enforced, warnings } = result.plan;
+
+    expect(argv.slice(0, 5)).toEqual(["systemd-run", "--user", "--scope", "--quiet", "--collect"]);
+    expect(argv).toContain("MemoryMax=2048M");
+    expect(argv).toContain("CPUQuota=200%");
+    const bwrapAt = argv.indexOf("bwrap");
+    expect(bwrapAt).toBeGreaterThan(argv.indexOf("CPUQuota=200%"));
+    const bwrap = argv.slice(bwrapAt);
+    expect(bwrap.join(" ")).toContain("--ro-bind / /");
+    expect(bwrap.join(" ")).toContain("--ro-bind /work/project /work/project --bind /tmp/brenner-scratch-1 /tmp/brenner-scratch-1");
+    expect(bwrap).toContain("--unshare-net");
+    expect(bwrap.join(" ")).toContain("--chdir /work/project/exp -- bun run.ts");
+    expect(argv.slice(-2)).toEqual(["bun", "run.ts"]);
+
+    expect(env).toEqual({ TMPDIR: PATHS.scratchDir, BRENNER_SCRATCH_DIR: PATHS.scratchDir });
+    expect(enforced).toEqual({ memory: "systemd-run", cpu: "systemd-run", network: "bwrap", filesystem: "bwrap" });
+    expect(warnings).toEqual([]);
+  });
+
+  test("degrades to prlimit and unshare with warnings", () => {
+    const result = planSandboxedCommand(["bun", "run.ts"], EXECUTION_PROFILES.standard, PATHS, {
+      ...NO_SANDBOX_CAPABILITIES,
+      unshare: true,
+      prlimit: true,
+    });
+    if (!result.ok) throw new Error(result.error);
+
+    expect(result.plan.argv).toEqual([
+      "prlimit",
+      `--data=${2048 * 1024 * 1024}`,
+      "--",
+      "unshare",
+      "--user",
+      "--map-root-user",
+      "--net",
+      "--",
+      "bun",
+      "run.ts",
+    ]);
+    expect(result.plan.enforced).toEqual({ memory: "prlimit", cpu: null, network: "unshare", filesystem: null });
+    expect(result.plan.warnings).toEqual([
+      "project is writable: bwrap is not usable",
+      "CPU not limited: systemd-run user scopes are not usable",
+    ]);
+  });
+
+  test("runs unwrapped with every limit reported when nothing is available", () => {
+    const result = planSandboxedCommand(["bun", "run.ts"], EXECUTION_PROFILES.standard, PATHS, NO_SANDBOX_CAPABILITIES);
+    if (!result.ok) throw new Error(result.error);
+    expect(result.plan.argv).toEqual(["bun", "run.ts"]);
+    expect(result.plan.warnings).toHaveLength(4);
+  });
+
+  test("strict profiles refuse to run unenforced", () => {
+    const result = planSandboxedCommand(["bun", "run.ts"], EXECUTION_PROFILES.strict, PATHS, {
+      ...ALL,
+      "systemd-run": false,
+    });
+    expect(result).toEqual({
+      ok: false,
+      error: 'Profile "strict" cannot be enforced here: CPU not limited: systemd-run user scopes are not usable',
+    });
+    expect(planSandboxedCommand(["true"], EXECUTION_PROFILES.strict, PATHS, ALL).ok).toBe(true);
+  });
+});
+
+describe("OutputCollector", () => {
+  test("keeps the tail of capped output and marks truncation", () => {
+    const collector = new OutputCollector(5);
+    collector.push("abc");
+    collector.push("defg");
+    collector.push("more");
+    expect(collector.truncated).toBe(true);
+    expect(collector.text()).toBe(`${TRUNCATION_MARKER}gmore`);
+
+    const unbounded = new OutputCollector(null);
+    unbounded.push("x".repeat(10_000));
+    expect(unbounded.truncated).toBe(false);
+    expect(unbounded.text()).toHaveLength(10_000);
+  });
+
+  test("keeps the outcome line of output over the cap", () => {
+    const outcome = `BRENNER_OUTCOME ${JSON.stringify({ result: "passed", summary: "Gradient held" })}`;
+    const collector = new OutputCollector(EXECUTION_PROFILES.strict.maxOutputChars);
+    for (let i = 0; i < 5_000; i++) collector.push(`step ${i}: ok\n`);
+    collector.push(`${outcome}\n`);
+
+    expect(collector.truncated).toBe(true);
+    expect(collector.text().length).toBeLessThanOrEqual(50_000 + TRUNCATION_MARKER.length);
+    expect(collector.text().endsWith(`${outcome}\n`)).toBe(true);
+  });
+});
+
+describe("sandboxProvenance", () => {
+  test("records limits, enforcement and truncation", () => {
+    const result = planSandboxedCommand(["bun", "run.ts"], EXECUTION_PROFILES.strict, PATHS, ALL);
+    if (!result.ok) throw new Error(result.error);
+    const stdout = new OutputCollector(2);
+    stdout.push("abc");
+
+    expect(
+      sandboxProvenance(EXECUTION_PROFILES.strict, result.plan, {
+        timeoutSeconds: 60,
+        capabilities: ALL,
+        scratchDir: PATHS.scratchDir,
+        stdout,
+        stderr: new OutputCollector(2),
+      })
+    ).toEqual({
+      profile: "strict",
+      limits: {
+        memory_mb: 512,
+        cpus: 1,
+        wall_clock_seconds: 60,
+        network: "deny",
+        filesystem: "readonly-project",
+        max_output_chars: 50_000,
+      },
+      enforced: { memory: "systemd-run", cpu: "systemd-run", network: "bwrap", filesystem: "bwrap" },
+      backends: ALL,
+      scratch_dir: PATHS.scratchDir,
+      stdout_truncated: true,
+      stderr_truncated: false,
+      warnings: [],
+    });
+  });
+});
@@ -0,0 +1,379 @@
+/**
+ * Experiment Sandbox
+ *
+ * Execution profiles for `brenner experiment run` and `POST /api/experiments`:
+ * memory/CPU/wall-clock limits, network isolation, a read-only project with a
+ * writable scratch directory, and output caps.
+ *
+ * Limits are enforced with whatever Linux primitives are available:
+ *
+ * | Limit      | Preferred                        | Fallback                    |
+ * |------------|----------------------------------|-----------------------------|
+ * | memory     | systemd-run --user --scope       | prlimit --data              |
+ * | cpu        | systemd-run --user --scope       | (none)                      |
+ * | network    | bwrap --unshare-net              | unshare --user --net        |
+ * | filesystem | bwrap (read-only root + scratch) | (none)                      |
+ * | wall clock | runner timeout                   | —                           |
+ * | output     | runner capture cap               | —                           |
+ *
+ * A limit that cannot be enforced is reported as a warning and recorded as
+ * `null` in the result's `sandbox` provenance. Profiles with
+ * `requireEnforcement` refuse to run instead.
+ *
+ * @see specs/experiment_capture_protocol_v0.1.md
+ */
+
+import { spawnSync } from "node:child_process";
+
+// ============================================================================
+// Profiles
+// ============================================================================
+
+export type NetworkPolicy = "allow" | "deny";
+
+export type FilesystemPolicy = "full" | "readonly-project";
+
+export interface ExecutionProfile {
+  name: string;
+  description: string;
+  /** Memory ceiling in MiB (null = unlimited) */
+  memoryMb: number | null;
+  /** CPU ceiling in cores (null = unlimited) */
+  cpus: number | null;
+  /** Upper bound on the requested timeout (null = use the request as-is) */
+  maxWallClockSeconds: number | null;
+  network: NetworkPolicy;
+  filesystem: FilesystemPolicy;
+  /** Per-stream capture cap in characters (null = capture everything) */
+  maxOutputChars: number | null;
+  /** Refuse to run when any limit cannot be enforced */
+  requireEnforcement: boolean;
+}
+
+export const EXECUTION_PROFILES = {
+  unrestricted: {
+    name: "unrestricted",
+    description: "Timeout only; the command runs with the caller's full privileges",
+    memoryMb: null,
+    cpus: null,
+    maxWallClockSeconds: null,
+    network: "allow",
+    filesystem: "full",
+    maxOutputChars: null,
+    requireEnforcement: false,
+  },
+  standard: {
+    name: "standard",
+    description: "2 GiB, 2 CPUs, 15 min, no network, read-only project; best effort",
+    memoryMb: 2048,
+    cpus: 2,
+    maxWallClockSeconds: 900,
+    network: "deny",
+    filesystem: "readonly-project",
+    maxOutputChars: 200_000,
+    requireEnforcement: false,
+  },
+  strict: {
+    name: "strict",
+    description: "512 MiB, 1 CPU, 5 min, no network, read-only project; refuses to run unenforced",
+    memoryMb: 512,
+    cpus: 1,
+    maxWallClockSeconds: 300,
+    network: "deny",
+    filesystem: "readonly-project",
+    maxOutputChars: 50_000,
+    requireEnforcement: true,
+  },
+} as const satisfies Record<string, ExecutionProfile>;
+
+export type ExecutionProfileName = keyof typeof EXECUTION_PROFILES;
+
+export const EXECUTION_PROFILE_NAMES = Object.keys(EXECUTION_PROFILES) as ExecutionProfileName[];
+
+export function isExecutionProfileName(value: string): value is ExecutionProfileName {
+  return Object.prototype.hasOwnProperty.call(EXECUTION_PROFILES, value);
+}
+
+/**
+ * Effective timeout: the request, capped by the profile.
+ */
+export function effectiveTimeoutSeconds(profile: ExecutionProfile, requestedSeconds: number): number {
+  return profile.maxWallClockSeconds === null
+    ? requestedSeconds
+    : Math.min(requestedSeconds, profile.maxWallClockSeconds);
+}
+
+// ============================================================================
+// Capability Detection
+// ============================================================================
+
+export type SandboxBackend = "systemd-run" | "bwrap" | "unshare" | "prlimit";
+
+export type SandboxCapabilities = Record<SandboxBackend, boolean>;
+
+export const NO_SANDBOX_CAPABILITIES: SandboxCapabilities = {
+  "systemd-run": false,
+  bwrap: false,
+  unshare: false,
+  prlimit: false,
+};
+
+/** Each probe runs a no-op under the backend, so "installed but not permitted" counts as unavailable */
+const PROBES: Record<SandboxBackend, string[]> = {
+  "systemd-run": ["systemd-run", "--user", "--scope", "--quiet", "--collect", "-p", "MemoryMax=64M", "true"],
+  bwrap: ["bwrap", "--ro-bind", "/", "/", "--dev", "/dev", "--proc", "/proc", "--unshare-net", "true"],
+  unshare: ["unshare", "--user", "--map-root-user", "--net", "true"],
+  prlimit: ["prlimit", "--data=1073741824", "true"],
+};
+
+let cachedCapabilities: SandboxCapabilities | null = null;
+
+function probe(argv: string[]): boolean {
+  try {
+    const result = spawnSync(argv[0], argv.slice(1), { stdio: "ignore", timeout: 5000 });
+    return result.status === 0 && !result.error;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Detect usable sandbox backends (cached per process).
+ *
+ * `BRENNER_SANDBOX_BACKENDS` restricts the candidates, e.g. "bwrap,prlimit"
+ * or "none".
+ */
+export function detectSandboxCapabilities(options: { refresh?: boolean } = {}): SandboxCapabilities {
+  if (cachedCapabilities && !options.refresh) return cachedCapabilities;
+
+  const allowed = process.env.BRENNER_SANDBOX_BACKENDS?.split(",").map((s) => s.trim());
+  const capabilities = { ...NO_SANDBOX_CAPABILITIES };
+  if (process.platform === "linux") {
+    for (const backend of Object.keys(PROBES) as SandboxBackend[]) {
+      if (allowed && !allowed.includes(backend)) continue;
+      capabilities[backend] = probe(PROBES[backend]);
+    }
+  }
+
+  cachedCapabilities = capabilities;
+  return capabilities;
+}
+
+// ============================================================================
+// Planning
+// ============================================================================
+
+export interface SandboxEnforcement {
+  memory: "systemd-run" | "prlimit" | null;
+  cpu: "systemd-run" | null;
+  network: "bwrap" | "unshare" | null;
+  filesystem: "bwrap" | null;
+}
+
+export interface SandboxPaths {
+  /** Project root, mounted read-only under "readonly-project" */
+  projectDir: string;
+  /** Working directory for the command */
+  cwd: string;
+  /** Writable directory exposed to the command (TMPDIR, BRENNER_SCRATCH_DIR) under "readonly-project" */
+  scratchDir: string;
+}
+
+export interface SandboxPlan {
+  /** Wrapped command line to spawn */
+  argv: string[];
+  /** Extra environment for the command */
+  env: Record<string, string>;
+  enforced: SandboxEnforcement;
+  warnings: string[];
+}
+
+export type SandboxPlanResult = { ok: true; plan: SandboxPlan } | { ok: false; error: string };
+
+/**
+ * Wrap a command so the profile's limits apply, using the available backends.
+ *
+ * Wrapper order, outermost first: systemd-run (cgroup) or prlimit, then
+ * bwrap or unshare, then the command. Under "readonly-project" the caller
+ * must create `paths.scratchDir` before spawning.
+ */
+export function planSandboxedCommand(
+  argv: string[],
+  profile: ExecutionProfile,
+  paths: SandboxPaths,
+  capabilities: SandboxCapabilities
+): SandboxPlanResult {
+  const enforced: SandboxEnforcement = { memory: null, cpu: null, network: null, filesystem: null };
+  const warnings: string[] = [];
+  let command = [...argv];
+
+  const wantsNetworkIsolation = profile.network === "deny";
+  const wantsReadonly = profile.filesystem === "readonly-project";
+
+  // Namespaces (innermost wrapper)
+  if ((wantsReadonly || wantsNetworkIsolation) && capabilities.bwrap) {
+    const bwrap = ["bwrap", "--die-with-parent"];
+    if (wantsReadonly) {
+      bwrap.push("--ro-bind", "/", "/", "--dev", "/dev", "--proc", "/proc", "--tmpfs", "/tmp");
+      bwrap.push("--ro-bind", paths.projectDir, paths.projectDir, "--bind", paths.scratchDir, paths.scratchDir);
+      enforced.filesystem = "bwrap";
+    } else {
+      bwrap.push("--bind", "/", "/", "--dev", "/dev", "--proc", "/proc");
+    }
+    if (wantsNetworkIsolation) {
+      bwrap.push("--unshare-net");
+      enforced.network = "bwrap";
+    }
+    bwrap.push("--chdir", paths.cwd, "--");
+    command = [...bwrap, ...command];
+  } else if (wantsNetworkIsolation && capabilities.unshare) {
+    command = ["unshare", "--user", "--map-root-user", "--net", "--", ...command];
+    enforced.network = "unshare";
+  }
+  if (wantsNetworkIsolation && !enforced.network) warnings.push("network not isolated: neither bwrap nor unshare is usable");
+  if (wantsReadonly && !enforced.filesystem) warnings.push("project is writable: bwrap is not usable");
+
+  // Resource limits (outer wrappers)
+  const wantsMemory = profile.memoryMb !== null;
+  const wantsCpu = profile.cpus !== null;
+  if ((wantsMemory || wantsCpu) && capabilities["systemd-run"]) {
+    const scope = ["systemd-run", "--user", "--scope", "--quiet", "--collect"];
+    if (wantsMemory) {
+      scope.push("-p", `MemoryMax=${profile.memoryMb}M`, "-p", "MemorySwapMax=0");
+      enforced.memory = "systemd-run";
+    }
+    if (wantsCpu) {
+      scope.push("-p", `CPUQuota=${Math.round((profile.cpus as number) * 100)}%`);
+      enforced.cpu = "systemd-run";
+    }
+    command = [...scope, "--", ...command];
+  } else if (wantsMemory && capabilities.prlimit) {
+    command = ["prlimit", `--data=${(profile.memoryMb as number) * 1024 * 1024}`, "--", ...command];
+    enforced.memory = "prlimit";
+  }
+  if (wantsMemory && !enforced.memory) warnings.push("memory not limited: neither systemd-run nor prlimit is usable");
+  if (wantsCpu && !enforced.cpu) warnings.push("CPU not limited: systemd-run user scopes are not usable");
+
+  if (profile.requireEnforcement && warnings.length > 0) {
+    return { ok: false, error: `Profile "${profile.name}" cannot be enforced here: ${warnings.join("; ")}` };
+  }
+
+  const env: Record<string, string> = wantsReadonly
+    ? { TMPDIR: paths.scratchDir, BRENNER_SCRATCH_DIR: paths.scratchDir }
+    : {};
+
+  return { ok: true, plan: { argv: command, env, enforced, warnings } };
+}
+
+// ============================================================================
+// Environment
+// ============================================================================
+
+/**
+ * Host variables a web-triggered run inherits. Everything else (API keys,
+ * the Agent Mail token, auth secrets) stays with the server process.
+ */
+export const SANDBOX_ENV_ALLOWLIST = ["PATH", "HOME", "USER", "LANG", "LC_ALL", "LC_CTYPE", "TZ", "TERM"] as const;
+
+export function allowlistedEnv(source: NodeJS.ProcessEnv = process.env): NodeJS.ProcessEnv {
+  const env = {} as NodeJS.ProcessEnv;
+  for (const name of SANDBOX_ENV_ALLOWLIST) {
+    const value = source[name];
+    if (value !== undefined) env[name] = value;
+  }
+  return env;
+}
+
+// ============================================================================
+// Output Capture
+// ============================================================================
+
+export const TRUNCATION_MARKER = "…(truncated)…\n";
+
+/**
+ * Accumulates one output stream up to a character cap. Past the cap the
+ * oldest output is dropped, so the tail survives: harnesses print their
+ * `BRENNER_OUTCOME` line last, and `experiment encode` reads it from there.
+ */
+export class OutputCollector {
+  private chunks: string[] = [];
+  private chars = 0;
+  private _truncated = false;
+
+  constructor(private readonly maxChars: number | null) {}
+
+  push(chunk: string): void {
+    this.chunks.push(chunk);
+    this.chars += chunk.length;
+    if (this.maxChars === null || this.chars <= this.maxChars) return;
+
+    this._truncated = true;
+    while (this.chars - this.chunks[0].length >= this.maxChars) {
+      this.chars -= this.chunks.shift()!.length;
+    }
+  }
+
+  get truncated(): boolean {
+    return this._truncated;
+  }
+
+  text(): string {
+    const text = this.chunks.join("");
+    if (!this._truncated || this.maxChars === null) return text;
+    return TRUNCATION_MARKER + text.slice(text.length - this.maxChars);
+  }
+}
+
+// ============================================================================
+// Provenance
+// ============================================================================
+
+/** The `sandbox` block of an experiment_result_v0.1 file */
+export interface SandboxProvenance {
+  profile: string;
+  limits: {
+    memory_mb: number | null;
+    cpus: number | null;
+    wall_clock_seconds: number;
+    network: NetworkPolicy;
+    filesystem: FilesystemPolicy;
+    max_output_chars: number | null;
+  };
+  /** Backend that enforced each limit; null = requested but not enforced, or not requested */
+  enforced: SandboxEnforcement;
+  backends: SandboxCapabilities;
+  scratch_dir: string | null;
+  stdout_truncated: boolean;
+  stderr_truncated: boolean;
+  warnings: string[];
+}
+
+export function sandboxProvenance(
+  profile: ExecutionProfile,
+  plan: SandboxPlan,
+  details: {
+    timeoutSeconds: number;
+    capabilities: SandboxCapabilities;
+    scratchDir: string | null;
+    stdout: OutputCollector;
+    stderr: OutputCollector;
+  }
+): SandboxProvenance {
+  return {
+    profile: profile.name,
+    limits: {
+      memory_mb: profile.memoryMb,
+      cpus: profile.cpus,
+      wall_clock_seconds: details.timeoutSeconds,
+      network: profile.network,
+      filesystem: profile.filesystem,
+      max_output_chars: profile.maxOutputChars,
+    },
+    enforced: plan.enforced,
+    backends: details.capabilities,
+    scratch_dir: details.scratchDir,
+    stdout_truncated: details.stdout.truncated,
+    stderr_truncated: details.stderr.truncated,
+    warnings: plan.warnings,
+  };
+}
@@ -0,0 +1,230 @@
+/**
+ * Tests for lint rule packs.
+ *
+ * Philosophy: NO mocks - run real packs against real artifacts.
+ */
+
+import { describe, expect, test } from "vitest";
+import { createEmptyArtifact, formatLintReportHuman, lintArtifact, type Artifact } from "./artifact-merge";
+import {
+  evaluateLintCondition,
+  lintArtifactWithRulePacks,
+  parseLintRulePack,
+  runLintRulePack,
+  selectLintRulePacks,
+  type LintRulePack,
+} from "./lint-rule-packs";
+
+// ============================================================================
+// Test Helpers
+// ============================================================================
+
+function makeArtifact(): Artifact {
+  const artifact = createEmptyArtifact("RS-PACKS");
+  artifact.sections.hypothesis_slate = [
+    { id: "H1", name: "Gradient", claim: "C1", mechanism: "M1", anchors: ["§12", "distillation:opus"] },
+    { id: "H2", name: "Relay", claim: "C2", mechanism: "M2", anchors: ["distillation:gpt"] },
+    { id: "H3", name: "Dead", claim: "C3", mechanism: "M3", anchors: ["distillation:gpt"], killed: true },
+  ];
+  artifact.sections.discriminative_tests = [
+    {
+      id: "T1",
+      name: "Knockout",
+      procedure: "Cell culture knockout",
+      discriminates: "H1 vs H2",
+      expected_outcomes: {},
+      potency_check: "Positive control: wild-type culture shows signal",
+      score: { likelihood_ratio: 3, cost: 2, speed: 2, ambiguity: 2 },
+    },
+    {
+      id: "T2",
+      name: "Imaging",
+      procedure: "Live cell imaging",
+      discriminates: "H1 vs H2",
+      expected_outcomes: {},
+      potency_check: "Check the microscope works",
+      score: { likelihood_ratio: 1, cost: 3, speed: 3, ambiguity: 3 },
+    },
+    {
+      id: "T3",
+      name: "Survey",
+      procedure: "Literature survey",
+      discriminates: "H1 vs H2",
+      expected_outcomes: {},
+      potency_check: "n/a",
+    },
+  ];
+  return artifact;
+}
+
+const biologyPack = parseLintRulePack(
+  {
+    id: "lab-biology",
+    name: "Lab biology guardrails",
+    rules: [
+      {
+        id: "BIO-001",
+        severity: "error",
+        section: "discriminative_tests",
+        when: { field: "procedure", matches: "\\bcell\\b" },
+        require: { field: "potency_check", matches: "positive control" },
+        message: "{id} ({name}) does not name a positive control",
+        fix: "Describe the positive control for {id}",
+      },
+      {
+        id: "BIO-002",
+        severity: "warning",
+        section: "hypothesis_slate",
+        when: { field: "anchors", minItems: 1 },
+        require: { not: { field: "anchors", matches: "^distillation", each: "all" } },
+        message: "{id} cites only distillations",
+      },
+    ],
+  },
+  "lab-biology.json"
+);
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+describe("parseLintRulePack", () => {
+  test("accepts declarative packs and records their source", () => {
+    expect(biologyPack.id).toBe("lab-biology");
+    expect(biologyPack.rules).toHaveLength(2);
+    expect(biologyPack.source).toBe("lab-biology.json");
+  });
+
+  test("reports every schema problem with its path", () => {
+    expect(() =>
+      parseLintRulePack(
+        {
+          id: "Bad Pack",
+          name: "Bad",
+          rules: [
+            {
+              id: "X-1",
+              severity: "fatal",
+              section: "hypothesis_slate",
+              require: { field: "claim", matches: "(" },
+              message: "m",
+            },
+          ],
+        },
+        "bad.json"
+      )
+    ).toThrow(/Invalid lint rule pack \(bad\.json\): id: Pack ID must be lowercase kebab-case; rules\.0\.severity/);
+  });
+
+  test("keeps a module's check function", () => {
+    const pack = parseLintRulePack({ id: "custom", name: "Custom", check: () => [] });
+    expect(typeof pack.check).toBe("function");
+    expect(pack.rules).toEqual([]);
+    expect(() => parseLintRulePack({ id: "custom", name: "Custom", check: "nope" })).toThrow(/must be a function/);
+  });
+});
+
+// ============================================================================
+// Evaluation
+// ============================================================================
+
+describe("evaluateLintCondition", () => {
+  const item = { id: "T1", tags: ["a", "b"], score: { cost: 2 }, note: "  " };
+
+  test("supports nested paths, array quantifiers, and combinators", () => {
+    expect(evaluateLintCondition(item, { field: "score.cost", equals: 2 })).toBe(true);
+    expect(evaluateLintCondition(item, { field: "tags", equals: "b" })).toBe(true);
+    expect(evaluateLintCondition(item, { field: "tags", equals: "b", each: "all" })).toBe(false);
+    expect(evaluateLintCondition(item, { field: "note", exists: false })).toBe(true);
+    expect(evaluateLintCondition(item, { field: "tags", minItems: 3 })).toBe(false);
+    expect(evaluateLintCondition(item, { any: [{ field: "missing", exists: true }, { field: "id", matches: "^t" }] })).toBe(
+      true
+    );
+    expect(evaluateLintCondition(item, { all: [{ field: "id", minLength: 2 }, { not: { field: "id", equals: "T1" } }] })).toBe(
+      false
+    );
+  });
+});
+
+describe("runLintRulePack", () => {
+  test("emits pack-tagged violations for matching items, skipping killed ones", () => {
+    const violations = runLintRulePack(makeArtifact(), biologyPack);
+
+    expect(violations).toEqual([
+      {
+        id: "BIO-001",
+        severity: "error",
+        message: "T2 (Imaging) does not name a positive control",
+        fix: "Describe the positive control for T2",
+        pack: "lab-biology",
+      },
+      { id: "BIO-002", severity: "warning", message: "H2 cites only distillations", pack: "lab-biology" },
+    ]);
+  });
+
+  test("runs module checks and turns their failures into violations", () => {
+    const pack: LintRulePack = {
+      id: "scripted",
+      name: "Scripted",
+      rules: [],
+      check: (artifact) =>
+        artifact.sections.discriminative_tests.length > 2
+          ? [{ id: "SCR-001", severity: "info", message: "Many tests" }]
+          : [],
+    };
+    expect(runLintRulePack(makeArtifact(), pack)).toEqual([
+      { id: "SCR-001", severity: "info", message: "Many tests", pack: "scripted" },
+    ]);
+
+    const broken: LintRulePack = {
+      id: "broken",
+      name: "Broken",
+      rules: [],
+      check: () => {
+        throw new Error("boom");
+      },
+    };
+    expect(runLintRulePack(makeArtifact(), broken)[0]).toMatchObject({
+      id: "broken:check",
+      severity: "error",
+      message: "Rule pack check failed: boom",
+    });
+  });
+});
+
+// ============================================================================
+// Selection and Reports
+// ============================================================================
+
+describe("selectLintRulePacks", () => {
+  const always = { id: "always", name: "Always", rules: [] };
+  const scoped = { id: "scoped", name: "Scoped", templates: ["full-analysis"], rules: [] };
+
+  test("applies unscoped packs, template-scoped packs for their template, and explicit packs", () => {
+    expect(selectLintRulePacks([always, scoped]).map((p) => p.id)).toEqual(["always"]);
+    expect(selectLintRulePacks([always, scoped], { templateId: "full-analysis" }).map((p) => p.id)).toEqual([
+      "always",
+      "scoped",
+    ]);
+    expect(selectLintRulePacks([always, scoped], { enable: ["scoped"] }).map((p) => p.id)).toEqual(["always", "scoped"]);
+  });
+
+  test("rejects duplicate and unknown pack IDs", () => {
+    expect(() => selectLintRulePacks([always, { ...always, source: "b.json" }])).toThrow(/Duplicate lint rule pack "always"/);
+    expect(() => selectLintRulePacks([always], { enable: ["nope"] })).toThrow("Unknown lint rule pack: nope");
+  });
+});
+
+describe("lintArtifactWithRulePacks", () => {
+  test("merges pack violations into the built-in report and labels them", () => {
+    const artifact = makeArtifact();
+    const builtIn = lintArtifact(artifact);
+    const report = lintArtifactWithRulePacks(artifact, [biologyPack]);
+
+    expect(report.summary.errors).toBe(builtIn.summary.errors + 1);
+    expect(report.summary.warnings).toBe(builtIn.summary.warnings + 1);
+    expect(report.violations.filter((v) => v.pack === "lab-biology").map((v) => v.id)).toEqual(["BIO-001", "BIO-002"]);
+    expect(formatLintReportHuman(report)).toContain("BIO-001 [lab-biology]: T2 (Imaging) does not name a positive control");
+    expect(lintArtifactWithRulePacks(artifact, [])).toEqual(builtIn);
+  });
+});
@@ -0,0 +1,395 @@
+/**
+ * Lint Rule Packs
+ *
+ * Lab-specific guardrails layered on top of the built-in artifact linter.
+ * A pack is a declarative bundle of rules (JSON, or a TS/JS module exporting
+ * the same shape) that emits LintViolations with its own rule IDs, tagged with
+ * the pack ID so reports show where each violation came from.
+ *
+ * Example pack (JSON):
+ * ```json
+ * {
+ *   "id": "lab-biology",
+ *   "name": "Lab biology guardrails",
+ *   "templates": ["full-analysis"],
+ *   "rules": [
+ *     {
+ *       "id": "BIO-001",
+ *       "severity": "error",
+ *       "section": "discriminative_tests",
+ *       "require": { "field": "potency_check", "matches": "positive control" },
+ *       "message": "{id} does not name a positive control",
+ *       "fix": "Describe the positive control in potency_check"
+ *     }
+ *   ]
+ * }
+ * ```
+ *
+ * Packs without `templates` always apply; packs with `templates` apply only
+ * when linting a session that uses one of those session templates.
+ */
+
+import { z } from "zod";
+import {
+  lintArtifact,
+  summarizeLintViolations,
+  type Artifact,
+  type LintReport,
+  type LintViolation,
+} from "./artifact-merge";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Predicate over an artifact item.
+ *
+ * Field checks read a dotted path (e.g. "score.likelihood"). On array fields,
+ * `equals`/`matches` test the elements: any element by default, every element
+ * with `each: "all"`.
+ */
+export type LintCondition =
+  | { all: LintCondition[] }
+  | { any: LintCondition[] }
+  | { not: LintCondition }
+  | LintFieldCondition;
+
+export interface LintFieldCondition {
+  field: string;
+  /** Field is present and non-empty (true) or absent/empty (false) */
+  exists?: boolean;
+  equals?: string | number | boolean;
+  /** Case-insensitive regular expression */
+  matches?: string;
+  /** Minimum trimmed string length */
+  minLength?: number;
+  /** Minimum array length */
+  minItems?: number;
+  /** How array elements are tested by equals/matches */
+  each?: "any" | "all";
+}
+
+/** Artifact sections a rule can target */
+export type LintRuleSection =
+  | "hypothesis_slate"
+  | "predictions_table"
+  | "discriminative_tests"
+  | "assumption_ledger"
+  | "anomaly_register"
+  | "adversarial_critique"
+  | "research_thread";
+
+/**
+ * Declarative rule: every (non-killed) item in `section` that satisfies
+ * `when` must satisfy `require`, otherwise a violation is emitted.
+ */
+export interface LintRule {
+  id: string;
+  severity: LintViolation["severity"];
+  section: LintRuleSection;
+  when?: LintCondition;
+  require: LintCondition;
+  /** Message template; `{id}`, `{name}`, or any `{field.path}` is substituted from the item */
+  message: string;
+  fix?: string;
+  /** Also check killed items (default: false) */
+  includeKilled?: boolean;
+}
+
+/** Programmatic check contributed by a TS/JS pack */
+export type LintRuleCheck = (artifact: Artifact) => Array<Omit<LintViolation, "pack">>;
+
+export interface LintRulePack {
+  id: string;
+  name: string;
+  description?: string;
+  version?: string;
+  /** Session template IDs that enable this pack; omit to always apply */
+  templates?: string[];
+  rules: LintRule[];
+  /** TS/JS packs only: extra checks beyond the declarative rules */
+  check?: LintRuleCheck;
+  /** Where the pack was loaded from (set by loaders) */
+  source?: string;
+}
+
+// ============================================================================
+// Schemas
+// ============================================================================
+
+const LintConditionSchema: z.ZodType<LintCondition> = z.lazy(() =>
+  z.union([
+    z.object({ all: z.array(LintConditionSchema).min(1) }).strict(),
+    z.object({ any: z.array(LintConditionSchema).min(1) }).strict(),
+    z.object({ not: LintConditionSchema }).strict(),
+    z
+      .object({
+        field: z.string().min(1),
+        exists: z.boolean().optional(),
+        equals: z.union([z.string(), z.number(), z.boolean()]).optional(),
+        matches: z
+          .string()
+          .refine(isValidRegex, { message: "Invalid regular expression" })
+          .optional(),
+        minLength: z.number().int().nonnegative().optional(),
+        minItems: z.number().int().nonnegative().optional(),
+        each: z.enum(["any", "all"]).optional(),
+      })
+      .strict(),
+  ])
+);
+
+export const LintRuleSchema = z
+  .object({
+    id: z.string().regex(/^[A-Za-z][\w-]*$/, { message: "Rule ID must be alphanumeric (e.g. BIO-001)" }),
+    severity: z.enum(["error", "warning", "info"]),
+    section: z.enum([
+      "hypothesis_slate",
+      "predictions_table",
+      "discriminative_tests",
+      "assumption_ledger",
+      "anomaly_register",
+      "adversarial_critique",
+      "research_thread",
+    ]),
+    when: LintConditionSchema.optional(),
+    require: LintConditionSchema,
+    message: z.string().min(1),
+    fix: z.string().optional(),
+    includeKilled: z.boolean().optional(),
+  })
+  .strict();
+
+export const LintRulePackSchema = z
+  .object({
+    id: z.string().regex(/^[a-z0-9][a-z0-9._-]*$/, { message: "Pack ID must be lowercase kebab-case" }),
+    name: z.string().min(1),
+    description: z.string().optional(),
+    version: z.string().optional(),
+    templates: z.array(z.string().min(1)).optional(),
+    rules: z.array(LintRuleSchema).default([]),
+  })
+  .strict();
+
+function isValidRegex(pattern: string): boolean {
+  try {
+    new RegExp(pattern, "i");
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Validate a pack definition (parsed JSON or a module's export).
+ *
+ * @throws Error listing every schema problem, prefixed with `source`
+ */
+export function parseLintRulePack(value: unknown, source?: string): LintRulePack {
+  const where = source ? ` (${source})` : "";
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    throw new Error(`Lint rule pack must be an object${where}`);
+  }
+
+  const { check, ...declarative } = value as Record<string, unknown>;
+  if (check !== undefined && typeof check !== "function") {
+    throw new Error(`Lint rule pack "check" must be a function${where}`);
+  }
+
+  const result = LintRulePackSchema.safeParse(declarative);
+  if (!result.success) {
+    const problems = result.error.errors.map((e) => `${e.path.join(".") || "(root)"}: ${e.message}`);
+    throw new Error(`Invalid lint rule pack${where}: ${problems.join("; ")}`);
+  }
+
+  return {
+    ...result.data,
+    ...(check ? { check: check as LintRuleCheck } : {}),
+    ...(source ? { source } : {}),
+  };
+}
+
+// ============================================================================
+// Evaluation
+// ============================================================================
+
+function getPath(item: unknown, path: string): unknown {
+  let current = item;
+  for (const key of path.split(".")) {
+    if (typeof current !== "object" || current === null) return undefined;
+    current = (current as Record<string, unknown>)[key];
+  }
+  return current;
+}
+
+function isPresent(value: unknown): boolean {
+  if (value === undefined || value === null) return false;
+  if (typeof value === "string") return value.trim().length > 0;
+  if (Array.isArray(value)) return value.length > 0;
+  if (typeof value === "object") return Object.keys(value).length > 0;
+  return true;
+}
+
+function testElements(value: unknown, each: "any" | "all", test: (element: unknown) => boolean): boolean {
+  if (!Array.isArray(value)) return test(value);
+  return each === "all" ? value.every(test) : value.some(test);
+}
+
+function stringOf(value: unknown): string | null {
+  if (typeof value === "string") return value;
+  if (typeof value === "number" || typeof value === "boolean") return String(value);
+  return null;
+}
+
+function checkField(item: unknown, condition: LintFieldCondition): boolean {
+  const value = getPath(item, condition.field);
+  const each = condition.each ?? "any";
+
+  if (condition.exists !== undefined && isPresent(value) !== condition.exists) return false;
+
+  if (condition.equals !== undefined && !testElements(value, each, (element) => element === condition.equals)) {
+    return false;
+  }
+
+  if (condition.matches !== undefined) {
+    const pattern = new RegExp(condition.matches, "i");
+    const matched = testElements(value, each, (element) => {
+      const text = stringOf(element);
+      return text !== null && pattern.test(text);
+    });
+    if (!matched) return false;
+  }
+
+  if (condition.minLength !== undefined) {
+    const text = stringOf(value);
+    if (text === null || text.trim().length < condition.minLength) return false;
+  }
+
+  if (condition.minItems !== undefined) {
+    if (!Array.isArray(value) || value.length < condition.minItems) return false;
+  }
+
+  return true;
+}
+
+/** Evaluate a condition against one artifact item */
+export function evaluateLintCondition(item: unknown, condition: LintCondition): boolean {
+  if ("all" in condition) return condition.all.every((c) => evaluateLintCondition(item, c));
+  if ("any" in condition) return condition.any.some((c) => evaluateLintCondition(item, c));
+  if ("not" in condition) return !evaluateLintCondition(item, condition.not);
+  return checkField(item, condition);
+}
+
+function renderMessage(template: string, item: unknown): string {
+  return template.replace(/\{([\w.]+)\}/g, (placeholder, path: string) => {
+    const text = stringOf(getPath(item, path));
+    return text ?? placeholder;
+  });
+}
+
+function sectionItems(artifact: Artifact, section: LintRuleSection): Array<{ id: string; killed?: boolean }> {
+  if (section === "research_thread") {
+    return artifact.sections.research_thread ? [artifact.sections.research_thread] : [];
+  }
+  return artifact.sections[section];
+}
+
+/**
+ * Run one pack against an artifact.
+ *
+ * Errors thrown by a pack's `check` become a single error violation rather
+ * than aborting the lint run.
+ */
+export function runLintRulePack(artifact: Artifact, pack: LintRulePack): LintViolation[] {
+  const violations: LintViolation[] = [];
+
+  for (const rule of pack.rules) {
+    for (const item of sectionItems(artifact, rule.section)) {
+      if (item.killed && !rule.includeKilled) continue;
+      if (rule.when && !evaluateLintCondition(item, rule.when)) continue;
+      if (evaluateLintCondition(item, rule.require)) continue;
+
+      violations.push({
+        id: rule.id,
+        severity: rule.severity,
+        message: renderMessage(rule.message, item),
+        ...(rule.fix ? { fix: renderMessage(rule.fix, item) } : {}),
+        pack: pack.id,
+      });
+    }
+  }
+
+  if (pack.check) {
+    try {
+      for (const violation of pack.check(artifact)) {
+        violations.push({ ...violation, pack: pack.id });
+      }
+    } catch (error) {
+      violations.push({
+        id: `${pack.id}:check`,
+        severity: "error",
+        message: `Rule pack check failed: ${error instanceof Error ? error.message : String(error)}`,
+        fix: "Fix the pack's check() function",
+        pack: pack.id,
+      });
+    }
+  }
+
+  return violations;
+}
+
+// ============================================================================
+// Selection
+// ============================================================================
+
+export interface RulePackSelection {
+  /** Session template the artifact was produced under */
+  templateId?: string;
+  /** Pack IDs to enable regardless of their templates */
+  enable?: string[];
+}
+
+/**
+ * Pick the packs that apply: packs without templates, packs scoped to the
+ * selected session template, and explicitly enabled packs.
+ *
+ * @throws Error for duplicate pack IDs, or enabled IDs that were not loaded
+ */
+export function selectLintRulePacks(packs: LintRulePack[], selection: RulePackSelection = {}): LintRulePack[] {
+  const byId = new Map<string, LintRulePack>();
+  for (const pack of packs) {
+    const existing = byId.get(pack.id);
+    if (existing) {
+      throw new Error(
+        `Duplicate lint rule pack "${pack.id}" (${existing.source ?? "inline"} and ${pack.source ?? "inline"})`
+      );
+    }
+    byId.set(pack.id, pack);
+  }
+
+  const enabled = new Set(selection.enable ?? []);
+  for (const id of enabled) {
+    if (!byId.has(id)) throw new Error(`Unknown lint rule pack: ${id}`);
+  }
+
+  return packs.filter(
+    (pack) =>
+      enabled.has(pack.id) ||
+      !pack.templates ||
+      (selection.templateId !== undefined && pack.templates.includes(selection.templateId))
+  );
+}
+
+/**
+ * Lint an artifact with the built-in rules plus the given packs.
+ */
+export function lintArtifactWithRulePacks(artifact: Artifact, packs: LintRulePack[]): LintReport {
+  const builtIn = lintArtifact(artifact);
+  if (packs.length === 0) return builtIn;
+
+  return summarizeLintViolations([
+    ...builtIn.violations,
+    ...packs.flatMap((pack) => runLintRulePack(artifact, pack)),
+  ]);
+}
@@ -0,0 +1,246 @@
+/**
+ * Tests for the Brenner MCP server.
+ *
+ * Runs against real registries in a temp project directory.
+ */
+
+import { afterEach, beforeEach, describe, expect, test } from "vitest";
+import { randomUUID } from "node:crypto";
+import { mkdirSync, readFileSync, rmSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { BrennerMcpServer, BRENNER_MCP_TOOLS, MCP_PROTOCOL_VERSION, type McpToolResult } from "./mcp-server";
+import type { StateTransition } from "./schemas/hypothesis-lifecycle";
+import type { GlobalSearchResult } from "./globalSearch";
+
+// ============================================================================
+// Fixtures
+// ============================================================================
+
+let projectKey: string;
+let transitions: StateTransition[];
+let server: BrennerMcpServer;
+
+function structured(result: McpToolResult): Record<string, unknown> {
+  if (result.isError) throw new Error(result.content[0]?.text);
+  return result.structuredContent ?? {};
+}
+
+beforeEach(() => {
+  projectKey = join(tmpdir(), `brenner-test-${randomUUID()}`);
+  mkdirSync(projectKey, { recursive: true });
+  transitions = [];
+  server = new BrennerMcpServer({
+    projectKey,
+    actor: "TestAgent",
+    onHypothesisTransition: (t) => transitions.push(t),
+    search: async (query, options) =>
+      ({
+        query,
+        hits: [],
+        totalMatches: 0,
+        searchTimeMs: 1,
+        categories: {},
+        options,
+      }) as unknown as GlobalSearchResult,
+  });
+});
+
+afterEach(() => {
+  rmSync(projectKey, { recursive: true, force: true });
+});
+
+// ============================================================================
+// Protocol
+// ============================================================================
+
+describe("JSON-RPC handling", () => {
+  test("answers initialize and lists tools", async () => {
+    const init = await server.handleMessage({ jsonrpc: "2.0", id: 1, method: "initialize", params: {} });
+    expect(init?.result).toMatchObject({
+      protocolVersion: MCP_PROTOCOL_VERSION,
+      serverInfo: { name: "brenner" },
+      capabilities: { tools: {}, resources: {} },
+    });
+
+    const list = await server.handleMessage({ jsonrpc: "2.0", id: 2, method: "tools/list" });
+    const names = (list?.result as { tools: Array<{ name: string }> }).tools.map((t) => t.name);
+    expect(names).toEqual(BRENNER_MCP_TOOLS.map((t) => t.name));
+    expect(names).toEqual(expect.arrayContaining(["hypothesis_list", "critique_create", "corpus_search"]));
+  });
+
+  test("ignores notifications and rejects unknown methods", async () => {
+    expect(await server.handleMessage({ jsonrpc: "2.0", method: "notifications/initialized" })).toBeNull();
+    expect(await server.handleMessage({ jsonrpc: "2.0", id: 3, method: "sampling/createMessage" })).toEqual({
+      jsonrpc: "2.0",
+      id: 3,
+      error: { code: -32601, message: "Method not found: sampling/createMessage" },
+    });
+    expect((await server.handleMessage("nope"))?.error?.code).toBe(-32600);
+  });
+
+  test("reports tool failures as error results", async () => {
+    const response = await server.handleMessage({
+      jsonrpc: "2.0",
+      id: 4,
+      method: "tools/call",
+      params: { name: "critique_create", arguments: { target: "nonsense", attack: "a", evidenceToConfirm: "b" } },
+    });
+    expect(response?.result).toEqual({
+      content: [{ type: "text", text: 'Invalid target "nonsense" (expected H-..., T-..., A-..., framing, or methodology).' }],
+      isError: true,
+    });
+  });
+});
+
+// ============================================================================
+// Registries
+// ============================================================================
+
+describe("hypotheses", () => {
+  test("creates and transitions through the lifecycle validators", async () => {
+    const created = structured(
+      await server.callTool("hypothesis_create", {
+        statement: "Position is read from a morphogen gradient",
+        category: "mechanistic",
+        sessionId: "RS-1",
+      })
+    );
+    const hypothesis = created.hypothesis as { id: string; state: string; proposedBy: string };
+    expect(hypothesis).toMatchObject({ id: "H-RS-1-001", state: "proposed", proposedBy: "TestAgent" });
+
+    const refuted = await server.callTool("hypothesis_transition", { id: hypothesis.id, trigger: "refute" });
+    expect(refuted.isError).toBe(true);
+    expect(transitions).toEqual([]);
+
+    const activated = structured(await server.callTool("hypothesis_transition", { id: hypothesis.id, trigger: "activate" }));
+    expect(activated.hypothesis).toMatchObject({ state: "active" });
+    expect(transitions).toHaveLength(1);
+    expect(transitions[0]).toMatchObject({ fromState: "proposed", toState: "active", triggeredBy: "TestAgent" });
+
+    const listed = structured(await server.callTool("hypothesis_list", { state: "active" }));
+    expect(listed.count).toBe(1);
+  });
+});
+
+describe("assumptions", () => {
+  test("requires evidence to falsify and reports the propagation", async () => {
+    const created = structured(
+      await server.callTool("assumption_create", {
+        statement: "Diffusion is fast enough over 100 μm",
+        type: "background",
+        loadDescription: "Gradient model needs it",
+        sessionId: "RS1",
+        affectedHypotheses: ["H-RS1-001"],
+      })
+    );
+    const id = (created.assumption as { id: string }).id;
+    expect(id).toBe("A-RS1-001");
+
+    const missing = await server.callTool("assumption_transition", { id, action: "falsify" });
+    expect(missing.content[0]?.text).toBe("Missing evidence.");
+
+    const falsified = structured(await server.callTool("assumption_transition", { id, action: "falsify", evidence: "EV-001" }));
+    expect(falsified.assumption).toMatchObject({ status: "falsified" });
+    expect(falsified.propagation).toMatchObject({ undermindedHypotheses: ["H-RS1-001"] });
+  });
+
+  test("scale_physics assumptions need a valid calculation", async () => {
+    const result = await server.callTool("assumption_create", {
+      statement: "Signal crosses the embryo in minutes",
+      type: "scale_physics",
+      loadDescription: "Timing argument",
+    });
+    expect(result.content[0]?.text).toBe("Missing calculation (required when type is scale_physics).");
+  });
+});
+
+describe("anomalies and critiques", () => {
+  test("anomalies follow the quarantine lifecycle", async () => {
+    const created = structured(
+      await server.callTool("anomaly_create", {
+        observation: "Mutant still patterns",
+        conflictsWith: ["H-RS1-001"],
+        conflictDescription: "Gradient is gone but pattern remains",
+        sessionId: "RS1",
+      })
+    );
+    const id = (created.anomaly as { id: string }).id;
+
+    const reactivate = await server.callTool("anomaly_transition", { id, action: "reactivate" });
+    expect(reactivate.isError).toBe(true);
+
+    structured(await server.callTool("anomaly_transition", { id, action: "defer", reason: "Need imaging" }));
+    const listed = structured(await server.callTool("anomaly_list", { status: "deferred" }));
+    expect(listed.count).toBe(1);
+  });
+
+  test("critiques can be raised and answered once", async () => {
+    const created = structured(
+      await server.callTool("critique_create", {
+        target: "H-RS1-001",
+        attack: "A relay mechanism predicts the same pattern",
+        evidenceToConfirm: "Cut the tissue and look for scaling",
+        severity: "serious",
+        sessionId: "RS1",
+      })
+    );
+    expect(created.critique).toMatchObject({ targetType: "hypothesis", targetId: "H-RS1-001", raisedBy: "TestAgent" });
+    const id = (created.critique as { id: string }).id;
+
+    const badAccept = await server.callTool("critique_respond", { id, outcome: "accepted", response: "Fair" });
+    expect(badAccept.content[0]?.text).toBe("Missing action (required when outcome is accepted).");
+
+    const tooShort = await server.callTool("critique_create", { target: "framing", attack: "Vague", evidenceToConfirm: "Something" });
+    expect(tooShort.content[0]?.text).toBe(
+      "attack: Attack must be at least 20 characters; evidenceToConfirm: Evidence description must be at least 10 characters"
+    );
+
+    const accepted = structured(
+      await server.callTool("critique_respond", {
+        id,
+        outcome: "accepted",
+        response: "Designed a cut experiment",
+        action: "new_test",
+        newTestId: "T-RS1-004",
+      })
+    );
+    expect(accepted.critique).toMatchObject({ status: "accepted", response: { newTestId: "T-RS1-004" } });
+
+    const again = await server.callTool("critique_respond", { id, outcome: "dismissed", response: "No" });
+    expect(again.isError).toBe(true);
+
+    const filtered = structured(await server.callTool("critique_list", { target: "H-RS1-001", status: "accepted" }));
+    expect(filtered.count).toBe(1);
+  });
+});
+
+describe("evidence and corpus", () => {
+  test("adds evidence records and serves the pack as a resource", async () => {
+    const added = structured(
+      await server.callTool("evidence_add", {
+        threadId: "RS1",
+        type: "paper",
+        title: "The genetics of Caenorhabditis elegans",
+        source: "doi:10.1093/genetics/77.1.71",
+        supports: ["H-RS1-001"],
+      })
+    );
+    expect(added.record).toMatchObject({ id: "EV-001", access_method: "doi", imported_by: "TestAgent" });
+
+    const pack = JSON.parse(readFileSync(join(projectKey, "artifacts", "RS1", "evidence.json"), "utf8"));
+    expect(pack.next_id).toBe(2);
+
+    const resource = await server.readResource("brenner://evidence/RS1");
+    expect(JSON.parse(resource.contents[0]?.text ?? "{}").records).toHaveLength(1);
+    await expect(server.readResource("brenner://evidence/RS2")).rejects.toThrow("No evidence pack for thread RS2");
+  });
+
+  test("validates corpus search options before searching", async () => {
+    const bad = await server.callTool("corpus_search", { query: "exclusion", docIds: ["nope"] });
+    expect(bad.content[0]?.text).toBe("Unknown doc id(s): nope");
+
+    const ok = structured(await server.callTool("corpus_search", { query: "exclusion", limit: 5 }));
+    expect(ok).toMatchObject({ query: "exclusion", options: { limit: 5, category: "all" } });
+  });
+});
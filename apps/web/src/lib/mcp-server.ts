@@ -0,0 +1,1181 @@
+/**
+ * Brenner MCP Server
+ *
+ * Exposes the research registries (hypotheses, assumptions, anomalies,
+ * critiques), thread evidence packs and corpus search to agents over the
+ * Model Context Protocol. The transport is left to the caller: `brenner mcp
+ * serve` feeds newline-delimited JSON-RPC from stdin into `handleMessage`.
+ *
+ * Every mutation goes through the same schema factories and lifecycle
+ * functions the CLI uses (`createCritique`, `transitionHypothesis`,
+ * `falsifyAssumption`, ...), so an agent cannot put a record into a state the
+ * CLI would refuse.
+ *
+ * @see specs/mcp_server_v0.1.md
+ */
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { join, resolve } from "node:path";
+import { ZodError } from "zod";
+import { CORPUS_DOCS } from "./corpus";
+import {
+  createEvidencePack,
+  formatEvidenceId,
+  type EvidencePack,
+  type EvidenceRecord,
+  type EvidenceType,
+} from "./evidence-import";
+import { globalSearch, type GlobalSearchResult, type SearchCategory } from "./globalSearch";
+import {
+  createAnomaly,
+  deferAnomaly,
+  generateAnomalyId,
+  reactivateAnomaly,
+  resolveAnomaly,
+  AnomalySourceTypeSchema,
+  QuarantineStatusSchema,
+  type Anomaly,
+} from "./schemas/anomaly";
+import {
+  createAssumption,
+  generateAssumptionId,
+  AssumptionStatusSchema,
+  AssumptionTypeSchema,
+  ScaleCalculationSchema,
+  type Assumption,
+  type ScaleCalculation,
+} from "./schemas/assumption";
+import { challengeAssumption, falsifyAssumption, verifyAssumption } from "./schemas/assumption-lifecycle";
+import {
+  acceptCritique,
+  addressCritique,
+  createCritique,
+  dismissCritique,
+  generateCritiqueId,
+  CritiqueActionSchema,
+  CritiqueSeveritySchema,
+  CritiqueStatusSchema,
+  type Critique,
+  type CritiqueTargetType,
+} from "./schemas/critique";
+import {
+  createHypothesis,
+  generateHypothesisId,
+  HypothesisCategorySchema,
+  HypothesisConfidenceSchema,
+  HypothesisOriginSchema,
+  HypothesisSchema,
+  HypothesisStateSchema,
+  type Hypothesis,
+} from "./schemas/hypothesis";
+import { transitionHypothesis, TransitionTriggerSchema, type StateTransition } from "./schemas/hypothesis-lifecycle";
+import { AnomalyStorage } from "./storage/anomaly-storage";
+import { AssumptionStorage } from "./storage/assumption-storage";
+import { CritiqueStorage } from "./storage/critique-storage";
+import { HypothesisStorage } from "./storage/hypothesis-storage";
+
+// ============================================================================
+// Protocol Types
+// ============================================================================
+
+/** Protocol revision this server speaks; clients asking for another one get it echoed back */
+export const MCP_PROTOCOL_VERSION = "2025-06-18";
+
+export const MCP_SERVER_INFO = { name: "brenner", version: "0.1.0" } as const;
+
+export interface JsonRpcRequest {
+  jsonrpc: "2.0";
+  /** Absent on notifications */
+  id?: string | number | null;
+  method: string;
+  params?: unknown;
+}
+
+export interface JsonRpcResponse {
+  jsonrpc: "2.0";
+  id: string | number | null;
+  result?: unknown;
+  error?: { code: number; message: string };
+}
+
+/** JSON Schema subset used for tool inputs */
+export interface JsonSchemaProperty {
+  type: "string" | "integer" | "boolean" | "array" | "object";
+  description?: string;
+  enum?: readonly string[];
+  items?: { type: "string" };
+}
+
+export interface McpToolDefinition {
+  name: string;
+  description: string;
+  inputSchema: {
+    type: "object";
+    properties: Record<string, JsonSchemaProperty>;
+    required?: string[];
+  };
+  annotations?: { readOnlyHint?: boolean };
+}
+
+export interface McpToolResult {
+  content: Array<{ type: "text"; text: string }>;
+  structuredContent?: Record<string, unknown>;
+  isError?: boolean;
+}
+
+export interface McpResourceDefinition {
+  uri: string;
+  name: string;
+  description: string;
+  mimeType: "application/json";
+}
+
+export interface McpResourceTemplate {
+  uriTemplate: string;
+  name: string;
+  description: string;
+  mimeType: "application/json";
+}
+
+export interface BrennerMcpServerOptions {
+  /** Project root holding `.research/` and `artifacts/` */
+  projectKey: string;
+  /** Recorded as the actor on mutations that don't name one (default: "mcp") */
+  actor?: string;
+  /**
+   * Called after a hypothesis transition has been saved. The CLI passes its
+   * transition-log writer so `brenner hypothesis history` sees MCP changes.
+   */
+  onHypothesisTransition?: (transition: StateTransition) => void;
+  /** Corpus search implementation (default: `globalSearch`) */
+  search?: (query: string, options: CorpusSearchOptions) => Promise<GlobalSearchResult>;
+}
+
+export interface CorpusSearchOptions {
+  limit: number;
+  category: SearchCategory;
+  model?: "gpt" | "opus" | "gemini";
+  docIds?: string[];
+}
+
+type ToolArgs = Record<string, unknown>;
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const EVIDENCE_TYPES: readonly EvidenceType[] = [
+  "paper",
+  "preprint",
+  "dataset",
+  "experiment",
+  "observation",
+  "prior_session",
+  "expert_opinion",
+  "code_artifact",
+];
+
+const SEARCH_CATEGORIES: readonly SearchCategory[] = [
+  "all",
+  "transcript",
+  "quote-bank",
+  "distillation",
+  "metaprompt",
+  "raw-response",
+];
+
+const SEARCH_MODELS = ["gpt", "opus", "gemini"] as const;
+
+const ASSUMPTION_ACTIONS = ["challenge", "verify", "falsify"] as const;
+const ANOMALY_ACTIONS = ["resolve", "defer", "reactivate"] as const;
+const CRITIQUE_OUTCOMES = ["addressed", "dismissed", "accepted"] as const;
+
+const RESOURCE_PREFIX = "brenner://";
+
+// ============================================================================
+// Tool Definitions
+// ============================================================================
+
+const str = (description: string): JsonSchemaProperty => ({ type: "string", description });
+const strList = (description: string): JsonSchemaProperty => ({ type: "array", items: { type: "string" }, description });
+const oneOf = (values: readonly string[], description: string): JsonSchemaProperty => ({
+  type: "string",
+  enum: values,
+  description,
+});
+
+export const BRENNER_MCP_TOOLS: readonly McpToolDefinition[] = [
+  {
+    name: "hypothesis_list",
+    description: "List hypotheses, optionally filtered by session, lifecycle state or category.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        sessionId: str("Only hypotheses from this session"),
+        state: oneOf(HypothesisStateSchema.options, "Lifecycle state"),
+        category: oneOf(HypothesisCategorySchema.options, "Hypothesis category"),
+      },
+    },
+    annotations: { readOnlyHint: true },
+  },
+  {
+    name: "hypothesis_get",
+    description: "Fetch one hypothesis by ID.",
+    inputSchema: { type: "object", properties: { id: str("Hypothesis ID (H-{session}-{seq})") }, required: ["id"] },
+    annotations: { readOnlyHint: true },
+  },
+  {
+    name: "hypothesis_create",
+    description: "Record a new hypothesis in the proposed state.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        statement: str("The claim being made"),
+        category: oneOf(HypothesisCategorySchema.options, "Hypothesis category"),
+        sessionId: str("Session to file it under (default: today's RS-YYYYMMDD)"),
+        mechanism: str("Proposed causal mechanism"),
+        origin: oneOf(HypothesisOriginSchema.options, "How the hypothesis arose (refinement requires parentId)"),
+        confidence: oneOf(HypothesisConfidenceSchema.options, "Confidence level (default: medium)"),
+        parentId: str("Hypothesis this one refines"),
+        proposedBy: str("Agent or person proposing it"),
+        anchors: strList("Transcript anchors (§n)"),
+        tags: strList("Free-form tags"),
+        notes: str("Notes"),
+      },
+      required: ["statement", "category"],
+    },
+  },
+  {
+    name: "hypothesis_transition",
+    description:
+      "Move a hypothesis through its lifecycle. refute and confirm need testResultId; supersede needs childHypothesisId.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        id: str("Hypothesis ID"),
+        trigger: oneOf(TransitionTriggerSchema.options, "Lifecycle trigger"),
+        testResultId: str("Test whose result justifies a refute or confirm"),
+        childHypothesisId: str("Refined hypothesis that supersedes this one"),
+        reason: str("Why the transition is happening"),
+        triggeredBy: str("Agent or person making the change"),
+      },
+      required: ["id", "trigger"],
+    },
+  },
+  {
+    name: "assumption_list",
+    description: "List assumptions, optionally filtered by session, status or type.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        sessionId: str("Only assumptions from this session"),
+        status: oneOf(AssumptionStatusSchema.options, "Assumption status"),
+        type: oneOf(AssumptionTypeSchema.options, "Assumption type"),
+      },
+    },
+    annotations: { readOnlyHint: true },
+  },
+  {
+    name: "assumption_get",
+    description: "Fetch one assumption by ID.",
+    inputSchema: { type: "object", properties: { id: str("Assumption ID (A-{session}-{seq})") }, required: ["id"] },
+    annotations: { readOnlyHint: true },
+  },
+  {
+    name: "assumption_create",
+    description: "Record a load-bearing assumption. scale_physics assumptions need a calculation.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        statement: str("The assumption"),
+        type: oneOf(AssumptionTypeSchema.options, "Assumption type"),
+        loadDescription: str("What breaks if the assumption is wrong"),
+        sessionId: str("Session to file it under (default: today's RSYYYYMMDD)"),
+        affectedHypotheses: strList("Hypothesis IDs resting on this assumption"),
+        affectedTests: strList("Test IDs resting on this assumption"),
+        testMethod: str("How the assumption could be checked"),
+        calculation: {
+          type: "object",
+          description: "Scale calculation: quantities, result, units, implication, whatItRulesOut?",
+        },
+        anchors: strList("Transcript anchors (§n)"),
+        recordedBy: str("Agent or person recording it"),
+        notes: str("Notes"),
+      },
+      required: ["statement", "type", "loadDescription"],
+    },
+  },
+  {
+    name: "assumption_transition",
+    description:
+      "Challenge, verify or falsify an assumption. challenge needs a reason; verify and falsify need evidence. Falsifying reports the hypotheses and tests it undermines.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        id: str("Assumption ID"),
+        action: oneOf(ASSUMPTION_ACTIONS, "Lifecycle action"),
+        reason: str("Why the assumption is being challenged"),
+        evidence: str("Evidence reference for verify or falsify"),
+        by: str("Agent or person making the change"),
+      },
+      required: ["id", "action"],
+    },
+  },
+  {
+    name: "anomaly_list",
+    description: "List quarantined anomalies, optionally filtered by session or status.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        sessionId: str("Only anomalies from this session"),
+        status: oneOf(QuarantineStatusSchema.options, "Quarantine status"),
+      },
+    },
+    annotations: { readOnlyHint: true },
+  },
+  {
+    name: "anomaly_get",
+    description: "Fetch one anomaly by ID.",
+    inputSchema: { type: "object", properties: { id: str("Anomaly ID (X-{session}-{seq})") }, required: ["id"] },
+    annotations: { readOnlyHint: true },
+  },
+  {
+    name: "anomaly_create",
+    description: "Quarantine an observation that conflicts with current hypotheses.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        observation: str("What was observed"),
+        conflictsWith: strList("Hypothesis IDs the observation conflicts with"),
+        conflictDescription: str("How it conflicts"),
+        sessionId: str("Session to file it under (default: today's RSYYYYMMDD)"),
+        sourceType: oneOf(AnomalySourceTypeSchema.options, "Where it came from (default: discussion)"),
+        sourceRef: str("Reference for the source"),
+        name: str("Short name"),
+      },
+      required: ["observation", "conflictsWith", "conflictDescription"],
+    },
+  },
+  {
+    name: "anomaly_transition",
+    description: "Resolve an anomaly by a hypothesis, defer it with a reason, or reactivate a deferred one.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        id: str("Anomaly ID"),
+        action: oneOf(ANOMALY_ACTIONS, "Lifecycle action"),
+        resolvedBy: str("Hypothesis ID that explains the anomaly (resolve)"),
+        reason: str("Why it is deferred (defer)"),
+        notes: str("Resolution notes (resolve)"),
+      },
+      required: ["id", "action"],
+    },
+  },
+  {
+    name: "critique_list",
+    description: "List critiques, optionally filtered by session, status, severity or target.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        sessionId: str("Only critiques from this session"),
+        status: oneOf(CritiqueStatusSchema.options, "Critique status"),
+        severity: oneOf(CritiqueSeveritySchema.options, "Critique severity"),
+        target: str("H-..., T-..., A-..., framing or methodology"),
+      },
+    },
+    annotations: { readOnlyHint: true },
+  },
+  {
+    name: "critique_get",
+    description: "Fetch one critique by ID.",
+    inputSchema: { type: "object", properties: { id: str("Critique ID (C-{session}-{seq})") }, required: ["id"] },
+    annotations: { readOnlyHint: true },
+  },
+  {
+    name: "critique_create",
+    description: "Raise a critique against a hypothesis, test, assumption, the framing or the methodology.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        target: str("H-..., T-..., A-..., framing or methodology"),
+        attack: str("The objection"),
+        evidenceToConfirm: str("What evidence would confirm the critique"),
+        severity: oneOf(CritiqueSeveritySchema.options, "Severity (default: moderate)"),
+        sessionId: str("Session to file it under (default: today's RSYYYYMMDD)"),
+        raisedBy: str("Agent or person raising it"),
+        anchors: strList("Transcript anchors (§n)"),
+        tags: strList("Free-form tags"),
+        notes: str("Notes"),
+      },
+      required: ["target", "attack", "evidenceToConfirm"],
+    },
+  },
+  {
+    name: "critique_respond",
+    description:
+      "Answer an active critique: addressed (response, optional action), dismissed (response is the reason) or accepted (action required). new_test actions need newTestId.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        id: str("Critique ID"),
+        outcome: oneOf(CRITIQUE_OUTCOMES, "How the critique is answered"),
+        response: str("Response text, or the dismissal reason"),
+        action: oneOf(CritiqueActionSchema.options, "Action taken"),
+        newTestId: str("Test designed in response (action new_test)"),
+        by: str("Agent or person responding"),
+      },
+      required: ["id", "outcome", "response"],
+    },
+  },
+  {
+    name: "evidence_list",
+    description: "List the records in a thread's evidence pack.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        threadId: str("Thread / session ID"),
+        type: oneOf(EVIDENCE_TYPES, "Only records of this type"),
+      },
+      required: ["threadId"],
+    },
+    annotations: { readOnlyHint: true },
+  },
+  {
+    name: "evidence_add",
+    description: "Add an evidence record to a thread's evidence pack, creating the pack if needed.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        threadId: str("Thread / session ID"),
+        type: oneOf(EVIDENCE_TYPES, "Evidence type"),
+        title: str("Title"),
+        source: str("doi:..., URL, file path or session:// reference"),
+        relevance: str("Why it matters to the thread"),
+        supports: strList("Hypothesis IDs it supports"),
+        refutes: strList("Hypothesis IDs it refutes"),
+        informs: strList("Test or assumption IDs it informs"),
+      },
+      required: ["threadId", "type", "title", "source"],
+    },
+  },
+  {
+    name: "corpus_search",
+    description: "Full-text search over the Brenner corpus (transcripts, quote bank, distillations).",
+    inputSchema: {
+      type: "object",
+      properties: {
+        query: str("Search query"),
+        limit: { type: "integer", description: "Maximum hits (default: 20)" },
+        category: oneOf(SEARCH_CATEGORIES, "Document category (default: all)"),
+        model: oneOf(SEARCH_MODELS, "Only distillations from this model"),
+        docIds: strList("Only these corpus documents"),
+      },
+      required: ["query"],
+    },
+    annotations: { readOnlyHint: true },
+  },
+];
+
+export const BRENNER_MCP_RESOURCES: readonly McpResourceDefinition[] = [
+  {
+    uri: `${RESOURCE_PREFIX}hypotheses`,
+    name: "hypotheses",
+    description: "All hypotheses in the project",
+    mimeType: "application/json",
+  },
+  {
+    uri: `${RESOURCE_PREFIX}assumptions`,
+    name: "assumptions",
+    description: "All assumptions in the project",
+    mimeType: "application/json",
+  },
+  {
+    uri: `${RESOURCE_PREFIX}anomalies`,
+    name: "anomalies",
+    description: "All quarantined anomalies in the project",
+    mimeType: "application/json",
+  },
+  {
+    uri: `${RESOURCE_PREFIX}critiques`,
+    name: "critiques",
+    description: "All critiques in the project",
+    mimeType: "application/json",
+  },
+];
+
+export const BRENNER_MCP_RESOURCE_TEMPLATES: readonly McpResourceTemplate[] = [
+  {
+    uriTemplate: `${RESOURCE_PREFIX}evidence/{threadId}`,
+    name: "evidence-pack",
+    description: "A thread's evidence pack",
+    mimeType: "application/json",
+  },
+];
+
+// ============================================================================
+// Argument Helpers
+// ============================================================================
+
+/** Thrown for bad tool arguments; reported to the agent as a tool error */
+export class McpToolError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "McpToolError";
+  }
+}
+
+function optionalString(args: ToolArgs, key: string): string | undefined {
+  const value = args[key];
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== "string") throw new McpToolError(`Invalid ${key}: expected a string`);
+  const trimmed = value.trim();
+  return trimmed ? trimmed : undefined;
+}
+
+function requireString(args: ToolArgs, key: string): string {
+  const value = optionalString(args, key);
+  if (!value) throw new McpToolError(`Missing ${key}`);
+  return value;
+}
+
+function optionalStringList(args: ToolArgs, key: string): string[] | undefined {
+  const value = args[key];
+  if (value === undefined || value === null) return undefined;
+  const items = typeof value === "string" ? value.split(",") : value;
+  if (!Array.isArray(items) || items.some((item) => typeof item !== "string")) {
+    throw new McpToolError(`Invalid ${key}: expected an array of strings`);
+  }
+  const cleaned = (items as string[]).map((item) => item.trim()).filter(Boolean);
+  return cleaned.length > 0 ? cleaned : undefined;
+}
+
+function optionalEnum<T extends string>(args: ToolArgs, key: string, allowed: readonly T[]): T | undefined {
+  const value = optionalString(args, key);
+  if (value === undefined) return undefined;
+  if (!allowed.includes(value as T)) {
+    throw new McpToolError(`Invalid ${key} "${value}" (expected one of: ${allowed.join(", ")})`);
+  }
+  return value as T;
+}
+
+function requireEnum<T extends string>(args: ToolArgs, key: string, allowed: readonly T[]): T {
+  const value = optionalEnum(args, key, allowed);
+  if (value === undefined) throw new McpToolError(`Missing ${key} (expected one of: ${allowed.join(", ")})`);
+  return value;
+}
+
+/** Default session ID, matching the CLI's per-registry conventions */
+function todaysSession(separator: "" | "-"): string {
+  return `RS${separator}${new Date().toISOString().slice(0, 10).replace(/-/g, "")}`;
+}
+
+function parseCritiqueTarget(raw: string): { targetType: CritiqueTargetType; targetId?: string } {
+  const target = raw.trim();
+  if (target === "framing" || target === "methodology") return { targetType: target };
+  if (target.startsWith("H-")) return { targetType: "hypothesis", targetId: target };
+  if (target.startsWith("T-") || /^T\d+$/.test(target)) return { targetType: "test", targetId: target };
+  if (target.startsWith("A-") || /^A\d+$/.test(target)) return { targetType: "assumption", targetId: target };
+  throw new McpToolError(`Invalid target "${raw}" (expected H-..., T-..., A-..., framing, or methodology).`);
+}
+
+function safeThreadDir(threadId: string): string {
+  const safe = threadId.replace(/[^a-zA-Z0-9_.-]/g, "_");
+  if (safe === "." || safe === ".." || safe === "") {
+    throw new McpToolError(`Invalid threadId: "${threadId}" (resolves to reserved or empty directory name)`);
+  }
+  return safe;
+}
+
+function inferAccessMethod(source: string): EvidenceRecord["access_method"] {
+  if (source.startsWith("doi:") || source.startsWith("https://doi.org/")) return "doi";
+  if (source.startsWith("http://") || source.startsWith("https://")) return "url";
+  if (source.startsWith("file://") || source.startsWith("/") || source.startsWith("./")) return "file";
+  if (source.startsWith("session://")) return "session";
+  return "manual";
+}
+
+function toolResult(structuredContent: Record<string, unknown>): McpToolResult {
+  return {
+    content: [{ type: "text", text: JSON.stringify(structuredContent, null, 2) }],
+    structuredContent,
+  };
+}
+
+function toolError(message: string): McpToolResult {
+  return { content: [{ type: "text", text: message }], isError: true };
+}
+
+// ============================================================================
+// Server
+// ============================================================================
+
+export class BrennerMcpServer {
+  private readonly projectKey: string;
+  private readonly actor: string;
+  private readonly onHypothesisTransition?: (transition: StateTransition) => void;
+  private readonly search: (query: string, options: CorpusSearchOptions) => Promise<GlobalSearchResult>;
+
+  private readonly hypotheses: HypothesisStorage;
+  private readonly assumptions: AssumptionStorage;
+  private readonly anomalies: AnomalyStorage;
+  private readonly critiques: CritiqueStorage;
+
+  constructor(options: BrennerMcpServerOptions) {
+    this.projectKey = resolve(options.projectKey);
+    this.actor = options.actor ?? "mcp";
+    this.onHypothesisTransition = options.onHypothesisTransition;
+    this.search = options.search ?? globalSearch;
+
+    this.hypotheses = new HypothesisStorage({ baseDir: this.projectKey });
+    this.assumptions = new AssumptionStorage({ baseDir: this.projectKey });
+    this.anomalies = new AnomalyStorage({ baseDir: this.projectKey });
+    this.critiques = new CritiqueStorage({ baseDir: this.projectKey });
+  }
+
+  /**
+   * Handle one JSON-RPC message. Returns null for notifications, which get
+   * no response.
+   */
+  async handleMessage(message: unknown): Promise<JsonRpcResponse | null> {
+    if (!message || typeof message !== "object" || Array.isArray(message)) {
+      return { jsonrpc: "2.0", id: null, error: { code: -32600, message: "Invalid request" } };
+    }
+    const request = message as JsonRpcRequest;
+    if (typeof request.method !== "string") {
+      return { jsonrpc: "2.0", id: request.id ?? null, error: { code: -32600, message: "Invalid request" } };
+    }
+    const isNotification = request.id === undefined;
+    const id = request.id ?? null;
+    const params = (request.params && typeof request.params === "object" ? request.params : {}) as Record<
+      string,
+      unknown
+    >;
+
+    try {
+      let result: unknown;
+
+      if (request.method === "initialize") {
+        const requested = typeof params.protocolVersion === "string" ? params.protocolVersion : undefined;
+        result = {
+          protocolVersion: requested ?? MCP_PROTOCOL_VERSION,
+          capabilities: { tools: { listChanged: false }, resources: { listChanged: false } },
+          serverInfo: MCP_SERVER_INFO,
+          instructions:
+            "Brenner research registries for this project. Mutations follow the same lifecycle rules as the brenner CLI.",
+        };
+      } else if (request.method === "ping") {
+        result = {};
+      } else if (request.method === "tools/list") {
+        result = { tools: BRENNER_MCP_TOOLS };
+      } else if (request.method === "tools/call") {
+        const name = params.name;
+        if (typeof name !== "string") throw new McpToolError("Missing tool name");
+        const args = (params.arguments && typeof params.arguments === "object" ? params.arguments : {}) as ToolArgs;
+        result = await this.callTool(name, args);
+      } else if (request.method === "resources/list") {
+        result = { resources: BRENNER_MCP_RESOURCES };
+      } else if (request.method === "resources/templates/list") {
+        result = { resourceTemplates: BRENNER_MCP_RESOURCE_TEMPLATES };
+      } else if (request.method === "resources/read") {
+        const uri = params.uri;
+        if (typeof uri !== "string") throw new McpToolError("Missing uri");
+        result = await this.readResource(uri);
+      } else if (request.method.startsWith("notifications/")) {
+        return null;
+      } else {
+        if (isNotification) return null;
+        return { jsonrpc: "2.0", id, error: { code: -32601, message: `Method not found: ${request.method}` } };
+      }
+
+      return isNotification ? null : { jsonrpc: "2.0", id, result };
+    } catch (err) {
+      if (isNotification) return null;
+      const code = err instanceof McpToolError ? -32602 : -32603;
+      return { jsonrpc: "2.0", id, error: { code, message: err instanceof Error ? err.message : "Internal error" } };
+    }
+  }
+
+  /**
+   * Run a tool. Validation and lifecycle failures come back as `isError`
+   * results so the agent can read the message and correct itself.
+   */
+  async callTool(name: string, args: ToolArgs): Promise<McpToolResult> {
+    try {
+      switch (name) {
+        case "hypothesis_list":
+          return toolResult(await this.hypothesisList(args));
+        case "hypothesis_get":
+          return toolResult({ hypothesis: await this.getHypothesis(requireString(args, "id")) });
+        case "hypothesis_create":
+          return toolResult(await this.hypothesisCreate(args));
+        case "hypothesis_transition":
+          return toolResult(await this.hypothesisTransition(args));
+        case "assumption_list":
+          return toolResult(await this.assumptionList(args));
+        case "assumption_get":
+          return toolResult({ assumption: await this.getAssumption(requireString(args, "id")) });
+        case "assumption_create":
+          return toolResult(await this.assumptionCreate(args));
+        case "assumption_transition":
+          return toolResult(await this.assumptionTransition(args));
+        case "anomaly_list":
+          return toolResult(await this.anomalyList(args));
+        case "anomaly_get":
+          return toolResult({ anomaly: await this.getAnomaly(requireString(args, "id")) });
+        case "anomaly_create":
+          return toolResult(await this.anomalyCreate(args));
+        case "anomaly_transition":
+          return toolResult(await this.anomalyTransition(args));
+        case "critique_list":
+          return toolResult(await this.critiqueList(args));
+        case "critique_get":
+          return toolResult({ critique: await this.getCritique(requireString(args, "id")) });
+        case "critique_create":
+          return toolResult(await this.critiqueCreate(args));
+        case "critique_respond":
+          return toolResult(await this.critiqueRespond(args));
+        case "evidence_list":
+          return toolResult(this.evidenceList(args));
+        case "evidence_add":
+          return toolResult(this.evidenceAdd(args));
+        case "corpus_search":
+          return toolResult(await this.corpusSearch(args));
+        default:
+          return toolError(`Unknown tool: ${name}`);
+      }
+    } catch (err) {
+      if (err instanceof ZodError) {
+        return toolError(err.issues.map((i) => `${i.path.join(".")}: ${i.message}`).join("; "));
+      }
+      return toolError(err instanceof Error ? err.message : String(err));
+    }
+  }
+
+  async readResource(uri: string): Promise<{ contents: Array<{ uri: string; mimeType: string; text: string }> }> {
+    if (!uri.startsWith(RESOURCE_PREFIX)) throw new McpToolError(`Unknown resource: ${uri}`);
+    const path = uri.slice(RESOURCE_PREFIX.length);
+
+    let body: unknown;
+    if (path === "hypotheses") body = { hypotheses: await this.hypotheses.getAllHypotheses() };
+    else if (path === "assumptions") body = { assumptions: await this.assumptions.getAllAssumptions() };
+    else if (path === "anomalies") body = { anomalies: await this.anomalies.getAllAnomalies() };
+    else if (path === "critiques") body = { critiques: await this.critiques.getAllCritiques() };
+    else if (path.startsWith("evidence/")) {
+      const threadId = decodeURIComponent(path.slice("evidence/".length));
+      const { pack } = this.readEvidencePack(threadId);
+      if (!pack) throw new McpToolError(`No evidence pack for thread ${threadId}`);
+      body = pack;
+    } else {
+      throw new McpToolError(`Unknown resource: ${uri}`);
+    }
+
+    return { contents: [{ uri, mimeType: "application/json", text: JSON.stringify(body, null, 2) }] };
+  }
+
+  // --------------------------------------------------------------------------
+  // Hypotheses
+  // --------------------------------------------------------------------------
+
+  private async getHypothesis(id: string): Promise<Hypothesis> {
+    const hypothesis = await this.hypotheses.getHypothesisById(id);
+    if (!hypothesis) throw new McpToolError(`Hypothesis not found: ${id}`);
+    return hypothesis;
+  }
+
+  private async hypothesisList(args: ToolArgs): Promise<Record<string, unknown>> {
+    const sessionId = optionalString(args, "sessionId");
+    const state = optionalEnum(args, "state", HypothesisStateSchema.options);
+    const category = optionalEnum(args, "category", HypothesisCategorySchema.options);
+
+    let hypotheses: Hypothesis[];
+    if (sessionId) hypotheses = await this.hypotheses.loadSessionHypotheses(sessionId);
+    else if (state) hypotheses = await this.hypotheses.getHypothesesByState(state);
+    else hypotheses = await this.hypotheses.getAllHypotheses();
+
+    if (state) hypotheses = hypotheses.filter((h) => h.state === state);
+    if (category) hypotheses = hypotheses.filter((h) => h.category === category);
+
+    return { count: hypotheses.length, hypotheses };
+  }
+
+  private async hypothesisCreate(args: ToolArgs): Promise<Record<string, unknown>> {
+    const statement = requireString(args, "statement");
+    const category = requireEnum(args, "category", HypothesisCategorySchema.options);
+    const sessionId = optionalString(args, "sessionId") ?? todaysSession("-");
+    const origin = optionalEnum(args, "origin", HypothesisOriginSchema.options);
+    const confidence = optionalEnum(args, "confidence", HypothesisConfidenceSchema.options);
+    const parentId = optionalString(args, "parentId");
+
+    if (origin === "refinement" && !parentId) {
+      throw new McpToolError('Missing parentId (required when origin is "refinement").');
+    }
+    if (parentId) await this.getHypothesis(parentId);
+
+    const existing = await this.hypotheses.loadSessionHypotheses(sessionId);
+    const base = createHypothesis({
+      id: generateHypothesisId(sessionId, existing.map((h) => h.id)),
+      sessionId,
+      statement,
+      category,
+      mechanism: optionalString(args, "mechanism"),
+      origin: origin ?? "proposed",
+      confidence: confidence ?? "medium",
+      proposedBy: optionalString(args, "proposedBy") ?? this.actor,
+      anchors: optionalStringList(args, "anchors"),
+    });
+    const hypothesis = HypothesisSchema.parse({
+      ...base,
+      parentId,
+      tags: optionalStringList(args, "tags"),
+      notes: optionalString(args, "notes"),
+    });
+
+    await this.hypotheses.saveHypothesis(hypothesis);
+    return { hypothesis };
+  }
+
+  private async hypothesisTransition(args: ToolArgs): Promise<Record<string, unknown>> {
+    const hypothesis = await this.getHypothesis(requireString(args, "id"));
+    const trigger = requireEnum(args, "trigger", TransitionTriggerSchema.options);
+
+    const result = transitionHypothesis(hypothesis, trigger, {
+      testResultId: optionalString(args, "testResultId"),
+      childHypothesisId: optionalString(args, "childHypothesisId"),
+      reason: optionalString(args, "reason"),
+      triggeredBy: optionalString(args, "triggeredBy") ?? this.actor,
+      sessionId: hypothesis.sessionId,
+    });
+    if (!result.success) throw new McpToolError(result.error.message);
+
+    await this.hypotheses.saveHypothesis(result.hypothesis);
+    this.onHypothesisTransition?.(result.transition);
+    return { hypothesis: result.hypothesis, transition: result.transition };
+  }
+
+  // --------------------------------------------------------------------------
+  // Assumptions
+  // --------------------------------------------------------------------------
+
+  private async getAssumption(id: string): Promise<Assumption> {
+    const assumption = await this.assumptions.getAssumptionById(id);
+    if (!assumption) throw new McpToolError(`Assumption not found: ${id}`);
+    return assumption;
+  }
+
+  private async assumptionList(args: ToolArgs): Promise<Record<string, unknown>> {
+    const sessionId = optionalString(args, "sessionId");
+    const status = optionalEnum(args, "status", AssumptionStatusSchema.options);
+    const type = optionalEnum(args, "type", AssumptionTypeSchema.options);
+
+    let assumptions = sessionId
+      ? await this.assumptions.loadSessionAssumptions(sessionId)
+      : await this.assumptions.getAllAssumptions();
+    if (status) assumptions = assumptions.filter((a) => a.status === status);
+    if (type) assumptions = assumptions.filter((a) => a.type === type);
+
+    return { count: assumptions.length, assumptions };
+  }
+
+  private async assumptionCreate(args: ToolArgs): Promise<Record<string, unknown>> {
+    const statement = requireString(args, "statement");
+    const type = requireEnum(args, "type", AssumptionTypeSchema.options);
+    const loadDescription = requireString(args, "loadDescription");
+    const sessionId = optionalString(args, "sessionId") ?? todaysSession("");
+
+    let calculation: ScaleCalculation | undefined;
+    if (args.calculation !== undefined && args.calculation !== null) {
+      const validated = ScaleCalculationSchema.safeParse(args.calculation);
+      if (!validated.success) {
+        throw new McpToolError(`Invalid calculation: ${validated.error.issues[0]?.message ?? "validation failed"}`);
+      }
+      calculation = validated.data;
+    }
+    if (type === "scale_physics" && !calculation) {
+      throw new McpToolError("Missing calculation (required when type is scale_physics).");
+    }
+
+    const existing = await this.assumptions.loadSessionAssumptions(sessionId);
+    const assumption = createAssumption({
+      id: generateAssumptionId(sessionId, existing.map((a) => a.id)),
+      statement,
+      type,
+      sessionId,
+      load: {
+        affectedHypotheses: optionalStringList(args, "affectedHypotheses") ?? [],
+        affectedTests: optionalStringList(args, "affectedTests") ?? [],
+        description: loadDescription,
+      },
+      testMethod: optionalString(args, "testMethod"),
+      calculation,
+      anchors: optionalStringList(args, "anchors"),
+      recordedBy: optionalString(args, "recordedBy") ?? this.actor,
+      notes: optionalString(args, "notes"),
+    });
+
+    await this.assumptions.saveAssumption(assumption);
+    return { assumption };
+  }
+
+  private async assumptionTransition(args: ToolArgs): Promise<Record<string, unknown>> {
+    const assumption = await this.getAssumption(requireString(args, "id"));
+    const action = requireEnum(args, "action", ASSUMPTION_ACTIONS);
+    const reason = optionalString(args, "reason");
+    const evidence = optionalString(args, "evidence");
+
+    if (action === "challenge" && !reason) throw new McpToolError("Missing reason.");
+    if (action !== "challenge" && !evidence) throw new McpToolError("Missing evidence.");
+
+    const options = {
+      triggeredBy: optionalString(args, "by") ?? this.actor,
+      evidenceRef: evidence,
+      reason,
+      sessionId: assumption.sessionId,
+    };
+    const result =
+      action === "challenge"
+        ? challengeAssumption(assumption, options)
+        : action === "verify"
+          ? verifyAssumption(assumption, options)
+          : falsifyAssumption(assumption, options);
+    if (!result.success) throw new McpToolError(result.error.message);
+
+    await this.assumptions.saveAssumption(result.assumption);
+    return { ...result };
+  }
+
+  // --------------------------------------------------------------------------
+  // Anomalies
+  // --------------------------------------------------------------------------
+
+  private async getAnomaly(id: string): Promise<Anomaly> {
+    const anomaly = await this.anomalies.getAnomalyById(id);
+    if (!anomaly) throw new McpToolError(`Anomaly not found: ${id}`);
+    return anomaly;
+  }
+
+  private async anomalyList(args: ToolArgs): Promise<Record<string, unknown>> {
+    const sessionId = optionalString(args, "sessionId");
+    const status = optionalEnum(args, "status", QuarantineStatusSchema.options);
+
+    let anomalies: Anomaly[];
+    if (sessionId) anomalies = await this.anomalies.loadSessionAnomalies(sessionId);
+    else if (status) anomalies = await this.anomalies.getAnomaliesByStatus(status);
+    else anomalies = await this.anomalies.getAllAnomalies();
+    if (status) anomalies = anomalies.filter((a) => a.quarantineStatus === status);
+
+    return { count: anomalies.length, anomalies };
+  }
+
+  private async anomalyCreate(args: ToolArgs): Promise<Record<string, unknown>> {
+    const observation = requireString(args, "observation");
+    const conflictsWith = optionalStringList(args, "conflictsWith");
+    if (!conflictsWith) throw new McpToolError("Missing conflictsWith (e.g. [\"H-RS20251230-001\"]).");
+    const conflictDescription = requireString(args, "conflictDescription");
+    const sessionId = optionalString(args, "sessionId") ?? todaysSession("");
+    const sourceType = optionalEnum(args, "sourceType", AnomalySourceTypeSchema.options) ?? "discussion";
+
+    const existing = await this.anomalies.loadSessionAnomalies(sessionId);
+    const anomaly = createAnomaly({
+      id: generateAnomalyId(sessionId, existing.map((a) => a.id)),
+      observation,
+      source: { type: sourceType, reference: optionalString(args, "sourceRef") },
+      conflictsWith: { hypotheses: conflictsWith, assumptions: [], description: conflictDescription },
+      sessionId,
+      name: optionalString(args, "name"),
+      recordedBy: this.actor,
+    });
+
+    await this.anomalies.saveAnomaly(anomaly);
+    return { anomaly };
+  }
+
+  private async anomalyTransition(args: ToolArgs): Promise<Record<string, unknown>> {
+    const anomaly = await this.getAnomaly(requireString(args, "id"));
+    const action = requireEnum(args, "action", ANOMALY_ACTIONS);
+
+    let updated: Anomaly;
+    if (action === "resolve") {
+      updated = resolveAnomaly(anomaly, requireString(args, "resolvedBy"), { notes: optionalString(args, "notes") });
+    } else if (action === "defer") {
+      updated = deferAnomaly(anomaly, requireString(args, "reason"));
+    } else {
+      updated = reactivateAnomaly(anomaly);
+    }
+
+    await this.anomalies.saveAnomaly(updated);
+    return { anomaly: updated };
+  }
+
+  // --------------------------------------------------------------------------
+  // Critiques
+  // --------------------------------------------------------------------------
+
+  private async getCritique(id: string): Promise<Critique> {
+    const critique = await this.critiques.getCritiqueById(id);
+    if (!critique) throw new McpToolError(`Critique not found: ${id}`);
+    return critique;
+  }
+
+  private async critiqueList(args: ToolArgs): Promise<Record<string, unknown>> {
+    const sessionId = optionalString(args, "sessionId");
+    const status = optionalEnum(args, "status", CritiqueStatusSchema.options);
+    const severity = optionalEnum(args, "severity", CritiqueSeveritySchema.options);
+    const targetRaw = optionalString(args, "target");
+    const target = targetRaw ? parseCritiqueTarget(targetRaw) : undefined;
+
+    let critiques = sessionId
+      ? await this.critiques.loadSessionCritiques(sessionId)
+      : await this.critiques.getAllCritiques();
+    if (status) critiques = critiques.filter((c) => c.status === status);
+    if (severity) critiques = critiques.filter((c) => c.severity === severity);
+    if (target) {
+      critiques = critiques.filter(
+        (c) => c.targetType === target.targetType && (target.targetId === undefined || c.targetId === target.targetId)
+      );
+    }
+    critiques.sort((a, b) => a.id.localeCompare(b.id));
+
+    return { count: critiques.length, critiques };
+  }
+
+  private async critiqueCreate(args: ToolArgs): Promise<Record<string, unknown>> {
+    const target = parseCritiqueTarget(requireString(args, "target"));
+    const attack = requireString(args, "attack");
+    const evidenceToConfirm = requireString(args, "evidenceToConfirm");
+    const severity = optionalEnum(args, "severity", CritiqueSeveritySchema.options) ?? "moderate";
+    const sessionId = optionalString(args, "sessionId") ?? todaysSession("");
+
+    const existing = await this.critiques.loadSessionCritiques(sessionId);
+    const critique = createCritique({
+      id: generateCritiqueId(sessionId, existing.map((c) => c.id)),
+      targetType: target.targetType,
+      targetId: target.targetId,
+      attack,
+      evidenceToConfirm,
+      severity,
+      sessionId,
+      raisedBy: optionalString(args, "raisedBy") ?? this.actor,
+      anchors: optionalStringList(args, "anchors"),
+      tags: optionalStringList(args, "tags"),
+      notes: optionalString(args, "notes"),
+    });
+
+    await this.critiques.saveCritique(critique);
+    return { critique };
+  }
+
+  private async critiqueRespond(args: ToolArgs): Promise<Record<string, unknown>> {
+    const critique = await this.getCritique(requireString(args, "id"));
+    const outcome = requireEnum(args, "outcome", CRITIQUE_OUTCOMES);
+    const response = requireString(args, "response");
+    const respondedBy = optionalString(args, "by") ?? this.actor;
+    const action = optionalEnum(args, "action", CritiqueActionSchema.options);
+    const newTestId = optionalString(args, "newTestId");
+
+    if (action === "new_test" && !newTestId) {
+      throw new McpToolError('Missing newTestId (required when action is "new_test").');
+    }
+    if (action !== "new_test" && newTestId) {
+      throw new McpToolError('Do not pass newTestId unless action is "new_test".');
+    }
+
+    let updated: Critique;
+    if (outcome === "dismissed") {
+      updated = dismissCritique(critique, response, respondedBy);
+    } else if (outcome === "accepted") {
+      if (!action) throw new McpToolError("Missing action (required when outcome is accepted).");
+      updated = acceptCritique(critique, action, response, respondedBy, newTestId);
+    } else {
+      updated = addressCritique(critique, { text: response, respondedBy, actionTaken: action ?? "none", newTestId });
+    }
+
+    await this.critiques.saveCritique(updated);
+    return { critique: updated };
+  }
+
+  // --------------------------------------------------------------------------
+  // Evidence
+  // --------------------------------------------------------------------------
+
+  private readEvidencePack(threadId: string): { path: string; pack: EvidencePack | null } {
+    const path = join(this.projectKey, "artifacts", safeThreadDir(threadId), "evidence.json");
+    if (!existsSync(path)) return { path, pack: null };
+    try {
+      return { path, pack: JSON.parse(readFileSync(path, "utf8")) as EvidencePack };
+    } catch (e) {
+      throw new Error(`Malformed JSON in ${path}: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  }
+
+  private evidenceList(args: ToolArgs): Record<string, unknown> {
+    const threadId = requireString(args, "threadId");
+    const type = optionalEnum(args, "type", EVIDENCE_TYPES);
+    const { pack } = this.readEvidencePack(threadId);
+
+    let records = pack?.records ?? [];
+    if (type) records = records.filter((r) => r.type === type);
+    return { threadId, count: records.length, records };
+  }
+
+  private evidenceAdd(args: ToolArgs): Record<string, unknown> {
+    const threadId = requireString(args, "threadId");
+    const type = requireEnum(args, "type", EVIDENCE_TYPES);
+    const title = requireString(args, "title");
+    const source = requireString(args, "source");
+
+    const { path, pack: existing } = this.readEvidencePack(threadId);
+    const pack = existing ?? createEvidencePack(threadId);
+    const now = new Date().toISOString();
+
+    const record: EvidenceRecord = {
+      id: formatEvidenceId(pack.next_id),
+      type,
+      title,
+      source,
+      access_method: inferAccessMethod(source),
+      imported_at: now,
+      imported_by: this.actor,
+      relevance: optionalString(args, "relevance") ?? "",
+      key_findings: [],
+      verified: false,
+      excerpts: [],
+    };
+    const supports = optionalStringList(args, "supports");
+    const refutes = optionalStringList(args, "refutes");
+    const informs = optionalStringList(args, "informs");
+    if (supports) record.supports = supports;
+    if (refutes) record.refutes = refutes;
+    if (informs) record.informs = informs;
+
+    pack.records.push(record);
+    pack.next_id++;
+    pack.updated_at = now;
+    mkdirSync(join(path, ".."), { recursive: true });
+    writeFileSync(path, JSON.stringify(pack, null, 2), "utf8");
+
+    return { threadId, record, path };
+  }
+
+  // --------------------------------------------------------------------------
+  // Corpus
+  // --------------------------------------------------------------------------
+
+  private async corpusSearch(args: ToolArgs): Promise<Record<string, unknown>> {
+    const query = requireString(args, "query");
+    const limit = args.limit === undefined ? 20 : args.limit;
+    if (typeof limit !== "number" || !Number.isInteger(limit) || limit <= 0) {
+      throw new McpToolError("Invalid limit: expected a positive integer");
+    }
+    const category = optionalEnum(args, "category", SEARCH_CATEGORIES) ?? "all";
+    const model = optionalEnum(args, "model", SEARCH_MODELS);
+    const docIds = optionalStringList(args, "docIds");
+    if (docIds) {
+      const known = new Set(CORPUS_DOCS.map((d) => d.id));
+      const unknown = docIds.filter((docId) => !known.has(docId));
+      if (unknown.length > 0) throw new McpToolError(`Unknown doc id(s): ${unknown.join(", ")}`);
+    }
+
+    const result = await this.search(query, { limit, category, model, ...(docIds ? { docIds } : {}) });
+    return { ...result };
+  }
+}
@@ -0,0 +1,192 @@
+/**
+ * Unit tests for the experiment run log schema and history summary
+ *
+ * @see @/lib/schemas/experiment-run.ts
+ */
+
+import { describe, expect, it } from "vitest";
+import {
+  ExperimentRunEntrySchema,
+  environmentFingerprint,
+  runEntryFromResult,
+  summarizeRunHistory,
+  type ExperimentResultProvenance,
+  type ExperimentRunEntry,
+} from "./experiment-run";
+
+// ============================================================================
+// Test Fixtures
+// ============================================================================
+
+const RUNTIME = { platform: "linux", arch: "x64", bun_version: "1.3.0" };
+
+function result(overrides: Partial<ExperimentResultProvenance> = {}): ExperimentResultProvenance {
+  return {
+    result_id: "r1",
+    capture_mode: "run",
+    thread_id: "RS-TEST",
+    test_id: "T-TEST-001",
+    created_at: "2026-10-19T10:00:00.000Z",
+    started_at: "2026-10-19T10:00:00.000Z",
+    argv: ["bun", "experiments/T-TEST-001/run.ts"],
+    timed_out: false,
+    exit_code: 0,
+    duration_ms: 1000,
+    stdout: "",
+    git: { sha: "abc123", dirty: false },
+    runtime: RUNTIME,
+    ...overrides,
+  };
+}
+
+function outcomeLine(verdict: "matched" | "violated", potencyPassed = true): string {
+  return `BRENNER_OUTCOME ${JSON.stringify({
+    schema_version: "experiment_outcome_v0.1",
+    test_id: "T-TEST-001",
+    potency: { passed: potencyPassed },
+    verdicts: [{ hypothesis_id: "H-TEST-001", verdict }],
+  })}`;
+}
+
+let runCounter = 0;
+function run(overrides: Partial<ExperimentResultProvenance> = {}): ExperimentRunEntry {
+  runCounter += 1;
+  const minute = String(runCounter).padStart(2, "0");
+  return runEntryFromResult(
+    result({
+      result_id: `r${runCounter}`,
+      started_at: `2026-10-19T10:${minute}:00.000Z`,
+      ...overrides,
+    }),
+    `artifacts/RS-TEST/experiments/T-TEST-001/r${runCounter}.json`
+  );
+}
+
+// ============================================================================
+// runEntryFromResult
+// ============================================================================
+
+describe("runEntryFromResult", () => {
+  it("captures provenance, status and the harness outcome", () => {
+    const entry = runEntryFromResult(
+      result({ stdout: `progress\n${outcomeLine("violated")}\n`, exit_code: 0 }),
+      "artifacts/RS-TEST/experiments/T-TEST-001/r1.json",
+      new Date("2026-10-19T10:05:00Z")
+    );
+
+    expect(ExperimentRunEntrySchema.parse(entry)).toEqual(entry);
+    expect(entry).toMatchObject({
+      status: "passed",
+      command: ["bun", "experiments/T-TEST-001/run.ts"],
+      git: { sha: "abc123", dirty: false },
+      logged_at: "2026-10-19T10:05:00.000Z",
+      environment: { platform: "linux", runtime_version: "1.3.0", fingerprint: environmentFingerprint(RUNTIME) },
+      outcome: { potency_passed: true, verdicts: { "H-TEST-001": "violated" } },
+    });
+  });
+
+  it("derives blocked/failed status and tolerates missing or failed outcomes", () => {
+    expect(runEntryFromResult(result({ timed_out: true, exit_code: 124 }), "r.json").status).toBe("blocked");
+    expect(runEntryFromResult(result({ exit_code: 2, git: undefined }), "r.json")).toMatchObject({
+      status: "failed",
+      git: null,
+      outcome: null,
+    });
+    expect(runEntryFromResult(result({ stdout: "BRENNER_OUTCOME {broken" }), "r.json").outcome).toBeNull();
+    expect(
+      runEntryFromResult(result({ stdout: outcomeLine("violated", false) }), "r.json").outcome?.verdicts
+    ).toEqual({ "H-TEST-001": "inconclusive" });
+  });
+
+  it("fingerprints environments by platform, arch and runtime version", () => {
+    expect(environmentFingerprint(RUNTIME)).toBe(environmentFingerprint({ ...RUNTIME }));
+    expect(environmentFingerprint(RUNTIME)).not.toBe(environmentFingerprint({ ...RUNTIME, bun_version: "1.3.1" }));
+  });
+});
+
+// ============================================================================
+// summarizeRunHistory
+// ============================================================================
+
+describe("summarizeRunHistory", () => {
+  it("summarizes an empty history", () => {
+    expect(summarizeRunHistory("T-TEST-001", [])).toMatchObject({
+      totalRuns: 0,
+      latest: null,
+      flaky: false,
+      duration: null,
+      disagreements: [],
+    });
+  });
+
+  it("flags disagreement under identical provenance as flaky", () => {
+    const summary = summarizeRunHistory("T-TEST-001", [
+      run({ stdout: outcomeLine("violated"), duration_ms: 1000 }),
+      run({ stdout: outcomeLine("matched"), duration_ms: 3000 }),
+      run({ stdout: outcomeLine("violated"), exit_code: 1, duration_ms: 2000 }),
+    ]);
+
+    expect(summary.totalRuns).toBe(3);
+    expect(summary.statusCounts).toEqual({ passed: 2, failed: 1, blocked: 0 });
+    expect(summary.verdictCounts["H-TEST-001"]).toEqual({ matched: 1, violated: 2, inconclusive: 0 });
+    expect(summary.disagreements).toEqual([
+      { signal: "status", counts: { passed: 2, failed: 1 }, kind: "flaky" },
+      { signal: { hypothesisId: "H-TEST-001" }, counts: { violated: 2, matched: 1 }, kind: "flaky" },
+    ]);
+    expect(summary.flaky).toBe(true);
+    expect(summary.duration).toMatchObject({ runs: 3, minMs: 1000, medianMs: 2000, maxMs: 3000 });
+    expect(summary.duration?.cv).toBeCloseTo(0.408, 3);
+  });
+
+  it("attributes disagreement across commits or environments to drift", () => {
+    const summary = summarizeRunHistory("T-TEST-001", [
+      run({ stdout: outcomeLine("matched") }),
+      run({ stdout: outcomeLine("violated"), git: { sha: "def456", dirty: false } }),
+      run({ stdout: outcomeLine("violated"), runtime: { ...RUNTIME, bun_version: "1.4.0" } }),
+    ]);
+
+    expect(summary.disagreements).toEqual([
+      { signal: { hypothesisId: "H-TEST-001" }, counts: { matched: 1, violated: 2 }, kind: "drift" },
+    ]);
+    expect(summary.flaky).toBe(false);
+    expect(summary.gitShas).toEqual(["abc123", "def456"]);
+    expect(summary.environments).toHaveLength(2);
+  });
+
+  it("keeps runs under different execution profiles apart", () => {
+    const summary = summarizeRunHistory("T-TEST-001", [
+      run({ exit_code: 0, sandbox: { profile: "unrestricted" } }),
+      run({ exit_code: 1, sandbox: { profile: "strict" } }),
+    ]);
+
+    expect(summary.latest?.sandbox_profile).toBe("strict");
+    expect(summary.disagreements).toEqual([
+      { signal: "status", counts: { passed: 1, failed: 1 }, kind: "drift" },
+    ]);
+  });
+
+  it("keeps runs from different threads apart", () => {
+    const summary = summarizeRunHistory("T-TEST-001", [
+      run({ exit_code: 0 }),
+      run({ exit_code: 1, thread_id: "RS-OTHER" }),
+    ]);
+
+    expect(summary.disagreements).toEqual([
+      { signal: "status", counts: { passed: 1, failed: 1 }, kind: "drift" },
+    ]);
+    expect(summary.flaky).toBe(false);
+  });
+
+  it("never treats dirty trees or inconclusive verdicts as evidence of flakiness", () => {
+    const summary = summarizeRunHistory("T-TEST-001", [
+      run({ exit_code: 0, git: { sha: "abc123", dirty: true } }),
+      run({ exit_code: 1, git: { sha: "abc123", dirty: true } }),
+      run({ stdout: outcomeLine("violated", false) }),
+    ]);
+
+    expect(summary.disagreements).toEqual([
+      { signal: "status", counts: { passed: 2, failed: 1 }, kind: "drift" },
+    ]);
+    expect(summary.verdictCounts["H-TEST-001"]).toEqual({ matched: 0, violated: 0, inconclusive: 1 });
+  });
+});
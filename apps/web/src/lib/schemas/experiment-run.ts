@@ -0,0 +1,339 @@
+import { z } from "zod";
+import { extractExperimentOutcome } from "../experiment-harness";
+
+/**
+ * Experiment Run Log
+ *
+ * Append-only history of every run of a discriminative test. The artifact
+ * only carries `last_run`; the run log keeps all of them, with enough
+ * provenance (git SHA, command, environment fingerprint, exit code) to tell
+ * a flaky rerun apart from a code or environment change.
+ *
+ * Entries are derived from experiment_result_v0.1 files and never edited.
+ *
+ * @see specs/experiment_result_encoding_v0.1.md
+ * @see storage/experiment-run-storage.ts
+ */
+
+// ============================================================================
+// Schema
+// ============================================================================
+
+export const EXPERIMENT_RUN_SCHEMA_VERSION = "experiment_run_v0.1";
+
+export const RunStatusSchema = z.enum(["passed", "failed", "blocked"]);
+
+export type RunStatus = z.infer<typeof RunStatusSchema>;
+
+export const RunVerdictSchema = z.enum(["matched", "violated", "inconclusive"]);
+
+export type RunVerdict = z.infer<typeof RunVerdictSchema>;
+
+export const ExperimentRunEntrySchema = z.object({
+  schema_version: z.literal(EXPERIMENT_RUN_SCHEMA_VERSION),
+  result_id: z.string().min(1),
+  thread_id: z.string().min(1),
+  test_id: z.string().min(1),
+  capture_mode: z.enum(["run", "record"]),
+
+  /** When the experiment ran (started_at, or created_at for recorded runs) */
+  run_at: z.string().datetime(),
+  /** When the entry was appended to the log */
+  logged_at: z.string().datetime(),
+  /** Result JSON path, relative to the project when inside it */
+  result_path: z.string().min(1),
+
+  command: z.array(z.string()).nullable(),
+  exit_code: z.number().int(),
+  timed_out: z.boolean(),
+  duration_ms: z.number().nonnegative().nullable(),
+  status: RunStatusSchema,
+
+  git: z
+    .object({
+      sha: z.string().min(1),
+      dirty: z.boolean(),
+    })
+    .nullable(),
+
+  environment: z.object({
+    platform: z.string(),
+    arch: z.string(),
+    runtime_version: z.string(),
+    /** Stable hash of the fields above; equal fingerprints mean "same environment" */
+    fingerprint: z.string().min(1),
+  }),
+
+  /** Execution profile the command ran under; null for recorded or pre-sandbox runs */
+  sandbox_profile: z.string().nullable().optional(),
+
+  /** Harness outcome, when the run printed one */
+  outcome: z
+    .object({
+      potency_passed: z.boolean(),
+      verdicts: z.record(z.string(), RunVerdictSchema),
+    })
+    .nullable(),
+});
+
+export type ExperimentRunEntry = z.infer<typeof ExperimentRunEntrySchema>;
+
+/**
+ * The experiment_result_v0.1 fields a run entry is built from. Both the CLI
+ * and the web runner produce results of this shape.
+ */
+export interface ExperimentResultProvenance {
+  result_id: string;
+  capture_mode: "run" | "record";
+  thread_id: string;
+  test_id: string;
+  created_at: string;
+  started_at: string | null;
+  argv: string[] | null;
+  timed_out: boolean;
+  exit_code: number;
+  duration_ms: number | null;
+  stdout: string;
+  git?: { sha: string; dirty: boolean };
+  runtime: { platform: string; arch: string; bun_version: string };
+  sandbox?: { profile: string };
+}
+
+// ============================================================================
+// Entry Construction
+// ============================================================================
+
+function fnv1a(input: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i += 1) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Fingerprint the runtime a result was captured on.
+ */
+export function environmentFingerprint(runtime: ExperimentResultProvenance["runtime"]): string {
+  return fnv1a([runtime.platform, runtime.arch, runtime.bun_version].join("\u0000")).toString(16).padStart(8, "0");
+}
+
+/**
+ * Status rule shared with the experiment encoder: timeouts block, exit 0 passes.
+ */
+export function runStatusFromResult(result: Pick<ExperimentResultProvenance, "timed_out" | "exit_code">): RunStatus {
+  if (result.timed_out) return "blocked";
+  return result.exit_code === 0 ? "passed" : "failed";
+}
+
+/**
+ * Build the log entry for a result file.
+ *
+ * A malformed harness outcome line is logged as no outcome rather than
+ * rejected: the run happened and belongs in the history either way.
+ */
+export function runEntryFromResult(
+  result: ExperimentResultProvenance,
+  resultPath: string,
+  loggedAt: Date = new Date()
+): ExperimentRunEntry {
+  const extracted = extractExperimentOutcome(result.stdout ?? "");
+  const outcome =
+    extracted.found && extracted.ok && extracted.outcome.test_id === result.test_id
+      ? {
+          potency_passed: extracted.outcome.potency.passed,
+          verdicts: Object.fromEntries(
+            extracted.outcome.verdicts.map((v) => [
+              v.hypothesis_id,
+              extracted.outcome.potency.passed ? v.verdict : ("inconclusive" as const),
+            ])
+          ),
+        }
+      : null;
+
+  return {
+    schema_version: EXPERIMENT_RUN_SCHEMA_VERSION,
+    result_id: result.result_id,
+    thread_id: result.thread_id,
+    test_id: result.test_id,
+    capture_mode: result.capture_mode,
+    run_at: result.started_at ?? result.created_at,
+    logged_at: loggedAt.toISOString(),
+    result_path: resultPath,
+    command: result.argv,
+    exit_code: result.exit_code,
+    timed_out: result.timed_out,
+    duration_ms: result.duration_ms,
+    status: runStatusFromResult(result),
+    git: result.git ? { sha: result.git.sha, dirty: result.git.dirty } : null,
+    environment: {
+      platform: result.runtime.platform,
+      arch: result.runtime.arch,
+      runtime_version: result.runtime.bun_version,
+      fingerprint: environmentFingerprint(result.runtime),
+    },
+    sandbox_profile: result.sandbox?.profile ?? null,
+    outcome,
+  };
+}
+
+// ============================================================================
+// History Summary
+// ============================================================================
+
+/**
+ * Runs that disagreed on one signal (the run status, or one hypothesis'
+ * verdict).
+ *
+ * - flaky: runs with identical provenance (commit, clean tree, environment)
+ *   disagree, so the difference is noise in the experiment itself
+ * - drift: disagreement only appears across commits or environments
+ */
+export interface RunDisagreement {
+  signal: "status" | { hypothesisId: string };
+  counts: Record<string, number>;
+  kind: "flaky" | "drift";
+}
+
+export interface DurationStats {
+  runs: number;
+  minMs: number;
+  medianMs: number;
+  maxMs: number;
+  /** Coefficient of variation (stddev / mean); 0 for a single run */
+  cv: number;
+}
+
+export interface RunHistorySummary {
+  testId: string;
+  totalRuns: number;
+  statusCounts: Record<RunStatus, number>;
+  firstRunAt: string | null;
+  lastRunAt: string | null;
+  latest: ExperimentRunEntry | null;
+  /** Per-hypothesis verdict counts over runs that printed an outcome */
+  verdictCounts: Record<string, Record<RunVerdict, number>>;
+  disagreements: RunDisagreement[];
+  flaky: boolean;
+  duration: DurationStats | null;
+  gitShas: string[];
+  environments: string[];
+}
+
+/** A test's runs together with their summary, as served to the web UI */
+export interface ExperimentRunHistory {
+  testId: string;
+  runs: ExperimentRunEntry[];
+  summary: RunHistorySummary;
+}
+
+/**
+ * Key for "same conditions". Dirty trees never share a key: the SHA does
+ * not describe what actually ran. Runs under different execution profiles
+ * differ in their limits, and runs from different threads test different
+ * artifacts, so neither shares a key either.
+ */
+function provenanceKey(entry: ExperimentRunEntry): string {
+  if (!entry.git || entry.git.dirty) return `unpinned:${entry.result_id}`;
+  return `${entry.thread_id}:${entry.git.sha}@${entry.environment.fingerprint}#${entry.sandbox_profile ?? "none"}`;
+}
+
+function countValues(values: string[]): Record<string, number> {
+  const counts: Record<string, number> = {};
+  for (const v of values) counts[v] = (counts[v] ?? 0) + 1;
+  return counts;
+}
+
+function classifyDisagreement(
+  signal: RunDisagreement["signal"],
+  observations: Array<{ entry: ExperimentRunEntry; value: string }>
+): RunDisagreement | null {
+  const counts = countValues(observations.map((o) => o.value));
+  if (Object.keys(counts).length < 2) return null;
+
+  const byProvenance = new Map<string, Set<string>>();
+  for (const { entry, value } of observations) {
+    const key = provenanceKey(entry);
+    const values = byProvenance.get(key) ?? new Set<string>();
+    values.add(value);
+    byProvenance.set(key, values);
+  }
+  const flaky = [...byProvenance.values()].some((values) => values.size > 1);
+
+  return { signal, counts, kind: flaky ? "flaky" : "drift" };
+}
+
+function durationStats(entries: ExperimentRunEntry[]): DurationStats | null {
+  const durations = entries
+    .filter((e) => e.capture_mode === "run" && !e.timed_out && typeof e.duration_ms === "number")
+    .map((e) => e.duration_ms as number)
+    .sort((a, b) => a - b);
+  if (durations.length === 0) return null;
+
+  const mean = durations.reduce((sum, d) => sum + d, 0) / durations.length;
+  const variance = durations.reduce((sum, d) => sum + (d - mean) ** 2, 0) / durations.length;
+  const mid = Math.floor(durations.length / 2);
+  const median = durations.length % 2 === 0 ? (durations[mid - 1] + durations[mid]) / 2 : durations[mid];
+
+  return {
+    runs: durations.length,
+    minMs: durations[0],
+    medianMs: median,
+    maxMs: durations[durations.length - 1],
+    cv: mean === 0 ? 0 : Math.sqrt(variance) / mean,
+  };
+}
+
+/**
+ * Summarize a test's run history: counts, verdict agreement, flakiness and
+ * duration variance.
+ *
+ * Inconclusive verdicts never count as disagreement; only matched vs
+ * violated does.
+ */
+export function summarizeRunHistory(testId: string, entries: ExperimentRunEntry[]): RunHistorySummary {
+  const runs = [...entries].sort((a, b) => a.run_at.localeCompare(b.run_at));
+
+  const statusCounts: Record<RunStatus, number> = { passed: 0, failed: 0, blocked: 0 };
+  for (const run of runs) statusCounts[run.status] += 1;
+
+  const verdictCounts: Record<string, Record<RunVerdict, number>> = {};
+  const decisive = new Map<string, Array<{ entry: ExperimentRunEntry; value: string }>>();
+  for (const run of runs) {
+    for (const [hypothesisId, verdict] of Object.entries(run.outcome?.verdicts ?? {})) {
+      verdictCounts[hypothesisId] ??= { matched: 0, violated: 0, inconclusive: 0 };
+      verdictCounts[hypothesisId][verdict] += 1;
+      if (verdict === "inconclusive") continue;
+      const list = decisive.get(hypothesisId) ?? [];
+      list.push({ entry: run, value: verdict });
+      decisive.set(hypothesisId, list);
+    }
+  }
+
+  const disagreements: RunDisagreement[] = [];
+  const statusDisagreement = classifyDisagreement(
+    "status",
+    runs.map((entry) => ({ entry, value: entry.status }))
+  );
+  if (statusDisagreement) disagreements.push(statusDisagreement);
+  for (const [hypothesisId, observations] of decisive) {
+    const disagreement = classifyDisagreement({ hypothesisId }, observations);
+    if (disagreement) disagreements.push(disagreement);
+  }
+
+  return {
+    testId,
+    totalRuns: runs.length,
+    statusCounts,
+    firstRunAt: runs[0]?.run_at ?? null,
+    lastRunAt: runs[runs.length - 1]?.run_at ?? null,
+    latest: runs[runs.length - 1] ?? null,
+    verdictCounts,
+    disagreements,
+    flaky: disagreements.some((d) => d.kind === "flaky"),
+    duration: durationStats(runs),
+    gitShas: [...new Set(runs.flatMap((r) => (r.git ? [r.git.sha] : [])))],
+    environments: [...new Set(runs.map((r) => r.environment.fingerprint))],
+  };
+}
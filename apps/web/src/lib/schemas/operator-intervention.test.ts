@@ -99,6 +99,8 @@ describe("OperatorInterventionSchema", () => {
       "decision_override",
       "session_control",
       "role_reassignment",
+      "conflict_resolution",
+      "auto_transition",
     ];
 
     for (const type of types) {
@@ -198,6 +200,16 @@ describe("determineInterventionSeverity", () => {
     expect(determineInterventionSeverity("delta_exclusion", {})).toBe("moderate");
   });
 
+  test("conflict_resolution is moderate even for hypotheses", () => {
+    expect(
+      determineInterventionSeverity("conflict_resolution", { item_type: "hypothesis", field: "claim", round: 1 })
+    ).toBe("moderate");
+  });
+
+  test("auto_transition is major", () => {
+    expect(determineInterventionSeverity("auto_transition", { item_type: "hypothesis", item_id: "H1" })).toBe("major");
+  });
+
   test("artifact_edit with item_type is moderate", () => {
     expect(
       determineInterventionSeverity("artifact_edit", { item_type: "test" })
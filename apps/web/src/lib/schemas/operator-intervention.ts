@@ -38,6 +38,8 @@ const interventionIdPattern = /^INT-[A-Za-z0-9][\w.-]*-\d{3}$|^INT\d+$/;
  * - decision_override: Overrode a protocol decision
  * - session_control: Terminated, forked, or reset session
  * - role_reassignment: Changed agent-role mappings mid-session
+ * - conflict_resolution: Chose the value for a field edited concurrently by several agents
+ * - auto_transition: Hypothesis state change applied by a program's transition policy
  */
 export const InterventionTypeSchema = z.enum([
   "artifact_edit",
@@ -46,6 +48,8 @@ export const InterventionTypeSchema = z.enum([
   "decision_override",
   "session_control",
   "role_reassignment",
+  "conflict_resolution",
+  "auto_transition",
 ]);
 
 export type InterventionType = z.infer<typeof InterventionTypeSchema>;
@@ -115,6 +119,12 @@ export const InterventionTargetSchema = z.object({
 
   /** Role for role reassignment */
   role: z.string().optional(),
+
+  /** Item field for conflict resolution */
+  field: z.string().optional(),
+
+  /** Round (number of COMPILED messages before the conflicting edits) for conflict resolution */
+  round: z.number().int().nonnegative().optional(),
 });
 
 export type InterventionTarget = z.infer<typeof InterventionTargetSchema>;
@@ -233,6 +243,8 @@ export const InterventionSummarySchema = z.object({
     decision_override: z.number().int().nonnegative(),
     session_control: z.number().int().nonnegative(),
     role_reassignment: z.number().int().nonnegative(),
+    conflict_resolution: z.number().int().nonnegative(),
+    auto_transition: z.number().int().nonnegative(),
   }),
 
   /** Whether session has any major+ interventions */
@@ -273,19 +285,21 @@ export function determineInterventionSeverity(
     return "critical";
   }
 
-  // Major: role reassignment, decision overrides, or item modifications
+  // Major: role reassignment, decision overrides, automatic transitions, or item modifications
   if (
     type === "role_reassignment" ||
     type === "decision_override" ||
+    type === "auto_transition" ||
     (type === "artifact_edit" && target.item_type === "hypothesis") ||
     (type === "delta_injection" && target.item_type === "hypothesis")
   ) {
     return "major";
   }
 
-  // Moderate: delta exclusion, test/assumption edits
+  // Moderate: delta exclusion, conflict resolution, test/assumption edits
   if (
     type === "delta_exclusion" ||
+    type === "conflict_resolution" ||
     (type === "artifact_edit" && target.item_type)
   ) {
     return "moderate";
@@ -314,6 +328,8 @@ export function createEmptyInterventionSummary(): InterventionSummary {
       decision_override: 0,
       session_control: 0,
       role_reassignment: 0,
+      conflict_resolution: 0,
+      auto_transition: 0,
     },
     has_major_interventions: false,
     operators: [],
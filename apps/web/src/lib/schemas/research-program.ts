@@ -1,4 +1,5 @@
 import { z } from "zod";
+import { TransitionPolicySchema, type TransitionPolicy } from "./transition-policy";
 
 /**
  * Research Program Schema
@@ -311,6 +312,12 @@ export const ResearchProgramSchema = z.object({
    * If abandoned, reason why.
    */
   abandonedReason: z.string().optional(),
+
+  /**
+   * How encoded experiment results may transition hypotheses automatically.
+   * Absent means DEFAULT_TRANSITION_POLICY (propose only).
+   */
+  transitionPolicy: TransitionPolicySchema.optional(),
 });
 
 export type ResearchProgram = z.infer<typeof ResearchProgramSchema>;
@@ -526,6 +533,22 @@ export function abandonProgram(
   });
 }
 
+/**
+ * Set the transition policy of a research program.
+ */
+export function setTransitionPolicy(
+  program: ResearchProgram,
+  policy: TransitionPolicy
+): ResearchProgram {
+  const now = new Date().toISOString();
+
+  return ResearchProgramSchema.parse({
+    ...program,
+    transitionPolicy: policy,
+    updatedAt: now,
+  });
+}
+
 // ============================================================================
 // Validation Helpers
 // ============================================================================
@@ -273,6 +273,9 @@ export const TraceMessageSchema = z.object({
   /** Subject line (for context) */
   subject: z.string().optional(),
 
+  /** Raw message body (kept so recorded deltas can be re-merged on replay) */
+  body_md: z.string().optional(),
+
   /** Whether message was acknowledged */
   acknowledged: z.boolean().default(false),
 });
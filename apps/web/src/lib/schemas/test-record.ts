@@ -438,6 +438,14 @@ export const TestRecordSchema = z.object({
     .array(z.string().regex(assumptionIdPattern, "Invalid assumption ID"))
     .optional(),
 
+  // === DEPENDENCIES ===
+
+  /**
+   * Tests that must complete before this one can run
+   * (e.g. a calibration run before the measurement it calibrates).
+   */
+  dependsOn: z.array(z.string().regex(testIdPattern, "Invalid test ID")).optional(),
+
   // === SESSION & STATUS ===
 
   /**
@@ -688,6 +696,7 @@ export function createTestRecord(input: {
   addressesPredictions?: string[];
   objectTransposition?: ObjectTransposition;
   requiredAssumptions?: string[];
+  dependsOn?: string[];
   designedBy?: string;
   anchors?: string[];
   priority?: number;
@@ -705,6 +714,7 @@ export function createTestRecord(input: {
     objectTransposition: input.objectTransposition,
     feasibility: input.feasibility,
     requiredAssumptions: input.requiredAssumptions,
+    dependsOn: input.dependsOn,
     designedInSession: input.designedInSession,
     designedBy: input.designedBy,
     status: "designed",
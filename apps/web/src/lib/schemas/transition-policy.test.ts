@@ -0,0 +1,238 @@
+/**
+ * Unit tests for policy-driven hypothesis transitions
+ *
+ * @see @/lib/schemas/transition-policy.ts
+ */
+
+import { describe, expect, it } from "vitest";
+import type { Hypothesis } from "./hypothesis";
+import { OperatorInterventionSchema } from "./operator-intervention";
+import { ResearchProgramSchema, createResearchProgram, setTransitionPolicy } from "./research-program";
+import {
+  DEFAULT_TRANSITION_POLICY,
+  applyAutoTransition,
+  evaluateTransitionPolicy,
+  revertAutoTransition,
+  type PolicyEvaluationInput,
+  type TransitionPolicy,
+} from "./transition-policy";
+
+// ============================================================================
+// Test Fixtures
+// ============================================================================
+
+function createTestHypothesis(overrides: Partial<Hypothesis> = {}): Hypothesis {
+  const now = new Date().toISOString();
+  return {
+    id: "H-TEST-001",
+    statement: "Test hypothesis statement",
+    origin: "proposed",
+    category: "mechanistic",
+    confidence: "medium",
+    sessionId: "TEST",
+    state: "active",
+    isInference: false,
+    unresolvedCritiqueCount: 0,
+    createdAt: now,
+    updatedAt: now,
+    ...overrides,
+  };
+}
+
+const AUTO_KILLS: TransitionPolicy = {
+  kill: { mode: "apply", minConfidence: "high", requirePotencyPass: true },
+  validate: { mode: "propose", minConfidence: "high", requirePotencyPass: true },
+};
+
+function input(overrides: Partial<PolicyEvaluationInput> = {}): PolicyEvaluationInput {
+  return {
+    runPassed: true,
+    potencyCheckPassed: true,
+    bindings: [
+      { hypothesisId: "H-TEST-001", binding: "violated", confidence: "high", reason: "no pause" },
+      { hypothesisId: "H-TEST-002", binding: "matched", confidence: "high" },
+    ],
+    ...overrides,
+  };
+}
+
+const CONTEXT = {
+  programId: "RP-TEST-001",
+  testId: "T-TEST-001",
+  resultId: "550e8400-e29b-41d4-a716-446655440000",
+  sessionId: "TEST",
+  interventionId: "INT-TEST-001",
+  now: new Date("2026-10-19T10:00:00Z"),
+};
+
+const HYPOTHESES = [createTestHypothesis(), createTestHypothesis({ id: "H-TEST-002" })];
+
+// ============================================================================
+// evaluateTransitionPolicy
+// ============================================================================
+
+describe("evaluateTransitionPolicy", () => {
+  it("applies kills and proposes validations under an auto-kill policy", () => {
+    const decisions = evaluateTransitionPolicy(AUTO_KILLS, input(), HYPOTHESES);
+
+    expect(decisions).toEqual([
+      expect.objectContaining({
+        hypothesisId: "H-TEST-001",
+        action: "kill",
+        disposition: "apply",
+        fromState: "active",
+        toState: "refuted",
+        bindingReason: "no pause",
+      }),
+      expect.objectContaining({ hypothesisId: "H-TEST-002", action: "validate", disposition: "propose" }),
+    ]);
+  });
+
+  it("only proposes under the default policy", () => {
+    const decisions = evaluateTransitionPolicy(DEFAULT_TRANSITION_POLICY, input(), HYPOTHESES);
+    expect(decisions.map((d) => d.disposition)).toEqual(["propose", "propose"]);
+  });
+
+  it("demotes applications that fail a gate to proposals", () => {
+    const kill = (overrides: Partial<PolicyEvaluationInput>) =>
+      evaluateTransitionPolicy(AUTO_KILLS, input(overrides), HYPOTHESES)[0];
+
+    expect(kill({ potencyCheckPassed: false })).toMatchObject({
+      disposition: "propose",
+      reason: "Potency check did not pass",
+    });
+    expect(kill({ runPassed: false })).toMatchObject({ disposition: "propose", reason: "Run did not complete cleanly" });
+    expect(
+      kill({ bindings: [{ hypothesisId: "H-TEST-001", binding: "violated", confidence: "medium" }] })
+    ).toMatchObject({ disposition: "propose", reason: "Confidence medium is below high" });
+
+    const lenient: TransitionPolicy = {
+      ...AUTO_KILLS,
+      kill: { mode: "apply", minConfidence: "medium", requirePotencyPass: false },
+    };
+    expect(evaluateTransitionPolicy(lenient, input({ potencyCheckPassed: false }), HYPOTHESES)[0].disposition).toBe(
+      "apply"
+    );
+  });
+
+  it("skips disabled rules, unknown hypotheses and impossible transitions", () => {
+    const off: TransitionPolicy = { ...AUTO_KILLS, validate: { ...AUTO_KILLS.validate, mode: "off" } };
+    const decisions = evaluateTransitionPolicy(
+      off,
+      input({
+        bindings: [
+          { hypothesisId: "H-TEST-002", binding: "matched", confidence: "high" },
+          { hypothesisId: "H-TEST-404", binding: "violated", confidence: "high" },
+          { hypothesisId: "H-TEST-003", binding: "violated", confidence: "high" },
+        ],
+      }),
+      [...HYPOTHESES, createTestHypothesis({ id: "H-TEST-003", state: "refuted" })]
+    );
+
+    expect(decisions.map((d) => [d.disposition, d.reason])).toEqual([
+      ["skip", "Policy ignores validate bindings"],
+      ["skip", "Hypothesis not found"],
+      ["skip", "Cannot refute a refuted hypothesis"],
+    ]);
+  });
+});
+
+// ============================================================================
+// applyAutoTransition / revertAutoTransition
+// ============================================================================
+
+describe("applyAutoTransition", () => {
+  it("transitions the hypothesis and records an auto_transition intervention", () => {
+    const [decision] = evaluateTransitionPolicy(AUTO_KILLS, input(), HYPOTHESES);
+    const result = applyAutoTransition(HYPOTHESES[0], decision, CONTEXT);
+    if (!result.success) throw new Error(result.error);
+
+    expect(result.hypothesis.state).toBe("refuted");
+    expect(result.transition).toMatchObject({
+      trigger: "refute",
+      triggeredBy: "policy:RP-TEST-001",
+      testResultId: `T-TEST-001:${CONTEXT.resultId}`,
+    });
+    expect(OperatorInterventionSchema.parse(result.intervention)).toEqual(result.intervention);
+    expect(result.intervention).toMatchObject({
+      id: "INT-TEST-001",
+      type: "auto_transition",
+      severity: "major",
+      operator_id: "policy:RP-TEST-001",
+      target: { item_id: "H-TEST-001", item_type: "hypothesis" },
+      reversible: true,
+      timestamp: "2026-10-19T10:00:00.000Z",
+    });
+    expect(JSON.parse(result.intervention.state_change!.before!)).toEqual({ state: "active" });
+    expect(result.intervention.tags).toContain("program:RP-TEST-001");
+    expect(result.intervention.rationale).toContain("no pause");
+  });
+
+  it("refuses decisions that are not applications", () => {
+    const [, proposal] = evaluateTransitionPolicy(AUTO_KILLS, input(), HYPOTHESES);
+    const result = applyAutoTransition(HYPOTHESES[1], proposal, CONTEXT);
+    expect(result.success).toBe(false);
+  });
+});
+
+describe("revertAutoTransition", () => {
+  function applied() {
+    const [decision] = evaluateTransitionPolicy(AUTO_KILLS, input(), HYPOTHESES);
+    const result = applyAutoTransition(HYPOTHESES[0], decision, CONTEXT);
+    if (!result.success) throw new Error(result.error);
+    return result;
+  }
+
+  it("restores the previous state out of a terminal state and marks the intervention reversed", () => {
+    const { hypothesis, intervention } = applied();
+    const reverted = revertAutoTransition(hypothesis, intervention, {
+      reversedBy: "alice",
+      now: new Date("2026-10-19T11:00:00Z"),
+    });
+    if (!reverted.success) throw new Error(reverted.error);
+
+    expect(reverted.hypothesis.state).toBe("active");
+    expect(reverted.intervention).toMatchObject({ reversed_by: "alice", reversed_at: "2026-10-19T11:00:00.000Z" });
+
+    const again = revertAutoTransition(reverted.hypothesis, reverted.intervention, { reversedBy: "alice" });
+    expect(again).toMatchObject({ success: false });
+  });
+
+  it("refuses when the hypothesis changed since the intervention", () => {
+    const { hypothesis, intervention } = applied();
+    const result = revertAutoTransition({ ...hypothesis, state: "superseded" }, intervention, { reversedBy: "alice" });
+    expect(result).toEqual({
+      success: false,
+      error: "H-TEST-001 is superseded, not refuted; it changed after INT-TEST-001",
+    });
+  });
+
+  it("refuses other intervention types and other hypotheses", () => {
+    const { hypothesis, intervention } = applied();
+    expect(revertAutoTransition(hypothesis, { ...intervention, type: "artifact_edit" }, { reversedBy: "a" }).success).toBe(
+      false
+    );
+    expect(revertAutoTransition({ ...hypothesis, id: "H-TEST-002" }, intervention, { reversedBy: "a" }).success).toBe(false);
+  });
+});
+
+// ============================================================================
+// Research program integration
+// ============================================================================
+
+describe("setTransitionPolicy", () => {
+  it("stores a validated policy on the program", () => {
+    const program = createResearchProgram({
+      id: "RP-TEST-001",
+      name: "Test program",
+      description: "Program for transition policy tests",
+    });
+    expect(program.transitionPolicy).toBeUndefined();
+
+    const updated = setTransitionPolicy(program, AUTO_KILLS);
+    expect(updated.transitionPolicy).toEqual(AUTO_KILLS);
+    expect(
+      ResearchProgramSchema.safeParse({ ...updated, transitionPolicy: { kill: { mode: "always" } } }).success
+    ).toBe(false);
+  });
+});
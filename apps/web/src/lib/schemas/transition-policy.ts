@@ -0,0 +1,334 @@
+import { z } from "zod";
+import {
+  HypothesisConfidenceSchema,
+  HypothesisStateSchema,
+  type Hypothesis,
+  type HypothesisConfidence,
+  type HypothesisState,
+} from "./hypothesis";
+import { getTargetState, transitionHypothesis, type StateTransition } from "./hypothesis-lifecycle";
+import {
+  determineInterventionSeverity,
+  validateIntervention,
+  type InterventionTarget,
+  type OperatorIntervention,
+} from "./operator-intervention";
+
+/**
+ * Transition Policy
+ *
+ * Turns encoded experiment results into hypothesis kills/validations
+ * according to a per-program policy, e.g. "auto-apply kills with high
+ * confidence and a passed potency check; only propose validations".
+ *
+ * Every applied transition produces an `auto_transition` OperatorIntervention
+ * recording the before/after state, so it shows up in the audit trail and
+ * can be reverted with `revertAutoTransition`.
+ *
+ * From Brenner §229: "When they go ugly, kill them. Get rid of them."
+ * The policy decides how much of that is left to the machine.
+ *
+ * @see specs/experiment_result_encoding_v0.1.md
+ * @see schemas/test-binding.ts (interactive equivalent)
+ */
+
+// ============================================================================
+// Policy Schema
+// ============================================================================
+
+/**
+ * What to do with a binding that passes the rule's gates.
+ *
+ * - off: ignore the binding
+ * - propose: report the transition for a human to apply (`brenner test bind`)
+ * - apply: transition the hypothesis and record an audit intervention
+ */
+export const PolicyModeSchema = z.enum(["off", "propose", "apply"]);
+
+export type PolicyMode = z.infer<typeof PolicyModeSchema>;
+
+/**
+ * Rule for one kind of transition. Bindings that fail a gate are demoted
+ * from "apply" to "propose", never dropped silently.
+ */
+export const TransitionRuleSchema = z.object({
+  mode: PolicyModeSchema,
+
+  /** Minimum verdict confidence for automatic application */
+  minConfidence: HypothesisConfidenceSchema.default("high"),
+
+  /** Only apply when the run's potency check passed */
+  requirePotencyPass: z.boolean().default(true),
+});
+
+export type TransitionRule = z.infer<typeof TransitionRuleSchema>;
+
+/**
+ * Per-program transition policy: violated bindings map to kills,
+ * matched bindings map to validations.
+ */
+export const TransitionPolicySchema = z.object({
+  kill: TransitionRuleSchema,
+  validate: TransitionRuleSchema,
+});
+
+export type TransitionPolicy = z.infer<typeof TransitionPolicySchema>;
+
+/**
+ * Policy for programs that have not configured one: everything is proposed,
+ * nothing is applied without a human.
+ */
+export const DEFAULT_TRANSITION_POLICY: TransitionPolicy = {
+  kill: { mode: "propose", minConfidence: "high", requirePotencyPass: true },
+  validate: { mode: "propose", minConfidence: "high", requirePotencyPass: true },
+};
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type PolicyAction = "kill" | "validate";
+
+export type PolicyDisposition = "apply" | "propose" | "skip";
+
+/** One hypothesis binding taken from an encoded experiment result */
+export interface PolicyBinding {
+  hypothesisId: string;
+  binding: "matched" | "violated";
+  confidence: HypothesisConfidence;
+  reason?: string;
+}
+
+export interface PolicyEvaluationInput {
+  /** Whether the run completed cleanly (exit 0, no timeout) */
+  runPassed: boolean;
+  potencyCheckPassed: boolean;
+  bindings: PolicyBinding[];
+}
+
+export interface PolicyDecision {
+  hypothesisId: string;
+  action: PolicyAction;
+  disposition: PolicyDisposition;
+  /** Why the policy chose this disposition */
+  reason: string;
+  confidence: HypothesisConfidence;
+  fromState?: HypothesisState;
+  toState?: HypothesisState;
+  /** The harness' explanation for the verdict */
+  bindingReason?: string;
+}
+
+export interface AutoTransitionContext {
+  programId: string;
+  testId: string;
+  resultId: string;
+  sessionId: string;
+  interventionId: string;
+  /** Defaults to `policy:<programId>` */
+  operatorId?: string;
+  now?: Date;
+}
+
+export type AutoTransitionResult =
+  | { success: true; hypothesis: Hypothesis; transition: StateTransition; intervention: OperatorIntervention }
+  | { success: false; error: string };
+
+export type RevertAutoTransitionResult =
+  | { success: true; hypothesis: Hypothesis; intervention: OperatorIntervention }
+  | { success: false; error: string };
+
+// ============================================================================
+// Evaluation
+// ============================================================================
+
+const CONFIDENCE_ORDER: HypothesisConfidence[] = ["high", "medium", "low", "speculative"];
+
+function meetsConfidence(actual: HypothesisConfidence, minimum: HypothesisConfidence): boolean {
+  return CONFIDENCE_ORDER.indexOf(actual) <= CONFIDENCE_ORDER.indexOf(minimum);
+}
+
+/**
+ * Decide, per binding, whether to apply, propose or skip the transition.
+ *
+ * @param policy - The program's transition policy
+ * @param input - Bindings and run facts from the encoded result
+ * @param hypotheses - Current hypotheses (for state checks)
+ */
+export function evaluateTransitionPolicy(
+  policy: TransitionPolicy,
+  input: PolicyEvaluationInput,
+  hypotheses: Hypothesis[]
+): PolicyDecision[] {
+  const hypothesisMap = new Map(hypotheses.map((h) => [h.id, h]));
+
+  return input.bindings.map((binding): PolicyDecision => {
+    const action: PolicyAction = binding.binding === "violated" ? "kill" : "validate";
+    const rule = policy[action];
+    const base = {
+      hypothesisId: binding.hypothesisId,
+      action,
+      confidence: binding.confidence,
+      ...(binding.reason ? { bindingReason: binding.reason } : {}),
+    };
+
+    const hypothesis = hypothesisMap.get(binding.hypothesisId);
+    if (!hypothesis) {
+      return { ...base, disposition: "skip", reason: "Hypothesis not found" };
+    }
+
+    const trigger = action === "kill" ? "refute" : "confirm";
+    const toState = getTargetState(hypothesis.state, trigger);
+    if (!toState) {
+      return {
+        ...base,
+        disposition: "skip",
+        reason: `Cannot ${trigger} a ${hypothesis.state} hypothesis`,
+        fromState: hypothesis.state,
+      };
+    }
+
+    const states = { fromState: hypothesis.state, toState };
+    if (rule.mode === "off") {
+      return { ...base, ...states, disposition: "skip", reason: `Policy ignores ${action} bindings` };
+    }
+    if (rule.mode === "propose") {
+      return { ...base, ...states, disposition: "propose", reason: `Policy proposes ${action} bindings` };
+    }
+
+    // Apply mode: every gate must pass, otherwise fall back to a proposal
+    if (!input.runPassed) {
+      return { ...base, ...states, disposition: "propose", reason: "Run did not complete cleanly" };
+    }
+    if (rule.requirePotencyPass && !input.potencyCheckPassed) {
+      return { ...base, ...states, disposition: "propose", reason: "Potency check did not pass" };
+    }
+    if (!meetsConfidence(binding.confidence, rule.minConfidence)) {
+      return {
+        ...base,
+        ...states,
+        disposition: "propose",
+        reason: `Confidence ${binding.confidence} is below ${rule.minConfidence}`,
+      };
+    }
+
+    return { ...base, ...states, disposition: "apply", reason: `Policy auto-applies ${action} bindings` };
+  });
+}
+
+// ============================================================================
+// Application and Reversal
+// ============================================================================
+
+/**
+ * Apply one "apply" decision: transition the hypothesis and build the
+ * auto_transition intervention that audits it.
+ *
+ * Nothing is persisted; callers save the hypothesis and the intervention.
+ */
+export function applyAutoTransition(
+  hypothesis: Hypothesis,
+  decision: PolicyDecision,
+  context: AutoTransitionContext
+): AutoTransitionResult {
+  if (decision.disposition !== "apply") {
+    return { success: false, error: `Decision for ${decision.hypothesisId} is "${decision.disposition}", not "apply"` };
+  }
+  if (hypothesis.id !== decision.hypothesisId) {
+    return { success: false, error: `Decision targets ${decision.hypothesisId}, not ${hypothesis.id}` };
+  }
+
+  const operatorId = context.operatorId ?? `policy:${context.programId}`;
+  const verdict = decision.action === "kill" ? "violated" : "matched";
+  const transitionReason =
+    `${context.testId} ${verdict} the prediction of ${hypothesis.id}` +
+    (decision.bindingReason ? `: ${decision.bindingReason}` : "");
+
+  const result = transitionHypothesis(hypothesis, decision.action === "kill" ? "refute" : "confirm", {
+    triggeredBy: operatorId,
+    testResultId: `${context.testId}:${context.resultId}`,
+    reason: transitionReason,
+    sessionId: context.sessionId,
+  });
+  if (!result.success) return { success: false, error: result.error.message };
+
+  const target: InterventionTarget = { item_id: hypothesis.id, item_type: "hypothesis" };
+  const validation = validateIntervention({
+    id: context.interventionId,
+    session_id: context.sessionId,
+    timestamp: (context.now ?? new Date()).toISOString(),
+    operator_id: operatorId,
+    type: "auto_transition",
+    severity: determineInterventionSeverity("auto_transition", target),
+    target,
+    state_change: {
+      before: JSON.stringify({ state: result.transition.fromState }),
+      after: JSON.stringify({ state: result.transition.toState, transition_id: result.transition.id }),
+    },
+    rationale: `Program ${context.programId} policy auto-applied ${decision.action} (${decision.confidence} confidence). ${transitionReason}`,
+    reversible: true,
+    tags: [
+      "auto",
+      `program:${context.programId}`,
+      `test:${context.testId}`,
+      `result:${context.resultId}`,
+    ],
+  });
+  if (!validation.valid) return { success: false, error: `Invalid intervention: ${validation.errors.join("; ")}` };
+
+  return { success: true, hypothesis: result.hypothesis, transition: result.transition, intervention: validation.data };
+}
+
+function parseRecordedState(raw: string | undefined): HypothesisState | null {
+  if (!raw) return null;
+  try {
+    const parsed = JSON.parse(raw) as { state?: unknown };
+    const state = HypothesisStateSchema.safeParse(parsed.state);
+    return state.success ? state.data : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Undo an auto_transition: restore the hypothesis' previous state and mark
+ * the intervention reversed.
+ *
+ * This deliberately bypasses the lifecycle state machine (refuted is
+ * terminal) because it undoes a machine decision rather than making a new
+ * one. It refuses if the hypothesis has moved on since the intervention.
+ */
+export function revertAutoTransition(
+  hypothesis: Hypothesis,
+  intervention: OperatorIntervention,
+  options: { reversedBy: string; now?: Date }
+): RevertAutoTransitionResult {
+  if (intervention.type !== "auto_transition") {
+    return { success: false, error: `${intervention.id} is a ${intervention.type} intervention, not auto_transition` };
+  }
+  if (intervention.reversed_at) {
+    return { success: false, error: `${intervention.id} was already reversed at ${intervention.reversed_at}` };
+  }
+  if (intervention.target.item_id !== hypothesis.id) {
+    return { success: false, error: `${intervention.id} targets ${intervention.target.item_id ?? "(none)"}, not ${hypothesis.id}` };
+  }
+
+  const before = parseRecordedState(intervention.state_change?.before);
+  const after = parseRecordedState(intervention.state_change?.after);
+  if (!before || !after) {
+    return { success: false, error: `${intervention.id} has no recorded before/after state` };
+  }
+  if (hypothesis.state !== after) {
+    return {
+      success: false,
+      error: `${hypothesis.id} is ${hypothesis.state}, not ${after}; it changed after ${intervention.id}`,
+    };
+  }
+
+  const timestamp = (options.now ?? new Date()).toISOString();
+  return {
+    success: true,
+    hypothesis: { ...hypothesis, state: before, updatedAt: timestamp },
+    intervention: { ...intervention, reversed_at: timestamp, reversed_by: options.reversedBy },
+  };
+}
@@ -585,6 +585,36 @@ const ROLE_DELTA_SUBJECT_TAG: Record<AgentRole, string> = {
   synthesis: "gpt",
 };
 
+/**
+ * Subject tag a role should use when replying with `DELTA[<tag>]: ...`.
+ */
+export function getRoleDeltaTag(role: AgentRole): string {
+  return ROLE_DELTA_SUBJECT_TAG[role];
+}
+
+/**
+ * Resolve the role of every recipient: explicit roster first, name heuristics otherwise.
+ */
+export function resolveRecipientRoles(
+  config: Pick<KickoffConfig, "recipients" | "recipientRoles">
+): Array<{ to: string; role: RoleConfig }> {
+  const explicitRoles = buildRecipientRoleMap(config.recipientRoles);
+  if (explicitRoles) {
+    const missing = config.recipients.filter((r) => !explicitRoles.has(normalizeRecipientKey(r)));
+    if (missing.length > 0) {
+      throw new Error(`Missing recipient role mapping for: ${missing.join(", ")}`);
+    }
+  }
+
+  return config.recipients.map((recipient) => {
+    const explicitRoleKey = explicitRoles?.get(normalizeRecipientKey(recipient));
+    const role = explicitRoleKey
+      ? ROLE_CONFIG_BY_AGENT_ROLE[explicitRoleKey]
+      : getAgentRole(recipient);
+    return { to: recipient, role };
+  });
+}
+
 /**
  * Compose the kickoff message body for a specific agent.
  */
@@ -711,19 +741,7 @@ function composeKickoffBody(config: KickoffConfig, role: RoleConfig): string {
  * Each recipient gets a role-specific message.
  */
 export function composeKickoffMessages(config: KickoffConfig): KickoffMessage[] {
-  const explicitRoles = buildRecipientRoleMap(config.recipientRoles);
-  if (explicitRoles) {
-    const missing = config.recipients.filter((r) => !explicitRoles.has(normalizeRecipientKey(r)));
-    if (missing.length > 0) {
-      throw new Error(`Missing recipient role mapping for: ${missing.join(", ")}`);
-    }
-  }
-
-  return config.recipients.map((recipient) => {
-    const explicitRoleKey = explicitRoles?.get(normalizeRecipientKey(recipient));
-    const role = explicitRoleKey
-      ? ROLE_CONFIG_BY_AGENT_ROLE[explicitRoleKey]
-      : getAgentRole(recipient);
+  return resolveRecipientRoles(config).map(({ to: recipient, role }) => {
     const subject = `KICKOFF: [${config.threadId}] ${config.researchQuestion.slice(0, 60)}${config.researchQuestion.length > 60 ? "..." : ""}`;
     const body = composeKickoffBody(config, role);
 
@@ -0,0 +1,200 @@
+/**
+ * Tests for the session orchestrator's round, convergence and kickoff logic.
+ */
+
+import { describe, expect, test } from "vitest";
+import type { AgentMailMessage } from "./agentMail";
+import type { LintReport } from "./artifact-merge";
+import { parseSubjectType, type BrennerRole } from "./threadStatus";
+import {
+  checkConvergence,
+  composeRoundKickoffMessages,
+  computeRoundProgress,
+  findUnopenedRound,
+  parseConvergenceCriteria,
+  type RoundKickoffConfig,
+} from "./session-orchestrator";
+
+// ============================================================================
+// Fixtures
+// ============================================================================
+
+let nextId = 1;
+
+function message(minute: number, subject: string, body_md = "", to: string[] = []): AgentMailMessage {
+  return {
+    id: nextId++,
+    thread_id: "RS-RUN-001",
+    subject,
+    body_md,
+    created_ts: new Date(Date.UTC(2026, 9, 19, 12, minute)).toISOString(),
+    from: "Operator",
+    to,
+    importance: "normal",
+    ack_required: false,
+  };
+}
+
+const KILL_BLOCK = [
+  "```delta",
+  JSON.stringify({
+    operation: "KILL",
+    section: "hypothesis_slate",
+    target_id: "H2",
+    payload: { reason: "Fails the scale check" },
+  }),
+  "```",
+].join("\n");
+
+const ALL_ROLES = ["hypothesis_generator", "test_designer", "adversarial_critic"] as const;
+
+const LINT: LintReport = {
+  valid: false,
+  summary: { errors: 1, warnings: 1, info: 0 },
+  violations: [
+    { id: "EC-001", severity: "error", message: "Fewer than 2 critiques", fix: "Add critiques" },
+    { id: "WA-003", severity: "warning", message: "No calculation" },
+  ],
+};
+
+const ROUND_CONFIG: RoundKickoffConfig = {
+  threadId: "RS-RUN-001",
+  round: 1,
+  compiledVersion: 1,
+  artifactMarkdown: "# Brenner Protocol Artifact: RS-RUN-001\n",
+  lint: LINT,
+  topGap: LINT.violations[0],
+  recommendations: [
+    {
+      violation_id: "EC-001",
+      severity: "error",
+      message: "Fewer than 2 critiques",
+      operators: ["ΔE Exception-Quarantine", "† Theory-Kill"],
+      suggested_role: "adversarial_critic",
+      next_action: "Add 2+ critiques.",
+    },
+  ],
+  recipients: ["BlueLake", "GreenPond"],
+  recipientRoles: { BlueLake: "hypothesis_generator", GreenPond: "adversarial_critic" },
+};
+
+// ============================================================================
+// Rounds
+// ============================================================================
+
+describe("computeRoundProgress", () => {
+  test("only counts DELTAs since the latest COMPILED", () => {
+    const messages = [
+      message(0, "KICKOFF: [RS-RUN-001] Question"),
+      message(1, "DELTA[gpt]: hypotheses"),
+      message(2, "DELTA[opus]: tests"),
+      message(3, "DELTA[gemini]: critique"),
+      message(4, "COMPILED: v1 artifact"),
+      message(5, "KICKOFF: [RS-RUN-001] Round 1: revise artifact v1"),
+      message(6, "DELTA[gemini]: kill H2", KILL_BLOCK),
+    ];
+
+    expect(computeRoundProgress(messages.slice(0, 2), [...ALL_ROLES])).toMatchObject({
+      round: 0,
+      isComplete: false,
+      pendingRoles: ["test_designer", "adversarial_critic"],
+    });
+    expect(computeRoundProgress(messages.slice(0, 4), [...ALL_ROLES]).isComplete).toBe(true);
+    expect(computeRoundProgress(messages, [...ALL_ROLES])).toEqual({
+      round: 1,
+      completedRoles: ["adversarial_critic"],
+      pendingRoles: ["hypothesis_generator", "test_designer"],
+      isComplete: false,
+      deltaMessages: 1,
+      kills: 1,
+    });
+    expect(computeRoundProgress(messages, ["adversarial_critic"]).isComplete).toBe(true);
+  });
+});
+
+describe("findUnopenedRound", () => {
+  const roundZero = [
+    message(0, "KICKOFF: [RS-RUN-001] Question", "", ["BlueLake", "GreenPond"]),
+    message(1, "DELTA[gpt]: hypotheses"),
+    message(2, "DELTA[gemini]: kill H2", KILL_BLOCK),
+  ];
+  const roles = ["hypothesis_generator", "adversarial_critic"] as BrennerRole[];
+  const recipients = ["BlueLake", "GreenPond"];
+  const roundKickoff = (minute: number, to: string[]) =>
+    message(minute, "KICKOFF: [RS-RUN-001] Round 1: revise artifact v1", "", to);
+
+  test("finds a COMPILED message with no kickoff after it", () => {
+    const compiled = message(3, "COMPILED: v1 artifact", "# Artifact v1");
+    expect(findUnopenedRound([...roundZero, compiled], recipients, roles)).toEqual({
+      round: 0,
+      compiled,
+      kills: 1,
+      missingRecipients: ["BlueLake", "GreenPond"],
+    });
+  });
+
+  test("lists only the recipients a partial send missed", () => {
+    const messages = [...roundZero, message(3, "COMPILED: v1 artifact"), roundKickoff(4, ["bluelake"])];
+    expect(findUnopenedRound(messages, recipients, roles)?.missingRecipients).toEqual(["GreenPond"]);
+  });
+
+  test("returns null before the first COMPILED or once every kickoff is out", () => {
+    expect(findUnopenedRound(roundZero, recipients, roles)).toBeNull();
+    const opened = [...roundZero, message(3, "COMPILED: v1 artifact"), roundKickoff(4, recipients)];
+    expect(findUnopenedRound(opened, recipients, roles)).toBeNull();
+  });
+});
+
+describe("checkConvergence", () => {
+  test("requires every selected criterion and ignores kills in round 0", () => {
+    const base = { lintValid: true, kills: 0, criteria: parseConvergenceCriteria("lint-clean,no-kills"), maxRounds: 5 };
+    expect(checkConvergence({ ...base, round: 0 })).toEqual({
+      converged: false,
+      roundLimitReached: false,
+      met: ["lint-clean"],
+      unmet: ["no-kills"],
+    });
+    expect(checkConvergence({ ...base, round: 1 }).converged).toBe(true);
+    expect(checkConvergence({ ...base, round: 1, kills: 2 }).unmet).toEqual(["no-kills"]);
+    expect(checkConvergence({ ...base, round: 0, criteria: ["lint-clean"] }).converged).toBe(true);
+    expect(checkConvergence({ ...base, round: 4, lintValid: false })).toMatchObject({ converged: false, roundLimitReached: true });
+  });
+
+  test("parses criteria lists", () => {
+    expect(parseConvergenceCriteria(" No-Kills, lint-clean,no-kills ")).toEqual(["no-kills", "lint-clean"]);
+    expect(() => parseConvergenceCriteria("quiet")).toThrow('Invalid convergence criterion: "quiet"');
+    expect(() => parseConvergenceCriteria(" , ")).toThrow("Expected at least one convergence criterion");
+  });
+});
+
+// ============================================================================
+// Round kickoffs
+// ============================================================================
+
+describe("composeRoundKickoffMessages", () => {
+  test("routes operator recommendations to the role that should close the gap", () => {
+    const [blue, green] = composeRoundKickoffMessages(ROUND_CONFIG);
+
+    expect(blue.subject).toBe("KICKOFF: [RS-RUN-001] Round 1: revise artifact v1");
+    expect(parseSubjectType(blue.subject).type).toBe("kickoff");
+    expect(blue.body).toContain("Round 0 compiled into artifact v1 (lint INVALID: 1 error, 1 warning).");
+    expect(blue.body).toContain("- ID: EC-001");
+    expect(blue.body).toContain("No lint gaps were routed to your role.");
+    expect(blue.body).toContain("- EC-001 (error) → adversarial_critic: Add 2+ critiques.");
+    expect(blue.body).toContain("# Brenner Protocol Artifact: RS-RUN-001");
+    expect(blue.body).toContain("subject `DELTA[gpt]: <description>`");
+
+    expect(green.to).toBe("GreenPond");
+    expect(green.body).toContain("## Your Focus (Adversarial Critic)\n- **EC-001** (error): Fewer than 2 critiques");
+    expect(green.body).toContain("  - Operators: ΔE Exception-Quarantine, † Theory-Kill");
+    expect(green.body).not.toContain("## Other Open Gaps");
+    expect(green.body).toContain("subject `DELTA[gemini]: <description>`");
+  });
+
+  test("requires a roster entry per recipient and a revision round", () => {
+    expect(() => composeRoundKickoffMessages({ ...ROUND_CONFIG, recipients: ["BlueLake", "RedFox"] })).toThrow(
+      "Missing recipient role mapping for: RedFox"
+    );
+    expect(() => composeRoundKickoffMessages({ ...ROUND_CONFIG, round: 0 })).toThrow("Round kickoffs start at round 1");
+  });
+});
@@ -0,0 +1,302 @@
+/**
+ * Session Orchestrator
+ *
+ * Decision logic behind `brenner session run`, the supervisor that drives a
+ * thread through repeated rounds:
+ *
+ *   wait for every role's DELTA → compile + publish COMPILED → lint →
+ *   converged? stop : send a round-N+1 kickoff aimed at the top lint gaps
+ *
+ * Rounds follow `threadStatus.ts`: round N is everything after the N-th
+ * COMPILED message (round 0 starts at the original KICKOFF). This module only
+ * decides; polling Agent Mail, compiling and sending stay in the CLI.
+ *
+ * A re-run resumes from the thread itself: if the latest COMPILED message has
+ * no round kickoff after it (the supervisor stopped between publishing and
+ * sending), `findUnopenedRound` says which recipients still need one.
+ *
+ * Convergence criteria (all selected criteria must hold):
+ * - `lint-clean`: the compiled artifact has no lint errors
+ * - `no-kills`: the round just compiled killed nothing. Only checked from
+ *   round 1 on, since round 0 has nothing to kill yet.
+ *
+ * The round limit is a hard stop applied on top of the criteria.
+ */
+
+import type { AgentMailMessage } from "./agentMail";
+import type { LintReport, LintSeverity, LintViolation } from "./artifact-merge";
+import { parseDeltaMessage } from "./delta-parser";
+import {
+  getRoleDeltaTag,
+  resolveRecipientRoles,
+  type AgentRole,
+  type KickoffMessage,
+} from "./session-kickoff";
+import {
+  computeThreadStatus,
+  getDeltaMessagesForCurrentRound,
+  parseSubjectType,
+  type BrennerRole,
+} from "./threadStatus";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export const CONVERGENCE_CRITERIA = ["lint-clean", "no-kills"] as const;
+
+export type ConvergenceCriterion = (typeof CONVERGENCE_CRITERIA)[number];
+
+/** Where the current round stands */
+export interface RoundProgress {
+  /** Current round (number of COMPILED messages so far) */
+  round: number;
+  completedRoles: BrennerRole[];
+  pendingRoles: BrennerRole[];
+  /** Every expected role has sent a DELTA this round */
+  isComplete: boolean;
+  /** DELTA messages posted this round */
+  deltaMessages: number;
+  /** Valid KILL blocks posted this round */
+  kills: number;
+}
+
+/** A compiled round whose successor was never opened */
+export interface UnopenedRound {
+  /** Round the latest COMPILED message closed */
+  round: number;
+  /** That COMPILED message (its body is the artifact the kickoff carries) */
+  compiled: AgentMailMessage;
+  /** Valid KILL blocks posted in the closed round */
+  kills: number;
+  /** Recipients with no kickoff after the COMPILED message */
+  missingRecipients: string[];
+}
+
+export interface ConvergenceCheck {
+  converged: boolean;
+  /** No further round may be opened */
+  roundLimitReached: boolean;
+  met: ConvergenceCriterion[];
+  unmet: ConvergenceCriterion[];
+}
+
+/** Lint-derived guidance for one gap (shape of the CLI's operator recommendations) */
+export interface RoundOperatorRecommendation {
+  violation_id: string;
+  severity: LintSeverity;
+  message: string;
+  operators: string[];
+  suggested_role: AgentRole | null;
+  next_action: string;
+}
+
+export interface RoundKickoffConfig {
+  threadId: string;
+  /** Round being opened (>= 1) */
+  round: number;
+  /** Version of the COMPILED artifact that closed the previous round */
+  compiledVersion: number;
+  artifactMarkdown: string;
+  lint: LintReport;
+  topGap: LintViolation | null;
+  recommendations: RoundOperatorRecommendation[];
+  recipients: string[];
+  recipientRoles?: Record<string, AgentRole>;
+}
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+/**
+ * Parse a comma-separated list of convergence criteria (e.g. "lint-clean,no-kills").
+ */
+export function parseConvergenceCriteria(value: string): ConvergenceCriterion[] {
+  const criteria: ConvergenceCriterion[] = [];
+  for (const raw of value.split(",")) {
+    const item = raw.trim().toLowerCase();
+    if (!item) continue;
+    if (!CONVERGENCE_CRITERIA.includes(item as ConvergenceCriterion)) {
+      throw new Error(`Invalid convergence criterion: "${raw.trim()}" (expected ${CONVERGENCE_CRITERIA.join(", ")}).`);
+    }
+    if (!criteria.includes(item as ConvergenceCriterion)) criteria.push(item as ConvergenceCriterion);
+  }
+  if (criteria.length === 0) {
+    throw new Error(`Expected at least one convergence criterion (${CONVERGENCE_CRITERIA.join(", ")}).`);
+  }
+  return criteria;
+}
+
+// ============================================================================
+// Rounds
+// ============================================================================
+
+/**
+ * Compute which roles have contributed to the current round.
+ *
+ * Unlike `ThreadStatus.roles`, which counts a role as done once it has ever
+ * sent a DELTA, this only looks at DELTAs since the latest COMPILED message.
+ */
+export function computeRoundProgress(messages: AgentMailMessage[], expectedRoles: BrennerRole[]): RoundProgress {
+  const round = computeThreadStatus(messages, { expectedRoles }).round;
+  const roundDeltas = getDeltaMessagesForCurrentRound(messages);
+  const roundStatus = computeThreadStatus(roundDeltas, { expectedRoles });
+
+  let kills = 0;
+  for (const message of roundDeltas) {
+    if (typeof message.body_md !== "string") continue;
+    for (const delta of parseDeltaMessage(message.body_md).deltas) {
+      if (delta.valid && delta.operation === "KILL") kills++;
+    }
+  }
+
+  const completedRoles = expectedRoles.filter((role) => roundStatus.roles[role].completed);
+  const pendingRoles = expectedRoles.filter((role) => !roundStatus.roles[role].completed);
+
+  return {
+    round,
+    completedRoles,
+    pendingRoles,
+    isComplete: pendingRoles.length === 0,
+    deltaMessages: roundDeltas.length,
+    kills,
+  };
+}
+
+/**
+ * Find the round a stopped supervisor compiled but never opened.
+ *
+ * Returns null when nothing has been compiled yet or every recipient already
+ * has a kickoff after the latest COMPILED message. A kickoff without recipient
+ * information counts as reaching everyone.
+ */
+export function findUnopenedRound(
+  messages: AgentMailMessage[],
+  recipients: string[],
+  expectedRoles: BrennerRole[]
+): UnopenedRound | null {
+  const sorted = [...messages].sort((a, b) => new Date(a.created_ts).getTime() - new Date(b.created_ts).getTime());
+  const compiledIndex = sorted.findLastIndex((message) => parseSubjectType(message.subject).type === "compiled");
+  if (compiledIndex === -1) return null;
+
+  const kickedOff = new Set<string>();
+  for (const message of sorted.slice(compiledIndex + 1)) {
+    if (parseSubjectType(message.subject).type !== "kickoff") continue;
+    if (!Array.isArray(message.to)) return null;
+    for (const name of message.to) kickedOff.add(name.trim().toLowerCase());
+  }
+  const missingRecipients = recipients.filter((name) => !kickedOff.has(name.trim().toLowerCase()));
+  if (missingRecipients.length === 0) return null;
+
+  const closed = computeRoundProgress(sorted.slice(0, compiledIndex), expectedRoles);
+  return { round: closed.round, compiled: sorted[compiledIndex], kills: closed.kills, missingRecipients };
+}
+
+/**
+ * Decide whether the session should stop after compiling `round`.
+ */
+export function checkConvergence(args: {
+  round: number;
+  lintValid: boolean;
+  kills: number;
+  criteria: ConvergenceCriterion[];
+  maxRounds: number;
+}): ConvergenceCheck {
+  const met: ConvergenceCriterion[] = [];
+  const unmet: ConvergenceCriterion[] = [];
+
+  for (const criterion of args.criteria) {
+    const ok = criterion === "lint-clean" ? args.lintValid : args.round >= 1 && args.kills === 0;
+    (ok ? met : unmet).push(criterion);
+  }
+
+  return {
+    converged: args.criteria.length > 0 && unmet.length === 0,
+    roundLimitReached: args.round + 1 >= args.maxRounds,
+    met,
+    unmet,
+  };
+}
+
+// ============================================================================
+// Round kickoffs
+// ============================================================================
+
+function pluralize(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? "" : "s"}`;
+}
+
+function formatRecommendation(rec: RoundOperatorRecommendation): string[] {
+  return [
+    `- **${rec.violation_id}** (${rec.severity}): ${rec.message}`,
+    `  - Operators: ${rec.operators.join(", ")}`,
+    `  - Next: ${rec.next_action}`,
+  ];
+}
+
+/**
+ * Compose the per-recipient kickoff that opens the next round.
+ *
+ * Each recipient gets the compiled artifact, the top lint gap and the operator
+ * recommendations routed to their role. The subject parses as a KICKOFF, so
+ * thread status tracks acks for it and compilation skips it.
+ */
+export function composeRoundKickoffMessages(config: RoundKickoffConfig): KickoffMessage[] {
+  if (config.round < 1) throw new Error(`Round kickoffs start at round 1 (got ${config.round}).`);
+
+  const { errors, warnings } = config.lint.summary;
+  const lintLine = `lint ${config.lint.valid ? "VALID" : "INVALID"}: ${pluralize(errors, "error")}, ${pluralize(warnings, "warning")}`;
+  const subject = `KICKOFF: [${config.threadId}] Round ${config.round}: revise artifact v${config.compiledVersion}`;
+
+  return resolveRecipientRoles(config).map(({ to, role }) => {
+    const focus = config.recommendations.filter((rec) => rec.suggested_role === role.role);
+    const others = config.recommendations.filter((rec) => rec.suggested_role !== role.role);
+
+    const lines: string[] = [];
+    lines.push(`# Brenner Protocol Session: ${config.threadId} (Round ${config.round})`);
+    lines.push("");
+    lines.push(
+      `Round ${config.round - 1} compiled into artifact v${config.compiledVersion} (${lintLine}). ` +
+        "Revise that artifact; do not start over."
+    );
+    lines.push("");
+
+    if (config.topGap) {
+      lines.push("## Top Lint Gap");
+      lines.push(`- ID: ${config.topGap.id}`);
+      lines.push(`- Severity: ${config.topGap.severity}`);
+      lines.push(`- Message: ${config.topGap.message}`);
+      if (config.topGap.fix) lines.push(`- Fix: ${config.topGap.fix}`);
+      lines.push("");
+    }
+
+    lines.push(`## Your Focus (${role.displayName})`);
+    if (focus.length > 0) {
+      for (const rec of focus) lines.push(...formatRecommendation(rec));
+    } else {
+      lines.push("No lint gaps were routed to your role. Pressure-test your own items and KILL anything the evidence no longer supports.");
+    }
+    lines.push("");
+
+    if (others.length > 0) {
+      lines.push("## Other Open Gaps");
+      for (const rec of others) {
+        const owner = rec.suggested_role ?? "any role";
+        lines.push(`- ${rec.violation_id} (${rec.severity}) → ${owner}: ${rec.next_action}`);
+      }
+      lines.push("");
+    }
+
+    lines.push(`## Compiled Artifact (v${config.compiledVersion})`);
+    lines.push(config.artifactMarkdown.trim());
+    lines.push("");
+
+    lines.push("## Response Format");
+    lines.push(`Reply to this thread with subject \`DELTA[${getRoleDeltaTag(role.role)}]: <description>\`.`);
+    lines.push("EDIT or KILL existing items by ID and ADD only what is new; every KILL needs a `reason`.");
+    lines.push("");
+
+    return { to, subject, body: lines.join("\n"), ackRequired: true, role };
+  });
+}
@@ -0,0 +1,355 @@
+import { describe, it, expect } from "vitest";
+import type { AgentMailMessage } from "./agentMail";
+import { conflictResolutionTarget, createEmptyArtifact, mergeArtifactWithTimestamps, renderArtifactMarkdown } from "./artifact-merge";
+import { parseDeltaMessage, type ValidDelta } from "./delta-parser";
+import type { OperatorIntervention } from "./schemas/operator-intervention";
+import {
+  buildSessionRecord,
+  formatReplayReportHuman,
+  groupDivergencesBySeverity,
+  replaySessionRecord,
+  sortDivergences,
+} from "./session-replay";
+import { SessionRecordSchema, type Divergence, type SessionRecord } from "./schemas/session-replay";
+
+// ============================================================================
+// Fixtures
+// ============================================================================
+
+const THREAD_ID = "RS-20260101-replay";
+
+function deltaBlock(delta: Record<string, unknown>): string {
+  return ["```delta", JSON.stringify(delta, null, 2), "```"].join("\n");
+}
+
+function hypothesis(name: string, extra: Record<string, unknown> = {}): string {
+  return deltaBlock({
+    operation: "ADD",
+    section: "hypothesis_slate",
+    target_id: null,
+    payload: { name, claim: `${name} claim`, mechanism: `${name} mechanism`, anchors: ["inference"], ...extra },
+    rationale: "test",
+  });
+}
+
+function message(
+  id: number,
+  from: string,
+  subject: string,
+  created_ts: string,
+  body_md: string
+): AgentMailMessage {
+  return { id, thread_id: THREAD_ID, from, subject, created_ts, body_md };
+}
+
+/** Render what `session publish` would post after merging these messages */
+function compiledBody(messages: AgentMailMessage[]): string {
+  const deltas: Array<ValidDelta & { timestamp: string; agent: string }> = [];
+  for (const m of messages) {
+    for (const delta of parseDeltaMessage(m.body_md ?? "").deltas) {
+      if (delta.valid) deltas.push({ ...delta, timestamp: m.created_ts, agent: m.from ?? "unknown" });
+    }
+  }
+  const merged = mergeArtifactWithTimestamps(createEmptyArtifact(THREAD_ID), deltas);
+  if (!merged.ok) throw new Error("fixture deltas do not merge");
+  return renderArtifactMarkdown(merged.artifact);
+}
+
+function threadMessages(): AgentMailMessage[] {
+  const alpha = message(2, "BlueLake", "DELTA[gpt]: hypotheses", "2026-01-01T00:01:00Z", hypothesis("Alpha"));
+  const beta = message(3, "GreenCastle", "DELTA[opus]: hypotheses", "2026-01-01T00:02:00Z", hypothesis("Beta"));
+  return [
+    message(
+      1,
+      "Operator",
+      `KICKOFF: [${THREAD_ID}] Why does X happen?`,
+      "2026-01-01T00:00:00Z",
+      "## Research Question\nWhy does X happen?\n\n## Transcript Excerpt\n§42 excerpt\n"
+    ),
+    alpha,
+    beta,
+    message(4, "Operator", "COMPILED: v1 artifact", "2026-01-01T00:03:00Z", compiledBody([alpha, beta])),
+    message(
+      5,
+      "RedForest",
+      "DELTA[gemini]: third alternative",
+      "2026-01-01T00:04:00Z",
+      hypothesis("Gamma", { third_alternative: true })
+    ),
+  ];
+}
+
+async function recordFixture(): Promise<SessionRecord> {
+  return buildSessionRecord({
+    threadId: THREAD_ID,
+    messages: threadMessages(),
+    now: new Date("2026-01-02T00:00:00Z"),
+  });
+}
+
+function editClaim(id: number, from: string, minute: number, claim: string): AgentMailMessage {
+  const ts = `2026-01-01T00:${String(minute).padStart(2, "0")}:00Z`;
+  return message(
+    id,
+    from,
+    `DELTA[gpt]: claim ${claim}`,
+    ts,
+    deltaBlock({ operation: "EDIT", section: "hypothesis_slate", target_id: "H1", payload: { claim }, rationale: "r" })
+  );
+}
+
+/** Two agents edit H1's claim in round 1 */
+function conflictMessages(): AgentMailMessage[] {
+  return [...threadMessages(), editClaim(6, "BlueLake", 5, "First claim"), editClaim(7, "RedForest", 6, "Second claim")];
+}
+
+const RESOLUTION: OperatorIntervention = {
+  id: `INT-${THREAD_ID}-001`,
+  session_id: THREAD_ID,
+  timestamp: "2026-01-01T00:07:00Z",
+  operator_id: "human",
+  type: "conflict_resolution",
+  severity: "moderate",
+  target: conflictResolutionTarget({ round: 1, section: "hypothesis_slate", target_id: "H1", field: "claim" }),
+  state_change: { after: JSON.stringify("First claim") },
+  rationale: "BlueLake's claim matches the anchors.",
+  reversible: true,
+  tags: [],
+};
+
+// ============================================================================
+// Recording
+// ============================================================================
+
+describe("buildSessionRecord", () => {
+  it("produces a schema-valid record with rounds split at COMPILED", async () => {
+    const record = await recordFixture();
+
+    expect(SessionRecordSchema.safeParse(record).success).toBe(true);
+    expect(record.id).toMatch(/^REC-RS-20260101-replay-\d+$/);
+    expect(record.trace.rounds).toHaveLength(2);
+    expect(record.trace.rounds[0].messages.map((m) => m.type)).toEqual(["KICKOFF", "DELTA", "DELTA", "COMPILE"]);
+    expect(record.trace.rounds[0].compiled_artifact_hash).toMatch(/^[0-9a-f]{64}$/);
+    expect(record.trace.rounds[0].duration_ms).toBe(180_000);
+    expect(record.trace.rounds[1].compiled_artifact_hash).toBeUndefined();
+    expect(record.trace.total_duration_ms).toBe(240_000);
+  });
+
+  it("captures kickoff inputs, inferred roster and output counts", async () => {
+    const record = await recordFixture();
+
+    expect(record.inputs.kickoff.question).toBe("Why does X happen?");
+    expect(record.inputs.kickoff.excerpt).toBe("§42 excerpt");
+    expect(record.inputs.agent_roster).toEqual([
+      { agent_name: "BlueLake", role: "hypothesis_generator", program: "codex-cli", model: "unknown" },
+      { agent_name: "GreenCastle", role: "test_designer", program: "claude-code", model: "unknown" },
+      { agent_name: "RedForest", role: "adversarial_critic", program: "gemini-cli", model: "unknown" },
+    ]);
+    expect(record.outputs.hypothesis_count).toBe(3);
+    expect(record.outputs.final_artifact_hash).toMatch(/^[0-9a-f]{64}$/);
+    expect(record.outputs.final_artifact_hash).not.toBe(record.trace.rounds[0].compiled_artifact_hash);
+  });
+
+  it("uses an explicit roster when given", async () => {
+    const roster = [{ agent_name: "BlueLake", role: "hypothesis_generator" as const, program: "codex-cli", model: "gpt-5.2" }];
+    const record = await buildSessionRecord({ threadId: THREAD_ID, messages: threadMessages(), roster });
+    expect(record.inputs.agent_roster).toEqual(roster);
+  });
+
+  it("ignores example delta blocks in the kickoff prompt", async () => {
+    const [kickoff, ...rest] = threadMessages();
+    const withExample = { ...kickoff, body_md: `${kickoff.body_md}\n## Role Prompt\n${hypothesis("Example only")}` };
+    const record = await buildSessionRecord({ threadId: THREAD_ID, messages: [withExample, ...rest] });
+    expect(record.outputs.hypothesis_count).toBe(3);
+  });
+
+  it("ignores example delta blocks in nudge repair messages", async () => {
+    const nudge = message(
+      6,
+      "Operator",
+      `NUDGE: [${THREAD_ID}] Delta corrections`,
+      "2026-01-01T00:05:00Z",
+      `# Delta corrections needed\n\nResend as:\n${hypothesis("Corrected example")}`
+    );
+    const record = await buildSessionRecord({
+      threadId: THREAD_ID,
+      messages: [...threadMessages(), nudge],
+      now: new Date("2026-01-02T00:00:00Z"),
+    });
+    expect(record.outputs.hypothesis_count).toBe(3);
+
+    const report = await replaySessionRecord(record, { mode: "verification", now: new Date("2026-01-03T00:00:00Z") });
+    expect(report.matches).toBe(true);
+  });
+
+  it("stores the session's interventions in the trace", async () => {
+    const record = await buildSessionRecord({
+      threadId: THREAD_ID,
+      messages: conflictMessages(),
+      interventions: [RESOLUTION],
+    });
+    expect(record.trace.interventions).toEqual([RESOLUTION]);
+  });
+
+  it("throws when recorded deltas do not merge", async () => {
+    const messages = [
+      ...threadMessages(),
+      message(
+        6,
+        "BlueLake",
+        "DELTA[gpt]: bad edit",
+        "2026-01-01T00:05:00Z",
+        deltaBlock({ operation: "EDIT", section: "hypothesis_slate", target_id: "H9", payload: { claim: "x" }, rationale: "r" })
+      ),
+    ];
+    await expect(buildSessionRecord({ threadId: THREAD_ID, messages })).rejects.toThrow(/Cannot record/);
+  });
+});
+
+// ============================================================================
+// Replay
+// ============================================================================
+
+describe("replaySessionRecord", () => {
+  it("verifies an untouched record", async () => {
+    const record = await recordFixture();
+    const report = await replaySessionRecord(record, { mode: "verification", now: new Date("2026-01-03T00:00:00Z") });
+
+    expect(report.matches).toBe(true);
+    expect(report.divergences).toEqual([]);
+    expect(report.similarity_percentage).toBe(100);
+    expect(report.rounds_completed).toBe(2);
+    expect(report.messages_matched).toBe(5);
+    expect(report.replayed_at).toBe("2026-01-03T00:00:00.000Z");
+    expect(report.conclusion).toMatch(/reproduced/);
+  });
+
+  it("flags a tampered delta body as a major divergence", async () => {
+    const record = await recordFixture();
+    record.trace.rounds[0].messages[1].body_md = hypothesis("Alpha-prime");
+
+    const report = await replaySessionRecord(record, { mode: "verification" });
+
+    expect(report.matches).toBe(false);
+    const major = report.divergences.filter((d) => d.severity === "major");
+    expect(major.map((d) => d.explanation)).toEqual(
+      expect.arrayContaining([
+        expect.stringMatching(/content hash/),
+        expect.stringMatching(/compiled artifact for this round/),
+        expect.stringMatching(/Final artifact hash/),
+      ])
+    );
+    expect(report.rounds_completed).toBe(1);
+  });
+
+  it("catches a published COMPILED artifact the deltas do not reproduce", async () => {
+    const messages = threadMessages();
+    messages[3] = { ...messages[3], body_md: compiledBody([messages[1]]) };
+    const record = await buildSessionRecord({ threadId: THREAD_ID, messages });
+
+    const report = await replaySessionRecord(record, { mode: "verification" });
+
+    expect(report.matches).toBe(false);
+    expect(report.divergences).toEqual([
+      expect.objectContaining({
+        round_number: 0,
+        message_index: 3,
+        severity: "major",
+        explanation: expect.stringMatching(/published compiled artifact/),
+      }),
+    ]);
+  });
+
+  it("applies recorded conflict resolutions on replay", async () => {
+    const record = await buildSessionRecord({
+      threadId: THREAD_ID,
+      messages: conflictMessages(),
+      interventions: [RESOLUTION],
+    });
+    const resolved = await replaySessionRecord(record, { mode: "verification" });
+    expect(resolved.matches).toBe(true);
+
+    const unresolved = await buildSessionRecord({ threadId: THREAD_ID, messages: conflictMessages() });
+    expect(unresolved.outputs.final_artifact_hash).not.toBe(record.outputs.final_artifact_hash);
+
+    record.trace.interventions = [];
+    const stripped = await replaySessionRecord(record, { mode: "verification" });
+    expect(stripped.divergences.map((d) => d.explanation)).toContain("Final artifact hash differs from the recorded output.");
+  });
+
+  it("reports missing bodies as moderate divergences", async () => {
+    const record = await recordFixture();
+    delete record.trace.rounds[1].messages[0].body_md;
+
+    const report = await replaySessionRecord(record, { mode: "verification" });
+
+    expect(report.divergences[0].severity).toBe("major");
+    expect(report.divergences.some((d) => d.severity === "moderate" && d.replayed_summary === "body not recorded")).toBe(true);
+  });
+
+  it("steps through every message in trace mode", async () => {
+    const record = await recordFixture();
+    const report = await replaySessionRecord(record, { mode: "trace" });
+
+    expect(report.matches).toBe(true);
+    expect(report.divergences).toHaveLength(5);
+    expect(report.divergences.every((d) => d.severity === "none" && d.semantic_match)).toBe(true);
+    expect(report.divergences[1].replayed_summary).toBe("DELTA: ADD hypothesis_slate");
+  });
+
+  it("compares two records item by item", async () => {
+    const original = await recordFixture();
+    const messages = threadMessages();
+    messages[4] = message(5, "PurpleHill", "DELTA[gemini]: other", "2026-01-01T00:04:00Z", hypothesis("Delta"));
+    const other = await buildSessionRecord({ threadId: THREAD_ID, messages });
+
+    const report = await replaySessionRecord(original, { mode: "comparison", against: other });
+
+    expect(report.mode).toBe("comparison");
+    expect(report.roster.map((r) => r.agent_name)).toContain("PurpleHill");
+    expect(report.messages_matched).toBe(2);
+    expect(report.messages_expected).toBe(3);
+    expect(report.divergences.some((d) => d.agent === "artifact" && d.original_summary === "hypothesis_slate:H3")).toBe(true);
+    expect(report.artifact_similarity).toBeLessThan(100);
+    expect(report.matches).toBe(false);
+  });
+
+  it("requires a second record for comparison mode", async () => {
+    const record = await recordFixture();
+    await expect(replaySessionRecord(record, { mode: "comparison" })).rejects.toThrow(/second session record/);
+  });
+});
+
+// ============================================================================
+// Formatting
+// ============================================================================
+
+describe("divergence ordering and formatting", () => {
+  const divergences: Divergence[] = [
+    { round_number: 1, message_index: 0, agent: "a", severity: "minor", original_summary: "x", replayed_summary: "y", semantic_match: false },
+    { round_number: 0, message_index: 2, agent: "b", severity: "major", original_summary: "x", replayed_summary: "y", semantic_match: false },
+    { round_number: 0, message_index: 1, agent: "c", severity: "major", original_summary: "x", replayed_summary: "y", semantic_match: false },
+  ];
+
+  it("sorts by severity then trace position", () => {
+    expect(sortDivergences(divergences).map((d) => d.agent)).toEqual(["c", "b", "a"]);
+  });
+
+  it("groups by severity, most severe first", () => {
+    const groups = groupDivergencesBySeverity(divergences);
+    expect(groups.map((g) => g.severity)).toEqual(["major", "minor"]);
+    expect(groups[0].divergences).toHaveLength(2);
+  });
+
+  it("renders a human-readable report", async () => {
+    const record = await recordFixture();
+    record.trace.rounds[0].messages[1].body_md = hypothesis("Alpha-prime");
+    const report = await replaySessionRecord(record, { mode: "verification" });
+
+    const text = formatReplayReportHuman(report);
+    expect(text).toContain("Session replay (verification): RS-20260101-replay");
+    expect(text).toContain("Result: DIVERGED");
+    expect(text).toMatch(/MAJOR \(\d+\)/);
+    expect(text).toContain(report.conclusion);
+  });
+});
@@ -0,0 +1,813 @@
+/**
+ * Session Record & Replay
+ *
+ * Produces SessionRecords from Agent Mail threads and replays them by
+ * re-merging the recorded deltas with `mergeArtifactWithTimestamps`.
+ *
+ * Usage:
+ * ```typescript
+ * import { buildSessionRecord, replaySessionRecord } from "./session-replay";
+ *
+ * const thread = await client.readThread({ projectKey, threadId, includeBodies: true });
+ * const record = await buildSessionRecord({ threadId, messages: thread.messages });
+ *
+ * const report = await replaySessionRecord(record, { mode: "verification" });
+ * if (!report.matches) {
+ *   console.log(formatReplayReportHuman(report));
+ * }
+ * ```
+ *
+ * @see specs/session_replay_spec_v0.1.md
+ */
+
+import type { AgentMailMessage } from "./agentMail";
+import {
+  conflictResolutionsFromInterventions,
+  createEmptyArtifact,
+  lintArtifact,
+  mergeArtifactWithTimestamps,
+  renderArtifactMarkdown,
+  type Artifact,
+  type ArtifactSections,
+  type ConflictResolution,
+} from "./artifact-merge";
+import { parseDeltaMessage, type ValidDelta } from "./delta-parser";
+import { isArtifactDeltaMessage, parseSubjectType } from "./threadStatus";
+import type { OperatorIntervention } from "./schemas/operator-intervention";
+import {
+  computeContentHash,
+  createRecordId,
+  isReplayMatch,
+  SessionRecordSchema,
+  type AgentRosterEntry,
+  type Divergence,
+  type DivergenceSeverity,
+  type MessageType,
+  type ReplayMode,
+  type ReplayReport,
+  type SessionRecord,
+  type TraceMessage,
+  type TraceRound,
+} from "./schemas/session-replay";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Options for building a session record from a thread */
+export interface BuildSessionRecordOptions {
+  /** Thread ID (session ID) */
+  threadId: string;
+  /** Thread messages, with bodies */
+  messages: AgentMailMessage[];
+  /** Explicit roster (inferred from DELTA senders when omitted) */
+  roster?: AgentRosterEntry[];
+  /** Operator interventions recorded for the session (conflict resolutions are applied on merge) */
+  interventions?: OperatorIntervention[];
+  /** Free-form notes stored on the record */
+  notes?: string;
+  /** Clock override (for deterministic tests) */
+  now?: Date;
+}
+
+/** Options for replaying a session record */
+export interface ReplayOptions {
+  mode: ReplayMode;
+  /** Second record to compare against (required for comparison mode) */
+  against?: SessionRecord;
+  /** Clock override (for deterministic tests) */
+  now?: Date;
+}
+
+type TimestampedDelta = ValidDelta & { timestamp: string; agent: string; round?: number };
+
+type MergeOutcome =
+  | { ok: true; artifact: Artifact; hash: string; compiledHash: string }
+  | { ok: false; error: string };
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const SEVERITY_ORDER: Record<DivergenceSeverity, number> = {
+  major: 0,
+  moderate: 1,
+  minor: 2,
+  none: 3,
+};
+
+/** Program inferred from the DELTA subject tag when no roster is given */
+const PROGRAM_BY_TAG: Record<string, string> = {
+  gpt: "codex-cli",
+  codex: "codex-cli",
+  codex_cli: "codex-cli",
+  opus: "claude-code",
+  claude: "claude-code",
+  claude_code: "claude-code",
+  gemini: "gemini-cli",
+  gemini_cli: "gemini-cli",
+};
+
+// ============================================================================
+// Hashing Helpers
+// ============================================================================
+
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map((v) => stableStringify(v)).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`).join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "null";
+}
+
+/**
+ * Compute a reproducible hash of an artifact's sections.
+ *
+ * Metadata is excluded because `created_at` is stamped at compile time and
+ * would never match across replays.
+ */
+export async function computeArtifactHash(artifact: Artifact): Promise<string> {
+  return computeContentHash(stableStringify(artifact.sections));
+}
+
+/**
+ * Compute the hash of a published COMPILED body.
+ *
+ * The YAML front matter is dropped: it carries compile-time timestamps and the
+ * version counter, which a replay cannot reproduce.
+ */
+export async function computeCompiledBodyHash(markdown: string): Promise<string> {
+  const body = markdown.replace(/\r\n/g, "\n").replace(/^---\n[\s\S]*?\n---\n/, "");
+  return computeContentHash(body.trim());
+}
+
+// ============================================================================
+// Trace Helpers
+// ============================================================================
+
+function toMessageType(subject: string): MessageType {
+  switch (parseSubjectType(subject).type) {
+    case "kickoff":
+      return "KICKOFF";
+    case "delta":
+      return "DELTA";
+    case "critique":
+      return "CRITIQUE";
+    case "ack":
+      return "ACK";
+    case "compiled":
+      return "COMPILE";
+    default:
+      return "ADMIN";
+  }
+}
+
+function toIsoTimestamp(value: string): string {
+  const ms = new Date(value).getTime();
+  if (Number.isNaN(ms)) {
+    throw new Error(`Invalid message timestamp: ${value}`);
+  }
+  return new Date(ms).toISOString();
+}
+
+function extractMarkdownSection(body: string, heading: string): string | undefined {
+  const lines = body.split("\n");
+  const start = lines.findIndex((line) => line.trim().toLowerCase() === `## ${heading}`.toLowerCase());
+  if (start === -1) return undefined;
+  const collected: string[] = [];
+  for (const line of lines.slice(start + 1)) {
+    if (line.startsWith("## ")) break;
+    collected.push(line);
+  }
+  const text = collected.join("\n").trim();
+  return text.length > 0 ? text : undefined;
+}
+
+function collectDeltas(messages: TraceMessage[]): TimestampedDelta[] {
+  const deltas: TimestampedDelta[] = [];
+  let round = 0;
+  for (const message of messages) {
+    const messageRound = round;
+    if (message.type === "COMPILE") round++;
+    // Same rule as session compile: only DELTA replies and debate conclusions contribute.
+    // Kickoffs, nudges and critiques quote example blocks that were never merged.
+    if (message.subject === undefined ? message.type !== "DELTA" : !isArtifactDeltaMessage({ subject: message.subject })) {
+      continue;
+    }
+    if (typeof message.body_md !== "string" || message.body_md.trim().length === 0) continue;
+    const parsed = parseDeltaMessage(message.body_md);
+    for (const delta of parsed.deltas) {
+      if (!delta.valid) continue;
+      deltas.push({ ...delta, timestamp: message.timestamp, agent: message.from, round: messageRound });
+    }
+  }
+  return deltas;
+}
+
+async function mergeTrace(
+  sessionId: string,
+  messages: TraceMessage[],
+  resolutions: ConflictResolution[] = []
+): Promise<MergeOutcome> {
+  const base = createEmptyArtifact(sessionId);
+  base.metadata.status = "active";
+  const result = mergeArtifactWithTimestamps(base, collectDeltas(messages), { resolutions });
+  if (!result.ok) {
+    return { ok: false, error: result.errors.map((e) => `${e.code}: ${e.message}`).join("; ") };
+  }
+  return {
+    ok: true,
+    artifact: result.artifact,
+    hash: await computeArtifactHash(result.artifact),
+    compiledHash: await computeCompiledBodyHash(renderArtifactMarkdown(result.artifact)),
+  };
+}
+
+function recordResolutions(record: SessionRecord): ConflictResolution[] {
+  return conflictResolutionsFromInterventions(record.trace.interventions);
+}
+
+function inferRoster(messages: AgentMailMessage[]): AgentRosterEntry[] {
+  const roster: AgentRosterEntry[] = [];
+  for (const message of messages) {
+    if (!message.from) continue;
+    const parsed = parseSubjectType(message.subject);
+    if (parsed.type !== "delta" || !parsed.role) continue;
+    if (roster.some((entry) => entry.agent_name === message.from && entry.role === parsed.role)) continue;
+    roster.push({
+      agent_name: message.from,
+      role: parsed.role,
+      program: PROGRAM_BY_TAG[parsed.shorthand ?? ""] ?? "unknown",
+      model: "unknown",
+    });
+  }
+  return roster;
+}
+
+function flattenMessages(record: SessionRecord): TraceMessage[] {
+  return record.trace.rounds.flatMap((round) => round.messages);
+}
+
+// ============================================================================
+// Recording
+// ============================================================================
+
+/**
+ * Build a SessionRecord from an Agent Mail thread.
+ *
+ * Rounds follow threadStatus semantics: each COMPILED message closes a round,
+ * and its `compiled_artifact_hash` is the hash of the published body (see
+ * `computeCompiledBodyHash`). Replay re-merges the deltas up to that point,
+ * with the recorded conflict resolutions, and checks it reproduces that body.
+ *
+ * @throws Error if the recorded deltas do not merge cleanly
+ */
+export async function buildSessionRecord(options: BuildSessionRecordOptions): Promise<SessionRecord> {
+  const { threadId } = options;
+  const now = options.now ?? new Date();
+  const interventions = options.interventions ?? [];
+  const resolutions = conflictResolutionsFromInterventions(interventions);
+  const sorted = [...options.messages].sort(
+    (a, b) => new Date(a.created_ts).getTime() - new Date(b.created_ts).getTime()
+  );
+
+  const rounds: TraceRound[] = [];
+  const seen: TraceMessage[] = [];
+  let current: TraceRound | null = null;
+
+  for (const message of sorted) {
+    const body = message.body_md ?? "";
+    const timestamp = toIsoTimestamp(message.created_ts);
+    const type = toMessageType(message.subject);
+    const traceMessage: TraceMessage = {
+      message_id: message.id > 0 ? message.id : undefined,
+      timestamp,
+      from: message.from || "unknown",
+      type,
+      content_hash: await computeContentHash(body),
+      content_length: new TextEncoder().encode(body).length,
+      subject: message.subject,
+      body_md: message.body_md,
+      acknowledged: false,
+    };
+
+    if (!current) {
+      current = { round_number: rounds.length, started_at: timestamp, messages: [] };
+    }
+
+    if (type === "COMPILE" && body.trim().length > 0) {
+      current.compiled_artifact_hash = await computeCompiledBodyHash(body);
+    }
+
+    current.messages.push(traceMessage);
+    seen.push(traceMessage);
+
+    if (type === "COMPILE") {
+      current.ended_at = timestamp;
+      current.duration_ms = Date.parse(timestamp) - Date.parse(current.started_at);
+      rounds.push(current);
+      current = null;
+    }
+  }
+
+  if (current) {
+    rounds.push(current);
+  }
+
+  const final = await mergeTrace(threadId, seen, resolutions);
+  if (!final.ok) {
+    throw new Error(`Cannot record session: ${final.error}`);
+  }
+  const lint = lintArtifact(final.artifact);
+  const sections = final.artifact.sections;
+
+  const kickoff = sorted.find((m) => toMessageType(m.subject) === "KICKOFF");
+  const kickoffBody = kickoff?.body_md;
+  const startedAt = seen[0]?.timestamp ?? now.toISOString();
+  const endedAt = seen[seen.length - 1]?.timestamp;
+
+  return SessionRecordSchema.parse({
+    id: createRecordId(threadId.replace(/[^\w-]/g, "-").replace(/^[^A-Za-z0-9]+/, "") || "session"),
+    session_id: threadId,
+    created_at: now.toISOString(),
+    inputs: {
+      kickoff: {
+        thread_id: threadId,
+        question: kickoffBody ? extractMarkdownSection(kickoffBody, "Research Question") : undefined,
+        excerpt: kickoffBody ? extractMarkdownSection(kickoffBody, "Transcript Excerpt") : undefined,
+        kickoff_body_md: kickoffBody,
+      },
+      external_evidence: [],
+      agent_roster: options.roster ?? inferRoster(sorted),
+      protocol_versions: { delta_format: "v0.1", artifact_schema: "v0.1" },
+    },
+    trace: {
+      rounds,
+      interventions,
+      total_duration_ms: endedAt ? Date.parse(endedAt) - Date.parse(startedAt) : 0,
+      started_at: startedAt,
+      ended_at: endedAt,
+    },
+    outputs: {
+      final_artifact_hash: final.hash,
+      lint_result: {
+        errors: lint.summary.errors,
+        warnings: lint.summary.warnings,
+        valid: lint.valid,
+        error_messages: lint.violations.filter((v) => v.severity === "error").map((v) => `${v.id}: ${v.message}`),
+        warning_messages: lint.violations.filter((v) => v.severity === "warning").map((v) => `${v.id}: ${v.message}`),
+      },
+      hypothesis_count: sections.hypothesis_slate.length,
+      test_count: sections.discriminative_tests.length,
+      assumption_count: sections.assumption_ledger.length,
+      anomaly_count: sections.anomaly_register.length,
+      critique_count: sections.adversarial_critique.length,
+    },
+    schema_version: "0.1",
+    notes: options.notes,
+  });
+}
+
+// ============================================================================
+// Replay
+// ============================================================================
+
+function describeMessage(message: TraceMessage): string {
+  if (!message.body_md) {
+    return `${message.type} (${message.content_length} bytes, body not recorded)`;
+  }
+  const parsed = parseDeltaMessage(message.body_md);
+  if (parsed.totalBlocks === 0) {
+    return `${message.type} (${message.content_length} bytes)`;
+  }
+  const ops = parsed.deltas.map((d) =>
+    d.valid ? `${d.operation} ${d.target_id ?? d.section}` : "INVALID"
+  );
+  return `${message.type}: ${ops.join(", ")}`;
+}
+
+function percentage(matched: number, total: number): number {
+  if (total === 0) return 100;
+  return Math.round((matched / total) * 1000) / 10;
+}
+
+async function replayAgainstRecord(record: SessionRecord, trace: boolean): Promise<{
+  divergences: Divergence[];
+  messagesMatched: number;
+  messagesExpected: number;
+  roundsCompleted: number;
+  hashChecks: number;
+  hashMatches: number;
+}> {
+  const divergences: Divergence[] = [];
+  const replayed: TraceMessage[] = [];
+  const resolutions = recordResolutions(record);
+  let messagesMatched = 0;
+  let messagesExpected = 0;
+  let roundsCompleted = 0;
+  let hashChecks = 0;
+  let hashMatches = 0;
+
+  for (const round of record.trace.rounds) {
+    let roundOk = true;
+
+    for (const [index, message] of round.messages.entries()) {
+      if (message.type === "COMPILE" && round.compiled_artifact_hash) {
+        hashChecks++;
+        const merged = await mergeTrace(record.session_id, replayed, resolutions);
+        if (!merged.ok) {
+          roundOk = false;
+          divergences.push({
+            round_number: round.round_number,
+            message_index: index,
+            agent: message.from,
+            severity: "major",
+            original_summary: `compiled ${round.compiled_artifact_hash.slice(0, 12)}`,
+            replayed_summary: "merge failed",
+            semantic_match: false,
+            explanation: merged.error,
+          });
+        } else if (merged.compiledHash !== round.compiled_artifact_hash) {
+          roundOk = false;
+          divergences.push({
+            round_number: round.round_number,
+            message_index: index,
+            agent: message.from,
+            severity: "major",
+            original_summary: `compiled ${round.compiled_artifact_hash.slice(0, 12)}`,
+            replayed_summary: `re-merged ${merged.compiledHash.slice(0, 12)}`,
+            semantic_match: false,
+            explanation: "Re-merging the recorded deltas does not reproduce the published compiled artifact for this round.",
+          });
+        } else {
+          hashMatches++;
+        }
+      }
+
+      messagesExpected++;
+      if (message.body_md === undefined) {
+        divergences.push({
+          round_number: round.round_number,
+          message_index: index,
+          agent: message.from,
+          severity: message.type === "DELTA" ? "moderate" : "minor",
+          original_summary: `${message.type} ${message.content_hash.slice(0, 12)}`,
+          replayed_summary: "body not recorded",
+          semantic_match: false,
+          explanation: "The record only carries a hash for this message, so it cannot be re-merged.",
+        });
+      } else if ((await computeContentHash(message.body_md)) !== message.content_hash) {
+        roundOk = false;
+        divergences.push({
+          round_number: round.round_number,
+          message_index: index,
+          agent: message.from,
+          severity: "major",
+          original_summary: `${message.type} ${message.content_hash.slice(0, 12)}`,
+          replayed_summary: describeMessage(message),
+          semantic_match: false,
+          explanation: "Recorded body does not match its content hash (edited after recording).",
+        });
+      } else {
+        messagesMatched++;
+        if (trace) {
+          divergences.push({
+            round_number: round.round_number,
+            message_index: index,
+            agent: message.from,
+            severity: "none",
+            original_summary: message.subject ?? message.type,
+            replayed_summary: describeMessage(message),
+            semantic_match: true,
+          });
+        }
+      }
+
+      replayed.push(message);
+    }
+
+    if (roundOk) roundsCompleted++;
+  }
+
+  return { divergences, messagesMatched, messagesExpected, roundsCompleted, hashChecks, hashMatches };
+}
+
+type SectionItems = Map<string, { section: keyof ArtifactSections; value: string; killed: boolean }>;
+
+function indexSections(sections: ArtifactSections): SectionItems {
+  const items: SectionItems = new Map();
+  for (const [section, value] of Object.entries(sections) as Array<[keyof ArtifactSections, unknown]>) {
+    const list = Array.isArray(value) ? value : value ? [value] : [];
+    for (const item of list as Array<{ id: string; killed?: boolean }>) {
+      items.set(`${section}:${item.id}`, { section, value: stableStringify(item), killed: item.killed === true });
+    }
+  }
+  return items;
+}
+
+function compareArtifacts(original: Artifact, replayed: Artifact, roundNumber: number): {
+  divergences: Divergence[];
+  similarity: number;
+} {
+  const left = indexSections(original.sections);
+  const right = indexSections(replayed.sections);
+  const keys = new Set([...left.keys(), ...right.keys()]);
+  const divergences: Divergence[] = [];
+  let identical = 0;
+
+  for (const key of [...keys].sort()) {
+    const a = left.get(key);
+    const b = right.get(key);
+    const itemId = key.split(":")[1];
+    const critical = (a ?? b)?.section === "hypothesis_slate" || (a ?? b)?.section === "discriminative_tests";
+
+    if (a && b && a.value === b.value) {
+      identical++;
+      continue;
+    }
+
+    let severity: DivergenceSeverity;
+    let explanation: string;
+    if (!a || !b) {
+      severity = critical ? "major" : "moderate";
+      explanation = a ? `${itemId} is missing from the replayed artifact.` : `${itemId} only exists in the replayed artifact.`;
+    } else if (a.killed !== b.killed) {
+      severity = "major";
+      explanation = `${itemId} was ${a.killed ? "killed" : "kept"} originally but ${b.killed ? "killed" : "kept"} on replay.`;
+    } else {
+      severity = "minor";
+      explanation = `${itemId} has different content.`;
+    }
+
+    divergences.push({
+      round_number: roundNumber,
+      message_index: 0,
+      agent: "artifact",
+      severity,
+      original_summary: a ? `${key}${a.killed ? " (killed)" : ""}` : "(absent)",
+      replayed_summary: b ? `${key}${b.killed ? " (killed)" : ""}` : "(absent)",
+      semantic_match: false,
+      explanation,
+    });
+  }
+
+  return { divergences, similarity: percentage(identical, keys.size) };
+}
+
+async function effectiveHash(message: TraceMessage): Promise<string> {
+  return message.body_md === undefined ? message.content_hash : computeContentHash(message.body_md);
+}
+
+async function compareDeltaMessages(original: SessionRecord, against: SessionRecord): Promise<{
+  matched: number;
+  expected: number;
+  divergences: Divergence[];
+}> {
+  const divergences: Divergence[] = [];
+  let matched = 0;
+  let expected = 0;
+
+  for (const round of original.trace.rounds) {
+    const otherDeltas = (against.trace.rounds.find((r) => r.round_number === round.round_number)?.messages ?? [])
+      .filter((m) => m.type === "DELTA");
+    const otherHashes = new Set(await Promise.all(otherDeltas.map(effectiveHash)));
+
+    for (const [index, message] of round.messages.entries()) {
+      if (message.type !== "DELTA") continue;
+      expected++;
+      if (otherHashes.has(await effectiveHash(message))) {
+        matched++;
+        continue;
+      }
+      const counterpart = otherDeltas.find((m) => m.subject === message.subject);
+      divergences.push({
+        round_number: round.round_number,
+        message_index: index,
+        agent: message.from,
+        severity: counterpart ? "minor" : "moderate",
+        original_summary: describeMessage(message),
+        replayed_summary: counterpart ? describeMessage(counterpart) : "(no matching DELTA)",
+        semantic_match: false,
+        explanation: counterpart
+          ? "Same subject, different delta content."
+          : `No DELTA with this content in round ${round.round_number} of the comparison record.`,
+      });
+    }
+  }
+
+  return { matched, expected, divergences };
+}
+
+/**
+ * Sort divergences by severity (major first), then by position in the trace.
+ */
+export function sortDivergences(divergences: Divergence[]): Divergence[] {
+  return [...divergences].sort(
+    (a, b) =>
+      SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity] ||
+      a.round_number - b.round_number ||
+      a.message_index - b.message_index
+  );
+}
+
+function summarizeConclusion(report: Omit<ReplayReport, "conclusion">): string {
+  const counts = (["major", "moderate", "minor"] as const)
+    .map((severity) => [severity, report.divergences.filter((d) => d.severity === severity).length] as const)
+    .filter(([, count]) => count > 0)
+    .map(([severity, count]) => `${count} ${severity}`);
+
+  const scope = `${report.rounds_completed}/${report.rounds_expected} rounds, ${report.messages_matched}/${report.messages_expected} messages`;
+  if (report.matches && counts.length === 0) {
+    return report.mode === "comparison"
+      ? `Sessions are equivalent (${scope}).`
+      : `Replay reproduced the recorded artifact (${scope}).`;
+  }
+  const divergenceText = counts.length > 0 ? `${counts.join(", ")} divergence(s)` : "no divergences";
+  return report.matches
+    ? `Replay matches within thresholds with ${divergenceText} (${scope}).`
+    : `Replay diverged: ${divergenceText} (${scope}).`;
+}
+
+/**
+ * Replay a session record.
+ *
+ * - `verification`: re-merge the recorded deltas (applying recorded conflict
+ *   resolutions) and check every message hash, every published COMPILED body,
+ *   the final artifact hash and lint counts.
+ * - `comparison`: re-merge both records and compare them item by item
+ *   (requires `options.against`).
+ * - `trace`: step through the recorded messages; each step is reported as a
+ *   `none` divergence alongside any integrity problems.
+ */
+export async function replaySessionRecord(record: SessionRecord, options: ReplayOptions): Promise<ReplayReport> {
+  const { mode } = options;
+  const replayedAt = (options.now ?? new Date()).toISOString();
+  const roundsExpected = record.trace.rounds.length;
+
+  let divergences: Divergence[];
+  let messagesMatched: number;
+  let messagesExpected: number;
+  let roundsCompleted: number;
+  let artifactSimilarity: number;
+  let similarity: number;
+  let roster = record.inputs.agent_roster;
+
+  if (mode === "comparison") {
+    if (!options.against) {
+      throw new Error("Comparison replay requires a second session record.");
+    }
+    roster = options.against.inputs.agent_roster;
+    const original = await mergeTrace(record.session_id, flattenMessages(record), recordResolutions(record));
+    const other = await mergeTrace(
+      record.session_id,
+      flattenMessages(options.against),
+      recordResolutions(options.against)
+    );
+    if (!original.ok || !other.ok) {
+      throw new Error(`Cannot compare records: ${original.ok ? "" : original.error}${other.ok ? "" : other.error}`);
+    }
+    const lastRound = Math.max(0, roundsExpected - 1);
+    const artifactComparison = compareArtifacts(original.artifact, other.artifact, lastRound);
+    const messageComparison = await compareDeltaMessages(record, options.against);
+
+    divergences = [...messageComparison.divergences, ...artifactComparison.divergences];
+    messagesMatched = messageComparison.matched;
+    messagesExpected = messageComparison.expected;
+    roundsCompleted = Math.min(roundsExpected, options.against.trace.rounds.length);
+    artifactSimilarity = artifactComparison.similarity;
+    similarity = Math.round(((artifactSimilarity + percentage(messagesMatched, messagesExpected)) / 2) * 10) / 10;
+  } else {
+    const replay = await replayAgainstRecord(record, mode === "trace");
+    divergences = replay.divergences;
+    messagesMatched = replay.messagesMatched;
+    messagesExpected = replay.messagesExpected;
+    roundsCompleted = replay.roundsCompleted;
+
+    let hashChecks = replay.hashChecks + 1;
+    let hashMatches = replay.hashMatches;
+    const lastRound = Math.max(0, roundsExpected - 1);
+    const lastMessage = Math.max(0, (record.trace.rounds[lastRound]?.messages.length ?? 1) - 1);
+    const final = await mergeTrace(record.session_id, flattenMessages(record), recordResolutions(record));
+
+    if (!final.ok) {
+      divergences.push({
+        round_number: lastRound,
+        message_index: lastMessage,
+        agent: "artifact",
+        severity: "major",
+        original_summary: `final ${record.outputs.final_artifact_hash.slice(0, 12)}`,
+        replayed_summary: "merge failed",
+        semantic_match: false,
+        explanation: final.error,
+      });
+    } else {
+      if (final.hash === record.outputs.final_artifact_hash) {
+        hashMatches++;
+      } else {
+        divergences.push({
+          round_number: lastRound,
+          message_index: lastMessage,
+          agent: "artifact",
+          severity: "major",
+          original_summary: `final ${record.outputs.final_artifact_hash.slice(0, 12)}`,
+          replayed_summary: `re-merged ${final.hash.slice(0, 12)}`,
+          semantic_match: false,
+          explanation: "Final artifact hash differs from the recorded output.",
+        });
+      }
+
+      const lint = lintArtifact(final.artifact);
+      const recordedLint = record.outputs.lint_result;
+      hashChecks++;
+      if (lint.summary.errors === recordedLint.errors && lint.summary.warnings === recordedLint.warnings) {
+        hashMatches++;
+      } else {
+        divergences.push({
+          round_number: lastRound,
+          message_index: lastMessage,
+          agent: "linter",
+          severity: lint.summary.errors !== recordedLint.errors ? "moderate" : "minor",
+          original_summary: `${recordedLint.errors} errors, ${recordedLint.warnings} warnings`,
+          replayed_summary: `${lint.summary.errors} errors, ${lint.summary.warnings} warnings`,
+          semantic_match: false,
+          explanation: "Lint results differ (linter rules may have changed since recording).",
+        });
+      }
+    }
+
+    artifactSimilarity = percentage(hashMatches, hashChecks);
+    similarity = percentage(messagesMatched + hashMatches, messagesExpected + hashChecks);
+  }
+
+  const partial = {
+    original_session_id: record.session_id,
+    mode,
+    replayed_at: replayedAt,
+    roster,
+    matches: false,
+    similarity_percentage: similarity,
+    rounds_completed: roundsCompleted,
+    rounds_expected: roundsExpected,
+    messages_matched: messagesMatched,
+    messages_expected: messagesExpected,
+    artifact_similarity: artifactSimilarity,
+    divergences: sortDivergences(divergences),
+  };
+  partial.matches = isReplayMatch({ ...partial, conclusion: "" });
+
+  return { ...partial, conclusion: summarizeConclusion(partial) };
+}
+
+// ============================================================================
+// Formatting
+// ============================================================================
+
+/**
+ * Group divergences by severity, most severe first.
+ */
+export function groupDivergencesBySeverity(
+  divergences: Divergence[]
+): Array<{ severity: DivergenceSeverity; divergences: Divergence[] }> {
+  return (Object.keys(SEVERITY_ORDER) as DivergenceSeverity[])
+    .map((severity) => ({
+      severity,
+      divergences: sortDivergences(divergences.filter((d) => d.severity === severity)),
+    }))
+    .filter((group) => group.divergences.length > 0);
+}
+
+/**
+ * Format a replay report for terminal output.
+ */
+export function formatReplayReportHuman(report: ReplayReport): string {
+  const lines: string[] = [];
+  lines.push(`Session replay (${report.mode}): ${report.original_session_id}`);
+  lines.push(`Result: ${report.matches ? "MATCH" : "DIVERGED"}`);
+  lines.push(`Similarity: ${report.similarity_percentage}% (artifact ${report.artifact_similarity}%)`);
+  lines.push(
+    `Rounds: ${report.rounds_completed}/${report.rounds_expected} | Messages: ${report.messages_matched}/${report.messages_expected}`
+  );
+
+  for (const group of groupDivergencesBySeverity(report.divergences)) {
+    lines.push("");
+    lines.push(`${group.severity.toUpperCase()} (${group.divergences.length})`);
+    for (const d of group.divergences) {
+      const summary = d.semantic_match
+        ? d.replayed_summary
+        : `${d.original_summary} → ${d.replayed_summary}`;
+      lines.push(`  - round ${d.round_number} #${d.message_index} [${d.agent}] ${summary}`);
+      if (d.explanation) {
+        lines.push(`    ${d.explanation}`);
+      }
+    }
+  }
+
+  lines.push("");
+  lines.push(report.conclusion);
+  return lines.join("\n");
+}
@@ -0,0 +1,152 @@
+/**
+ * Tests for the session simulator's scripted agents.
+ *
+ * Kickoffs come from the real composer, and replies go through the real delta
+ * parser and merge, so template changes on either side show up here.
+ */
+
+import { describe, expect, test } from "vitest";
+import { composeKickoffMessages, type KickoffConfig } from "./session-kickoff";
+import { createEmptyArtifact, lintArtifact, mergeArtifactWithTimestamps } from "./artifact-merge";
+import { parseDeltaMessage, type ValidDelta } from "./delta-parser";
+import {
+  createScriptedAgent,
+  digestKickoff,
+  parseBehaviorMap,
+  parseSimulationScript,
+  type SimulationKickoff,
+} from "./session-simulator";
+
+// ============================================================================
+// Fixtures
+// ============================================================================
+
+const CONFIG: KickoffConfig = {
+  threadId: "RS-SIM-001",
+  researchQuestion: "How do cells read a morphogen gradient?",
+  context: "Gradients are noisy; thresholds must still be sharp.",
+  excerpt: "§42: Choose the right organism.\n§58: Reduce the problem to one dimension.",
+  recipients: ["BlueLake", "RedFox", "GreenPond"],
+  recipientRoles: { BlueLake: "hypothesis_generator", RedFox: "test_designer", GreenPond: "adversarial_critic" },
+};
+
+function kickoffFor(name: string): SimulationKickoff {
+  const message = composeKickoffMessages(CONFIG).find((m) => m.to === name);
+  if (!message) throw new Error(`No kickoff for ${name}`);
+  return { messageId: 1, threadId: CONFIG.threadId, from: "Simulator", subject: message.subject, body: message.body };
+}
+
+// ============================================================================
+// Reading kickoffs
+// ============================================================================
+
+describe("digestKickoff", () => {
+  test("extracts the question, context, excerpt anchors and requested delta tag", () => {
+    expect(digestKickoff(kickoffFor("RedFox"))).toEqual({
+      threadId: "RS-SIM-001",
+      deltaTag: "opus",
+      researchQuestion: "How do cells read a morphogen gradient?",
+      context: "Gradients are noisy; thresholds must still be sharp.",
+      anchors: ["§42", "§58"],
+    });
+  });
+});
+
+// ============================================================================
+// Scripted agents
+// ============================================================================
+
+describe("createScriptedAgent", () => {
+  test("template replies from a full roster compile into a lint-clean artifact", () => {
+    const deltas: Array<ValidDelta & { timestamp: string; agent: string }> = [];
+    for (const [name, role] of Object.entries(CONFIG.recipientRoles ?? {})) {
+      const reply = createScriptedAgent({ name, role }).respond(kickoffFor(name));
+      expect(reply?.subject).toMatch(/^DELTA\[(gpt|opus|gemini)\]: /);
+
+      const parsed = parseDeltaMessage(reply?.body ?? "");
+      expect(parsed.invalidCount).toBe(0);
+      for (const delta of parsed.deltas) {
+        if (delta.valid) deltas.push({ ...delta, timestamp: "2026-10-19T00:00:00.000Z", agent: name });
+      }
+    }
+
+    const merged = mergeArtifactWithTimestamps(createEmptyArtifact(CONFIG.threadId), deltas);
+    expect(merged.ok).toBe(true);
+    if (!merged.ok) return;
+    expect(merged.artifact.sections.research_thread?.statement).toBe(CONFIG.researchQuestion);
+    expect(lintArtifact(merged.artifact).summary.errors).toBe(0);
+  });
+
+  test("malformed replies fail parsing in each of the three ways", () => {
+    const reply = createScriptedAgent({ name: "RedFox", role: "test_designer", behavior: "malformed" }).respond(
+      kickoffFor("RedFox")
+    );
+    const parsed = parseDeltaMessage(reply?.body ?? "");
+    expect(parsed.validCount).toBe(0);
+    const errors = parsed.deltas.map((d) => (d.valid ? "" : d.error));
+    expect(errors.slice(0, 3)).toEqual([
+      expect.stringContaining("Invalid JSON"),
+      expect.stringContaining('Invalid section: "discriminative_tests_v2"'),
+      "ADD operation requires a payload object",
+    ]);
+  });
+
+  test("no-blocks, silent, fixture and custom responders", () => {
+    const kickoff = kickoffFor("GreenPond");
+    const noBlocks = createScriptedAgent({ name: "GreenPond", role: "adversarial_critic", behavior: "no-blocks" }).respond(kickoff);
+    expect(parseDeltaMessage(noBlocks?.body ?? "").totalBlocks).toBe(0);
+    expect(createScriptedAgent({ name: "GreenPond", role: "adversarial_critic", behavior: "silent" }).respond(kickoff)).toBeNull();
+
+    const fixture = createScriptedAgent({ name: "GreenPond", role: "adversarial_critic", fixtureBody: "Verbatim reply" });
+    expect(fixture.behavior).toBe("fixture");
+    expect(fixture.respond(kickoff)).toEqual({ subject: "DELTA[gemini]: GreenPond (fixture)", body: "Verbatim reply" });
+
+    const custom = createScriptedAgent({
+      name: "GreenPond",
+      role: "adversarial_critic",
+      respond: (_kickoff, digest) => ({ subject: `DELTA[${digest.deltaTag}]: custom`, body: digest.anchors.join(" ") }),
+    });
+    expect(custom.behavior).toBe("custom");
+    expect(custom.respond(kickoff)).toEqual({ subject: "DELTA[gemini]: custom", body: "§42 §58" });
+  });
+
+  test("refuses kickoffs that do not ask for a DELTA reply", () => {
+    const agent = createScriptedAgent({ name: "BlueLake", role: "hypothesis_generator" });
+    expect(() => agent.respond({ messageId: 1, threadId: "RS-1", from: "X", subject: "KICKOFF", body: "# Hi" })).toThrow(
+      "Kickoff for BlueLake does not ask for a DELTA[...] reply"
+    );
+  });
+});
+
+// ============================================================================
+// Scripts and flags
+// ============================================================================
+
+describe("simulation scripts", () => {
+  test("validates agents and keeps custom responders", () => {
+    const respond = () => null;
+    const agents = parseSimulationScript({
+      agents: [
+        { name: "BlueLake", role: "synthesis", behavior: "malformed" },
+        { name: "RedFox", role: "statistician", fixture: "red.md", respond },
+      ],
+    });
+    expect(agents).toEqual([
+      { name: "BlueLake", role: "synthesis", behavior: "malformed" },
+      { name: "RedFox", role: "statistician", fixture: "red.md", respond },
+    ]);
+
+    expect(() => parseSimulationScript({ agents: [{ name: "Blue Lake", role: "oracle" }] }, "sim.json")).toThrow(
+      /^Invalid simulation script at sim\.json: agents\.0\.name: .*; agents\.0\.role: /
+    );
+    expect(() =>
+      parseSimulationScript({ agents: [{ name: "A", role: "synthesis" }, { name: "a", role: "synthesis" }] })
+    ).toThrow('duplicate agent "a"');
+  });
+
+  test("parses --behavior maps", () => {
+    expect(parseBehaviorMap("RedFox=malformed, GreenPond=silent")).toEqual({ RedFox: "malformed", GreenPond: "silent" });
+    expect(() => parseBehaviorMap("RedFox")).toThrow('expected "Name=behavior"');
+    expect(() => parseBehaviorMap("RedFox=rude")).toThrow('Invalid behavior for "RedFox": "rude"');
+  });
+});
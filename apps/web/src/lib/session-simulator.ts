@@ -0,0 +1,430 @@
+/**
+ * Session Simulator
+ *
+ * Deterministic stand-ins for CLI agents, so a full Brenner session
+ * (kickoff → role deltas → compile → lint → publish) can be rehearsed on one
+ * machine. A simulated agent reads the kickoff it was sent (as composed by
+ * `composeKickoffMessages`) and replies the way its role is asked to: a
+ * `DELTA[tag]` subject, prose, then fenced delta blocks.
+ *
+ * Built-in behaviors:
+ * - `template`: role-appropriate deltas generated from the kickoff
+ * - `malformed`: the same deltas, deliberately broken (bad JSON, unknown
+ *   section, missing payload) to exercise invalid-delta reporting
+ * - `no-blocks`: a DELTA message with prose only (DELTA_NO_BLOCKS)
+ * - `silent`: never replies
+ *
+ * A fixture body replaces the generated reply verbatim; script modules can
+ * supply their own `respond` function.
+ *
+ * Usage:
+ * ```typescript
+ * import { createScriptedAgent } from "./session-simulator";
+ *
+ * const agent = createScriptedAgent({ name: "BlueLake", role: "hypothesis_generator" });
+ * const reply = agent.respond({ messageId: 1, threadId, from: "Simulator", subject, body });
+ * ```
+ */
+
+import { z } from "zod";
+import type { RawDelta } from "./delta-parser";
+import { AGENT_ROLE_VALUES, type AgentRole } from "./schemas/session";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export const SIMULATED_BEHAVIORS = ["template", "malformed", "no-blocks", "silent"] as const;
+
+export type SimulatedBehavior = (typeof SIMULATED_BEHAVIORS)[number];
+
+/** A kickoff message as a simulated agent receives it */
+export interface SimulationKickoff {
+  messageId: number;
+  threadId: string;
+  from: string;
+  subject: string;
+  body: string;
+}
+
+export interface SimulatedReply {
+  subject: string;
+  body: string;
+}
+
+export interface SimulatedAgent {
+  name: string;
+  role: AgentRole;
+  behavior: SimulatedBehavior | "fixture" | "custom";
+  /** Reply to a kickoff, or null to stay silent */
+  respond(kickoff: SimulationKickoff): SimulatedReply | null;
+}
+
+/** What an agent extracts from its kickoff before answering */
+export interface KickoffDigest {
+  threadId: string;
+  /** Tag from the requested `DELTA[tag]` subject (null when the kickoff doesn't ask for one) */
+  deltaTag: string | null;
+  researchQuestion: string;
+  context: string;
+  /** Transcript anchors (§n) cited in the kickoff excerpt */
+  anchors: string[];
+}
+
+export interface ScriptedAgentSpec {
+  name: string;
+  role: AgentRole;
+  behavior?: SimulatedBehavior;
+  /** Reply body used verbatim instead of generated deltas */
+  fixtureBody?: string;
+  /** Custom responder (script modules only); takes precedence over behavior */
+  respond?: (kickoff: SimulationKickoff, digest: KickoffDigest) => SimulatedReply | null;
+}
+
+// ============================================================================
+// Simulation Scripts
+// ============================================================================
+
+const ScriptAgentSchema = z.object({
+  name: z.string().regex(/^[A-Za-z0-9_-]+$/, "Agent names may only contain letters, digits, '-' and '_'"),
+  role: z.enum(AGENT_ROLE_VALUES),
+  behavior: z.enum(SIMULATED_BEHAVIORS).optional(),
+  /** Path to a reply body (relative to the script file) */
+  fixture: z.string().min(1).optional(),
+});
+
+export const SimulationScriptSchema = z.object({
+  agents: z.array(ScriptAgentSchema).min(1, "A simulation script needs at least one agent"),
+});
+
+export type SimulationScriptAgent = z.infer<typeof ScriptAgentSchema> & {
+  respond?: ScriptedAgentSpec["respond"];
+};
+
+/**
+ * Validate a simulation script (parsed JSON, or a module's default export).
+ * Custom `respond` functions from modules are kept as-is.
+ */
+export function parseSimulationScript(value: unknown, source?: string): SimulationScriptAgent[] {
+  const result = SimulationScriptSchema.safeParse(value);
+  if (!result.success) {
+    const details = result.error.issues.map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`);
+    throw new Error(`Invalid simulation script${source ? ` at ${source}` : ""}: ${details.join("; ")}`);
+  }
+
+  const rawAgents = (value as { agents: Array<Record<string, unknown>> }).agents;
+  const seen = new Set<string>();
+  return result.data.agents.map((agent, index) => {
+    const key = agent.name.toLowerCase();
+    if (seen.has(key)) throw new Error(`Invalid simulation script${source ? ` at ${source}` : ""}: duplicate agent "${agent.name}"`);
+    seen.add(key);
+
+    const respond = rawAgents[index]?.respond;
+    return typeof respond === "function" ? { ...agent, respond: respond as ScriptedAgentSpec["respond"] } : agent;
+  });
+}
+
+/**
+ * Parse `Name=behavior,...` (the `--behavior` flag).
+ */
+export function parseBehaviorMap(value: string): Record<string, SimulatedBehavior> {
+  const out: Record<string, SimulatedBehavior> = {};
+  for (const part of value.split(",").map((s) => s.trim()).filter(Boolean)) {
+    const eq = part.indexOf("=");
+    const name = eq === -1 ? "" : part.slice(0, eq).trim();
+    const behavior = eq === -1 ? "" : part.slice(eq + 1).trim();
+    if (!name || !behavior) throw new Error(`Invalid --behavior entry "${part}": expected "Name=behavior"`);
+    if (!SIMULATED_BEHAVIORS.includes(behavior as SimulatedBehavior)) {
+      throw new Error(`Invalid behavior for "${name}": "${behavior}". Expected one of: ${SIMULATED_BEHAVIORS.join(", ")}`);
+    }
+    out[name] = behavior as SimulatedBehavior;
+  }
+  return out;
+}
+
+// ============================================================================
+// Reading Kickoffs
+// ============================================================================
+
+/** Body of a `## Heading` section, up to the next `## ` heading */
+function markdownSection(body: string, heading: string): string {
+  const lines = body.split("\n");
+  const start = lines.findIndex((line) => line.trim() === `## ${heading}`);
+  if (start === -1) return "";
+  const end = lines.findIndex((line, i) => i > start && line.startsWith("## "));
+  return lines
+    .slice(start + 1, end === -1 ? undefined : end)
+    .join("\n")
+    .trim();
+}
+
+export function digestKickoff(kickoff: SimulationKickoff): KickoffDigest {
+  const responseFormat = markdownSection(kickoff.body, "Response Format");
+  const tag = responseFormat.match(/DELTA\[([a-z]+)\]/i);
+  const excerpt = markdownSection(kickoff.body, "Transcript Excerpt");
+  const anchors = Array.from(new Set(Array.from(excerpt.matchAll(/§(\d+)/g), (m) => `§${m[1]}`)));
+
+  return {
+    threadId: kickoff.threadId,
+    deltaTag: tag ? tag[1].toLowerCase() : null,
+    researchQuestion: markdownSection(kickoff.body, "Research Question"),
+    context: markdownSection(kickoff.body, "Context"),
+    anchors,
+  };
+}
+
+// ============================================================================
+// Role Templates
+// ============================================================================
+
+type TemplateKind = "hypotheses" | "tests" | "critique" | "synthesis";
+
+const ROLE_TEMPLATE_KIND: Record<AgentRole, TemplateKind> = {
+  hypothesis_generator: "hypotheses",
+  brenner_channeler: "hypotheses",
+  test_designer: "tests",
+  experiment_designer: "tests",
+  statistician: "tests",
+  adversarial_critic: "critique",
+  devils_advocate: "critique",
+  synthesis: "synthesis",
+};
+
+function add(section: RawDelta["section"], payload: Record<string, unknown>, rationale: string): RawDelta {
+  return { operation: "ADD", section, target_id: null, payload, rationale };
+}
+
+/**
+ * Deltas a role would contribute, built from the kickoff. One agent per
+ * template kind (hypotheses, tests, critique) is enough for a lint-clean
+ * artifact.
+ */
+export function generateRoleDeltas(role: AgentRole, digest: KickoffDigest): RawDelta[] {
+  const question = digest.researchQuestion || `Research question for ${digest.threadId}`;
+  const anchors = digest.anchors.length > 0 ? digest.anchors.slice(0, 2) : ["inference"];
+
+  switch (ROLE_TEMPLATE_KIND[role]) {
+    case "hypotheses":
+      return [
+        {
+          operation: "EDIT",
+          section: "research_thread",
+          target_id: "RT",
+          payload: { statement: question, context: digest.context || "See kickoff context.", anchors },
+          rationale: "Frame the research thread from the kickoff",
+        },
+        add(
+          "hypothesis_slate",
+          {
+            name: "Single dominant mechanism",
+            claim: `One mechanism accounts for the phenomenon in: ${question}`,
+            mechanism: "A single upstream signal sets the outcome; removing it abolishes the effect",
+            anchors,
+          },
+          "Simplest causal account"
+        ),
+        add(
+          "hypothesis_slate",
+          {
+            name: "Distributed mechanism",
+            claim: "Several redundant pathways each contribute part of the effect",
+            mechanism: "Partial, additive contributions; single removals only weaken the effect",
+            anchors,
+          },
+          "Competing account with a different knockout signature"
+        ),
+        add(
+          "hypothesis_slate",
+          {
+            name: "Third alternative: wrong level of description",
+            claim: "Both accounts are misframed; the observable is set at a different level of organisation",
+            mechanism: "The measured variable is a by-product of a constraint neither model includes",
+            anchors: digest.anchors.length > 0 ? [...anchors, "inference"] : ["inference"],
+            third_alternative: true,
+          },
+          "Keep the slate open to both being wrong"
+        ),
+        add(
+          "predictions_table",
+          { condition: "Remove the candidate signal", predictions: { H1: "effect abolished", H2: "effect reduced", H3: "effect unchanged" } },
+          "Knockout separates all three"
+        ),
+        add(
+          "predictions_table",
+          { condition: "Double the candidate signal", predictions: { H1: "effect scales", H2: "effect saturates", H3: "no change" } },
+          "Dose response"
+        ),
+        add(
+          "predictions_table",
+          { condition: "Change system size", predictions: { H1: "pattern scales", H2: "pattern fixed", H3: "pattern lost" } },
+          "Scaling behaviour"
+        ),
+      ];
+    case "tests":
+      return [
+        add(
+          "discriminative_tests",
+          {
+            name: "Clean knockout",
+            procedure: "Remove the candidate signal and measure the outcome against matched controls",
+            discriminates: "H1 vs H2",
+            expected_outcomes: { H1: "effect abolished", H2: "effect reduced" },
+            potency_check: "Chastity control (§50): a known effect is lost in the same assay",
+            feasibility: "Existing reagents, one week",
+            score: { likelihood_ratio: 3, cost: 2, speed: 3, ambiguity: 2 },
+          },
+          "Most decisive, cheapest test"
+        ),
+        add(
+          "discriminative_tests",
+          {
+            name: "Size perturbation",
+            procedure: "Vary system size and check whether the pattern scales",
+            discriminates: "H1 vs H3",
+            expected_outcomes: { H1: "pattern scales", H3: "pattern lost" },
+            potency_check: "Chastity control (§50): confirm the size manipulation itself succeeded",
+            feasibility: "Needs calibration, two weeks",
+            score: { likelihood_ratio: 2, cost: 1, speed: 2, ambiguity: 2 },
+          },
+          "Separates the third alternative"
+        ),
+        add(
+          "assumption_ledger",
+          { name: "Measurement is linear", statement: "Readout scales linearly with the outcome", load: "All tests", test: "Calibration curve" },
+          "Shared assumption"
+        ),
+        add(
+          "assumption_ledger",
+          { name: "Knockout is complete", statement: "The perturbation removes the signal entirely", load: "T1", test: "Direct assay of the signal" },
+          "Load-bearing for the knockout"
+        ),
+        add(
+          "assumption_ledger",
+          {
+            name: "Diffusion is fast enough",
+            statement: "A signal can cross the system within the relevant time window",
+            load: "H1",
+            test: "Compare diffusion time with the patterning window",
+            scale_check: true,
+            calculation: "L = 100 μm, D = 1e-7 cm²/s → t ≈ L²/D ≈ 1000 s, within the 1 h window",
+          },
+          "Scale check"
+        ),
+      ];
+    case "critique":
+      return [
+        add(
+          "adversarial_critique",
+          {
+            name: "Confounded readout",
+            attack: "The readout may track cell number rather than the proposed signal",
+            evidence: "Normalising by cell count would remove the effect",
+            current_status: "Unaddressed",
+          },
+          "Attack the measurement"
+        ),
+        add(
+          "adversarial_critique",
+          {
+            name: "Self-organisation without a signal",
+            attack: "Local interactions alone can produce the pattern; no upstream signal is needed",
+            evidence: "Pattern forms in isolated explants",
+            current_status: "Needs an explant test",
+            real_third_alternative: true,
+          },
+          "A real third alternative"
+        ),
+        add(
+          "anomaly_register",
+          {
+            name: "Residual pattern",
+            observation: "Some pattern remains after the signal is removed",
+            conflicts_with: ["H1"],
+            status: "active",
+            resolution_plan: "Repeat with a second, independent knockout",
+          },
+          "Quarantine the contradiction"
+        ),
+      ];
+    case "synthesis":
+      return [
+        {
+          operation: "EDIT",
+          section: "research_thread",
+          target_id: "RT",
+          payload: { why_it_matters: "Deciding between the mechanisms fixes which experiment to run next" },
+          rationale: "Synthesis of the round",
+        },
+      ];
+  }
+}
+
+/**
+ * Break deltas deterministically, cycling through three failure modes the
+ * parser must report: truncated JSON, an unknown section, and a missing payload.
+ */
+export function malformDeltaBlocks(deltas: RawDelta[]): string[] {
+  return deltas.map((delta, index) => {
+    const json = JSON.stringify(delta, null, 2);
+    switch (index % 3) {
+      case 0:
+        return json.slice(0, Math.floor(json.length / 2));
+      case 1:
+        return JSON.stringify({ ...delta, section: `${delta.section}_v2` }, null, 2);
+      default:
+        return JSON.stringify({ ...delta, payload: undefined }, null, 2);
+    }
+  });
+}
+
+/**
+ * Render a reply in the kickoff's response format: prose, then `## Deltas`
+ * with one fenced block per delta.
+ */
+export function renderDeltaReply(prose: string, blocks: string[]): string {
+  const lines = [prose.trim(), ""];
+  if (blocks.length > 0) {
+    lines.push("## Deltas", "");
+    for (const block of blocks) lines.push("```delta", block, "```", "");
+  }
+  return lines.join("\n");
+}
+
+// ============================================================================
+// Scripted Agents
+// ============================================================================
+
+export function createScriptedAgent(spec: ScriptedAgentSpec): SimulatedAgent {
+  const behavior = spec.respond ? "custom" : spec.fixtureBody !== undefined ? "fixture" : (spec.behavior ?? "template");
+
+  return {
+    name: spec.name,
+    role: spec.role,
+    behavior,
+    respond(kickoff) {
+      const digest = digestKickoff(kickoff);
+      if (spec.respond) return spec.respond(kickoff, digest);
+      if (behavior === "silent") return null;
+      if (!digest.deltaTag) {
+        throw new Error(`Kickoff for ${spec.name} does not ask for a DELTA[...] reply (no "## Response Format" tag).`);
+      }
+
+      const subject = (description: string) => `DELTA[${digest.deltaTag}]: ${description}`;
+      if (behavior === "fixture") return { subject: subject(`${spec.name} (fixture)`), body: spec.fixtureBody ?? "" };
+
+      const deltas = generateRoleDeltas(spec.role, digest);
+      const prose = `${spec.name} (${spec.role}) contributions for ${digest.threadId}.`;
+      switch (behavior) {
+        case "no-blocks":
+          return { subject: subject(`${spec.role} notes`), body: renderDeltaReply(prose, []) };
+        case "malformed":
+          return { subject: subject(`${spec.role} contributions`), body: renderDeltaReply(prose, malformDeltaBlocks(deltas)) };
+        default:
+          return {
+            subject: subject(`${spec.role} contributions`),
+            body: renderDeltaReply(prose, deltas.map((delta) => JSON.stringify(delta, null, 2))),
+          };
+      }
+    },
+  };
+}
@@ -0,0 +1,90 @@
+import { describe, expect, it, beforeEach, afterEach } from "vitest";
+import { join } from "node:path";
+import { promises as fs } from "node:fs";
+import { tmpdir } from "node:os";
+import { randomUUID } from "node:crypto";
+import { runEntryFromResult, type ExperimentRunEntry } from "../schemas/experiment-run";
+import { ExperimentRunStorage } from "./experiment-run-storage";
+
+describe("ExperimentRunStorage", () => {
+  let baseDir: string;
+
+  beforeEach(async () => {
+    baseDir = join(tmpdir(), `experiment-run-storage-test-${randomUUID()}`);
+    await fs.mkdir(baseDir, { recursive: true });
+  });
+
+  afterEach(async () => {
+    if (baseDir) {
+      await fs.rm(baseDir, { recursive: true, force: true }).catch(() => {});
+    }
+  });
+
+  const makeRun = (overrides: { resultId: string; testId?: string; threadId?: string; startedAt: string }) =>
+    runEntryFromResult(
+      {
+        result_id: overrides.resultId,
+        capture_mode: "run",
+        thread_id: overrides.threadId ?? "RS-TEST",
+        test_id: overrides.testId ?? "T-TEST-001",
+        created_at: overrides.startedAt,
+        started_at: overrides.startedAt,
+        argv: ["bun", "run.ts"],
+        timed_out: false,
+        exit_code: 0,
+        duration_ms: 500,
+        stdout: "",
+        runtime: { platform: "linux", arch: "x64", bun_version: "1.3.0" },
+      },
+      `artifacts/RS-TEST/experiments/T-TEST-001/${overrides.resultId}.json`
+    );
+
+  it("returns an empty history when no log exists", async () => {
+    const storage = new ExperimentRunStorage({ baseDir });
+    expect(await storage.loadRuns("T-TEST-001")).toEqual({ runs: [], warnings: [] });
+    expect(await storage.listTestIds()).toEqual([]);
+  });
+
+  it("appends runs without rewriting earlier lines and ignores duplicate result ids", async () => {
+    const storage = new ExperimentRunStorage({ baseDir });
+    const first = makeRun({ resultId: "r1", startedAt: "2026-10-19T10:00:00.000Z" });
+    const second = makeRun({ resultId: "r2", startedAt: "2026-10-19T11:00:00.000Z" });
+
+    expect(await storage.appendRun(second)).toBe(true);
+    const afterOne = await fs.readFile(storage.getRunLogPath("T-TEST-001"), "utf-8");
+    expect(await storage.appendRun(first)).toBe(true);
+    expect(await storage.appendRun(first)).toBe(false);
+
+    const content = await fs.readFile(storage.getRunLogPath("T-TEST-001"), "utf-8");
+    expect(content.startsWith(afterOne)).toBe(true);
+    expect(content.trim().split("\n")).toHaveLength(2);
+
+    const { runs } = await storage.loadRuns("T-TEST-001");
+    expect(runs.map((r) => r.result_id)).toEqual(["r1", "r2"]);
+  });
+
+  it("skips corrupt lines with warnings", async () => {
+    const storage = new ExperimentRunStorage({ baseDir });
+    await storage.appendRun(makeRun({ resultId: "r1", startedAt: "2026-10-19T10:00:00.000Z" }));
+    await fs.appendFile(storage.getRunLogPath("T-TEST-001"), "{not json\n");
+
+    const { runs, warnings } = await storage.loadRuns("T-TEST-001");
+    expect(runs).toHaveLength(1);
+    expect(warnings).toEqual([{ file: storage.getRunLogPath("T-TEST-001"), message: "Line 2: invalid JSON" }]);
+  });
+
+  it("groups a thread's runs by test", async () => {
+    const storage = new ExperimentRunStorage({ baseDir });
+    const runs: ExperimentRunEntry[] = [
+      makeRun({ resultId: "r1", testId: "T-TEST-001", startedAt: "2026-10-19T10:00:00.000Z" }),
+      makeRun({ resultId: "r2", testId: "T/odd id", startedAt: "2026-10-19T10:00:00.000Z" }),
+      makeRun({ resultId: "r3", testId: "T-TEST-001", threadId: "RS-OTHER", startedAt: "2026-10-19T10:00:00.000Z" }),
+    ];
+    for (const run of runs) await storage.appendRun(run);
+
+    expect(await storage.listTestIds()).toEqual(["T-TEST-001", "T/odd id"]);
+    const byTest = await storage.loadRunsForThread("RS-TEST");
+    expect([...byTest.keys()]).toEqual(["T-TEST-001", "T/odd id"]);
+    expect(byTest.get("T-TEST-001")?.map((r) => r.result_id)).toEqual(["r1"]);
+  });
+});
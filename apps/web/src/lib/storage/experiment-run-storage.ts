@@ -0,0 +1,182 @@
+import { promises as fs } from "fs";
+import { join } from "path";
+import { type ExperimentRunEntry, ExperimentRunEntrySchema } from "../schemas/experiment-run";
+import { withFileLock } from "./file-lock";
+
+/**
+ * Experiment Run Log Storage Layer
+ *
+ * Append-only JSONL log of experiment runs, one file per test so a test's
+ * history survives across threads. Existing lines are never rewritten.
+ *
+ * Storage structure:
+ * .research/
+ * └── experiment-runs/
+ *     ├── T-RS-20251230-001-runs.jsonl
+ *     └── ...
+ *
+ * @see schemas/experiment-run.ts
+ */
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const RESEARCH_DIR = ".research";
+const RUNS_DIR = "experiment-runs";
+const RUNS_FILE_SUFFIX = "-runs.jsonl";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface StorageWarning {
+  file: string;
+  message: string;
+}
+
+export interface RunLogReadResult {
+  runs: ExperimentRunEntry[];
+  warnings: StorageWarning[];
+}
+
+/**
+ * Storage configuration.
+ */
+export interface ExperimentRunStorageConfig {
+  /** Base directory for storage (defaults to cwd) */
+  baseDir?: string;
+}
+
+// ============================================================================
+// Path Helpers
+// ============================================================================
+
+function getRunsDir(baseDir: string): string {
+  return join(baseDir, RESEARCH_DIR, RUNS_DIR);
+}
+
+function getRunLogPath(baseDir: string, testId: string): string {
+  const sanitized = testId.replace(/[^a-zA-Z0-9_.-]/g, "_");
+  return join(getRunsDir(baseDir), `${sanitized}${RUNS_FILE_SUFFIX}`);
+}
+
+// ============================================================================
+// Storage Class
+// ============================================================================
+
+/**
+ * Experiment run log manager.
+ * Appends run entries and reads per-test histories.
+ */
+export class ExperimentRunStorage {
+  private baseDir: string;
+
+  constructor(config: ExperimentRunStorageConfig = {}) {
+    this.baseDir = config.baseDir ?? process.cwd();
+  }
+
+  /**
+   * Path of the log file for a test.
+   */
+  getRunLogPath(testId: string): string {
+    return getRunLogPath(this.baseDir, testId);
+  }
+
+  /**
+   * Append a run to its test's log.
+   *
+   * @returns false if a run with the same result_id is already logged
+   */
+  async appendRun(entry: ExperimentRunEntry): Promise<boolean> {
+    const validated = ExperimentRunEntrySchema.parse(entry);
+
+    return await withFileLock(this.baseDir, "experiment-runs", async () => {
+      const { runs } = await this.loadRuns(validated.test_id);
+      if (runs.some((r) => r.result_id === validated.result_id)) return false;
+
+      await fs.mkdir(getRunsDir(this.baseDir), { recursive: true });
+      await fs.appendFile(this.getRunLogPath(validated.test_id), `${JSON.stringify(validated)}\n`);
+      return true;
+    });
+  }
+
+  /**
+   * Load all runs of a test, oldest first.
+   * Unparseable lines are skipped and reported as warnings.
+   */
+  async loadRuns(testId: string): Promise<RunLogReadResult> {
+    const filePath = this.getRunLogPath(testId);
+
+    let content: string;
+    try {
+      content = await fs.readFile(filePath, "utf-8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return { runs: [], warnings: [] };
+      }
+      throw error;
+    }
+
+    const runs: ExperimentRunEntry[] = [];
+    const warnings: StorageWarning[] = [];
+    content.split("\n").forEach((line, index) => {
+      if (!line.trim()) return;
+      try {
+        const parsed = ExperimentRunEntrySchema.safeParse(JSON.parse(line));
+        if (parsed.success && parsed.data.test_id === testId) {
+          runs.push(parsed.data);
+        } else {
+          warnings.push({ file: filePath, message: `Line ${index + 1}: not a valid run entry for ${testId}` });
+        }
+      } catch {
+        warnings.push({ file: filePath, message: `Line ${index + 1}: invalid JSON` });
+      }
+    });
+
+    runs.sort((a, b) => a.run_at.localeCompare(b.run_at));
+    return { runs, warnings };
+  }
+
+  /**
+   * List the test IDs that have a run log.
+   */
+  async listTestIds(): Promise<string[]> {
+    let files: string[];
+    try {
+      files = await fs.readdir(getRunsDir(this.baseDir));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+      throw error;
+    }
+
+    const testIds = new Set<string>();
+    for (const file of files.filter((f) => f.endsWith(RUNS_FILE_SUFFIX))) {
+      // File names are sanitized; the first entry carries the real test ID
+      const content = await fs.readFile(join(getRunsDir(this.baseDir), file), "utf-8");
+      const firstLine = content.split("\n").find((line) => line.trim());
+      if (!firstLine) continue;
+      try {
+        const parsed = ExperimentRunEntrySchema.safeParse(JSON.parse(firstLine));
+        if (parsed.success) testIds.add(parsed.data.test_id);
+      } catch {
+        // Skip unreadable logs
+      }
+    }
+
+    return [...testIds].sort();
+  }
+
+  /**
+   * Load the runs recorded for a thread, grouped by test ID.
+   */
+  async loadRunsForThread(threadId: string): Promise<Map<string, ExperimentRunEntry[]>> {
+    const byTest = new Map<string, ExperimentRunEntry[]>();
+    for (const testId of await this.listTestIds()) {
+      const { runs } = await this.loadRuns(testId);
+      const threadRuns = runs.filter((r) => r.thread_id === threadId);
+      if (threadRuns.length > 0) byTest.set(testId, threadRuns);
+    }
+    return byTest;
+  }
+}
@@ -659,6 +659,8 @@ export class InterventionStorage {
       decision_override: 0,
       session_control: 0,
       role_reassignment: 0,
+      conflict_resolution: 0,
+      auto_transition: 0,
     };
 
     let reversed = 0;
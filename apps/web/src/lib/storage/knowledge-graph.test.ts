@@ -0,0 +1,296 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { promises as fs } from "fs";
+import { join } from "path";
+import { tmpdir } from "os";
+
+import {
+  KnowledgeGraphAggregator,
+  buildKnowledgeGraph,
+  findNeighbors,
+  findUnderminingAssumptions,
+  queryEdges,
+  traceLineage,
+} from "./knowledge-graph";
+import { HypothesisStorage } from "./hypothesis-storage";
+import { AssumptionStorage } from "./assumption-storage";
+import { AnomalyStorage } from "./anomaly-storage";
+import { CritiqueStorage } from "./critique-storage";
+import { TestStorage } from "./test-storage";
+
+import { createHypothesis, HypothesisSchema, type Hypothesis } from "../schemas/hypothesis";
+import { createAssumption, AssumptionSchema } from "../schemas/assumption";
+import { createAnomaly, AnomalySchema } from "../schemas/anomaly";
+import { createCritique } from "../schemas/critique";
+import { createTestRecord, TestRecordSchema } from "../schemas/test-record";
+
+/**
+ * Tests for the cross-session knowledge graph.
+ *
+ * Uses real storage layers and writes to a temp directory (no mocks).
+ */
+
+let testDir: string;
+
+async function createTestDir(): Promise<string> {
+  const dir = join(
+    tmpdir(),
+    `knowledge-graph-test-${Date.now()}-${Math.random().toString(36).slice(2)}`
+  );
+  await fs.mkdir(dir, { recursive: true });
+  return dir;
+}
+
+beforeEach(async () => {
+  testDir = await createTestDir();
+});
+
+const S1 = "RS-20260101";
+const S2 = "RS-20260102";
+
+function hypothesis(
+  id: string,
+  sessionId: string,
+  overrides: Partial<Hypothesis> = {}
+): Hypothesis {
+  return HypothesisSchema.parse({
+    ...createHypothesis({
+      id,
+      statement: `Statement for ${id}`,
+      sessionId,
+      category: "mechanistic",
+      mechanism: "Some mechanism.",
+    }),
+    ...overrides,
+  });
+}
+
+function killingTest(id: string, sessionId: string, discriminates: [string, string], matched: string) {
+  return TestRecordSchema.parse({
+    ...createTestRecord({
+      id,
+      name: `Discriminating test ${id}`,
+      procedure: "A sufficiently detailed procedure for a discriminative test.",
+      discriminates,
+      expectedOutcomes: discriminates.map((hypothesisId, index) => ({
+        hypothesisId,
+        outcome: `Outcome ${index}`,
+        resultType: index === 0 ? "positive" : "negative",
+      })),
+      potencyCheck: { positiveControl: "A specific positive control that is long enough." },
+      evidencePerWeekScore: { likelihoodRatio: 3, cost: 2, speed: 2, ambiguity: 3 },
+      feasibility: { requirements: "Standard lab equipment", difficulty: "easy" },
+      designedInSession: sessionId,
+    }),
+    status: "completed",
+    execution: {
+      startedAt: "2026-01-02T10:00:00Z",
+      completedAt: "2026-01-02T12:00:00Z",
+      observedOutcome: "Outcome 0",
+      potencyCheckPassed: true,
+      matchedHypothesisId: matched,
+    },
+  });
+}
+
+async function seedProgram(): Promise<void> {
+  const hypothesisStorage = new HypothesisStorage({ baseDir: testDir });
+  const assumptionStorage = new AssumptionStorage({ baseDir: testDir });
+  const anomalyStorage = new AnomalyStorage({ baseDir: testDir });
+  const critiqueStorage = new CritiqueStorage({ baseDir: testDir });
+  const testStorage = new TestStorage({ baseDir: testDir });
+
+  // Session 1: H1 vs H2, a test kills H2, an anomaly conflicts with H1
+  const h1 = hypothesis("H-RS-20260101-001", S1, { state: "active", linkedAssumptions: ["A-RS-20260101-001"] });
+  const h2 = hypothesis("H-RS-20260101-002", S1, { state: "refuted" });
+  await hypothesisStorage.saveSessionHypotheses(S1, [h1, h2]);
+
+  const a1 = AssumptionSchema.parse({
+    ...createAssumption({
+      id: "A-RS-20260101-001",
+      statement: "Background assumption that later turns out false.",
+      type: "background",
+      sessionId: S1,
+      load: { affectedHypotheses: [], affectedTests: [], description: "Everything downstream." },
+    }),
+    status: "falsified",
+  });
+  const a2 = AssumptionSchema.parse({
+    ...createAssumption({
+      id: "A-RS-20260101-002",
+      statement: "Methodological assumption resting on A1.",
+      type: "methodological",
+      sessionId: S1,
+      load: {
+        affectedHypotheses: ["H-RS-20260102-001"],
+        affectedTests: [],
+        description: "Refined hypothesis depends on this.",
+      },
+      dependsOn: ["A-RS-20260101-001"],
+    }),
+    status: "verified",
+  });
+  await assumptionStorage.saveSessionAssumptions(S1, [a1, a2]);
+
+  const x1 = AnomalySchema.parse({
+    ...createAnomaly({
+      id: "X-RS-20260101-001",
+      name: "Unexpected persistence",
+      observation: "The effect persists after the supposed cause is removed.",
+      source: { type: "experiment" },
+      conflictsWith: {
+        hypotheses: ["H-RS-20260101-001"],
+        assumptions: [],
+        description: "H1 predicts the effect vanishes.",
+      },
+      sessionId: S1,
+    }),
+    spawnedHypotheses: ["H-RS-20260102-002"],
+  });
+  await anomalyStorage.saveSessionAnomalies(S1, [x1]);
+
+  await testStorage.saveSessionTests(S1, [
+    killingTest("T-RS-20260101-001", S1, ["H-RS-20260101-001", "H-RS-20260101-002"], "H-RS-20260101-001"),
+  ]);
+
+  // Session 2: a refinement of H1, and a hypothesis spawned from X1
+  const h3 = hypothesis("H-RS-20260102-001", S2, {
+    state: "proposed",
+    origin: "refinement",
+    parentId: "H-RS-20260101-001",
+  });
+  const h4 = hypothesis("H-RS-20260102-002", S2, {
+    state: "active",
+    origin: "anomaly_spawned",
+    spawnedFromAnomaly: "X-RS-20260101-001",
+  });
+  await hypothesisStorage.saveSessionHypotheses(S2, [h3, h4]);
+
+  const c1 = createCritique({
+    id: "C-RS-20260102-001",
+    targetType: "hypothesis",
+    targetId: "H-RS-20260102-002",
+    attack: "The anomaly-spawned hypothesis ignores measurement drift.",
+    evidenceToConfirm: "Drift-corrected rerun shows no effect.",
+    severity: "moderate",
+    sessionId: S2,
+  });
+  await critiqueStorage.saveSessionCritiques(S2, [c1]);
+}
+
+describe("buildKnowledgeGraph", () => {
+  it("derives typed edges from links on both sides and deduplicates them", () => {
+    const h1 = hypothesis("H-RS-20260101-001", S1, { linkedAssumptions: ["A-RS-20260101-001"] });
+    const a1 = createAssumption({
+      id: "A-RS-20260101-001",
+      statement: "An assumption referenced from both sides.",
+      type: "background",
+      sessionId: S1,
+      load: { affectedHypotheses: ["H-RS-20260101-001"], affectedTests: [], description: "H1" },
+    });
+
+    const graph = buildKnowledgeGraph({ hypotheses: [h1], assumptions: [a1] });
+
+    expect(graph.nodes.map((node) => node.id)).toEqual(["A-RS-20260101-001", "H-RS-20260101-001"]);
+    expect(graph.edges).toEqual([{ from: "H-RS-20260101-001", to: "A-RS-20260101-001", type: "assumes" }]);
+    expect(graph.danglingRefs).toEqual([]);
+  });
+
+  it("reports references to artifacts missing from every registry", () => {
+    const orphan = hypothesis("H-RS-20260101-003", S1, { parentId: "H-RS-20251231-009" });
+
+    const graph = buildKnowledgeGraph({ hypotheses: [orphan] });
+
+    expect(queryEdges(graph, { type: "refines" })).toHaveLength(1);
+    expect(graph.danglingRefs).toEqual(["H-RS-20251231-009"]);
+  });
+
+  it("only records kills for completed tests that passed their potency check", () => {
+    const potent = killingTest("T-RS-20260101-001", S1, ["H-RS-20260101-001", "H-RS-20260101-002"], "H-RS-20260101-001");
+    const impotent = TestRecordSchema.parse({
+      ...killingTest("T-RS-20260101-002", S1, ["H-RS-20260101-001", "H-RS-20260101-002"], "H-RS-20260101-002"),
+      execution: { ...potent.execution!, potencyCheckPassed: false, matchedHypothesisId: "H-RS-20260101-002" },
+    });
+
+    const graph = buildKnowledgeGraph({ tests: [potent, impotent] });
+
+    expect(queryEdges(graph, { type: "kills" })).toEqual([
+      { from: "T-RS-20260101-001", to: "H-RS-20260101-002", type: "kills" },
+    ]);
+  });
+});
+
+describe("KnowledgeGraphAggregator", () => {
+  it("joins registries across sessions", async () => {
+    await seedProgram();
+
+    const graph = await new KnowledgeGraphAggregator({ baseDir: testDir }).build();
+
+    const sessions = new Set(graph.nodes.map((node) => node.sessionId));
+    expect(sessions).toEqual(new Set([S1, S2]));
+    expect(graph.nodes).toHaveLength(9);
+
+    expect(queryEdges(graph, { type: "refines" })).toEqual([
+      { from: "H-RS-20260102-001", to: "H-RS-20260101-001", type: "refines" },
+    ]);
+    expect(queryEdges(graph, { type: "spawned_from" })).toEqual([
+      { from: "H-RS-20260102-002", to: "X-RS-20260101-001", type: "spawned_from" },
+    ]);
+    expect(queryEdges(graph, { type: "kills", to: "H-RS-20260101-002" })).toHaveLength(1);
+    expect(queryEdges(graph, { type: "critiques" })).toEqual([
+      { from: "C-RS-20260102-001", to: "H-RS-20260102-002", type: "critiques" },
+    ]);
+    expect(queryEdges(graph, { type: "conflicts_with", from: "X-RS-20260101-001" })).toHaveLength(1);
+  });
+
+  it("returns an empty graph when nothing has been recorded", async () => {
+    const graph = await new KnowledgeGraphAggregator({ baseDir: testDir }).build();
+
+    expect(graph.nodes).toEqual([]);
+    expect(graph.edges).toEqual([]);
+  });
+});
+
+describe("knowledge graph queries", () => {
+  it("finds falsified assumptions that still underpin live hypotheses, transitively", async () => {
+    await seedProgram();
+    const graph = await new KnowledgeGraphAggregator({ baseDir: testDir }).build();
+
+    const undermining = findUnderminingAssumptions(graph);
+
+    expect(undermining).toHaveLength(1);
+    expect(undermining[0].assumption.id).toBe("A-RS-20260101-001");
+    expect(undermining[0].hypotheses.map((h) => h.id).sort()).toEqual([
+      "H-RS-20260101-001",
+      "H-RS-20260102-001",
+    ]);
+  });
+
+  it("traces lineage through refinements, anomalies, and what they conflicted with", async () => {
+    await seedProgram();
+    const graph = await new KnowledgeGraphAggregator({ baseDir: testDir }).build();
+
+    const lineage = traceLineage(graph, "H-RS-20260102-002");
+
+    expect(lineage.map((step) => [step.node.id, step.depth, step.via?.type])).toEqual([
+      ["H-RS-20260102-002", 0, undefined],
+      ["X-RS-20260101-001", 1, "spawned_from"],
+      ["H-RS-20260101-001", 2, "conflicts_with"],
+    ]);
+    expect(traceLineage(graph, "H-RS-20991231-001")).toEqual([]);
+  });
+
+  it("collects neighbors up to the requested depth", async () => {
+    await seedProgram();
+    const graph = await new KnowledgeGraphAggregator({ baseDir: testDir }).build();
+
+    const oneHop = findNeighbors(graph, "X-RS-20260101-001");
+    expect(oneHop.nodes.map((node) => node.id).sort()).toEqual([
+      "H-RS-20260101-001",
+      "H-RS-20260102-002",
+      "X-RS-20260101-001",
+    ]);
+
+    const twoHops = findNeighbors(graph, "X-RS-20260101-001", 2);
+    expect(twoHops.nodes.map((node) => node.id)).toContain("C-RS-20260102-001");
+  });
+});
@@ -0,0 +1,439 @@
+import { HypothesisStorage } from "./hypothesis-storage";
+import { AssumptionStorage } from "./assumption-storage";
+import { AnomalyStorage } from "./anomaly-storage";
+import { CritiqueStorage } from "./critique-storage";
+import { TestStorage } from "./test-storage";
+import type { Hypothesis } from "../schemas/hypothesis";
+import type { Assumption } from "../schemas/assumption";
+import type { Anomaly } from "../schemas/anomaly";
+import type { Critique } from "../schemas/critique";
+import type { TestRecord } from "../schemas/test-record";
+
+/**
+ * Cross-Session Knowledge Graph
+ *
+ * Joins the hypothesis, assumption, anomaly, critique, and test registries
+ * across every session into a single typed graph, so questions that span
+ * sessions ("which falsified assumptions still underpin active hypotheses?",
+ * "what lineage led to this hypothesis?") can be answered in one place.
+ *
+ * Edges point from the dependent artifact to the one it depends on or acts
+ * upon (a refinement points at its parent, a test points at the hypothesis
+ * it killed).
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type GraphNodeKind = "hypothesis" | "assumption" | "anomaly" | "critique" | "test";
+
+export type GraphEdgeType =
+  | "refines"
+  | "kills"
+  | "assumes"
+  | "conflicts_with"
+  | "critiques"
+  | "spawned_from";
+
+export const GRAPH_EDGE_TYPES: readonly GraphEdgeType[] = [
+  "refines",
+  "kills",
+  "assumes",
+  "conflicts_with",
+  "critiques",
+  "spawned_from",
+];
+
+export interface GraphNode {
+  id: string;
+  kind: GraphNodeKind;
+  sessionId: string;
+  /** Short human-readable label (statement, name, attack, ...) */
+  label: string;
+  /** Lifecycle status (hypothesis state, assumption status, ...) */
+  status: string;
+}
+
+export interface GraphEdge {
+  from: string;
+  to: string;
+  type: GraphEdgeType;
+}
+
+export interface KnowledgeGraph {
+  generatedAt: string;
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+  /** Edge endpoints referenced by an artifact but not present in any registry */
+  danglingRefs: string[];
+}
+
+export interface KnowledgeGraphInput {
+  hypotheses?: Hypothesis[];
+  assumptions?: Assumption[];
+  anomalies?: Anomaly[];
+  critiques?: Critique[];
+  tests?: TestRecord[];
+}
+
+export interface EdgeFilter {
+  type?: GraphEdgeType;
+  from?: string;
+  to?: string;
+}
+
+/**
+ * A falsified assumption that a still-live hypothesis depends on.
+ */
+export interface UnderminingAssumption {
+  assumption: GraphNode;
+  hypotheses: GraphNode[];
+}
+
+export interface LineageStep {
+  node: GraphNode;
+  /** Distance from the queried hypothesis (0 = the hypothesis itself) */
+  depth: number;
+  /** Edge that led here from the previous step (absent for the root) */
+  via?: GraphEdge;
+}
+
+export interface KnowledgeGraphAggregatorConfig {
+  /** Base directory for storage (defaults to cwd) */
+  baseDir?: string;
+}
+
+// ============================================================================
+// Construction
+// ============================================================================
+
+const LIVE_HYPOTHESIS_STATES = new Set(["proposed", "active"]);
+
+/**
+ * Truncate a string with ellipsis only if it exceeds maxLength.
+ */
+function truncate(str: string, maxLength: number): string {
+  if (str.length <= maxLength) {
+    return str;
+  }
+  return str.substring(0, maxLength) + "...";
+}
+
+/**
+ * Build the knowledge graph from already-loaded registry contents.
+ *
+ * Links are read from both sides where the schemas duplicate them (e.g.
+ * `Hypothesis.linkedAssumptions` and `Assumption.load.affectedHypotheses`),
+ * then deduplicated.
+ */
+export function buildKnowledgeGraph(input: KnowledgeGraphInput): KnowledgeGraph {
+  const hypotheses = input.hypotheses ?? [];
+  const assumptions = input.assumptions ?? [];
+  const anomalies = input.anomalies ?? [];
+  const critiques = input.critiques ?? [];
+  const tests = input.tests ?? [];
+
+  const nodes = new Map<string, GraphNode>();
+  const edges = new Map<string, GraphEdge>();
+
+  const addNode = (node: GraphNode) => {
+    nodes.set(node.id, node);
+  };
+  const addEdge = (from: string, to: string, type: GraphEdgeType) => {
+    if (from === to) return;
+    edges.set(`${type}:${from}->${to}`, { from, to, type });
+  };
+
+  for (const h of hypotheses) {
+    addNode({
+      id: h.id,
+      kind: "hypothesis",
+      sessionId: h.sessionId,
+      label: truncate(h.statement, 120),
+      status: h.state,
+    });
+  }
+  for (const a of assumptions) {
+    addNode({
+      id: a.id,
+      kind: "assumption",
+      sessionId: a.sessionId,
+      label: truncate(a.statement, 120),
+      status: a.status,
+    });
+  }
+  for (const x of anomalies) {
+    addNode({
+      id: x.id,
+      kind: "anomaly",
+      sessionId: x.sessionId,
+      label: truncate(x.name ?? x.observation, 120),
+      status: x.quarantineStatus,
+    });
+  }
+  for (const c of critiques) {
+    addNode({
+      id: c.id,
+      kind: "critique",
+      sessionId: c.sessionId,
+      label: truncate(c.attack, 120),
+      status: c.status,
+    });
+  }
+  for (const t of tests) {
+    addNode({
+      id: t.id,
+      kind: "test",
+      sessionId: t.designedInSession,
+      label: truncate(t.name, 120),
+      status: t.status,
+    });
+  }
+
+  // Hypotheses
+  for (const h of hypotheses) {
+    if (h.parentId) addEdge(h.id, h.parentId, "refines");
+    if (h.spawnedFromAnomaly) addEdge(h.id, h.spawnedFromAnomaly, "spawned_from");
+    for (const aId of h.linkedAssumptions ?? []) addEdge(h.id, aId, "assumes");
+    for (const xId of h.linkedAnomalies ?? []) addEdge(xId, h.id, "conflicts_with");
+  }
+
+  // Assumptions
+  for (const a of assumptions) {
+    for (const hId of a.load.affectedHypotheses) addEdge(hId, a.id, "assumes");
+    for (const tId of a.load.affectedTests) addEdge(tId, a.id, "assumes");
+    for (const depId of a.dependsOn ?? []) addEdge(a.id, depId, "assumes");
+  }
+
+  // Anomalies
+  for (const x of anomalies) {
+    for (const hId of x.conflictsWith.hypotheses) addEdge(x.id, hId, "conflicts_with");
+    for (const aId of x.conflictsWith.assumptions) addEdge(x.id, aId, "conflicts_with");
+    for (const hId of x.spawnedHypotheses ?? []) addEdge(hId, x.id, "spawned_from");
+  }
+
+  // Critiques
+  for (const c of critiques) {
+    if (c.targetId) addEdge(c.id, c.targetId, "critiques");
+    if (c.response?.newTestId) addEdge(c.response.newTestId, c.id, "spawned_from");
+  }
+
+  // Tests: a completed, potent test kills every discriminated hypothesis
+  // whose prediction was not the one matched.
+  for (const t of tests) {
+    for (const aId of t.requiredAssumptions ?? []) addEdge(t.id, aId, "assumes");
+
+    const execution = t.execution;
+    if (t.status !== "completed" || !execution?.matchedHypothesisId || !execution.potencyCheckPassed) {
+      continue;
+    }
+    for (const hId of t.discriminates) {
+      if (hId !== execution.matchedHypothesisId) addEdge(t.id, hId, "kills");
+    }
+  }
+
+  const edgeList = Array.from(edges.values());
+  const dangling = new Set<string>();
+  for (const edge of edgeList) {
+    if (!nodes.has(edge.from)) dangling.add(edge.from);
+    if (!nodes.has(edge.to)) dangling.add(edge.to);
+  }
+
+  return {
+    generatedAt: new Date().toISOString(),
+    nodes: Array.from(nodes.values()).sort((a, b) => a.id.localeCompare(b.id)),
+    edges: edgeList,
+    danglingRefs: Array.from(dangling).sort(),
+  };
+}
+
+// ============================================================================
+// Queries
+// ============================================================================
+
+/**
+ * Filter edges by type and/or endpoint.
+ */
+export function queryEdges(graph: KnowledgeGraph, filter: EdgeFilter = {}): GraphEdge[] {
+  return graph.edges.filter(
+    (edge) =>
+      (filter.type === undefined || edge.type === filter.type) &&
+      (filter.from === undefined || edge.from === filter.from) &&
+      (filter.to === undefined || edge.to === filter.to)
+  );
+}
+
+/**
+ * Falsified assumptions that still underpin proposed or active hypotheses.
+ *
+ * Follows `assumes` edges transitively, so a hypothesis resting on an
+ * assumption that itself depends on a falsified one is included.
+ */
+export function findUnderminingAssumptions(graph: KnowledgeGraph): UnderminingAssumption[] {
+  const nodeById = new Map(graph.nodes.map((node) => [node.id, node]));
+  const assumesFrom = new Map<string, string[]>();
+  for (const edge of graph.edges) {
+    if (edge.type !== "assumes") continue;
+    const targets = assumesFrom.get(edge.from) ?? [];
+    targets.push(edge.to);
+    assumesFrom.set(edge.from, targets);
+  }
+
+  const results = new Map<string, GraphNode[]>();
+
+  for (const hypothesis of graph.nodes) {
+    if (hypothesis.kind !== "hypothesis" || !LIVE_HYPOTHESIS_STATES.has(hypothesis.status)) continue;
+
+    const visited = new Set<string>();
+    const queue = [...(assumesFrom.get(hypothesis.id) ?? [])];
+    while (queue.length > 0) {
+      const id = queue.shift()!;
+      if (visited.has(id)) continue;
+      visited.add(id);
+
+      const node = nodeById.get(id);
+      if (node?.kind === "assumption" && node.status === "falsified") {
+        const list = results.get(id) ?? [];
+        list.push(hypothesis);
+        results.set(id, list);
+      }
+      queue.push(...(assumesFrom.get(id) ?? []));
+    }
+  }
+
+  return Array.from(results.entries())
+    .map(([assumptionId, hypotheses]) => ({
+      assumption: nodeById.get(assumptionId)!,
+      hypotheses,
+    }))
+    .sort((a, b) => b.hypotheses.length - a.hypotheses.length || a.assumption.id.localeCompare(b.assumption.id));
+}
+
+/**
+ * Trace the ancestry of a hypothesis: the parents it refines, the anomalies
+ * it was spawned from, and the hypotheses those anomalies conflicted with.
+ *
+ * Returned breadth-first, starting with the hypothesis itself.
+ * Returns an empty list when the hypothesis is not in the graph.
+ */
+export function traceLineage(graph: KnowledgeGraph, hypothesisId: string): LineageStep[] {
+  const nodeById = new Map(graph.nodes.map((node) => [node.id, node]));
+  const root = nodeById.get(hypothesisId);
+  if (!root) return [];
+
+  const parentsOf = new Map<string, GraphEdge[]>();
+  for (const edge of graph.edges) {
+    if (edge.type === "refines" || edge.type === "spawned_from") {
+      const list = parentsOf.get(edge.from) ?? [];
+      list.push(edge);
+      parentsOf.set(edge.from, list);
+    }
+  }
+
+  const steps: LineageStep[] = [{ node: root, depth: 0 }];
+  const visited = new Set<string>([root.id]);
+  const queue: LineageStep[] = [steps[0]];
+
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    const upstream: Array<{ id: string; edge: GraphEdge }> = (parentsOf.get(current.node.id) ?? []).map(
+      (edge) => ({ id: edge.to, edge })
+    );
+
+    // An anomaly's ancestry is whatever it was found to conflict with
+    if (current.node.kind === "anomaly") {
+      for (const edge of graph.edges) {
+        if (edge.type === "conflicts_with" && edge.from === current.node.id) {
+          upstream.push({ id: edge.to, edge });
+        }
+      }
+    }
+
+    for (const { id, edge } of upstream) {
+      if (visited.has(id)) continue;
+      const node = nodeById.get(id);
+      if (!node) continue;
+      visited.add(id);
+      const step: LineageStep = { node, depth: current.depth + 1, via: edge };
+      steps.push(step);
+      queue.push(step);
+    }
+  }
+
+  return steps;
+}
+
+/**
+ * Nodes within `depth` hops of a node, following edges in either direction.
+ */
+export function findNeighbors(
+  graph: KnowledgeGraph,
+  nodeId: string,
+  depth = 1
+): { nodes: GraphNode[]; edges: GraphEdge[] } {
+  const nodeById = new Map(graph.nodes.map((node) => [node.id, node]));
+  const seen = new Set<string>([nodeId]);
+  const edgeSet = new Set<GraphEdge>();
+  let frontier = [nodeId];
+
+  for (let hop = 0; hop < depth && frontier.length > 0; hop++) {
+    const next: string[] = [];
+    for (const edge of graph.edges) {
+      const fromHit = frontier.includes(edge.from);
+      const toHit = frontier.includes(edge.to);
+      if (!fromHit && !toHit) continue;
+      edgeSet.add(edge);
+      const other = fromHit ? edge.to : edge.from;
+      if (!seen.has(other)) {
+        seen.add(other);
+        next.push(other);
+      }
+    }
+    frontier = next;
+  }
+
+  return {
+    nodes: Array.from(seen)
+      .map((id) => nodeById.get(id))
+      .filter((node): node is GraphNode => node !== undefined),
+    edges: Array.from(edgeSet),
+  };
+}
+
+// ============================================================================
+// Aggregator
+// ============================================================================
+
+export class KnowledgeGraphAggregator {
+  private hypothesisStorage: HypothesisStorage;
+  private assumptionStorage: AssumptionStorage;
+  private anomalyStorage: AnomalyStorage;
+  private critiqueStorage: CritiqueStorage;
+  private testStorage: TestStorage;
+
+  constructor(config: KnowledgeGraphAggregatorConfig = {}) {
+    const baseDir = config.baseDir ?? process.cwd();
+
+    this.hypothesisStorage = new HypothesisStorage({ baseDir });
+    this.assumptionStorage = new AssumptionStorage({ baseDir });
+    this.anomalyStorage = new AnomalyStorage({ baseDir });
+    this.critiqueStorage = new CritiqueStorage({ baseDir });
+    this.testStorage = new TestStorage({ baseDir });
+  }
+
+  /**
+   * Load every session's registries and build the graph.
+   */
+  async build(): Promise<KnowledgeGraph> {
+    const [hypotheses, assumptions, anomalies, critiques, tests] = await Promise.all([
+      this.hypothesisStorage.getAllHypotheses(),
+      this.assumptionStorage.getAllAssumptions(),
+      this.anomalyStorage.getAllAnomalies(),
+      this.critiqueStorage.getAllCritiques(),
+      this.testStorage.getAllTests(),
+    ]);
+
+    return buildKnowledgeGraph({ hypotheses, assumptions, anomalies, critiques, tests });
+  }
+}
@@ -0,0 +1,104 @@
+import { describe, expect, it, beforeEach, afterEach } from "vitest";
+import { join } from "node:path";
+import { promises as fs } from "node:fs";
+import { tmpdir } from "node:os";
+import { randomUUID } from "node:crypto";
+import { CURRENT_SESSION_VERSION, createSession, type Session } from "../brenner-loop/types";
+import { SessionConflictError, SessionStore } from "./session-store";
+
+describe("SessionStore", () => {
+  let baseDir: string;
+
+  beforeEach(async () => {
+    baseDir = join(tmpdir(), `session-store-test-${randomUUID()}`);
+    await fs.mkdir(baseDir, { recursive: true });
+  });
+
+  afterEach(async () => {
+    // Clean up temp directory to avoid inode exhaustion
+    if (baseDir) {
+      await fs.rm(baseDir, { recursive: true, force: true }).catch(() => {});
+    }
+  });
+
+  it("returns nothing for an empty project", async () => {
+    const store = new SessionStore({ baseDir });
+    expect(await store.get("SESSION-1")).toBeNull();
+    expect(await store.list()).toEqual([]);
+    expect((await store.stats()).sessionCount).toBe(0);
+  });
+
+  it("creates sessions at revision 1 and bumps the revision on each write", async () => {
+    const store = new SessionStore({ baseDir });
+    const session = createSession({ id: "SESSION-1", researchQuestion: "Why?" });
+
+    const first = await store.put(session, 0);
+    expect(first.revision).toBe(1);
+
+    const second = await store.put({ ...first.session, theme: "cells" }, 1);
+    expect(second.revision).toBe(2);
+
+    const loaded = await store.get("SESSION-1");
+    expect(loaded?.revision).toBe(2);
+    expect(loaded?.session.theme).toBe("cells");
+    expect(loaded?.updatedAt).toBe(loaded?.session.updatedAt);
+
+    const [summary] = await store.list();
+    expect(summary).toMatchObject({ id: "SESSION-1", revision: 2, researchQuestion: "Why?" });
+
+    const stats = await store.stats();
+    expect(stats.sessionCount).toBe(1);
+    expect(stats.totalSize).toBeGreaterThan(0);
+  });
+
+  it("migrates sessions from an older schema before storing them", async () => {
+    const store = new SessionStore({ baseDir });
+    const current = createSession({ id: "SESSION-1" });
+    const v1Applications: Partial<Session["operatorApplications"]> = { ...current.operatorApplications };
+    delete v1Applications.paradoxHunt;
+    delete v1Applications.theoryKill;
+    const v1 = { ...current, _version: 1, operatorApplications: v1Applications } as unknown as Session;
+
+    const stored = await store.put(v1, 0);
+    expect(stored.session._version).toBe(CURRENT_SESSION_VERSION);
+    expect(stored.session.operatorApplications.paradoxHunt).toEqual([]);
+    expect(stored.session.operatorApplications.theoryKill).toEqual([]);
+    expect((await store.get("SESSION-1"))?.session.operatorApplications.theoryKill).toEqual([]);
+  });
+
+  it("rejects stale writes with the winning record", async () => {
+    const store = new SessionStore({ baseDir });
+    const session = createSession({ id: "SESSION-1" });
+    await store.put(session, 0);
+    await store.put({ ...session, theme: "tab A" }, 1);
+
+    const error = await store.put({ ...session, theme: "tab B" }, 1).catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(SessionConflictError);
+    expect((error as SessionConflictError).code).toBe("CONFLICT");
+    expect((error as SessionConflictError).current?.session.theme).toBe("tab A");
+
+    // Creating a session that already exists is also a conflict.
+    await expect(store.put(session, 0)).rejects.toBeInstanceOf(SessionConflictError);
+    expect((await store.get("SESSION-1"))?.session.theme).toBe("tab A");
+  });
+
+  it("deletes sessions, optionally guarded by revision", async () => {
+    const store = new SessionStore({ baseDir });
+    await store.put(createSession({ id: "SESSION-1" }), 0);
+
+    await expect(store.delete("SESSION-1", 5)).rejects.toBeInstanceOf(SessionConflictError);
+    expect(await store.delete("SESSION-1", 1)).toBe(true);
+    expect(await store.delete("SESSION-1")).toBe(false);
+    expect(await store.list()).toEqual([]);
+  });
+
+  it("skips corrupted files when listing", async () => {
+    const store = new SessionStore({ baseDir });
+    await store.put(createSession({ id: "SESSION-1" }), 0);
+    await fs.writeFile(join(baseDir, ".research", "sessions", "broken.json"), "{not json");
+
+    const summaries = await store.list();
+    expect(summaries.map((s) => s.id)).toEqual(["SESSION-1"]);
+    await expect(store.get("broken")).rejects.toMatchObject({ code: "CORRUPTED_DATA" });
+  });
+});
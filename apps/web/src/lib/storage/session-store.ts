@@ -0,0 +1,279 @@
+import { promises as fs } from "fs";
+import { join } from "path";
+import { CURRENT_SESSION_VERSION, isSession, type Session } from "../brenner-loop/types";
+import {
+  StorageError,
+  createSessionSummary,
+  migrateSession,
+  type SessionSummary,
+  type StorageStats,
+} from "../brenner-loop/storage";
+import { withFileLock } from "./file-lock";
+
+/**
+ * Server-side Session Store
+ *
+ * File-based persistence for Brenner Loop sessions under a project key, so
+ * sessions survive browser resets and can be shared between machines.
+ * Each session lives in its own file wrapped in a revision envelope; writes
+ * use optimistic concurrency (callers pass the revision they last saw).
+ *
+ * Storage structure:
+ * .research/
+ * └── sessions/
+ *     └── {session_id}.json   # { revision, updatedAt, session }
+ */
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const RESEARCH_DIR = ".research";
+const SESSIONS_DIR = "sessions";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * A stored session with its concurrency metadata.
+ */
+export interface StoredSession {
+  /** Monotonic revision, starting at 1 on first write */
+  revision: number;
+  /** When this revision was written (mirrors session.updatedAt) */
+  updatedAt: string;
+  session: Session;
+}
+
+/**
+ * Session summary plus the revision needed for a follow-up write.
+ */
+export interface StoredSessionSummary extends SessionSummary {
+  revision: number;
+}
+
+/**
+ * Storage configuration.
+ */
+export interface SessionStoreConfig {
+  /** Base directory for storage (defaults to cwd) */
+  baseDir?: string;
+}
+
+/**
+ * Raised when a write's expected revision does not match the stored one.
+ * `current` is the record that won (null when it has been deleted).
+ */
+export class SessionConflictError extends StorageError {
+  constructor(
+    public readonly sessionId: string,
+    public readonly expectedRevision: number,
+    public readonly current: StoredSession | null
+  ) {
+    super(
+      `Session ${sessionId} changed on the server (expected revision ${expectedRevision}, found ${current?.revision ?? 0})`,
+      "CONFLICT"
+    );
+    this.name = "SessionConflictError";
+  }
+}
+
+// ============================================================================
+// Path Helpers
+// ============================================================================
+
+function sanitizeId(id: string): string {
+  return id.replace(/[^a-zA-Z0-9_.-]/g, "_");
+}
+
+function getSessionsDir(baseDir: string): string {
+  return join(baseDir, RESEARCH_DIR, SESSIONS_DIR);
+}
+
+function getSessionPath(baseDir: string, sessionId: string): string {
+  return join(getSessionsDir(baseDir), `${sanitizeId(sessionId)}.json`);
+}
+
+function lockName(sessionId: string): string {
+  return `session-${sanitizeId(sessionId)}`;
+}
+
+function parseStoredSession(content: string, filePath: string): StoredSession {
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch (error) {
+    throw new StorageError(`Corrupted session file: ${filePath}`, "CORRUPTED_DATA", error);
+  }
+
+  const record = data as Partial<StoredSession> | null;
+  if (
+    !record ||
+    typeof record.revision !== "number" ||
+    typeof record.updatedAt !== "string" ||
+    !isSession(record.session)
+  ) {
+    throw new StorageError(`Malformed session file: ${filePath}`, "CORRUPTED_DATA");
+  }
+
+  return { revision: record.revision, updatedAt: record.updatedAt, session: record.session };
+}
+
+// ============================================================================
+// Storage Class
+// ============================================================================
+
+/**
+ * File-backed session store with per-session revisions.
+ */
+export class SessionStore {
+  private baseDir: string;
+
+  constructor(config: SessionStoreConfig = {}) {
+    this.baseDir = config.baseDir ?? process.cwd();
+  }
+
+  /**
+   * Load a session with its revision.
+   */
+  async get(sessionId: string): Promise<StoredSession | null> {
+    const filePath = getSessionPath(this.baseDir, sessionId);
+    try {
+      const content = await fs.readFile(filePath, "utf-8");
+      return parseStoredSession(content, filePath);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+      throw error;
+    }
+  }
+
+  /**
+   * List stored sessions, most recently updated first.
+   * Corrupted files are skipped so one bad session does not hide the rest.
+   */
+  async list(): Promise<StoredSessionSummary[]> {
+    const dir = getSessionsDir(this.baseDir);
+    let files: string[];
+    try {
+      files = await fs.readdir(dir);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+      throw error;
+    }
+
+    const summaries: StoredSessionSummary[] = [];
+    for (const file of files) {
+      if (!file.endsWith(".json")) continue;
+      const filePath = join(dir, file);
+      try {
+        const record = parseStoredSession(await fs.readFile(filePath, "utf-8"), filePath);
+        summaries.push({ ...createSessionSummary(record.session), revision: record.revision });
+      } catch {
+        console.warn(`[SessionStore] Skipping unreadable session file ${filePath}`);
+      }
+    }
+
+    return summaries.sort((a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime());
+  }
+
+  /**
+   * Create or update a session.
+   *
+   * `expectedRevision` is the revision the caller last read (0 for a session
+   * it believes is new). A mismatch throws SessionConflictError and leaves
+   * the stored session untouched. Sessions from an older schema (e.g. an
+   * upload of a v1 localStorage session) are migrated before they are stored.
+   */
+  async put(session: Session, expectedRevision: number): Promise<StoredSession> {
+    if (!isSession(session)) {
+      throw new StorageError("Invalid session payload", "SERIALIZATION_ERROR");
+    }
+    if (session._version > CURRENT_SESSION_VERSION) {
+      throw new StorageError(
+        `Session schema v${session._version} is newer than supported (v${CURRENT_SESSION_VERSION})`,
+        "CORRUPTED_DATA"
+      );
+    }
+
+    return await withFileLock(this.baseDir, lockName(session.id), async () => {
+      const current = await this.get(session.id);
+      const currentRevision = current?.revision ?? 0;
+      if (currentRevision !== expectedRevision) {
+        throw new SessionConflictError(session.id, expectedRevision, current);
+      }
+
+      const updatedAt = new Date().toISOString();
+      const record: StoredSession = {
+        revision: currentRevision + 1,
+        updatedAt,
+        session: { ...migrateSession(session), updatedAt },
+      };
+
+      await fs.mkdir(getSessionsDir(this.baseDir), { recursive: true });
+      const filePath = getSessionPath(this.baseDir, session.id);
+      const tempPath = `${filePath}.${process.pid}.tmp`;
+      await fs.writeFile(tempPath, JSON.stringify(record, null, 2));
+      await fs.rename(tempPath, filePath);
+
+      return record;
+    });
+  }
+
+  /**
+   * Delete a session.
+   * When `expectedRevision` is given, the delete only succeeds if it matches.
+   *
+   * @returns true if a session was removed
+   */
+  async delete(sessionId: string, expectedRevision?: number): Promise<boolean> {
+    return await withFileLock(this.baseDir, lockName(sessionId), async () => {
+      const current = await this.get(sessionId);
+      if (expectedRevision !== undefined && (current?.revision ?? 0) !== expectedRevision) {
+        throw new SessionConflictError(sessionId, expectedRevision, current);
+      }
+      if (!current) return false;
+
+      await fs.rm(getSessionPath(this.baseDir, sessionId), { force: true });
+      return true;
+    });
+  }
+
+  /**
+   * Storage statistics, shaped like the browser storage stats.
+   * Remaining quota is the free space on the backing filesystem.
+   */
+  async stats(): Promise<StorageStats> {
+    const summaries = await this.list();
+    const dir = getSessionsDir(this.baseDir);
+
+    let totalSize = 0;
+    for (const summary of summaries) {
+      try {
+        totalSize += (await fs.stat(getSessionPath(this.baseDir, summary.id))).size;
+      } catch {
+        // Removed between list and stat
+      }
+    }
+
+    let remainingQuota = 0;
+    try {
+      const fsStats = await fs.statfs(summaries.length > 0 ? dir : this.baseDir);
+      remainingQuota = fsStats.bavail * fsStats.bsize;
+    } catch {
+      // statfs unsupported; report no known headroom
+    }
+
+    const byCreated = [...summaries].sort(
+      (a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
+    );
+
+    return {
+      sessionCount: summaries.length,
+      totalSize,
+      remainingQuota,
+      oldestSession: byCreated[0]?.createdAt,
+      newestSession: byCreated[byCreated.length - 1]?.createdAt,
+    };
+  }
+}
@@ -9,6 +9,7 @@ import {
   computeThreadStatus,
   parseSubjectType,
   extractVersion,
+  isArtifactDeltaMessage,
   inferRoleFromProgram,
   formatThreadStatusSummary,
   threadNeedsAttention,
@@ -111,6 +112,11 @@ describe("parseSubjectType", () => {
     expect(result.type).toBe("tribunal");
   });
 
+  it("parses DEBATE subjects", () => {
+    const result = parseSubjectType("DEBATE[DEBATE-RS-1-ab12cd34]: Round 2 (devils_advocate)");
+    expect(result.type).toBe("debate");
+  });
+
   it("parses COMPILED subjects", () => {
     const result = parseSubjectType("COMPILED: v3 artifact with contributions");
     expect(result.type).toBe("compiled");
@@ -184,6 +190,24 @@ describe("extractVersion", () => {
   });
 });
 
+// ============================================================================
+// isArtifactDeltaMessage Tests
+// ============================================================================
+
+describe("isArtifactDeltaMessage", () => {
+  it("selects DELTA replies and debate conclusions", () => {
+    expect(isArtifactDeltaMessage({ subject: "DELTA[gpt]: hypotheses" })).toBe(true);
+    expect(isArtifactDeltaMessage({ subject: "DEBATE[debate-1]: Conclusion" })).toBe(true);
+  });
+
+  it("ignores kickoffs, debate rounds and other traffic", () => {
+    expect(isArtifactDeltaMessage({ subject: "KICKOFF: [RS-1] Question" })).toBe(false);
+    expect(isArtifactDeltaMessage({ subject: "DEBATE[debate-1]: Round 1 (hypothesis_generator)" })).toBe(false);
+    expect(isArtifactDeltaMessage({ subject: "COMPILED: v1 artifact" })).toBe(false);
+    expect(isArtifactDeltaMessage({ subject: "INFO: status" })).toBe(false);
+  });
+});
+
 // ============================================================================
 // inferRoleFromProgram Tests
 // ============================================================================
@@ -911,7 +935,7 @@ describe("getPendingAgents", () => {
 // Round Tracking Tests
 // ============================================================================
 
-import { getMessagesInCurrentRound, getDeltaMessagesForCurrentRound } from "./threadStatus";
+import { getMessagesInCurrentRound, getDeltaMessagesForCurrentRound, getMessageRounds } from "./threadStatus";
 
 describe("round tracking", () => {
   it("reports round 0 before any COMPILED messages", () => {
@@ -1027,3 +1051,19 @@ describe("getDeltaMessagesForCurrentRound", () => {
     expect(deltas[0].subject).toContain("DELTA[opus]");
   });
 });
+
+describe("getMessageRounds", () => {
+  it("counts COMPILED messages posted before each message", () => {
+    const messages: AgentMailMessage[] = [
+      createMessage({ id: 1, subject: "KICKOFF: Test", created_ts: "2025-01-01T00:00:00Z" }),
+      createMessage({ id: 2, subject: "DELTA[gpt]: First", created_ts: "2025-01-01T01:00:00Z" }),
+      createMessage({ id: 3, subject: "COMPILED: v1", created_ts: "2025-01-01T02:00:00Z" }),
+      createMessage({ id: 4, subject: "DELTA[opus]: Second", created_ts: "2025-01-01T03:00:00Z" }),
+      createMessage({ id: 5, subject: "COMPILED: v2", created_ts: "2025-01-01T04:00:00Z" }),
+      createMessage({ id: 6, subject: "DELTA[gpt]: Third", created_ts: "2025-01-01T05:00:00Z" }),
+    ];
+
+    const rounds = getMessageRounds(messages);
+    expect([2, 3, 4, 5, 6].map((id) => rounds.get(id))).toEqual([0, 0, 1, 1, 2]);
+  });
+});
@@ -154,6 +154,7 @@ const SUBJECT_PATTERNS = {
   kickoff: /^(KICKOFF:|\[[^\]]+\]\s+Brenner Loop kickoff\b)/i,
   delta: /^DELTA\[([^\]]+)\]:/i,
   tribunal: /^TRIBUNAL\[[^\]]+\]:/i,
+  debate: /^DEBATE\[[^\]]+\]:/i,
   compiled: /^COMPILED:/i,
   critique: /^CRITIQUE:/i,
   ack: /^ACK:/i,
@@ -186,6 +187,7 @@ export function parseSubjectType(
     | "kickoff"
     | "delta"
     | "tribunal"
+    | "debate"
     | "compiled"
     | "critique"
     | "ack"
@@ -212,13 +214,27 @@ export function parseSubjectType(
   for (const [type, pattern] of Object.entries(SUBJECT_PATTERNS)) {
     if (type === "delta") continue; // Already handled
     if (pattern.test(trimmed)) {
-      return { type: type as "kickoff" | "tribunal" | "compiled" | "critique" | "ack" | "claim" | "handoff" | "blocked" | "question" | "info" };
+      return { type: type as "kickoff" | "tribunal" | "debate" | "compiled" | "critique" | "ack" | "claim" | "handoff" | "blocked" | "question" | "info" };
     }
   }
 
   return { type: "unknown" };
 }
 
+const DEBATE_CONCLUSION_PATTERN = /^DEBATE\[[^\]]+\]:\s*Conclusion\b/i;
+
+/**
+ * Whether a message's delta blocks belong in the compiled artifact.
+ * DELTA replies count, and so do debate conclusions, which carry the debate
+ * outcome as deltas under `DEBATE[<id>]: Conclusion`. Kickoff prompts only
+ * carry example blocks and never count.
+ */
+export function isArtifactDeltaMessage(message: Pick<AgentMailMessage, "subject">): boolean {
+  const subjectType = parseSubjectType(message.subject).type;
+  if (subjectType === "delta") return true;
+  return subjectType === "debate" && DEBATE_CONCLUSION_PATTERN.test(message.subject.trim());
+}
+
 /**
  * Extract version number from COMPILED subject line.
  * Examples:
@@ -686,6 +702,25 @@ export function getPendingAgents(messages: AgentMailMessage[]): string[] {
   return participants.filter((p) => !deltaContributors.has(p));
 }
 
+/**
+ * Map each message ID to the round it belongs to.
+ *
+ * A message's round is the number of COMPILED messages posted strictly before
+ * it, matching ThreadStatus.round (0 = before the first compile).
+ */
+export function getMessageRounds(messages: AgentMailMessage[]): Map<number, number> {
+  const compiledTimes = messages
+    .filter((msg) => parseSubjectType(msg.subject).type === "compiled")
+    .map((msg) => new Date(msg.created_ts).getTime());
+
+  const rounds = new Map<number, number>();
+  for (const msg of messages) {
+    const msgTime = new Date(msg.created_ts).getTime();
+    rounds.set(msg.id, compiledTimes.filter((time) => time < msgTime).length);
+  }
+  return rounds;
+}
+
 /**
  * Get messages that belong to the current round.
  *
@@ -408,6 +408,63 @@ describe("session nudge", () => {
     expect(result.exitCode).toBe(1);
     expect(result.stderr).toContain("Missing --thread-id");
   });
+
+  it("diagnoses malformed deltas and sends their authors the proposed corrections", async () => {
+    const server = new AgentMailTestServer();
+    await server.start(0);
+
+    try {
+      const threadId = `TEST-REPAIR-${randomUUID()}`;
+      const projectKey = "/test/project";
+      const badBlock = JSON.stringify({
+        operation: "update",
+        section: "hypotheses",
+        target_id: "2",
+        payload: { claim: "Sharper claim" },
+      });
+
+      server.seedThread({
+        projectKey,
+        threadId,
+        messages: [
+          {
+            from: "BlueLake",
+            subject: "DELTA[gpt]: refine H2",
+            body_md: ["```delta", badBlock, "```"].join("\n"),
+            created_ts: "2025-01-01T00:00:00Z",
+          },
+        ],
+      });
+      const env = { AGENT_MAIL_BASE_URL: server.getBaseUrl() };
+
+      const diagnose = await runCli(
+        ["session", "diagnose", "--project-key", projectKey, "--thread-id", threadId, "--json"],
+        { env, timeout: 15000 }
+      );
+      expect(diagnose.exitCode).toBe(1);
+      const report = JSON.parse(diagnose.stdout) as {
+        messages: Array<{ repairs: Array<{ kinds: string[]; confidence: number; corrected: string | null }> }>;
+      };
+      expect(report.messages[0].repairs).toHaveLength(1);
+      expect(report.messages[0].repairs[0].kinds).toEqual(["section_name", "operation_name", "target_id_prefix"]);
+      expect(report.messages[0].repairs[0].corrected).toContain('"target_id": "H2"');
+
+      const nudge = await runCli(
+        ["session", "nudge", "--repair", "--project-key", projectKey, "--thread-id", threadId, "--sender", "Operator", "--json"],
+        { env, timeout: 15000 }
+      );
+      expect(nudge.exitCode).toBe(0);
+      expect(JSON.parse(nudge.stdout)).toMatchObject({ ok: true, repairs: 1 });
+
+      const [sent] = server.getMessagesTo("BlueLake");
+      expect(sent.subject).toBe(`NUDGE: [${threadId}] Delta corrections`);
+      expect(sent.body_md).toContain('- Fix (section_name): section "hypotheses" → "hypothesis_slate"');
+      expect(sent.body_md).toContain(badBlock);
+      expect(sent.body_md).toContain('"operation": "EDIT"');
+    } finally {
+      await server.stop();
+    }
+  });
 });
 
 // ============================================================================
@@ -1014,6 +1071,137 @@ describe("experiment capture", () => {
     expect(written).toContain("## Deltas");
     expect(written).toContain("```delta");
   });
+
+  it("logs every run and reports history with disagreements", async () => {
+    const cwd = join(tmpdir(), `brenner-test-experiment-${randomUUID()}`);
+    mkdirSync(cwd, { recursive: true });
+    const threadId = "RS-TEST-HISTORY";
+    const testId = "T-HIST-1";
+    const outcome = (verdict: string) =>
+      `BRENNER_OUTCOME ${JSON.stringify({
+        schema_version: "experiment_outcome_v0.1",
+        test_id: testId,
+        potency: { passed: true },
+        verdicts: [{ hypothesis_id: "H1", verdict }],
+      })}`;
+
+    const resultFiles: string[] = [];
+    for (const [exitCode, verdict] of [
+      ["0", "violated"],
+      ["1", "matched"],
+      ["0", "violated"],
+    ]) {
+      const recorded = await runCli(
+        [
+          "experiment",
+          "record",
+          "--thread-id",
+          threadId,
+          "--test-id",
+          testId,
+          "--exit-code",
+          exitCode,
+          "--stdout",
+          outcome(verdict),
+          "--command",
+          "bun run.ts",
+          "--cwd",
+          cwd,
+        ],
+        { cwd }
+      );
+      expect(recorded.exitCode).toBe(0);
+      resultFiles.push(recorded.stdout.trim());
+    }
+
+    // Result files are never overwritten; each run has its own file and log entry
+    expect(new Set(resultFiles).size).toBe(3);
+
+    // Same test id in another thread, run from a different working directory:
+    // logged under the project, but kept out of this thread's history
+    const otherCwd = join(cwd, "scratch");
+    mkdirSync(otherCwd, { recursive: true });
+    const other = await runCli(
+      ["experiment", "record", "--thread-id", "RS-TEST-OTHER", "--test-id", testId, "--exit-code", "1", "--cwd", otherCwd],
+      { cwd }
+    );
+    expect(other.exitCode).toBe(0);
+
+    const unscoped = await runCli(["experiment", "history", "--test-id", testId, "--project-key", cwd]);
+    expect(unscoped.exitCode).toBe(1);
+    expect(unscoped.stderr).toContain("Missing --thread-id (or pass --all-threads).");
+
+    const everything = await runCli(["experiment", "history", "--test-id", testId, "--all-threads", "--json"], { cwd });
+    expect(everything.exitCode).toBe(0);
+    expect((JSON.parse(everything.stdout) as { summary: { totalRuns: number } }).summary.totalRuns).toBe(4);
+
+    const history = await runCli(["experiment", "history", "--test-id", testId, "--thread-id", threadId, "--project-key", cwd, "--json"]);
+    expect(history.exitCode).toBe(0);
+    const parsed = JSON.parse(history.stdout) as {
+      log_file: string;
+      runs: Array<{ result_path: string; command: string[]; status: string; outcome: { verdicts: Record<string, string> } }>;
+      summary: { totalRuns: number; statusCounts: Record<string, number>; disagreements: Array<{ signal: unknown }> };
+    };
+    expect(parsed.log_file).toBe(join(cwd, ".research", "experiment-runs", `${testId}-runs.jsonl`));
+    expect(parsed.runs.map((r) => r.status)).toEqual(["passed", "failed", "passed"]);
+    expect(parsed.runs[0].command).toEqual(["bun", "run.ts"]);
+    expect(parsed.runs[0].result_path.startsWith(join("artifacts", threadId, "experiments", testId))).toBe(true);
+    expect(parsed.runs.map((r) => r.outcome.verdicts.H1)).toEqual(["violated", "matched", "violated"]);
+    expect(parsed.summary.totalRuns).toBe(3);
+    expect(parsed.summary.statusCounts).toEqual({ passed: 2, failed: 1, blocked: 0 });
+    expect(parsed.summary.disagreements.map((d) => d.signal)).toEqual(["status", { hypothesisId: "H1" }]);
+
+    const human = await runCli(["experiment", "history", "--test-id", testId, "--thread-id", threadId, "--project-key", cwd, "--limit", "2"]);
+    expect(human.exitCode).toBe(0);
+    expect(human.stdout).toContain(`${testId}: 3 runs (2 passed, 1 failed, 0 blocked)`);
+    expect(human.stdout).toContain("(showing last 2)");
+    expect(human.stdout).toContain("H1: violated×2, matched×1");
+
+    const none = await runCli(["experiment", "history", "--test-id", "T-NONE", "--thread-id", threadId, "--project-key", cwd]);
+    expect(none.exitCode).toBe(0);
+    expect(none.stdout).toContain(`No runs logged for T-NONE in ${threadId}.`);
+  });
+
+  it("records the execution profile and refuses strict runs it cannot enforce", async () => {
+    const cwd = join(tmpdir(), `brenner-test-experiment-${randomUUID()}`);
+    mkdirSync(cwd, { recursive: true });
+    const env = { BRENNER_SANDBOX_BACKENDS: "none" };
+    const base = ["experiment", "run", "--thread-id", "RS-TEST-SANDBOX", "--test-id", "T-SBX-1", "--cwd", cwd];
+
+    const standard = await runCli(
+      [...base, "--profile", "standard", "--timeout", "3600", "--json", "--", process.execPath, "-e", "console.log(process.env.BRENNER_SCRATCH_DIR)"],
+      { cwd, env, timeout: 30000 }
+    );
+    expect(standard.exitCode).toBe(0);
+    expect(standard.stderr).toContain('--timeout capped at 900s by the "standard" profile');
+    expect(standard.stderr).toContain("Warning: network not isolated");
+    const { result } = JSON.parse(standard.stdout) as {
+      result: {
+        timeout_seconds: number;
+        stdout: string;
+        sandbox: { profile: string; enforced: Record<string, string | null>; scratch_dir: string; warnings: string[] };
+      };
+    };
+    expect(result.timeout_seconds).toBe(900);
+    expect(result.sandbox.profile).toBe("standard");
+    expect(result.sandbox.enforced).toEqual({ memory: null, cpu: null, network: null, filesystem: null });
+    expect(result.sandbox.warnings).toHaveLength(4);
+    expect(result.stdout.trim()).toBe(result.sandbox.scratch_dir);
+    // The scratch dir only lives as long as the run
+    expect(existsSync(result.sandbox.scratch_dir)).toBe(false);
+
+    const strict = await runCli([...base, "--profile", "strict", "--", "true"], { cwd, env, timeout: 30000 });
+    expect(strict.exitCode).toBe(1);
+    expect(strict.stderr).toContain('Profile "strict" cannot be enforced here');
+
+    const history = await runCli(["experiment", "history", "--test-id", "T-SBX-1", "--thread-id", "RS-TEST-SANDBOX", "--project-key", cwd, "--json"]);
+    const parsed = JSON.parse(history.stdout) as { runs: Array<{ sandbox_profile: string | null }> };
+    expect(parsed.runs.map((r) => r.sandbox_profile)).toEqual(["standard"]);
+
+    const invalid = await runCli([...base, "--profile", "yolo", "--", "true"], { cwd });
+    expect(invalid.exitCode).toBe(1);
+    expect(invalid.stderr).toContain("Invalid --profile: must be one of unrestricted, standard, strict.");
+  });
 });
 
 // ============================================================================
@@ -1830,6 +2018,103 @@ describe("lint command", () => {
     expect(parsed.valid).toBe(true);
     expect(parsed.summary.errors).toBe(0);
   });
+
+  it("applies project rule packs and attributes their violations", async () => {
+    const projectKey = createTempDir("brenner-lint-packs");
+    const packDir = join(projectKey, ".research", "lint-rules");
+    mkdirSync(packDir, { recursive: true });
+    writeFileSync(
+      join(packDir, "strict-anchors.json"),
+      JSON.stringify({
+        id: "strict-anchors",
+        name: "Strict anchors",
+        templates: ["full-analysis"],
+        rules: [
+          {
+            id: "ANC-001",
+            severity: "error",
+            section: "hypothesis_slate",
+            require: { field: "anchors", minItems: 99 },
+            message: "{id} needs more anchors",
+          },
+        ],
+      })
+    );
+
+    const unscoped = await runCli(["lint", validPath, "--project-key", projectKey]);
+    expect(unscoped.exitCode).toBe(0);
+    expect(unscoped.stdout).not.toContain("[strict-anchors]");
+
+    const human = await runCli(["lint", validPath, "--project-key", projectKey, "--session-template", "full-analysis"]);
+    expect(human.exitCode).toBe(1);
+    expect(human.stdout).toContain("ANC-001 [strict-anchors]:");
+    expect(human.stdout).toContain("Rule packs: strict-anchors");
+
+    const json = await runCli(["lint", validPath, "--project-key", projectKey, "--enable-packs", "strict-anchors", "--json"]);
+    const parsed = JSON.parse(json.stdout) as {
+      violations: Array<{ id: string; pack?: string }>;
+      rule_packs: Array<{ id: string }>;
+    };
+    expect(parsed.violations.some((v) => v.id === "ANC-001" && v.pack === "strict-anchors")).toBe(true);
+    expect(parsed.rule_packs.map((p) => p.id)).toEqual(["strict-anchors"]);
+  });
+
+  it("verifies quoted citations against the transcript and evidence pack", async () => {
+    const projectKey = createTempDir("brenner-lint-cites");
+    const transcriptPath = join(projectKey, "transcript.md");
+    writeFileSync(
+      transcriptPath,
+      [
+        "# T",
+        "",
+        "## 1. Exclusion",
+        "",
+        "> Exclusion is always a tremendously good thing in science.",
+        "",
+        "## 2. Worms",
+        "",
+        "> We could look at every cell in the animal.",
+        "",
+      ].join("\n")
+    );
+
+    const artifact = JSON.parse(readFileSync(validPath, "utf8")) as {
+      metadata: { session_id: string };
+      sections: { hypothesis_slate: Array<{ claim: string; mechanism: string }> };
+    };
+    artifact.sections.hypothesis_slate[0].claim = '"Exclusion is always a very good thing in science" (§1)';
+    artifact.sections.hypothesis_slate[0].mechanism = '"we could look at every cell in the animal" (§1) and "Recovery was measured at 487 ms" (EV-001#E1)';
+    const artifactPath = join(projectKey, "artifact.json");
+    writeFileSync(artifactPath, JSON.stringify(artifact));
+
+    const evidenceDir = join(projectKey, "artifacts", artifact.metadata.session_id);
+    mkdirSync(evidenceDir, { recursive: true });
+    writeFileSync(
+      join(evidenceDir, "evidence.json"),
+      JSON.stringify({
+        records: [{ id: "EV-001", title: "Paper", excerpts: [{ anchor: "E1", text: "Recovery was measured at 487 ms", verbatim: true }] }],
+      })
+    );
+
+    const result = await runCli([
+      "lint",
+      artifactPath,
+      "--project-key",
+      projectKey,
+      "--transcript-file",
+      transcriptPath,
+      "--json",
+    ]);
+    expect(result.exitCode).toBe(0);
+
+    const parsed = JSON.parse(result.stdout) as {
+      violations: Array<{ id: string; fix?: string }>;
+      citations: { summary: Record<string, number> };
+    };
+    expect(parsed.citations.summary).toMatchObject({ verified: 1, misquote: 1, wrong_anchor: 1 });
+    expect(parsed.violations.find((v) => v.id === "WP-P05")?.fix).toBe("Cite §2 instead of §1");
+    expect(parsed.violations.some((v) => v.id === "WP-P04")).toBe(true);
+  });
 });
 
 // ============================================================================
@@ -2481,6 +2766,58 @@ describe("session compile validation", () => {
     expect(result.stderr).toContain("--thread-id");
   });
 
+  it("ignores example delta blocks in the kickoff prompt", async () => {
+    const server = new AgentMailTestServer();
+    await server.start(0);
+
+    try {
+      const threadId = `TEST-KICKOFF-EXAMPLE-${randomUUID()}`;
+      const projectKey = "/test/project";
+      const hypothesis = (name: string) =>
+        [
+          "```delta",
+          JSON.stringify({
+            operation: "ADD",
+            section: "hypothesis_slate",
+            target_id: null,
+            payload: { name, claim: `${name} claim`, mechanism: `${name} mechanism` },
+          }),
+          "```",
+        ].join("\n");
+
+      server.seedThread({
+        projectKey,
+        threadId,
+        messages: [
+          {
+            from: "Operator",
+            subject: `KICKOFF: [${threadId}] Question`,
+            body_md: `## Role Prompt\nReply with blocks like:\n${hypothesis("Example only")}`,
+            created_ts: "2025-01-01T00:00:00Z",
+          },
+          {
+            from: "Codex",
+            subject: "DELTA[gpt]: hypotheses",
+            body_md: hypothesis("Gradient reading"),
+            created_ts: "2025-01-01T00:01:00Z",
+          },
+        ],
+      });
+
+      const result = await runCli(
+        ["session", "compile", "--project-key", projectKey, "--thread-id", threadId, "--json"],
+        { env: { AGENT_MAIL_BASE_URL: server.getBaseUrl() }, timeout: 15000 }
+      );
+
+      expect(result.exitCode).toBe(0);
+      const { markdown } = JSON.parse(result.stdout) as { markdown: string };
+      expect(markdown).toContain("Gradient reading");
+      expect(markdown).not.toContain("Example only");
+    } finally {
+      await server.stop();
+    }
+  });
+
   it("fails loudly when a DELTA message contains no delta fences", async () => {
     const server = new AgentMailTestServer();
     await server.start(0);
@@ -2530,6 +2867,175 @@ describe("session compile validation", () => {
   });
 });
 
+describe("session edit conflicts", () => {
+  it("flags concurrent same-field edits and resolves them through an intervention record", async () => {
+    const server = new AgentMailTestServer();
+    await server.start(0);
+
+    try {
+      const threadId = `TEST-CONFLICT-${randomUUID()}`;
+      const projectKey = createTempDir("brenner-conflict");
+      const delta = (payload: Record<string, unknown>, operation = "EDIT", targetId: string | null = "H1") =>
+        ["```delta", JSON.stringify({ operation, section: "hypothesis_slate", target_id: targetId, payload }), "```"].join("\n");
+
+      server.seedThread({
+        projectKey,
+        threadId,
+        messages: [
+          {
+            from: "Codex",
+            subject: "DELTA[gpt]: initial slate",
+            body_md: delta({ name: "Threshold", claim: "Original claim", mechanism: "M", anchors: ["inference"] }, "ADD", null),
+            created_ts: "2025-01-01T00:00:00Z",
+          },
+          { from: "Operator", subject: "COMPILED: v1 artifact", body_md: "# Artifact", created_ts: "2025-01-01T01:00:00Z" },
+          { from: "Codex", subject: "DELTA[gpt]: refine H1", body_md: delta({ claim: "Codex claim" }), created_ts: "2025-01-01T02:00:00Z" },
+          { from: "Opus", subject: "DELTA[opus]: refine H1", body_md: delta({ claim: "Opus claim" }), created_ts: "2025-01-01T03:00:00Z" },
+        ],
+      });
+      const env = { AGENT_MAIL_BASE_URL: server.getBaseUrl() };
+      const compileArgs = ["session", "compile", "--project-key", projectKey, "--thread-id", threadId];
+
+      const before = await runCli([...compileArgs, "--json"], { env, timeout: 15000 });
+      expect(before.exitCode).toBe(0);
+      const unresolved = JSON.parse(before.stdout) as { markdown: string; conflicts: Array<Record<string, unknown>> };
+      expect(unresolved.conflicts).toHaveLength(1);
+      expect(unresolved.conflicts[0]).toMatchObject({
+        round: 1,
+        target_id: "H1",
+        field: "claim",
+        base: "Original claim",
+        applied: "Opus claim",
+        edits: [{ agent: "Codex", value: "Codex claim" }, { agent: "Opus", value: "Opus claim" }],
+      });
+
+      const human = await runCli(compileArgs, { env, timeout: 15000 });
+      expect(human.stderr).toContain("Edit conflicts: 1 (1 unresolved)");
+      expect(human.stderr).toContain("brenner session resolve");
+
+      const resolved = await runCli(
+        [
+          "session", "resolve", "--project-key", projectKey, "--thread-id", threadId,
+          "--target", "H1", "--field", "claim", "--agent", "Codex",
+          "--rationale", "Codex's claim is the one the anchors support.", "--json",
+        ],
+        { env, timeout: 15000 }
+      );
+      expect(resolved.exitCode).toBe(0);
+      const record = JSON.parse(resolved.stdout) as { intervention: Record<string, unknown> };
+      expect(record.intervention).toMatchObject({
+        id: `INT-${threadId}-001`,
+        type: "conflict_resolution",
+        target: { item_id: "H1", item_type: "hypothesis", field: "claim", round: 1 },
+        state_change: { before: '"Opus claim"', after: '"Codex claim"' },
+      });
+
+      const after = await runCli([...compileArgs, "--json"], { env, timeout: 15000 });
+      const compiled = JSON.parse(after.stdout) as { markdown: string; conflicts: Array<Record<string, unknown>> };
+      expect(compiled.markdown).toContain("Codex claim");
+      expect(compiled.markdown).not.toContain("Opus claim");
+      expect(compiled.conflicts[0]).toMatchObject({
+        applied: "Codex claim",
+        resolution: { value: "Codex claim", intervention_id: `INT-${threadId}-001` },
+      });
+
+      const wrongAgent = await runCli(
+        [
+          "session", "resolve", "--project-key", projectKey, "--thread-id", threadId,
+          "--target", "H1", "--field", "claim", "--agent", "Gemini", "--rationale", "Gemini never edited this field.",
+        ],
+        { env, timeout: 15000 }
+      );
+      expect(wrongAgent.exitCode).toBe(1);
+      expect(wrongAgent.stderr).toContain("Gemini did not edit H1.claim in round 1");
+    } finally {
+      await server.stop();
+    }
+  });
+});
+
+describe("debate over Agent Mail", () => {
+  it("requires --debate-id for status", async () => {
+    const result = await runCli(["debate", "status"]);
+    expect(result.exitCode).toBe(1);
+    expect(result.stderr).toContain("--debate-id");
+  });
+
+  it("runs rounds from replies and merges the conclusion's deltas into the session artifact", async () => {
+    const server = new AgentMailTestServer();
+    await server.start(0);
+
+    try {
+      const projectKey = createTempDir("brenner-debate");
+      const sessionThread = `TEST-DEBATE-${randomUUID()}`;
+      const env = { AGENT_MAIL_BASE_URL: server.getBaseUrl() };
+      const hypothesisFile = createTempFile(
+        "debate-hypothesis",
+        JSON.stringify({
+          id: "HC-RS20261019-001-v1",
+          statement: "Growth cones steer by sensing netrin gradients",
+          mechanism: "DCC receptor signalling biases actin polymerisation",
+        })
+      );
+
+      const started = await runCli(
+        [
+          "debate", "start", "--project-key", projectKey, "--sender", "Moderator", "--thread-id", sessionThread,
+          "--hypothesis-file", hypothesisFile, "--agents", "experiment_designer=BlueLake,devils_advocate=RedFox",
+          "--max-rounds", "2", "--json",
+        ],
+        { env, timeout: 15000 }
+      );
+      expect(started.exitCode).toBe(0);
+      const { debateId, threadId, prompt } = JSON.parse(started.stdout) as {
+        debateId: string;
+        threadId: string;
+        prompt: { round: number; speaker: string };
+      };
+      expect(prompt).toMatchObject({ round: 1, speaker: "experiment_designer" });
+
+      const reply = (from: string, round: number, speaker: string, body: string) =>
+        server.seedThread({
+          projectKey,
+          threadId,
+          messages: [{ from, to: ["Moderator"], subject: `Re: DEBATE[${debateId}]: Round ${round} (${speaker})`, body_md: body }],
+        });
+
+      reply("BlueLake", 1, "experiment_designer", "I argue the gradient model holds.\nTEST: Netrin bead rescue — Implant netrin beads in knockout explants");
+      const early = await runCli(["debate", "conclude", "--project-key", projectKey, "--debate-id", debateId, "--dry-run", "--json"], { env, timeout: 15000 });
+      expect(JSON.parse(early.stdout).judgement.proposedTests).toHaveLength(1);
+
+      const next = await runCli(["debate", "next", "--project-key", projectKey, "--sender", "Moderator", "--debate-id", debateId], { env, timeout: 15000 });
+      expect(next.exitCode).toBe(0);
+      expect(next.stdout).toContain("Round 2 sent to RedFox");
+
+      reply("RedFox", 2, "devils_advocate", "I agree the knockout data are striking.\nCRITIQUE: Residual midline crossing implies a netrin-independent cue");
+      const status = await runCli(["debate", "status", "--project-key", projectKey, "--debate-id", debateId], { env, timeout: 15000 });
+      expect(status.stdout).toContain("in_progress (2/2 rounds)");
+      expect(status.stdout).toContain("Ready to conclude");
+
+      const concluded = await runCli(
+        ["debate", "conclude", "--project-key", projectKey, "--sender", "Moderator", "--debate-id", debateId, "--json"],
+        { env, timeout: 15000 }
+      );
+      expect(concluded.exitCode).toBe(0);
+      const outcome = JSON.parse(concluded.stdout) as { judgement: { winner: string | null }; deltas: Array<{ section: string }> };
+      expect(outcome.deltas.map((delta) => delta.section)).toEqual(["discriminative_tests", "adversarial_critique"]);
+
+      const again = await runCli(["debate", "conclude", "--project-key", projectKey, "--sender", "Moderator", "--debate-id", debateId], { env, timeout: 15000 });
+      expect(again.exitCode).toBe(1);
+      expect(again.stderr).toContain("already concluded");
+
+      const compiled = await runCli(["session", "compile", "--project-key", projectKey, "--thread-id", sessionThread, "--json"], { env, timeout: 15000 });
+      const artifact = JSON.parse(compiled.stdout) as { markdown: string };
+      expect(artifact.markdown).toContain("Netrin bead rescue");
+      expect(artifact.markdown).toContain("Residual midline crossing");
+    } finally {
+      await server.stop();
+    }
+  });
+});
+
 describe("session write validation", () => {
   it("requires --thread-id flag", async () => {
     const result = await runCli(["session", "write"]);
@@ -2564,96 +3070,379 @@ describe("session publish validation", () => {
   });
 });
 
-// ============================================================================
-// Tests: orchestrate Alias
-// ============================================================================
-
-describe("orchestrate alias", () => {
-  it("orchestrate start works like session start", async () => {
-    // Both should fail with same missing arg error
-    const orchestrateResult = await runCli(["orchestrate", "start"]);
-    const sessionResult = await runCli(["session", "start"]);
+describe("artifact diff", () => {
+  it("reports item-level changes between two COMPILED versions as text and JSON", async () => {
+    const server = new AgentMailTestServer();
+    await server.start(0);
 
-    expect(orchestrateResult.exitCode).toBe(sessionResult.exitCode);
-    // Both require --sender
-    expect(orchestrateResult.stderr).toContain("--sender");
-  });
-});
+    try {
+      const threadId = `TEST-ARTIFACT-DIFF-${randomUUID()}`;
+      const projectKey = createTempDir("brenner-artifact-diff");
+      const delta = (operation: string, targetId: string | null, payload: Record<string, unknown>) =>
+        ["```delta", JSON.stringify({ operation, section: "hypothesis_slate", target_id: targetId, payload }), "```"].join("\n");
+      const hypothesis = (name: string) => delta("ADD", null, { name, claim: `${name} claim`, mechanism: "M" });
 
-// ============================================================================
-// Tests: Flag Parsing Edge Cases
-// ============================================================================
+      server.seedThread({
+        projectKey,
+        threadId,
+        messages: [
+          { from: "Operator", subject: `KICKOFF: [${threadId}] Question`, body_md: "# Kickoff", created_ts: "2025-01-01T00:00:00Z" },
+          { from: "BlueLake", subject: "DELTA[gpt]: slate", body_md: `${hypothesis("Threshold")}\n\n${hypothesis("Relay")}`, created_ts: "2025-01-01T01:00:00Z" },
+          { from: "Operator", subject: "COMPILED: v1 artifact", body_md: "# v1", created_ts: "2025-01-01T02:00:00Z" },
+          { from: "BlueLake", subject: "DELTA[gpt]: sharpen H1", body_md: delta("EDIT", "H1", { claim: "Sharper claim" }), created_ts: "2025-01-01T03:00:00Z" },
+          { from: "GreenPond", subject: "DELTA[gemini]: kill H2", body_md: delta("KILL", "H2", { reason: "No relay observed" }), created_ts: "2025-01-01T04:00:00Z" },
+          { from: "RedFox", subject: "DELTA[opus]: lineage", body_md: hypothesis("Lineage"), created_ts: "2025-01-01T04:30:00Z" },
+          { from: "Operator", subject: "COMPILED: v2 artifact", body_md: "# v2", created_ts: "2025-01-01T05:00:00Z" },
+        ],
+      });
+      const env = { AGENT_MAIL_BASE_URL: server.getBaseUrl() };
+      const args = ["artifact", "diff", "--project-key", projectKey, "--thread-id", threadId];
+
+      const text = await runCli([...args, "--from", "1", "--to", "2"], { env });
+      expect(text.exitCode).toBe(0);
+      expect(text.stdout).toContain("=== Artifact Diff: v1 → v2 ===");
+      expect(text.stdout).toContain("Contributors: BlueLake, GreenPond, RedFox");
+      expect(text.stdout).toContain("+ [H3] Lineage (by: RedFox)");
+      expect(text.stdout).toContain('✗ [H2] Relay - KILLED: "No relay observed" (by: GreenPond)');
+      expect(text.stdout).toContain('~ [H1] edited: claim changed: "Threshold claim" → "Sharper claim" (by: BlueLake)');
+
+      const json = await runCli([...args, "--json"], { env });
+      expect(json.exitCode).toBe(0);
+      const report = JSON.parse(json.stdout);
+      expect(report).toMatchObject({ ok: true, threadId, from: { version: 1 }, to: { version: 2 } });
+      expect(report.diff.summary).toMatchObject({ hypotheses_added: 1, hypotheses_killed: 1, hypotheses_net: 0 });
+      expect(report.diff.changes.hypothesis_slate).toMatchObject({
+        added: [{ id: "H3", by_agent: "RedFox" }],
+        killed: [{ id: "H2", by_agent: "GreenPond" }],
+        edited: [{ id: "H1", field: "claim", by_agent: "BlueLake" }],
+      });
 
-describe("flag parsing edge cases", () => {
-  it("handles flag with equals sign format", async () => {
-    // --help=true should still show help
-    const result = await runCli(["--help=true"]);
-    // This will be interpreted as a string value, but help check uses asBoolFlag
-    // The CLI actually checks `asBoolFlag(flags, "help")` which returns true only for boolean true
-    // So --help=true will NOT trigger help. Let's verify the behavior.
-    // Actually, looking at the code: if (!top || asBoolFlag(flags, "help")...)
-    // Since top is undefined here (no positional), it still shows help
-    expect(result.exitCode).toBe(0);
-    expect(result.stdout).toContain("Usage:");
+      const missing = await runCli([...args, "--from", "1", "--to", "3"], { env });
+      expect(missing.exitCode).toBe(1);
+      expect(missing.stderr).toContain(`Thread ${threadId} has no COMPILED v3 (published: v1, v2).`);
+    } finally {
+      await server.stop();
+    }
   });
+});
 
-  it("handles multiple flags", async () => {
+describe("session run", () => {
+  it("validates convergence criteria before touching Agent Mail", async () => {
     const result = await runCli([
-      "mail",
-      "inbox",
-      "--agent",
-      "TestAgent",
-      "--limit",
-      "5",
-      "--urgent-only",
-      "--include-bodies",
+      "session", "run", "--thread-id", "TEST-1", "--sender", "Operator", "--to", "BlueLake", "--until", "quiet",
     ]);
-    // Will fail because Agent Mail is not available, but should not fail on parsing
     expect(result.exitCode).toBe(1);
-    // Should not complain about missing flags
-    expect(result.stderr).not.toContain("Missing --agent");
-    expect(result.stderr).not.toContain("Missing --limit");
+    expect(result.stderr).toContain('Invalid convergence criterion: "quiet"');
   });
 
-  it("handles comma-separated values in --to flag", async () => {
-    const result = await runCli([
-      "mail",
-      "send",
-      "--sender",
-      "Test",
-      "--to",
-      "Agent1,Agent2,Agent3",
-      "--subject",
-      "Test",
-      "--body-file",
-      "README.md",
-    ]);
-    // Will fail on Agent Mail connect, not on parsing
-    expect(result.exitCode).toBe(1);
-    expect(result.stderr).not.toContain("Missing --to");
-  });
-});
+  it("compiles completed rounds, opens the next one with targeted kickoffs, and stops on convergence", async () => {
+    const server = new AgentMailTestServer();
+    await server.start(0);
 
-// ============================================================================
-// Tests: prompt compose (with real files)
-// ============================================================================
+    try {
+      const threadId = `TEST-RUN-${randomUUID()}`;
+      const projectKey = createTempDir("brenner-session-run");
+      const delta = (operation: string, targetId: string | null, payload: Record<string, unknown>) =>
+        ["```delta", JSON.stringify({ operation, section: "hypothesis_slate", target_id: targetId, payload }), "```"].join("\n");
+      const hypothesis = (name: string) => delta("ADD", null, { name, claim: `${name} claim`, mechanism: "M", anchors: ["inference"] });
 
-describe("prompt compose with real files", () => {
-  it("composes prompt with default template and README as excerpt", async () => {
-    const result = await runCli([
-      "prompt",
-      "compose",
-      "--excerpt-file",
-      "README.md",
-    ]);
-    // Uses default template: metaprompt_by_gpt_52.md
-    expect(result.exitCode).toBe(0);
-    expect(result.stdout).toContain("## TRANSCRIPT EXCERPT(S)");
-  });
+      server.seedThread({
+        projectKey,
+        threadId,
+        messages: [
+          { from: "Operator", to: ["BlueLake", "RedFox", "GreenPond"], subject: `KICKOFF: [${threadId}] Question`, body_md: "# Kickoff", created_ts: "2025-01-01T00:00:00Z" },
+          { from: "BlueLake", subject: "DELTA[gpt]: slate", body_md: hypothesis("Threshold"), created_ts: "2025-01-01T01:00:00Z" },
+          { from: "RedFox", subject: "DELTA[opus]: slate", body_md: hypothesis("Relay"), created_ts: "2025-01-01T02:00:00Z" },
+          { from: "GreenPond", subject: "DELTA[gemini]: slate", body_md: hypothesis("Noise"), created_ts: "2025-01-01T03:00:00Z" },
+        ],
+      });
+      const env = { AGENT_MAIL_BASE_URL: server.getBaseUrl() };
+      const runArgs = [
+        "session", "run", "--project-key", projectKey, "--thread-id", threadId, "--sender", "Operator",
+        "--to", "BlueLake,RedFox,GreenPond",
+        "--role-map", "BlueLake=hypothesis_generator,RedFox=test_designer,GreenPond=adversarial_critic",
+        "--interval", "1", "--timeout", "1", "--json",
+      ];
+
+      const first = await runCli(runArgs, { env, timeout: 20000 });
+      expect(first.exitCode).toBe(2);
+      const firstReport = JSON.parse(first.stdout);
+      expect(firstReport).toMatchObject({ ok: false, outcome: "timeout", criteria: ["lint-clean", "no-kills"], max_rounds: 3 });
+      expect(firstReport.rounds).toEqual([
+        expect.objectContaining({ round: 0, compiled_version: 1, kills: 0, kickoff_sent: true, lint: expect.objectContaining({ valid: false }) }),
+      ]);
+      expect(first.stderr).toContain("Round 1: waiting for hypothesis_generator, test_designer, adversarial_critic.");
+
+      const kickoff = server.getMessagesTo("GreenPond").find((m) => m.subject.includes("Round 1"));
+      expect(kickoff?.subject).toBe(`KICKOFF: [${threadId}] Round 1: revise artifact v1`);
+      expect(kickoff?.body_md).toContain("## Top Lint Gap");
+      expect(kickoff?.body_md).toContain("## Your Focus (Adversarial Critic)");
+      expect(kickoff?.body_md).toContain("Threshold claim");
+      expect(kickoff?.body_md).toContain("subject `DELTA[gemini]: <description>`");
 
-  it("includes optional theme in composed prompt", async () => {
-    const result = await runCli([
-      "prompt",
+      server.seedThread({
+        projectKey,
+        threadId,
+        messages: [
+          { from: "BlueLake", subject: "DELTA[gpt]: sharpen H1", body_md: delta("EDIT", "H1", { claim: "Sharper claim" }) },
+          { from: "RedFox", subject: "DELTA[opus]: sharpen H2", body_md: delta("EDIT", "H2", { mechanism: "Relay via contact" }) },
+          { from: "GreenPond", subject: "DELTA[gemini]: sharpen H3", body_md: delta("EDIT", "H3", { mechanism: "Averaging" }) },
+        ],
+      });
+
+      const second = await runCli([...runArgs, "--until", "no-kills"], { env, timeout: 20000 });
+      expect(second.exitCode).toBe(0);
+      expect(JSON.parse(second.stdout)).toMatchObject({
+        ok: true,
+        outcome: "converged",
+        rounds: [{ round: 1, compiled_version: 2, kills: 0, kickoff_sent: false, convergence: { converged: true, met: ["no-kills"] } }],
+      });
+
+      const subjects = server.getMessagesInThread(threadId).map((m) => m.subject);
+      expect(subjects.filter((s) => s.startsWith("COMPILED:"))).toEqual(["COMPILED: v1 artifact", "COMPILED: v2 artifact"]);
+      expect(subjects.filter((s) => s.includes("Round 2"))).toEqual([]);
+    } finally {
+      await server.stop();
+    }
+  });
+
+  it("resumes by sending the kickoff a stopped run never sent after COMPILED", async () => {
+    const server = new AgentMailTestServer();
+    await server.start(0);
+
+    try {
+      const threadId = `TEST-RUN-RESUME-${randomUUID()}`;
+      const projectKey = createTempDir("brenner-session-run-resume");
+      const hypothesis = (name: string) =>
+        [
+          "```delta",
+          JSON.stringify({
+            operation: "ADD",
+            section: "hypothesis_slate",
+            target_id: null,
+            payload: { name, claim: `${name} claim`, mechanism: "M", anchors: ["inference"] },
+          }),
+          "```",
+        ].join("\n");
+
+      // The previous supervisor published v1 and died before the round 1 kickoffs
+      server.seedThread({
+        projectKey,
+        threadId,
+        messages: [
+          { from: "Operator", to: ["BlueLake", "GreenPond"], subject: `KICKOFF: [${threadId}] Question`, body_md: "# Kickoff", created_ts: "2025-01-01T00:00:00Z" },
+          { from: "BlueLake", subject: "DELTA[gpt]: slate", body_md: hypothesis("Threshold"), created_ts: "2025-01-01T01:00:00Z" },
+          { from: "GreenPond", subject: "DELTA[gemini]: slate", body_md: hypothesis("Noise"), created_ts: "2025-01-01T02:00:00Z" },
+          { from: "Operator", subject: "COMPILED: v1 artifact", body_md: "# Published artifact v1\nThreshold claim", created_ts: "2025-01-01T03:00:00Z" },
+        ],
+      });
+
+      const result = await runCli(
+        [
+          "session", "run", "--project-key", projectKey, "--thread-id", threadId, "--sender", "Operator",
+          "--to", "BlueLake,GreenPond", "--role-map", "BlueLake=hypothesis_generator,GreenPond=adversarial_critic",
+          "--interval", "1", "--timeout", "1", "--json",
+        ],
+        { env: { AGENT_MAIL_BASE_URL: server.getBaseUrl() }, timeout: 20000 }
+      );
+      expect(result.exitCode).toBe(2);
+      expect(result.stderr).toContain("Resumed: COMPILED v1 had no round 1 kickoff; sent it to BlueLake, GreenPond.");
+      expect(JSON.parse(result.stdout).rounds).toEqual([
+        expect.objectContaining({ round: 0, compiled_version: 1, kickoff_sent: true }),
+      ]);
+
+      const kickoff = server.getMessagesTo("GreenPond").find((m) => m.subject.includes("Round 1"));
+      expect(kickoff?.subject).toBe(`KICKOFF: [${threadId}] Round 1: revise artifact v1`);
+      expect(kickoff?.body_md).toContain("# Published artifact v1");
+      const subjects = server.getMessagesInThread(threadId).map((m) => m.subject);
+      expect(subjects.filter((s) => s.startsWith("COMPILED:"))).toEqual(["COMPILED: v1 artifact"]);
+    } finally {
+      await server.stop();
+    }
+  });
+});
+
+describe("session record/replay", () => {
+  const hypothesisDelta = (name: string) =>
+    [
+      "```delta",
+      JSON.stringify({
+        operation: "ADD",
+        section: "hypothesis_slate",
+        target_id: null,
+        payload: { name, claim: `${name} claim`, mechanism: `${name} mechanism`, anchors: ["inference"] },
+        rationale: "test",
+      }),
+      "```",
+    ].join("\n");
+
+  it("requires --thread-id for record", async () => {
+    const result = await runCli(["session", "record"]);
+    expect(result.exitCode).toBe(1);
+    expect(result.stderr).toContain("--thread-id");
+  });
+
+  it("rejects an unknown replay mode", async () => {
+    const recordFile = createTempFile("brenner-record", "{}");
+    const result = await runCli(["session", "replay", recordFile, "--mode", "bogus"]);
+    expect(result.exitCode).toBe(1);
+    expect(result.stderr).toContain("Invalid --mode");
+  });
+
+  it("records a thread and verifies the replay, then detects tampering", async () => {
+    const server = new AgentMailTestServer();
+    await server.start(0);
+
+    try {
+      const threadId = `TEST-REPLAY-${randomUUID()}`;
+      const projectKey = createTempDir("brenner-replay-project");
+      const env = { AGENT_MAIL_BASE_URL: server.getBaseUrl() };
+
+      server.seedThread({
+        projectKey,
+        threadId,
+        messages: [
+          { from: "Operator", subject: `KICKOFF: [${threadId}] Why?`, body_md: "## Research Question\nWhy?\n", created_ts: "2025-01-01T00:00:00Z" },
+          { from: "BlueLake", subject: "DELTA[gpt]: H", body_md: hypothesisDelta("Alpha"), created_ts: "2025-01-01T00:01:00Z" },
+        ],
+      });
+      const publish = await runCli(
+        ["session", "publish", "--project-key", projectKey, "--thread-id", threadId, "--sender", "Operator", "--to", "BlueLake"],
+        { env, timeout: 15000 }
+      );
+      expect(publish.exitCode).toBe(0);
+      server.seedThread({
+        projectKey,
+        threadId,
+        messages: [{ from: "RedForest", subject: "DELTA[gemini]: H", body_md: hypothesisDelta("Beta") }],
+      });
+
+      const outFile = join(createTempDir("brenner-record"), "record.json");
+      const recordResult = await runCli(
+        ["session", "record", "--project-key", projectKey, "--thread-id", threadId, "--out-file", outFile],
+        { env, timeout: 15000 }
+      );
+      expect(recordResult.exitCode).toBe(0);
+      expect(recordResult.stdout).toContain("2 round(s), 4 message(s)");
+
+      const record = JSON.parse(readFileSync(outFile, "utf8")) as {
+        session_id: string;
+        trace: { rounds: Array<{ messages: Array<{ body_md?: string }> }> };
+      };
+      expect(record.session_id).toBe(threadId);
+
+      const verify = await runCli(["session", "replay", outFile, "--mode", "verify", "--json"]);
+      expect(verify.exitCode).toBe(0);
+      const report = JSON.parse(verify.stdout) as { mode: string; matches: boolean; divergences: unknown[] };
+      expect(report).toMatchObject({ mode: "verification", matches: true, divergences: [] });
+
+      record.trace.rounds[0].messages[1].body_md = hypothesisDelta("Gamma");
+      const tamperedFile = createTempFile("brenner-record-tampered", JSON.stringify(record));
+      const tampered = await runCli(["session", "replay", tamperedFile]);
+      expect(tampered.exitCode).toBe(1);
+      expect(tampered.stdout).toContain("Result: DIVERGED");
+      expect(tampered.stdout).toContain("MAJOR");
+
+      const compare = await runCli(["session", "replay", outFile, "--mode", "comparison", "--against", tamperedFile, "--json"]);
+      expect(compare.exitCode).toBe(1);
+      const comparison = JSON.parse(compare.stdout) as { mode: string; messages_matched: number; messages_expected: number };
+      expect(comparison).toMatchObject({ mode: "comparison", messages_matched: 1, messages_expected: 2 });
+    } finally {
+      await server.stop();
+    }
+  });
+});
+
+// ============================================================================
+// Tests: orchestrate Alias
+// ============================================================================
+
+describe("orchestrate alias", () => {
+  it("orchestrate start works like session start", async () => {
+    // Both should fail with same missing arg error
+    const orchestrateResult = await runCli(["orchestrate", "start"]);
+    const sessionResult = await runCli(["session", "start"]);
+
+    expect(orchestrateResult.exitCode).toBe(sessionResult.exitCode);
+    // Both require --sender
+    expect(orchestrateResult.stderr).toContain("--sender");
+  });
+});
+
+// ============================================================================
+// Tests: Flag Parsing Edge Cases
+// ============================================================================
+
+describe("flag parsing edge cases", () => {
+  it("handles flag with equals sign format", async () => {
+    // --help=true should still show help
+    const result = await runCli(["--help=true"]);
+    // This will be interpreted as a string value, but help check uses asBoolFlag
+    // The CLI actually checks `asBoolFlag(flags, "help")` which returns true only for boolean true
+    // So --help=true will NOT trigger help. Let's verify the behavior.
+    // Actually, looking at the code: if (!top || asBoolFlag(flags, "help")...)
+    // Since top is undefined here (no positional), it still shows help
+    expect(result.exitCode).toBe(0);
+    expect(result.stdout).toContain("Usage:");
+  });
+
+  it("handles multiple flags", async () => {
+    const result = await runCli([
+      "mail",
+      "inbox",
+      "--agent",
+      "TestAgent",
+      "--limit",
+      "5",
+      "--urgent-only",
+      "--include-bodies",
+    ]);
+    // Will fail because Agent Mail is not available, but should not fail on parsing
+    expect(result.exitCode).toBe(1);
+    // Should not complain about missing flags
+    expect(result.stderr).not.toContain("Missing --agent");
+    expect(result.stderr).not.toContain("Missing --limit");
+  });
+
+  it("handles comma-separated values in --to flag", async () => {
+    const result = await runCli([
+      "mail",
+      "send",
+      "--sender",
+      "Test",
+      "--to",
+      "Agent1,Agent2,Agent3",
+      "--subject",
+      "Test",
+      "--body-file",
+      "README.md",
+    ]);
+    // Will fail on Agent Mail connect, not on parsing
+    expect(result.exitCode).toBe(1);
+    expect(result.stderr).not.toContain("Missing --to");
+  });
+});
+
+// ============================================================================
+// Tests: prompt compose (with real files)
+// ============================================================================
+
+describe("prompt compose with real files", () => {
+  it("composes prompt with default template and README as excerpt", async () => {
+    const result = await runCli([
+      "prompt",
+      "compose",
+      "--excerpt-file",
+      "README.md",
+    ]);
+    // Uses default template: metaprompt_by_gpt_52.md
+    expect(result.exitCode).toBe(0);
+    expect(result.stdout).toContain("## TRANSCRIPT EXCERPT(S)");
+  });
+
+  it("includes optional theme in composed prompt", async () => {
+    const result = await runCli([
+      "prompt",
       "compose",
       "--excerpt-file",
       "README.md",
@@ -3213,6 +4002,108 @@ describe("hypothesis CLI", () => {
   });
 });
 
+// ============================================================================
+// Tests: Graph CLI
+// ============================================================================
+
+describe("graph CLI", () => {
+  it("answers lineage, edge, and falsified-assumption queries across sessions", async () => {
+    const projectDir = join(tmpdir(), `brenner-test-graph-${randomUUID()}`);
+    mkdirSync(projectDir, { recursive: true });
+
+    const parent = await runCli([
+      "hypothesis",
+      "create",
+      "--project-key",
+      projectDir,
+      "--json",
+      "--session-id",
+      "RS-GRAPH-A",
+      "--statement",
+      "Gradient sensing is driven by receptor clustering at the leading edge.",
+      "--category",
+      "phenomenological",
+    ]);
+    expect(parent.exitCode).toBe(0);
+    const parentId = (JSON.parse(parent.stdout) as { hypothesis: { id: string } }).hypothesis.id;
+
+    const child = await runCli([
+      "hypothesis",
+      "create",
+      "--project-key",
+      projectDir,
+      "--json",
+      "--session-id",
+      "RS-GRAPH-B",
+      "--statement",
+      "Receptor clustering amplifies shallow gradients through local positive feedback.",
+      "--category",
+      "mechanistic",
+      "--origin",
+      "refinement",
+      "--parent",
+      parentId,
+    ]);
+    expect(child.exitCode).toBe(0);
+    const childId = (JSON.parse(child.stdout) as { hypothesis: { id: string } }).hypothesis.id;
+
+    const assumption = await runCli([
+      "assumption",
+      "create",
+      "--project-key",
+      projectDir,
+      "--json",
+      "--session-id",
+      "RS-GRAPH-A",
+      "--statement",
+      "Receptor density is uniform across the membrane before stimulation.",
+      "--type",
+      "background",
+      "--load-description",
+      "The refinement presumes a uniform starting state.",
+      "--affects-hypotheses",
+      childId,
+    ]);
+    expect(assumption.exitCode).toBe(0);
+    const assumptionId = (JSON.parse(assumption.stdout) as { assumption: { id: string } }).assumption.id;
+
+    const falsify = await runCli([
+      "assumption",
+      "falsify",
+      assumptionId,
+      "--evidence",
+      "Imaging shows pre-existing receptor patches.",
+      "--project-key",
+      projectDir,
+      "--json",
+    ]);
+    expect(falsify.exitCode).toBe(0);
+
+    const lineage = await runCli(["graph", "query", "lineage", childId, "--project-key", projectDir, "--json"]);
+    expect(lineage.exitCode).toBe(0);
+    const lineageParsed = JSON.parse(lineage.stdout) as {
+      ok: boolean;
+      lineage: Array<{ node: { id: string }; depth: number }>;
+    };
+    expect(lineageParsed.ok).toBe(true);
+    expect(lineageParsed.lineage.map((step) => step.node.id)).toEqual([childId, parentId]);
+
+    const edges = await runCli(["graph", "query", "edges", "--type", "refines", "--project-key", projectDir, "--json"]);
+    expect(edges.exitCode).toBe(0);
+    const edgesParsed = JSON.parse(edges.stdout) as { edges: Array<{ from: string; to: string; type: string }> };
+    expect(edgesParsed.edges).toEqual([{ from: childId, to: parentId, type: "refines" }]);
+
+    const undermining = await runCli(["graph", "query", "falsified-assumptions", "--project-key", projectDir]);
+    expect(undermining.exitCode).toBe(0);
+    expect(undermining.stdout).toContain(assumptionId);
+    expect(undermining.stdout).toContain(childId);
+
+    const badType = await runCli(["graph", "query", "edges", "--type", "causes", "--project-key", projectDir]);
+    expect(badType.exitCode).not.toBe(0);
+    expect(badType.stderr).toContain("Invalid --type");
+  });
+});
+
 // ============================================================================
 // Tests: Test CLI
 // ============================================================================
@@ -3551,12 +4442,675 @@ describe("test CLI", () => {
     expect(stateById.get(hypothesisAId)).toBe("confirmed");
     expect(stateById.get(hypothesisBId)).toBe("refuted");
   });
+
+  it("plans open tests within a cost budget (json and human)", async () => {
+    const { projectDir, sessionId, testId } = setupTestProjectFixture();
+
+    const testsPath = join(projectDir, ".research", "tests", `${sessionId}-tests.json`);
+    const testsFile = JSON.parse(readFileSync(testsPath, "utf8")) as { tests: Array<Record<string, unknown>> };
+    const followUpId = `T-${sessionId}-002`;
+    testsFile.tests.push({
+      ...testsFile.tests[0],
+      id: followUpId,
+      name: "Field replication of the assay",
+      evidencePerWeekScore: { likelihoodRatio: 3, cost: 0, speed: 1, ambiguity: 2 },
+      dependsOn: [testId],
+    });
+    writeFileSync(testsPath, JSON.stringify(testsFile, null, 2), "utf8");
+
+    const plan = await runCli(["test", "plan", "--project-key", projectDir, "--max-cost", "1000", "--json"]);
+    expect(plan.exitCode).toBe(0);
+    const parsed = JSON.parse(plan.stdout) as {
+      ok: boolean;
+      plan: {
+        steps: Array<{ order: number; test: { id: string } }>;
+        unplanned: Array<{ test: { id: string }; reason: string }>;
+        totals: { cost: number };
+      };
+    };
+    expect(parsed.ok).toBe(true);
+    expect(parsed.plan.steps.map((step) => step.test.id)).toEqual([testId]);
+    expect(parsed.plan.unplanned).toEqual([
+      expect.objectContaining({ test: expect.objectContaining({ id: followUpId }), reason: "over_cost_budget" }),
+    ]);
+    expect(parsed.plan.totals.cost).toBe(500);
+
+    const human = await runCli(["test", "plan", "--project-key", projectDir]);
+    expect(human.exitCode).toBe(0);
+    expect(human.stdout).toContain(` 1. ${testId}`);
+    expect(human.stdout).toContain(` 2. ${followUpId}`);
+  });
+
+  it("plans tests when the hypothesis registry is empty", async () => {
+    const { projectDir, sessionId, testId } = setupTestProjectFixture();
+    rmSync(join(projectDir, ".research", "hypotheses", `${sessionId}-hypotheses.json`));
+
+    const plan = await runCli(["test", "plan", "--project-key", projectDir, "--json"]);
+    expect(plan.exitCode).toBe(0);
+    const parsed = JSON.parse(plan.stdout) as { plan: { steps: Array<{ test: { id: string } }>; unplanned: unknown[] } };
+    expect(parsed.plan.steps.map((step) => step.test.id)).toEqual([testId]);
+    expect(parsed.plan.unplanned).toEqual([]);
+  });
+
+  it("scaffolds a harness whose run encodes into hypothesis bindings", async () => {
+    const { projectDir, sessionId, testId, hypothesisAId, hypothesisBId } = setupTestProjectFixture();
+
+    const scaffold = await runCli(["test", "scaffold", testId, "--project-key", projectDir, "--json"]);
+    expect(scaffold.exitCode).toBe(0);
+    const scaffolded = JSON.parse(scaffold.stdout) as { ok: boolean; dir: string; files: string[]; run_command: string };
+    expect(scaffolded.dir).toBe(join(projectDir, "experiments", testId));
+    expect(scaffolded.files.map((f) => f.slice(scaffolded.dir.length + 1))).toEqual([
+      "run.ts",
+      "potency.ts",
+      "outcome.schema.json",
+      "README.md",
+    ]);
+    expect(scaffolded.run_command).toContain(`--thread-id ${sessionId} --test-id ${testId} -- bun experiments/${testId}/run.ts`);
+
+    // Refuses to clobber an existing harness
+    const again = await runCli(["test", "scaffold", testId, "--project-key", projectDir]);
+    expect(again.exitCode).toBe(1);
+    expect(again.stderr).toContain("--force");
+
+    const runAndEncode = async () => {
+      const run = await runCli(
+        [
+          "experiment",
+          "run",
+          "--thread-id",
+          sessionId,
+          "--test-id",
+          testId,
+          "--cwd",
+          projectDir,
+          "--timeout",
+          "30",
+          "--",
+          process.execPath,
+          join(scaffolded.dir, "run.ts"),
+        ],
+        { timeout: 40000 }
+      );
+      expect(run.exitCode).toBe(0);
+      const encode = await runCli([
+        "experiment",
+        "encode",
+        "--result-file",
+        run.stdout.trim(),
+        "--project-key",
+        projectDir,
+        "--json",
+      ]);
+      expect(encode.exitCode).toBe(0);
+      return JSON.parse(encode.stdout) as {
+        delta: { payload: { status: string; actual_outcomes?: Record<string, string> } };
+        bindings?: Array<{ hypothesis_id: string; binding: string }>;
+        inconclusive?: string[];
+      };
+    };
+
+    // Unimplemented potency stub: nothing binds
+    const stub = await runAndEncode();
+    expect(stub.delta.payload.status).toBe("failed");
+    expect(stub.bindings).toEqual([]);
+    expect(stub.inconclusive).toEqual([hypothesisAId, hypothesisBId]);
+
+    // Fill in the stubs the way an experimenter would
+    const potencyPath = join(scaffolded.dir, "potency.ts");
+    writeFileSync(
+      potencyPath,
+      readFileSync(potencyPath, "utf8").replace("return { passed: false", "return { passed: true"),
+      "utf8"
+    );
+    const runPath = join(scaffolded.dir, "run.ts");
+    const filled = readFileSync(runPath, "utf8")
+      .replace('throw new Error("measure() is not implemented yet");', "return { signal: true };")
+      .replace(
+        /return Object\.fromEntries\(\n\s+Object\.keys\(EXPECTED\)[^\n]*\n\s+\);/,
+        `return { ${JSON.stringify(hypothesisAId)}: { verdict: "matched" }, ${JSON.stringify(hypothesisBId)}: { verdict: "violated", reason: "signal detected" } };`
+      );
+    expect(filled).not.toContain("judge() is not implemented yet");
+    writeFileSync(runPath, filled, "utf8");
+
+    const real = await runAndEncode();
+    expect(real.delta.payload.status).toBe("passed");
+    expect(real.bindings).toEqual([
+      { hypothesis_id: hypothesisAId, binding: "matched" },
+      { hypothesis_id: hypothesisBId, binding: "violated", reason: "signal detected" },
+    ]);
+    expect(real.delta.payload.actual_outcomes).toEqual({
+      [hypothesisAId]: "matched",
+      [hypothesisBId]: "violated: signal detected",
+    });
+  });
+
+  it("applies a program's transition policy to a harness result and reverts it", async () => {
+    const { projectDir, sessionId, testId, hypothesisAId, hypothesisBId } = setupTestProjectFixture();
+
+    const created = await runCli([
+      "program",
+      "create",
+      "--name",
+      "Policy program",
+      "--description",
+      "Auto-kill test",
+      "--sessions",
+      sessionId,
+      "--project-key",
+      projectDir,
+      "--json",
+    ]);
+    expect(created.exitCode).toBe(0);
+    const programId = (JSON.parse(created.stdout) as { program: { id: string } }).program.id;
+
+    const policy = await runCli([
+      "program",
+      "policy",
+      programId,
+      "--kill",
+      "apply",
+      "--project-key",
+      projectDir,
+      "--json",
+    ]);
+    expect(policy.exitCode).toBe(0);
+    expect(JSON.parse(policy.stdout)).toMatchObject({
+      updated: true,
+      policy: { kill: { mode: "apply", minConfidence: "high" }, validate: { mode: "propose" } },
+    });
+
+    const scaffold = await runCli(["test", "scaffold", testId, "--project-key", projectDir, "--json"]);
+    expect(scaffold.exitCode).toBe(0);
+    const dir = (JSON.parse(scaffold.stdout) as { dir: string }).dir;
+    const potencyPath = join(dir, "potency.ts");
+    writeFileSync(
+      potencyPath,
+      readFileSync(potencyPath, "utf8").replace("return { passed: false", "return { passed: true"),
+      "utf8"
+    );
+    const runPath = join(dir, "run.ts");
+    writeFileSync(
+      runPath,
+      readFileSync(runPath, "utf8")
+        .replace('throw new Error("measure() is not implemented yet");', "return { signal: true };")
+        .replace(
+          /return Object\.fromEntries\(\n\s+Object\.keys\(EXPECTED\)[^\n]*\n\s+\);/,
+          `return { ${JSON.stringify(hypothesisAId)}: { verdict: "matched", confidence: "high" }, ${JSON.stringify(hypothesisBId)}: { verdict: "violated", confidence: "high", reason: "signal detected" } };`
+        ),
+      "utf8"
+    );
+
+    const run = await runCli(
+      [
+        "experiment",
+        "run",
+        "--thread-id",
+        sessionId,
+        "--test-id",
+        testId,
+        "--cwd",
+        projectDir,
+        "--timeout",
+        "30",
+        "--",
+        process.execPath,
+        runPath,
+      ],
+      { timeout: 40000 }
+    );
+    expect(run.exitCode).toBe(0);
+    const resultFile = run.stdout.trim();
+    const bind = (...extra: string[]) =>
+      runCli(["experiment", "bind", "--result-file", resultFile, "--project-key", projectDir, "--json", ...extra]);
+
+    // Dry run decides without touching anything
+    const dry = await bind("--dry-run");
+    expect(dry.exitCode).toBe(0);
+    const dryJson = JSON.parse(dry.stdout) as { program_id: string; applied: unknown[]; decisions: Array<{ disposition: string }> };
+    expect(dryJson.program_id).toBe(programId);
+    expect(dryJson.applied).toEqual([]);
+    expect(dryJson.decisions.map((d) => d.disposition)).toEqual(["propose", "apply"]);
+
+    const bound = await bind();
+    expect(bound.exitCode).toBe(0);
+    const boundJson = JSON.parse(bound.stdout) as {
+      applied: Array<{ hypothesis_id: string; from: string; to: string; intervention_id: string }>;
+      proposals: Array<{ hypothesisId: string; command: string }>;
+    };
+    expect(boundJson.applied).toEqual([
+      { hypothesis_id: hypothesisBId, from: "active", to: "refuted", intervention_id: `INT-${sessionId}-001` },
+    ]);
+    expect(boundJson.proposals).toEqual([
+      expect.objectContaining({ hypothesisId: hypothesisAId, command: `brenner test bind ${testId} ${hypothesisAId} --matched` }),
+    ]);
+
+    const killed = await runCli(["hypothesis", "show", hypothesisBId, "--project-key", projectDir, "--json"]);
+    expect(JSON.parse(killed.stdout).hypothesis.state).toBe("refuted");
+
+    const revert = await runCli([
+      "experiment",
+      "revert",
+      `INT-${sessionId}-001`,
+      "--by",
+      "alice",
+      "--project-key",
+      projectDir,
+      "--json",
+    ]);
+    expect(revert.exitCode).toBe(0);
+    const reverted = JSON.parse(revert.stdout) as {
+      hypothesis: { state: string };
+      intervention: { type: string; reversed_by: string; reversible: boolean };
+    };
+    expect(reverted.hypothesis.state).toBe("active");
+    expect(reverted.intervention).toMatchObject({ type: "auto_transition", reversed_by: "alice", reversible: true });
+
+    const twice = await runCli(["experiment", "revert", `INT-${sessionId}-001`, "--project-key", projectDir]);
+    expect(twice.exitCode).toBe(1);
+    expect(twice.stderr).toContain("already reversed");
+  });
 });
 
 // ============================================================================
 // Tests: Evidence CLI
 // ============================================================================
 
+describe("evidence import", () => {
+  it("imports a library export, skipping records already in the pack", async () => {
+    const projectDir = join(tmpdir(), `brenner-test-evidence-${randomUUID()}`);
+    mkdirSync(projectDir, { recursive: true });
+    const threadId = "RS-EVIDENCE-IMPORT";
+
+    const add = await runCli([
+      "evidence",
+      "add",
+      "--thread-id",
+      threadId,
+      "--project-key",
+      projectDir,
+      "--type",
+      "paper",
+      "--title",
+      "Existing paper",
+      "--source",
+      "https://doi.org/10.1000/EXISTING",
+    ]);
+    expect(add.exitCode).toBe(0);
+
+    const bibPath = join(projectDir, "library.bib");
+    writeFileSync(
+      bibPath,
+      [
+        "@article{dup, title = {A different title}, journal = {Cell}, year = 2020, doi = {10.1000/existing}}",
+        "@article{paper1, title = {Operon control}, author = {Jacob, F. and Monod, J.}, journal = {JMB}, year = 1961,",
+        "  abstract = {Enzyme synthesis is under double genetic control.}}",
+        "@misc{pre1, title = {Worm atlas}, year = 2024, archivePrefix = {arXiv}, eprint = {2401.1}}",
+        "@article{again, title = {Operon Control}, journal = {JMB}, year = 1961}",
+      ].join("\n"),
+      "utf8"
+    );
+    const args = ["evidence", "import", "--thread-id", threadId, "--project-key", projectDir, "--file", bibPath, "--with-abstracts"];
+
+    const dryRun = await runCli([...args, "--dry-run"]);
+    expect(dryRun.exitCode).toBe(0);
+    expect(dryRun.stdout).toContain("Would add EV-002: Operon control [paper] (abstract as E1)");
+    expect(dryRun.stdout).toContain("Skipped dup: A different title (same DOI as EV-001)");
+    expect(dryRun.stdout).toContain("Skipped again: Operon Control (same title as EV-002)");
+    expect(dryRun.stdout).toContain("bibtex: 2 to add, 2 duplicates skipped, 0 unreadable");
+
+    const imported = await runCli([...args, "--json"]);
+    expect(imported.exitCode).toBe(0);
+    const parsed = JSON.parse(imported.stdout) as { added: Array<{ id: string; type: string }>; skipped: unknown[] };
+    expect(parsed.added).toEqual([
+      expect.objectContaining({ id: "EV-002", type: "paper" }),
+      expect.objectContaining({ id: "EV-003", type: "preprint" }),
+    ]);
+
+    const pack = JSON.parse(readFileSync(join(projectDir, "artifacts", threadId, "evidence.json"), "utf8")) as {
+      next_id: number;
+      records: Array<{ id: string; source: string; excerpts: Array<{ anchor: string; text: string }> }>;
+    };
+    expect(pack.next_id).toBe(4);
+    expect(pack.records[1].excerpts).toEqual([
+      expect.objectContaining({ anchor: "E1", text: "Enzyme synthesis is under double genetic control." }),
+    ]);
+    expect(pack.records[2].source).toBe("bibtex:pre1");
+
+    // Re-importing the same file adds nothing
+    const again = await runCli(args);
+    expect(again.exitCode).toBe(0);
+    expect(again.stdout).toContain("bibtex: 0 added, 4 duplicates skipped");
+
+    const unknown = await runCli(["evidence", "import", "--thread-id", threadId, "--project-key", projectDir, "--file", bibPath, "--format", "endnote"]);
+    expect(unknown.exitCode).toBe(1);
+    expect(unknown.stderr).toContain('Invalid --format "endnote"');
+  });
+});
+
+// ============================================================================
+// Tests: MCP server
+// ============================================================================
+
+describe("mcp serve", () => {
+  it("answers JSON-RPC on stdio and writes through the registries", async () => {
+    const projectDir = createTempDir("brenner-test-mcp");
+    const requests = [
+      { jsonrpc: "2.0", id: 1, method: "initialize", params: { protocolVersion: "2025-06-18", capabilities: {} } },
+      { jsonrpc: "2.0", method: "notifications/initialized" },
+      { jsonrpc: "2.0", id: 2, method: "tools/list" },
+      {
+        jsonrpc: "2.0",
+        id: 3,
+        method: "tools/call",
+        params: {
+          name: "critique_create",
+          arguments: {
+            target: "framing",
+            attack: "The question assumes a single mechanism",
+            evidenceToConfirm: "Two independent pathways",
+            sessionId: "RS1",
+          },
+        },
+      },
+      { jsonrpc: "2.0", id: 4, method: "tools/call", params: { name: "critique_create", arguments: { target: "Q-1" } } },
+      { jsonrpc: "2.0", id: 5, method: "resources/read", params: { uri: "brenner://critiques" } },
+    ];
+
+    const result = await runCli(["mcp", "serve", "--project-key", projectDir, "--agent", "McpAgent"], {
+      stdin: [...requests.map((r) => JSON.stringify(r)), "not json"].join("\n"),
+      timeout: 15000,
+    });
+    expect(result.exitCode).toBe(0);
+    expect(result.stderr).toContain("Brenner MCP server ready on stdio");
+
+    const responses = result.stdout.trim().split("\n").map((line) => JSON.parse(line));
+    expect(responses.map((r: { id: number | null }) => r.id)).toEqual([1, 2, 3, 4, 5, null]);
+    expect(responses[0].result.serverInfo.name).toBe("brenner");
+    expect(responses[1].result.tools.map((t: { name: string }) => t.name)).toContain("hypothesis_list");
+    expect(responses[2].result.structuredContent.critique).toMatchObject({ id: "C-RS1-001", raisedBy: "McpAgent" });
+    expect(responses[3].result).toMatchObject({ isError: true });
+    expect(JSON.parse(responses[4].result.contents[0].text).critiques).toHaveLength(1);
+    expect(responses[5].error.code).toBe(-32700);
+
+    const listed = await runCli(["critique", "list", "--project-key", projectDir, "--json"]);
+    expect(JSON.parse(listed.stdout).critiques.map((c: { id: string }) => c.id)).toEqual(["C-RS1-001"]);
+  });
+});
+
+describe("mail serve --local", () => {
+  /** Start the local Agent Mail server on a free port; resolves once it is listening. */
+  async function startLocalMail(dbPath: string): Promise<{ baseUrl: string; stop: () => Promise<void> }> {
+    const proc = spawn(process.execPath, ["run", CLI_PATH, "mail", "serve", "--local", "--db", dbPath, "--port", "0"], {
+      env: { ...process.env, AGENT_MAIL_BASE_URL: "http://127.0.0.1:8765", NO_COLOR: "1" },
+      stdio: ["ignore", "pipe", "pipe"],
+    });
+    const stop = () =>
+      new Promise<void>((resolveStop) => {
+        if (proc.exitCode !== null) return resolveStop();
+        proc.once("exit", () => resolveStop());
+        proc.kill("SIGTERM");
+      });
+
+    const baseUrl = await new Promise<string>((resolveUrl, reject) => {
+      let output = "";
+      const timer = setTimeout(() => reject(new Error(`mail serve did not start: ${output}`)), 10000);
+      proc.stdout.on("data", (data) => {
+        output += data.toString();
+        const match = output.match(/listening on (http:\/\/[^/\s]+)\//);
+        if (match) {
+          clearTimeout(timer);
+          resolveUrl(match[1]);
+        }
+      });
+      proc.stderr.on("data", (data) => {
+        output += data.toString();
+      });
+      proc.once("exit", () => {
+        clearTimeout(timer);
+        reject(new Error(`mail serve exited: ${output}`));
+      });
+    }).catch(async (err) => {
+      await stop();
+      throw err;
+    });
+    return { baseUrl, stop };
+  }
+
+  it("requires --local", async () => {
+    const result = await runCli(["mail", "serve"]);
+    expect(result.exitCode).toBe(1);
+    expect(result.stderr).toContain("--local");
+  });
+
+  it("refuses a non-loopback bind without a token", async () => {
+    const result = await runCli(["mail", "serve", "--local", "--host", "0.0.0.0", "--port", "0"], {
+      env: { AGENT_MAIL_BEARER_TOKEN: "" },
+    });
+    expect(result.exitCode).toBe(1);
+    expect(result.stderr).toContain("Refusing to serve Agent Mail on 0.0.0.0 without a token");
+  });
+
+  it("runs mail send, inbox, ack and thread against SQLite and keeps mail across restarts", async () => {
+    const dir = createTempDir("brenner-test-local-mail");
+    const dbPath = join(dir, "mail.sqlite3");
+    const projectKey = join(dir, "project");
+    const bodyFile = join(dir, "body.md");
+    writeFileSync(bodyFile, "Please review the gradient hypothesis.", "utf8");
+
+    let server = await startLocalMail(dbPath);
+    try {
+      const env = { AGENT_MAIL_BASE_URL: server.baseUrl };
+      const health = await runCli(["mail", "health"], { env, timeout: 15000 });
+      expect(health.exitCode).toBe(0);
+      expect(JSON.parse(health.stdout).readiness.status).toBe("ready");
+
+      const sent = await runCli(
+        [
+          "mail", "send", "--project-key", projectKey, "--sender", "GreenCastle", "--to", "BlueLake",
+          "--subject", "KICKOFF: gradient", "--body-file", bodyFile, "--thread-id", "RS-1", "--ack-required",
+        ],
+        { env, timeout: 15000 }
+      );
+      expect(sent.exitCode).toBe(0);
+      const messageId = JSON.parse(sent.stdout).structuredContent.deliveries[0].payload.id as number;
+
+      const ack = await runCli(
+        ["mail", "ack", "--project-key", projectKey, "--agent", "BlueLake", "--message-id", String(messageId)],
+        { env, timeout: 15000 }
+      );
+      expect(JSON.parse(ack.stdout).structuredContent).toMatchObject({ message_id: messageId, acknowledged: true });
+    } finally {
+      await server.stop();
+    }
+
+    server = await startLocalMail(dbPath);
+    try {
+      const env = { AGENT_MAIL_BASE_URL: server.baseUrl };
+      const rpc = async (name: string, args: Record<string, unknown>) => {
+        const res = await fetch(`${server.baseUrl}/mcp/`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ jsonrpc: "2.0", id: name, method: "tools/call", params: { name, arguments: args } }),
+        });
+        return ((await res.json()) as { result: { structuredContent: Record<string, unknown>; isError?: boolean } }).result;
+      };
+
+      const inbox = await runCli(
+        ["mail", "inbox", "--project-key", projectKey, "--agent", "BlueLake", "--include-bodies"],
+        { env, timeout: 15000 }
+      );
+      const messages = JSON.parse(inbox.stdout).structuredContent.result as Array<Record<string, unknown>>;
+      expect(messages).toHaveLength(1);
+      expect(messages[0]).toMatchObject({ from: "GreenCastle", thread_id: "RS-1", body_md: "Please review the gradient hypothesis." });
+
+      const reply = await rpc("reply_message", {
+        project_key: projectKey,
+        message_id: messages[0].id,
+        sender_name: "BlueLake",
+        body_md: "Reviewed: the gradient needs a scaling test.",
+      });
+      expect(reply.structuredContent.deliveries).toEqual([
+        expect.objectContaining({ payload: expect.objectContaining({ subject: "Re: KICKOFF: gradient", thread_id: "RS-1", to: ["GreenCastle"] }) }),
+      ]);
+
+      const found = await rpc("search_messages", { project_key: projectKey, query: "scaling" });
+      expect((found.structuredContent.result as Array<{ from: string }>).map((m) => m.from)).toEqual(["BlueLake"]);
+
+      const thread = await runCli(["mail", "thread", "--project-key", projectKey, "--thread-id", "RS-1"], { env, timeout: 15000 });
+      expect(JSON.parse(thread.stdout).structuredContent.summary).toEqual({
+        participants: ["BlueLake", "GreenCastle"],
+        key_points: ["KICKOFF: gradient", "Re: KICKOFF: gradient"],
+        action_items: ['GreenCastle: acknowledge #2 "Re: KICKOFF: gradient"'],
+      });
+    } finally {
+      await server.stop();
+    }
+  });
+});
+
+describe("relay serve", () => {
+  /** Start the session relay on a free port; resolves once it is listening. */
+  async function startRelay(args: string[]): Promise<{ baseUrl: string; stop: () => Promise<void> }> {
+    const proc = spawn(process.execPath, ["run", CLI_PATH, "relay", "serve", "--port", "0", ...args], {
+      env: { ...process.env, BRENNER_RELAY_TOKEN: "", NO_COLOR: "1" },
+      stdio: ["ignore", "pipe", "pipe"],
+    });
+    const stop = () =>
+      new Promise<void>((resolveStop) => {
+        if (proc.exitCode !== null) return resolveStop();
+        proc.once("exit", () => resolveStop());
+        proc.kill("SIGTERM");
+      });
+
+    const baseUrl = await new Promise<string>((resolveUrl, reject) => {
+      let output = "";
+      const timer = setTimeout(() => reject(new Error(`relay serve did not start: ${output}`)), 10000);
+      proc.stdout.on("data", (data) => {
+        output += data.toString();
+        const match = output.match(/listening on (http:\/\/[^/\s]+)\//);
+        if (match) {
+          clearTimeout(timer);
+          resolveUrl(match[1]);
+        }
+      });
+      proc.stderr.on("data", (data) => {
+        output += data.toString();
+      });
+      proc.once("exit", () => {
+        clearTimeout(timer);
+        reject(new Error(`relay serve exited: ${output}`));
+      });
+    }).catch(async (err) => {
+      await stop();
+      throw err;
+    });
+    return { baseUrl, stop };
+  }
+
+  it("refuses a non-loopback bind without a token", async () => {
+    const result = await runCli(["relay", "serve", "--host", "0.0.0.0", "--port", "0"], {
+      env: { BRENNER_RELAY_TOKEN: "" },
+    });
+    expect(result.exitCode).toBe(1);
+    expect(result.stderr).toContain("Refusing to serve the session relay on 0.0.0.0 without a token");
+  });
+
+  it("authenticates collaborators with actor tokens and stamps their presence", async () => {
+    const issued = await runCli(["relay", "token", "--actor", "alice", "--token", "s3cret"]);
+    expect(issued.exitCode).toBe(0);
+    const aliceToken = issued.stdout.trim();
+    expect(aliceToken.startsWith("alice.")).toBe(true);
+
+    const relay = await startRelay(["--token", "s3cret", "--allow-origin", "http://localhost:3000"]);
+    try {
+      const presence = (token: string, origin: string) =>
+        fetch(`${relay.baseUrl}/?token=${encodeURIComponent(token)}`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json", Origin: origin },
+          body: JSON.stringify({ sessionId: "SESSION-1", presence: { actor: "mallory", name: "Alice" } }),
+        });
+
+      expect((await presence("s3cret", "http://localhost:3000")).status).toBe(401);
+
+      const accepted = await presence(aliceToken, "http://localhost:3000");
+      expect(accepted.headers.get("access-control-allow-origin")).toBe("http://localhost:3000");
+      const body = (await accepted.json()) as { presence: Array<{ actor: string }> };
+      expect(body.presence.map((p) => p.actor)).toEqual(["alice"]);
+
+      const foreign = await presence(aliceToken, "https://evil.example");
+      expect(foreign.headers.get("access-control-allow-origin")).toBeNull();
+    } finally {
+      await relay.stop();
+    }
+  });
+});
+describe("simulate", () => {
+  it("requires an explicit roster", async () => {
+    const excerptFile = createTempFile("sim-excerpt", "§42: Choose the right organism.");
+    const result = await runCli([
+      "simulate", "--thread-id", "RS-SIM", "--excerpt-file", excerptFile, "--question", "Q?", "--to", "BlueLake",
+    ]);
+    expect(result.exitCode).toBe(1);
+    expect(result.stderr).toContain("--role-map");
+  });
+
+  it("runs scripted agents through kickoff, compile, lint and publish", async () => {
+    const dir = createTempDir("brenner-test-simulate");
+    writeFileSync(join(dir, "excerpt.md"), "§42: Choose the right organism.\n§58: Reduce to one dimension.", "utf8");
+    writeFileSync(
+      join(dir, "purple.md"),
+      [
+        "Fixture reply.",
+        "",
+        "```delta",
+        JSON.stringify({ operation: "EDIT", section: "research_thread", target_id: "RT", payload: { why_it_matters: "Fixture" } }),
+        "```",
+      ].join("\n"),
+      "utf8"
+    );
+    writeFileSync(
+      join(dir, "sim.json"),
+      JSON.stringify({
+        agents: [
+          { name: "BlueLake", role: "hypothesis_generator" },
+          { name: "RedFox", role: "test_designer" },
+          { name: "GreenPond", role: "adversarial_critic" },
+          { name: "GreyOwl", role: "synthesis", behavior: "malformed" },
+          { name: "PurplePond", role: "synthesis", fixture: "purple.md" },
+        ],
+      }),
+      "utf8"
+    );
+
+    const result = await runCli(
+      [
+        "simulate", "--project-key", dir, "--thread-id", "RS-SIM-1", "--excerpt-file", join(dir, "excerpt.md"),
+        "--question", "How do cells read a morphogen gradient?", "--script", join(dir, "sim.json"),
+        "--out-file", join(dir, "artifact.md"), "--publish", "--json",
+      ],
+      { timeout: 30000 }
+    );
+    expect(result.exitCode).toBe(0);
+    const report = JSON.parse(result.stdout);
+    expect(report.ok).toBe(true);
+    expect(report.agents.map((a: { name: string; reply: { subject: string } }) => [a.name, a.reply.subject])).toEqual([
+      ["BlueLake", "DELTA[gpt]: hypothesis_generator contributions"],
+      ["RedFox", "DELTA[opus]: test_designer contributions"],
+      ["GreenPond", "DELTA[gemini]: adversarial_critic contributions"],
+      ["GreyOwl", "DELTA[gpt]: synthesis contributions"],
+      ["PurplePond", "DELTA[gpt]: PurplePond (fixture)"],
+    ]);
+    expect(report.compile.deltas).toEqual({ total_blocks: 17, valid: 16, invalid: 1 });
+    expect(report.compile.invalid_deltas[0].error).toContain("Invalid JSON");
+    expect(report.lint.summary.errors).toBe(0);
+    expect(report.published.subject).toBe("COMPILED: v1 artifact");
+
+    const artifact = readFileSync(join(dir, "artifact.md"), "utf8");
+    expect(artifact).toContain("How do cells read a morphogen gradient?");
+    expect(artifact).toContain("Fixture");
+  });
+});
+
 describe("evidence post", () => {
   it("supports --dry-run --json and optional --evidence-id filtering", async () => {
     const projectDir = join(tmpdir(), `brenner-test-evidence-${randomUUID()}`);
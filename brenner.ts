@@ -9,11 +9,13 @@
  * Runtime: Bun-only. Local imports are bundled when compiled.
  */
 
-import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { chmodSync, existsSync, mkdirSync, readdirSync, readFileSync, rmSync, writeFileSync } from "node:fs";
 import { randomUUID } from "node:crypto";
-import { homedir } from "node:os";
-import { dirname, isAbsolute, join, resolve } from "node:path";
+import { homedir, tmpdir } from "node:os";
+import { dirname, isAbsolute, join, relative, resolve } from "node:path";
 import { createInterface } from "node:readline";
+import { Database } from "bun:sqlite";
+import { pathToFileURL } from "node:url";
 
 // Shared modules from web lib (bundled by Bun)
 import { AgentMailClient } from "./apps/web/src/lib/agentMail";
@@ -27,18 +29,30 @@ import {
   AGENT_ROLES,
   composeKickoffMessages,
   getTriangulatedBrennerKernelMarkdown,
+  resolveRecipientRoles,
   type AgentRole,
   type KickoffConfig,
 } from "./apps/web/src/lib/session-kickoff";
-import { parseDeltaMessage, type ValidDelta } from "./apps/web/src/lib/delta-parser";
+import { parseDeltaMessage, validateTargetIdPrefix, type ValidDelta } from "./apps/web/src/lib/delta-parser";
 import {
+  formatDeltaRepairRequest,
+  repairDeltaMessage,
+  type DeltaRepairProposal,
+} from "./apps/web/src/lib/delta-repair";
+import {
+  conflictResolutionsFromInterventions,
+  conflictResolutionTarget,
   createEmptyArtifact,
+  formatDiffHuman,
+  formatEditConflict,
   formatLintReportHuman,
   formatLintReportJson,
   lintArtifact,
   mergeArtifactWithTimestamps,
   renderArtifactMarkdown,
+  summarizeLintViolations,
   type Artifact,
+  type EditConflict,
   type LintReport,
   type LintSeverity,
   type LintViolation,
@@ -47,7 +61,10 @@ import {
   computeThreadStatusFromThread,
   extractVersion,
   formatThreadStatusSummary,
+  getMessageRounds,
+  isArtifactDeltaMessage,
   parseSubjectType,
+  type BrennerRole,
 } from "./apps/web/src/lib/threadStatus";
 import {
   parseManifest,
@@ -58,6 +75,18 @@ import {
   type PlatformString,
 } from "./apps/web/src/lib/toolchain-manifest";
 import { parseTranscript } from "./apps/web/src/lib/transcript-parser";
+import {
+  buildCitationCorpus,
+  checkArtifactCitations,
+  citationLintViolations,
+  type CitationEvidencePack,
+} from "./apps/web/src/lib/citation-checker";
+import {
+  lintArtifactWithRulePacks,
+  parseLintRulePack,
+  selectLintRulePacks,
+  type LintRulePack,
+} from "./apps/web/src/lib/lint-rule-packs";
 import { AnomalyStorage } from "./apps/web/src/lib/storage/anomaly-storage";
 import {
   createAnomaly,
@@ -95,6 +124,15 @@ import {
 } from "./apps/web/src/lib/schemas/critique";
 import { ProgramStorage } from "./apps/web/src/lib/storage/program-storage";
 import { DashboardAggregator } from "./apps/web/src/lib/storage/program-dashboard";
+import {
+  GRAPH_EDGE_TYPES,
+  KnowledgeGraphAggregator,
+  findNeighbors,
+  findUnderminingAssumptions,
+  queryEdges,
+  traceLineage,
+  type GraphEdgeType,
+} from "./apps/web/src/lib/storage/knowledge-graph";
 import {
   createResearchProgram,
   generateProgramId,
@@ -104,14 +142,25 @@ import {
   resumeProgram,
   completeProgram,
   abandonProgram,
+  setTransitionPolicy,
   type ResearchProgram,
   type ProgramStatus,
 } from "./apps/web/src/lib/schemas/research-program";
+import {
+  DEFAULT_TRANSITION_POLICY,
+  PolicyModeSchema,
+  applyAutoTransition,
+  evaluateTransitionPolicy,
+  revertAutoTransition,
+  type PolicyMode,
+  type TransitionPolicy,
+} from "./apps/web/src/lib/schemas/transition-policy";
 import { HypothesisStorage } from "./apps/web/src/lib/storage/hypothesis-storage";
 import {
   createHypothesis,
   generateHypothesisId,
   HypothesisSchema,
+  HypothesisConfidenceSchema,
   type Hypothesis,
   type HypothesisState,
   type HypothesisCategory,
@@ -130,13 +179,57 @@ import {
   type StateTransition,
 } from "./apps/web/src/lib/schemas/hypothesis-lifecycle";
 import { TestStorage } from "./apps/web/src/lib/storage/test-storage";
+import { InterventionStorage } from "./apps/web/src/lib/storage/intervention-storage";
+import { ExperimentRunStorage } from "./apps/web/src/lib/storage/experiment-run-storage";
+import {
+  runEntryFromResult,
+  summarizeRunHistory,
+  type ExperimentRunEntry,
+  type RunDisagreement,
+} from "./apps/web/src/lib/schemas/experiment-run";
+import {
+  createInterventionId,
+  determineInterventionSeverity,
+  validateIntervention,
+} from "./apps/web/src/lib/schemas/operator-intervention";
 import { PredictionSchema, type Prediction } from "./apps/web/src/lib/schemas/prediction";
 import { TestRecordSchema, type TestRecord, type TestStatus } from "./apps/web/src/lib/schemas/test-record";
+import {
+  bindingsFromOutcome,
+  extractExperimentOutcome,
+  harnessSpecFromTestItem,
+  harnessSpecFromTestRecord,
+  renderHarnessFiles,
+  type HarnessSpec,
+  type HypothesisBinding,
+} from "./apps/web/src/lib/experiment-harness";
+import {
+  EXECUTION_PROFILES,
+  EXECUTION_PROFILE_NAMES,
+  OutputCollector,
+  detectSandboxCapabilities,
+  effectiveTimeoutSeconds,
+  isExecutionProfileName,
+  planSandboxedCommand,
+  sandboxProvenance,
+  type SandboxProvenance,
+} from "./apps/web/src/lib/experiment-sandbox";
+import {
+  CITATION_FORMATS,
+  importLibraryIntoEvidencePack,
+  parseCitationLibrary,
+  type CitationFormat,
+} from "./apps/web/src/lib/evidence-import";
 import {
   recordTestExecution,
   suggestTransitionsFromExecution,
   type ExecutionInput,
 } from "./apps/web/src/lib/schemas/test-binding";
+import {
+  planTests,
+  plannableFromTestRecord,
+  UNPLANNED_REASON_LABELS,
+} from "./apps/web/src/lib/brenner-loop/test-plan";
 import {
   scoreSession,
   BRENNER_QUOTES,
@@ -144,6 +237,57 @@ import {
   type SessionDimensionScore,
   type DimensionScore,
 } from "./apps/web/src/lib/schemas/scorecard";
+import {
+  buildSessionRecord,
+  formatReplayReportHuman,
+  replaySessionRecord,
+} from "./apps/web/src/lib/session-replay";
+import {
+  AgentRosterEntrySchema,
+  ReplayModeSchema,
+  validateSessionRecord,
+  type AgentRosterEntry,
+  type ReplayMode,
+  type SessionRecord,
+} from "./apps/web/src/lib/schemas/session-replay";
+import {
+  SessionRelay,
+  createRelayActorToken,
+  handleSessionRelayRequest,
+  verifyRelayActorToken,
+} from "./apps/web/src/lib/brenner-loop/collaboration-relay";
+import { BrennerMcpServer } from "./apps/web/src/lib/mcp-server";
+import { LocalAgentMailServer, handleLocalAgentMailRequest, isLoopbackHost } from "./apps/web/src/lib/agent-mail-local";
+import {
+  createScriptedAgent,
+  parseBehaviorMap,
+  parseSimulationScript,
+  type ScriptedAgentSpec,
+} from "./apps/web/src/lib/session-simulator";
+import { diffCompiledVersions, listCompiledVersions, rebuildArtifactAtVersion } from "./apps/web/src/lib/artifact-versions";
+import {
+  checkConvergence,
+  composeRoundKickoffMessages,
+  computeRoundProgress,
+  findUnopenedRound,
+  parseConvergenceCriteria,
+  type ConvergenceCheck,
+} from "./apps/web/src/lib/session-orchestrator";
+import type { HypothesisCard } from "./apps/web/src/lib/brenner-loop/hypothesis";
+import {
+  createDebate,
+  generateDebateThreadId,
+  getDebateStatus,
+  isDebateFormat,
+} from "./apps/web/src/lib/brenner-loop/agents/debate";
+import {
+  concludeDebateThread,
+  missingRosterRoles,
+  parseDebateRoster,
+  postDebateConclusion,
+  readDebateThread,
+  sendDebateRound,
+} from "./apps/web/src/lib/brenner-loop/agents/debate-mail";
 
 function isRecord(value: Json): value is { [key: string]: Json } {
   return typeof value === "object" && value !== null && !Array.isArray(value);
@@ -339,6 +483,149 @@ function parseArtifactFromJsonFile(path: string): Artifact {
   return parsed as unknown as Artifact;
 }
 
+function parseEvidencePackFromJsonFile(path: string): CitationEvidencePack {
+  let parsed: Json;
+  try {
+    parsed = JSON.parse(readTextFile(path)) as Json;
+  } catch (e) {
+    const msg = e instanceof Error ? e.message : String(e);
+    throw new Error(`Failed to parse evidence pack JSON at ${path}: ${msg}`);
+  }
+
+  if (!isRecord(parsed) || !Array.isArray(parsed.records)) {
+    throw new Error(`Evidence pack JSON must be an object with a "records" array: ${path}`);
+  }
+
+  return parsed as unknown as CitationEvidencePack;
+}
+
+function parseHypothesisCardFromJsonFile(path: string): HypothesisCard {
+  let parsed: Json;
+  try {
+    parsed = JSON.parse(readTextFile(path)) as Json;
+  } catch (e) {
+    const msg = e instanceof Error ? e.message : String(e);
+    throw new Error(`Failed to parse hypothesis card JSON at ${path}: ${msg}`);
+  }
+
+  if (
+    !isRecord(parsed) ||
+    typeof parsed.id !== "string" ||
+    typeof parsed.statement !== "string" ||
+    typeof parsed.mechanism !== "string"
+  ) {
+    throw new Error(`Hypothesis card JSON must be an object with "id", "statement" and "mechanism": ${path}`);
+  }
+
+  return {
+    domain: [],
+    predictionsIfTrue: [],
+    predictionsIfFalse: [],
+    impossibleIfTrue: [],
+    confounds: [],
+    assumptions: [],
+    ...parsed,
+  } as unknown as HypothesisCard;
+}
+
+const LINT_RULE_PACK_DIR = join(".research", "lint-rules");
+const LINT_RULE_PACK_EXTENSIONS = [".json", ".ts", ".js", ".mjs"];
+
+async function loadLintRulePackFile(path: string): Promise<LintRulePack> {
+  if (path.endsWith(".json")) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(readTextFile(path));
+    } catch (e) {
+      const msg = e instanceof Error ? e.message : String(e);
+      throw new Error(`Failed to parse lint rule pack JSON at ${path}: ${msg}`);
+    }
+    return parseLintRulePack(parsed, path);
+  }
+
+  const mod = (await import(pathToFileURL(path).href)) as { default?: unknown; rulePack?: unknown };
+  return parseLintRulePack(mod.default ?? mod.rulePack, path);
+}
+
+/**
+ * Load lint rule packs from <projectKey>/.research/lint-rules/ plus explicit
+ * files (config `lint.rulePacks`, --rule-packs).
+ */
+async function loadLintRulePacks(projectKey: string, extraPaths: string[]): Promise<LintRulePack[]> {
+  const paths: string[] = [];
+  const packDir = join(projectKey, LINT_RULE_PACK_DIR);
+  if (existsSync(packDir)) {
+    for (const entry of readdirSync(packDir).sort()) {
+      if (LINT_RULE_PACK_EXTENSIONS.some((ext) => entry.endsWith(ext))) paths.push(join(packDir, entry));
+    }
+  }
+  for (const extra of extraPaths) {
+    if (!existsSync(extra)) throw new Error(`Lint rule pack not found: ${extra}`);
+    if (!paths.includes(extra)) paths.push(extra);
+  }
+
+  const packs: LintRulePack[] = [];
+  for (const path of paths) {
+    packs.push(await loadLintRulePackFile(path));
+  }
+  return packs;
+}
+
+/**
+ * Load a `brenner simulate --script` file (JSON, or a TS/JS module exporting
+ * the same shape). Fixture paths resolve relative to the script.
+ */
+async function loadSimulationScript(path: string): Promise<ScriptedAgentSpec[]> {
+  let value: unknown;
+  if (path.endsWith(".json")) {
+    try {
+      value = JSON.parse(readTextFile(path));
+    } catch (e) {
+      const msg = e instanceof Error ? e.message : String(e);
+      throw new Error(`Failed to parse simulation script JSON at ${path}: ${msg}`);
+    }
+  } else {
+    const mod = (await import(pathToFileURL(path).href)) as { default?: unknown; simulation?: unknown };
+    value = mod.default ?? mod.simulation;
+  }
+
+  return parseSimulationScript(value, path).map(({ fixture, ...agent }) =>
+    fixture ? { ...agent, fixtureBody: readTextFile(resolve(dirname(path), fixture)) } : agent
+  );
+}
+
+function parseSessionRecordFromJsonFile(path: string): SessionRecord {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(readTextFile(path));
+  } catch (e) {
+    const msg = e instanceof Error ? e.message : String(e);
+    throw new Error(`Failed to parse session record JSON at ${path}: ${msg}`);
+  }
+
+  const validation = validateSessionRecord(parsed);
+  if (!validation.valid) {
+    throw new Error(`Invalid session record at ${path}:\n${validation.errors.map((e) => `  - ${e}`).join("\n")}`);
+  }
+  return validation.data;
+}
+
+function parseRosterFromJsonFile(path: string): AgentRosterEntry[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(readTextFile(path));
+  } catch (e) {
+    const msg = e instanceof Error ? e.message : String(e);
+    throw new Error(`Failed to parse roster JSON at ${path}: ${msg}`);
+  }
+
+  const result = AgentRosterEntrySchema.array().safeParse(parsed);
+  if (!result.success) {
+    throw new Error(`Invalid roster at ${path}: ${result.error.errors.map((e) => `${e.path.join(".")}: ${e.message}`).join("; ")}`);
+  }
+  return result.data;
+}
+
 function stdoutLine(message: string): void {
   process.stdout.write(ensureTrailingNewline(message));
 }
@@ -501,8 +788,185 @@ type ExperimentResultV01 = {
     arch: string;
     bun_version: string;
   };
+
+  sandbox?: SandboxProvenance;
+};
+
+function readExperimentResultFile(projectKey: string, resultFilePath: string): ExperimentResultV01 {
+  const resolvedResultFile = resolve(projectKey, resultFilePath);
+
+  let resultJson: string;
+  try {
+    resultJson = readTextFile(resolvedResultFile);
+  } catch (e) {
+    const msg = e instanceof Error ? e.message : String(e);
+    throw new Error(`Cannot read result file "${resolvedResultFile}": ${msg}`);
+  }
+
+  let result: ExperimentResultV01;
+  try {
+    result = JSON.parse(resultJson) as ExperimentResultV01;
+  } catch (e) {
+    const msg = e instanceof Error ? e.message : String(e);
+    throw new Error(`Invalid JSON in result file: ${msg}`);
+  }
+
+  // Validate required fields
+  if (!result.result_id) throw new Error("Result file missing required field: result_id");
+  if (!result.test_id) throw new Error("Result file missing required field: test_id");
+  if (!result.thread_id) throw new Error("Result file missing required field: thread_id");
+  if (typeof result.exit_code !== "number") throw new Error("Result file missing required field: exit_code");
+  if (typeof result.timed_out !== "boolean") throw new Error("Result file missing required field: timed_out");
+
+  return result;
+}
+
+type EncodedExperimentResult = {
+  status: "passed" | "failed" | "blocked";
+  delta: Record<string, unknown>;
+  markdown: string;
+  /** Hypothesis bindings from a harness outcome line (null when the run printed none) */
+  bindings: HypothesisBinding[] | null;
+  inconclusive: string[];
+  potencyCheckPassed: boolean | null;
 };
 
+/**
+ * Encode an experiment result as a discriminative_tests EDIT delta.
+ *
+ * When stdout carries a harness outcome (see `brenner test scaffold`), the
+ * per-hypothesis verdicts become actual_outcomes and matched/violated bindings.
+ */
+function encodeExperimentResult(result: ExperimentResultV01, resultPath: string): EncodedExperimentResult {
+  // Determine status based on exit code and timeout
+  let status: "passed" | "failed" | "blocked";
+  if (result.timed_out) {
+    status = "blocked";
+  } else if (result.exit_code === 0) {
+    status = "passed";
+  } else {
+    status = "failed";
+  }
+
+  // Generate summary
+  let summary: string;
+  if (result.timed_out) {
+    const timeoutSec = result.timeout_seconds ?? "unknown";
+    summary = `Test blocked: timed out after ${timeoutSec}s`;
+  } else if (typeof result.duration_ms === "number") {
+    const durationSec = (result.duration_ms / 1000).toFixed(1);
+    summary = `Test completed: exit ${result.exit_code} in ${durationSec}s`;
+  } else {
+    summary = `Test completed: exit ${result.exit_code}`;
+  }
+
+  const extracted = extractExperimentOutcome(result.stdout ?? "");
+  if (extracted.found && !extracted.ok) throw new Error(`Result stdout has a malformed outcome line: ${extracted.error}`);
+  if (extracted.found && extracted.outcome.test_id !== result.test_id) {
+    throw new Error(`Outcome test_id "${extracted.outcome.test_id}" does not match result test_id "${result.test_id}".`);
+  }
+  const outcome = extracted.found ? bindingsFromOutcome(extracted.outcome) : null;
+  const potencyPassed = extracted.found ? extracted.outcome.potency.passed : null;
+
+  // Build the DELTA object
+  const delta = {
+    operation: "EDIT",
+    section: "discriminative_tests",
+    target_id: result.test_id,
+    payload: {
+      test_id: result.test_id,
+      last_run: {
+        result_id: result.result_id,
+        result_path: resultPath,
+        run_at: result.started_at ?? result.created_at,
+        exit_code: result.exit_code,
+        timed_out: result.timed_out,
+        ...(typeof result.duration_ms === "number" ? { duration_ms: result.duration_ms } : {}),
+        summary,
+      },
+      status,
+      ...(outcome ? { actual_outcomes: outcome.actualOutcomes } : {}),
+    },
+    rationale: `Recording result of experiment run ${result.result_id.slice(0, 8)} for ${result.test_id}`,
+  };
+
+  const outcomeLines: string[] = [];
+  if (outcome) {
+    outcomeLines.push(`- **Potency check**: ${potencyPassed ? "passed" : "failed"}`);
+    for (const b of outcome.bindings) {
+      outcomeLines.push(`- **${b.hypothesis_id}**: ${b.binding}${b.reason ? ` — ${b.reason}` : ""}`);
+    }
+    for (const id of outcome.inconclusive) outcomeLines.push(`- **${id}**: inconclusive`);
+  }
+
+  const markdown = `## Deltas
+
+Recording experiment result for test **${result.test_id}** in thread \`${result.thread_id}\`.
+
+- **Status**: ${status}
+- **Exit code**: ${result.exit_code}
+- **Result file**: \`${resultPath}\`
+${outcomeLines.length > 0 ? outcomeLines.join("\n") + "\n" : ""}
+\`\`\`delta
+${JSON.stringify(delta, null, 2)}
+\`\`\`
+`;
+
+  return {
+    status,
+    delta,
+    markdown,
+    bindings: outcome ? outcome.bindings : null,
+    inconclusive: outcome ? outcome.inconclusive : [],
+    potencyCheckPassed: potencyPassed,
+  };
+}
+
+/**
+ * Append a freshly written result to the test's run log.
+ *
+ * The result file is already on disk, so a logging failure only warns.
+ */
+async function logExperimentRun(baseDir: string, result: ExperimentResultV01, outFile: string): Promise<void> {
+  const rel = relative(baseDir, outFile);
+  const resultPath = rel.startsWith("..") || isAbsolute(rel) ? outFile : rel;
+  try {
+    await new ExperimentRunStorage({ baseDir }).appendRun(runEntryFromResult(result, resultPath));
+  } catch (e) {
+    const msg = e instanceof Error ? e.message : String(e);
+    stderrLine(`Warning: result saved but not added to the run log: ${msg}`);
+  }
+}
+
+function formatRunDisagreement(d: RunDisagreement): string {
+  const signal = d.signal === "status" ? "status" : d.signal.hypothesisId;
+  const counts = Object.entries(d.counts)
+    .map(([value, n]) => `${value}×${n}`)
+    .join(", ");
+  const cause = d.kind === "flaky" ? "same commit and environment" : "across commits or environments";
+  return `${signal}: ${counts} — ${d.kind} (${cause})`;
+}
+
+function formatRunLine(run: ExperimentRunEntry): string {
+  const duration = typeof run.duration_ms === "number" ? `${(run.duration_ms / 1000).toFixed(1)}s` : "-";
+  const git = run.git ? `${run.git.sha.slice(0, 7)}${run.git.dirty ? "+dirty" : ""}` : "no-git";
+  const verdicts = Object.entries(run.outcome?.verdicts ?? {})
+    .map(([id, verdict]) => `${id}=${verdict}`)
+    .join(" ");
+  return [
+    run.run_at,
+    run.status.padEnd(7),
+    `exit ${run.exit_code}`.padEnd(8),
+    duration.padStart(7),
+    git.padEnd(13),
+    `env ${run.environment.fingerprint}`,
+    run.result_id.slice(0, 8),
+    verdicts,
+  ]
+    .join("  ")
+    .trimEnd();
+}
+
 // ============================================================================
 // Evidence Pack Types (v0.1)
 // ============================================================================
@@ -685,6 +1149,9 @@ type BrennerConfigFile = {
     projectKey?: string;
     template?: string;
   };
+  lint?: {
+    rulePacks?: string[];
+  };
 };
 
 type BrennerLoadedConfig = {
@@ -696,6 +1163,7 @@ type BrennerRuntimeConfig = {
   configFilePath: string | null;
   agentMail: { baseUrl: string; path: string; bearerToken?: string };
   defaults: { projectKey: string; template: string };
+  lint: { rulePacks: string[] };
 };
 
 function defaultConfigPath(): string {
@@ -759,6 +1227,19 @@ function parseBrennerConfigJson(text: string, configPath: string): BrennerConfig
     }
   }
 
+  const lint = parsed.lint;
+  if (lint !== undefined) {
+    if (!isRecord(lint)) throw new Error(`Config field "lint" must be an object: ${configPath}`);
+    const rulePacks = lint.rulePacks;
+    if (rulePacks !== undefined) {
+      if (!Array.isArray(rulePacks) || rulePacks.some((entry) => !nonEmptyString(entry))) {
+        throw new Error(`Config field "lint.rulePacks" must be an array of file paths: ${configPath}`);
+      }
+      // Relative pack paths are relative to the config file
+      out.lint = { rulePacks: rulePacks.map((entry) => resolve(dirname(configPath), String(entry).trim())) };
+    }
+  }
+
   return out;
 }
 
@@ -799,6 +1280,7 @@ function resolveBrennerRuntimeConfig(loaded: BrennerLoadedConfig): BrennerRuntim
     configFilePath: loaded.path,
     agentMail: { baseUrl, path, bearerToken },
     defaults: { projectKey: defaultProjectKey, template: defaultTemplate },
+    lint: { rulePacks: loaded.config.lint?.rulePacks ?? [] },
   };
 }
 
@@ -1349,16 +1831,22 @@ Commands:
   excerpt build [--sections <A,B>] [--tags <A,B>] [--limit <n>] [--theme <s>] [--ordering <relevance|chronological>]
                [--max-total-words <n>] [--max-quote-words <n>] [--transcript-file <path>] [--quote-bank-file <path>] [--json]
   corpus search <query> [--limit <n>] [--docs <A,B>] [--category <s>] [--model <s>] [--project-key <abs-path>] [--json]
-  experiment run --thread-id <id> --test-id <id> [--timeout <seconds>] [--cwd <path>] [--out-file <path>] [--json] -- <cmd> [args...]
+  experiment run --thread-id <id> --test-id <id> [--timeout <seconds>] [--cwd <path>] [--out-file <path>]
+                [--profile <unrestricted|standard|strict>] [--project-key <abs-path>] [--json] -- <cmd> [args...]
   experiment record --thread-id <id> --test-id <id> --exit-code <n>
                    [--stdout-file <path>] [--stderr-file <path>] [--stdout <text>] [--stderr <text>]
-                   [--cwd <path>] [--command <s>] [--out-file <path>] [--json]
+                   [--cwd <path>] [--command <s>] [--out-file <path>] [--project-key <abs-path>] [--json]
   experiment encode --result-file <path> [--out-file <path>] [--project-key <abs-path>] [--json]
   experiment post --result-file <path> --sender <AgentName> --to <A,B> [--project-key <abs-path>] [--json]
+  experiment bind --result-file <path> [--program-id <id>] [--dry-run] [--project-key <abs-path>] [--json]
+  experiment revert <intervention-id> [--by <s>] [--project-key <abs-path>] [--json]
+  experiment history --test-id <id> (--thread-id <id> | --all-threads) [--limit <n>] [--project-key <abs-path>] [--json]
 
   evidence init --thread-id <id> [--project-key <abs-path>]
   evidence add --thread-id <id> --type <type> --title <s> --source <s> [--relevance <s>]
               [--supports <H1,H2>] [--refutes <H3>] [--informs <T1>] [--project-key <abs-path>] [--json]
+  evidence import --thread-id <id> --file <path> [--format <bibtex|ris|csl-json>] [--with-abstracts]
+                  [--relevance <s>] [--dry-run] [--project-key <abs-path>] [--json]
   evidence add-excerpt --thread-id <id> --evidence-id <EV-NNN> --text <s>
               [--verbatim] [--location <s>] [--note <s>] [--project-key <abs-path>] [--json]
   evidence list --thread-id <id> [--project-key <abs-path>] [--json]
@@ -1414,6 +1902,15 @@ Commands:
   program abandon <id> --reason <s> [--project-key <abs-path>] [--json]
   program stats [--project-key <abs-path>] [--json]
   program dashboard <id> [--project-key <abs-path>] [--json]
+  program policy <id> [--kill <off|propose|apply>] [--validate <off|propose|apply>]
+                 [--kill-min-confidence <c>] [--validate-min-confidence <c>] [--allow-failed-potency|--require-potency]
+                 [--project-key <abs-path>] [--json]
+
+  graph query falsified-assumptions [--project-key <abs-path>] [--json]
+  graph query lineage <H-...> [--project-key <abs-path>] [--json]
+  graph query edges [--type <refines|kills|assumes|conflicts_with|critiques|spawned_from>] [--from <id>] [--to <id>]
+                    [--project-key <abs-path>] [--json]
+  graph query neighbors <id> [--depth <n>] [--project-key <abs-path>] [--json]
 
   hypothesis list [--session-id <id>] [--state <proposed|active|confirmed|refuted|superseded|deferred>]
                  [--category <mechanistic|phenomenological|boundary|auxiliary|third_alternative>] [--project-key <abs-path>] [--json]
@@ -1441,6 +1938,9 @@ Commands:
              [--project-key <abs-path>] [--json]
   test suggest-kills <id> [--confidence <high|medium|low|speculative>] [--project-key <abs-path>] [--json]
   test bind <test-id> <hypothesis-id> (--matched|--violated) [--reason <s>] [--by <s>] [--project-key <abs-path>] [--json]
+  test plan [--session-id <id>] [--max-cost <usd>] [--max-days <n>] [--project-key <abs-path>] [--json]
+  test scaffold <test-id> [--artifact-file <path>] [--thread-id <id>] [--out-dir <path>] [--force]
+               [--project-key <abs-path>] [--json]
 
   mail health
   mail tools
@@ -1450,9 +1950,31 @@ Commands:
   mail read [--project-key <abs-path>] [--agent <AgentName>] --message-id <n>
   mail ack [--project-key <abs-path>] [--agent <AgentName>] --message-id <n>
   mail thread [--project-key <abs-path>] --thread-id <id> [--include-examples] [--llm]
+  mail serve --local [--db <path>] [--host <addr>] [--port <n>] [--token <s>]
+
+    Self-contained Agent Mail stand-in backed by SQLite, for offline/air-gapped labs.
+    Serves the MCP subset the CLI, cockpit and web app use (projects, agents, send/reply,
+    inbox, threads, read/ack, search) plus /health/readiness. Host, port, path and token
+    default to the Agent Mail settings above, so other commands find it unchanged.
+    Default db: $XDG_DATA_HOME/brenner/agent-mail.sqlite3 (~/.local/share/...).
 
   toolchain plan [--manifest <path>] [--platform <p>] [--json]
-  lint <artifact.json> [--json]
+  artifact diff [--project-key <abs-path>] --thread-id <id> [--from <n>] [--to <n>] [--json]
+
+    Compares two published COMPILED versions item by item: hypotheses added, edited
+    (old → new per field) or killed, test status changes, falsified assumptions and
+    resolved critiques, with the agents who contributed in between. Each version is
+    rebuilt from the deltas posted before its COMPILED message. --to defaults to the
+    latest version, --from to the one before it.
+  lint <artifact.json> [--rule-packs <path,...>] [--session-template <id>] [--enable-packs <id,...>]
+       [--transcript-file <path>] [--evidence-file <path>] [--project-key <abs-path>] [--json]
+
+    Rule packs (JSON or TS/JS modules) load from <project-key>/.research/lint-rules/,
+    config "lint.rulePacks", and --rule-packs. Packs that list "templates" only apply
+    with a matching --session-template (or --enable-packs); violations show their pack.
+    Quoted text attributed to §n / EV-NNN#EN is checked against the transcript
+    (default: ./complete_brenner_transcript.md) and the session evidence pack
+    (default: <project-key>/artifacts/<session_id>/evidence.json) when present.
 
   prompt compose --excerpt-file <path> [--template <path>] [--theme <s>] [--domain <s>] [--question <s>]
 
@@ -1461,19 +1983,77 @@ Commands:
                [--hypotheses <s>] [--constraints <s>] [--outputs <s>] [--with-memory]
                [--ntm-args <s>] [--skip-ntm] [--skip-broadcast] [--broadcast-message <s>] [--dry-run] [--json]
 
+  relay serve [--host <addr>] [--port <n>] [--token <s>] [--allow-origin <url,...>]
+  relay token --actor <name> [--token <s>]
+
+    Standalone collaboration relay for multi-user Brenner Loop sessions, speaking the
+    same protocol as the web app's /api/realtime/sessions route (default 127.0.0.1:4010).
+    With --token (or BRENNER_RELAY_TOKEN), each collaborator connects with the actor token
+    "relay token" prints for them (?token=<t> or a Bearer header); the relay stamps presence
+    with that actor and refuses ops stamped by anyone else. A token is required off loopback.
+    CORS headers are only sent to the --allow-origin origins.
+
+  mcp serve [--project-key <abs-path>] [--agent <AgentName>]
+
+    Model Context Protocol server on stdio (newline-delimited JSON-RPC) exposing the
+    hypothesis, assumption, anomaly and critique registries, thread evidence packs and
+    corpus search as tools and brenner:// resources. Mutations run through the same
+    lifecycle checks as the CLI; hypothesis transitions land in the transition log.
+    --agent (default: AGENT_NAME, else "mcp") is recorded on records it creates.
+
+  debate start [--project-key <abs-path>] [--sender <AgentName>] --thread-id <session-thread>
+               --hypothesis-file <card.json> --agents <role=Agent,...>
+               [--format <oxford_style|socratic|steelman_contest>] [--topic <s>] [--max-rounds <n>] [--json]
+  debate status [--project-key <abs-path>] --debate-id <id> [--json]
+  debate next [--project-key <abs-path>] [--sender <AgentName>] --debate-id <id> [--json]
+  debate conclude [--project-key <abs-path>] [--sender <AgentName>] --debate-id <id> [--dry-run] [--json]
+
+    Debates run on their own DEBATE[<id>] thread: each round is a prompt to the speaking agent and
+    its reply is the round's statement. conclude scores each side (argument quality, concession
+    tracking, new tests) and posts the proposed tests and critiques as delta blocks to the session
+    thread, where the next session compile merges them.
+
   session start [--project-key <abs-path>] [--sender <AgentName>] --to <A,B> --thread-id <id>
                --excerpt-file <path> --question <s> [--context <s>]
                [--hypotheses <s>] [--constraints <s>] [--outputs <s>]
                [--role-map <s>] [--with-memory] [--unified] [--template <path>] [--theme <s>] [--domain <s>]
 
   session status [--project-key <abs-path>] --thread-id <id> [--watch] [--timeout <seconds>]
+  session run [--project-key <abs-path>] --thread-id <id> [--sender <AgentName>] --to <A,B> [--role-map <s>]
+              [--until lint-clean,no-kills] [--max-rounds <n>] [--interval <seconds>] [--timeout <seconds>] [--json]
+
+    Supervises a started thread: when every role has sent a DELTA in the current round it
+    compiles, publishes COMPILED, lints, and either stops or sends a round-N+1 kickoff with
+    the artifact and the top lint gaps routed to each role's operators. Stops when all
+    --until criteria hold (default: lint-clean,no-kills; no-kills counts from round 1) or
+    after --max-rounds compiles (default: 3). --timeout is per round (default: 3600).
+    Safe to re-run: if the latest COMPILED has no kickoff after it, the missing kickoffs go out first.
+    Exit codes: 0 converged, 1 compile failed, 2 timed out, 3 round limit reached.
   session compile [--project-key <abs-path>] --thread-id <id> [--out-file <path>] [--json]
+  session resolve [--project-key <abs-path>] --thread-id <id> --target <item-id> --field <name>
+               (--agent <name> | --value <json>) --rationale <s> [--round <n>] [--operator <id>] [--json]
+
+    compile flags EDIT_CONFLICT when agents change the same field differently in one round;
+    resolve records a conflict_resolution intervention choosing the value later compiles keep.
   session write [--project-key <abs-path>] --thread-id <id> [--out-file <path>] [--json]
   session publish [--project-key <abs-path>] --thread-id <id> [--sender <AgentName>] --to <A,B>
                 [--subject <s>] [--ack-required] [--json]
   session nudge [--project-key <abs-path>] --thread-id <id> [--sender <AgentName>] --to <A,B>
                [--operator <s>] [--ack-required] [--dry-run] [--json]
+  session nudge --repair [--project-key <abs-path>] --thread-id <id> [--sender <AgentName>] [--to <A,B>]
+               [--ack-required] [--dry-run] [--json]
+
+    --repair sends the authors of malformed deltas a correction request quoting each
+    proposed fix (see session diagnose); --to defaults to those authors.
   session diagnose [--project-key <abs-path>] --thread-id <id> [--json]
+  session record [--project-key <abs-path>] --thread-id <id> [--roster <roster.json>] [--out-file <path>] [--json]
+  session replay <record.json> [--mode verification|comparison|trace] [--against <record.json>] [--json]
+
+    record exports a SessionRecord (inputs, per-round trace with delta bodies, output hashes).
+    replay re-merges the recorded deltas and reports divergences by severity:
+      - verification: check message hashes, per-round compiled hashes, final hash, lint counts
+      - comparison:   compare against a second record (--against) item by item
+      - trace:        step through every recorded message
 
     By default, sends role-specific prompts to each recipient using name heuristics:
       - Codex/GPT → Hypothesis Generator
@@ -1484,6 +2064,21 @@ Commands:
     For real Agent Mail identities (e.g. BlueLake), pass an explicit roster:
       --role-map "BlueLake=hypothesis_generator,PurpleMountain=test_designer,RedForest=adversarial_critic"
 
+  simulate [--project-key <abs-path>] --thread-id <id> --excerpt-file <path> --question <s>
+           (--to <A,B> --role-map <s> [--behavior <Name=behavior,...>] [--fixtures <dir>] | --script <path>)
+           [--sender <AgentName>] [--context <s>] [--hypotheses <s>] [--constraints <s>] [--outputs <s>]
+           [--rule-packs <path,...>] [--session-template <id>] [--enable-packs <id,...>]
+           [--db <path>] [--out-file <path>] [--publish] [--json]
+
+    Rehearses a full session with scripted agents against a private local Agent Mail
+    (in memory unless --db): kickoff (as session start composes it) → each agent acks and
+    replies with DELTA blocks → compile → lint (with rule packs) → optional publish.
+    Behaviors: template (default), malformed, no-blocks, silent. --fixtures <dir> replies
+    with <dir>/<Name>.md verbatim when present. --script takes JSON or a TS/JS module:
+      { "agents": [{ "name": "BlueLake", "role": "synthesis", "behavior": "malformed", "fixture": "a.md" }] }
+    (module agents may also define respond(kickoff, digest)). Exits 1 unless the compiled
+    artifact lints clean.
+
 Aliases:
   orchestrate start  (alias for: session start)
 
@@ -1533,11 +2128,43 @@ Examples:
   # Capture an experiment run
   ./brenner.ts experiment run --thread-id RS-20251231-example --test-id T1 --timeout 60 -- bash -lc "echo hi; echo err 1>&2; exit 3"
 
+  # Scaffold a harness for a test, run it, and encode hypothesis bindings
+  ./brenner.ts test scaffold T1 --artifact-file artifacts/RS-20251231-example.json
+  ./brenner.ts experiment run --thread-id RS-20251231-example --test-id T1 -- bun experiments/T1/run.ts
+
+  # Run untrusted experiment code read-only, offline and resource-limited
+  ./brenner.ts experiment run --thread-id RS-20251231-example --test-id T1 --profile strict -- bun experiments/T1/run.ts
+
+  # Every run is logged; review a test's history and flakiness
+  ./brenner.ts experiment history --thread-id RS-20251231-example --test-id T1
+
+  # Import a Zotero export into a thread's evidence pack (abstracts become E1 excerpts)
+  ./brenner.ts evidence import --thread-id RS-20251230-example --file library.bib --with-abstracts
+
+  # No Agent Mail server (air-gapped laptop)? Run the local SQLite stand-in
+  ./brenner.ts mail serve --local
+
+  # Rehearse a session with scripted agents (one deliberately malformed) before a real run
+  ./brenner.ts simulate --thread-id RS-SIM --excerpt-file excerpt.md --question "..." --to BlueLake,RedFox,GreenPond \\
+    --role-map BlueLake=hypothesis_generator,RedFox=test_designer,GreenPond=adversarial_critic --behavior RedFox=malformed
+
+  # Let agents query and update the registries over MCP (stdio)
+  ./brenner.ts mcp serve --project-key "$PWD" --agent BlueLake
+
   # Start a session (role-specific prompts) + watch status
   ./brenner.ts session start --project-key "$PWD" --to PurplePond,PurpleCat \\
     --thread-id RS-20251230-example --excerpt-file excerpt.md --question "..." --with-memory
   ./brenner.ts session status --project-key "$PWD" --thread-id RS-20251230-example --watch
 
+  # Let the supervisor drive rounds until the artifact is lint-clean and stops killing items
+  ./brenner.ts session run --project-key "$PWD" --thread-id RS-20251230-example --sender FuchsiaDog \\
+    --to BlueLake,PurpleMountain,RedForest \\
+    --role-map "BlueLake=hypothesis_generator,PurpleMountain=test_designer,RedForest=adversarial_critic" \\
+    --max-rounds 4
+
+  # Compare two published artifact versions item by item
+  ./brenner.ts artifact diff --project-key "$PWD" --thread-id RS-20251230-example --from 1 --to 3
+
   # One-command: spawn ntm + send role-specific kickoff + broadcast "check mail"
   ./brenner.ts cockpit start --project-key "$PWD" --thread-id RS-20251230-example --sender FuchsiaDog \\
     --to BlueLake,PurpleMountain,RedForest \\
@@ -1619,6 +2246,9 @@ type CompileSessionResult =
         invalid: number;
       };
       invalid_deltas: Array<{ message_id: number; subject: string; error: string }>;
+      conflicts: EditConflict[];
+      /** Merged artifact (only with `includeArtifact`) */
+      artifact?: Artifact;
     }
   | {
       ok: false;
@@ -1661,6 +2291,7 @@ interface DiagnoseResult {
     valid_blocks: number;
     invalid_blocks: number;
     issues: string[];
+    repairs: DeltaRepairProposal[];
   }>;
   remediation_template: string;
 }
@@ -1719,9 +2350,18 @@ async function diagnoseSessionDeltas(args: {
     for (const delta of parsed.deltas) {
       if (!delta.valid) {
         issues.push(`INVALID_JSON: ${delta.error}`);
+      } else if (
+        delta.target_id !== null &&
+        delta.section !== "research_thread" &&
+        !validateTargetIdPrefix(delta.target_id, delta.section)
+      ) {
+        issues.push(`TARGET_ID_PREFIX: "${delta.target_id}" does not match ${delta.section}`);
       }
     }
 
+    // Propose corrected deltas for everything flagged above
+    const repairs = repairDeltaMessage(body);
+
     const status: "ok" | "warning" | "error" =
       issues.length === 0 ? "ok" : issues.some((i) => i.startsWith("INLINE_JSON")) ? "error" : "warning";
 
@@ -1741,6 +2381,7 @@ async function diagnoseSessionDeltas(args: {
       valid_blocks: parsed.validCount,
       invalid_blocks: parsed.invalidCount,
       issues,
+      repairs,
     });
   }
 
@@ -1799,6 +2440,7 @@ async function compileSessionArtifact(args: {
   client: AgentMailClient;
   projectKey: string;
   threadId: string;
+  includeArtifact?: boolean;
 }): Promise<CompileSessionResult> {
   if (isAbsolute(args.projectKey)) {
     await args.client.toolsCall("ensure_project", { human_key: args.projectKey });
@@ -1811,7 +2453,8 @@ async function compileSessionArtifact(args: {
   base.metadata.version = Math.max(0, version - 1);
   base.metadata.status = "active";
 
-  const mergedDeltas: Array<ValidDelta & { timestamp: string; agent: string }> = [];
+  const messageRounds = getMessageRounds(thread.messages);
+  const mergedDeltas: Array<ValidDelta & { timestamp: string; agent: string; round?: number }> = [];
   const invalidDeltas: Array<{ message_id: number; subject: string; error: string }> = [];
   const deltaFenceErrors: Array<{
     message_id: number;
@@ -1827,9 +2470,9 @@ async function compileSessionArtifact(args: {
 
   for (const message of thread.messages) {
     if (typeof message.body_md !== "string" || message.body_md.trim().length === 0) continue;
+    if (!isArtifactDeltaMessage(message)) continue;
     const parsed = parseDeltaMessage(message.body_md);
-    const subjectType = parseSubjectType(message.subject).type;
-    if (subjectType === "delta" && parsed.totalBlocks === 0) {
+    if (parseSubjectType(message.subject).type === "delta" && parsed.totalBlocks === 0) {
       const bodyPreview = message.body_md.trim().slice(0, 240);
       deltaFenceErrors.push({
         message_id: message.id,
@@ -1855,6 +2498,7 @@ async function compileSessionArtifact(args: {
           ...delta,
           timestamp: message.created_ts,
           agent: message.from ?? "unknown",
+          round: messageRounds.get(message.id),
         });
         continue;
       }
@@ -1899,7 +2543,10 @@ async function compileSessionArtifact(args: {
     };
   }
 
-  const mergeResult = mergeArtifactWithTimestamps(base, mergedDeltas);
+  const interventions = await new InterventionStorage({ baseDir: args.projectKey }).loadSessionInterventions(args.threadId);
+  const resolutions = conflictResolutionsFromInterventions(interventions);
+
+  const mergeResult = mergeArtifactWithTimestamps(base, mergedDeltas, { resolutions });
   if (!mergeResult.ok) {
     return {
       ok: false,
@@ -1928,6 +2575,8 @@ async function compileSessionArtifact(args: {
     },
     deltas: { total_blocks: totalBlocks, valid: validCount, invalid: invalidCount },
     invalid_deltas: invalidDeltas,
+    conflicts: mergeResult.warnings.flatMap((warning) => (warning.conflict ? [warning.conflict] : [])),
+    ...(args.includeArtifact ? { artifact: mergeResult.artifact } : {}),
   };
 }
 
@@ -2502,93 +3151,16 @@ async function main(): Promise<void> {
       if (!resultFilePath) throw new Error("Missing --result-file.");
 
       const projectKey = asStringFlag(flags, "project-key") ?? runtimeConfig.defaults.projectKey;
-      const resolvedResultFile = resolve(projectKey, resultFilePath);
-
-      // Read and parse the result file
-      let resultJson: string;
-      try {
-        resultJson = readTextFile(resolvedResultFile);
-      } catch (e) {
-        const msg = e instanceof Error ? e.message : String(e);
-        throw new Error(`Cannot read result file "${resolvedResultFile}": ${msg}`);
-      }
-
-      let result: ExperimentResultV01;
-      try {
-        result = JSON.parse(resultJson) as ExperimentResultV01;
-      } catch (e) {
-        const msg = e instanceof Error ? e.message : String(e);
-        throw new Error(`Invalid JSON in result file: ${msg}`);
-      }
 
-      // Validate required fields
-      if (!result.result_id) throw new Error("Result file missing required field: result_id");
-      if (!result.test_id) throw new Error("Result file missing required field: test_id");
-      if (!result.thread_id) throw new Error("Result file missing required field: thread_id");
-      if (typeof result.exit_code !== "number") throw new Error("Result file missing required field: exit_code");
-      if (typeof result.timed_out !== "boolean") throw new Error("Result file missing required field: timed_out");
+      const result = readExperimentResultFile(projectKey, resultFilePath);
 
       // Compute relative path for result_path (relative to project key)
       const resultPath = resultFilePath.startsWith("/")
         ? resultFilePath.replace(projectKey + "/", "")
         : resultFilePath;
 
-      // Determine status based on exit code and timeout
-      let status: "passed" | "failed" | "blocked";
-      if (result.timed_out) {
-        status = "blocked";
-      } else if (result.exit_code === 0) {
-        status = "passed";
-      } else {
-        status = "failed";
-      }
-
-      // Generate summary
-      let summary: string;
-      if (result.timed_out) {
-        const timeoutSec = result.timeout_seconds ?? "unknown";
-        summary = `Test blocked: timed out after ${timeoutSec}s`;
-      } else if (typeof result.duration_ms === "number") {
-        const durationSec = (result.duration_ms / 1000).toFixed(1);
-        summary = `Test completed: exit ${result.exit_code} in ${durationSec}s`;
-      } else {
-        summary = `Test completed: exit ${result.exit_code}`;
-      }
-
-      // Build the DELTA object
-      const delta = {
-        operation: "EDIT",
-        section: "discriminative_tests",
-        target_id: result.test_id,
-        payload: {
-          test_id: result.test_id,
-          last_run: {
-            result_id: result.result_id,
-            result_path: resultPath,
-            run_at: result.started_at ?? result.created_at,
-            exit_code: result.exit_code,
-            timed_out: result.timed_out,
-            ...(typeof result.duration_ms === "number" ? { duration_ms: result.duration_ms } : {}),
-            summary,
-          },
-          status,
-        },
-        rationale: `Recording result of experiment run ${result.result_id.slice(0, 8)} for ${result.test_id}`,
-      };
-
-      // Build markdown output
-      const markdown = `## Deltas
-
-Recording experiment result for test **${result.test_id}** in thread \`${result.thread_id}\`.
-
-- **Status**: ${status}
-- **Exit code**: ${result.exit_code}
-- **Result file**: \`${resultPath}\`
-
-\`\`\`delta
-${JSON.stringify(delta, null, 2)}
-\`\`\`
-`;
+      const { delta, markdown, bindings, inconclusive } = encodeExperimentResult(result, resultPath);
+      const outcomeJson = bindings ? { bindings, inconclusive } : {};
 
       // Output
       const outFileRaw = asStringFlag(flags, "out-file");
@@ -2597,13 +3169,13 @@ ${JSON.stringify(delta, null, 2)}
         mkdirSync(dirname(outFile), { recursive: true });
         writeFileSync(outFile, markdown, "utf8");
         if (jsonMode) {
-          stdoutLine(JSON.stringify({ ok: true, out_file: outFile, delta }, null, 2));
+          stdoutLine(JSON.stringify({ ok: true, out_file: outFile, delta, ...outcomeJson }, null, 2));
         } else {
           stdoutLine(outFile);
         }
       } else {
         if (jsonMode) {
-          stdoutLine(JSON.stringify({ ok: true, delta, markdown }, null, 2));
+          stdoutLine(JSON.stringify({ ok: true, delta, ...outcomeJson, markdown }, null, 2));
         } else {
           stdoutLine(markdown);
         }
@@ -2624,93 +3196,14 @@ ${JSON.stringify(delta, null, 2)}
       if (to.length === 0) throw new Error("Missing --to <A,B>.");
 
       const projectKey = asStringFlag(flags, "project-key") ?? runtimeConfig.defaults.projectKey;
-      const resolvedResultFile = resolve(projectKey, resultFilePath);
-
-      // Read and parse the result file
-      let resultJson: string;
-      try {
-        resultJson = readTextFile(resolvedResultFile);
-      } catch (e) {
-        const msg = e instanceof Error ? e.message : String(e);
-        throw new Error(`Cannot read result file "${resolvedResultFile}": ${msg}`);
-      }
-
-      let result: ExperimentResultV01;
-      try {
-        result = JSON.parse(resultJson) as ExperimentResultV01;
-      } catch (e) {
-        const msg = e instanceof Error ? e.message : String(e);
-        throw new Error(`Invalid JSON in result file: ${msg}`);
-      }
-
-      // Validate required fields
-      if (!result.result_id) throw new Error("Result file missing required field: result_id");
-      if (!result.test_id) throw new Error("Result file missing required field: test_id");
-      if (!result.thread_id) throw new Error("Result file missing required field: thread_id");
-      if (typeof result.exit_code !== "number") throw new Error("Result file missing required field: exit_code");
-      if (typeof result.timed_out !== "boolean") throw new Error("Result file missing required field: timed_out");
+      const result = readExperimentResultFile(projectKey, resultFilePath);
 
       // Compute relative path for result_path (relative to project key)
       const resultPath = resultFilePath.startsWith("/")
         ? resultFilePath.replace(projectKey + "/", "")
         : resultFilePath;
 
-      // Determine status based on exit code and timeout
-      let status: "passed" | "failed" | "blocked";
-      if (result.timed_out) {
-        status = "blocked";
-      } else if (result.exit_code === 0) {
-        status = "passed";
-      } else {
-        status = "failed";
-      }
-
-      // Generate summary
-      let summary: string;
-      if (result.timed_out) {
-        const timeoutSec = result.timeout_seconds ?? "unknown";
-        summary = `Test blocked: timed out after ${timeoutSec}s`;
-      } else if (typeof result.duration_ms === "number") {
-        const durationSec = (result.duration_ms / 1000).toFixed(1);
-        summary = `Test completed: exit ${result.exit_code} in ${durationSec}s`;
-      } else {
-        summary = `Test completed: exit ${result.exit_code}`;
-      }
-
-      // Build the DELTA object
-      const delta = {
-        operation: "EDIT",
-        section: "discriminative_tests",
-        target_id: result.test_id,
-        payload: {
-          test_id: result.test_id,
-          last_run: {
-            result_id: result.result_id,
-            result_path: resultPath,
-            run_at: result.started_at ?? result.created_at,
-            exit_code: result.exit_code,
-            timed_out: result.timed_out,
-            ...(typeof result.duration_ms === "number" ? { duration_ms: result.duration_ms } : {}),
-            summary,
-          },
-          status,
-        },
-        rationale: `Recording result of experiment run ${result.result_id.slice(0, 8)} for ${result.test_id}`,
-      };
-
-      // Build markdown body
-      const bodyMd = `## Deltas
-
-Recording experiment result for test **${result.test_id}** in thread \`${result.thread_id}\`.
-
-- **Status**: ${status}
-- **Exit code**: ${result.exit_code}
-- **Result file**: \`${resultPath}\`
-
-\`\`\`delta
-${JSON.stringify(delta, null, 2)}
-\`\`\`
-`;
+      const { status, delta, markdown: bodyMd } = encodeExperimentResult(result, resultPath);
 
       // Send via Agent Mail
       const client = new AgentMailClient(runtimeConfig.agentMail);
@@ -2771,17 +3264,216 @@ ${JSON.stringify(delta, null, 2)}
       process.exit(0);
     }
 
-    // For run and record, thread-id and test-id are required
-    const threadId = asStringFlag(flags, "thread-id");
-    const testId = asStringFlag(flags, "test-id");
-    if (!threadId) throw new Error("Missing --thread-id.");
-    if (!testId) throw new Error("Missing --test-id.");
-
-    const cwd = resolve(asStringFlag(flags, "cwd") ?? runtimeConfig.defaults.projectKey);
-    const outFileRaw = asStringFlag(flags, "out-file") ?? asStringFlag(flags, "out");
+    // Handle bind subcommand: apply the program's transition policy to an encoded result
+    if (sub === "bind") {
+      const resultFilePath = asStringFlag(flags, "result-file");
+      if (!resultFilePath) throw new Error("Missing --result-file.");
 
-    const safeThreadId = sanitizeThreadIdForArtifactFilename(threadId);
-    const safeTestId = sanitizeThreadIdForArtifactFilename(testId);
+      const projectKey = asStringFlag(flags, "project-key") ?? runtimeConfig.defaults.projectKey;
+      const dryRun = asBoolFlag(flags, "dry-run");
+      const result = readExperimentResultFile(projectKey, resultFilePath);
+      const resultPath = resultFilePath.startsWith("/")
+        ? resultFilePath.replace(projectKey + "/", "")
+        : resultFilePath;
+      const encoded = encodeExperimentResult(result, resultPath);
+      if (!encoded.bindings) {
+        throw new Error(`Result ${result.result_id} has no harness outcome to bind (see: brenner test scaffold).`);
+      }
+
+      // The program owning the thread supplies the policy
+      const programStorage = new ProgramStorage({ baseDir: projectKey });
+      const programIdFlag = asStringFlag(flags, "program-id");
+      const program = programIdFlag
+        ? await programStorage.getProgramById(programIdFlag)
+        : (await programStorage.loadPrograms()).find((p) => p.sessions.includes(result.thread_id)) ?? null;
+      if (programIdFlag && !program) throw new Error(`Program not found: ${programIdFlag}`);
+      const policy = program?.transitionPolicy ?? DEFAULT_TRANSITION_POLICY;
+
+      const hypothesisStorage = new HypothesisStorage({ baseDir: projectKey });
+      const hypotheses: Hypothesis[] = [];
+      for (const b of encoded.bindings) {
+        const h = await hypothesisStorage.getHypothesisById(b.hypothesis_id);
+        if (h) hypotheses.push(h);
+      }
+
+      const decisions = evaluateTransitionPolicy(
+        policy,
+        {
+          runPassed: encoded.status === "passed",
+          potencyCheckPassed: encoded.potencyCheckPassed === true,
+          bindings: encoded.bindings.map((b) => ({
+            hypothesisId: b.hypothesis_id,
+            binding: b.binding,
+            confidence: b.confidence ?? "medium",
+            reason: b.reason,
+          })),
+        },
+        hypotheses
+      );
+
+      const interventionStorage = new InterventionStorage({ baseDir: projectKey });
+      const applied: Array<{ hypothesis_id: string; from: string; to: string; intervention_id: string }> = [];
+      const errors: string[] = [];
+      if (!dryRun) {
+        for (const decision of decisions) {
+          if (decision.disposition !== "apply" || !program) continue;
+          const hypothesis = hypotheses.find((h) => h.id === decision.hypothesisId);
+          if (!hypothesis) continue;
+
+          const outcome = applyAutoTransition(hypothesis, decision, {
+            programId: program.id,
+            testId: result.test_id,
+            resultId: result.result_id,
+            sessionId: result.thread_id,
+            interventionId: createInterventionId(result.thread_id, await interventionStorage.getNextSequence(result.thread_id)),
+          });
+          if (!outcome.success) {
+            errors.push(`${decision.hypothesisId}: ${outcome.error}`);
+            continue;
+          }
+
+          await hypothesisStorage.saveHypothesis(outcome.hypothesis);
+          await interventionStorage.saveIntervention(outcome.intervention);
+          applied.push({
+            hypothesis_id: decision.hypothesisId,
+            from: outcome.transition.fromState,
+            to: outcome.transition.toState,
+            intervention_id: outcome.intervention.id,
+          });
+        }
+      }
+
+      const proposals = decisions
+        .filter((d) => d.disposition === "propose")
+        .map((d) => ({
+          ...d,
+          command: `brenner test bind ${result.test_id} ${d.hypothesisId} --${d.action === "kill" ? "violated" : "matched"}`,
+        }));
+
+      if (jsonMode) {
+        stdoutLine(
+          JSON.stringify(
+            { ok: errors.length === 0, program_id: program?.id ?? null, policy, dry_run: dryRun, decisions, applied, proposals, errors },
+            null,
+            2
+          )
+        );
+      } else {
+        stdoutLine(`Policy: ${program ? program.id : "default (no program for this thread)"}`);
+        for (const d of decisions) {
+          const transition = d.toState ? ` (${d.fromState} → ${d.toState})` : "";
+          stdoutLine(`  ${d.hypothesisId}: ${d.action} → ${d.disposition}${transition} — ${d.reason}`);
+        }
+        for (const a of applied) stdoutLine(`Applied ${a.hypothesis_id}: ${a.from} → ${a.to} [${a.intervention_id}]`);
+        for (const p of proposals) stdoutLine(`Proposed: ${p.command}`);
+        for (const e of errors) stderrLine(`Error: ${e}`);
+      }
+      process.exit(errors.length === 0 ? 0 : 1);
+    }
+
+    // Handle revert subcommand: undo a policy-applied transition
+    if (sub === "revert") {
+      const interventionId = action;
+      if (!interventionId) throw new Error("Usage: experiment revert <intervention-id> [--by <s>]");
+
+      const projectKey = asStringFlag(flags, "project-key") ?? runtimeConfig.defaults.projectKey;
+      const interventionStorage = new InterventionStorage({ baseDir: projectKey });
+      const intervention = await interventionStorage.getInterventionById(interventionId);
+      if (!intervention) throw new Error(`Intervention not found: ${interventionId}`);
+      if (!intervention.target.item_id) throw new Error(`Intervention ${interventionId} has no target hypothesis.`);
+
+      const hypothesisStorage = new HypothesisStorage({ baseDir: projectKey });
+      const hypothesis = await hypothesisStorage.getHypothesisById(intervention.target.item_id);
+      if (!hypothesis) throw new Error(`Hypothesis not found: ${intervention.target.item_id}`);
+
+      const reverted = revertAutoTransition(hypothesis, intervention, {
+        reversedBy: asStringFlag(flags, "by") ?? process.env.AGENT_NAME ?? "operator",
+      });
+      if (!reverted.success) throw new Error(reverted.error);
+
+      await hypothesisStorage.saveHypothesis(reverted.hypothesis);
+      await interventionStorage.saveIntervention(reverted.intervention);
+
+      if (jsonMode) {
+        stdoutLine(JSON.stringify({ ok: true, hypothesis: reverted.hypothesis, intervention: reverted.intervention }, null, 2));
+      } else {
+        stdoutLine(`Reverted ${interventionId}: ${hypothesis.id} ${hypothesis.state} → ${reverted.hypothesis.state}`);
+      }
+      process.exit(0);
+    }
+
+    // Handle history subcommand: every logged run of a test, plus a flakiness summary
+    if (sub === "history") {
+      const testId = asStringFlag(flags, "test-id");
+      if (!testId) throw new Error("Missing --test-id.");
+      // A test id names different tests in different threads; only --all-threads mixes them
+      const threadIdFilter = asStringFlag(flags, "thread-id");
+      const allThreads = asBoolFlag(flags, "all-threads");
+      if (!threadIdFilter && !allThreads) throw new Error("Missing --thread-id (or pass --all-threads).");
+      const limit = asIntFlag(flags, "limit");
+      if (typeof limit === "number" && limit <= 0) throw new Error("Invalid --limit: must be > 0.");
+
+      // Same base dir as experiment run/record, so history reads the log they append to
+      const runStorage = new ExperimentRunStorage({
+        baseDir: resolve(asStringFlag(flags, "project-key") ?? runtimeConfig.defaults.projectKey),
+      });
+      const { runs: allRuns, warnings } = await runStorage.loadRuns(testId);
+      const runs = threadIdFilter ? allRuns.filter((r) => r.thread_id === threadIdFilter) : allRuns;
+      const summary = summarizeRunHistory(testId, runs);
+      const shown = typeof limit === "number" ? runs.slice(-limit) : runs;
+
+      if (jsonMode) {
+        stdoutLine(
+          JSON.stringify(
+            { ok: true, test_id: testId, log_file: runStorage.getRunLogPath(testId), runs: shown, summary, warnings },
+            null,
+            2
+          )
+        );
+        process.exit(0);
+      }
+
+      for (const w of warnings) stderrLine(`Warning: ${w.file}: ${w.message}`);
+      if (runs.length === 0) {
+        stdoutLine(`No runs logged for ${testId}${threadIdFilter ? ` in ${threadIdFilter}` : ""}.`);
+        process.exit(0);
+      }
+
+      const counts = summary.statusCounts;
+      stdoutLine(
+        `${testId}: ${summary.totalRuns} run${summary.totalRuns === 1 ? "" : "s"} ` +
+          `(${counts.passed} passed, ${counts.failed} failed, ${counts.blocked} blocked)` +
+          (summary.flaky ? " — FLAKY" : "")
+      );
+      if (shown.length < runs.length) stdoutLine(`  (showing last ${shown.length})`);
+      for (const run of shown) stdoutLine(`  ${formatRunLine(run)}`);
+      if (summary.disagreements.length > 0) {
+        stdoutLine("Disagreements:");
+        for (const d of summary.disagreements) stdoutLine(`  ${formatRunDisagreement(d)}`);
+      }
+      if (summary.duration && summary.duration.runs > 1) {
+        const d = summary.duration;
+        stdoutLine(
+          `Duration: median ${(d.medianMs / 1000).toFixed(1)}s ` +
+            `(min ${(d.minMs / 1000).toFixed(1)}s, max ${(d.maxMs / 1000).toFixed(1)}s, cv ${Math.round(d.cv * 100)}%)`
+        );
+      }
+      process.exit(0);
+    }
+
+    // For run and record, thread-id and test-id are required
+    const threadId = asStringFlag(flags, "thread-id");
+    const testId = asStringFlag(flags, "test-id");
+    if (!threadId) throw new Error("Missing --thread-id.");
+    if (!testId) throw new Error("Missing --test-id.");
+
+    const cwd = resolve(asStringFlag(flags, "cwd") ?? runtimeConfig.defaults.projectKey);
+    const outFileRaw = asStringFlag(flags, "out-file") ?? asStringFlag(flags, "out");
+    // The run log lives under the project, not the (possibly scratch) working directory
+    const runLogBaseDir = resolve(asStringFlag(flags, "project-key") ?? runtimeConfig.defaults.projectKey);
+
+    const safeThreadId = sanitizeThreadIdForArtifactFilename(threadId);
+    const safeTestId = sanitizeThreadIdForArtifactFilename(testId);
     if (!outFileRaw && safeThreadId !== threadId) {
       stderrLine(`Warning: sanitized thread id for experiment path: "${threadId}" -> "${safeThreadId}"`);
     }
@@ -2803,8 +3495,18 @@ ${JSON.stringify(delta, null, 2)}
     const outFile = outFileRaw ? resolve(cwd, outFileRaw) : defaultOutFile;
 
     if (sub === "run") {
-      const timeoutSeconds = asIntFlag(flags, "timeout") ?? 900;
-      if (timeoutSeconds <= 0) throw new Error("Invalid --timeout: must be > 0.");
+      const requestedTimeout = asIntFlag(flags, "timeout") ?? 900;
+      if (requestedTimeout <= 0) throw new Error("Invalid --timeout: must be > 0.");
+
+      const profileName = asStringFlag(flags, "profile") ?? "unrestricted";
+      if (!isExecutionProfileName(profileName)) {
+        throw new Error(`Invalid --profile: must be one of ${EXECUTION_PROFILE_NAMES.join(", ")}.`);
+      }
+      const profile = EXECUTION_PROFILES[profileName];
+      const timeoutSeconds = effectiveTimeoutSeconds(profile, requestedTimeout);
+      if (timeoutSeconds < requestedTimeout) {
+        stderrLine(`Note: --timeout capped at ${timeoutSeconds}s by the "${profileName}" profile.`);
+      }
 
       const rawArgv = process.argv.slice(2);
       const sepIndex = rawArgv.indexOf("--");
@@ -2812,12 +3514,36 @@ ${JSON.stringify(delta, null, 2)}
       const commandArgv = rawArgv.slice(sepIndex + 1);
       if (commandArgv.length === 0) throw new Error('Missing command after "--".');
 
+      const capabilities = detectSandboxCapabilities();
+      const scratchDir = profile.filesystem === "readonly-project" ? join(tmpdir(), `brenner-scratch-${resultId}`) : null;
+      const planned = planSandboxedCommand(
+        commandArgv,
+        profile,
+        { projectDir: runLogBaseDir, cwd, scratchDir: scratchDir ?? cwd },
+        capabilities
+      );
+      if (!planned.ok) throw new Error(planned.error);
+      for (const warning of planned.plan.warnings) stderrLine(`Warning: ${warning}`);
+      if (scratchDir) mkdirSync(scratchDir, { recursive: true });
+
       const startedAt = createdAt;
       let timedOut = false;
-      let stdout = "";
-      let stderr = "";
+      const stdoutCollector = new OutputCollector(profile.maxOutputChars);
+      const stderrCollector = new OutputCollector(profile.maxOutputChars);
+
+      const collect = async (stream: ReadableStream<Uint8Array> | undefined, collector: OutputCollector) => {
+        if (!stream) return;
+        const decoder = new TextDecoder();
+        for await (const chunk of stream) collector.push(decoder.decode(chunk, { stream: true }));
+        collector.push(decoder.decode());
+      };
 
-      const proc = Bun.spawn(commandArgv, { cwd, stdout: "pipe", stderr: "pipe" });
+      const proc = Bun.spawn(planned.plan.argv, {
+        cwd,
+        env: { ...process.env, ...planned.plan.env },
+        stdout: "pipe",
+        stderr: "pipe",
+      });
       const timeoutMs = timeoutSeconds * 1000;
       const killTimer = setTimeout(() => {
         timedOut = true;
@@ -2836,12 +3562,11 @@ ${JSON.stringify(delta, null, 2)}
       }, timeoutMs);
 
       try {
-        const stdoutPromise = proc.stdout ? new Response(proc.stdout).text() : Promise.resolve("");
-        const stderrPromise = proc.stderr ? new Response(proc.stderr).text() : Promise.resolve("");
-        const exitCodePromise = proc.exited;
-        const [out, err, exitCode] = await Promise.all([stdoutPromise, stderrPromise, exitCodePromise]);
-        stdout = out;
-        stderr = err;
+        const [, , exitCode] = await Promise.all([
+          collect(proc.stdout, stdoutCollector),
+          collect(proc.stderr, stderrCollector),
+          proc.exited,
+        ]);
         const resolvedExitCode = typeof exitCode === "number" ? exitCode : timedOut ? 124 : 1;
 
         const finishedAt = new Date();
@@ -2867,15 +3592,24 @@ ${JSON.stringify(delta, null, 2)}
           finished_at: finishedAt.toISOString(),
           duration_ms: durationMs,
 
-          stdout,
-          stderr,
+          stdout: stdoutCollector.text(),
+          stderr: stderrCollector.text(),
 
           ...(git ? { git } : {}),
           runtime: { platform: process.platform, arch: process.arch, bun_version: Bun.version },
+
+          sandbox: sandboxProvenance(profile, planned.plan, {
+            timeoutSeconds,
+            capabilities,
+            scratchDir,
+            stdout: stdoutCollector,
+            stderr: stderrCollector,
+          }),
         };
 
         mkdirSync(dirname(outFile), { recursive: true });
         writeFileSync(outFile, JSON.stringify(result, null, 2), "utf8");
+        await logExperimentRun(runLogBaseDir, result, outFile);
 
         if (jsonMode) {
           stdoutLine(JSON.stringify({ ok: true, out_file: outFile, result }, null, 2));
@@ -2883,11 +3617,11 @@ ${JSON.stringify(delta, null, 2)}
           stdoutLine(outFile);
           if (timedOut) stderrLine(`Timed out after ${timeoutSeconds}s.`);
         }
-
-        process.exit(0);
       } finally {
         clearTimeout(killTimer);
+        if (scratchDir) rmSync(scratchDir, { recursive: true, force: true });
       }
+      process.exit(0);
     }
 
     if (sub === "record") {
@@ -2960,6 +3694,7 @@ ${JSON.stringify(delta, null, 2)}
 
       mkdirSync(dirname(outFile), { recursive: true });
       writeFileSync(outFile, JSON.stringify(result, null, 2), "utf8");
+      await logExperimentRun(runLogBaseDir, result, outFile);
 
       if (jsonMode) {
         stdoutLine(JSON.stringify({ ok: true, out_file: outFile, result }, null, 2));
@@ -3194,6 +3929,67 @@ ${JSON.stringify(delta, null, 2)}
       process.exit(0);
     }
 
+    // Subcommand: import
+    if (sub === "import") {
+      const file = asStringFlag(flags, "file");
+      const formatRaw = asStringFlag(flags, "format");
+      const dryRun = asBoolFlag(flags, "dry-run");
+      if (!file) throw new Error("Missing --file (a .bib, .ris or CSL-JSON export).");
+      if (formatRaw && !CITATION_FORMATS.includes(formatRaw as CitationFormat)) {
+        throw new Error(`Invalid --format "${formatRaw}". Valid formats: ${CITATION_FORMATS.join(", ")}`);
+      }
+
+      const filePath = resolve(file);
+      const parsed = parseCitationLibrary(readTextFile(filePath), {
+        format: formatRaw as CitationFormat | undefined,
+        fileName: filePath,
+      });
+      if ("error" in parsed) throw new Error(`${parsed.error} via --format.`);
+
+      const pack: EvidencePack = readEvidencePack() ?? {
+        version: "0.1",
+        thread_id: threadId,
+        created_at: new Date().toISOString(),
+        updated_at: new Date().toISOString(),
+        next_id: 1,
+        records: [],
+      };
+      const result = importLibraryIntoEvidencePack(pack, parsed, {
+        importedBy: process.env.AGENT_NAME ?? "operator",
+        includeAbstracts: asBoolFlag(flags, "with-abstracts"),
+        relevance: asStringFlag(flags, "relevance"),
+      });
+      if (!dryRun && result.added.length > 0) writeEvidencePack(result.pack);
+
+      if (jsonMode) {
+        stdoutLine(
+          JSON.stringify(
+            {
+              ok: true,
+              format: parsed.format,
+              dry_run: dryRun,
+              path: evidenceJsonPath,
+              added: result.added,
+              skipped: result.skipped,
+              warnings: parsed.warnings,
+            },
+            null,
+            2
+          )
+        );
+      } else {
+        for (const a of result.added) stdoutLine(`${dryRun ? "Would add" : "Added"} ${a.id}: ${a.title} [${a.type}]${a.hasAbstract ? " (abstract as E1)" : ""}`);
+        for (const sk of result.skipped) {
+          stdoutLine(`Skipped ${sk.key}: ${sk.title} (same ${sk.reason === "duplicate_doi" ? "DOI" : "title"} as ${sk.duplicateOf})`);
+        }
+        for (const w of parsed.warnings) stderrLine(`Warning: ${w}`);
+        stdoutLine(
+          `${parsed.format}: ${result.added.length} ${dryRun ? "to add" : "added"}, ${result.skipped.length} duplicate${result.skipped.length === 1 ? "" : "s"} skipped, ${parsed.warnings.length} unreadable`
+        );
+      }
+      process.exit(0);
+    }
+
     // Subcommand: add-excerpt
     if (sub === "add-excerpt") {
       const evidenceId = asStringFlag(flags, "evidence-id");
@@ -5122,6 +5918,7 @@ ${JSON.stringify(delta, null, 2)}
         stdoutLine(`  Difficulty:   ${test.feasibility.difficulty}`);
         if (test.feasibility.blockers?.length) stdoutLine(`  Blockers:     ${test.feasibility.blockers.join(", ")}`);
         if (test.requiredAssumptions?.length) stdoutLine(`Required assumptions: ${test.requiredAssumptions.join(", ")}`);
+        if (test.dependsOn?.length) stdoutLine(`Depends on:  ${test.dependsOn.join(", ")}`);
         if (test.anchors?.length) stdoutLine(`Anchors:     ${test.anchors.join(", ")}`);
         if (test.tags?.length) stdoutLine(`Tags:        ${test.tags.join(", ")}`);
         if (test.notes) stdoutLine(`Notes:       ${test.notes}`);
@@ -5477,6 +6274,116 @@ ${JSON.stringify(delta, null, 2)}
       process.exit(0);
     }
 
+    // Subcommand: scaffold
+    if (sub === "scaffold") {
+      const testId = action;
+      if (!testId) throw new Error("Usage: test scaffold <test-id> [--artifact-file <path>] [--out-dir <path>] [--force]");
+
+      const threadIdFlag = asStringFlag(flags, "thread-id");
+      const artifactFile = asStringFlag(flags, "artifact-file");
+      let spec: HarnessSpec;
+      if (artifactFile) {
+        const artifact = parseArtifactFromJsonFile(resolve(projectKey, artifactFile));
+        const item = (artifact.sections?.discriminative_tests ?? []).find((t) => t.id === testId || t.test_id === testId);
+        if (!item) throw new Error(`Test not found in artifact: ${testId}`);
+        spec = harnessSpecFromTestItem(item, threadIdFlag ?? artifact.metadata?.session_id);
+      } else {
+        const test = await testStorage.getTestById(testId);
+        if (!test) throw new Error(`Test not found: ${testId}`);
+        spec = harnessSpecFromTestRecord(test);
+        if (threadIdFlag) spec.threadId = threadIdFlag;
+      }
+      if (spec.hypotheses.length === 0) throw new Error(`Test ${testId} has no expected outcomes to bind.`);
+
+      const outDir = resolve(
+        projectKey,
+        asStringFlag(flags, "out-dir") ?? join("experiments", sanitizeThreadIdForArtifactFilename(spec.testId))
+      );
+      if (existsSync(outDir) && readdirSync(outDir).length > 0 && !asBoolFlag(flags, "force")) {
+        throw new Error(`Harness directory is not empty: ${outDir} (pass --force to overwrite)`);
+      }
+
+      // `experiment run` defaults its cwd to the project key, so reference the harness from there
+      const fromProject = relative(resolve(projectKey), outDir);
+      const relativeDir = fromProject === "" ? "." : fromProject.startsWith("..") ? outDir : fromProject;
+      const files = renderHarnessFiles(spec, { relativeDir, generatedAt: new Date().toISOString() });
+
+      mkdirSync(outDir, { recursive: true });
+      const written: string[] = [];
+      for (const file of files) {
+        const path = join(outDir, file.path);
+        writeFileSync(path, file.content, "utf8");
+        if (file.executable) chmodSync(path, 0o755);
+        written.push(path);
+      }
+
+      const runCommand = [
+        "brenner experiment run",
+        `--thread-id ${spec.threadId ?? "<thread-id>"}`,
+        `--test-id ${spec.testId}`,
+        `-- bun ${join(relativeDir, "run.ts")}`,
+      ].join(" ");
+
+      if (jsonMode) {
+        stdoutLine(JSON.stringify({ ok: true, test_id: spec.testId, dir: outDir, files: written, run_command: runCommand }, null, 2));
+      } else {
+        stdoutLine(`Scaffolded experiment harness for ${spec.testId} in ${outDir}`);
+        for (const path of written) stdoutLine(`  ${path}`);
+        stdoutLine(`Run: ${runCommand}`);
+      }
+      process.exit(0);
+    }
+
+    // Subcommand: plan
+    if (sub === "plan") {
+      const sessionId = asStringFlag(flags, "session-id") ?? asStringFlag(flags, "session");
+      const maxCost = asIntFlag(flags, "max-cost");
+      const maxDays = asIntFlag(flags, "max-days");
+      if (maxCost !== undefined && maxCost < 0) throw new Error("--max-cost must be >= 0");
+      if (maxDays !== undefined && maxDays < 0) throw new Error("--max-days must be >= 0");
+
+      const tests = sessionId ? await testStorage.loadSessionTests(sessionId) : await testStorage.getAllTests();
+      // Only filter by hypothesis state when the registry has hypotheses to consult
+      const hypotheses = await hypothesisStorage.getAllHypotheses();
+      const activeHypothesisIds =
+        hypotheses.length > 0
+          ? hypotheses.filter((h) => h.state === "proposed" || h.state === "active").map((h) => h.id)
+          : undefined;
+
+      const plan = planTests(tests.map(plannableFromTestRecord), { maxCost, maxDays }, { activeHypothesisIds });
+      const formatDay = (day: number) => (Number.isInteger(day) ? String(day) : day.toFixed(1));
+
+      if (jsonMode) {
+        stdoutLine(JSON.stringify({ ok: true, plan }, null, 2));
+      } else if (plan.steps.length === 0 && plan.unplanned.length === 0) {
+        stdoutLine("No open tests to plan.");
+      } else {
+        const budgetParts = [
+          maxCost !== undefined ? `$${maxCost.toLocaleString("en-US")}` : null,
+          maxDays !== undefined ? `${maxDays} days` : null,
+        ].filter(Boolean);
+        stdoutLine(`Test plan${budgetParts.length ? ` (budget: ${budgetParts.join(", ")})` : ""}`);
+        for (const step of plan.steps) {
+          stdoutLine(
+            `${String(step.order).padStart(2)}. ${step.test.id}: ${step.test.name}` +
+              ` (gain ${step.expectedDiscrimination.toFixed(2)}, $${step.test.cost.toLocaleString("en-US")},` +
+              ` day ${formatDay(step.startDay)}–${formatDay(step.finishDay)})`
+          );
+        }
+        stdoutLine(
+          `Total: $${plan.totals.cost.toLocaleString("en-US")}, ${formatDay(plan.totals.days)} days, ` +
+            `expected discrimination ${plan.totals.expectedDiscrimination.toFixed(2)}`
+        );
+        if (plan.unplanned.length > 0) {
+          stdoutLine("Not planned:");
+          for (const entry of plan.unplanned) {
+            stdoutLine(`  - ${entry.test.id} [${UNPLANNED_REASON_LABELS[entry.reason]}] ${entry.detail}`);
+          }
+        }
+      }
+      process.exit(0);
+    }
+
     throw new Error(`Unknown test subcommand: ${sub ?? "(missing)"}`);
   }
 
@@ -5542,6 +6449,87 @@ ${JSON.stringify(delta, null, 2)}
         stdoutLine(`Created:     ${program.createdAt}`);
         stdoutLine(`Updated:     ${program.updatedAt}`);
         if (program.closedAt) stdoutLine(`Closed:      ${program.closedAt}`);
+        if (program.transitionPolicy) {
+          stdoutLine(
+            `Policy:      kills ${program.transitionPolicy.kill.mode}, validations ${program.transitionPolicy.validate.mode}`
+          );
+        }
+      }
+      process.exit(0);
+    }
+
+    // Subcommand: policy (show or update the transition policy)
+    if (sub === "policy") {
+      const programId = action;
+      if (!programId) {
+        throw new Error(
+          "Missing program ID. Usage: program policy <id> [--kill <off|propose|apply>] [--validate <off|propose|apply>]"
+        );
+      }
+
+      const program = await storage.getProgramById(programId);
+      if (!program) throw new Error(`Program not found: ${programId}`);
+
+      const parseMode = (key: string): PolicyMode | undefined => {
+        const raw = asStringFlag(flags, key);
+        if (raw === undefined) return undefined;
+        const parsed = PolicyModeSchema.safeParse(raw);
+        if (!parsed.success) {
+          throw new Error(`Invalid --${key} "${raw}" (expected one of: ${PolicyModeSchema.options.join(", ")})`);
+        }
+        return parsed.data;
+      };
+      const parseConfidence = (key: string): HypothesisConfidence | undefined => {
+        const raw = asStringFlag(flags, key);
+        if (raw === undefined) return undefined;
+        const parsed = HypothesisConfidenceSchema.safeParse(raw);
+        if (!parsed.success) {
+          throw new Error(`Invalid --${key} "${raw}" (expected one of: ${HypothesisConfidenceSchema.options.join(", ")})`);
+        }
+        return parsed.data;
+      };
+
+      const killMode = parseMode("kill");
+      const validateMode = parseMode("validate");
+      const killConfidence = parseConfidence("kill-min-confidence");
+      const validateConfidence = parseConfidence("validate-min-confidence");
+      const allowFailedPotency = asBoolFlag(flags, "allow-failed-potency");
+      const requirePotency = asBoolFlag(flags, "require-potency");
+      if (allowFailedPotency && requirePotency) {
+        throw new Error("Use only one of: --allow-failed-potency or --require-potency");
+      }
+      const potencyGate = allowFailedPotency ? false : requirePotency ? true : undefined;
+
+      const current = program.transitionPolicy ?? DEFAULT_TRANSITION_POLICY;
+      const changed = [killMode, validateMode, killConfidence, validateConfidence, potencyGate].some((v) => v !== undefined);
+
+      let policy: TransitionPolicy = current;
+      if (changed) {
+        policy = {
+          kill: {
+            mode: killMode ?? current.kill.mode,
+            minConfidence: killConfidence ?? current.kill.minConfidence,
+            requirePotencyPass: potencyGate ?? current.kill.requirePotencyPass,
+          },
+          validate: {
+            mode: validateMode ?? current.validate.mode,
+            minConfidence: validateConfidence ?? current.validate.minConfidence,
+            requirePotencyPass: potencyGate ?? current.validate.requirePotencyPass,
+          },
+        };
+        await storage.saveProgram(setTransitionPolicy(program, policy));
+      }
+
+      if (jsonMode) {
+        stdoutLine(JSON.stringify({ ok: true, program_id: programId, updated: changed, policy }, null, 2));
+      } else {
+        const describeRule = (rule: TransitionPolicy["kill"]) =>
+          rule.mode === "apply"
+            ? `apply (min confidence ${rule.minConfidence}${rule.requirePotencyPass ? ", potency must pass" : ""})`
+            : rule.mode;
+        stdoutLine(`Transition policy for ${programId}${program.transitionPolicy || changed ? "" : " (default)"}`);
+        stdoutLine(`  Kills:       ${describeRule(policy.kill)}`);
+        stdoutLine(`  Validations: ${describeRule(policy.validate)}`);
       }
       process.exit(0);
     }
@@ -5821,6 +6809,145 @@ ${JSON.stringify(delta, null, 2)}
     throw new Error(`Unknown program subcommand: ${sub ?? "(missing)"}`);
   }
 
+  if (top === "graph") {
+    const jsonMode = asBoolFlag(flags, "json");
+    const projectKey = asStringFlag(flags, "project-key") ?? runtimeConfig.defaults.projectKey;
+
+    if (sub === "query") {
+      const graph = await new KnowledgeGraphAggregator({ baseDir: projectKey }).build();
+      const query = action;
+
+      // Query: falsified-assumptions
+      if (query === "falsified-assumptions") {
+        const undermining = findUnderminingAssumptions(graph);
+
+        if (jsonMode) {
+          stdoutLine(JSON.stringify({ ok: true, query, results: undermining }, null, 2));
+        } else if (undermining.length === 0) {
+          stdoutLine("No falsified assumptions underpin proposed or active hypotheses.");
+        } else {
+          stdoutLine(`Falsified assumptions still underpinning live hypotheses (${undermining.length}):`);
+          for (const entry of undermining) {
+            stdoutLine(`  ${entry.assumption.id}: ${entry.assumption.label}`);
+            for (const h of entry.hypotheses) {
+              stdoutLine(`    <- ${h.id} [${h.status}] ${h.label}`);
+            }
+          }
+        }
+        process.exit(0);
+      }
+
+      // Query: lineage
+      if (query === "lineage") {
+        const hypothesisId = positional[3];
+        if (!hypothesisId) throw new Error("Missing hypothesis ID. Usage: graph query lineage <H-...>");
+
+        const lineage = traceLineage(graph, hypothesisId);
+        if (lineage.length === 0) throw new Error(`Hypothesis not found: ${hypothesisId}`);
+
+        if (jsonMode) {
+          stdoutLine(JSON.stringify({ ok: true, query, hypothesisId, lineage }, null, 2));
+        } else {
+          stdoutLine(`Lineage of ${hypothesisId}:`);
+          for (const step of lineage) {
+            const indent = "  ".repeat(step.depth + 1);
+            const via = step.via ? `${step.via.type} -> ` : "";
+            stdoutLine(`${indent}${via}${step.node.id} [${step.node.kind}, ${step.node.status}] ${step.node.label}`);
+          }
+        }
+        process.exit(0);
+      }
+
+      // Query: edges
+      if (query === "edges") {
+        const type = asStringFlag(flags, "type") as GraphEdgeType | undefined;
+        if (type && !GRAPH_EDGE_TYPES.includes(type)) {
+          throw new Error(`Invalid --type "${type}" (expected one of: ${GRAPH_EDGE_TYPES.join(", ")})`);
+        }
+
+        const edges = queryEdges(graph, {
+          type,
+          from: asStringFlag(flags, "from"),
+          to: asStringFlag(flags, "to"),
+        });
+
+        if (jsonMode) {
+          stdoutLine(JSON.stringify({ ok: true, query, edges }, null, 2));
+        } else {
+          stdoutLine(`Edges (${edges.length}):`);
+          for (const edge of edges) {
+            stdoutLine(`  ${edge.from} --${edge.type}--> ${edge.to}`);
+          }
+        }
+        process.exit(0);
+      }
+
+      // Query: neighbors
+      if (query === "neighbors") {
+        const nodeId = positional[3];
+        if (!nodeId) throw new Error("Missing node ID. Usage: graph query neighbors <id> [--depth <n>]");
+        const depth = asIntFlag(flags, "depth") ?? 1;
+        if (depth < 1) throw new Error(`Invalid --depth: expected a positive integer, got ${depth}`);
+
+        const neighborhood = findNeighbors(graph, nodeId, depth);
+        if (neighborhood.nodes.length === 0) throw new Error(`Node not found: ${nodeId}`);
+
+        if (jsonMode) {
+          stdoutLine(JSON.stringify({ ok: true, query, nodeId, depth, ...neighborhood }, null, 2));
+        } else {
+          stdoutLine(`Neighborhood of ${nodeId} (depth ${depth}): ${neighborhood.nodes.length} nodes, ${neighborhood.edges.length} edges`);
+          for (const node of neighborhood.nodes) {
+            stdoutLine(`  ${node.id} [${node.kind}, ${node.status}] ${node.label}`);
+          }
+          for (const edge of neighborhood.edges) {
+            stdoutLine(`  ${edge.from} --${edge.type}--> ${edge.to}`);
+          }
+        }
+        process.exit(0);
+      }
+
+      throw new Error(
+        `Unknown graph query: ${query ?? "(missing)"} (expected falsified-assumptions, lineage, edges, or neighbors)`
+      );
+    }
+
+    throw new Error(`Unknown graph subcommand: ${sub ?? "(missing)"}`);
+  }
+
+  if (top === "mail" && sub === "serve") {
+    if (!asBoolFlag(flags, "local")) {
+      throw new Error("mail serve only runs the local stand-in; pass --local (or run the Agent Mail server for shared setups).");
+    }
+    // Default to wherever the rest of the CLI will look for Agent Mail
+    const configured = new URL(runtimeConfig.agentMail.baseUrl);
+    const hostname = asStringFlag(flags, "host") ?? configured.hostname;
+    const port = asIntFlag(flags, "port") ?? (Number.parseInt(configured.port, 10) || 8765);
+    const token = asStringFlag(flags, "token") ?? runtimeConfig.agentMail.bearerToken;
+    if (!token && !isLoopbackHost(hostname)) {
+      throw new Error(
+        `Refusing to serve Agent Mail on ${hostname} without a token; pass --token (or set AGENT_MAIL_BEARER_TOKEN), or bind to 127.0.0.1.`
+      );
+    }
+    const dataHome = envNonEmpty("XDG_DATA_HOME") ?? join(homedir(), ".local", "share");
+    const dbPath = resolve(asStringFlag(flags, "db") ?? join(dataHome, "brenner", "agent-mail.sqlite3"));
+    mkdirSync(dirname(dbPath), { recursive: true });
+
+    const db = new Database(dbPath, { create: true });
+    db.exec("PRAGMA journal_mode = WAL;");
+    const mail = new LocalAgentMailServer(db);
+
+    const server = Bun.serve({
+      hostname,
+      port,
+      fetch: (request) =>
+        handleLocalAgentMailRequest(request, mail, { path: runtimeConfig.agentMail.path, bearerToken: token }),
+    });
+
+    stdoutLine(`Local Agent Mail listening on http://${server.hostname}:${server.port}${runtimeConfig.agentMail.path} (db: ${dbPath})`);
+    // Serve until interrupted
+    await new Promise<never>(() => {});
+  }
+
   if (top === "mail") {
     const client = new AgentMailClient(runtimeConfig.agentMail);
     const projectKey = asStringFlag(flags, "project-key") ?? runtimeConfig.defaults.projectKey;
@@ -6238,24 +7365,91 @@ ${JSON.stringify(delta, null, 2)}
     const jsonMode = asBoolFlag(flags, "json");
     const artifactPathRaw = sub;
     if (!artifactPathRaw) throw new Error("Missing <artifact.json> path.");
+    const projectKey = resolve(asStringFlag(flags, "project-key") ?? runtimeConfig.defaults.projectKey);
 
     const artifactPath = resolve(artifactPathRaw);
     const artifact = parseArtifactFromJsonFile(artifactPath);
-    const report = lintArtifact(artifact);
+
+    const packPaths = [...runtimeConfig.lint.rulePacks, ...splitCsv(asStringFlag(flags, "rule-packs")).map((p) => resolve(p))];
+    const packs = selectLintRulePacks(await loadLintRulePacks(projectKey, packPaths), {
+      templateId: asStringFlag(flags, "session-template"),
+      enable: splitCsv(asStringFlag(flags, "enable-packs")),
+    });
+
+    // Quote verification against the transcript and the session's evidence pack (when available)
+    const transcriptFlag = asStringFlag(flags, "transcript-file");
+    const transcriptPath = resolve(transcriptFlag ?? "complete_brenner_transcript.md");
+    const transcript = transcriptFlag || existsSync(transcriptPath) ? parseTranscript(readTextFile(transcriptPath)) : null;
+    const evidenceFlag = asStringFlag(flags, "evidence-file");
+    const sessionId = artifact.metadata?.session_id ?? "";
+    const evidencePath = evidenceFlag
+      ? resolve(evidenceFlag)
+      : join(projectKey, "artifacts", sessionId.replace(/[^a-zA-Z0-9_.-]/g, "_"), "evidence.json");
+    const evidence = evidenceFlag || (sessionId && existsSync(evidencePath)) ? parseEvidencePackFromJsonFile(evidencePath) : null;
+    const citations = checkArtifactCitations(artifact, buildCitationCorpus({ transcript, evidence }));
+
+    const report = summarizeLintViolations([
+      ...lintArtifactWithRulePacks(artifact, packs).violations,
+      ...citationLintViolations(citations),
+    ]);
 
     const artifactName = artifact.metadata?.session_id ? artifact.metadata.session_id : artifactPath;
     if (jsonMode) {
-      stdoutLine(formatLintReportJson(report, artifactName));
+      const output = JSON.parse(formatLintReportJson(report, artifactName)) as Record<string, unknown>;
+      if (packs.length > 0) {
+        output.rule_packs = packs.map((pack) => ({ id: pack.id, name: pack.name, source: pack.source ?? null }));
+      }
+      if (citations.checks.length > 0) {
+        output.citations = citations;
+      }
+      stdoutLine(JSON.stringify(output, null, 2));
     } else {
       stdoutLine(formatLintReportHuman(report, artifactName));
+      if (packs.length > 0) {
+        stdoutLine(`Rule packs: ${packs.map((pack) => `${pack.id} (${pack.source ?? "inline"})`).join(", ")}`);
+      }
+      if (citations.checks.length > 0) {
+        const { verified, misquote, wrong_anchor, fabricated, unresolved } = citations.summary;
+        stdoutLine(
+          `Quoted citations: ${citations.checks.length} checked, ${verified} verified, ${misquote} misquoted, ` +
+            `${wrong_anchor} wrong anchor, ${fabricated} fabricated, ${unresolved} unresolved`
+        );
+      }
     }
 
     process.exit(report.valid ? 0 : 1);
   }
 
-  if (top === "excerpt" && sub === "build") {
-    const jsonMode = asBoolFlag(flags, "json");
-
+  if (top === "artifact" && sub === "diff") {
+    const client = new AgentMailClient(runtimeConfig.agentMail);
+    const projectKey = resolve(asStringFlag(flags, "project-key") ?? runtimeConfig.defaults.projectKey);
+    const threadId = asStringFlag(flags, "thread-id");
+    if (!threadId) throw new Error("Missing --thread-id.");
+    const from = asIntFlag(flags, "from");
+    const to = asIntFlag(flags, "to");
+    const jsonMode = asBoolFlag(flags, "json");
+
+    const thread = await client.readThread({ projectKey, threadId, includeBodies: true });
+    const interventions = await new InterventionStorage({ baseDir: projectKey }).loadSessionInterventions(threadId);
+    const result = diffCompiledVersions(
+      thread.messages,
+      threadId,
+      { from, to },
+      { resolutions: conflictResolutionsFromInterventions(interventions) },
+    );
+    if (!result.ok) throw new Error(result.error);
+
+    if (jsonMode) {
+      stdoutLine(JSON.stringify({ ok: true, threadId, from: result.from, to: result.to, diff: result.diff }, null, 2));
+    } else {
+      stdoutLine(formatDiffHuman(result.diff));
+    }
+    process.exit(0);
+  }
+
+  if (top === "excerpt" && sub === "build") {
+    const jsonMode = asBoolFlag(flags, "json");
+
     const transcriptSelectionRaw = asStringFlag(flags, "sections") ?? asStringFlag(flags, "anchors");
     const tagsSelectionRaw = asStringFlag(flags, "tags") ?? asStringFlag(flags, "tag");
     if (!transcriptSelectionRaw && !tagsSelectionRaw) {
@@ -6484,6 +7678,474 @@ ${JSON.stringify(delta, null, 2)}
     process.exit(result.ok ? 0 : 1);
   }
 
+  if (top === "simulate") {
+    const projectKey = resolve(asStringFlag(flags, "project-key") ?? runtimeConfig.defaults.projectKey);
+    const threadId = asStringFlag(flags, "thread-id");
+    if (!threadId) throw new Error("Missing --thread-id.");
+    const excerptFile = asStringFlag(flags, "excerpt-file");
+    if (!excerptFile) throw new Error("Missing --excerpt-file.");
+    const excerpt = readTextFile(resolve(excerptFile));
+    const question = asStringFlag(flags, "question");
+    if (!question) throw new Error("Missing --question (research question).");
+    const sender = asStringFlag(flags, "sender") ?? "Simulator";
+    const jsonMode = asBoolFlag(flags, "json");
+    const outFileRaw = asStringFlag(flags, "out-file");
+
+    // Roster: a script file, or the same --to/--role-map as session start
+    let specs: ScriptedAgentSpec[];
+    const scriptPath = asStringFlag(flags, "script");
+    if (scriptPath) {
+      specs = await loadSimulationScript(resolve(scriptPath));
+    } else {
+      const to = splitCsv(asStringFlag(flags, "to"));
+      if (to.length === 0) throw new Error("Missing --to <A,B> (or --script <path>).");
+      const roleMapRaw = asStringFlag(flags, "role-map")?.trim();
+      if (!roleMapRaw) throw new Error("Missing --role-map (simulated agents need explicit roles).");
+      const roleMap = new Map(Object.entries(parseRoleMapFlag(roleMapRaw)).map(([name, role]) => [name.toLowerCase(), role]));
+      const behaviors = new Map(
+        Object.entries(parseBehaviorMap(asStringFlag(flags, "behavior") ?? "")).map(([name, b]) => [name.toLowerCase(), b])
+      );
+      const unknown = [...behaviors.keys()].filter((name) => !to.some((agent) => agent.toLowerCase() === name));
+      if (unknown.length > 0) throw new Error(`--behavior names agents not in --to: ${unknown.join(", ")}`);
+      const fixturesDir = asStringFlag(flags, "fixtures");
+
+      specs = to.map((name) => {
+        const role = roleMap.get(name.toLowerCase());
+        if (!role) throw new Error(`--role-map is missing entries for: ${name}`);
+        const fixturePath = fixturesDir ? resolve(fixturesDir, `${name}.md`) : null;
+        return {
+          name,
+          role,
+          behavior: behaviors.get(name.toLowerCase()),
+          ...(fixturePath && existsSync(fixturePath) ? { fixtureBody: readTextFile(fixturePath) } : {}),
+        };
+      });
+    }
+    const agents = specs.map(createScriptedAgent);
+
+    // Private local Agent Mail (in memory unless --db), reached over HTTP like the real one
+    const dbPath = asStringFlag(flags, "db");
+    const mail = new LocalAgentMailServer(new Database(dbPath ? resolve(dbPath) : ":memory:", { create: true }));
+    const mailServer = Bun.serve({
+      hostname: "127.0.0.1",
+      port: 0,
+      fetch: (request) => handleLocalAgentMailRequest(request, mail, { path: "/mcp/" }),
+    });
+    const client = new AgentMailClient({ baseUrl: `http://127.0.0.1:${mailServer.port}`, path: "/mcp/" });
+
+    await client.ensureProject({ humanKey: projectKey });
+    await client.registerAgent({
+      projectKey,
+      name: sender,
+      program: "brenner-cli",
+      model: "orchestrator",
+      taskDescription: `Brenner Protocol simulation: ${threadId}`,
+    });
+    for (const agent of agents) {
+      await client.registerAgent({
+        projectKey,
+        name: agent.name,
+        program: "brenner-simulate",
+        model: agent.behavior,
+        taskDescription: `Simulated ${agent.role}`,
+      });
+    }
+
+    // 1. Kickoff, composed exactly as session start does
+    const kickoffConfig: KickoffConfig = {
+      threadId,
+      researchQuestion: question,
+      context: asStringFlag(flags, "context") ?? "See excerpt for background.",
+      excerpt,
+      recipients: agents.map((agent) => agent.name),
+      recipientRoles: Object.fromEntries(agents.map((agent) => [agent.name, agent.role])),
+      initialHypotheses: asStringFlag(flags, "hypotheses"),
+      constraints: asStringFlag(flags, "constraints"),
+      requestedOutputs: asStringFlag(flags, "outputs"),
+      operatorSelection: {
+        hypothesis_generator: AGENT_ROLES["Codex"].operators,
+        test_designer: AGENT_ROLES["Opus"].operators,
+        adversarial_critic: AGENT_ROLES["Gemini"].operators,
+      },
+    };
+    for (const msg of composeKickoffMessages(kickoffConfig)) {
+      await client.sendMessage({
+        projectKey,
+        senderName: sender,
+        to: [msg.to],
+        subject: msg.subject,
+        bodyMd: msg.body,
+        threadId,
+        ackRequired: msg.ackRequired,
+      });
+    }
+
+    // 2. Each agent reads its kickoff, acknowledges it and replies
+    const agentReports: Json[] = [];
+    for (const agent of agents) {
+      const inbox = await client.readInbox({ projectKey, agentName: agent.name, includeBodies: true });
+      const kickoff = inbox.messages.find(
+        (m) => m.thread_id === threadId && parseSubjectType(m.subject).type === "kickoff"
+      );
+      if (!kickoff) {
+        agentReports.push({ name: agent.name, role: agent.role, behavior: agent.behavior, error: "No kickoff received." });
+        continue;
+      }
+      await client.acknowledgeMessage({ projectKey, agentName: agent.name, messageId: kickoff.id });
+
+      try {
+        const reply = agent.respond({
+          messageId: kickoff.id,
+          threadId,
+          from: kickoff.from ?? sender,
+          subject: kickoff.subject,
+          body: kickoff.body_md ?? "",
+        });
+        let sent: Json = null;
+        if (reply) {
+          const result = await client.sendMessage({
+            projectKey,
+            senderName: agent.name,
+            to: [kickoff.from ?? sender],
+            subject: reply.subject,
+            bodyMd: reply.body,
+            threadId,
+          });
+          sent = { message_id: result.deliveries[0]?.payload.id ?? null, subject: reply.subject };
+        }
+        agentReports.push({ name: agent.name, role: agent.role, behavior: agent.behavior, kickoff_id: kickoff.id, reply: sent });
+      } catch (e) {
+        const msg = e instanceof Error ? e.message : String(e);
+        agentReports.push({ name: agent.name, role: agent.role, behavior: agent.behavior, kickoff_id: kickoff.id, error: msg });
+      }
+    }
+
+    // 3. Compile and lint (built-in rules plus rule packs)
+    const compiled = await compileSessionArtifact({ client, projectKey, threadId, includeArtifact: true });
+    let lint: ReturnType<typeof lintArtifactWithRulePacks> | null = null;
+    let published: Json = null;
+    if (compiled.ok && compiled.artifact) {
+      const packPaths = [...runtimeConfig.lint.rulePacks, ...splitCsv(asStringFlag(flags, "rule-packs")).map((p) => resolve(p))];
+      const packs = selectLintRulePacks(await loadLintRulePacks(projectKey, packPaths), {
+        templateId: asStringFlag(flags, "session-template"),
+        enable: splitCsv(asStringFlag(flags, "enable-packs")),
+      });
+      lint = lintArtifactWithRulePacks(compiled.artifact, packs);
+
+      if (outFileRaw) {
+        const outFile = resolve(outFileRaw);
+        mkdirSync(dirname(outFile), { recursive: true });
+        writeFileSync(outFile, compiled.markdown, "utf8");
+      }
+
+      // 4. Publish the compiled artifact back to the roster
+      if (asBoolFlag(flags, "publish")) {
+        const subject = `COMPILED: v${compiled.version} artifact`;
+        const result = await client.sendMessage({
+          projectKey,
+          senderName: sender,
+          to: agents.map((agent) => agent.name),
+          subject,
+          bodyMd: compiled.markdown,
+          threadId,
+        });
+        published = { message_id: result.deliveries[0]?.payload.id ?? null, subject };
+      }
+    }
+    mailServer.stop(true);
+
+    // The artifact itself goes to --out-file; lint is reported once, with rule packs applied
+    const compileSummary = compiled.ok ? { ...compiled, artifact: undefined, markdown: undefined, lint: undefined } : compiled;
+    const ok = compiled.ok && lint !== null && lint.valid;
+    if (jsonMode) {
+      stdoutLine(
+        JSON.stringify(
+          { ok, thread_id: threadId, agents: agentReports, compile: compileSummary, lint, published, out_file: outFileRaw ? resolve(outFileRaw) : null },
+          null,
+          2
+        )
+      );
+    } else {
+      for (const report of agentReports as Array<Record<string, Json>>) {
+        const reply = report.reply as { subject?: string } | null | undefined;
+        const outcome = report.error ? `error: ${report.error}` : reply ? `replied "${reply.subject}"` : "stayed silent";
+        stdoutLine(`${report.name} (${report.role}, ${report.behavior}): ${outcome}`);
+      }
+      stdoutLine(
+        `Delta blocks: ${compiled.deltas.valid} valid, ${compiled.deltas.invalid} invalid (total ${compiled.deltas.total_blocks}).`
+      );
+      for (const item of compiled.invalid_deltas.slice(0, 5)) {
+        stdoutLine(`- message ${item.message_id}: ${item.subject} → ${item.error}`);
+      }
+      if (!compiled.ok) {
+        stdoutLine(`Compile failed: ${JSON.stringify(compiled.errors)}`);
+      } else if (lint) {
+        stdoutLine(formatLintReportHuman(lint, `artifact v${compiled.version}`));
+      }
+      if (published) stdoutLine(`Published ${(published as { subject: string }).subject} to ${agents.map((a) => a.name).join(", ")}.`);
+    }
+    process.exit(ok ? 0 : 1);
+  }
+
+  if (top === "relay" && sub === "token") {
+    const actor = asStringFlag(flags, "actor");
+    if (!actor) throw new Error("Missing --actor.");
+    const secret = asStringFlag(flags, "token") ?? process.env.BRENNER_RELAY_TOKEN;
+    if (!secret) throw new Error("Missing --token (or set BRENNER_RELAY_TOKEN).");
+    stdoutLine(createRelayActorToken(secret, actor));
+    process.exit(0);
+  }
+
+  if (top === "relay" && sub === "serve") {
+    const hostname = asStringFlag(flags, "host") ?? "127.0.0.1";
+    const port = asIntFlag(flags, "port") ?? 4010;
+    const token = asStringFlag(flags, "token") ?? process.env.BRENNER_RELAY_TOKEN;
+    if (!token && !isLoopbackHost(hostname)) {
+      throw new Error(
+        `Refusing to serve the session relay on ${hostname} without a token; pass --token (or set BRENNER_RELAY_TOKEN), or bind to 127.0.0.1.`
+      );
+    }
+    const allowedOrigins = new Set(
+      (asStringFlag(flags, "allow-origin") ?? "").split(",").map((origin) => origin.trim()).filter(Boolean)
+    );
+    const relay = new SessionRelay();
+
+    // CORS only for origins the operator named (e.g. the web app talking to a relay on another port)
+    const withCors = (request: Request, response: Response): Response => {
+      const origin = request.headers.get("origin");
+      if (origin && allowedOrigins.has(origin)) {
+        response.headers.set("Access-Control-Allow-Origin", origin);
+        response.headers.set("Access-Control-Allow-Methods", "GET, POST, OPTIONS");
+        response.headers.set("Access-Control-Allow-Headers", "Content-Type, Authorization, Last-Event-ID");
+        response.headers.set("Vary", "Origin");
+      }
+      return response;
+    };
+    const deny = (request: Request, error: string, status: number): Response =>
+      withCors(request, Response.json({ success: false, error, code: "AUTH_ERROR" }, { status }));
+
+    const server = Bun.serve({
+      hostname,
+      port,
+      // SSE streams stay open between pings
+      idleTimeout: 0,
+      async fetch(request) {
+        const origin = request.headers.get("origin");
+        if (request.method === "OPTIONS" && origin && allowedOrigins.has(origin)) {
+          return withCors(request, new Response(null, { status: 204 }));
+        }
+        if (!token) {
+          // Without a token only loopback callers are expected; a foreign Host means DNS rebinding
+          if (!isLoopbackHost(new URL(request.url).hostname)) return deny(request, "Forbidden host", 403);
+          return withCors(request, await handleSessionRelayRequest(request, relay));
+        }
+
+        const bearer = request.headers.get("authorization")?.replace(/^Bearer\s+/i, "");
+        const provided = new URL(request.url).searchParams.get("token") ?? bearer ?? "";
+        const actor = verifyRelayActorToken(token, provided);
+        if (!actor) return deny(request, "Unauthorized", 401);
+        return withCors(request, await handleSessionRelayRequest(request, relay, { actor }));
+      },
+    });
+
+    stdoutLine(`Session relay listening on http://${server.hostname}:${server.port}/`);
+    // Serve until interrupted
+    await new Promise<never>(() => {});
+  }
+
+  if (top === "mcp" && sub === "serve") {
+    const projectKey = resolve(asStringFlag(flags, "project-key") ?? runtimeConfig.defaults.projectKey);
+    let webCwd: string | null = null;
+    try {
+      webCwd = resolveWebAppCwd(projectKey);
+    } catch {
+      // ignore (corpus search falls back to HTTP)
+    }
+
+    const server = new BrennerMcpServer({
+      projectKey,
+      actor: asStringFlag(flags, "agent") ?? process.env.AGENT_NAME ?? "mcp",
+      onHypothesisTransition: (transition) => appendHypothesisTransition(projectKey, transition),
+      search: (query, options) =>
+        webCwd ? withWorkingDirectory(webCwd, () => globalSearch(query, options)) : globalSearch(query, options),
+    });
+
+    // stdout carries protocol messages only; diagnostics go to stderr.
+    const rl = createInterface({ input: process.stdin, terminal: false });
+    let queue = Promise.resolve();
+    rl.on("line", (line) => {
+      if (!line.trim()) return;
+      // Handle requests one at a time so responses keep request order and writes don't interleave.
+      queue = queue.then(async () => {
+        let message: unknown;
+        try {
+          message = JSON.parse(line);
+        } catch (e) {
+          const error = { code: -32700, message: `Parse error: ${e instanceof Error ? e.message : String(e)}` };
+          process.stdout.write(`${JSON.stringify({ jsonrpc: "2.0", id: null, error })}\n`);
+          return;
+        }
+        const response = await server.handleMessage(message);
+        if (response) process.stdout.write(`${JSON.stringify(response)}\n`);
+      });
+    });
+
+    stderrLine(`Brenner MCP server ready on stdio (project: ${projectKey})`);
+    await new Promise<void>((resolveClosed) => rl.on("close", resolveClosed));
+    await queue;
+    process.exit(0);
+  }
+
+  if (top === "mcp") {
+    throw new Error(`Unknown mcp command: ${[sub, action].filter(Boolean).join(" ") || "(missing subcommand)"}`);
+  }
+
+  if (top === "debate") {
+    const client = new AgentMailClient(runtimeConfig.agentMail);
+    const projectKey = resolve(asStringFlag(flags, "project-key") ?? runtimeConfig.defaults.projectKey);
+    const jsonMode = asBoolFlag(flags, "json");
+    const mailOptions = async () => {
+      let sender = asStringFlag(flags, "sender") ?? process.env.AGENT_NAME;
+      if (!sender) throw new Error("Missing --sender (or set AGENT_NAME).");
+      await client.toolsCall("ensure_project", { human_key: projectKey });
+      const registerResult = await client.toolsCall("register_agent", {
+        project_key: projectKey,
+        name: sender,
+        program: "brenner-cli",
+        model: "orchestrator",
+        task_description: "Brenner Protocol debate moderator",
+      });
+      const actualName = parseAgentNameFromToolResult(registerResult);
+      if (actualName && actualName !== sender) {
+        stderrLine(`Agent Mail assigned sender name "${actualName}" (requested "${sender}").`);
+        sender = actualName;
+      }
+      return { projectKey, senderName: sender };
+    };
+    const loadDebate = async () => {
+      const debateId = asStringFlag(flags, "debate-id");
+      if (!debateId) throw new Error("Missing --debate-id.");
+      const threadId = debateId.endsWith("-THREAD") ? debateId : generateDebateThreadId(debateId);
+      const state = await readDebateThread(client, { projectKey, threadId });
+      if (!state) throw new Error(`No debate found on thread ${threadId}.`);
+      return state;
+    };
+
+    if (sub === "start") {
+      const threadId = asStringFlag(flags, "thread-id");
+      if (!threadId) throw new Error("Missing --thread-id (session thread the debate reports to).");
+      const hypothesisFile = asStringFlag(flags, "hypothesis-file");
+      if (!hypothesisFile) throw new Error("Missing --hypothesis-file <card.json>.");
+      const agentsRaw = asStringFlag(flags, "agents");
+      if (!agentsRaw) throw new Error("Missing --agents <role=Agent,...>.");
+      const format = asStringFlag(flags, "format") ?? "oxford_style";
+      if (!isDebateFormat(format)) throw new Error(`Invalid --format: ${format} (oxford_style|socratic|steelman_contest).`);
+
+      const debate = createDebate({
+        sessionId: threadId,
+        hypothesis: parseHypothesisCardFromJsonFile(resolve(hypothesisFile)),
+        format,
+        topic: asStringFlag(flags, "topic"),
+        maxRounds: asIntFlag(flags, "max-rounds"),
+      });
+      const roster = parseDebateRoster(agentsRaw);
+      const missing = missingRosterRoles(debate, roster);
+      if (missing.length > 0) throw new Error(`--agents is missing entries for: ${missing.join(", ")}`);
+
+      const result = await sendDebateRound(client, { debate, roster, awaiting: null }, await mailOptions());
+      if ("error" in result) throw new Error(result.error);
+
+      if (jsonMode) {
+        stdoutLine(JSON.stringify({ ok: true, debateId: debate.id, threadId: debate.threadId, prompt: result.prompt }, null, 2));
+      } else {
+        stdoutLine(`Started debate ${debate.id} on thread ${debate.threadId}.`);
+        stdoutLine(`Round 1 sent to ${roster[result.prompt.speaker]} (${result.prompt.speaker}).`);
+      }
+      process.exit(0);
+    }
+
+    if (sub === "status") {
+      const state = await loadDebate();
+      const status = getDebateStatus(state.debate);
+      if (jsonMode) {
+        stdoutLine(JSON.stringify({ ok: true, ...state, status }, null, 2));
+        process.exit(0);
+      }
+      stdoutLine(`${state.debate.id}: ${state.debate.status} (${status.roundsCompleted}/${status.maxRounds} rounds)`);
+      stdoutLine(`Topic: ${state.debate.topic}`);
+      for (const round of state.debate.rounds) {
+        stdoutLine(`- Round ${round.number} ${round.speaker} (message ${round.messageId})`);
+      }
+      if (state.awaiting) {
+        stdoutLine(`Waiting for ${state.roster[state.awaiting.speaker] ?? state.awaiting.speaker} (${state.awaiting.speaker}) to reply to round ${state.awaiting.round}.`);
+      } else if (state.debate.status !== "concluded") {
+        stdoutLine(
+          status.readyToConclude || !status.currentSpeaker
+            ? `Ready to conclude: brenner debate conclude --debate-id ${state.debate.id}`
+            : `Next speaker: ${status.currentSpeaker}`
+        );
+      }
+      process.exit(0);
+    }
+
+    if (sub === "next") {
+      const state = await loadDebate();
+      if (state.debate.status === "concluded") throw new Error(`Debate ${state.debate.id} is already concluded.`);
+      const result = await sendDebateRound(client, state, await mailOptions());
+      if ("error" in result) throw new Error(result.error);
+      if (jsonMode) {
+        stdoutLine(JSON.stringify({ ok: true, debateId: state.debate.id, prompt: result.prompt }, null, 2));
+      } else {
+        stdoutLine(`Round ${result.prompt.round} sent to ${state.roster[result.prompt.speaker]} (${result.prompt.speaker}).`);
+      }
+      process.exit(0);
+    }
+
+    if (sub === "conclude") {
+      const state = await loadDebate();
+      if (state.concludedAt) throw new Error(`Debate ${state.debate.id} was already concluded at ${state.concludedAt}.`);
+      const outcome = concludeDebateThread(state);
+      const dryRun = asBoolFlag(flags, "dry-run");
+
+      const posted = dryRun
+        ? null
+        : await postDebateConclusion(client, outcome, state.roster, {
+            ...(await mailOptions()),
+            sessionThreadId: state.debate.sessionId,
+          });
+
+      if (jsonMode) {
+        stdoutLine(
+          JSON.stringify(
+            {
+              ok: true,
+              dry_run: dryRun,
+              debateId: outcome.debate.id,
+              sessionThreadId: outcome.debate.sessionId,
+              judgement: outcome.judgement,
+              conclusion: outcome.debate.conclusion,
+              deltas: outcome.deltas.map(({ operation, section, payload, rationale }) => ({ operation, section, payload, rationale })),
+              messageIds: posted?.messageIds ?? [],
+            },
+            null,
+            2
+          )
+        );
+        process.exit(0);
+      }
+
+      process.stdout.write(`${outcome.body}\n`);
+      stderrLine(
+        dryRun
+          ? `Dry run: ${outcome.deltas.length} deltas not posted.`
+          : `Posted conclusion with ${outcome.deltas.length} deltas to ${outcome.debate.threadId} and ${outcome.debate.sessionId}; run session compile to merge them.`
+      );
+      process.exit(0);
+    }
+
+    throw new Error(`Unknown debate command: ${sub ?? "(missing)"}`);
+  }
+
   if (top === "cockpit" && sub === "start") {
     const jsonMode = asBoolFlag(flags, "json");
     const dryRun = asBoolFlag(flags, "dry-run");
@@ -6907,6 +8569,18 @@ ${JSON.stringify(delta, null, 2)}
         stderrLine(`- message ${item.message_id}: ${item.subject} → ${item.error}`);
       }
     }
+    if (result.conflicts.length > 0) {
+      const unresolved = result.conflicts.filter((conflict) => !conflict.resolution);
+      stderrLine(`Edit conflicts: ${result.conflicts.length} (${unresolved.length} unresolved)`);
+      for (const conflict of result.conflicts) {
+        stderrLine(`- [${conflict.resolution ? "resolved" : "unresolved"}] ${formatEditConflict(conflict)}`);
+      }
+      if (unresolved.length > 0) {
+        stderrLine(
+          `Resolve with: brenner session resolve --thread-id ${threadId} --target <id> --field <name> --agent <name> --rationale "<why>"`
+        );
+      }
+    }
 
     stderrLine(formatLintReportHuman(result.lint, `artifact v${result.version}`));
     const recText = formatOperatorRecommendationsHuman(operatorRecommendations);
@@ -6914,6 +8588,96 @@ ${JSON.stringify(delta, null, 2)}
     process.exit(0);
   }
 
+  if (normalizedTop === "session" && sub === "resolve") {
+    const client = new AgentMailClient(runtimeConfig.agentMail);
+    const projectKey = resolve(asStringFlag(flags, "project-key") ?? runtimeConfig.defaults.projectKey);
+    const threadId = asStringFlag(flags, "thread-id");
+    if (!threadId) throw new Error("Missing --thread-id.");
+    const targetId = asStringFlag(flags, "target");
+    if (!targetId) throw new Error("Missing --target <item-id>.");
+    const field = asStringFlag(flags, "field");
+    if (!field) throw new Error("Missing --field <name>.");
+    const rationale = asStringFlag(flags, "rationale");
+    if (!rationale) throw new Error("Missing --rationale <s>.");
+    const chosenAgent = asStringFlag(flags, "agent");
+    const valueRaw = asStringFlag(flags, "value");
+    if ((chosenAgent === undefined) === (valueRaw === undefined)) {
+      throw new Error("Pass exactly one of --agent <name> or --value <json>.");
+    }
+    const round = asIntFlag(flags, "round");
+    const operatorId = asStringFlag(flags, "operator") ?? process.env.AGENT_NAME ?? "human";
+    const jsonMode = asBoolFlag(flags, "json");
+
+    const compiled = await compileSessionArtifact({ client, projectKey, threadId });
+    if (!compiled.ok) {
+      stdoutLine(JSON.stringify(compiled, null, 2));
+      process.exit(1);
+    }
+
+    const matches = compiled.conflicts.filter(
+      (conflict) =>
+        conflict.target_id === targetId && conflict.field === field && (round === undefined || conflict.round === round)
+    );
+    if (matches.length === 0) {
+      throw new Error(`No edit conflict on ${targetId}.${field}${round === undefined ? "" : ` in round ${round}`}.`);
+    }
+    if (matches.length > 1) {
+      throw new Error(
+        `${targetId}.${field} conflicted in rounds ${matches.map((conflict) => conflict.round).join(", ")}; pass --round <n>.`
+      );
+    }
+    const conflict = matches[0];
+
+    let value: unknown;
+    if (chosenAgent !== undefined) {
+      const edit = conflict.edits.find((candidate) => candidate.agent === chosenAgent);
+      if (!edit) {
+        throw new Error(
+          `${chosenAgent} did not edit ${targetId}.${field} in round ${conflict.round} (edited by: ${conflict.edits.map((candidate) => candidate.agent).join(", ")}).`
+        );
+      }
+      value = edit.value;
+    } else {
+      try {
+        value = JSON.parse(valueRaw as string);
+      } catch {
+        throw new Error(`Invalid --value: expected JSON (quote strings, e.g. '"New claim"').`);
+      }
+    }
+
+    const storage = new InterventionStorage({ baseDir: projectKey });
+    const target = conflictResolutionTarget(conflict);
+    const candidate = {
+      id: createInterventionId(threadId, await storage.getNextSequence(threadId)),
+      session_id: threadId,
+      timestamp: new Date().toISOString(),
+      operator_id: operatorId,
+      type: "conflict_resolution",
+      severity: determineInterventionSeverity("conflict_resolution", target),
+      target,
+      state_change: { before: JSON.stringify(conflict.applied), after: JSON.stringify(value) },
+      rationale,
+      reversible: true,
+      tags: chosenAgent === undefined ? [] : [`agent:${chosenAgent}`],
+    };
+    const validation = validateIntervention(candidate);
+    if (!validation.valid) {
+      throw new Error(`Invalid intervention: ${validation.errors.join("; ")}`);
+    }
+    await storage.saveIntervention(validation.data);
+
+    if (jsonMode) {
+      stdoutLine(JSON.stringify({ ok: true, intervention: validation.data, conflict }, null, 2));
+      process.exit(0);
+    }
+
+    stdoutLine(
+      `Recorded ${validation.data.id}: ${targetId}.${field} (round ${conflict.round}) → ${JSON.stringify(value)}`
+    );
+    stdoutLine(`Re-run: brenner session compile --thread-id ${threadId}`);
+    process.exit(0);
+  }
+
   if (normalizedTop === "session" && sub === "write") {
     const client = new AgentMailClient(runtimeConfig.agentMail);
     const projectKey = resolve(asStringFlag(flags, "project-key") ?? runtimeConfig.defaults.projectKey);
@@ -7020,7 +8784,8 @@ ${JSON.stringify(delta, null, 2)}
     if (!sender) throw new Error("Missing --sender (or set AGENT_NAME).");
 
     const to = splitCsv(asStringFlag(flags, "to"));
-    if (to.length === 0) throw new Error("Missing --to <A,B>.");
+    const repairMode = asBoolFlag(flags, "repair");
+    if (to.length === 0 && !repairMode) throw new Error("Missing --to <A,B>.");
 
     const operatorQueryRaw = asStringFlag(flags, "operator")?.trim();
     const ackRequired = asBoolFlag(flags, "ack-required");
@@ -7042,6 +8807,58 @@ ${JSON.stringify(delta, null, 2)}
       sender = actualName;
     }
 
+    if (repairMode) {
+      const diagnosis = await diagnoseSessionDeltas({ client, projectKey, threadId });
+      const items = diagnosis.messages
+        .filter((msg) => msg.repairs.length > 0)
+        .map((msg) => ({ messageId: msg.id, subject: msg.subject, from: msg.from, proposals: msg.repairs }));
+
+      if (items.length === 0) {
+        if (jsonMode) stdoutLine(JSON.stringify({ ok: true, threadId, repairs: 0, sent: false }, null, 2));
+        else stderrLine(`No malformed deltas to correct in thread ${threadId}.`);
+        process.exit(0);
+      }
+
+      const recipients = to.length > 0 ? to : [...new Set(items.map((item) => item.from))];
+      const subject = `NUDGE: [${threadId}] Delta corrections`;
+      const bodyMd = formatDeltaRepairRequest(items, threadId);
+      const repairCount = items.reduce((sum, item) => sum + item.proposals.length, 0);
+
+      if (dryRun) {
+        if (jsonMode) {
+          stdoutLine(
+            JSON.stringify(
+              { ok: true, dry_run: true, threadId, repairs: repairCount, message: { to: recipients, subject, body_md: bodyMd } },
+              null,
+              2,
+            ),
+          );
+        } else {
+          stderrLine(`Dry run: would send ${repairCount} delta correction(s) to ${recipients.join(", ")}.`);
+          stdoutLine(bodyMd);
+        }
+        process.exit(0);
+      }
+
+      const sendResult = await client.toolsCall("send_message", {
+        project_key: projectKey,
+        sender_name: sender,
+        to: recipients,
+        subject,
+        body_md: bodyMd,
+        thread_id: threadId,
+        ack_required: ackRequired,
+      });
+
+      if (jsonMode) {
+        stdoutLine(JSON.stringify({ ok: true, threadId, repairs: repairCount, send: sendResult }, null, 2));
+      } else {
+        stdoutLine(JSON.stringify(sendResult, null, 2));
+        stderrLine(`Sent ${repairCount} delta correction(s) → ${recipients.join(", ")}`);
+      }
+      process.exit(isToolError(sendResult) ? 1 : 0);
+    }
+
     const compiled = await compileSessionArtifact({ client, projectKey, threadId });
     if (!compiled.ok) {
       stdoutLine(JSON.stringify(compiled, null, 2));
@@ -7241,6 +9058,257 @@ ${JSON.stringify(delta, null, 2)}
     process.exit(0);
   }
 
+  // ----------------------------------------------------------------------------
+  // session run
+  // ----------------------------------------------------------------------------
+  if (normalizedTop === "session" && sub === "run") {
+    const client = new AgentMailClient(runtimeConfig.agentMail);
+    const projectKey = resolve(asStringFlag(flags, "project-key") ?? runtimeConfig.defaults.projectKey);
+    const threadId = asStringFlag(flags, "thread-id");
+    if (!threadId) throw new Error("Missing --thread-id.");
+
+    let sender = asStringFlag(flags, "sender") ?? process.env.AGENT_NAME;
+    if (!sender) throw new Error("Missing --sender (or set AGENT_NAME).");
+    const to = splitCsv(asStringFlag(flags, "to"));
+    if (to.length === 0) throw new Error("Missing --to <A,B>.");
+
+    const roleMapRaw = asStringFlag(flags, "role-map")?.trim();
+    const recipientRoles = roleMapRaw ? parseRoleMapFlag(roleMapRaw) : undefined;
+    if (recipientRoles) {
+      const normalizedMap = new Set(Object.keys(recipientRoles).map((k) => k.trim().toLowerCase()));
+      const missing = to.filter((r) => !normalizedMap.has(r.trim().toLowerCase()));
+      if (missing.length > 0) {
+        throw new Error(`--role-map is missing entries for: ${missing.join(", ")}`);
+      }
+    }
+
+    const criteria = parseConvergenceCriteria(asStringFlag(flags, "until") ?? "lint-clean,no-kills");
+    const maxRounds = asIntFlag(flags, "max-rounds") ?? 3;
+    if (maxRounds <= 0) throw new Error(`Invalid --max-rounds: expected > 0, got ${maxRounds}`);
+    const intervalSeconds = asIntFlag(flags, "interval") ?? 10;
+    if (intervalSeconds <= 0) throw new Error(`Invalid --interval: expected > 0 seconds, got ${intervalSeconds}`);
+    const timeoutSeconds = asIntFlag(flags, "timeout") ?? 3600;
+    if (timeoutSeconds <= 0) throw new Error(`Invalid --timeout: expected > 0 seconds, got ${timeoutSeconds}`);
+    const jsonMode = asBoolFlag(flags, "json");
+
+    // A round is complete once every core role on the roster has replied
+    const expectedRoles = [
+      ...new Set(
+        resolveRecipientRoles({ recipients: to, recipientRoles })
+          .map(({ role }) => role.role)
+          .filter((role) => VALID_ROSTER_ROLES.includes(role)),
+      ),
+    ] as BrennerRole[];
+    if (expectedRoles.length === 0) {
+      throw new Error("No recipient maps to a core role (hypothesis_generator, test_designer, adversarial_critic). Pass --role-map.");
+    }
+
+    await client.toolsCall("ensure_project", { human_key: projectKey });
+    const registerResult = await client.toolsCall("register_agent", {
+      project_key: projectKey,
+      name: sender,
+      program: "brenner-cli",
+      model: "orchestrator",
+      task_description: `Brenner Protocol supervisor: ${threadId}`,
+    });
+    const actualName = parseAgentNameFromToolResult(registerResult);
+    if (actualName && actualName !== sender) {
+      stderrLine(`Agent Mail assigned sender name "${actualName}" (requested "${sender}").`);
+      sender = actualName;
+    }
+
+    const initialThread = await client.readThread({ projectKey, threadId, includeBodies: true });
+    if (!computeThreadStatusFromThread(initialThread).kickoff) {
+      throw new Error(`Thread ${threadId} has no KICKOFF yet. Start it with: brenner session start --thread-id ${threadId} ...`);
+    }
+
+    const rounds: Array<{
+      round: number;
+      compiled_version: number;
+      lint: { valid: boolean; errors: number; warnings: number; info: number };
+      kills: number;
+      top_lint_gap: LintViolation | null;
+      convergence: ConvergenceCheck;
+      kickoff_sent: boolean;
+    }> = [];
+
+    const finish = (outcome: "converged" | "round_limit" | "timeout", exitCode: number): never => {
+      const last = rounds[rounds.length - 1];
+      if (jsonMode) {
+        stdoutLine(
+          JSON.stringify(
+            { ok: outcome === "converged", threadId, outcome, criteria, max_rounds: maxRounds, rounds },
+            null,
+            2,
+          ),
+        );
+      } else if (outcome === "converged") {
+        stdoutLine(`Converged after round ${last.round} (artifact v${last.compiled_version}): ${criteria.join(", ")}.`);
+      } else if (outcome === "round_limit") {
+        stdoutLine(
+          `Stopped at the round limit (${maxRounds}) with artifact v${last.compiled_version}; unmet: ${last.convergence.unmet.join(", ")}.`,
+        );
+      } else {
+        stdoutLine(`Timed out after ${timeoutSeconds}s waiting for round ${last ? last.round + 1 : 0} in thread ${threadId}.`);
+      }
+      process.exit(exitCode);
+    };
+
+    const sendRoundKickoffs = async (args: {
+      round: number;
+      compiledVersion: number;
+      artifactMarkdown: string;
+      lint: LintReport;
+      recipients: string[];
+    }): Promise<void> => {
+      const kickoffs = composeRoundKickoffMessages({
+        threadId,
+        round: args.round,
+        compiledVersion: args.compiledVersion,
+        artifactMarkdown: args.artifactMarkdown,
+        lint: args.lint,
+        topGap: pickTopLintGap(args.lint),
+        recommendations: deriveOperatorRecommendations(args.lint),
+        recipients: args.recipients,
+        recipientRoles,
+      });
+      for (const msg of kickoffs) {
+        const result = await client.toolsCall("send_message", {
+          project_key: projectKey,
+          sender_name: sender,
+          to: [msg.to],
+          subject: msg.subject,
+          body_md: msg.body,
+          thread_id: threadId,
+          ack_required: msg.ackRequired,
+        });
+        if (isToolError(result)) {
+          throw new Error(`Failed to send the round ${args.round} kickoff to ${msg.to}: ${JSON.stringify(result)}`);
+        }
+      }
+    };
+
+    // A previous run may have published COMPILED vN and stopped before round N+1's kickoffs went out
+    const unopened = findUnopenedRound(initialThread.messages, to, expectedRoles);
+    if (unopened) {
+      const compiledVersion = listCompiledVersions(initialThread.messages).at(-1)!.version;
+      const rebuilt = rebuildArtifactAtVersion(initialThread.messages, threadId, compiledVersion);
+      if (!rebuilt.ok) throw new Error(`Cannot resume ${threadId}: ${rebuilt.error}`);
+      const lint = lintArtifact(rebuilt.artifact);
+      const convergence = checkConvergence({
+        round: unopened.round,
+        lintValid: lint.valid,
+        kills: unopened.kills,
+        criteria,
+        maxRounds,
+      });
+      const record = {
+        round: unopened.round,
+        compiled_version: compiledVersion,
+        lint: { valid: lint.valid, ...lint.summary },
+        kills: unopened.kills,
+        top_lint_gap: pickTopLintGap(lint),
+        convergence,
+        kickoff_sent: false,
+      };
+      rounds.push(record);
+
+      if (convergence.converged) finish("converged", 0);
+      if (convergence.roundLimitReached) finish("round_limit", 3);
+
+      await sendRoundKickoffs({
+        round: unopened.round + 1,
+        compiledVersion,
+        artifactMarkdown: unopened.compiled.body_md ?? renderArtifactMarkdown(rebuilt.artifact),
+        lint,
+        recipients: unopened.missingRecipients,
+      });
+      record.kickoff_sent = true;
+      stderrLine(
+        `Resumed: COMPILED v${compiledVersion} had no round ${unopened.round + 1} kickoff; sent it to ${unopened.missingRecipients.join(", ")}.`,
+      );
+    }
+
+    let roundStartMs = Date.now();
+    let lastWaitingKey = "";
+
+    while (true) {
+      const thread = await client.readThread({ projectKey, threadId, includeBodies: true });
+      const progress = computeRoundProgress(thread.messages, expectedRoles);
+
+      if (!progress.isComplete) {
+        const waitingKey = JSON.stringify([progress.round, progress.pendingRoles]);
+        if (waitingKey !== lastWaitingKey) {
+          stderrLine(`Round ${progress.round}: waiting for ${progress.pendingRoles.join(", ")}.`);
+          lastWaitingKey = waitingKey;
+        }
+        if (Date.now() - roundStartMs > timeoutSeconds * 1000) finish("timeout", 2);
+        await new Promise((r) => setTimeout(r, intervalSeconds * 1000));
+        continue;
+      }
+
+      const compiled = await compileSessionArtifact({ client, projectKey, threadId });
+      if (!compiled.ok) {
+        stdoutLine(JSON.stringify(compiled, null, 2));
+        stderrLine(`Round ${progress.round} did not compile; fix the deltas (brenner session nudge --repair) and re-run.`);
+        process.exit(1);
+      }
+
+      const publishResult = await client.toolsCall("send_message", {
+        project_key: projectKey,
+        sender_name: sender,
+        to,
+        subject: `COMPILED: v${compiled.version} artifact`,
+        body_md: compiled.markdown,
+        thread_id: threadId,
+        ack_required: false,
+      });
+      if (isToolError(publishResult)) {
+        throw new Error(`Failed to publish COMPILED v${compiled.version}: ${JSON.stringify(publishResult)}`);
+      }
+
+      const topGap = pickTopLintGap(compiled.lint);
+      const convergence = checkConvergence({
+        round: progress.round,
+        lintValid: compiled.lint.valid,
+        kills: progress.kills,
+        criteria,
+        maxRounds,
+      });
+      const record = {
+        round: progress.round,
+        compiled_version: compiled.version,
+        lint: { valid: compiled.lint.valid, ...compiled.lint.summary },
+        kills: progress.kills,
+        top_lint_gap: topGap,
+        convergence,
+        kickoff_sent: false,
+      };
+      rounds.push(record);
+
+      stderrLine(
+        `Round ${progress.round} → COMPILED v${compiled.version} (lint ${compiled.lint.valid ? "VALID" : "INVALID"}, ` +
+          `${progress.kills} kill(s)${topGap ? `, top gap ${topGap.id}` : ""}).`,
+      );
+
+      if (convergence.converged) finish("converged", 0);
+      if (convergence.roundLimitReached) finish("round_limit", 3);
+
+      await sendRoundKickoffs({
+        round: progress.round + 1,
+        compiledVersion: compiled.version,
+        artifactMarkdown: compiled.markdown,
+        lint: compiled.lint,
+        recipients: to,
+      });
+      record.kickoff_sent = true;
+      stderrLine(`Opened round ${progress.round + 1}: kickoff sent to ${to.join(", ")} (unmet: ${convergence.unmet.join(", ")}).`);
+
+      roundStartMs = Date.now();
+      lastWaitingKey = "";
+    }
+  }
+
   // ----------------------------------------------------------------------------
   // session diagnose
   // ----------------------------------------------------------------------------
@@ -7280,10 +9348,23 @@ ${JSON.stringify(delta, null, 2)}
               stdoutLine(`  \x1b[31m→ ${issue}\x1b[0m`);
             }
           }
+          for (const repair of msg.repairs) {
+            if (!repair.corrected) {
+              stdoutLine(`  Repair: none found (${repair.error})`);
+              continue;
+            }
+            stdoutLine(`  Repair (confidence ${repair.confidence.toFixed(2)}): ${repair.kinds.join(", ")}`);
+            for (const fix of repair.fixes) stdoutLine(`    - ${fix.description}`);
+            for (const line of repair.corrected.split("\n")) stdoutLine(`    ${line}`);
+          }
         }
         stdoutLine(`───────────────────────────────────────────────────────────`);
       }
 
+      if (result.messages.some((msg) => msg.repairs.length > 0)) {
+        stdoutLine(`\nSend these corrections with: brenner session nudge --repair --thread-id ${result.threadId}`);
+      }
+
       if (result.summary.issues > 0) {
         stdoutLine(`\nRemediation Template (copy this format):`);
         stdoutLine(result.remediation_template);
@@ -7295,6 +9376,84 @@ ${JSON.stringify(delta, null, 2)}
     process.exit(result.summary.issues > 0 ? 1 : 0);
   }
 
+  // ============================================================================
+  // session record / replay (SessionRecord export + deterministic re-merge)
+  // ============================================================================
+  if (normalizedTop === "session" && sub === "record") {
+    const client = new AgentMailClient(runtimeConfig.agentMail);
+    const projectKey = resolve(asStringFlag(flags, "project-key") ?? runtimeConfig.defaults.projectKey);
+    const threadId = asStringFlag(flags, "thread-id") ?? action;
+    if (!threadId) throw new Error("Missing --thread-id.");
+
+    const jsonMode = asBoolFlag(flags, "json");
+    const rosterFile = asStringFlag(flags, "roster");
+    const outFileRaw = asStringFlag(flags, "out-file") ?? asStringFlag(flags, "output");
+    const outFile = outFileRaw ? resolve(outFileRaw) : null;
+
+    if (isAbsolute(projectKey)) {
+      await client.toolsCall("ensure_project", { human_key: projectKey });
+    }
+    const thread = await client.readThread({ projectKey, threadId, includeBodies: true });
+    if (thread.messages.length === 0) {
+      throw new Error(`No messages found for thread ${threadId}.`);
+    }
+
+    const record = await buildSessionRecord({
+      threadId,
+      messages: thread.messages,
+      roster: rosterFile ? parseRosterFromJsonFile(resolve(rosterFile)) : undefined,
+      interventions: await new InterventionStorage({ baseDir: projectKey }).loadSessionInterventions(threadId),
+    });
+
+    if (outFile) {
+      mkdirSync(dirname(outFile), { recursive: true });
+      writeFileSync(outFile, JSON.stringify(record, null, 2), "utf8");
+    }
+
+    if (jsonMode || !outFile) {
+      stdoutLine(JSON.stringify(outFile ? { ok: true, out_file: outFile, record } : record, null, 2));
+    } else {
+      const messageCount = record.trace.rounds.reduce((n, round) => n + round.messages.length, 0);
+      stdoutLine(`Recorded ${record.id}: ${record.trace.rounds.length} round(s), ${messageCount} message(s).`);
+      stdoutLine(`Final artifact hash: ${record.outputs.final_artifact_hash}`);
+      stdoutLine(`Wrote session record to ${outFile}.`);
+    }
+    process.exit(0);
+  }
+
+  if (normalizedTop === "session" && sub === "replay") {
+    const recordFile = action ?? asStringFlag(flags, "record");
+    if (!recordFile) throw new Error("Missing record file. Usage: brenner session replay <record.json> [--mode <mode>]");
+
+    const jsonMode = asBoolFlag(flags, "json");
+    const modeRaw = (asStringFlag(flags, "mode") ?? "verification").trim().toLowerCase();
+    const modeAliases: Record<string, ReplayMode> = { verify: "verification", compare: "comparison" };
+    const parsedMode = ReplayModeSchema.safeParse(modeAliases[modeRaw] ?? modeRaw);
+    if (!parsedMode.success) {
+      throw new Error(`Invalid --mode: ${modeRaw} (expected verification|comparison|trace).`);
+    }
+    const mode = parsedMode.data;
+
+    const againstFile = asStringFlag(flags, "against");
+    if (mode === "comparison" && !againstFile) {
+      throw new Error("Comparison replay requires --against <record.json>.");
+    }
+
+    const record = parseSessionRecordFromJsonFile(resolve(recordFile));
+    const against = againstFile ? parseSessionRecordFromJsonFile(resolve(againstFile)) : undefined;
+    const report = await replaySessionRecord(record, { mode, against });
+
+    if (jsonMode) {
+      stdoutLine(JSON.stringify(report, null, 2));
+    } else {
+      stdoutLine(`\n═══════════════════════════════════════════════════════════`);
+      stdoutLine(`  SESSION REPLAY: ${record.id}`);
+      stdoutLine(`═══════════════════════════════════════════════════════════\n`);
+      stdoutLine(formatReplayReportHuman(report));
+    }
+    process.exit(report.matches ? 0 : 1);
+  }
+
   // ============================================================================
   // Score Command
   // ============================================================================